@@ -0,0 +1,104 @@
+/**
+ * Direct Lookups
+ * Resolves queries that already name a point (coordinates, postal codes, airport codes)
+ * to a coordinate suggestion, bypassing the four-stage place search
+ */
+
+import type { QueryForm, UnifiedSuggestion } from '../types'
+import type { AirportRow } from '../data/airports'
+import { reverseGeocode } from './geocoder'
+import { geocodePostalCode } from './openMeteo'
+import { isAbortError, NotFoundError } from './httpClient'
+import { formatCoordinates } from '../utils/geo'
+
+// Airport table keyed by both IATA and ICAO code, loaded lazily like the gazetteer
+let airportsPromise: Promise<Map<string, AirportRow>> | null = null
+
+const loadAirports = (): Promise<Map<string, AirportRow>> => {
+  if (!airportsPromise) {
+    airportsPromise = import('../data/airports')
+      .then(({ AIRPORTS }) => new Map(AIRPORTS.flatMap(row => [[row[0], row], [row[1], row]] as Array<[string, AirportRow]>)))
+      .catch((error) => {
+        // Allow a later retry if the chunk failed to load
+        airportsPromise = null
+        throw error
+      })
+  }
+  return airportsPromise
+}
+
+// GeoNames, behind Open-Meteo's geocoder, only indexes the leading part of some postcodes
+const POSTCODE_PREFIXES: Record<string, (code: string) => string> = {
+  GB: code => code.replace(/\s*\d[A-Z]{2}$/, ''), // "SW1A 1AA" -> "SW1A"
+  CA: code => code.slice(0, 3), // "K1A 0B1" -> "K1A"
+  NL: code => code.slice(0, 4) // "1012 AB" -> "1012"
+}
+
+const lookupCoordinates = async (lat: number, lon: number, signal?: AbortSignal): Promise<UnifiedSuggestion> => {
+  const label = formatCoordinates(lat, lon)
+  // The nearest town only labels the point; a failed reverse lookup still loads the coordinates
+  const nearest = await reverseGeocode(lat, lon, signal).catch((error) => {
+    if (isAbortError(error)) throw error
+    return null
+  })
+  return {
+    id: `coords-${lat.toFixed(4)},${lon.toFixed(4)}`,
+    name: label,
+    displayName: nearest ? `${label} (near ${nearest.city.name}, ${nearest.city.country})` : label,
+    type: 'city',
+    country: nearest?.city.country,
+    countryCode: nearest?.city.countryCode,
+    lat,
+    lon
+  }
+}
+
+const lookupPostalCode = async (code: string, countryCode: string, signal?: AbortSignal): Promise<UnifiedSuggestion[]> => {
+  const searchCode = POSTCODE_PREFIXES[countryCode]?.(code) ?? code
+  try {
+    const place = await geocodePostalCode(searchCode, countryCode, signal)
+    return [{
+      id: `postal-${countryCode}-${code}`,
+      name: place.name,
+      displayName: `${code} ${place.name}, ${place.country || countryCode}`,
+      type: 'city',
+      country: place.country,
+      countryCode: place.countryCode?.toUpperCase() || countryCode,
+      lat: place.lat,
+      lon: place.lon
+    }]
+  } catch (error) {
+    if (error instanceof NotFoundError) return []
+    throw error
+  }
+}
+
+const lookupAirport = async (code: string): Promise<UnifiedSuggestion[]> => {
+  const row = (await loadAirports()).get(code)
+  if (!row) return []
+  const [iata, icao, name, city, countryCode, lat, lon] = row
+  return [{
+    id: `airport-${icao}`,
+    name: city,
+    displayName: `${name} (${code === icao ? icao : iata}), ${city}`,
+    type: 'city',
+    countryCode,
+    lat,
+    lon
+  }]
+}
+
+/**
+ * Resolves a coordinate, postal code or airport code query
+ * @returns The matching point (empty when the code is unknown); network failures are thrown
+ */
+export const lookupDirectQuery = async (form: QueryForm, signal?: AbortSignal): Promise<UnifiedSuggestion[]> => {
+  switch (form.kind) {
+    case 'coordinates':
+      return [await lookupCoordinates(form.lat, form.lon, signal)]
+    case 'postal':
+      return lookupPostalCode(form.code, form.countryCode, signal)
+    case 'airport':
+      return lookupAirport(form.code)
+  }
+}
@@ -2,60 +2,54 @@
  * GeoDB API Integration
  * Handles all communication with the GeoDB Cities and Countries API
  * Provides both prefix-based and exact-match search functionality
+ * Quota is spent carefully: longer queries reuse complete results of a shorter prefix,
+ * identical requests in flight are shared, and cancelled searches never reach the network
  */
 
 /// <reference types="vite/client" />
 
-import type { CitySuggestion, CountrySuggestion } from '../types'
+import type { CitySuggestion, CountrySuggestion, Geocoder, ReverseGeocodeResult } from '../types'
+import { requestJson, delay, RateLimitError } from './httpClient'
+import { getQueryLanguageHint, matchesPlaceName, normalizeSearchQuery } from '../utils/searchText'
 
 // API Configuration
 const RAPIDAPI_KEY = import.meta.env.VITE_RAPIDAPI_KEY || 'YOUR_RAPIDAPI_KEY_HERE'
+const HAS_API_KEY = !!import.meta.env.VITE_RAPIDAPI_KEY
 const RAPIDAPI_HOST = 'wft-geo-db.p.rapidapi.com'
 const BASE_URL = `https://${RAPIDAPI_HOST}/v1/geo`
 
 // Lightweight rate limiting within this module to avoid burst calls
 const lastCallAt = new Map<string, number>()
 const MIN_SPACING_MS = 1100
-const delay = (ms: number) => new Promise(res => setTimeout(res, ms))
 
 let cooldownUntil = 0
-const waitForCooldown = async () => {
-  const now = Date.now()
-  if (now < cooldownUntil) {
-    await delay(cooldownUntil - now)
-  }
-}
 
-const spaceRequests = async (key: string) => {
-  const now = Date.now()
-  const last = lastCallAt.get(key) || 0
-  const delta = now - last
-  if (delta < MIN_SPACING_MS) {
-    await delay(MIN_SPACING_MS - delta)
+/**
+ * Waits until the 429 cooldown is over and every key is past its spacing, then claims the slot
+ * A slot is only claimed when the request is about to go out, so a search cancelled while
+ * queued neither spends quota nor delays the next one; waiters re-check after waking
+ * because another request may have taken the slot meanwhile
+ */
+const waitForSlot = async (keys: string[], signal?: AbortSignal) => {
+  for (;;) {
+    const now = Date.now()
+    const readyAt = Math.max(cooldownUntil, ...keys.map(key => (lastCallAt.get(key) || 0) + MIN_SPACING_MS))
+    if (readyAt <= now) {
+      keys.forEach(key => lastCallAt.set(key, now))
+      return
+    }
+    await delay(readyAt - now, signal)
   }
-  lastCallAt.set(key, Date.now())
 }
 
-function rateLimitError(response: Response): Error {
-  // Respect Retry-After if present, else RapidAPI reset headers, else fall back
-  const retryAfterHeader = response.headers.get('retry-after')
-  let retryAfterMs: number | undefined
-  if (retryAfterHeader) {
-    const seconds = parseInt(retryAfterHeader, 10)
-    if (!Number.isNaN(seconds)) retryAfterMs = Math.min(seconds * 1000, 5000)
-  }
-  const resetHeader = response.headers.get('x-ratelimit-requests-reset')
-  if (!retryAfterMs && resetHeader) {
-    const seconds = parseInt(resetHeader, 10)
-    if (!Number.isNaN(seconds)) retryAfterMs = Math.min(seconds * 1000, 5000)
-  }
-  const err: any = new Error(`GeoDB rate limit (429)`) 
-  err.code = 'RATE_LIMIT'
-  if (retryAfterMs) err.retryAfterMs = retryAfterMs
-  // engage a short global cooldown to reduce pressure
-  const cooldown = retryAfterMs ?? 1500
-  cooldownUntil = Date.now() + cooldown
-  return err
+const GEODB_TIMEOUT_MS = 10000
+
+// Result limits per prefix endpoint; a response shorter than its limit holds every match
+const CITY_PREFIX_LIMIT = 10
+const COUNTRY_PREFIX_LIMIT = 5
+
+interface GeoDBResponse<T> {
+  data?: T[]
 }
 
 /**
@@ -66,6 +60,128 @@ const getHeaders = () => ({
   'X-RapidAPI-Host': RAPIDAPI_HOST
 })
 
+/**
+ * GETs a GeoDB endpoint and returns its `data` array
+ * A 429 engages a short global cooldown (Retry-After when given, capped at 5s) to reduce pressure
+ */
+const geoDBGet = async <T>(url: string, label: string, signal?: AbortSignal): Promise<T[]> => {
+  try {
+    const body = await requestJson<GeoDBResponse<T>>(url, { headers: getHeaders(), signal, timeoutMs: GEODB_TIMEOUT_MS, label })
+    return body.data || []
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      if (error.retryAfterMs !== undefined) error.retryAfterMs = Math.min(error.retryAfterMs, 5000)
+      cooldownUntil = Date.now() + (error.retryAfterMs ?? 1500)
+    }
+    throw error
+  }
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown[]>
+  controller: AbortController
+  callers: number // Callers still waiting for the result
+}
+
+// Identical GETs share one network request (e.g. a retyped query, or the same stage from two searches)
+const inFlight = new Map<string, InFlightRequest>()
+
+/**
+ * Queues a GeoDB GET behind the rate limiter, joining an identical request already in flight
+ * Each caller can abort on its own; the shared request is cancelled once no caller still wants it
+ */
+const geoDBRequest = <T>(url: string, slotKeys: string[], label: string, signal?: AbortSignal): Promise<T[]> => {
+  if (signal?.aborted) return Promise.reject(new DOMException('Request aborted', 'AbortError'))
+
+  let request = inFlight.get(url)
+  if (!request) {
+    const controller = new AbortController()
+    const promise = (async () => {
+      await waitForSlot(['geodb', ...slotKeys], controller.signal)
+      return geoDBGet<T>(url, label, controller.signal)
+    })()
+    const created: InFlightRequest = { promise, controller, callers: 0 }
+    promise.then(
+      () => { if (inFlight.get(url) === created) inFlight.delete(url) },
+      () => { if (inFlight.get(url) === created) inFlight.delete(url) }
+    )
+    inFlight.set(url, created)
+    request = created
+  }
+
+  const shared = request
+  shared.callers++
+  return new Promise<T[]>((resolve, reject) => {
+    const onAbort = () => {
+      shared.callers--
+      if (shared.callers === 0) {
+        if (inFlight.get(url) === shared) inFlight.delete(url)
+        shared.controller.abort()
+      }
+      reject(new DOMException('Request aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    shared.promise.then(
+      (data) => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(data as T[])
+      },
+      (error) => {
+        signal?.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+// Complete (untruncated) prefix results for this session, keyed by language hint and lowercased prefix
+// Not folded: "sao" results needn't hold every "São…" name, so accents must match for reuse
+const MAX_PREFIX_RESULTS = 50
+const cityPrefixResults = new Map<string, CitySuggestion[]>()
+const countryPrefixResults = new Map<string, CountrySuggestion[]>()
+
+const prefixText = (query: string): string => normalizeSearchQuery(query).toLowerCase()
+
+const prefixKey = (query: string, length?: number): string =>
+  `${getQueryLanguageHint(query) ?? ''}|${prefixText(query).slice(0, length)}`
+
+/**
+ * Remembers a prefix response if it holds every match, i.e. the limit didn't cut it short
+ */
+const rememberPrefixResults = <T>(store: Map<string, T[]>, query: string, results: T[], limit: number) => {
+  if (results.length >= limit) return
+  const key = prefixKey(query)
+  store.delete(key)
+  store.set(key, results)
+  while (store.size > MAX_PREFIX_RESULTS) {
+    const oldest = store.keys().next().value
+    if (oldest === undefined) break
+    store.delete(oldest)
+  }
+}
+
+/**
+ * Answers a prefix query from the complete results of itself or a shorter prefix ("Lon" answers "London")
+ * @returns null when no complete shorter result is known
+ */
+const findPrefixResults = <T extends { name: string }>(store: Map<string, T[]>, query: string): T[] | null => {
+  const length = prefixText(query).length
+  for (let end = length; end >= 2; end--) {
+    const results = store.get(prefixKey(query, end))
+    if (results) return results.filter(item => !!item.name && matchesPlaceName(item.name, query, 'prefix'))
+  }
+  return null
+}
+
+/**
+ * GeoDB matches name filters against one language at a time, so non-Latin queries
+ * ("Москва", "東京") ask for that script's language
+ */
+const languageParam = (query: string): string => {
+  const language = getQueryLanguageHint(query)
+  return language ? `&languageCode=${language}` : ''
+}
+
 /**
  * STAGE 1: Fetch city suggestions using namePrefix (partial match)
  * Used for real-time search as user types
@@ -73,32 +189,15 @@ const getHeaders = () => ({
 export const fetchCitySuggestions = async (query: string, signal?: AbortSignal): Promise<CitySuggestion[]> => {
   if (query.length < 2) return []
 
-  try {
-    await waitForCooldown()
-    await spaceRequests('geodb')
-    await spaceRequests('cities-prefix')
-    // Use a simpler approach - trust the API more and filter less
-    const url = `${BASE_URL}/cities?minPopulation=50000&namePrefix=${encodeURIComponent(query)}&limit=10`
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(),
-      signal
-    })
-
-    if (response.status === 429) {
-      throw rateLimitError(response)
-    }
-    if (!response.ok) {
-      throw new Error(`Cities API HTTP error! status: ${response.status}`)
-    }
+  const reused = findPrefixResults(cityPrefixResults, query)
+  if (reused) return reused
 
-    const data = await response.json()
-    return data.data || []
-    
-  } catch (error) {
-    throw error
-  }
+  // Use a simpler approach - trust the API more and filter less
+  const url = `${BASE_URL}/cities?minPopulation=50000&namePrefix=${encodeURIComponent(query)}&limit=${CITY_PREFIX_LIMIT}${languageParam(query)}`
+
+  const results = await geoDBRequest<CitySuggestion>(url, ['cities-prefix'], 'Cities API', signal)
+  rememberPrefixResults(cityPrefixResults, query, results, CITY_PREFIX_LIMIT)
+  return results
 }
 
 /**
@@ -108,31 +207,14 @@ export const fetchCitySuggestions = async (query: string, signal?: AbortSignal):
 export const fetchCountrySuggestions = async (query: string, signal?: AbortSignal): Promise<CountrySuggestion[]> => {
   if (query.length < 2) return []
 
-  try {
-    await waitForCooldown()
-    await spaceRequests('geodb')
-    await spaceRequests('countries-prefix')
-    const url = `${BASE_URL}/countries?namePrefix=${encodeURIComponent(query)}&limit=5&include=capital`
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(),
-      signal
-    })
-
-    if (response.status === 429) {
-      throw rateLimitError(response)
-    }
-    if (!response.ok) {
-      throw new Error(`Countries API HTTP error! status: ${response.status}`)
-    }
+  const reused = findPrefixResults(countryPrefixResults, query)
+  if (reused) return reused
 
-    const data = await response.json()
-    return data.data || []
-    
-  } catch (error) {
-    throw error
-  }
+  const url = `${BASE_URL}/countries?namePrefix=${encodeURIComponent(query)}&limit=${COUNTRY_PREFIX_LIMIT}&include=capital${languageParam(query)}`
+
+  const results = await geoDBRequest<CountrySuggestion>(url, ['countries-prefix'], 'Countries API', signal)
+  rememberPrefixResults(countryPrefixResults, query, results, COUNTRY_PREFIX_LIMIT)
+  return results
 }
 
 /**
@@ -142,41 +224,18 @@ export const fetchCountrySuggestions = async (query: string, signal?: AbortSigna
 export const fetchExactCityMatch = async (query: string, signal?: AbortSignal): Promise<CitySuggestion[]> => {
   if (query.length < 2) return []
 
-  try {
-    await waitForCooldown()
-    await spaceRequests('geodb')
-    await spaceRequests('cities-exact')
-    const url = `${BASE_URL}/cities?minPopulation=100000&name=${encodeURIComponent(query)}&limit=8`
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(),
-      signal
-    })
-
-    if (response.status === 429) {
-      throw rateLimitError(response)
-    }
-    if (!response.ok) {
-      throw new Error(`Exact Cities API HTTP error! status: ${response.status}`)
-    }
+  const url = `${BASE_URL}/cities?minPopulation=100000&name=${encodeURIComponent(query)}&limit=8${languageParam(query)}`
 
-    const data = await response.json()
-    const rawResults = data.data || []
-    
-    // CLIENT-SIDE FILTERING: Only return cities that match the query exactly or start with it
-    const filteredResults = rawResults.filter((city: CitySuggestion) => {
-      if (!city.name) return false
-      const cityName = city.name.toLowerCase()
-      const queryLower = query.toLowerCase()
-      // Allow exact match or starts with query
-      return cityName === queryLower || cityName.startsWith(queryLower)
-    })
-    
-    return filteredResults.slice(0, 5)
-  } catch (error) {
-    throw error
-  }
+  const rawResults = await geoDBRequest<CitySuggestion>(url, ['cities-exact'], 'Exact Cities API', signal)
+
+  // CLIENT-SIDE FILTERING: Only return cities that match the query exactly or start with it
+  // (ignoring case and diacritics, so "Sao Paulo" keeps "São Paulo")
+  const filteredResults = rawResults.filter((city: CitySuggestion) => {
+    if (!city.name) return false
+    return matchesPlaceName(city.name, query, 'prefix')
+  })
+
+  return filteredResults.slice(0, 5)
 }
 
 /**
@@ -186,39 +245,45 @@ export const fetchExactCityMatch = async (query: string, signal?: AbortSignal):
 export const fetchExactCountryMatch = async (query: string, signal?: AbortSignal): Promise<CountrySuggestion[]> => {
   if (query.length < 2) return []
 
-  try {
-    await waitForCooldown()
-    await spaceRequests('geodb')
-    await spaceRequests('countries-exact')
-    const url = `${BASE_URL}/countries?name=${encodeURIComponent(query)}&limit=5&include=capital`
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: getHeaders(),
-      signal
-    })
-
-    if (response.status === 429) {
-      throw rateLimitError(response)
-    }
-    if (!response.ok) {
-      throw new Error(`Exact Countries API HTTP error! status: ${response.status}`)
-    }
+  const url = `${BASE_URL}/countries?name=${encodeURIComponent(query)}&limit=5&include=capital${languageParam(query)}`
 
-    const data = await response.json()
-    const rawResults = data.data || []
-    
-    // CLIENT-SIDE FILTERING: Only return countries that match the query exactly or start with it
-    const filteredResults = rawResults.filter((country: CountrySuggestion) => {
-      if (!country.name) return false
-      const countryName = country.name.toLowerCase()
-      const queryLower = query.toLowerCase()
-      // Allow exact match or starts with query
-      return countryName === queryLower || countryName.startsWith(queryLower)
-    })
-    
-    return filteredResults.slice(0, 3)
-  } catch (error) {
-    throw error
-  }
-}
\ No newline at end of file
+  const rawResults = await geoDBRequest<CountrySuggestion>(url, ['countries-exact'], 'Exact Countries API', signal)
+
+  // CLIENT-SIDE FILTERING: Only return countries that match the query exactly or start with it
+  const filteredResults = rawResults.filter((country: CountrySuggestion) => {
+    if (!country.name) return false
+    return matchesPlaceName(country.name, query, 'prefix')
+  })
+
+  return filteredResults.slice(0, 3)
+}
+
+/**
+ * REVERSE: Fetch the nearest city to a coordinate
+ * Used by "use my location" to turn a position fix into a display name
+ */
+export const fetchNearestCity = async (lat: number, lon: number, signal?: AbortSignal): Promise<ReverseGeocodeResult | null> => {
+  // Location id in ISO-6709 form, e.g. +35.6895+139.6917; results come back nearest first
+  const sign = (value: number) => (value >= 0 ? '+' : '-')
+  const locationId = `${sign(lat)}${Math.abs(lat).toFixed(4)}${sign(lon)}${Math.abs(lon).toFixed(4)}`
+  const url = `${BASE_URL}/locations/${encodeURIComponent(locationId)}/nearbyCities?radius=100&distanceUnit=KM&types=CITY&limit=1`
+
+  const [nearest] = await geoDBRequest<CitySuggestion & { distance?: number }>(url, ['cities-near'], 'Nearby Cities API', signal)
+  if (!nearest) return null
+  return { city: nearest, distanceKm: nearest.distance ?? 0 }
+}
+
+/**
+ * GeoDB adapter for the geocoder layer
+ * Requires VITE_RAPIDAPI_KEY
+ */
+export const geoDBGeocoder: Geocoder = {
+  id: 'geodb',
+  label: 'GEODB',
+  isAvailable: () => HAS_API_KEY,
+  fetchCitySuggestions,
+  fetchCountrySuggestions,
+  fetchExactCityMatch,
+  fetchExactCountryMatch,
+  fetchNearestCity
+}
@@ -0,0 +1,47 @@
+/**
+ * Geocoder Layer
+ * Chooses the geocoding backend for the four-stage search pipeline
+ * GeoDB is primary when a RapidAPI key is configured; the offline gazetteer backs it up
+ */
+
+import type { Geocoder, PlaceCorrection, ReverseGeocodeResult } from '../types'
+import { geoDBGeocoder } from './geoDB'
+import { localGazetteer, findClosestPlaces } from './localGazetteer'
+
+/**
+ * Returns the geocoder that should serve searches first
+ */
+export const getPrimaryGeocoder = (): Geocoder => {
+  return geoDBGeocoder.isAvailable() ? geoDBGeocoder : localGazetteer
+}
+
+/**
+ * Returns the geocoder to use when the primary one fails, or null if there is none
+ */
+export const getFallbackGeocoder = (): Geocoder | null => {
+  return getPrimaryGeocoder() === localGazetteer ? null : localGazetteer
+}
+
+/**
+ * Finds the nearest named city to a coordinate, falling back to the offline gazetteer
+ * @returns The nearest city within 100 km, or null if there is none
+ */
+export const reverseGeocode = async (lat: number, lon: number, signal?: AbortSignal): Promise<ReverseGeocodeResult | null> => {
+  const primary = getPrimaryGeocoder()
+  try {
+    return await primary.fetchNearestCity(lat, lon, signal)
+  } catch (error) {
+    const fallback = getFallbackGeocoder()
+    if (!fallback || signal?.aborted) throw error
+    console.warn(`[${primary.label}] reverse geocoding failed, trying ${fallback.label}`, error)
+    return fallback.fetchNearestCity(lat, lon, signal)
+  }
+}
+
+/**
+ * "Did you mean" corrections for a query that found nothing
+ * Always served by the offline gazetteer, which can score every known name
+ */
+export const suggestCorrections = (query: string, signal?: AbortSignal): Promise<PlaceCorrection[]> => {
+  return findClosestPlaces(query, 3, signal)
+}
@@ -0,0 +1,240 @@
+/**
+ * HTTP Client
+ * Shared JSON request helper for every API module: abort support, timeouts,
+ * retry with backoff, and a typed error taxonomy callers can branch on
+ */
+
+// Error Types
+
+/**
+ * Base class for failed API requests; `status` is set for HTTP error responses
+ */
+export class ApiError extends Error {
+  status?: number
+  url?: string
+
+  constructor(message: string, options: { status?: number; url?: string } = {}) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = options.status
+    this.url = options.url
+  }
+}
+
+// 429: too many requests; `retryAfterMs` comes from Retry-After or RapidAPI reset headers
+export class RateLimitError extends ApiError {
+  retryAfterMs?: number
+
+  constructor(message: string, options: { url?: string; retryAfterMs?: number } = {}) {
+    super(message, { status: 429, url: options.url })
+    this.name = 'RateLimitError'
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+// 401/403: missing, invalid or unauthorized API key
+export class AuthError extends ApiError {
+  constructor(message: string, options: { status?: number; url?: string } = {}) {
+    super(message, options)
+    this.name = 'AuthError'
+  }
+}
+
+// 404, or a lookup that came back empty
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: { url?: string } = {}) {
+    super(message, { status: 404, url: options.url })
+    this.name = 'NotFoundError'
+  }
+}
+
+// Request never got a response (offline, DNS, CORS) or the server failed with 5xx
+export class NetworkError extends ApiError {
+  constructor(message: string, options: { status?: number; url?: string } = {}) {
+    super(message, options)
+    this.name = 'NetworkError'
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(message: string, options: { url?: string } = {}) {
+    super(message, options)
+    this.name = 'TimeoutError'
+  }
+}
+
+// Response arrived but was not JSON or lacked the fields the caller needs
+export class MalformedResponseError extends ApiError {
+  constructor(message: string, options: { url?: string } = {}) {
+    super(message, options)
+    this.name = 'MalformedResponseError'
+  }
+}
+
+/**
+ * Whether an error is a caller-initiated cancellation (never retried or reported)
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return (error as { name?: string } | null)?.name === 'AbortError'
+}
+
+// Retry Policy
+
+export interface RetryPolicy {
+  attempts: number // Total attempts, including the first
+  stopOnRateLimit?: boolean // Give up on 429 instead of waiting, e.g. when a fallback exists
+}
+
+export interface RetryInfo {
+  attempt: number // Attempt that just failed (1-based)
+  attempts: number
+  error: unknown
+  delayMs: number // Wait before the next attempt
+}
+
+/**
+ * Errors worth another attempt: throttling, timeouts and connectivity/server failures
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  return error instanceof RateLimitError || error instanceof TimeoutError || error instanceof NetworkError
+}
+
+/**
+ * Exponential backoff with jitter; rate limits wait longer and honour Retry-After
+ */
+export const getRetryDelay = (error: unknown, attempt: number): number => {
+  if (error instanceof RateLimitError) {
+    const base = Math.pow(2, attempt) * 500
+    const jitter = Math.floor(Math.random() * 250)
+    return Math.min(error.retryAfterMs ?? (base + jitter), 5000)
+  }
+  const base = Math.pow(2, attempt) * 300
+  const jitter = Math.floor(Math.random() * 150)
+  return Math.min(base + jitter, 3000)
+}
+
+/**
+ * Waits for a while; aborting the signal rejects at once with an AbortError
+ */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Request aborted', 'AbortError'))
+    return
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(new DOMException('Request aborted', 'AbortError'))
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+/**
+ * Runs an operation until it succeeds, a non-retryable error occurs, or attempts run out
+ * @param onRetry - Called before each wait, e.g. to log progress to the terminal
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  options: { signal?: AbortSignal; onRetry?: (info: RetryInfo) => void } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      const canRetry = attempt < policy.attempts
+        && isRetryableError(error)
+        && !(policy.stopOnRateLimit && error instanceof RateLimitError)
+      if (!canRetry) throw error
+
+      const delayMs = getRetryDelay(error, attempt)
+      options.onRetry?.({ attempt, attempts: policy.attempts, error, delayMs })
+      await delay(delayMs, options.signal)
+    }
+  }
+}
+
+// Requests
+
+export interface RequestOptions {
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  timeoutMs?: number
+  retry?: RetryPolicy
+  label?: string // Human-readable API name used in error messages
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  for (const header of ['retry-after', 'x-ratelimit-requests-reset']) {
+    const seconds = parseInt(response.headers.get(header) || '', 10)
+    if (!Number.isNaN(seconds)) return seconds * 1000
+  }
+  return undefined
+}
+
+/**
+ * Maps a non-2xx response to the matching error type
+ */
+const errorForResponse = (response: Response, url: string, label: string): ApiError => {
+  const { status } = response
+  const message = `${label} request failed (HTTP ${status})`
+  if (status === 429) return new RateLimitError(`${label} rate limit (429)`, { url, retryAfterMs: parseRetryAfter(response) })
+  if (status === 401 || status === 403) return new AuthError(message, { status, url })
+  if (status === 404) return new NotFoundError(message, { url })
+  if (status >= 500) return new NetworkError(message, { status, url })
+  return new ApiError(message, { status, url })
+}
+
+const requestOnce = async <T>(url: string, options: RequestOptions): Promise<T> => {
+  const { headers, signal, timeoutMs = DEFAULT_TIMEOUT_MS, label = 'API' } = options
+  if (signal?.aborted) throw new DOMException('Request aborted', 'AbortError')
+
+  // One controller for both the caller's signal and our timeout
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const forwardAbort = () => controller.abort()
+  signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(url, { method: 'GET', headers, signal: controller.signal })
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(`${label} request timed out after ${timeoutMs}ms`, { url })
+      if (isAbortError(error)) throw error
+      throw new NetworkError(`${label} unreachable: ${(error as Error)?.message ?? 'network error'}`, { url })
+    }
+
+    if (!response.ok) throw errorForResponse(response, url, label)
+
+    try {
+      return await response.json() as T
+    } catch (error) {
+      if (timedOut) throw new TimeoutError(`${label} response timed out after ${timeoutMs}ms`, { url })
+      if (isAbortError(error)) throw error
+      throw new MalformedResponseError(`${label} returned invalid JSON`, { url })
+    }
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', forwardAbort)
+  }
+}
+
+/**
+ * GETs a URL and parses the JSON body
+ * Throws RateLimitError/AuthError/NotFoundError/NetworkError/TimeoutError/MalformedResponseError
+ * (or ApiError for other HTTP failures); aborts surface as the original AbortError
+ */
+export const requestJson = <T>(url: string, options: RequestOptions = {}): Promise<T> => {
+  const run = () => requestOnce<T>(url, options)
+  return options.retry ? withRetry(run, options.retry, { signal: options.signal }) : run()
+}
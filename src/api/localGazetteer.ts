@@ -0,0 +1,228 @@
+/**
+ * Local Gazetteer Integration
+ * Offline geocoder backed by the bundled dataset in src/data/gazetteer.ts
+ * Mirrors the GeoDB stages (prefix/exact, population floors, result limits)
+ */
+
+import type { CitySuggestion, CountrySuggestion, Geocoder, PlaceCorrection, ReverseGeocodeResult } from '../types'
+import type { GazetteerCityRow, GazetteerCountryRow } from '../data/gazetteer'
+import { distanceKm } from '../utils/geo'
+import { foldText } from '../utils/searchText'
+import { isLikelyTypo, scorePlaceMatch } from '../utils/fuzzyMatch'
+
+interface GazetteerIndex {
+  cities: GazetteerCityRow[] // Sorted by population, largest first
+  countries: GazetteerCountryRow[]
+  countryNames: Map<string, string>
+  // Case- and diacritic-folded names, parallel to cities/countries
+  foldedCityNames: string[]
+  foldedCountryNames: string[]
+}
+
+// Dataset is loaded lazily so it stays out of the main bundle
+let indexPromise: Promise<GazetteerIndex> | null = null
+
+const loadIndex = (): Promise<GazetteerIndex> => {
+  if (!indexPromise) {
+    indexPromise = import('../data/gazetteer')
+      .then(({ CITIES, COUNTRIES }) => ({
+        cities: CITIES,
+        countries: COUNTRIES,
+        countryNames: new Map(COUNTRIES.map(([code, name]) => [code, name])),
+        foldedCityNames: CITIES.map(row => foldText(row[1])),
+        foldedCountryNames: COUNTRIES.map(row => foldText(row[1]))
+      }))
+      .catch((error) => {
+        // Allow a later retry if the chunk failed to load
+        indexPromise = null
+        throw error
+      })
+  }
+  return indexPromise
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Gazetteer lookup aborted', 'AbortError')
+  }
+}
+
+const toCitySuggestion = (row: GazetteerCityRow, countryNames: Map<string, string>): CitySuggestion => {
+  const [id, name, countryCode, latitude, longitude, population] = row
+  return {
+    id,
+    name,
+    country: countryNames.get(countryCode) || countryCode,
+    countryCode,
+    latitude,
+    longitude,
+    population
+  }
+}
+
+const toCountrySuggestion = (row: GazetteerCountryRow): CountrySuggestion => {
+  const [code, name, capital, latitude, longitude] = row
+  return {
+    code,
+    name,
+    capital: capital || undefined,
+    latitude: latitude ?? undefined,
+    longitude: longitude ?? undefined
+  }
+}
+
+/**
+ * Shared city lookup; rows are pre-sorted so the first matches are the largest cities
+ * Matching ignores case and diacritics ("krakow" finds "Kraków")
+ */
+const findCities = async (
+  query: string,
+  mode: 'prefix' | 'exact',
+  minPopulation: number,
+  limit: number,
+  signal?: AbortSignal
+): Promise<CitySuggestion[]> => {
+  if (query.length < 2) return []
+  const { cities, countryNames, foldedCityNames } = await loadIndex()
+  throwIfAborted(signal)
+
+  const queryFolded = foldText(query)
+  const results: CitySuggestion[] = []
+  for (const [index, row] of cities.entries()) {
+    if (row[5] < minPopulation) break
+    const cityName = foldedCityNames[index]
+    const isMatch = mode === 'prefix' ? cityName.startsWith(queryFolded) : cityName === queryFolded
+    if (isMatch) {
+      results.push(toCitySuggestion(row, countryNames))
+      if (results.length >= limit) break
+    }
+  }
+  return results
+}
+
+/**
+ * Shared country lookup over the full country table
+ */
+const findCountries = async (
+  query: string,
+  mode: 'prefix' | 'exact',
+  limit: number,
+  signal?: AbortSignal
+): Promise<CountrySuggestion[]> => {
+  if (query.length < 2) return []
+  const { countries, foldedCountryNames } = await loadIndex()
+  throwIfAborted(signal)
+
+  const queryFolded = foldText(query)
+  return countries
+    .filter((_, index) => {
+      const countryName = foldedCountryNames[index]
+      return mode === 'prefix' ? countryName.startsWith(queryFolded) : countryName === queryFolded
+    })
+    .slice(0, limit)
+    .map(toCountrySuggestion)
+}
+
+/**
+ * STAGE 1: Prefix city search (same population floor and limit as GeoDB)
+ */
+export const fetchCitySuggestions = (query: string, signal?: AbortSignal): Promise<CitySuggestion[]> =>
+  findCities(query, 'prefix', 50000, 10, signal)
+
+/**
+ * STAGE 2: Prefix country search
+ */
+export const fetchCountrySuggestions = (query: string, signal?: AbortSignal): Promise<CountrySuggestion[]> =>
+  findCountries(query, 'prefix', 5, signal)
+
+/**
+ * STAGE 3: Exact city match
+ */
+export const fetchExactCityMatch = (query: string, signal?: AbortSignal): Promise<CitySuggestion[]> =>
+  findCities(query, 'exact', 100000, 5, signal)
+
+/**
+ * STAGE 4: Exact country match
+ */
+export const fetchExactCountryMatch = (query: string, signal?: AbortSignal): Promise<CountrySuggestion[]> =>
+  findCountries(query, 'exact', 3, signal)
+
+// Same search radius as the GeoDB nearby-cities lookup
+const NEAREST_RADIUS_KM = 100
+
+/**
+ * REVERSE: Nearest gazetteer city to a coordinate, within 100 km
+ * The dataset only holds cities of 50k+ people, so rural fixes resolve to the closest town of that size
+ */
+export const fetchNearestCity = async (lat: number, lon: number, signal?: AbortSignal): Promise<ReverseGeocodeResult | null> => {
+  const { cities, countryNames } = await loadIndex()
+  throwIfAborted(signal)
+
+  let nearest: GazetteerCityRow | null = null
+  let nearestKm = Infinity
+  for (const row of cities) {
+    // Cheap latitude window before the full distance calculation (1° of latitude ≈ 111 km)
+    if (Math.abs(row[3] - lat) > NEAREST_RADIUS_KM / 111) continue
+    const km = distanceKm(lat, lon, row[3], row[4])
+    if (km < nearestKm) {
+      nearest = row
+      nearestKm = km
+    }
+  }
+
+  if (!nearest || nearestKm > NEAREST_RADIUS_KM) return null
+  return { city: toCitySuggestion(nearest, countryNames), distanceKm: nearestKm }
+}
+
+// Corrections only come from places big enough that the user likely meant them
+const CORRECTION_MIN_POPULATION = 100000
+
+/**
+ * DID YOU MEAN: Closest city and country names to a misspelled query, best first
+ * Cities and countries within typo distance are ranked by spelling, sound and population
+ */
+export const findClosestPlaces = async (query: string, limit = 3, signal?: AbortSignal): Promise<PlaceCorrection[]> => {
+  if (query.length < 3) return []
+  const { cities, countries, countryNames } = await loadIndex()
+  throwIfAborted(signal)
+
+  const scored: Array<PlaceCorrection & { score: number }> = []
+  for (const row of cities) {
+    if (row[5] < CORRECTION_MIN_POPULATION) break
+    if (!isLikelyTypo(row[1], query)) continue
+    scored.push({
+      name: row[1],
+      displayName: `${row[1]}, ${countryNames.get(row[2]) || row[2]}`,
+      type: 'city',
+      score: scorePlaceMatch(row[1], query, row[5])
+    })
+  }
+  for (const [, name] of countries) {
+    if (!isLikelyTypo(name, query)) continue
+    // Rank countries like a large city
+    scored.push({ name, displayName: name, type: 'country', score: scorePlaceMatch(name, query, 10000000) })
+  }
+
+  // One entry per name: "San Jose" once, not once per country
+  const seen = new Set<string>()
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .filter(item => !seen.has(item.name) && seen.add(item.name))
+    .slice(0, limit)
+    .map(({ name, displayName, type }) => ({ name, displayName, type }))
+}
+
+/**
+ * Offline adapter for the geocoder layer
+ * Always available: the dataset ships with the app
+ */
+export const localGazetteer: Geocoder = {
+  id: 'local',
+  label: 'OFFLINE GAZETTEER',
+  isAvailable: () => true,
+  fetchCitySuggestions,
+  fetchCountrySuggestions,
+  fetchExactCityMatch,
+  fetchExactCountryMatch,
+  fetchNearestCity
+}
@@ -0,0 +1,290 @@
+/**
+ * Open-Meteo API Integration
+ * Keyless weather provider used when OpenWeather is not configured or unavailable
+ * Maps WMO weather codes onto OpenWeather condition codes so icons stay consistent
+ */
+
+import type {
+  UnifiedSuggestion,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherSnapshot,
+  ForecastData
+} from '../types'
+import { formatDateKey, formatDayLabel, formatDateLabel } from '../utils/formatters'
+import { getMoonPhase } from '../utils/astronomy'
+import { requestJson, NotFoundError, MalformedResponseError } from './httpClient'
+
+// API Configuration (no key required)
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast'
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search'
+
+interface GeocodingApiResponse {
+  results?: Array<{
+    name: string
+    latitude: number
+    longitude: number
+    country?: string
+    country_code?: string
+    postcodes?: string[]
+  }>
+}
+
+interface CurrentApiResponse {
+  latitude: number
+  longitude: number
+  utc_offset_seconds: number
+  current: {
+    temperature_2m: number
+    relative_humidity_2m: number
+    apparent_temperature: number
+    weather_code: number
+    pressure_msl: number
+    wind_speed_10m: number
+    visibility: number
+    uv_index: number
+  }
+  daily: {
+    sunrise: number[]
+    sunset: number[]
+  }
+  hourly: {
+    time: number[]
+    uv_index: Array<number | null>
+  }
+}
+
+interface ForecastApiResponse {
+  utc_offset_seconds: number
+  hourly: {
+    time: number[]
+    temperature_2m: number[]
+    precipitation_probability: Array<number | null>
+    weather_code: number[]
+    wind_speed_10m: number[]
+  }
+  daily: {
+    time: number[]
+    weather_code: number[]
+    temperature_2m_max: number[]
+    temperature_2m_min: number[]
+    precipitation_probability_max: Array<number | null>
+    precipitation_sum: Array<number | null>
+    rain_sum: Array<number | null>
+    showers_sum: Array<number | null>
+  }
+}
+
+// WMO weather interpretation codes -> OpenWeather condition id + group
+// Reference: https://open-meteo.com/en/docs (WMO Weather interpretation codes)
+const wmoToOpenWeather: Record<number, { id: number; main: string }> = {
+  0: { id: 800, main: 'Clear' },
+  1: { id: 801, main: 'Clouds' }, 2: { id: 802, main: 'Clouds' }, 3: { id: 804, main: 'Clouds' },
+  45: { id: 741, main: 'Fog' }, 48: { id: 741, main: 'Fog' },
+  51: { id: 300, main: 'Drizzle' }, 53: { id: 301, main: 'Drizzle' }, 55: { id: 302, main: 'Drizzle' },
+  56: { id: 311, main: 'Drizzle' }, 57: { id: 312, main: 'Drizzle' },
+  61: { id: 500, main: 'Rain' }, 63: { id: 501, main: 'Rain' }, 65: { id: 502, main: 'Rain' },
+  66: { id: 511, main: 'Rain' }, 67: { id: 511, main: 'Rain' },
+  71: { id: 600, main: 'Snow' }, 73: { id: 601, main: 'Snow' }, 75: { id: 602, main: 'Snow' }, 77: { id: 600, main: 'Snow' },
+  80: { id: 520, main: 'Rain' }, 81: { id: 521, main: 'Rain' }, 82: { id: 522, main: 'Rain' },
+  85: { id: 620, main: 'Snow' }, 86: { id: 622, main: 'Snow' },
+  95: { id: 211, main: 'Thunderstorm' }, 96: { id: 201, main: 'Thunderstorm' }, 99: { id: 202, main: 'Thunderstorm' }
+}
+
+const mapWeatherCode = (code: number) => wmoToOpenWeather[code] || { id: 800, main: 'Clear' }
+
+/**
+ * Resolves a location to coordinates, geocoding names via Open-Meteo
+ */
+const resolveLocation = async (
+  location: WeatherLocation,
+  signal?: AbortSignal
+): Promise<{ lat: number; lon: number; name: string }> => {
+  if (location.kind === 'coords') {
+    return { lat: location.lat, lon: location.lon, name: location.displayName || '' }
+  }
+
+  const url = `${GEOCODING_URL}?name=${encodeURIComponent(location.query)}&count=1&language=en&format=json`
+  const data = await requestJson<GeocodingApiResponse>(url, { timeoutMs: 10000, signal, label: 'Open-Meteo geocoding' })
+  const match = data.results?.[0]
+  if (!match) {
+    throw new NotFoundError(`Open-Meteo could not resolve "${location.query}"`, { url })
+  }
+  return { lat: match.latitude, lon: match.longitude, name: match.name }
+}
+
+// Postcodes compared without spaces or case ("sw1a" matches "SW1A")
+const comparablePostcode = (code: string) => code.replace(/\s+/g, '').toUpperCase()
+
+/**
+ * Finds the place a postal code belongs to
+ * Results must list the code among their postcodes; fuzzy name matches are ignored
+ */
+export const geocodePostalCode = async (
+  code: string,
+  countryCode: string,
+  signal?: AbortSignal
+): Promise<{ name: string; lat: number; lon: number; country?: string; countryCode?: string }> => {
+  const url = `${GEOCODING_URL}?name=${encodeURIComponent(code)}&countryCode=${countryCode}&count=10&language=en&format=json`
+  const data = await requestJson<GeocodingApiResponse>(url, { timeoutMs: 10000, signal, label: 'Open-Meteo geocoding' })
+  const wanted = comparablePostcode(code)
+  const match = data.results?.find(result => result.postcodes?.some(postcode => comparablePostcode(postcode) === wanted))
+  if (!match) {
+    throw new NotFoundError(`Open-Meteo has no place for postal code "${code}" in ${countryCode}`, { url })
+  }
+  return {
+    name: match.name,
+    lat: match.latitude,
+    lon: match.longitude,
+    country: match.country,
+    countryCode: match.country_code
+  }
+}
+
+/**
+ * Fetches current conditions plus today's sun times
+ */
+const fetchCurrent = async (location: WeatherLocation, signal?: AbortSignal): Promise<WeatherSnapshot> => {
+  const { lat, lon, name } = await resolveLocation(location, signal)
+  const params = [
+    `latitude=${lat}`,
+    `longitude=${lon}`,
+    'current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,pressure_msl,wind_speed_10m,visibility,uv_index',
+    'daily=sunrise,sunset',
+    'hourly=uv_index',
+    'forecast_days=1',
+    'timezone=auto',
+    'timeformat=unixtime',
+    'wind_speed_unit=ms'
+  ].join('&')
+  const url = `${FORECAST_URL}?${params}`
+  const data = await requestJson<CurrentApiResponse>(url, { timeoutMs: 15000, signal, label: 'Open-Meteo' })
+  if (!data.current || !data.daily?.sunrise?.length || !data.hourly?.uv_index) {
+    throw new MalformedResponseError('Open-Meteo current conditions incomplete', { url })
+  }
+  const condition = mapWeatherCode(data.current.weather_code)
+
+  // Today's UV peak from the hourly series
+  const uvSeries = data.hourly.uv_index.map(v => v ?? 0)
+  const peakIndex = uvSeries.reduce((best, v, i) => (v > uvSeries[best] ? i : best), 0)
+
+  return {
+    provider: 'open-meteo',
+    current: {
+      city: name,
+      temperature: data.current.temperature_2m, // Raw Celsius
+      condition: condition.main,
+      iconCode: condition.id,
+      humidity: data.current.relative_humidity_2m,
+      windSpeed: data.current.wind_speed_10m, // Raw m/s
+      pressure: Math.round(data.current.pressure_msl)
+    },
+    celestial: {
+      sunrise: data.daily.sunrise[0],
+      sunset: data.daily.sunset[0],
+      moonPhase: getMoonPhase(),
+      timezone: data.utc_offset_seconds,
+      lat,
+      lon
+    },
+    system: {
+      feelsLike: data.current.apparent_temperature, // Raw Celsius
+      uvIndex: Math.round(data.current.uv_index ?? 0),
+      uvPeak: Math.round(uvSeries[peakIndex] ?? 0),
+      uvPeakTime: data.hourly.time[peakIndex] ?? data.daily.sunrise[0],
+      visibility: data.current.visibility ?? 10000
+    },
+    coord: { lat, lon }
+  }
+}
+
+/**
+ * Fetches a 5-day daily forecast plus a 3-hourly timeline
+ */
+const fetchForecast = async (location: WeatherLocation, signal?: AbortSignal): Promise<ForecastData> => {
+  const { lat, lon } = await resolveLocation(location, signal)
+  const params = [
+    `latitude=${lat}`,
+    `longitude=${lon}`,
+    'daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max,precipitation_sum,rain_sum,showers_sum',
+    'hourly=temperature_2m,precipitation_probability,weather_code,wind_speed_10m',
+    'forecast_days=5',
+    'timezone=auto',
+    'timeformat=unixtime',
+    'wind_speed_unit=ms'
+  ].join('&')
+  const url = `${FORECAST_URL}?${params}`
+  const data = await requestJson<ForecastApiResponse>(url, { timeoutMs: 20000, signal, label: 'Open-Meteo' })
+  if (!data.daily?.time || !data.hourly?.time) {
+    throw new MalformedResponseError('Open-Meteo forecast incomplete', { url })
+  }
+  const { daily, hourly: hourlyData, utc_offset_seconds: offset } = data
+
+  // Daily values are already aggregated over the location's calendar days (timezone=auto)
+  const dailyItems = daily.time.map((dt, i) => {
+    const dateKey = formatDateKey(dt, offset)
+    const rain = (daily.rain_sum[i] ?? 0) + (daily.showers_sum[i] ?? 0)
+    return {
+      day: formatDayLabel(dateKey),
+      date: formatDateLabel(dateKey),
+      dateKey,
+      iconCode: mapWeatherCode(daily.weather_code[i]).id,
+      high: daily.temperature_2m_max[i], // Raw Celsius
+      low: daily.temperature_2m_min[i], // Raw Celsius
+      precipitation: Math.round(daily.precipitation_probability_max[i] ?? 0),
+      rain: Math.round(rain * 10) / 10,
+      // Snow as liquid equivalent: whatever precipitation fell as neither rain nor showers
+      snow: Math.round(Math.max(0, (daily.precipitation_sum[i] ?? 0) - rain) * 10) / 10
+    }
+  })
+
+  // Open-Meteo is hourly; keep every third hour to match the 3-hour timeline resolution
+  const hourly = hourlyData.time
+    .map((dt, i) => ({ dt, i }))
+    .filter(({ i }) => i % 3 === 0)
+    .map(({ dt, i }) => {
+      const condition = mapWeatherCode(hourlyData.weather_code[i])
+      return {
+        dt,
+        dateKey: formatDateKey(dt, offset),
+        temperature: hourlyData.temperature_2m[i], // Raw Celsius
+        condition: condition.main,
+        iconCode: condition.id,
+        precipitation: Math.round(hourlyData.precipitation_probability[i] ?? 0),
+        windSpeed: hourlyData.wind_speed_10m[i] // Raw m/s
+      }
+    })
+
+  return { daily: dailyItems, hourly, timezone: offset }
+}
+
+/**
+ * Validates a suggestion by confirming Open-Meteo returns current conditions for it
+ * Countries are checked through their capital (or name) via geocoding
+ */
+const validateSuggestion = async (suggestion: UnifiedSuggestion, signal?: AbortSignal): Promise<boolean> => {
+  try {
+    const location: WeatherLocation = suggestion.type === 'city' && suggestion.lat != null && suggestion.lon != null
+      ? { kind: 'coords', lat: suggestion.lat, lon: suggestion.lon }
+      : { kind: 'name', query: suggestion.capital?.trim() || suggestion.name }
+    const snapshot = await fetchCurrent(location, signal)
+    return typeof snapshot.current.temperature === 'number'
+  } catch (error) {
+    // Only "no such place" and unusable data mean invalid; transient failures propagate
+    if (error instanceof NotFoundError || error instanceof MalformedResponseError) return false
+    throw error
+  }
+}
+
+/**
+ * Open-Meteo adapter for the weather provider layer
+ * Always available: the API does not require a key
+ */
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  label: 'OPEN-METEO',
+  isAvailable: () => true,
+  fetchCurrent,
+  fetchForecast,
+  validate: validateSuggestion
+}
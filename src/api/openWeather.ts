@@ -2,22 +2,162 @@
  * OpenWeather API Integration
  * Handles coordinate-based validation and weather data fetching
  * Validates cities and countries against actual weather data
+ * Exposes the OpenWeather adapter for the weather provider layer
  */
 
 /// <reference types="vite/client" />
 
-import type { CitySuggestion, CountrySuggestion, UnifiedSuggestion } from '../types'
+import type {
+  UnifiedSuggestion,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherSnapshot,
+  ForecastData
+} from '../types'
+import { formatDateKey } from '../utils/formatters'
+import { aggregateDailyForecast } from '../utils/forecastAggregation'
+import { getMoonPhase } from '../utils/astronomy'
+import { estimateUV } from '../utils/uvIndex'
+import { requestJson, NotFoundError, MalformedResponseError } from './httpClient'
+import { storePrevalidatedWeather } from './prevalidatedWeather'
 
 // API Configuration
 const OPENWEATHER_API_KEY = import.meta.env.VITE_OPENWEATHER_API_KEY || 'YOUR_OPENWEATHER_API_KEY_HERE'
-const BASE_URL = 'https://api.openweathermap.org/data/2.5/weather'
+const HAS_API_KEY = !!import.meta.env.VITE_OPENWEATHER_API_KEY
+const BASE_URL = 'https://api.openweathermap.org/data/2.5'
+
+interface WeatherApiResponse {
+  name: string
+  coord: {
+    lat: number
+    lon: number
+  }
+  main: {
+    temp: number
+    feels_like: number
+    humidity: number
+    pressure: number
+  }
+  weather: Array<{
+    main: string
+    id: number
+  }>
+  wind: {
+    speed: number
+  }
+  clouds?: {
+    all: number // Cloud cover in percent
+  }
+  visibility: number
+  sys: {
+    sunrise: number
+    sunset: number
+  }
+  timezone: number // Timezone offset in seconds from UTC
+}
+
+interface ForecastApiItem {
+  dt: number
+  main: {
+    temp: number
+    temp_max: number
+    temp_min: number
+  }
+  weather: Array<{
+    main: string
+    id: number
+  }>
+  wind: {
+    speed: number
+  }
+  pop: number
+  rain?: {
+    '3h'?: number // Rain volume in mm
+  }
+  snow?: {
+    '3h'?: number // Snow volume in mm
+  }
+}
+
+interface ForecastApiResponse {
+  list: ForecastApiItem[]
+  city: {
+    timezone: number // Timezone offset in seconds from UTC
+  }
+}
+
+// One Call (3.0) response shape, kept for subscriptions that include it
+export interface OneCallApiResponse {
+  current: {
+    feels_like: number
+    uvi: number
+    visibility: number
+    sunrise: number
+    sunset: number
+  }
+  daily: Array<{
+    dt: number
+    temp: {
+      max: number
+      min: number
+    }
+    weather: Array<{
+      id: number
+    }>
+    pop: number
+    moon_phase: number
+  }>
+}
+
+/**
+ * Builds the location part of an OpenWeather query string
+ */
+const locationParams = (location: WeatherLocation): string => {
+  return location.kind === 'coords'
+    ? `lat=${location.lat}&lon=${location.lon}`
+    : `q=${encodeURIComponent(location.query)}`
+}
+
+/**
+ * Normalizes a /weather response into a WeatherSnapshot
+ * Stores RAW metric values (Celsius, m/s) for smooth unit switching
+ */
+const toSnapshot = (data: WeatherApiResponse, city: string): WeatherSnapshot => ({
+  provider: 'openweather',
+  current: {
+    city,
+    temperature: data.main.temp, // Raw Celsius
+    condition: data.weather[0].main,
+    iconCode: data.weather[0].id,
+    humidity: data.main.humidity,
+    windSpeed: data.wind.speed, // Raw m/s
+    pressure: data.main.pressure
+  },
+  celestial: {
+    sunrise: data.sys.sunrise,
+    sunset: data.sys.sunset,
+    moonPhase: getMoonPhase(),
+    timezone: data.timezone,
+    lat: data.coord.lat,
+    lon: data.coord.lon
+  },
+  system: {
+    feelsLike: data.main.feels_like, // Raw Celsius
+    // Free tier has no UV data: model it from solar elevation and cloud cover
+    ...estimateUV(data.coord.lat, data.coord.lon, data.timezone, data.clouds?.all ?? 0),
+    visibility: data.visibility || 10000
+  },
+  coord: { lat: data.coord.lat, lon: data.coord.lon }
+})
 
 /**
  * Enhanced validation with comprehensive weather data verification
  * This ensures the location actually exists in OpenWeatherMap's database
  * and has complete weather data available
+ * Validated cities keep their response in the pre-validated store so selecting them needs no second request
  * @param suggestion - The city or country suggestion to validate
- * @returns Promise<boolean> - True if validation successful, false otherwise
+ * @returns Promise<boolean> - True if validation successful, false if the location is unknown or incomplete
+ * @throws Rate limit, auth, network and timeout errors, so callers don't mistake an outage for a bad location
  */
 export async function validateSuggestion(suggestion: UnifiedSuggestion, signal?: AbortSignal): Promise<boolean> {
   try {
@@ -25,29 +165,23 @@ export async function validateSuggestion(suggestion: UnifiedSuggestion, signal?:
 
     if (suggestion.type === 'city') {
       // Use coordinate-based validation for cities (most accurate)
-      if (!suggestion.lat || !suggestion.lon) {
+      if (suggestion.lat == null || suggestion.lon == null) {
         return false
       }
-      url = `${BASE_URL}?lat=${suggestion.lat}&lon=${suggestion.lon}&appid=${OPENWEATHER_API_KEY}`
+      url = `${BASE_URL}/weather?lat=${suggestion.lat}&lon=${suggestion.lon}&appid=${OPENWEATHER_API_KEY}&units=metric`
     } else {
       // Country validation with robust fallback logic
       if (suggestion.capital && suggestion.capital.trim()) {
         // Primary Method: Use capital city for validation (most reliable)
-        url = `${BASE_URL}?q=${encodeURIComponent(suggestion.capital)}&appid=${OPENWEATHER_API_KEY}`
+        url = `${BASE_URL}/weather?q=${encodeURIComponent(suggestion.capital)}&appid=${OPENWEATHER_API_KEY}`
       } else {
         // Fallback Method: Use country name directly if capital is missing
-        url = `${BASE_URL}?q=${encodeURIComponent(suggestion.name)}&appid=${OPENWEATHER_API_KEY}`
+        url = `${BASE_URL}/weather?q=${encodeURIComponent(suggestion.name)}&appid=${OPENWEATHER_API_KEY}`
       }
     }
 
-  const response = await fetch(url, { signal })
-    
-    if (!response.ok) {
-      return false
-    }
+    const data = await requestJson<WeatherApiResponse>(url, { signal, label: 'OpenWeather' })
 
-    const data = await response.json()
-    
   // Relaxed-but-strong validation: focus on core availability to reduce false negatives
   const hasWeatherData = data && data.weather && Array.isArray(data.weather) && data.weather.length > 0
   const hasMainTemp = data && data.main && typeof data.main.temp === 'number'
@@ -61,62 +195,120 @@ export async function validateSuggestion(suggestion: UnifiedSuggestion, signal?:
       // For cities, verify coordinates match (within reasonable tolerance)
       const latDiff = Math.abs(data.coord.lat - suggestion.lat!)
       const lonDiff = Math.abs(data.coord.lon - suggestion.lon!)
-      
+
       // Allow slightly larger coordinate differences (city center vs station)
       if (latDiff > 0.5 || lonDiff > 0.5) {
         return false // Coordinates don't match - wrong location
       }
+
+      // Metric units match fetchCurrent, so the response can be shown as-is if this city is picked
+      if (data.sys && data.wind) {
+        storePrevalidatedWeather(suggestion.lat!, suggestion.lon!, toSnapshot(data, data.name))
+      }
     }
 
     return isValid
 
   } catch (error) {
-    return false
+    if (error instanceof NotFoundError || error instanceof MalformedResponseError) return false
+    throw error
   }
 }
 
 /**
  * Enhanced weather data fetching with comprehensive error handling
  * @param suggestion - The validated city or country suggestion
- * @returns Promise<any> - Complete weather data object or null if failed
+ * @returns Promise<any> - Complete weather data object
+ * @throws NotFoundError/MalformedResponseError or any other typed error from the HTTP client
  */
 export async function fetchWeatherData(suggestion: UnifiedSuggestion): Promise<any> {
-  try {
-    let url: string
+  let url: string
 
-    if (suggestion.type === 'city') {
-      if (!suggestion.lat || !suggestion.lon) {
-        throw new Error(`Missing coordinates for city ${suggestion.name}`)
-      }
-      // Use coordinates for maximum accuracy
-      url = `${BASE_URL}?lat=${suggestion.lat}&lon=${suggestion.lon}&appid=${OPENWEATHER_API_KEY}&units=metric`
+  if (suggestion.type === 'city') {
+    if (!suggestion.lat || !suggestion.lon) {
+      throw new NotFoundError(`Missing coordinates for city ${suggestion.name}`)
+    }
+    // Use coordinates for maximum accuracy
+    url = `${BASE_URL}/weather?lat=${suggestion.lat}&lon=${suggestion.lon}&appid=${OPENWEATHER_API_KEY}&units=metric`
+  } else {
+    // Country weather data with robust fallback logic
+    if (suggestion.capital && suggestion.capital.trim()) {
+      // Primary Method: Use capital city for weather data (most reliable)
+      url = `${BASE_URL}/weather?q=${encodeURIComponent(suggestion.capital)}&appid=${OPENWEATHER_API_KEY}&units=metric`
     } else {
-      // Country weather data with robust fallback logic
-      if (suggestion.capital && suggestion.capital.trim()) {
-        // Primary Method: Use capital city for weather data (most reliable)
-        url = `${BASE_URL}?q=${encodeURIComponent(suggestion.capital)}&appid=${OPENWEATHER_API_KEY}&units=metric`
-      } else {
-        // Fallback Method: Use country name directly if capital is missing
-        url = `${BASE_URL}?q=${encodeURIComponent(suggestion.name)}&appid=${OPENWEATHER_API_KEY}&units=metric`
-      }
+      // Fallback Method: Use country name directly if capital is missing
+      url = `${BASE_URL}/weather?q=${encodeURIComponent(suggestion.name)}&appid=${OPENWEATHER_API_KEY}&units=metric`
     }
+  }
 
-    const response = await fetch(url)
-    
-    if (!response.ok) {
-      throw new Error(`Weather API request failed: ${response.status}`)
-    }
+  const weatherData = await requestJson<WeatherApiResponse>(url, { label: 'OpenWeather' })
 
-    const weatherData = await response.json()
-    
-    // Verify the returned data is complete before returning
-    if (!weatherData.main || !weatherData.weather || !weatherData.coord) {
-      throw new Error(`Incomplete weather data received for ${suggestion.name}`)
-    }
+  // Verify the returned data is complete before returning
+  if (!weatherData.main || !weatherData.weather || !weatherData.coord) {
+    throw new MalformedResponseError(`Incomplete weather data received for ${suggestion.name}`, { url })
+  }
 
-    return weatherData
+  return weatherData
+}
 
-  } catch (error) {
-    return null
+/**
+ * Fetches current conditions and normalizes them into a WeatherSnapshot
+ */
+const fetchCurrent = async (location: WeatherLocation, signal?: AbortSignal): Promise<WeatherSnapshot> => {
+  const url = `${BASE_URL}/weather?${locationParams(location)}&appid=${OPENWEATHER_API_KEY}&units=metric`
+  const data = await requestJson<WeatherApiResponse>(url, { timeoutMs: 15000, signal, label: 'OpenWeather' })
+  if (!data.main || !data.weather?.length || !data.coord || !data.sys) {
+    throw new MalformedResponseError('OpenWeather current conditions incomplete', { url })
+  }
+
+  return toSnapshot(data, (location.kind === 'coords' && location.displayName) || data.name)
+}
+
+/**
+ * Fetches the 5-day / 3-hour forecast
+ * Keeps every 3-hour slot for the timeline and aggregates them into local calendar days
+ */
+const fetchForecast = async (location: WeatherLocation, signal?: AbortSignal): Promise<ForecastData> => {
+  const url = `${BASE_URL}/forecast?${locationParams(location)}&appid=${OPENWEATHER_API_KEY}&units=metric`
+  const data = await requestJson<ForecastApiResponse>(url, { timeoutMs: 20000, signal, label: 'OpenWeather' })
+  if (!Array.isArray(data.list) || data.list.length === 0) {
+    throw new MalformedResponseError('OpenWeather forecast incomplete', { url })
   }
-}
\ No newline at end of file
+  const timezone = data.city?.timezone ?? 0
+
+  const daily = aggregateDailyForecast(data.list.map((item: ForecastApiItem) => ({
+    dt: item.dt,
+    temperature: item.main.temp,
+    tempMin: item.main.temp_min,
+    tempMax: item.main.temp_max,
+    pop: item.pop || 0,
+    rain: item.rain?.['3h'] || 0,
+    snow: item.snow?.['3h'] || 0,
+    iconCode: item.weather[0].id
+  })), timezone)
+
+  const hourly = data.list.map((item: ForecastApiItem) => ({
+    dt: item.dt,
+    dateKey: formatDateKey(item.dt, timezone),
+    temperature: item.main.temp, // Raw Celsius
+    condition: item.weather[0].main,
+    iconCode: item.weather[0].id,
+    precipitation: Math.round((item.pop || 0) * 100),
+    windSpeed: item.wind.speed // Raw m/s
+  }))
+
+  return { daily, hourly, timezone }
+}
+
+/**
+ * OpenWeather adapter for the weather provider layer
+ * Requires VITE_OPENWEATHER_API_KEY
+ */
+export const openWeatherProvider: WeatherProvider = {
+  id: 'openweather',
+  label: 'OPENWEATHER',
+  isAvailable: () => HAS_API_KEY,
+  fetchCurrent,
+  fetchForecast,
+  validate: validateSuggestion
+}
@@ -0,0 +1,49 @@
+/**
+ * Pre-validated weather store
+ * Keeps the current conditions fetched while validating search suggestions for a few minutes,
+ * so picking an [OK] suggestion can show them at once instead of requesting the same data again
+ * In memory only: entries are short-lived and only useful within one search session
+ */
+
+import type { WeatherSnapshot } from '../types'
+
+// Long enough to read the suggestion list and pick one; the persistent cache takes over afterwards
+const MAX_AGE_MS = 5 * 60 * 1000
+const MAX_ENTRIES = 100
+
+interface PrevalidatedEntry {
+  snapshot: WeatherSnapshot
+  storedAt: number // Epoch ms when the validation response arrived
+}
+
+const entries = new Map<string, PrevalidatedEntry>()
+
+// Coordinates rounded to ~1 km, matching the search validation cache
+const coordinateKey = (lat: number, lon: number): string => `${lat.toFixed(2)},${lon.toFixed(2)}`
+
+/**
+ * Stores the normalized conditions a validation request returned for a suggestion's coordinates
+ */
+export const storePrevalidatedWeather = (lat: number, lon: number, snapshot: WeatherSnapshot): void => {
+  const key = coordinateKey(lat, lon)
+  entries.delete(key)
+  entries.set(key, { snapshot, storedAt: Date.now() })
+  // Map insertion order is age order: drop the oldest beyond the limit
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value
+    if (oldest === undefined) break
+    entries.delete(oldest)
+  }
+}
+
+/**
+ * Removes and returns pre-validated conditions for a point, if still recent enough
+ * Taken once so the same reading isn't shown (or recorded) as fresh twice
+ */
+export const takePrevalidatedWeather = (lat: number, lon: number): PrevalidatedEntry | null => {
+  const key = coordinateKey(lat, lon)
+  const entry = entries.get(key)
+  if (!entry) return null
+  entries.delete(key)
+  return Date.now() - entry.storedAt <= MAX_AGE_MS ? entry : null
+}
@@ -0,0 +1,67 @@
+/**
+ * Weather and search caches
+ * Shared persistent cache instances with per-kind TTLs
+ */
+
+import type { WeatherLocation, WeatherSnapshot, ForecastData, CitySuggestion, CountrySuggestion, Observation } from '../types'
+import { createPersistentCache } from '../utils/persistentCache'
+import { normalizeSearchQuery } from '../utils/searchText'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Current conditions change quickly: fresh for 10 minutes, shown stale for up to a day
+export const currentWeatherCache = createPersistentCache<WeatherSnapshot>({
+  namespace: 'current',
+  ttlMs: 10 * MINUTE,
+  maxAgeMs: DAY,
+  maxEntries: 30
+})
+
+// Forecasts are issued a few times a day
+export const forecastCache = createPersistentCache<ForecastData>({
+  namespace: 'forecast',
+  ttlMs: HOUR,
+  maxAgeMs: DAY,
+  maxEntries: 30
+})
+
+// Place names and coordinates barely change
+export const citySearchCache = createPersistentCache<CitySuggestion[]>({
+  namespace: 'geo_city',
+  ttlMs: 30 * DAY,
+  maxEntries: 200
+})
+
+export const countrySearchCache = createPersistentCache<CountrySuggestion[]>({
+  namespace: 'geo_country',
+  ttlMs: 30 * DAY,
+  maxEntries: 100
+})
+
+// Whether the weather provider has data for a suggestion
+export const validationCache = createPersistentCache<boolean>({
+  namespace: 'validation',
+  ttlMs: 7 * DAY,
+  maxEntries: 500
+})
+
+// Recorded observation history per location; retention of individual readings is handled when appending
+export const observationCache = createPersistentCache<Observation[]>({
+  namespace: 'observations',
+  ttlMs: 7 * DAY,
+  maxEntries: 12
+})
+
+/**
+ * Cache key for a weather location
+ * Coordinates are rounded to ~100 m; the display name is kept since it becomes the shown city name
+ * Names are NFC-normalized so composed and decomposed accents ("ü" vs "u\u0308") share an entry
+ */
+export const getLocationCacheKey = (location: WeatherLocation): string => {
+  if (location.kind === 'coords') {
+    return `coord:${location.lat.toFixed(3)},${location.lon.toFixed(3)}|${normalizeSearchQuery(location.displayName || '').toLowerCase()}`
+  }
+  return `name:${normalizeSearchQuery(location.query).toLowerCase()}`
+}
@@ -0,0 +1,99 @@
+/**
+ * Weather Provider Layer
+ * Selects the configured weather provider and fails over to the others
+ * Callers only ever see normalized CurrentWeather/ForecastItem/CelestialData/SystemStatus
+ */
+
+/// <reference types="vite/client" />
+
+import type {
+  UnifiedSuggestion,
+  WeatherLocation,
+  WeatherProvider,
+  WeatherProviderId,
+  WeatherSnapshot,
+  ForecastData
+} from '../types'
+import { openWeatherProvider } from './openWeather'
+import { openMeteoProvider } from './openMeteo'
+import { isAbortError } from './httpClient'
+
+const PROVIDERS: Record<WeatherProviderId, WeatherProvider> = {
+  'openweather': openWeatherProvider,
+  'open-meteo': openMeteoProvider
+}
+
+// Preferred provider from config; defaults to OpenWeather when a key exists, else Open-Meteo
+const CONFIGURED_PROVIDER = import.meta.env.VITE_WEATHER_PROVIDER as WeatherProviderId | undefined
+
+if (CONFIGURED_PROVIDER && !PROVIDERS[CONFIGURED_PROVIDER]) {
+  console.error(`Unknown VITE_WEATHER_PROVIDER "${CONFIGURED_PROVIDER}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`)
+}
+
+if (CONFIGURED_PROVIDER === 'openweather' && !openWeatherProvider.isAvailable()) {
+  console.error('OpenWeatherMap API key not found. Make sure VITE_OPENWEATHER_API_KEY is set in your .env file')
+}
+
+/**
+ * Returns available providers in failover order (primary first)
+ */
+export const getProviderChain = (): WeatherProvider[] => {
+  const primary = (CONFIGURED_PROVIDER && PROVIDERS[CONFIGURED_PROVIDER])
+    || (openWeatherProvider.isAvailable() ? openWeatherProvider : openMeteoProvider)
+  const others = Object.values(PROVIDERS).filter(p => p !== primary)
+  return [primary, ...others].filter(p => p.isAvailable())
+}
+
+/**
+ * Whether at least one provider can serve requests in this environment
+ */
+export const hasWeatherProvider = (): boolean => getProviderChain().length > 0
+
+/**
+ * Runs a provider call against each provider in the chain until one succeeds
+ * Aborts are never retried on another provider; the last failure is rethrown
+ */
+const withFailover = async <T>(call: (provider: WeatherProvider) => Promise<T>): Promise<T> => {
+  const chain = getProviderChain()
+  let lastError: unknown = new Error('No weather provider available')
+
+  for (const provider of chain) {
+    try {
+      return await call(provider)
+    } catch (err) {
+      if (isAbortError(err)) throw err
+      lastError = err
+      if (provider !== chain[chain.length - 1]) {
+        console.warn(`[${provider.label}] request failed, failing over`, err)
+      }
+    }
+  }
+  throw lastError
+}
+
+/**
+ * Fetches normalized current conditions for a location
+ */
+export const fetchCurrentWeather = (location: WeatherLocation, signal?: AbortSignal): Promise<WeatherSnapshot> => {
+  return withFailover(provider => provider.fetchCurrent(location, signal))
+}
+
+/**
+ * Fetches the normalized 5-day forecast and 3-hour timeline for a location
+ */
+export const fetchForecast = (location: WeatherLocation, signal?: AbortSignal): Promise<ForecastData> => {
+  return withFailover(provider => provider.fetchForecast(location, signal))
+}
+
+/**
+ * Checks a search suggestion against the primary provider
+ */
+export const validateSuggestion = async (suggestion: UnifiedSuggestion, signal?: AbortSignal): Promise<boolean> => {
+  const [primary] = getProviderChain()
+  return primary ? primary.validate(suggestion, signal) : false
+}
+
+/**
+ * Display label for a provider id
+ */
+export const getProviderLabel = (id: WeatherProviderId): string => PROVIDERS[id].label
@@ -0,0 +1,130 @@
+/**
+ * Auto-Refresh Composable
+ * Re-runs a refresh task on the user's chosen interval while the tab is visible
+ * Hidden tabs pause; coming back to the tab or back online catches up at once; failures retry with backoff
+ * The interval choice is shared and persisted so every caller uses the same cadence
+ */
+
+import { ref, computed, watch, onMounted, onBeforeUnmount } from 'vue'
+
+const REFRESH_INTERVAL_KEY = 'weather_refresh_interval'
+
+// Minutes between refreshes; 0 turns auto-refresh off
+export const REFRESH_INTERVAL_OPTIONS = [0, 5, 10, 15, 30, 60]
+const DEFAULT_INTERVAL_MINUTES = 10
+
+// Failed refreshes retry after 1, 2, 4... minutes, never waiting longer than 30
+const RETRY_BASE_MS = 60 * 1000
+const RETRY_MAX_MS = 30 * 60 * 1000
+
+// Data counts as stale after two missed refreshes, and never sooner than 30 minutes
+const MIN_STALE_AFTER_MS = 30 * 60 * 1000
+
+const loadInterval = (): number => {
+  try {
+    const saved = localStorage.getItem(REFRESH_INTERVAL_KEY)
+    if (saved !== null && REFRESH_INTERVAL_OPTIONS.includes(Number(saved))) return Number(saved)
+  } catch {
+    // Storage unavailable: use the default
+  }
+  return DEFAULT_INTERVAL_MINUTES
+}
+
+const intervalMinutes = ref(loadInterval())
+const staleAfterMs = computed(() => Math.max(MIN_STALE_AFTER_MS, 2 * intervalMinutes.value * 60 * 1000))
+
+/**
+ * @param task - Refreshes everything on screen; resolves false (or rejects) when any part failed
+ */
+export function useAutoRefresh(task: () => Promise<boolean>) {
+  let timer: number | undefined
+  let lastRunAt = Date.now() // The first scheduled run waits a full interval after startup
+  let failures = 0
+  let running = false
+
+  const nextDelay = () => (failures
+    ? Math.min(RETRY_BASE_MS * 2 ** (failures - 1), RETRY_MAX_MS)
+    : intervalMinutes.value * 60 * 1000)
+
+  const isDue = () => Date.now() >= lastRunAt + nextDelay()
+
+  const clearTimer = () => {
+    window.clearTimeout(timer)
+    timer = undefined
+  }
+
+  const schedule = () => {
+    clearTimer()
+    if (!intervalMinutes.value || document.hidden) return
+    timer = window.setTimeout(run, Math.max(0, lastRunAt + nextDelay() - Date.now()))
+  }
+
+  async function run() {
+    clearTimer()
+    // Offline runs would only fail; the 'online' event picks things up again
+    if (running || !navigator.onLine) return
+    running = true
+    let ok = false
+    try {
+      ok = await task()
+    } catch (err) {
+      console.warn('Auto-refresh failed', err)
+    } finally {
+      running = false
+    }
+    lastRunAt = Date.now()
+    failures = ok ? 0 : failures + 1
+    schedule()
+  }
+
+  // A tab left hidden all morning refreshes the moment it is looked at again
+  const handleVisibilityChange = () => {
+    if (document.hidden) {
+      clearTimer()
+    } else if (intervalMinutes.value && isDue()) {
+      run()
+    } else {
+      schedule()
+    }
+  }
+
+  const handleOnline = () => {
+    if (intervalMinutes.value && !document.hidden && (failures || isDue())) run()
+  }
+
+  const setIntervalMinutes = (minutes: number) => {
+    if (!REFRESH_INTERVAL_OPTIONS.includes(minutes)) return
+    intervalMinutes.value = minutes
+    try {
+      localStorage.setItem(REFRESH_INTERVAL_KEY, String(minutes))
+    } catch {
+      // Storage unavailable: the interval applies for this session only
+    }
+  }
+
+  /**
+   * Whether data fetched at a given time should be flagged as stale
+   * @param updatedAt - Fetch time in epoch ms
+   */
+  const isStale = (updatedAt: number, now = Date.now()) => now - updatedAt > staleAfterMs.value
+
+  watch(intervalMinutes, schedule)
+
+  onMounted(() => {
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('online', handleOnline)
+    schedule()
+  })
+
+  onBeforeUnmount(() => {
+    clearTimer()
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    window.removeEventListener('online', handleOnline)
+  })
+
+  return {
+    intervalMinutes,
+    setIntervalMinutes,
+    isStale
+  }
+}
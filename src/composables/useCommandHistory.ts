@@ -0,0 +1,79 @@
+/**
+ * Command History Composable
+ * Shell-style ↑/↓ recall of terminal commands, persisted across sessions
+ */
+
+import { ref } from 'vue'
+
+const COMMAND_HISTORY_KEY = 'weather_command_history'
+const MAX_HISTORY = 50
+
+const loadHistory = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(COMMAND_HISTORY_KEY) || '[]')
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string').slice(-MAX_HISTORY) : []
+  } catch {
+    return []
+  }
+}
+
+export function useCommandHistory() {
+  const history = ref<string[]>(loadHistory()) // Oldest first
+  // Position while browsing; equals history length when not browsing
+  let cursor = history.value.length
+  // What the user had typed before browsing, restored when they come back down
+  let draft = ''
+
+  const persist = () => {
+    try {
+      localStorage.setItem(COMMAND_HISTORY_KEY, JSON.stringify(history.value))
+    } catch {
+      // Storage unavailable: history still works for this session
+    }
+  }
+
+  // Records a run command; repeats of the previous command are stored once
+  const record = (command: string) => {
+    const trimmed = command.trim()
+    if (trimmed && history.value[history.value.length - 1] !== trimmed) {
+      history.value = [...history.value, trimmed].slice(-MAX_HISTORY)
+      persist()
+    }
+    cursor = history.value.length
+    draft = ''
+  }
+
+  /**
+   * Steps back through history (↑)
+   * @returns The older command, or null if already at the oldest
+   */
+  const previous = (currentInput: string): string | null => {
+    if (cursor === 0) return null
+    if (cursor === history.value.length) draft = currentInput
+    cursor--
+    return history.value[cursor]
+  }
+
+  /**
+   * Steps forward through history (↓), ending at the draft being typed
+   * @returns The newer command or draft, or null if not browsing
+   */
+  const next = (): string | null => {
+    if (cursor >= history.value.length) return null
+    cursor++
+    return cursor === history.value.length ? draft : history.value[cursor]
+  }
+
+  // Stops browsing, e.g. after the user edits the recalled text
+  const resetCursor = () => {
+    cursor = history.value.length
+  }
+
+  return {
+    history,
+    record,
+    previous,
+    next,
+    resetCursor
+  }
+}
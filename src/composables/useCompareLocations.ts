@@ -0,0 +1,79 @@
+/**
+ * Compare Locations Composable
+ * Persisted set of two to four locations shown side by side in compare mode
+ * State is shared across callers so every component sees the same list
+ */
+
+import { ref, computed } from 'vue'
+import type { SavedLocation, WeatherLocation } from '../types'
+import { getLocationCacheKey } from '../api/weatherCache'
+import { isWeatherLocation } from './useSavedLocations'
+
+const COMPARE_LOCATIONS_KEY = 'weather_compare_locations'
+export const MAX_COMPARE_LOCATIONS = 4
+
+const loadCompared = (): SavedLocation[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(COMPARE_LOCATIONS_KEY) || '[]')
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter((item: SavedLocation) => typeof item?.id === 'string' && typeof item.name === 'string' && isWeatherLocation(item.location))
+      .slice(0, MAX_COMPARE_LOCATIONS)
+  } catch {
+    return []
+  }
+}
+
+const comparedLocations = ref<SavedLocation[]>(loadCompared())
+
+const persist = () => {
+  try {
+    localStorage.setItem(COMPARE_LOCATIONS_KEY, JSON.stringify(comparedLocations.value))
+  } catch {
+    // Storage unavailable: the comparison still works for this session
+  }
+}
+
+export function useCompareLocations() {
+  const isCompareFull = computed(() => comparedLocations.value.length >= MAX_COMPARE_LOCATIONS)
+
+  const isCompared = (location: WeatherLocation): boolean => {
+    const id = getLocationCacheKey(location)
+    return comparedLocations.value.some(item => item.id === id)
+  }
+
+  /**
+   * Adds a location to the comparison, or takes it out if it's already there
+   * @returns false when the location couldn't be added because the comparison is full
+   */
+  const toggleCompare = (location: WeatherLocation, name: string): boolean => {
+    const id = getLocationCacheKey(location)
+    if (comparedLocations.value.some(item => item.id === id)) {
+      removeFromCompare(id)
+      return true
+    }
+    if (isCompareFull.value) return false
+    comparedLocations.value = [...comparedLocations.value, { id, name, location }]
+    persist()
+    return true
+  }
+
+  const removeFromCompare = (id: string) => {
+    comparedLocations.value = comparedLocations.value.filter(item => item.id !== id)
+    persist()
+  }
+
+  const clearCompare = () => {
+    comparedLocations.value = []
+    persist()
+  }
+
+  return {
+    comparedLocations,
+    isCompareFull,
+    isCompared,
+    toggleCompare,
+    removeFromCompare,
+    clearCompare
+  }
+}
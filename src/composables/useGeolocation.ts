@@ -0,0 +1,137 @@
+/**
+ * Geolocation Composable
+ * "Use my location": browser position fix + reverse geocoding to a friendly display name
+ */
+
+import { ref } from 'vue'
+import type { ReverseGeocodeResult, WeatherLocation } from '../types'
+import { reverseGeocode } from '../api/geocoder'
+import { formatCoordinates } from '../utils/geo'
+
+export type GeolocationFailureReason = 'unsupported' | 'denied' | 'unavailable' | 'timeout'
+
+export type LocateResult =
+  | {
+      status: 'success'
+      location: Extract<WeatherLocation, { kind: 'coords' }>
+      accuracyMeters: number
+      lowAccuracy: boolean
+      nearest: ReverseGeocodeResult | null
+    }
+  | { status: 'error'; reason: GeolocationFailureReason; message: string }
+
+const LOCATE_TIMEOUT_MS = 10000
+const POSITION_MAX_AGE_MS = 5 * 60 * 1000
+// Fixes coarser than this (typically IP/Wi-Fi based) may resolve to a neighbouring town
+const LOW_ACCURACY_METERS = 5000
+// Set once the user has located successfully, so later visits can start at their position
+const LOCATE_ON_START_KEY = 'weather_locate_on_start'
+
+const FAILURE_MESSAGES: Record<GeolocationFailureReason, string> = {
+  unsupported: 'GEOLOCATION NOT SUPPORTED BY THIS BROWSER',
+  denied: 'LOCATION ACCESS DENIED // ALLOW IT IN BROWSER SETTINGS',
+  unavailable: 'POSITION UNAVAILABLE // NO GPS OR NETWORK FIX',
+  timeout: `LOCATION TIMEOUT // NO FIX WITHIN ${LOCATE_TIMEOUT_MS / 1000}S`
+}
+
+const failure = (reason: GeolocationFailureReason): LocateResult => ({
+  status: 'error',
+  reason,
+  message: FAILURE_MESSAGES[reason]
+})
+
+const getPosition = (): Promise<GeolocationPosition> => new Promise((resolve, reject) => {
+  navigator.geolocation.getCurrentPosition(resolve, reject, {
+    enableHighAccuracy: false,
+    timeout: LOCATE_TIMEOUT_MS,
+    maximumAge: POSITION_MAX_AGE_MS
+  })
+})
+
+const setLocateOnStart = (enabled: boolean) => {
+  try {
+    if (enabled) {
+      localStorage.setItem(LOCATE_ON_START_KEY, 'true')
+    } else {
+      localStorage.removeItem(LOCATE_ON_START_KEY)
+    }
+  } catch {
+    // Preference simply isn't remembered
+  }
+}
+
+/**
+ * Whether the app may open at the user's position without prompting:
+ * they located before and the browser still reports the permission as granted
+ */
+export const canLocateOnStart = async (): Promise<boolean> => {
+  try {
+    if (localStorage.getItem(LOCATE_ON_START_KEY) !== 'true') return false
+    if (!navigator.geolocation || !navigator.permissions) return false
+    const permission = await navigator.permissions.query({ name: 'geolocation' })
+    return permission.state === 'granted'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Gets a position fix and resolves it to a weather location named after the nearest city
+ */
+export const locateUser = async (signal?: AbortSignal): Promise<LocateResult> => {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return failure('unsupported')
+
+  let position: GeolocationPosition
+  try {
+    position = await getPosition()
+  } catch (err) {
+    const code = (err as GeolocationPositionError).code
+    if (code === 1) {
+      // PERMISSION_DENIED: stop trying at startup until the user locates again
+      setLocateOnStart(false)
+      return failure('denied')
+    }
+    return failure(code === 3 ? 'timeout' : 'unavailable')
+  }
+
+  const { latitude: lat, longitude: lon, accuracy } = position.coords
+  setLocateOnStart(true)
+
+  // A failed lookup still leaves usable coordinates, just without a place name
+  let nearest: ReverseGeocodeResult | null = null
+  try {
+    nearest = await reverseGeocode(lat, lon, signal)
+  } catch (error) {
+    console.warn('Reverse geocoding failed', error)
+  }
+
+  const displayName = nearest
+    ? [nearest.city.name, nearest.city.country].filter(Boolean).join(', ')
+    : formatCoordinates(lat, lon, 2)
+
+  return {
+    status: 'success',
+    location: { kind: 'coords', lat, lon, displayName },
+    accuracyMeters: accuracy,
+    lowAccuracy: accuracy > LOW_ACCURACY_METERS,
+    nearest
+  }
+}
+
+export function useGeolocation() {
+  const isLocating = ref(false)
+
+  const locate = async (signal?: AbortSignal): Promise<LocateResult> => {
+    isLocating.value = true
+    try {
+      return await locateUser(signal)
+    } finally {
+      isLocating.value = false
+    }
+  }
+
+  return {
+    isLocating,
+    locate
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Location Dashboard Composable
+ * Loads current conditions and forecasts for a list of locations in parallel
+ * Backs both the saved-locations dashboard and compare mode
+ * Cached data is shown first and refreshed in the background when stale
+ */
+
+import { ref } from 'vue'
+import type { SavedLocation, WeatherSnapshot, ForecastData, ForecastItem } from '../types'
+import { fetchCurrentWeather, fetchForecast } from '../api/weatherProvider'
+import { currentWeatherCache, forecastCache } from '../api/weatherCache'
+import { formatDateKey } from '../utils/formatters'
+import { useObservationHistory } from './useObservationHistory'
+import { useWeatherAlerts } from './useWeatherAlerts'
+
+export interface DashboardRow {
+  id: string
+  name: string
+  snapshot: WeatherSnapshot | null
+  today: ForecastItem | null // Today's aggregate in the location's timezone
+  forecast: ForecastData | null
+  status: 'loading' | 'ready' | 'error'
+  updatedAt: number | null // Fetch time of the conditions on screen
+}
+
+// Today's entry in the location's calendar, falling back to the first forecast day
+const findToday = (forecast: ForecastData | null | undefined): ForecastItem | null => {
+  if (!forecast?.daily.length) return null
+  const todayKey = formatDateKey(Math.floor(Date.now() / 1000), forecast.timezone)
+  return forecast.daily.find(day => day.dateKey === todayKey) ?? forecast.daily[0]
+}
+
+export function useLocationDashboard() {
+  const rows = ref<DashboardRow[]>([])
+  const isRefreshing = ref(false)
+  const { recordObservation } = useObservationHistory()
+  const { checkAlerts } = useWeatherAlerts()
+
+  // Latest-only gating so a slow refresh can't overwrite a newer one
+  let refreshId = 0
+
+  const updateRow = (id: string, patch: Partial<DashboardRow>) => {
+    rows.value = rows.value.map(row => (row.id === id ? { ...row, ...patch } : row))
+  }
+
+  // Resolves false when either request failed
+  const refreshLocation = async (saved: SavedLocation, thisRefreshId: number, force: boolean): Promise<boolean> => {
+    const current = currentWeatherCache.get(saved.id)
+    const forecast = forecastCache.get(saved.id)
+    if (!force && current && !current.stale && forecast && !forecast.stale) return true
+
+    const [currentResult, forecastResult] = await Promise.allSettled([
+      fetchCurrentWeather(saved.location),
+      fetchForecast(saved.location)
+    ])
+    if (thisRefreshId !== refreshId) return true
+
+    const patch: Partial<DashboardRow> = {}
+    if (currentResult.status === 'fulfilled') {
+      currentWeatherCache.set(saved.id, currentResult.value)
+      recordObservation(saved.id, currentResult.value)
+      patch.snapshot = currentResult.value
+      patch.status = 'ready'
+      patch.updatedAt = Date.now()
+    } else {
+      console.warn(`Dashboard refresh failed for ${saved.name}`, currentResult.reason)
+      // Keep cached conditions on screen if there are any
+      patch.status = current ? 'ready' : 'error'
+    }
+    if (forecastResult.status === 'fulfilled') {
+      forecastCache.set(saved.id, forecastResult.value)
+      patch.today = findToday(forecastResult.value)
+      patch.forecast = forecastResult.value
+    }
+    updateRow(saved.id, patch)
+    checkAlerts(saved.id)
+    return currentResult.status === 'fulfilled' && forecastResult.status === 'fulfilled'
+  }
+
+  /**
+   * Rebuilds the rows for the given locations and refreshes them all in parallel
+   * @param force - Refetch even when the cached data is still fresh
+   * @param skipIds - Locations another loader has just refreshed; their rows are only hydrated from the cache
+   * @returns Whether every location refreshed without errors
+   */
+  const refreshAll = async (locations: SavedLocation[], force = false, skipIds: string[] = []): Promise<boolean> => {
+    const thisRefreshId = ++refreshId
+
+    // Hydrate every row from the cache first so the dashboard renders instantly
+    rows.value = locations.map((saved) => {
+      const current = currentWeatherCache.get(saved.id)
+      const forecast = forecastCache.get(saved.id)
+      return {
+        id: saved.id,
+        name: saved.name,
+        snapshot: current?.value ?? null,
+        today: findToday(forecast?.value),
+        forecast: forecast?.value ?? null,
+        status: current ? 'ready' : 'loading',
+        updatedAt: current?.storedAt ?? null
+      }
+    })
+
+    isRefreshing.value = true
+    try {
+      const results = await Promise.all(locations
+        .filter(saved => !skipIds.includes(saved.id))
+        .map(saved => refreshLocation(saved, thisRefreshId, force)))
+      return results.every(Boolean)
+    } finally {
+      if (thisRefreshId === refreshId) isRefreshing.value = false
+    }
+  }
+
+  return {
+    rows,
+    isRefreshing,
+    refreshAll
+  }
+}
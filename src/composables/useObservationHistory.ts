@@ -0,0 +1,38 @@
+/**
+ * Observation History Composable
+ * Records every freshly fetched reading per location into a local time series (up to 7 days)
+ * State is shared across callers so charts update whichever view recorded the reading
+ */
+
+import { ref } from 'vue'
+import type { Observation, WeatherSnapshot } from '../types'
+import { observationCache } from '../api/weatherCache'
+import { appendObservation, pruneObservations, toObservation } from '../utils/observations'
+
+// Bumped on every write so computeds reading the cache re-evaluate
+const revision = ref(0)
+
+export function useObservationHistory() {
+  /**
+   * Records a freshly fetched snapshot; cached snapshots must not be passed here
+   * @param key - Location cache key (see getLocationCacheKey)
+   */
+  const recordObservation = (key: string, snapshot: WeatherSnapshot) => {
+    const history = observationCache.get(key)?.value ?? []
+    observationCache.set(key, appendObservation(history, toObservation(snapshot)))
+    revision.value++
+  }
+
+  /**
+   * Recorded readings for a location, oldest first, with readings past the retention limits dropped
+   */
+  const getObservations = (key: string): Observation[] => {
+    void revision.value
+    return pruneObservations(observationCache.get(key)?.value ?? [])
+  }
+
+  return {
+    recordObservation,
+    getObservations
+  }
+}
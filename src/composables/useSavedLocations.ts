@@ -0,0 +1,115 @@
+/**
+ * Saved Locations Composable
+ * Persisted list of saved places with ordering and a default home location
+ * State is shared across callers so every component sees the same list
+ */
+
+import { ref, computed } from 'vue'
+import type { SavedLocation, WeatherLocation } from '../types'
+import { getLocationCacheKey } from '../api/weatherCache'
+
+const SAVED_LOCATIONS_KEY = 'weather_saved_locations'
+const HOME_LOCATION_KEY = 'weather_home_location'
+
+// Guards stored entries against hand-edited or outdated shapes
+export const isWeatherLocation = (value: unknown): value is WeatherLocation => {
+  const loc = value as WeatherLocation | null
+  if (loc?.kind === 'name') return typeof loc.query === 'string'
+  if (loc?.kind === 'coords') return typeof loc.lat === 'number' && typeof loc.lon === 'number'
+  return false
+}
+
+const loadSaved = (): SavedLocation[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SAVED_LOCATIONS_KEY) || '[]')
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter((item: SavedLocation) => typeof item?.id === 'string' && typeof item.name === 'string' && isWeatherLocation(item.location))
+  } catch {
+    return []
+  }
+}
+
+const loadHome = (): string | null => {
+  try {
+    return localStorage.getItem(HOME_LOCATION_KEY)
+  } catch {
+    return null
+  }
+}
+
+const savedLocations = ref<SavedLocation[]>(loadSaved())
+const homeId = ref<string | null>(loadHome())
+
+const persist = () => {
+  try {
+    localStorage.setItem(SAVED_LOCATIONS_KEY, JSON.stringify(savedLocations.value))
+    if (homeId.value) {
+      localStorage.setItem(HOME_LOCATION_KEY, homeId.value)
+    } else {
+      localStorage.removeItem(HOME_LOCATION_KEY)
+    }
+  } catch {
+    // Storage unavailable: the list still works for this session
+  }
+}
+
+export function useSavedLocations() {
+  const homeLocation = computed(() => savedLocations.value.find(item => item.id === homeId.value) ?? null)
+
+  const isSaved = (location: WeatherLocation): boolean => {
+    const id = getLocationCacheKey(location)
+    return savedLocations.value.some(item => item.id === id)
+  }
+
+  const isHome = (location: WeatherLocation): boolean => homeId.value === getLocationCacheKey(location)
+
+  // Adds a location to the end of the list; saving an existing entry only refreshes its name
+  const addLocation = (location: WeatherLocation, name: string): SavedLocation => {
+    const id = getLocationCacheKey(location)
+    const existing = savedLocations.value.find(item => item.id === id)
+    if (existing) {
+      existing.name = name
+    } else {
+      savedLocations.value.push({ id, name, location })
+    }
+    persist()
+    return existing ?? savedLocations.value[savedLocations.value.length - 1]
+  }
+
+  const removeLocation = (id: string) => {
+    savedLocations.value = savedLocations.value.filter(item => item.id !== id)
+    if (homeId.value === id) homeId.value = null
+    persist()
+  }
+
+  // Moves an entry up (-1) or down (+1) the list
+  const moveLocation = (id: string, delta: number) => {
+    const list = savedLocations.value.slice()
+    const from = list.findIndex(item => item.id === id)
+    const to = from + delta
+    if (from < 0 || to < 0 || to >= list.length) return
+    const [item] = list.splice(from, 1)
+    list.splice(to, 0, item)
+    savedLocations.value = list
+    persist()
+  }
+
+  // Marks a saved entry as the location opened on startup; passing the current home clears it
+  const toggleHome = (id: string) => {
+    if (!savedLocations.value.some(item => item.id === id)) return
+    homeId.value = homeId.value === id ? null : id
+    persist()
+  }
+
+  return {
+    savedLocations,
+    homeId,
+    homeLocation,
+    isSaved,
+    isHome,
+    addLocation,
+    removeLocation,
+    moveLocation,
+    toggleHome
+  }
+}
@@ -5,14 +5,29 @@
  */
 
 import { ref } from 'vue'
-import type { UnifiedSuggestion, SearchStatus, CitySuggestion, CountrySuggestion } from '../types'
-import {
-  fetchCitySuggestions,
-  fetchCountrySuggestions,
-  fetchExactCityMatch,
-  fetchExactCountryMatch
-} from '../api/geoDB'
-import { validateSuggestion } from '../api/openWeather'
+import type { UnifiedSuggestion, SearchStatus, CitySuggestion, CountrySuggestion, Geocoder, PlaceCorrection, QueryForm } from '../types'
+import { getPrimaryGeocoder, getFallbackGeocoder, suggestCorrections } from '../api/geocoder'
+import { validateSuggestion } from '../api/weatherProvider'
+import { lookupDirectQuery } from '../api/directLookup'
+import { citySearchCache, countrySearchCache, validationCache } from '../api/weatherCache'
+import { withRetry, isAbortError, RateLimitError, AuthError, NetworkError, TimeoutError } from '../api/httpClient'
+import { normalizeSearchQuery, getSearchCacheKey, foldText, isPlausiblePlaceName } from '../utils/searchText'
+import { scorePlaceMatch } from '../utils/fuzzyMatch'
+import { resolvePlaceAlias } from '../utils/placeAliases'
+import { detectQueryForm } from '../utils/queryForms'
+import { formatCoordinates } from '../utils/geo'
+
+// Terminal label for a query that names a point directly
+const describeQueryForm = (form: QueryForm): string => {
+  switch (form.kind) {
+    case 'coordinates':
+      return `COORDINATES ${formatCoordinates(form.lat, form.lon)}`
+    case 'postal':
+      return `POSTAL CODE ${form.code} (${form.countryCode})`
+    case 'airport':
+      return `AIRPORT CODE ${form.code}`
+  }
+}
 
 export function useSearch() {
   // Reactive state
@@ -20,27 +35,40 @@ export function useSearch() {
   const suggestions = ref<UnifiedSuggestion[]>([])
   const searchError = ref<string | null>(null)
   const terminalOutput = ref<string[]>([])
+  const corrections = ref<PlaceCorrection[]>([]) // "Did you mean" options after an empty search
 
-  // Latest-only gating and lightweight caches
+  // Latest-only gating; geocoder results and positive validations live in the persistent caches
   let currentSearchId = 0
   let currentAbortController: AbortController | null = null
-  const weatherValidationCache = new Map<string, boolean>() // key: `${type}:${lat},${lon}` or `${type}:${name}`
-  const cityApiCache = new Map<string, CitySuggestion[]>()
-  const countryApiCache = new Map<string, CountrySuggestion[]>()
+  // Failed validations are only remembered for this session: they may be transient network errors
+  const failedValidations = new Set<string>() // key: `${type}:${lat},${lon}` or `${type}:${name}`
+  // Ranking context of the latest search; alias searches prefer the alias's country
+  let rankQuery = ''
+  let preferredCountryCode: string | null = null
 
   // Add output to terminal
   const addTerminalOutput = (message: string) => {
     terminalOutput.value.push(`[${new Date().toLocaleTimeString()}] ${message}`)
   }
 
-  // Keep [OK] items at the top for faster picking
+  // Relevance to the current query: spelling closeness, sound-alike and population
+  const relevance = (s: UnifiedSuggestion): number => {
+    const aliasBonus = preferredCountryCode && s.countryCode === preferredCountryCode ? 0.5 : 0
+    return scorePlaceMatch(s.name, rankQuery, s.population) + aliasBonus
+  }
+
+  // Keep [OK] items at the top for faster picking, most relevant first within each group
   const sortByValidation = (arr: UnifiedSuggestion[]): UnifiedSuggestion[] => {
     const weight = (s: UnifiedSuggestion) => (s.validated ? 0 : (s.validating ? 1 : 2))
+    const scores = new Map(arr.map(s => [s.id, relevance(s)]))
     return arr.slice().sort((a, b) => {
       const wa = weight(a)
       const wb = weight(b)
       if (wa !== wb) return wa - wb
-      // Stable-ish secondary sort by display name
+      const sa = scores.get(a.id) ?? 0
+      const sb = scores.get(b.id) ?? 0
+      if (Math.abs(sa - sb) > 0.001) return sb - sa
+      // Stable-ish tertiary sort by display name
       const an = (a.displayName || a.name).toLowerCase()
       const bn = (b.displayName || b.name).toLowerCase()
       return an.localeCompare(bn)
@@ -57,7 +85,8 @@ export function useSearch() {
       country: city.country,
       countryCode: city.countryCode,
       lat: city.latitude,
-      lon: city.longitude
+      lon: city.longitude,
+      population: city.population
     }))
   }
 
@@ -68,6 +97,8 @@ export function useSearch() {
       displayName: country.name,
       type: 'country' as const,
       countryCode: country.code,
+      lat: country.latitude,
+      lon: country.longitude,
       capital: country.capital
     }))
   }
@@ -77,61 +108,90 @@ export function useSearch() {
     searchFunction: (query: string, signal?: AbortSignal) => Promise<T[]>,
     query: string,
     apiName: string,
-    maxAttempts: number = 3
+    maxAttempts: number = 3,
+    stopOnRateLimit: boolean = false
   ): Promise<{ status: 'success' | 'error'; data: T[]; error?: string }> => {
     addTerminalOutput(`[START] ${apiName}...`)
+    const signal = currentAbortController?.signal
+    let attempt = 0
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
+    try {
+      const results = await withRetry(() => {
+        attempt++
         addTerminalOutput(`[RETRY] ${apiName} - Attempt ${attempt}/${maxAttempts}`)
-  const results = await searchFunction(query, currentAbortController?.signal)
-        addTerminalOutput(`[OK] ${apiName} - Success. Found ${results.length} results`)
-        return { status: 'success', data: results }
-      } catch (error: any) {
-        const msg = error?.message ?? 'unknown error'
-        const isRateLimit = error && (error.code === 'RATE_LIMIT' || /429/.test(msg))
-        let waitMs: number
-        if (isRateLimit) {
-          // Prefer server-provided Retry-After if present
-          const retryAfterMs = (error && typeof error.retryAfterMs === 'number') ? error.retryAfterMs : undefined
-          // Backoff a bit longer on 429 and add jitter
-          const base = Math.pow(2, attempt) * 500
-          const jitter = Math.floor(Math.random() * 250)
-          waitMs = Math.min(retryAfterMs ?? (base + jitter), 5000)
-          addTerminalOutput(`[RATE] ${apiName} - Rate limited (429). Cooling down for ${waitMs}ms`)
-          addTerminalOutput(`[SYSTEM] To reduce API load, searches are briefly throttled`)
-        } else {
-          addTerminalOutput(`[ERROR] ${apiName} - Attempt ${attempt} failed: ${msg}`)
-          const base = Math.pow(2, attempt) * 300
-          const jitter = Math.floor(Math.random() * 150)
-          waitMs = Math.min(base + jitter, 3000)
-          addTerminalOutput(`[WAIT] ${apiName} - Retrying in ${waitMs}ms...`)
-        }
-
-        if (attempt < maxAttempts) {
-          await new Promise(resolve => setTimeout(resolve, waitMs))
+        return searchFunction(query, signal)
+      }, { attempts: maxAttempts, stopOnRateLimit }, {
+        signal,
+        onRetry: ({ error, delayMs }) => {
+          if (error instanceof RateLimitError) {
+            addTerminalOutput(`[RATE] ${apiName} - Rate limited (429). Cooling down for ${delayMs}ms`)
+            addTerminalOutput(`[SYSTEM] To reduce API load, searches are briefly throttled`)
+          } else {
+            addTerminalOutput(`[ERROR] ${apiName} - Attempt ${attempt} failed: ${(error as Error)?.message ?? 'unknown error'}`)
+            addTerminalOutput(`[WAIT] ${apiName} - Retrying in ${delayMs}ms...`)
+          }
         }
+      })
+      addTerminalOutput(`[OK] ${apiName} - Success. Found ${results.length} results`)
+      return { status: 'success', data: results }
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { status: 'error', data: [], error: `${apiName} cancelled` }
+      }
+      if (error instanceof RateLimitError && stopOnRateLimit) {
+        // A fallback is available; don't burn time waiting out the quota
+        addTerminalOutput(`[RATE] ${apiName} - Rate limited (429). Skipping retries`)
+        return { status: 'error', data: [], error: `${apiName} rate limited` }
       }
+      if (error instanceof AuthError) {
+        // Retrying can't fix a bad key
+        addTerminalOutput(`[FAIL] ${apiName} - Access denied. Check the API key`)
+        return { status: 'error', data: [], error: `${apiName} access denied` }
+      }
+      addTerminalOutput(`[ERROR] ${apiName} - Attempt ${attempt} failed: ${(error as Error)?.message ?? 'unknown error'}`)
     }
 
-    const errorMsg = `${apiName} failed after ${maxAttempts} attempts`
+    const errorMsg = `${apiName} failed after ${attempt} attempt${attempt === 1 ? '' : 's'}`
     addTerminalOutput(`[FAIL] ${errorMsg}`)
     return { status: 'error', data: [], error: errorMsg }
   }
 
+  // Run one pipeline stage on the primary geocoder, falling back to the offline gazetteer
+  const runGeocoderStage = async <T>(
+    pickStage: (geocoder: Geocoder) => (query: string, signal?: AbortSignal) => Promise<T[]>,
+    query: string,
+    apiName: string
+  ): Promise<{ status: 'success' | 'error'; data: T[]; error?: string }> => {
+    const primary = getPrimaryGeocoder()
+    const fallback = getFallbackGeocoder()
+    const result = await tryPersistentApiSearch(pickStage(primary), query, apiName, 3, !!fallback)
+    if (result.status === 'success' || !fallback) return result
+
+    addTerminalOutput(`[FALLBACK] ${apiName} - ${primary.label} unavailable, using ${fallback.label}`)
+    return tryPersistentApiSearch(pickStage(fallback), query, `${apiName} (${fallback.label})`, 1)
+  }
+
   /**
    * Advanced Four-Stage Search Logic with Weather Pre-Validation
    */
-  const performSearch = async (query: string): Promise<void> => {
-    if (!query.trim()) {
+  const performSearch = async (rawQuery: string): Promise<void> => {
+    const input = normalizeSearchQuery(rawQuery)
+    corrections.value = []
+    if (!input) {
       suggestions.value = []
       searchStatus.value = 'idle'
       searchError.value = null
       return
     }
 
+    // Aliases ("NYC", "KL") search for the full name and skip the gibberish checks they would fail
+    const alias = resolvePlaceAlias(input)
+    const query = alias?.name ?? input
+    // Coordinates, postal codes and airport codes resolve straight to a point
+    const form = alias ? null : detectQueryForm(input)
+
     // Pre-validation: Don't waste API calls on unlikely queries
-    if (!isValidSearchQuery(query)) {
+    if (!alias && !form && !isValidSearchQuery(query)) {
       suggestions.value = []
       searchStatus.value = 'error'
       searchError.value = 'Invalid search pattern'
@@ -148,11 +208,53 @@ export function useSearch() {
     }
     searchStatus.value = 'fetching'
     searchError.value = null
+    rankQuery = query
+    preferredCountryCode = alias?.countryCode ?? null
     const startTime = Date.now()
 
     try {
+      // AbortController for this search's lookups and validations
+      const abortController = new AbortController()
+      currentAbortController = abortController
+
+      if (form) {
+        addTerminalOutput(`[DIRECT] ${describeQueryForm(form)} - skipping place search`)
+        const direct = await lookupDirectQuery(form, abortController.signal)
+        if (thisSearchId !== currentSearchId) return
+
+        if (direct.length > 0) {
+          suggestions.value = direct.map(s => ({ ...s, validating: true }))
+          searchStatus.value = 'success'
+          addTerminalOutput(`[DONE] ${direct[0].displayName} (${Date.now() - startTime}ms)`)
+          ;(async () => {
+            const validated = await fastValidateBatch(direct, abortController.signal)
+            if (thisSearchId !== currentSearchId) return
+            const validIds = new Set(validated.map(v => v.id))
+            suggestions.value = suggestions.value.map(s =>
+              validIds.has(s.id) ? { ...s, validating: false, validated: true } : { ...s, validating: false }
+            )
+          })()
+          return
+        }
+
+        // "LIMA" typed in capitals is a city, not an unknown ICAO code
+        if (form.kind !== 'airport' || !isValidSearchQuery(query)) {
+          suggestions.value = []
+          searchStatus.value = 'no_results'
+          addTerminalOutput(`[NONE] No location found for ${describeQueryForm(form)}`)
+          return
+        }
+        addTerminalOutput(`[INFO] ${form.code} is not a known airport code - searching place names`)
+      }
+
+      if (alias) {
+        addTerminalOutput(`[ALIAS] "${input}" -> ${alias.name}`)
+      }
       addTerminalOutput(`[SEARCH] Starting 4-stage search for: "${query}"`)
       addTerminalOutput(`[INFO] Suggestions are shown immediately; weather loads on selection`)
+      if (getPrimaryGeocoder().id === 'local') {
+        addTerminalOutput(`[INFO] GeoDB key not configured - searching ${getPrimaryGeocoder().label}`)
+      }
       let allSuggestions: UnifiedSuggestion[] = []
 
       // Local helper to push validated suggestions progressively and respect latest-only gating
@@ -167,22 +269,20 @@ export function useSearch() {
         }
       }
 
-      // AbortController for this search's validations
-      const abortController = new AbortController()
-      currentAbortController = abortController
-
       // === STAGE 1: Prefix Cities with Validation ===
       addTerminalOutput(`[STAGE 1] Prefix Cities search...`)
       // Stage 1: check cache first to reduce latency
-      const cachedCities = cityApiCache.get(query)
+      // Keys are folded so "Zurich" and "Zürich" share one entry
+      const cacheKey = getSearchCacheKey(query)
+      const cachedCities = citySearchCache.get(cacheKey)?.value
       const stage1Result = cachedCities
         ? { status: 'success' as const, data: cachedCities }
-        : await tryPersistentApiSearch(fetchCitySuggestions, query, 'Stage 1 - Prefix Cities')
+        : await runGeocoderStage(g => g.fetchCitySuggestions, query, 'Stage 1 - Prefix Cities')
 
       if (stage1Result.status === 'success' && stage1Result.data.length > 0) {
         const stage1Candidates = convertCitiesToUnified(stage1Result.data as CitySuggestion[])
         // Cache raw API response for this query
-        if (!cachedCities) cityApiCache.set(query, stage1Result.data as CitySuggestion[])
+        if (!cachedCities) citySearchCache.set(cacheKey, stage1Result.data as CitySuggestion[])
         addTerminalOutput(`   [INFO] Found ${stage1Candidates.length} city candidates`)
         // Stream and mark as validating; kick off background pre-validation
         const prevalidating = stage1Candidates.map(c => ({ ...c, validating: true }))
@@ -203,14 +303,14 @@ export function useSearch() {
       // === STAGE 2: Prefix Countries with Validation ===
       if (allSuggestions.length === 0) {
         addTerminalOutput(`[STAGE 2] Prefix Countries search...`)
-        const cachedCountries = countryApiCache.get(query)
+        const cachedCountries = countrySearchCache.get(cacheKey)?.value
         const stage2Result = cachedCountries
           ? { status: 'success' as const, data: cachedCountries }
-          : await tryPersistentApiSearch(fetchCountrySuggestions, query, 'Stage 2 - Prefix Countries')
+          : await runGeocoderStage(g => g.fetchCountrySuggestions, query, 'Stage 2 - Prefix Countries')
 
         if (stage2Result.status === 'success' && stage2Result.data.length > 0) {
           const stage2Candidates = convertCountriesToUnified(stage2Result.data as CountrySuggestion[])
-          if (!cachedCountries) countryApiCache.set(query, stage2Result.data as CountrySuggestion[])
+          if (!cachedCountries) countrySearchCache.set(cacheKey, stage2Result.data as CountrySuggestion[])
           addTerminalOutput(`   [INFO] Found ${stage2Candidates.length} country candidates`)
           const prevalidating = stage2Candidates.map(c => ({ ...c, validating: true }))
           pushIfLatest(prevalidating)
@@ -230,7 +330,7 @@ export function useSearch() {
       // === STAGE 3: Exact Cities (Fallback) with Validation ===
       if (allSuggestions.length === 0) {
         addTerminalOutput(`[STAGE 3] Exact City fallback search...`)
-        const stage3Result = await tryPersistentApiSearch(fetchExactCityMatch, query, 'Stage 3 - Exact Cities')
+        const stage3Result = await runGeocoderStage(g => g.fetchExactCityMatch, query, 'Stage 3 - Exact Cities')
 
         if (stage3Result.status === 'success' && stage3Result.data.length > 0) {
           const stage3Candidates = convertCitiesToUnified(stage3Result.data as CitySuggestion[])
@@ -253,7 +353,7 @@ export function useSearch() {
       // === STAGE 4: Exact Countries (Final Fallback) with Validation ===
       if (allSuggestions.length === 0) {
         addTerminalOutput(`[STAGE 4] Exact Country fallback search...`)
-        const stage4Result = await tryPersistentApiSearch(fetchExactCountryMatch, query, 'Stage 4 - Exact Countries')
+        const stage4Result = await runGeocoderStage(g => g.fetchExactCountryMatch, query, 'Stage 4 - Exact Countries')
 
         if (stage4Result.status === 'success' && stage4Result.data.length > 0) {
           const stage4Candidates = convertCountriesToUnified(stage4Result.data as CountrySuggestion[])
@@ -283,7 +383,16 @@ export function useSearch() {
         suggestions.value = []
         searchStatus.value = 'no_results'
         addTerminalOutput(`[NONE] No weather-validated results found after 4-stage search (${searchTime}ms)`)
-        addTerminalOutput(`[SUGGESTION] Check spelling or try a different location name`)
+
+        // Offer close spellings from the gazetteer ("Phildelphia" -> Philadelphia)
+        const closest = await suggestCorrections(query, abortController.signal).catch(() => [])
+        if (thisSearchId !== currentSearchId) return
+        corrections.value = closest
+        if (closest.length) {
+          addTerminalOutput(`[SUGGESTION] Did you mean ${closest.map(c => `"${c.displayName}"`).join(' or ')}?`)
+        } else {
+          addTerminalOutput(`[SUGGESTION] Check spelling or try a different location name`)
+        }
       }
 
     } catch (error) {
@@ -297,65 +406,34 @@ export function useSearch() {
 
   /**
    * Enhanced pre-validation to prevent invalid searches
+   * Unicode-aware: accented and non-Latin names pass, gibberish checks depend on the script
    */
   const isValidSearchQuery = (query: string): boolean => {
-    // Basic checks
-    if (!query || query.length < 2) return false
-
-    // Must contain only valid characters
-    if (!/^[a-zA-Z\s\-']+$/.test(query)) return false
-
-    // Gibberish patterns
-    const gibberishPatterns = [
-      /^[aeiou]{3,}$/i,           // All vowels: "aaa", "eee", "iii"
-      /^[bcdfg-np-tv-z]{4,}$/i,  // All consonants: "bbbbb", "zzzzz"
-      /(.)\1{2,}/i,              // Repeated chars: "aaa", "111"
-      /^([a-z])\1+$/i,           // Single repeated letter: "aaaa", "bbbb"
-      /^(qwe|asd|zxc|qaz|wsx|qwer|asdf|zxcv)/i, // Keyboard patterns
-      /^(test|asdf|hjkl|poiu|mnbv|tyui)/i, // Common test strings
-      /^(.)\1(.)\2+$/i,          // Alternating patterns: "abab", "1212"
-      /^[qwertyuiop]+$/i,        // Top keyboard row
-      /^[asdfghjkl]+$/i,         // Middle keyboard row
-      /^[zxcvbnm]+$/i,           // Bottom keyboard row
-      /^[aeiouAEIOU]{2,}$/,
-      /^[bcdfg-np-tv-zBCDFG-NP-TV-Z]{3,}$/
-    ]
-
-    const isGibberish = gibberishPatterns.some(pattern => pattern.test(query))
-    if (isGibberish) return false
-
-    // Must have both vowels and consonants for realistic words (length > 2)
-    if (query.length > 2) {
-      const hasVowel = /[aeiouAEIOU]/.test(query)
-      const hasConsonant = /[bcdfg-np-tv-zBCDFG-NP-TV-Z]/.test(query)
-      if (!hasVowel || !hasConsonant) return false
-    }
-
-    // Must not start or end with spaces/hyphens
-    if (/^[\s\-]|[\s\-]$/.test(query)) return false
-
-    // Length bounds
-    if (query.length > 50) return false
-
-    return true
+    return isPlausiblePlaceName(query)
   }
 
   // Cached batch validator used during progressive streaming
+  // Validation cache key: rounded coordinates for cities, folded name for countries
+  const getValidationKey = (c: UnifiedSuggestion): string => {
+    return c.type === 'city' && c.lat != null && c.lon != null
+      ? `city:${c.lat.toFixed(2)},${c.lon.toFixed(2)}`
+      : `country:${foldText(c.name)}`
+  }
+
   const fastValidateBatch = async (candidates: UnifiedSuggestion[], signal: AbortSignal): Promise<UnifiedSuggestion[]> => {
     const promises = candidates.map(async (c) => {
-      // Build cache key
-      const key = c.type === 'city' && c.lat != null && c.lon != null
-        ? `city:${c.lat.toFixed(2)},${c.lon.toFixed(2)}`
-        : `country:${c.name.toLowerCase()}`
-
-      const cached = weatherValidationCache.get(key)
-      if (cached !== undefined) {
-        return cached ? c : null
-      }
+      const key = getValidationKey(c)
+
+      if (validationCache.get(key)) return c
+      if (failedValidations.has(key)) return null
 
       try {
         const ok = await validateSuggestion(c, signal)
-        weatherValidationCache.set(key, ok)
+        if (ok) {
+          validationCache.set(key, true)
+        } else if (!signal.aborted) {
+          failedValidations.add(key)
+        }
         return ok ? c : null
       } catch {
         return null
@@ -367,8 +445,16 @@ export function useSearch() {
 
   /**
    * Validates a suggestion using OpenWeatherMap API
+   * Suggestions already validated ([OK]) are accepted without another request, so selection is instant
+   * and the conditions fetched during validation are what the weather view shows
+   * A hit on the 7-day validationCache stores no snapshot, so those picks load through the weather cache or a full fetch
    */
   const validateAndSelectSuggestion = async (suggestion: UnifiedSuggestion): Promise<boolean> => {
+    if (validationCache.get(getValidationKey(suggestion))) {
+      addTerminalOutput(`[OK] ${suggestion.name} already validated`)
+      return true
+    }
+
     addTerminalOutput(`[VALIDATE] ${suggestion.name}...`)
 
     try {
@@ -382,7 +468,12 @@ export function useSearch() {
         return false
       }
     } catch (error) {
-      addTerminalOutput(`[ERROR] Validation error for ${suggestion.name}: ${error}`)
+      const reason = error instanceof RateLimitError ? 'weather service rate limited'
+        : error instanceof AuthError ? 'weather API key rejected'
+        : error instanceof TimeoutError ? 'weather service timed out'
+        : error instanceof NetworkError ? 'weather service unreachable'
+        : (error as Error)?.message ?? 'unknown error'
+      addTerminalOutput(`[ERROR] Validation error for ${suggestion.name}: ${reason}`)
       return false
     }
   }
@@ -392,6 +483,7 @@ export function useSearch() {
    */
   const clearSearch = () => {
     suggestions.value = []
+    corrections.value = []
     searchStatus.value = 'idle'
     searchError.value = null
     terminalOutput.value = []
@@ -410,6 +502,7 @@ export function useSearch() {
     suggestions,
     searchError,
     terminalOutput,
+    corrections,
 
     // Actions
     performSearch,
@@ -0,0 +1,237 @@
+/**
+ * Terminal Commands Composable
+ * Slash-command language for the search input: parsing, tab completion and execution
+ * App-level effects (loading a location, refreshing) go through the caller's context
+ */
+
+import type { UnitPreferences, WeatherLocation } from '../types'
+import { useUnitPreferences } from './useUnitPreferences'
+import { useSavedLocations } from './useSavedLocations'
+import { parseCoordinates, formatCoordinates } from '../utils/geo'
+
+export interface CommandContext {
+  print: (...lines: string[]) => void
+  clear: () => void
+  selectCoordinates: (lat: number, lon: number) => void
+  refresh: () => void
+  openSaved: (id: string) => void
+  getCurrent: () => { location: WeatherLocation; name: string } | null
+}
+
+interface CommandSpec {
+  name: string
+  usage: string
+  description: string
+}
+
+const COMMANDS: CommandSpec[] = [
+  { name: 'help', usage: '/help', description: 'LIST COMMANDS' },
+  { name: 'units', usage: '/units [c|f|k|metric|imperial] or /units <quantity> <unit>', description: 'SHOW OR CHANGE DISPLAY UNITS' },
+  { name: 'fav', usage: '/fav <add|list|open N|remove N>', description: 'MANAGE SAVED LOCATIONS' },
+  { name: 'coords', usage: '/coords <lat>,<lon>', description: 'WEATHER AT A COORDINATE' },
+  { name: 'refresh', usage: '/refresh', description: 'REFETCH WEATHER FOR THE CURRENT VIEW' },
+  { name: 'clear', usage: '/clear', description: 'CLEAR THE TERMINAL' }
+]
+
+// Short names typed after /units, mapped to the preference they change
+const UNIT_QUANTITIES: Record<string, { key: keyof UnitPreferences; units: Record<string, string> }> = {
+  temp: { key: 'temperature', units: { c: 'celsius', f: 'fahrenheit', k: 'kelvin' } },
+  wind: { key: 'windSpeed', units: { kmh: 'kmh', ms: 'ms', mph: 'mph', kn: 'knots', bft: 'beaufort' } },
+  pressure: { key: 'pressure', units: { hpa: 'hPa', inhg: 'inHg', mmhg: 'mmHg' } },
+  visibility: { key: 'visibility', units: { km: 'km', mi: 'mi' } },
+  precip: { key: 'precipitation', units: { mm: 'mm', in: 'in' } }
+}
+
+const FAV_ACTIONS = ['add', 'list', 'open', 'remove']
+
+// Own keys only, so typed words like "constructor" never resolve to inherited members
+const lookup = <T>(table: Record<string, T>, key: string | undefined): T | undefined => {
+  return key !== undefined && Object.hasOwn(table, key) ? table[key] : undefined
+}
+
+/**
+ * Splits a command line into its name and arguments
+ * @returns null when the input isn't a command (doesn't start with "/")
+ */
+export function parseCommandLine(input: string): { name: string; args: string[] } | null {
+  const trimmed = input.trim()
+  if (!trimmed.startsWith('/')) return null
+  const [name, ...args] = trimmed.slice(1).split(/\s+/)
+  return { name: name.toLowerCase(), args }
+}
+
+const commonPrefix = (values: string[]): string => {
+  return values.reduce((prefix, value) => {
+    let i = 0
+    while (i < prefix.length && prefix[i] === value[i]) i++
+    return prefix.slice(0, i)
+  })
+}
+
+export function useTerminalCommands(context: CommandContext) {
+  const { symbols, setUnit, applyPreset } = useUnitPreferences()
+  const { savedLocations, homeId, addLocation, removeLocation } = useSavedLocations()
+
+  // Candidates for the token being completed, given the tokens before it
+  const candidatesFor = (tokens: string[]): string[] => {
+    const [command, first] = tokens
+    if (tokens.length === 1) return COMMANDS.map(c => `/${c.name}`)
+    if (command === '/units') {
+      if (tokens.length === 2) return ['c', 'f', 'k', 'metric', 'imperial', ...Object.keys(UNIT_QUANTITIES)]
+      const quantity = lookup(UNIT_QUANTITIES, first)
+      if (tokens.length === 3 && quantity) return Object.keys(quantity.units)
+    }
+    if (command === '/fav') {
+      if (tokens.length === 2) return FAV_ACTIONS
+      if (tokens.length === 3 && (first === 'open' || first === 'remove')) {
+        return savedLocations.value.map((_, index) => String(index + 1))
+      }
+    }
+    return []
+  }
+
+  /**
+   * Tab completion for the last token of a command line
+   * @returns The completed input, plus the options when the completion is ambiguous
+   */
+  const complete = (input: string): { value: string; options: string[] } => {
+    const tokens = input.trimStart().split(/\s+/)
+    tokens[0] = tokens[0].toLowerCase()
+    const partial = tokens[tokens.length - 1].toLowerCase()
+    const matches = candidatesFor(tokens).filter(candidate => candidate.startsWith(partial))
+    if (!matches.length) return { value: input, options: [] }
+
+    const head = tokens.slice(0, -1).join(' ')
+    const join = (last: string) => (head ? `${head} ${last}` : last)
+    if (matches.length === 1) return { value: `${join(matches[0])} `, options: [] }
+    return { value: join(commonPrefix(matches)), options: matches }
+  }
+
+  const printUnits = () => {
+    const s = symbols.value
+    context.print(`[UNITS] TEMP ${s.temperature} | WIND ${s.windSpeed} | PRESSURE ${s.pressure} | VISIBILITY ${s.visibility} | PRECIP ${s.precipitation}`)
+  }
+
+  const runUnits = (args: string[]) => {
+    const [first, second] = args.map(arg => arg.toLowerCase())
+    if (!first) {
+      printUnits()
+      return
+    }
+    if (first === 'metric' || first === 'imperial') {
+      applyPreset(first)
+      printUnits()
+      return
+    }
+    const temperature = lookup(UNIT_QUANTITIES.temp.units, first)
+    if (temperature && !second) {
+      setUnit('temperature', temperature as UnitPreferences['temperature'])
+      printUnits()
+      return
+    }
+    const quantity = lookup(UNIT_QUANTITIES, first)
+    const unit = quantity && lookup(quantity.units, second)
+    if (!quantity || !unit) {
+      const options = quantity ? Object.keys(quantity.units).join('|') : Object.keys(UNIT_QUANTITIES).join('|')
+      context.print(`[ERROR] UNKNOWN UNIT // TRY /units ${quantity ? `${first} <${options}>` : `<${options}> <unit>`}`)
+      return
+    }
+    setUnit(quantity.key, unit as UnitPreferences[typeof quantity.key])
+    printUnits()
+  }
+
+  // Resolves the 1-based index used by /fav open and /fav remove
+  const savedAt = (arg: string | undefined) => {
+    const index = Number(arg) - 1
+    return Number.isInteger(index) ? savedLocations.value[index] ?? null : null
+  }
+
+  const runFav = (args: string[]) => {
+    const [action = 'list', arg] = args.map(a => a.toLowerCase())
+    if (action === 'list') {
+      if (!savedLocations.value.length) {
+        context.print('[FAV] NO SAVED LOCATIONS // USE /fav add')
+        return
+      }
+      context.print(...savedLocations.value.map((item, index) =>
+        `[FAV] ${index + 1}. ${item.name}${item.id === homeId.value ? ' (HOME)' : ''}`
+      ))
+      return
+    }
+    if (action === 'add') {
+      const current = context.getCurrent()
+      if (!current) {
+        context.print('[ERROR] NO LOCATION LOADED // SEARCH FOR ONE FIRST')
+        return
+      }
+      const saved = addLocation(current.location, current.name)
+      context.print(`[FAV] SAVED ${saved.name} AS #${savedLocations.value.indexOf(saved) + 1}`)
+      return
+    }
+    if (action === 'open' || action === 'remove') {
+      const item = savedAt(arg)
+      if (!item) {
+        context.print(`[ERROR] NO SAVED LOCATION #${arg ?? '?'} // SEE /fav list`)
+        return
+      }
+      if (action === 'open') {
+        context.print(`[FAV] OPENING ${item.name}`)
+        context.openSaved(item.id)
+      } else {
+        removeLocation(item.id)
+        context.print(`[FAV] REMOVED ${item.name}`)
+      }
+      return
+    }
+    context.print(`[ERROR] UNKNOWN ACTION "${action}" // TRY /fav <add|list|open N|remove N>`)
+  }
+
+  const runCoords = (args: string[]) => {
+    const coords = parseCoordinates(args.join(' '))
+    if (!coords) {
+      context.print('[ERROR] INVALID COORDINATES // TRY /coords 40.71,-74.00')
+      return
+    }
+    context.print(`[GEO] LOADING WEATHER FOR ${formatCoordinates(coords.lat, coords.lon)}`)
+    context.selectCoordinates(coords.lat, coords.lon)
+  }
+
+  /**
+   * Runs one command line, writing its output through the context
+   */
+  const run = (input: string) => {
+    const parsed = parseCommandLine(input)
+    if (!parsed) return
+    context.print(`$ ${input.trim()}`)
+
+    switch (parsed.name) {
+      case 'help':
+        context.print(...COMMANDS.map(c => `${c.usage} -- ${c.description}`))
+        context.print('[TAB] COMPLETE  [↑/↓] HISTORY')
+        break
+      case 'units':
+        runUnits(parsed.args)
+        break
+      case 'fav':
+        runFav(parsed.args)
+        break
+      case 'coords':
+        runCoords(parsed.args)
+        break
+      case 'refresh':
+        context.print('[REFRESH] REFETCHING WEATHER DATA')
+        context.refresh()
+        break
+      case 'clear':
+        context.clear()
+        break
+      default:
+        context.print(`[ERROR] UNKNOWN COMMAND "/${parsed.name}" // TYPE /help`)
+    }
+  }
+
+  return {
+    run,
+    complete
+  }
+}
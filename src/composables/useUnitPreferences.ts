@@ -0,0 +1,106 @@
+/**
+ * Unit Preferences Composable
+ * Persisted display unit for each quantity (temperature, wind, pressure, visibility, precipitation)
+ * State is shared across callers so every component converts the same way
+ */
+
+import { ref, computed } from 'vue'
+import type { UnitPreferences } from '../types'
+import {
+  DEFAULT_UNITS,
+  UNIT_PRESETS,
+  TEMPERATURE_SYMBOLS,
+  WIND_SPEED_SYMBOLS,
+  PRESSURE_SYMBOLS,
+  VISIBILITY_SYMBOLS,
+  PRECIPITATION_SYMBOLS
+} from '../utils/units'
+
+const UNITS_KEY = 'weather_units'
+// Single metric/imperial switch used before per-quantity preferences existed
+const LEGACY_UNIT_KEY = 'weather_unit'
+
+// Valid choices per quantity, used to drop stale or hand-edited values
+const ALLOWED: { [K in keyof UnitPreferences]: readonly UnitPreferences[K][] } = {
+  temperature: Object.keys(TEMPERATURE_SYMBOLS) as UnitPreferences['temperature'][],
+  windSpeed: Object.keys(WIND_SPEED_SYMBOLS) as UnitPreferences['windSpeed'][],
+  pressure: Object.keys(PRESSURE_SYMBOLS) as UnitPreferences['pressure'][],
+  visibility: Object.keys(VISIBILITY_SYMBOLS) as UnitPreferences['visibility'][],
+  precipitation: Object.keys(PRECIPITATION_SYMBOLS) as UnitPreferences['precipitation'][]
+}
+
+const sanitize = (value: Partial<UnitPreferences> | null): UnitPreferences => {
+  const pick = <K extends keyof UnitPreferences>(key: K): UnitPreferences[K] => {
+    const candidate = value?.[key]
+    return candidate && ALLOWED[key].includes(candidate) ? candidate : DEFAULT_UNITS[key]
+  }
+  return {
+    temperature: pick('temperature'),
+    windSpeed: pick('windSpeed'),
+    pressure: pick('pressure'),
+    visibility: pick('visibility'),
+    precipitation: pick('precipitation')
+  }
+}
+
+const loadUnits = (): UnitPreferences => {
+  try {
+    const stored = localStorage.getItem(UNITS_KEY)
+    if (stored) return sanitize(JSON.parse(stored))
+    // Carry the old metric/imperial choice over on first load
+    return localStorage.getItem(LEGACY_UNIT_KEY) === 'imperial' ? { ...UNIT_PRESETS.imperial } : { ...DEFAULT_UNITS }
+  } catch {
+    return { ...DEFAULT_UNITS }
+  }
+}
+
+const units = ref<UnitPreferences>(loadUnits())
+
+const persist = () => {
+  try {
+    localStorage.setItem(UNITS_KEY, JSON.stringify(units.value))
+    localStorage.removeItem(LEGACY_UNIT_KEY)
+  } catch {
+    // Storage unavailable: preferences still apply for this session
+  }
+}
+
+export function useUnitPreferences() {
+  const setUnit = <K extends keyof UnitPreferences>(key: K, value: UnitPreferences[K]) => {
+    units.value = { ...units.value, [key]: value }
+    persist()
+  }
+
+  const applyPreset = (preset: keyof typeof UNIT_PRESETS) => {
+    units.value = { ...UNIT_PRESETS[preset] }
+    persist()
+  }
+
+  // Shows every quantity in a shared link's units without saving them; missing or unknown values fall back to metric
+  // The stored preferences stay untouched until the viewer changes a unit themselves
+  const applySessionUnits = (next: Partial<UnitPreferences>) => {
+    units.value = sanitize(next)
+  }
+
+  // Quick °C/°F switch on the main view; leaves the other quantities alone
+  const toggleTemperatureUnit = () => {
+    setUnit('temperature', units.value.temperature === 'fahrenheit' ? 'celsius' : 'fahrenheit')
+  }
+
+  const symbols = computed(() => ({
+    temperature: TEMPERATURE_SYMBOLS[units.value.temperature],
+    windSpeed: WIND_SPEED_SYMBOLS[units.value.windSpeed],
+    pressure: PRESSURE_SYMBOLS[units.value.pressure],
+    visibility: VISIBILITY_SYMBOLS[units.value.visibility],
+    precipitation: PRECIPITATION_SYMBOLS[units.value.precipitation]
+  }))
+
+  return {
+    units,
+    symbols,
+    setUnit,
+    applySessionUnits,
+    applyPreset,
+    toggleTemperatureUnit
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * URL State Composable
+ * Keeps the address bar in step with the app so views can be shared and revisited with back/forward
+ */
+
+import { onMounted, onBeforeUnmount } from 'vue'
+import type { UrlState } from '../types'
+import { parseUrlState, buildUrlSearch } from '../utils/urlState'
+
+export function useUrlState(onNavigate: (state: UrlState) => void) {
+  const readUrlState = (): UrlState => parseUrlState(window.location.search)
+
+  /**
+   * Mirrors a state into the URL
+   * 'push' adds a history entry (a new selection); 'replace' rewrites the current one (unit or view tweaks)
+   */
+  const writeUrlState = (state: UrlState, mode: 'push' | 'replace') => {
+    const search = buildUrlSearch(state)
+    if (search === window.location.search) return
+    const url = `${window.location.pathname}${search}${window.location.hash}`
+    if (mode === 'push') {
+      window.history.pushState(null, '', url)
+    } else {
+      window.history.replaceState(null, '', url)
+    }
+  }
+
+  // Back/forward: the URL has already changed, the app follows it
+  const handlePopState = () => onNavigate(readUrlState())
+
+  onMounted(() => window.addEventListener('popstate', handlePopState))
+  onBeforeUnmount(() => window.removeEventListener('popstate', handlePopState))
+
+  return {
+    readUrlState,
+    writeUrlState
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Weather Composable
+ * Loads the single-view location: cached data first, then current conditions and forecast from the network
+ * Latest-only: every load takes a request token and aborts the one it supersedes, so a slow response
+ * can never land under a newer pick; current, forecast and celestial data are committed together
+ */
+
+import { ref } from 'vue'
+import type { CurrentWeather, ForecastItem, ForecastSlot, ForecastData, CelestialData, SystemStatus, WeatherLocation, WeatherSnapshot } from '../types'
+import { fetchCurrentWeather, fetchForecast, hasWeatherProvider, getProviderLabel } from '../api/weatherProvider'
+import { currentWeatherCache, forecastCache, getLocationCacheKey } from '../api/weatherCache'
+import { isAbortError } from '../api/httpClient'
+import { takePrevalidatedWeather } from '../api/prevalidatedWeather'
+import { getWeatherErrorMessage } from '../utils/errorMessages'
+import { useObservationHistory } from './useObservationHistory'
+import { useWeatherAlerts } from './useWeatherAlerts'
+
+// Last viewed location, restored from cache on reload
+const LAST_LOCATION_KEY = 'weather_last_location'
+
+// ARTIFICIAL LOADING DELAY FOR RETRO VCR EXPERIENCE
+const MINIMUM_LOADING_TIME = 300 // shorter minimum to keep snappy UX
+
+// Delay Promise for artificial loading time
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const rememberLocation = (location: WeatherLocation) => {
+  try {
+    localStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(location))
+  } catch {
+    // Storage unavailable: the next visit won't reopen this location
+  }
+}
+
+export function useWeather() {
+  const location = ref<WeatherLocation | null>(null) // Location currently shown (or being loaded)
+  const currentWeather = ref<CurrentWeather | null>(null)
+  const forecast = ref<ForecastItem[]>([])
+  const hourlyForecast = ref<ForecastSlot[]>([]) // Full 3-hour timeline
+  const celestialData = ref<CelestialData | null>(null)
+  const systemStatus = ref<SystemStatus | null>(null)
+  const dataSource = ref('') // Label of the provider that served the current data
+  const updatedAt = ref<number | null>(null) // Fetch time of the data on screen
+  const weatherError = ref<string | null>(null) // Dedicated error state for weather API failures
+  const isLoading = ref(false) // Overlay for loads with nothing cached to show meanwhile
+
+  const { recordObservation } = useObservationHistory()
+  const { checkAlerts } = useWeatherAlerts()
+
+  // Latest-only gating: a newer load bumps the id and aborts the older one's requests
+  let currentRequestId = 0
+  let currentAbortController: AbortController | null = null
+
+  // Starts a new load, superseding (and aborting) whatever was in flight
+  const startRequest = (): { requestId: number; signal: AbortSignal } => {
+    currentAbortController?.abort()
+    isLoading.value = false
+    const abortController = new AbortController()
+    currentAbortController = abortController
+    return { requestId: ++currentRequestId, signal: abortController.signal }
+  }
+
+  const finishRequest = (requestId: number) => {
+    if (requestId !== currentRequestId) return
+    isLoading.value = false
+    currentAbortController = null
+  }
+
+  // Writes everything shown for one location in a single synchronous step
+  const commit = (snapshot: WeatherSnapshot, forecastData: ForecastData | null, fetchedAt: number) => {
+    currentWeather.value = snapshot.current
+    celestialData.value = snapshot.celestial
+    systemStatus.value = snapshot.system
+    dataSource.value = getProviderLabel(snapshot.provider)
+    forecast.value = forecastData?.daily ?? []
+    hourlyForecast.value = forecastData?.hourly ?? []
+    updatedAt.value = fetchedAt
+    weatherError.value = null
+  }
+
+  const clear = () => {
+    currentWeather.value = null
+    forecast.value = []
+    hourlyForecast.value = []
+    celestialData.value = null
+    systemStatus.value = null
+    updatedAt.value = null
+  }
+
+  /**
+   * Hydrates the view from the persistent cache without an overlay
+   * @returns Whether cached data was shown, and whether all of it is still fresh
+   */
+  const hydrateFromCache = (target: WeatherLocation): { hit: boolean; fresh: boolean } => {
+    const cacheKey = getLocationCacheKey(target)
+    const current = currentWeatherCache.get(cacheKey)
+    if (!current) return { hit: false, fresh: false }
+
+    const cachedForecast = forecastCache.get(cacheKey)
+    commit(current.value, cachedForecast?.value ?? null, current.storedAt)
+    checkAlerts(cacheKey)
+    return { hit: true, fresh: !current.stale && !!cachedForecast && !cachedForecast.stale }
+  }
+
+  /**
+   * Fetches current conditions and forecast for a location and commits them together
+   * @param silent - Keep what's on screen (no overlay) and keep it if the fetch fails
+   * @returns false when the fetch failed or a newer load superseded it
+   */
+  const fetchWeather = async (target: WeatherLocation, silent: boolean): Promise<boolean> => {
+    // Check that a weather provider is configured before making requests
+    if (!hasWeatherProvider()) {
+      weatherError.value = 'CONFIGURATION ERROR // API KEY MISSING'
+      return false
+    }
+
+    const { requestId: thisRequestId, signal } = startRequest()
+
+    // Set loading state IMMEDIATELY for instant feedback
+    if (!silent) isLoading.value = true
+    const startedAt = performance.now()
+    const cacheKey = getLocationCacheKey(target)
+
+    try {
+      const [snapshotResult, forecastResult] = await Promise.allSettled([
+        fetchCurrentWeather(target, signal),
+        fetchForecast(target, signal)
+      ])
+      if (thisRequestId !== currentRequestId) return false
+      if (snapshotResult.status === 'rejected') throw snapshotResult.reason
+
+      const snapshot = snapshotResult.value
+      const fetchedAt = Date.now()
+      currentWeatherCache.set(cacheKey, snapshot)
+      recordObservation(cacheKey, snapshot)
+
+      // Conditions without a forecast still show; the last cached forecast fills in if there is one
+      let forecastData: ForecastData | null
+      if (forecastResult.status === 'fulfilled') {
+        forecastData = forecastResult.value
+        forecastCache.set(cacheKey, forecastData)
+      } else {
+        console.warn('Forecast unavailable', forecastResult.reason)
+        forecastData = forecastCache.get(cacheKey)?.value ?? null
+      }
+
+      // Ensure a minimal overlay time but don't block longer than needed
+      const elapsed = performance.now() - startedAt
+      if (!silent && elapsed < MINIMUM_LOADING_TIME) {
+        await delay(MINIMUM_LOADING_TIME - elapsed)
+        if (thisRequestId !== currentRequestId) return false
+      }
+
+      commit(snapshot, forecastData, fetchedAt)
+      checkAlerts(cacheKey)
+      rememberLocation(target)
+      return forecastResult.status === 'fulfilled'
+    } catch (err: unknown) {
+      // Superseded loads leave the screen to the newer one
+      if (thisRequestId !== currentRequestId || isAbortError(err)) return false
+
+      // A failed background refresh keeps the data on screen; its age keeps counting up
+      if (silent && updatedAt.value !== null) {
+        console.warn('Background refresh failed, showing cached data', err)
+        return false
+      }
+
+      weatherError.value = getWeatherErrorMessage(err, target.kind === 'coords' ? 'coordinates' : 'location')
+      clear()
+      return false
+    } finally {
+      // Only the latest load owns the overlay; a superseded one must not hide the newer one's
+      finishRequest(thisRequestId)
+    }
+  }
+
+  /**
+   * Shows conditions already fetched while validating the picked suggestion, then fetches only the forecast
+   * The cached forecast (if any) stays until the new one arrives for this same load
+   */
+  const showPrevalidated = async (target: WeatherLocation, prevalidated: { snapshot: WeatherSnapshot; storedAt: number }) => {
+    const { requestId: thisRequestId, signal } = startRequest()
+    const cacheKey = getLocationCacheKey(target)
+    const name = target.kind === 'coords' ? target.displayName : undefined
+    const snapshot = { ...prevalidated.snapshot, current: { ...prevalidated.snapshot.current, city: name || prevalidated.snapshot.current.city } }
+
+    // Keep the validation time so freshness and the stale indicator count from the actual fetch
+    currentWeatherCache.set(cacheKey, snapshot, prevalidated.storedAt)
+    recordObservation(cacheKey, snapshot)
+    const cachedForecast = forecastCache.get(cacheKey)
+    commit(snapshot, cachedForecast?.value ?? null, prevalidated.storedAt)
+    checkAlerts(cacheKey)
+    rememberLocation(target)
+
+    if (cachedForecast && !cachedForecast.stale) {
+      finishRequest(thisRequestId)
+      return
+    }
+
+    try {
+      const forecastData = await fetchForecast(target, signal)
+      if (thisRequestId !== currentRequestId) return
+      forecastCache.set(cacheKey, forecastData)
+      forecast.value = forecastData.daily
+      hourlyForecast.value = forecastData.hourly
+      checkAlerts(cacheKey)
+    } catch (err: unknown) {
+      if (thisRequestId !== currentRequestId || isAbortError(err)) return
+      console.warn('Forecast unavailable', err)
+    } finally {
+      finishRequest(thisRequestId)
+    }
+  }
+
+  /**
+   * Shows a location using stale-while-revalidate: cached data first, network refresh when stale
+   */
+  const loadLocation = (target: WeatherLocation) => {
+    location.value = target
+    const { hit, fresh } = hydrateFromCache(target)
+    if (fresh) {
+      // Nothing to fetch, but an older location's load must not land on top
+      finishRequest(startRequest().requestId)
+      rememberLocation(target)
+      return
+    }
+
+    // A suggestion validated moments ago already brought its current conditions
+    const prevalidated = target.kind === 'coords' ? takePrevalidatedWeather(target.lat, target.lon) : null
+    if (prevalidated) {
+      showPrevalidated(target, prevalidated)
+      return
+    }
+    fetchWeather(target, hit)
+  }
+
+  /**
+   * Refetches the shown location, keeping it on screen meanwhile
+   * @returns false when the refresh failed or was superseded
+   */
+  const refresh = async (): Promise<boolean> => {
+    // A load already in flight delivers fresh data; restarting it would only cancel it
+    if (!location.value || currentAbortController) return true
+    return fetchWeather(location.value, true)
+  }
+
+  const restoreLastLocation = (): WeatherLocation | null => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(LAST_LOCATION_KEY) || 'null')
+      if (saved?.kind === 'name' && typeof saved.query === 'string') return saved
+      if (saved?.kind === 'coords' && typeof saved.lat === 'number' && typeof saved.lon === 'number') return saved
+    } catch {
+      // Unreadable entry: fall back to the default city
+    }
+    return null
+  }
+
+  return {
+    location,
+    currentWeather,
+    forecast,
+    hourlyForecast,
+    celestialData,
+    systemStatus,
+    dataSource,
+    updatedAt,
+    weatherError,
+    isLoading,
+    loadLocation,
+    refresh,
+    restoreLastLocation
+  }
+}
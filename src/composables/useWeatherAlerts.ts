@@ -0,0 +1,190 @@
+/**
+ * Weather Alerts Composable
+ * User-defined alert rules per location, checked against the cached weather whenever it changes
+ * Matches show as a banner and, when permitted, as a browser notification; alerts can be acknowledged or snoozed
+ * State is shared across callers so every view checks and shows the same alerts
+ */
+
+import { ref, computed } from 'vue'
+import type { AlertRule, WeatherAlert } from '../types'
+import { currentWeatherCache, forecastCache } from '../api/weatherCache'
+import { evaluateAlertRule, describeAlert } from '../utils/alertRules'
+import { useUnitPreferences } from './useUnitPreferences'
+
+const ALERT_RULES_KEY = 'weather_alert_rules'
+const ALERT_STATE_KEY = 'weather_alert_state'
+
+// Acknowledgements and snoozes are per alert (rule + day); forget them once the day is well past
+const STATE_RETENTION_MS = 8 * 24 * 60 * 60 * 1000
+
+interface AlertStatus {
+  seenAt: number // Last time the alert matched
+  acknowledged?: boolean
+  snoozedUntil?: number // Epoch ms
+  notified?: boolean // A notification was sent since the alert last became visible
+}
+
+const loadRules = (): AlertRule[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ALERT_RULES_KEY) || '[]')
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter((rule: AlertRule) =>
+      typeof rule?.id === 'string' && typeof rule.locationId === 'string' && typeof rule.threshold === 'number')
+  } catch {
+    return []
+  }
+}
+
+const loadStatuses = (): Record<string, AlertStatus> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ALERT_STATE_KEY) || '{}')
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {}
+    const cutoff = Date.now() - STATE_RETENTION_MS
+    return Object.fromEntries(Object.entries(parsed as Record<string, AlertStatus>)
+      .filter(([, status]) => typeof status?.seenAt === 'number' && status.seenAt > cutoff))
+  } catch {
+    return {}
+  }
+}
+
+const { units } = useUnitPreferences()
+const rules = ref<AlertRule[]>(loadRules())
+const statuses = ref<Record<string, AlertStatus>>(loadStatuses())
+const activeAlerts = ref<WeatherAlert[]>([])
+// Bumped when a snooze runs out so the visible list re-evaluates
+const clock = ref(Date.now())
+
+const notificationsSupported = typeof window !== 'undefined' && 'Notification' in window
+const notificationPermission = ref<NotificationPermission | 'unsupported'>(notificationsSupported ? Notification.permission : 'unsupported')
+
+const persistRules = () => {
+  try {
+    localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rules.value))
+  } catch {
+    // Storage unavailable: rules still work for this session
+  }
+}
+
+const persistStatuses = () => {
+  try {
+    localStorage.setItem(ALERT_STATE_KEY, JSON.stringify(statuses.value))
+  } catch {
+    // Storage unavailable: acknowledgements last for this session only
+  }
+}
+
+const updateStatus = (id: string, patch: Partial<AlertStatus>) => {
+  statuses.value = { ...statuses.value, [id]: { ...statuses.value[id], ...patch, seenAt: patch.seenAt ?? statuses.value[id]?.seenAt ?? Date.now() } }
+  persistStatuses()
+}
+
+const isVisible = (alert: WeatherAlert, now: number): boolean => {
+  const status = statuses.value[alert.id]
+  return !status?.acknowledged && !(status?.snoozedUntil && status.snoozedUntil > now)
+}
+
+const visibleAlerts = computed(() => activeAlerts.value.filter(alert => isVisible(alert, clock.value)))
+
+const findRule = (id: string) => rules.value.find(rule => rule.id === id)
+
+// Sends one notification per alert each time it becomes visible (new match, a lapsed match returning, or snooze ended)
+const notifyDue = () => {
+  if (notificationPermission.value !== 'granted') return
+  visibleAlerts.value.forEach((alert) => {
+    const rule = findRule(alert.ruleId)
+    if (!rule || statuses.value[alert.id]?.notified) return
+    try {
+      new Notification(`WEATHER ALERT // ${alert.locationName}`, { body: describeAlert(alert, rule, units.value), tag: alert.id })
+    } catch {
+      // Some mobile browsers only allow notifications from a service worker; the banner still shows
+    }
+    updateStatus(alert.id, { notified: true })
+  })
+}
+
+const wakeAt = (until: number) => {
+  setTimeout(() => {
+    clock.value = Date.now()
+    notifyDue()
+  }, Math.max(0, until - Date.now()) + 100)
+}
+
+// Snoozes survive reloads, so re-arm their timers
+Object.values(statuses.value).forEach((status) => {
+  if (status.snoozedUntil && status.snoozedUntil > Date.now()) wakeAt(status.snoozedUntil)
+})
+
+export function useWeatherAlerts() {
+  /**
+   * Re-evaluates a location's rules against its cached weather; call after the caches are updated
+   * @param locationId - Location cache key (see getLocationCacheKey)
+   */
+  const checkAlerts = (locationId: string) => {
+    const snapshot = currentWeatherCache.get(locationId)?.value ?? null
+    const forecast = forecastCache.get(locationId)?.value ?? null
+    const locationRules = rules.value.filter(rule => rule.locationId === locationId)
+    const matches = locationRules.flatMap(rule => evaluateAlertRule(rule, snapshot, forecast))
+
+    activeAlerts.value = [...activeAlerts.value.filter(alert => alert.locationId !== locationId), ...matches]
+    matches.forEach(alert => updateStatus(alert.id, { seenAt: Date.now() }))
+
+    // Alerts that stopped matching notify again if the same rule matches later
+    const matchedIds = new Set(matches.map(alert => alert.id))
+    Object.entries(statuses.value).forEach(([id, status]) => {
+      if (status.notified && !matchedIds.has(id) && locationRules.some(rule => id.startsWith(`${rule.id}|`))) {
+        updateStatus(id, { notified: false })
+      }
+    })
+    notifyDue()
+  }
+
+  const addRule = (rule: Omit<AlertRule, 'id' | 'createdAt'>) => {
+    const created: AlertRule = { ...rule, id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`, createdAt: Date.now() }
+    rules.value = [...rules.value, created]
+    persistRules()
+    checkAlerts(created.locationId)
+  }
+
+  const removeRule = (id: string) => {
+    rules.value = rules.value.filter(rule => rule.id !== id)
+    activeAlerts.value = activeAlerts.value.filter(alert => alert.ruleId !== id)
+    persistRules()
+  }
+
+  const acknowledge = (id: string) => {
+    updateStatus(id, { acknowledged: true })
+  }
+
+  const snooze = (id: string, durationMs: number) => {
+    const until = Date.now() + durationMs
+    updateStatus(id, { snoozedUntil: until, notified: false })
+    wakeAt(until)
+  }
+
+  /**
+   * Asks for notification permission; must be called from a user gesture
+   */
+  const enableNotifications = async () => {
+    if (!notificationsSupported) return
+    try {
+      notificationPermission.value = await Notification.requestPermission()
+    } catch {
+      // Older Safari only supports the callback form; read whatever was decided
+      notificationPermission.value = Notification.permission
+    }
+    notifyDue()
+  }
+
+  return {
+    rules,
+    visibleAlerts,
+    notificationPermission,
+    findRule,
+    checkAlerts,
+    addRule,
+    removeRule,
+    acknowledge,
+    snooze,
+    enableNotifications
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Offline Airport Dataset
+ * Major international airports, looked up by IATA or ICAO code
+ * Coordinates are rounded to two decimals (about 1 km), plenty for a weather lookup
+ * Rows are compact tuples to keep the lazily loaded chunk small
+ */
+
+// [iata, icao, name, city, countryCode, latitude, longitude]
+export type AirportRow = [string, string, string, string, string, number, number]
+
+export const AIRPORTS: AirportRow[] = [
+  // North America
+  ["JFK","KJFK","John F. Kennedy International","New York","US",40.64,-73.78],
+  ["LGA","KLGA","LaGuardia","New York","US",40.78,-73.87],
+  ["EWR","KEWR","Newark Liberty International","Newark","US",40.69,-74.17],
+  ["BOS","KBOS","Logan International","Boston","US",42.36,-71.01],
+  ["PHL","KPHL","Philadelphia International","Philadelphia","US",39.87,-75.24],
+  ["IAD","KIAD","Washington Dulles International","Washington","US",38.95,-77.46],
+  ["DCA","KDCA","Ronald Reagan Washington National","Washington","US",38.85,-77.04],
+  ["ATL","KATL","Hartsfield-Jackson Atlanta International","Atlanta","US",33.64,-84.43],
+  ["CLT","KCLT","Charlotte Douglas International","Charlotte","US",35.21,-80.94],
+  ["MCO","KMCO","Orlando International","Orlando","US",28.43,-81.31],
+  ["MIA","KMIA","Miami International","Miami","US",25.80,-80.29],
+  ["ORD","KORD","O'Hare International","Chicago","US",41.98,-87.90],
+  ["DTW","KDTW","Detroit Metropolitan Wayne County","Detroit","US",42.21,-83.35],
+  ["MSP","KMSP","Minneapolis-Saint Paul International","Minneapolis","US",44.88,-93.22],
+  ["DFW","KDFW","Dallas/Fort Worth International","Dallas","US",32.90,-97.04],
+  ["IAH","KIAH","George Bush Intercontinental","Houston","US",29.98,-95.34],
+  ["DEN","KDEN","Denver International","Denver","US",39.86,-104.67],
+  ["PHX","KPHX","Phoenix Sky Harbor International","Phoenix","US",33.43,-112.01],
+  ["LAS","KLAS","Harry Reid International","Las Vegas","US",36.08,-115.15],
+  ["SAN","KSAN","San Diego International","San Diego","US",32.73,-117.19],
+  ["LAX","KLAX","Los Angeles International","Los Angeles","US",33.94,-118.41],
+  ["SFO","KSFO","San Francisco International","San Francisco","US",37.62,-122.38],
+  ["SEA","KSEA","Seattle-Tacoma International","Seattle","US",47.45,-122.31],
+  ["ANC","PANC","Ted Stevens Anchorage International","Anchorage","US",61.17,-149.99],
+  ["HNL","PHNL","Daniel K. Inouye International","Honolulu","US",21.32,-157.92],
+  ["YYZ","CYYZ","Toronto Pearson International","Toronto","CA",43.68,-79.63],
+  ["YUL","CYUL","Montréal-Trudeau International","Montreal","CA",45.47,-73.74],
+  ["YYC","CYYC","Calgary International","Calgary","CA",51.13,-114.01],
+  ["YVR","CYVR","Vancouver International","Vancouver","CA",49.19,-123.18],
+  ["MEX","MMMX","Mexico City International","Mexico City","MX",19.44,-99.07],
+  ["CUN","MMUN","Cancún International","Cancún","MX",21.04,-86.87],
+  // Central and South America
+  ["PTY","MPTO","Tocumen International","Panama City","PA",9.07,-79.38],
+  ["BOG","SKBO","El Dorado International","Bogotá","CO",4.70,-74.15],
+  ["LIM","SPJC","Jorge Chávez International","Lima","PE",-12.02,-77.11],
+  ["GRU","SBGR","São Paulo/Guarulhos International","São Paulo","BR",-23.43,-46.47],
+  ["GIG","SBGL","Rio de Janeiro/Galeão International","Rio de Janeiro","BR",-22.81,-43.25],
+  ["EZE","SAEZ","Ministro Pistarini International","Buenos Aires","AR",-34.82,-58.54],
+  ["SCL","SCEL","Arturo Merino Benítez International","Santiago","CL",-33.39,-70.79],
+  // Europe
+  ["LHR","EGLL","London Heathrow","London","GB",51.47,-0.45],
+  ["LGW","EGKK","London Gatwick","London","GB",51.15,-0.19],
+  ["STN","EGSS","London Stansted","London","GB",51.88,0.24],
+  ["MAN","EGCC","Manchester","Manchester","GB",53.35,-2.27],
+  ["EDI","EGPH","Edinburgh","Edinburgh","GB",55.95,-3.37],
+  ["DUB","EIDW","Dublin","Dublin","IE",53.42,-6.27],
+  ["KEF","BIKF","Keflavík International","Reykjavík","IS",63.99,-22.62],
+  ["CDG","LFPG","Paris Charles de Gaulle","Paris","FR",49.01,2.55],
+  ["ORY","LFPO","Paris Orly","Paris","FR",48.72,2.38],
+  ["NCE","LFMN","Nice Côte d'Azur","Nice","FR",43.66,7.22],
+  ["AMS","EHAM","Amsterdam Schiphol","Amsterdam","NL",52.31,4.76],
+  ["BRU","EBBR","Brussels","Brussels","BE",50.90,4.48],
+  ["FRA","EDDF","Frankfurt","Frankfurt","DE",50.03,8.56],
+  ["MUC","EDDM","Munich","Munich","DE",48.35,11.79],
+  ["BER","EDDB","Berlin Brandenburg","Berlin","DE",52.37,13.50],
+  ["HAM","EDDH","Hamburg","Hamburg","DE",53.63,9.99],
+  ["ZRH","LSZH","Zurich","Zurich","CH",47.46,8.55],
+  ["GVA","LSGG","Geneva","Geneva","CH",46.24,6.11],
+  ["VIE","LOWW","Vienna International","Vienna","AT",48.11,16.57],
+  ["CPH","EKCH","Copenhagen","Copenhagen","DK",55.62,12.66],
+  ["OSL","ENGM","Oslo Gardermoen","Oslo","NO",60.19,11.10],
+  ["ARN","ESSA","Stockholm Arlanda","Stockholm","SE",59.65,17.92],
+  ["HEL","EFHK","Helsinki-Vantaa","Helsinki","FI",60.32,24.96],
+  ["MAD","LEMD","Adolfo Suárez Madrid-Barajas","Madrid","ES",40.47,-3.56],
+  ["BCN","LEBL","Barcelona-El Prat","Barcelona","ES",41.30,2.08],
+  ["LIS","LPPT","Lisbon Humberto Delgado","Lisbon","PT",38.77,-9.13],
+  ["FCO","LIRF","Rome Fiumicino","Rome","IT",41.80,12.25],
+  ["MXP","LIMC","Milan Malpensa","Milan","IT",45.63,8.72],
+  ["ATH","LGAV","Athens International","Athens","GR",37.94,23.94],
+  ["WAW","EPWA","Warsaw Chopin","Warsaw","PL",52.17,20.97],
+  ["PRG","LKPR","Václav Havel Prague","Prague","CZ",50.10,14.26],
+  ["BUD","LHBP","Budapest Ferenc Liszt International","Budapest","HU",47.44,19.26],
+  ["IST","LTFM","Istanbul","Istanbul","TR",41.26,28.74],
+  ["SVO","UUEE","Sheremetyevo International","Moscow","RU",55.97,37.41],
+  // Middle East and Africa
+  ["TLV","LLBG","Ben Gurion","Tel Aviv","IL",32.01,34.89],
+  ["DXB","OMDB","Dubai International","Dubai","AE",25.25,55.36],
+  ["AUH","OMAA","Zayed International","Abu Dhabi","AE",24.43,54.65],
+  ["DOH","OTHH","Hamad International","Doha","QA",25.27,51.61],
+  ["RUH","OERK","King Khalid International","Riyadh","SA",24.96,46.70],
+  ["JED","OEJN","King Abdulaziz International","Jeddah","SA",21.68,39.16],
+  ["CAI","HECA","Cairo International","Cairo","EG",30.12,31.41],
+  ["CMN","GMMN","Mohammed V International","Casablanca","MA",33.37,-7.59],
+  ["LOS","DNMM","Murtala Muhammed International","Lagos","NG",6.58,3.32],
+  ["ADD","HAAB","Addis Ababa Bole International","Addis Ababa","ET",8.98,38.80],
+  ["NBO","HKJK","Jomo Kenyatta International","Nairobi","KE",-1.32,36.93],
+  ["JNB","FAOR","O. R. Tambo International","Johannesburg","ZA",-26.14,28.24],
+  ["CPT","FACT","Cape Town International","Cape Town","ZA",-33.97,18.60],
+  // Asia
+  ["KHI","OPKC","Jinnah International","Karachi","PK",24.91,67.16],
+  ["DEL","VIDP","Indira Gandhi International","Delhi","IN",28.57,77.10],
+  ["BOM","VABB","Chhatrapati Shivaji Maharaj International","Mumbai","IN",19.09,72.87],
+  ["BLR","VOBL","Kempegowda International","Bengaluru","IN",13.20,77.71],
+  ["MAA","VOMM","Chennai International","Chennai","IN",12.99,80.17],
+  ["CCU","VECC","Netaji Subhas Chandra Bose International","Kolkata","IN",22.65,88.45],
+  ["KTM","VNKT","Tribhuvan International","Kathmandu","NP",27.70,85.36],
+  ["DAC","VGHS","Hazrat Shahjalal International","Dhaka","BD",23.84,90.40],
+  ["CMB","VCBI","Bandaranaike International","Colombo","LK",7.18,79.88],
+  ["BKK","VTBS","Suvarnabhumi","Bangkok","TH",13.69,100.75],
+  ["KUL","WMKK","Kuala Lumpur International","Kuala Lumpur","MY",2.75,101.71],
+  ["SIN","WSSS","Singapore Changi","Singapore","SG",1.36,103.99],
+  ["CGK","WIII","Soekarno-Hatta International","Jakarta","ID",-6.13,106.66],
+  ["DPS","WADD","I Gusti Ngurah Rai International","Denpasar","ID",-8.75,115.17],
+  ["SGN","VVTS","Tan Son Nhat International","Ho Chi Minh City","VN",10.82,106.65],
+  ["HAN","VVNB","Noi Bai International","Hanoi","VN",21.22,105.81],
+  ["MNL","RPLL","Ninoy Aquino International","Manila","PH",14.51,121.02],
+  ["HKG","VHHH","Hong Kong International","Hong Kong","HK",22.31,113.92],
+  ["CAN","ZGGG","Guangzhou Baiyun International","Guangzhou","CN",23.39,113.30],
+  ["PVG","ZSPD","Shanghai Pudong International","Shanghai","CN",31.14,121.81],
+  ["PEK","ZBAA","Beijing Capital International","Beijing","CN",40.08,116.58],
+  ["PKX","ZBAD","Beijing Daxing International","Beijing","CN",39.51,116.41],
+  ["TPE","RCTP","Taiwan Taoyuan International","Taipei","TW",25.08,121.23],
+  ["ICN","RKSI","Incheon International","Seoul","KR",37.46,126.44],
+  ["HND","RJTT","Tokyo Haneda","Tokyo","JP",35.55,139.78],
+  ["NRT","RJAA","Narita International","Tokyo","JP",35.77,140.39],
+  ["KIX","RJBB","Kansai International","Osaka","JP",34.43,135.24],
+  // Oceania
+  ["PER","YPPH","Perth","Perth","AU",-31.94,115.97],
+  ["BNE","YBBN","Brisbane","Brisbane","AU",-27.38,153.12],
+  ["SYD","YSSY","Sydney Kingsford Smith","Sydney","AU",-33.95,151.18],
+  ["MEL","YMML","Melbourne","Melbourne","AU",-37.67,144.84],
+  ["AKL","NZAA","Auckland","Auckland","NZ",-37.01,174.79],
+  ["CHC","NZCH","Christchurch","Christchurch","NZ",-43.49,172.53]
+]
@@ -0,0 +1,9332 @@
+/**
+ * Offline Gazetteer Dataset
+ * Cities with a population of at least 50,000 and all countries with their capitals
+ * Used by the local geocoder when GeoDB is rate-limited, failing, or not configured
+ *
+ * Sources: GeoNames (CC BY 4.0) via all-the-cities, mledoze/countries (ODbL) via world-countries
+ * Rows are compact tuples to keep the lazily loaded chunk small
+ */
+
+// [geonamesId, name, countryCode, latitude, longitude, population]
+export type GazetteerCityRow = [number, string, string, number, number, number]
+
+// [countryCode, name, capital, capitalLatitude, capitalLongitude]
+export type GazetteerCountryRow = [string, string, string, number | null, number | null]
+
+export const COUNTRIES: GazetteerCountryRow[] = [
+  ["AF","Afghanistan","Kabul",34.5281,69.1723],
+  ["AX","Åland Islands","Mariehamn",60.0973,19.9348],
+  ["AL","Albania","Tirana",41.3275,19.8189],
+  ["DZ","Algeria","Algiers",36.7323,3.0875],
+  ["AS","American Samoa","Pago Pago",-14.2781,-170.7025],
+  ["AD","Andorra","Andorra la Vella",42.5078,1.5211],
+  ["AO","Angola","Luanda",-8.8368,13.2343],
+  ["AI","Anguilla","The Valley",18.217,-63.0578],
+  ["AQ","Antarctica","",null,null],
+  ["AG","Antigua and Barbuda","Saint John's",17.121,-61.8433],
+  ["AR","Argentina","Buenos Aires",-34.6131,-58.3772],
+  ["AM","Armenia","Yerevan",40.1811,44.5136],
+  ["AW","Aruba","Oranjestad",12.524,-70.027],
+  ["AU","Australia","Canberra",-35.2835,149.1281],
+  ["AT","Austria","Vienna",48.2085,16.3721],
+  ["AZ","Azerbaijan","Baku",40.3777,49.892],
+  ["BS","Bahamas","Nassau",25.0582,-77.3431],
+  ["BH","Bahrain","Manama",26.2279,50.5857],
+  ["BD","Bangladesh","Dhaka",23.7104,90.4074],
+  ["BB","Barbados","Bridgetown",13.1073,-59.6202],
+  ["BY","Belarus","Minsk",53.9,27.5667],
+  ["BE","Belgium","Brussels",50.8505,4.3488],
+  ["BZ","Belize","Belmopan",17.25,-88.7667],
+  ["BJ","Benin","Porto-Novo",6.4965,2.6036],
+  ["BM","Bermuda","Hamilton",32.2949,-64.783],
+  ["BT","Bhutan","Thimphu",27.4661,89.6419],
+  ["BO","Bolivia","Sucre",-19.0333,-65.2627],
+  ["BA","Bosnia and Herzegovina","Sarajevo",43.8486,18.3564],
+  ["BW","Botswana","Gaborone",-24.6545,25.9086],
+  ["BV","Bouvet Island","",null,null],
+  ["BR","Brazil","Brasília",-15.7797,-47.9297],
+  ["IO","British Indian Ocean Territory","Diego Garcia",null,null],
+  ["VG","British Virgin Islands","Road Town",18.4269,-64.6208],
+  ["BN","Brunei","Bandar Seri Begawan",4.8904,114.9401],
+  ["BG","Bulgaria","Sofia",42.6975,23.3242],
+  ["BF","Burkina Faso","Ouagadougou",12.3657,-1.5339],
+  ["BI","Burundi","Gitega",-3.4271,29.9246],
+  ["KH","Cambodia","Phnom Penh",11.5625,104.916],
+  ["CM","Cameroon","Yaoundé",3.8667,11.5167],
+  ["CA","Canada","Ottawa",45.4112,-75.6981],
+  ["CV","Cape Verde","Praia",14.9315,-23.5125],
+  ["BQ","Caribbean Netherlands","Kralendijk",12.15,-68.2667],
+  ["KY","Cayman Islands","George Town",19.2866,-81.3744],
+  ["CF","Central African Republic","Bangui",4.3612,18.555],
+  ["TD","Chad","N'Djamena",12.1067,15.0444],
+  ["CL","Chile","Santiago",-33.4569,-70.6483],
+  ["CN","China","Beijing",39.9075,116.3972],
+  ["CX","Christmas Island","Flying Fish Cove",-10.4217,105.6791],
+  ["CC","Cocos (Keeling) Islands","West Island",-12.1568,96.8225],
+  ["CO","Colombia","Bogotá",4.6097,-74.0817],
+  ["KM","Comoros","Moroni",-11.7022,43.2551],
+  ["CK","Cook Islands","Avarua",-21.2075,-159.7754],
+  ["CR","Costa Rica","San José",9.9333,-84.0833],
+  ["HR","Croatia","Zagreb",45.8144,15.978],
+  ["CU","Cuba","Havana",23.133,-82.383],
+  ["CW","Curaçao","Willemstad",12.1084,-68.9335],
+  ["CY","Cyprus","Nicosia",35.1753,33.3642],
+  ["CZ","Czechia","Prague",50.088,14.4208],
+  ["DK","Denmark","Copenhagen",55.6759,12.5655],
+  ["DJ","Djibouti","Djibouti",11.589,43.145],
+  ["DM","Dominica","Roseau",15.3017,-61.3881],
+  ["DO","Dominican Republic","Santo Domingo",18.4719,-69.8923],
+  ["CD","DR Congo","Kinshasa",-4.3276,15.3136],
+  ["EC","Ecuador","Quito",-0.2298,-78.5249],
+  ["EG","Egypt","Cairo",30.0626,31.2497],
+  ["SV","El Salvador","San Salvador",13.6894,-89.1872],
+  ["GQ","Equatorial Guinea","Malabo",3.7558,8.7817],
+  ["ER","Eritrea","Asmara",15.3381,38.9318],
+  ["EE","Estonia","Tallinn",59.437,24.7535],
+  ["SZ","Eswatini","Lobamba",-26.4667,31.2],
+  ["ET","Ethiopia","Addis Ababa",9.025,38.7469],
+  ["FK","Falkland Islands","Stanley",-51.6938,-57.857],
+  ["FO","Faroe Islands","Tórshavn",62.0097,-6.7716],
+  ["FJ","Fiji","Suva",-18.1416,178.4415],
+  ["FI","Finland","Helsinki",60.1695,24.9355],
+  ["FR","France","Paris",48.8534,2.3488],
+  ["GF","French Guiana","Cayenne",4.9333,-52.3333],
+  ["PF","French Polynesia","Papeetē",-17.5373,-149.5665],
+  ["TF","French Southern and Antarctic Lands","Port-aux-Français",-49.3492,70.2194],
+  ["GA","Gabon","Libreville",0.3924,9.4536],
+  ["GM","Gambia","Banjul",13.4527,-16.578],
+  ["GE","Georgia","Tbilisi",41.6941,44.8337],
+  ["DE","Germany","Berlin",52.5244,13.4105],
+  ["GH","Ghana","Accra",5.556,-0.1969],
+  ["GI","Gibraltar","Gibraltar",36.1447,-5.3526],
+  ["GR","Greece","Athens",37.9838,23.7278],
+  ["GL","Greenland","Nuuk",64.1835,-51.7216],
+  ["GD","Grenada","St. George's",12.0529,-61.7523],
+  ["GP","Guadeloupe","Basse-Terre",15.9971,-61.7321],
+  ["GU","Guam","Hagåtña",13.4757,144.7489],
+  ["GT","Guatemala","Guatemala City",14.6407,-90.5133],
+  ["GG","Guernsey","St. Peter Port",49.4598,-2.5353],
+  ["GN","Guinea","Conakry",9.538,-13.6773],
+  ["GW","Guinea-Bissau","Bissau",11.8636,-15.5977],
+  ["GY","Guyana","Georgetown",6.8045,-58.1553],
+  ["HT","Haiti","Port-au-Prince",18.5435,-72.3388],
+  ["HM","Heard Island and McDonald Islands","",null,null],
+  ["HN","Honduras","Tegucigalpa",14.0818,-87.2068],
+  ["HK","Hong Kong","City of Victoria",22.2783,114.1747],
+  ["HU","Hungary","Budapest",47.4984,19.0405],
+  ["IS","Iceland","Reykjavik",64.1355,-21.8954],
+  ["IN","India","New Delhi",28.6358,77.2245],
+  ["ID","Indonesia","Jakarta",-6.2146,106.8451],
+  ["IR","Iran","Tehran",35.6944,51.4215],
+  ["IQ","Iraq","Baghdad",33.3406,44.4009],
+  ["IE","Ireland","Dublin",53.3331,-6.2489],
+  ["IM","Isle of Man","Douglas",54.15,-4.4833],
+  ["IL","Israel","Jerusalem",31.769,35.2163],
+  ["IT","Italy","Rome",41.8919,12.5113],
+  ["CI","Ivory Coast","Yamoussoukro",6.8206,-5.2767],
+  ["JM","Jamaica","Kingston",17.997,-76.7936],
+  ["JP","Japan","Tokyo",35.6895,139.6917],
+  ["JE","Jersey","Saint Helier",49.188,-2.1049],
+  ["JO","Jordan","Amman",31.9552,35.945],
+  ["KZ","Kazakhstan","Astana",51.1801,71.446],
+  ["KE","Kenya","Nairobi",-1.2833,36.8167],
+  ["KI","Kiribati","South Tarawa",1.3278,172.977],
+  ["XK","Kosovo","Pristina",42.6727,21.1669],
+  ["KW","Kuwait","Kuwait City",29.3697,47.9783],
+  ["KG","Kyrgyzstan","Bishkek",42.87,74.59],
+  ["LA","Laos","Vientiane",17.9667,102.6],
+  ["LV","Latvia","Riga",56.946,24.1059],
+  ["LB","Lebanon","Beirut",33.8933,35.5016],
+  ["LS","Lesotho","Maseru",-29.3167,27.4833],
+  ["LR","Liberia","Monrovia",6.3005,-10.7969],
+  ["LY","Libya","Tripoli",32.8874,13.1873],
+  ["LI","Liechtenstein","Vaduz",47.1415,9.5215],
+  ["LT","Lithuania","Vilnius",54.6892,25.2798],
+  ["LU","Luxembourg","Luxembourg",49.6117,6.13],
+  ["MO","Macau","",null,null],
+  ["MG","Madagascar","Antananarivo",-18.9137,47.5361],
+  ["MW","Malawi","Lilongwe",-13.9669,33.7873],
+  ["MY","Malaysia","Kuala Lumpur",3.1412,101.6865],
+  ["MV","Maldives","Malé",4.1752,73.5092],
+  ["ML","Mali","Bamako",12.65,-8],
+  ["MT","Malta","Valletta",35.8997,14.5148],
+  ["MH","Marshall Islands","Majuro",7.0897,171.3803],
+  ["MQ","Martinique","Fort-de-France",14.6037,-61.0742],
+  ["MR","Mauritania","Nouakchott",18.0858,-15.9785],
+  ["MU","Mauritius","Port Louis",-20.1619,57.4989],
+  ["YT","Mayotte","Mamoudzou",-12.7823,45.2288],
+  ["MX","Mexico","Mexico City",19.4285,-99.1277],
+  ["FM","Micronesia","Palikir",6.9248,158.1611],
+  ["MD","Moldova","Chișinău",47.0056,28.8575],
+  ["MC","Monaco","Monaco",43.7333,7.4167],
+  ["MN","Mongolia","Ulan Bator",47.9077,106.8832],
+  ["ME","Montenegro","Podgorica",42.4411,19.2636],
+  ["MS","Montserrat","Plymouth",16.7056,-62.2129],
+  ["MA","Morocco","Rabat",34.0133,-6.8325],
+  ["MZ","Mozambique","Maputo",-25.9655,32.5832],
+  ["MM","Myanmar","Naypyidaw",19.745,96.1297],
+  ["NA","Namibia","Windhoek",-22.5594,17.0832],
+  ["NR","Nauru","Yaren",-0.5508,166.9252],
+  ["NP","Nepal","Kathmandu",27.7017,85.3206],
+  ["NL","Netherlands","Amsterdam",52.374,4.8897],
+  ["NC","New Caledonia","Nouméa",-22.2741,166.4488],
+  ["NZ","New Zealand","Wellington",-41.2866,174.7756],
+  ["NI","Nicaragua","Managua",12.1328,-86.2504],
+  ["NE","Niger","Niamey",13.5137,2.1098],
+  ["NG","Nigeria","Abuja",9.0579,7.4951],
+  ["NU","Niue","Alofi",-19.0545,-169.9177],
+  ["NF","Norfolk Island","Kingston",-29.0546,167.9663],
+  ["KP","North Korea","Pyongyang",39.0339,125.7543],
+  ["MK","North Macedonia","Skopje",41.9965,21.4314],
+  ["MP","Northern Mariana Islands","Saipan",15.2123,145.7545],
+  ["NO","Norway","Oslo",59.9127,10.7461],
+  ["OM","Oman","Muscat",23.5841,58.4078],
+  ["PK","Pakistan","Islamabad",33.7215,73.0433],
+  ["PW","Palau","Ngerulmud",7.5008,134.6238],
+  ["PS","Palestine","Ramallah",31.8996,35.2042],
+  ["PA","Panama","Panama City",9.334,-79.8917],
+  ["PG","Papua New Guinea","Port Moresby",-9.4772,147.1509],
+  ["PY","Paraguay","Asunción",-25.2865,-57.647],
+  ["PE","Peru","Lima",-12.0432,-77.0282],
+  ["PH","Philippines","Manila",14.6042,120.9822],
+  ["PN","Pitcairn Islands","Adamstown",-25.066,-130.1015],
+  ["PL","Poland","Warsaw",52.2298,21.0118],
+  ["PT","Portugal","Lisbon",38.7167,-9.1333],
+  ["PR","Puerto Rico","San Juan",18.4663,-66.1057],
+  ["QA","Qatar","Doha",25.2855,51.531],
+  ["CG","Republic of the Congo","Brazzaville",-4.2661,15.2832],
+  ["RE","Réunion","Saint-Denis",-20.8823,55.4504],
+  ["RO","Romania","Bucharest",44.4323,26.1063],
+  ["RU","Russia","Moscow",55.7522,37.6156],
+  ["RW","Rwanda","Kigali",-1.9499,30.0589],
+  ["BL","Saint Barthélemy","Gustavia",17.8962,-62.8498],
+  ["SH","Saint Helena, Ascension and Tristan da Cunha","Jamestown",-15.9387,-5.7167],
+  ["KN","Saint Kitts and Nevis","Basseterre",17.2955,-62.725],
+  ["LC","Saint Lucia","Castries",13.9957,-61.0061],
+  ["MF","Saint Martin","Marigot",18.0682,-63.083],
+  ["PM","Saint Pierre and Miquelon","Saint-Pierre",46.7791,-56.1773],
+  ["VC","Saint Vincent and the Grenadines","Kingstown",13.1553,-61.2274],
+  ["WS","Samoa","Apia",-13.8333,-171.7667],
+  ["SM","San Marino","City of San Marino",43.9367,12.4464],
+  ["ST","São Tomé and Príncipe","São Tomé",0.3365,6.7273],
+  ["SA","Saudi Arabia","Riyadh",24.6877,46.7219],
+  ["SN","Senegal","Dakar",14.6937,-17.4441],
+  ["RS","Serbia","Belgrade",44.804,20.4651],
+  ["SC","Seychelles","Victoria",-4.62,55.455],
+  ["SL","Sierra Leone","Freetown",8.4871,-13.2356],
+  ["SG","Singapore","Singapore",1.2897,103.8501],
+  ["SX","Sint Maarten","Philipsburg",18.026,-63.0458],
+  ["SK","Slovakia","Bratislava",48.1482,17.1067],
+  ["SI","Slovenia","Ljubljana",46.0511,14.5051],
+  ["SB","Solomon Islands","Honiara",-9.4333,159.95],
+  ["SO","Somalia","Mogadishu",2.0371,45.3438],
+  ["ZA","South Africa","Pretoria",-25.7449,28.1878],
+  ["GS","South Georgia","King Edward Point",-54.2811,-36.5092],
+  ["KR","South Korea","Seoul",37.566,126.9784],
+  ["SS","South Sudan","Juba",4.8517,31.5825],
+  ["ES","Spain","Madrid",40.4165,-3.7026],
+  ["LK","Sri Lanka","Colombo",6.9355,79.8487],
+  ["SD","Sudan","Khartoum",15.5518,32.5324],
+  ["SR","Suriname","Paramaribo",5.8664,-55.1668],
+  ["SJ","Svalbard and Jan Mayen","Longyearbyen",78.2233,15.6469],
+  ["SE","Sweden","Stockholm",59.3294,18.0687],
+  ["CH","Switzerland","Bern",46.9481,7.4474],
+  ["SY","Syria","Damascus",33.5102,36.2913],
+  ["TW","Taiwan","Taipei",25.0478,121.5319],
+  ["TJ","Tajikistan","Dushanbe",38.5358,68.7791],
+  ["TZ","Tanzania","Dodoma",-6.1722,35.7395],
+  ["TH","Thailand","Bangkok",13.754,100.5014],
+  ["TL","Timor-Leste","Dili",-8.5586,125.5736],
+  ["TG","Togo","Lomé",6.1287,1.2215],
+  ["TK","Tokelau","Fakaofo",null,null],
+  ["TO","Tonga","Nuku'alofa",-21.1394,-175.2018],
+  ["TT","Trinidad and Tobago","Port of Spain",10.6667,-61.5189],
+  ["TN","Tunisia","Tunis",36.819,10.1658],
+  ["TR","Türkiye","Ankara",39.9199,32.8543],
+  ["TM","Turkmenistan","Ashgabat",37.95,58.3833],
+  ["TC","Turks and Caicos Islands","Cockburn Town",21.4612,-71.1419],
+  ["TV","Tuvalu","Funafuti",-8.5242,179.1942],
+  ["UG","Uganda","Kampala",0.3163,32.5822],
+  ["UA","Ukraine","Kyiv",50.4547,30.5238],
+  ["AE","United Arab Emirates","Abu Dhabi",24.4512,54.397],
+  ["GB","United Kingdom","London",51.5085,-0.1257],
+  ["US","United States","Washington D.C.",38.8951,-77.0364],
+  ["UM","United States Minor Outlying Islands","",null,null],
+  ["VI","United States Virgin Islands","Charlotte Amalie",18.3419,-64.9307],
+  ["UY","Uruguay","Montevideo",-34.9033,-56.1882],
+  ["UZ","Uzbekistan","Tashkent",41.2647,69.2163],
+  ["VU","Vanuatu","Port Vila",-17.7365,168.3137],
+  ["VA","Vatican City","Vatican City",41.9027,12.4541],
+  ["VE","Venezuela","Caracas",10.488,-66.8792],
+  ["VN","Vietnam","Hanoi",21.0245,105.8412],
+  ["WF","Wallis and Futuna","Mata-Utu",-13.2816,-176.1745],
+  ["EH","Western Sahara","El Aaiún",null,null],
+  ["YE","Yemen","Sana'a",15.3547,44.2067],
+  ["ZM","Zambia","Lusaka",-15.4067,28.2871],
+  ["ZW","Zimbabwe","Harare",-17.8277,31.0534]
+]
+
+export const CITIES: GazetteerCityRow[] = [
+  [1796236,"Shanghai","CN",31.2222,121.4581,22315474],
+  [745044,"Istanbul","TR",41.0138,28.9497,14804116],
+  [3435910,"Buenos Aires","AR",-34.6131,-58.3772,13076300],
+  [1275339,"Mumbai","IN",19.0728,72.8826,12691836],
+  [3530597,"Mexico City","MX",19.4285,-99.1277,12294193],
+  [1816670,"Beijing","CN",39.9075,116.3972,11716620],
+  [1174872,"Karachi","PK",24.8608,67.0104,11624219],
+  [1792947,"Tianjin","CN",39.1422,117.1767,11090314],
+  [1809858,"Guangzhou","CN",23.1167,113.25,11071424],
+  [1273294,"Delhi","IN",28.652,77.2315,10927986],
+  [524901,"Moscow","RU",55.7522,37.6156,10381222],
+  [1795565,"Shenzhen","CN",22.5455,114.0683,10358381],
+  [1185241,"Dhaka","BD",23.7104,90.4074,10356500],
+  [1835848,"Seoul","KR",37.566,126.9784,10349312],
+  [3448439,"São Paulo","BR",-23.5475,-46.6361,10021295],
+  [1791247,"Wuhan","CN",30.5833,114.2667,9785388],
+  [2332459,"Lagos","NG",6.4541,3.3947,9000000],
+  [1642911,"Jakarta","ID",-6.2146,106.8451,8540121],
+  [1850147,"Tokyo","JP",35.6895,139.6917,8336599],
+  [5128581,"New York City","US",40.7143,-74.006,8175133],
+  [1812545,"Dongguan","CN",23.018,113.7487,8000000],
+  [1668341,"Taipei","TW",25.0478,121.5319,7871900],
+  [2314302,"Kinshasa","CD",-4.3276,15.3136,7785965],
+  [3936456,"Lima","PE",-12.0432,-77.0282,7737002],
+  [360630,"Cairo","EG",30.0626,31.2497,7734614],
+  [3688689,"Bogotá","CO",4.6097,-74.0817,7674366],
+  [2643743,"London","GB",51.5085,-0.1257,7556900],
+  [1814906,"Chongqing","CN",29.5628,106.5528,7457600],
+  [1815286,"Chengdu","CN",30.6667,104.0667,7415590],
+  [98182,"Baghdad","IQ",33.3406,44.4009,7216000],
+  [1799962,"Nanjing","CN",32.0617,118.7778,7165292],
+  [112931,"Tehran","IR",35.6944,51.4215,7153309],
+  [1800146,"Nanchong","CN",30.7951,106.0847,7150000],
+  [1819729,"Hong Kong","HK",22.2783,114.1747,7012738],
+  [1790630,"Xi’an","CN",34.2583,108.9286,6501190],
+  [1172451,"Lahore","PK",31.558,74.3507,6310888],
+  [2034937,"Shenyang","CN",41.7922,123.4328,6255921],
+  [1808926,"Hangzhou","CN",30.2937,120.1614,6241971],
+  [3451190,"Rio de Janeiro","BR",-22.9064,-43.1822,6023699],
+  [2037013,"Harbin","CN",45.75,126.65,5878939],
+  [1793724,"Tai’an","CN",36.1853,117.12,5499000],
+  [1886760,"Suzhou","CN",31.3041,120.5954,5345961],
+  [1795940,"Shantou","CN",23.3681,116.7148,5329024],
+  [1609350,"Bangkok","TH",13.754,100.5014,5104476],
+  [1277333,"Bengaluru","IN",12.9719,77.5937,5104047],
+  [498817,"Saint Petersburg","RU",59.9386,30.3141,5028000],
+  [3871336,"Santiago","CL",-33.4569,-70.6483,4837295],
+  [1275004,"Kolkata","IN",22.5626,88.363,4631392],
+  [2147714,"Sydney","AU",-33.8678,151.2073,4627345],
+  [1298824,"Yangon","MM",16.8053,96.1561,4477638],
+  [1805753,"Jinan","CN",36.6683,116.9972,4335989],
+  [1264527,"Chennai","IN",13.0878,80.2785,4328063],
+  [1784658,"Zhengzhou","CN",34.7578,113.6486,4253913],
+  [2158177,"Melbourne","AU",-37.814,144.9633,4246375],
+  [108410,"Riyadh","SA",24.6877,46.7219,4205961],
+  [2038180,"Changchun","CN",43.88,125.3228,4193073],
+  [1814087,"Dalian","CN",38.9122,121.6022,4087733],
+  [5368361,"Los Angeles","US",34.0522,-118.2437,3971883],
+  [1205733,"Chittagong","BD",22.3384,91.8317,3920222],
+  [1804651,"Kunming","CN",25.0389,102.7183,3855346],
+  [361058,"Alexandria","EG",31.2018,29.9158,3811516],
+  [1279233,"Ahmedabad","IN",23.0258,72.5873,3719710],
+  [1797929,"Qingdao","CN",36.0649,120.3804,3718835],
+  [1838524,"Busan","KR",35.1017,129.03,3678555],
+  [2293538,"Abidjan","CI",5.3544,-4.0017,3677115],
+  [2335204,"Kano","NG",12.0001,8.5167,3626068],
+  [1811103,"Foshan","CN",23.0268,113.1315,3600000],
+  [1269843,"Hyderabad","IN",17.384,78.4564,3597816],
+  [1798425,"Puyang","CN",29.4568,119.8887,3590000],
+  [1848354,"Yokohama","JP",35.4333,139.65,3574443],
+  [2339354,"Ibadan","NG",7.3776,3.9059,3565108],
+  [1880252,"Singapore","SG",1.2897,103.8501,3547809],
+  [1790923,"Wuxi","CN",31.5689,120.2886,3543719],
+  [1790645,"Xiamen","CN",24.4798,118.0819,3531347],
+  [323786,"Ankara","TR",39.9199,32.8543,3517182],
+  [1792892,"Tianshui","CN",34.5795,105.7424,3500000],
+  [1799397,"Ningbo","CN",29.8782,121.5495,3491597],
+  [1566083,"Ho Chi Minh City","VN",10.823,106.6297,3467331],
+  [1794903,"Shiyan","CN",32.6475,110.7781,3460000],
+  [3369157,"Cape Town","ZA",-33.9258,18.4232,3433441],
+  [1793511,"Taiyuan","CN",37.8694,112.5603,3426519],
+  [2950159,"Berlin","DE",52.5244,13.4105,3426354],
+  [1793346,"Tangshan","CN",39.6333,118.1833,3372102],
+  [1808722,"Hefei","CN",31.8639,117.2808,3310268],
+  [3117735,"Madrid","ES",40.4165,-3.7026,3255944],
+  [1871859,"Pyongyang","KP",39.0339,125.7543,3222000],
+  [2553604,"Casablanca","MA",33.5883,-7.6114,3144909],
+  [1785286,"Zibo","CN",36.7906,118.0633,3129228],
+  [1915223,"Zhongshan","CN",21.3199,110.5723,3121275],
+  [1007311,"Durban","ZA",-29.8579,31.0292,3120282],
+  [1815577,"Changsha","CN",28.1987,112.9709,3093980],
+  [1138958,"Kabul","AF",34.5281,69.1723,3043532],
+  [1529102,"Ürümqi","CN",43.801,87.6005,3029372],
+  [3646738,"Caracas","VE",10.488,-66.8792,3000000],
+  [292223,"Dubai","AE",25.0773,55.3093,2956587],
+  [1259229,"Pune","IN",18.5196,73.8554,2935744],
+  [1255364,"Sūrat","IN",21.1959,72.8302,2894504],
+  [105343,"Jeddah","SA",21.4901,39.1862,2867446],
+  [1795270,"Shijiazhuang","CN",38.0414,114.4786,2834942],
+  [1267995,"Kanpur","IN",26.4652,80.3498,2823249],
+  [703448,"Kyiv","UA",50.4547,30.5238,2797553],
+  [2240449,"Luanda","AO",-8.8368,13.2343,2776168],
+  [1692192,"Quezon City","PH",14.6488,121.0509,2761720],
+  [344979,"Addis Ababa","ET",9.025,38.7469,2757729],
+  [184745,"Nairobi","KE",-1.2833,36.8167,2750547],
+  [4887398,"Chicago","US",41.85,-87.65,2720546],
+  [3450554,"Salvador","BR",-12.9711,-38.5108,2711840],
+  [1269515,"Jaipur","IN",26.9196,75.7878,2711758],
+  [160263,"Dar es Salaam","TZ",-6.8235,39.2695,2698652],
+  [1804430,"Lanzhou","CN",36.057,103.8399,2628426],
+  [1843564,"Incheon","KR",37.4565,126.7052,2628000],
+  [1785725,"Yunfu","CN",22.9283,112.0395,2612800],
+  [6167865,"Toronto","CA",43.7001,-79.4163,2600000],
+  [6619347,"Navi Mumbai","IN",19.0368,73.0158,2600000],
+  [99532,"Basrah","IQ",30.5085,47.7804,2600000],
+  [1853909,"Osaka","JP",34.6937,135.5022,2592413],
+  [53654,"Mogadishu","SO",2.0371,45.3438,2587183],
+  [1835329,"Daegu","KR",35.8703,128.5911,2566540],
+  [1179400,"Faisalabad","PK",31.4155,73.0897,2506595],
+  [311046,"İzmir","TR",38.4127,27.1384,2500603],
+  [2253354,"Dakar","SN",14.6937,-17.4441,2476400],
+  [1264733,"Lucknow","IN",26.8393,80.9231,2472011],
+  [360995,"Giza","EG",30.0094,31.2086,2443203],
+  [3399415,"Fortaleza","BR",-3.7172,-38.5431,2400000],
+  [3687925,"Cali","CO",3.4372,-76.5225,2392877],
+  [1625822,"Surabaya","ID",-7.2492,112.7508,2374658],
+  [3470127,"Belo Horizonte","BR",-19.9208,-43.9378,2373224],
+  [1800163,"Nanchang","CN",28.684,115.8531,2357839],
+  [3169070,"Rome","IT",41.8919,12.5113,2318895],
+  [124665,"Mashhad","IR",36.3156,59.568,2307177],
+  [5110302,"Brooklyn","US",40.6501,-73.9496,2300664],
+  [4699066,"Houston","US",29.7633,-95.3633,2296224],
+  [5133273,"Queens","US",40.6815,-73.8365,2272771],
+  [1262180,"Nagpur","IN",21.1463,79.0849,2228018],
+  [3633009,"Maracaibo","VE",10.6666,-71.6124,2225000],
+  [3469058,"Brasília","BR",-15.7797,-47.9297,2207718],
+  [3492908,"Santo Domingo","DO",18.4719,-69.8923,2201941],
+  [1856057,"Nagoya","JP",35.1815,136.9064,2191279],
+  [2174003,"Brisbane","AU",-27.4679,153.0281,2189878],
+  [3553478,"Havana","CU",23.133,-82.383,2163824],
+  [2988507,"Paris","FR",48.8534,2.3488,2138551],
+  [99071,"Al Mawşil al Jadīdah","IQ",36.3327,43.1056,2065597],
+  [993800,"Johannesburg","ZA",-26.2023,28.0436,2026469],
+  [1819609,"Kowloon","HK",22.3167,114.1833,2019533],
+  [388349,"Al Başrah al Qadīmah","IQ",30.5032,47.8151,2015483],
+  [1526384,"Almaty","KZ",43.2567,76.9286,2000900],
+  [1917790,"Dadonghai","CN",18.2206,109.5103,2000000],
+  [3674962,"Medellín","CO",6.2518,-75.5636,1999979],
+  [1512569,"Tashkent","UZ",41.2647,69.2163,1978028],
+  [2507480,"Algiers","DZ",36.7323,3.0875,1977663],
+  [379252,"Khartoum","SD",15.5518,32.5324,1974647],
+  [2306104,"Accra","GH",5.556,-0.1969,1963264],
+  [3657509,"Guayaquil","EC",-2.1962,-79.8862,1952029],
+  [8347664,"Ordos","CN",39.6086,109.7816,1940653],
+  [71137,"Sanaa","YE",15.3547,44.2067,1937451],
+  [276781,"Beirut","LB",33.8933,35.5016,1916100],
+  [2063523,"Perth","AU",-31.9522,115.8614,1896548],
+  [2128295,"Sapporo","JP",43.0667,141.35,1883027],
+  [2036502,"Jilin","CN",43.8508,126.5603,1881977],
+  [683506,"Bucharest","RO",44.4323,26.1063,1877155],
+  [2422488,"Camayenne","GN",9.535,-13.6878,1871242],
+  [1269743,"Indore","IN",22.7179,75.8333,1837041],
+  [3526683,"Iztapalapa","MX",19.3553,-99.0622,1815786],
+  [2422465,"Conakry","GN",9.538,-13.6773,1767200],
+  [11838258,"Bayan Nur","CN",40.7414,107.386,1760000],
+  [3632998,"Maracay","VE",10.2354,-67.5911,1754256],
+  [1214520,"Medan","ID",3.5833,98.6667,1750971],
+  [1166993,"Rawalpindi","PK",33.5973,73.0479,1743101],
+  [625144,"Minsk","BY",53.9,27.5667,1742124],
+  [3054643,"Budapest","HU",47.4984,19.0405,1741041],
+  [99072,"Mosul","IQ",36.335,43.1189,1739800],
+  [2911298,"Hamburg","DE",53.5507,9.993,1739117],
+  [3464975,"Curitiba","BR",-25.4278,-49.2731,1718421],
+  [756135,"Warsaw","PL",52.2298,21.0118,1702139],
+  [1650357,"Bandung","ID",-6.9222,107.6069,1699719],
+  [953781,"Soweto","ZA",-26.2678,27.8585,1695047],
+  [2761369,"Vienna","AT",48.2085,16.3721,1691468],
+  [2538475,"Rabat","MA",34.0133,-6.8325,1655753],
+  [3529612,"Ecatepec de Morelos","MX",19.6049,-99.0606,1655015],
+  [3128760,"Barcelona","ES",41.3888,2.159,1621537],
+  [964137,"Pretoria","ZA",-25.7449,28.1878,1619438],
+  [170063,"Aleppo","SY",36.2012,37.1612,1602264],
+  [6077243,"Montréal","CA",45.5088,-73.5878,1600000],
+  [1785623,"Kunshan","CN",31.3776,120.9543,1600000],
+  [1701668,"Manila","PH",14.6042,120.9822,1600000],
+  [1260086,"Patna","IN",25.5941,85.1356,1599920],
+  [1275841,"Bhopal","IN",23.2547,77.4029,1599914],
+  [3663517,"Manaus","BR",-3.1019,-60.025,1598210],
+  [1788534,"Xinyang","CN",32.1228,114.0656,1590668],
+  [2335727,"Kaduna","NG",10.5264,7.4388,1582102],
+  [1821306,"Phnom Penh","KH",11.5625,104.916,1573544],
+  [170654,"Damascus","SY",33.5102,36.2913,1569394],
+  [4560349,"Philadelphia","US",39.9523,-75.1638,1567442],
+  [5308655,"Phoenix","US",33.4484,-112.074,1563025],
+  [418863,"Isfahan","IR",32.6525,51.6746,1547164],
+  [1264728,"Ludhiāna","IN",30.912,75.8538,1545368],
+  [890299,"Harare","ZW",-17.8277,31.0534,1542813],
+  [1859171,"Kobe","JP",34.6913,135.183,1528478],
+  [1649378,"Bekasi","ID",-6.2349,106.9896,1520119],
+  [1673820,"Kaohsiung","TW",22.6163,120.3133,1519711],
+  [2673730,"Stockholm","SE",59.3294,18.0687,1515017],
+  [1720151,"Caloocan City","PH",14.6495,120.9679,1500000],
+  [4005539,"Guadalajara","MX",20.6668,-103.3918,1495182],
+  [5125771,"Manhattan","US",40.7834,-73.9662,1487536],
+  [3439389,"Asunción","PY",-25.2865,-57.647,1482200],
+  [3390760,"Recife","BR",-8.0539,-34.8811,1478098],
+  [1835235,"Daejeon","KR",36.3491,127.3849,1475221],
+  [4726206,"San Antonio","US",29.4241,-98.4936,1469845],
+  [2298890,"Kumasi","GH",6.6885,-1.6244,1468609],
+  [1736376,"Kota Bharu","MY",6.1236,102.2433,1459994],
+  [1857910,"Kyoto","JP",35.0211,135.7539,1459640],
+  [1735161,"Kuala Lumpur","MY",3.1412,101.6865,1453975],
+  [128747,"Karaj","IR",35.8327,50.9915,1448075],
+  [1283240,"Kathmandu","NP",27.7017,85.3206,1442271],
+  [1633070,"Palembang","ID",-2.9167,104.7458,1441500],
+  [1169825,"Multan","PK",30.1968,71.4782,1437230],
+  [1254361,"Tirunelveli","IN",8.7274,77.6838,1435844],
+  [3521081,"Puebla","MX",19.0379,-98.2035,1434062],
+  [1581130,"Hanoi","VN",21.0245,105.8412,1431270],
+  [706483,"Kharkiv","UA",49.9808,36.2527,1430885],
+  [1279259,"Agra","IN",27.1833,78.0167,1430055],
+  [3860259,"Córdoba","AR",-31.4135,-64.181,1428214],
+  [113646,"Tabriz","IR",38.08,46.2919,1424641],
+  [1496747,"Novosibirsk","RU",55.0415,82.9346,1419007],
+  [1841811,"Gwangju","KR",35.1547,126.9156,1416938],
+  [750269,"Bursa","TR",40.1956,29.0601,1412701],
+  [1253573,"Vadodara","IN",22.2994,73.2081,1409476],
+  [3405870,"Belém","BR",-1.4558,-48.5044,1407737],
+  [2037355,"Fushun","CN",41.8867,123.9436,1400646],
+  [3652462,"Quito","EC",-0.2298,-78.5249,1399814],
+  [5391811,"San Diego","US",32.7157,-117.1647,1394928],
+  [1863967,"Fukuoka","JP",33.6,130.4167,1392289],
+  [1070940,"Antananarivo","MG",-18.9137,47.5361,1391433],
+  [1801792,"Luoyang","CN",34.6836,112.4536,1390581],
+  [1176734,"Hyderabad","PK",25.3924,68.3737,1386330],
+  [5110266,"The Bronx","US",40.8499,-73.8664,1385108],
+  [3625549,"Valencia","VE",10.162,-68.0076,1385083],
+  [1177662,"Gujranwala","PK",32.1557,74.1871,1384471],
+  [3689147,"Barranquilla","CO",10.9685,-74.7813,1380425],
+  [1802875,"Guankou","CN",28.1586,113.6271,1380000],
+  [922704,"Lubumbashi","CD",-11.6609,27.4794,1373770],
+  [3452925,"Porto Alegre","BR",-30.0328,-51.2302,1372741],
+  [1625084,"Tangerang","ID",-6.1781,106.63,1372124],
+  [1262111,"Najafgarh","IN",28.6092,76.9798,1365000],
+  [3904906,"Santa Cruz de la Sierra","BO",-17.7863,-63.1812,1364389],
+  [1808963,"Handan","CN",36.6006,114.4678,1358318],
+  [232422,"Kampala","UG",0.3163,32.5822,1353189],
+  [1486209,"Yekaterinburg","RU",56.8519,60.6122,1349772],
+  [1336135,"Khulna","BD",22.8098,89.5644,1342339],
+  [2232593,"Douala","CM",4.0483,9.7043,1338082],
+  [1270926,"Gorakhpur","IN",29.4477,75.6721,1324570],
+  [292672,"Sharjah","AE",25.3374,55.4121,1324473],
+  [104515,"Mecca","SA",21.4266,39.8256,1323624],
+  [1622786,"Makassar","ID",-5.1486,119.4319,1321717],
+  [4013708,"Juárez","MX",31.7202,-106.4608,1321004],
+  [1859642,"Kawasaki","JP",35.5206,139.7172,1306785],
+  [8581443,"South Tangerang","ID",-6.2886,106.7179,1303569],
+  [2038432,"Baotou","CN",40.5834,110.0167,1301768],
+  [3981609,"Tijuana","MX",32.5027,-117.0037,1300983],
+  [4684888,"Dallas","US",32.7831,-96.8067,1300092],
+  [109223,"Medina","SA",24.4686,39.6142,1300000],
+  [2220957,"Yaoundé","CM",3.8667,11.5167,1299369],
+  [2460596,"Bamako","ML",12.65,-8,1297281],
+  [1261731,"Nashik","IN",19.9973,73.791,1289497],
+  [1627896,"Semarang","ID",-6.9931,110.4208,1288084],
+  [2260535,"Brazzaville","CG",-4.2661,15.2832,1284609],
+  [1259652,"Pimpri","IN",18.6229,73.807,1284606],
+  [520555,"Nizhniy Novgorod","RU",56.3287,44.002,1284164],
+  [250441,"Amman","JO",31.9552,35.945,1275857],
+  [1723510,"Budta","PH",7.2042,124.4397,1273715],
+  [792680,"Belgrade","RS",44.804,20.4651,1273651],
+  [3441575,"Montevideo","UY",-34.9033,-56.1882,1270737],
+  [909137,"Lusaka","ZM",-15.4067,28.2871,1267440],
+  [1788046,"Xuchang","CN",34.0319,113.863,1265536],
+  [1268295,"Kalyān","IN",19.2437,73.1355,1262255],
+  [1254661,"Thāne","IN",19.197,72.9636,1261517],
+  [2867714,"Munich","DE",48.1374,11.5755,1260391],
+  [268743,"Ra’s Bayrūt","LB",33.9,35.4833,1251739],
+  [115019,"Shiraz","IR",29.6103,52.5311,1249942],
+  [325363,"Adana","TR",36.9862,35.3253,1248988],
+  [1835553,"Suwon","KR",37.2911,127.0089,1242724],
+  [3998655,"León de los Aldama","MX",21.1291,-101.6737,1238962],
+  [3173435,"Milan","IT",45.4643,9.1895,1236837],
+  [3718426,"Port-au-Prince","HT",18.5435,-72.3388,1234742],
+  [2078025,"Adelaide","AU",-34.9287,138.5986,1225235],
+  [1263214,"Meerut","IN",28.98,77.7064,1223184],
+  [1261162,"Nowrangapur","IN",19.2311,82.5483,1220946],
+  [1271951,"Faridabad","IN",28.4112,77.3132,1220229],
+  [1168197,"Peshawar","PK",34.008,71.5785,1218773],
+  [1715348,"Davao","PH",7.0731,125.6128,1212504],
+  [1311874,"Mandalay","MM",21.9747,96.0836,1208099],
+  [1927639,"Yueyang","CN",29.3746,113.0948,1200000],
+  [3492914,"Santiago de los Caballeros","DO",19.4517,-70.697,1200000],
+  [365137,"Omdurman","SD",15.6445,32.4777,1200000],
+  [2038632,"Anshan","CN",41.1236,122.99,1199275],
+  [1787824,"Tongshan","CN",34.1805,117.1571,1199193],
+  [1271308,"Ghāziābād","IN",28.6654,77.4392,1199191],
+  [1645524,"Depok","ID",-6.4,106.8186,1198129],
+  [6940394,"Saitama","JP",35.9081,139.6566,1193350],
+  [1272423,"Dombivli","IN",19.2167,73.0833,1193000],
+  [1040652,"Maputo","MZ",-25.9655,32.5832,1191613],
+  [3514674,"Gustavo Adolfo Madero","MX",19.4939,-99.1107,1185772],
+  [1810821,"Fuzhou","CN",26.0614,119.3061,1179720],
+  [1258847,"Rājkot","IN",22.2916,70.7932,1177362],
+  [3838583,"Rosario","AR",-32.9468,-60.6393,1173533],
+  [1809461,"Guiyang","CN",26.5833,106.7167,1171633],
+  [3462377,"Goiânia","BR",-16.6786,-49.2539,1171195],
+  [3461786,"Guarulhos","BR",-23.4628,-46.5333,1169577],
+  [3067696,"Prague","CZ",50.088,14.4208,1165581],
+  [1253405,"Varanasi","IN",25.3167,83.0104,1164404],
+  [6295587,"Batam","ID",1.1494,104.0249,1164352],
+  [2618425,"Copenhagen","DK",55.6759,12.5655,1153615],
+  [727011,"Sofia","BG",42.6975,23.3242,1152556],
+  [2210247,"Tripoli","LY",32.8874,13.1873,1150989],
+  [2324774,"Port Harcourt","NG",4.7774,7.0134,1148665],
+  [1862415,"Hiroshima","JP",34.4,132.45,1143841],
+  [3979770,"Zapopan","MX",20.7236,-103.3848,1142483],
+  [1813253,"Lijiang","CN",26.8688,100.2207,1137600],
+  [3995465,"Monterrey","MX",25.6751,-100.3185,1135512],
+  [499099,"Samara","RU",53.2001,50.15,1134730],
+  [1496153,"Omsk","RU",54.9924,73.3686,1129281],
+  [2347283,"Benin City","NG",6.3382,5.6258,1125058],
+  [1978681,"Malingao","PH",7.1608,124.475,1121974],
+  [587084,"Baku","AZ",40.3777,49.892,1116513],
+  [2331447,"Maiduguri","NG",11.8469,13.1571,1112449],
+  [551487,"Kazan","RU",55.7887,49.1221,1104738],
+  [3530589,"Ciudad Nezahualcoyotl","MX",19.4006,-99.0148,1104585],
+  [616052,"Yerevan","AM",40.1811,44.5136,1093485],
+  [1278710,"Amritsar","IN",31.6223,74.8753,1092450],
+  [2357048,"Ouagadougou","BF",12.3657,-1.5339,1086505],
+  [1848254,"Yono","JP",35.8833,139.6333,1077730],
+  [501175,"Rostov-na-Donu","RU",47.2314,39.7233,1074482],
+  [1278994,"Allahābād","IN",25.4448,81.8432,1073438],
+  [1842485,"Goyang-si","KR",37.6564,126.835,1073069],
+  [314830,"Gaziantep","TR",37.0594,37.3825,1065975],
+  [1253102,"Visakhapatnam","IN",17.6801,83.2016,1063178],
+  [2111149,"Sendai","JP",38.2667,140.8667,1063103],
+  [1508291,"Chelyabinsk","RU",55.154,61.4292,1062919],
+  [2037799,"Datong","CN",40.0936,113.2914,1052678],
+  [611717,"Tbilisi","GE",41.6941,44.8337,1049498],
+  [7283386,"Changshu City","CN",31.6462,120.7422,1047700],
+  [1668399,"Taichung","TW",24.1469,120.6839,1040725],
+  [1254745,"Teni","IN",10.0112,77.4777,1034724],
+  [1790353,"Xianyang","CN",34.3378,108.7026,1034081],
+  [479561,"Ufa","RU",54.7431,55.9678,1033338],
+  [709930,"Dnipro","UA",48.4593,35.0386,1032822],
+  [1897000,"Seongnam-si","KR",37.4386,127.1378,1031935],
+  [3467865,"Campinas","BR",-22.9056,-47.0608,1031554],
+  [1269633,"Jabalpur","IN",23.167,79.9501,1030168],
+  [1270396,"Hāora","IN",22.5769,88.3186,1027672],
+  [1807681,"Huainan","CN",32.6264,116.9969,1027655],
+  [5392171,"San Jose","US",37.3394,-121.895,1026908],
+  [709717,"Donetsk","UA",48.023,37.8022,1024700],
+  [2964574,"Dublin","IE",53.3331,-6.2489,1024027],
+  [5913490,"Calgary","CA",51.0501,-114.0853,1019942],
+  [2800866,"Brussels","BE",50.8505,4.3488,1019022],
+  [1278149,"Aurangabad","IN",19.8776,75.3423,1016441],
+  [472757,"Volgograd","RU",48.7194,44.5018,1011417],
+  [3456160,"Nova Iguaçu","BR",-22.7592,-43.4511,1002118],
+  [1797121,"Jieyang","CN",23.5418,116.3658,1001985],
+  [698740,"Odessa","UA",46.4775,30.7326,1001558],
+  [7602670,"Zhu Cheng City","CN",35.995,119.4026,1000000],
+  [6943660,"Shivaji Nagar","IN",18.5302,73.8526,1000000],
+  [1859307,"Kitakyushu","JP",33.8518,130.8503,997536],
+  [1256436,"Solāpur","IN",17.6715,75.9104,997281],
+  [1816971,"Baoding","CN",38.8511,115.4903,995652],
+  [3598132,"Guatemala City","GT",14.6407,-90.5133,994938],
+  [2038300,"Benxi","CN",41.2886,123.765,987717],
+  [2655603,"Birmingham","GB",52.4814,-1.8998,984333],
+  [511196,"Perm","RU",58.0105,56.2502,982419],
+  [1255634,"Srinagar","IN",34.0857,74.8056,975857],
+  [2317765,"Zaria","NG",11.1113,7.7227,975153],
+  [3617763,"Managua","NI",12.1328,-86.2504,973087],
+  [964420,"Port Elizabeth","ZA",-33.9611,25.6149,967677],
+  [2548885,"Fès","MA",34.0331,-5.0003,964891],
+  [2886242,"Köln","DE",50.9333,6.95,963395],
+  [1833747,"Ulsan","KR",35.5372,129.3167,962865],
+  [1274746,"Chandigarh","IN",30.7363,76.7884,960787],
+  [1273865,"Coimbatore","IN",11.0056,76.9661,959823],
+  [3172394,"Naples","IT",40.8522,14.2681,959470],
+  [3395981,"Maceió","BR",-9.6658,-35.7353,954991],
+  [3687238,"Cartagena","CO",10.3997,-75.5144,952024],
+  [1815456,"Changzhou","CN",31.7736,119.954,949018],
+  [101760,"Sulţānah","SA",24.4926,39.5857,946697],
+  [2274895,"Monrovia","LR",6.3005,-10.7969,939524],
+  [3489854,"Kingston","JM",17.997,-76.7936,937700],
+  [95446,"Erbil","IQ",36.1833,44.0119,932800],
+  [4671654,"Austin","US",30.2672,-97.7431,931830],
+  [1502026,"Krasnoyarsk","RU",56.0184,92.8672,927200],
+  [6611854,"Nay Pyi Taw","MM",19.745,96.1297,925000],
+  [1268865,"Jodhpur","IN",26.2684,73.0059,921476],
+  [2113015,"Chiba","JP",35.6,140.1167,919729],
+  [3388368,"São Luís","BR",-2.5297,-44.3028,917237],
+  [1264521,"Madurai","IN",9.919,78.1195,909908],
+  [2537763,"Sale","MA",34.0531,-6.7985,903485],
+  [1807700,"Huaibei","CN",33.9744,116.7917,903039],
+  [3919968,"Cochabamba","BO",-17.3895,-66.1568,900414],
+  [2293521,"Abobo","CI",5.4161,-4.0159,900000],
+  [1804879,"Kaifeng","CN",34.7986,114.3074,900000],
+  [100077,"Abū Ghurayb","IQ",33.3056,44.1848,900000],
+  [119208,"Qom","IR",34.6401,50.8764,900000],
+  [1528675,"Bishkek","KG",42.87,74.59,900000],
+  [1271476,"Guwahati","IN",26.1844,91.7458,899094],
+  [2353151,"Aba","NG",5.1066,7.3667,897560],
+  [1798827,"Pingdingshan","CN",33.7385,113.3012,889675],
+  [1270583,"Gwalior","IN",26.2298,78.1734,882458],
+  [2035265,"Qiqihar","CN",47.3409,123.9605,882364],
+  [1732905,"Klang","MY",3.0367,101.4433,879867],
+  [3844421,"Mendoza","AR",-32.8908,-68.8272,876884],
+  [306571,"Konya","TR",37.8714,32.4846,875530],
+  [209228,"Mbuji-Mayi","CD",-6.136,23.5898,874761],
+  [1253184,"Vijayawada","IN",16.5075,80.6466,874587],
+  [2246678,"Pikine","SN",14.7646,-17.3907,874062],
+  [3165524,"Turin","IT",45.0705,7.6868,870456],
+  [1262321,"Mysore","IN",12.2979,76.6393,868313],
+  [4160021,"Jacksonville","US",30.3322,-81.6556,868031],
+  [1791388,"Wenzhou","CN",27.9994,120.6668,865672],
+  [5391959,"San Francisco","US",37.7749,-122.4194,864816],
+  [2644210,"Liverpool","GB",53.4106,-2.9779,864122],
+  [498677,"Saratov","RU",51.5406,46.0086,863725],
+  [12069922,"Rohini","IN",28.7432,77.0678,860000],
+  [3600949,"Tegucigalpa","HN",14.0818,-87.2068,850848],
+  [1838716,"Bucheon-si","KR",37.4989,126.7831,850731],
+  [4509177,"Columbus","US",39.9612,-82.9988,850106],
+  [472045,"Voronezh","RU",51.672,39.1843,848752],
+  [1258526,"Ranchi","IN",23.3432,85.3094,846454],
+  [2028462,"Ulan Bator","MN",47.9077,106.8832,844818],
+  [1821940,"Takeo","KH",10.9908,104.785,843931],
+  [144448,"Ahvaz","IR",31.319,48.6842,841145],
+  [3947322,"Arequipa","PE",-16.3989,-71.535,841130],
+  [1633419,"Padang","ID",-0.9492,100.3543,840352],
+  [1269920,"Hubli","IN",15.3478,75.1338,840214],
+  [1785412,"Zhabei","CN",31.2586,121.4597,840000],
+  [2542997,"Marrakesh","MA",31.6342,-7.9999,839296],
+  [1645528,"Denpasar","ID",-8.65,115.2167,834881],
+  [1771023,"Kampung Baru Subang","MY",3.15,101.5333,833571],
+  [4691930,"Fort Worth","US",32.7254,-97.3208,833319],
+  [4259418,"Indianapolis","US",39.7684,-86.158,829718],
+  [4460243,"Charlotte","US",35.2271,-80.8431,827097],
+  [3464374,"Duque de Caxias","BR",-22.7856,-43.3117,818329],
+  [2335953,"Jos","NG",9.9285,8.8921,816824],
+  [2509954,"Valencia","ES",39.4698,-0.3774,814208],
+  [2337639,"Ilorin","NG",8.4966,4.5421,814192],
+  [3946083,"Callao","PE",-12.0566,-77.1181,813264],
+  [3911925,"La Paz","BO",-16.5,-68.15,812799],
+  [6094817,"Ottawa","CA",45.4112,-75.6981,812129],
+  [3648522,"Barquisimeto","VE",10.0647,-69.357,809490],
+  [4014338,"Chihuahua","MX",28.6353,-106.0889,809232],
+  [1799869,"Nanning","CN",22.8167,108.3167,803788],
+  [2409306,"Freetown","SL",8.4871,-13.2356,802639],
+  [1732752,"Johor Bahru","MY",1.4655,103.7578,802489],
+  [281184,"Jerusalem","IL",31.769,35.2163,801000],
+  [1624917,"Bandar Lampung","ID",-5.4292,105.2611,800348],
+  [1648473,"Bogor","ID",-6.5944,106.7892,800000],
+  [1261809,"Narela","IN",28.8527,77.0929,800000],
+  [186301,"Mombasa","KE",-4.0547,39.6636,799668],
+  [1717512,"Cebu City","PH",10.3167,123.8907,798634],
+  [287286,"Muscat","OM",23.5841,58.4078,797000],
+  [687700,"Zaporizhia","UA",47.8229,35.1903,796217],
+  [2995469,"Marseille","FR",43.297,5.3811,794811],
+  [250090,"Zarqa","JO",32.0728,36.088,792665],
+  [3522790,"Naucalpan de Juárez","MX",19.4785,-99.2396,792211],
+  [6955677,"Çankaya","TR",39.9179,32.8627,792189],
+  [1167460,"Rahim Yar Khan","PK",28.4199,70.3035,788915],
+  [10630176,"Pasragad Branch","IR",34.7777,48.4717,787878],
+  [2474141,"Boumerdas","DZ",36.7664,3.4772,786499],
+  [1268782,"Jalandhar","IN",31.3256,75.5792,785178],
+  [1254163,"Thiruvananthapuram","IN",8.4855,76.9492,784153],
+  [1853195,"Sakai","JP",34.5833,135.4667,782339],
+  [1785294,"Anyang","CN",36.096,114.3828,781129],
+  [3836873,"San Miguel de Tucumán","AR",-26.8241,-65.2226,781023],
+  [2394819,"Cotonou","BJ",6.3654,2.4183,780000],
+  [1257629,"Salem","IN",11.6538,78.1554,778396],
+  [3523349,"Mérida","MX",20.9754,-89.617,777615],
+  [1254388,"Tiruchirappalli","IN",10.8155,78.6965,775484],
+  [169577,"Homs","SY",34.7268,36.7234,775404],
+  [2036892,"Hohhot","CN",40.8106,111.6522,774477],
+  [2440485,"Niamey","NE",13.5137,2.1098,774235],
+  [1668355,"Tainan","TW",22.9908,120.2133,771235],
+  [1817720,"Shangyu","CN",30.0156,120.8711,770000],
+  [3093133,"Łódź","PL",51.7706,19.4739,768755],
+  [110336,"Dammam","SA",26.4344,50.1033,768602],
+  [1788852,"Xining","CN",36.6255,101.7574,767531],
+  [23814,"Kahrīz","IR",34.3838,47.0553,766706],
+  [1266049,"Kota","IN",25.1825,75.8391,763088],
+  [3394023,"Natal","BR",-5.795,-35.2094,763043],
+  [1275817,"Bhubaneshwar","IN",20.2724,85.8339,762243],
+  [1797595,"Qinhuangdao","CN",39.9317,119.5883,759718],
+  [1808370,"Hengyang","CN",26.8895,112.6189,759602],
+  [323777,"Antalya","TR",36.9081,30.6956,758188],
+  [3094802,"Kraków","PL",50.0614,19.9366,755050],
+  [1279017,"Alīgarh","IN",27.8815,78.0746,753207],
+  [1583992,"Da Nang","VN",16.0678,108.2208,752493],
+  [965301,"Pietermaritzburg","ZA",-29.6168,30.3928,750845],
+  [2365267,"Lomé","TG",6.1287,1.2215,749700],
+  [3691175,"Trujillo","PE",-8.116,-79.03,747450],
+  [1636722,"Malang","ID",-7.9797,112.6304,746716],
+  [3645528,"Ciudad Guayana","VE",8.3512,-62.641,746535],
+  [1277013,"Bareilly","IN",28.3668,79.4317,745435],
+  [202061,"Kigali","RW",-1.9499,30.0589,745261],
+  [3386496,"Teresina","BR",-5.0892,-42.8019,744512],
+  [1788572,"Xinxiang","CN",35.1903,113.8015,743601],
+  [3449344,"São Bernardo do Campo","BR",-23.6939,-46.565,743372],
+  [2036986,"Hegang","CN",47.3512,130.3001,743307],
+  [456172,"Riga","LV",56.946,24.1059,742572],
+  [2759794,"Amsterdam","NL",52.374,4.8897,741636],
+  [2325200,"Oyo","NG",7.8526,3.9313,736072],
+  [1167528,"Quetta","PK",30.1841,67.0014,733675],
+  [2641170,"Nottingham","GB",52.9536,-1.1505,729977],
+  [3467747,"Campo Grande","BR",-20.4428,-54.6464,729151],
+  [162183,"Ashgabat","TM",37.95,58.3833,727700],
+  [3514663,"Álvaro Obregón","MX",19.3587,-99.2033,726664],
+  [1169607,"Muzaffarābād","PK",34.37,73.4708,725000],
+  [751324,"Bağcılar","TR",41.039,28.8567,724270],
+  [98463,"As Sulaymānīyah","IQ",35.565,45.4329,723170],
+  [3985606,"San Luis Potosí","MX",22.1498,-100.9792,722772],
+  [4019233,"Aguascalientes","MX",21.8823,-102.2826,722250],
+  [3685533,"Cúcuta","CO",7.8939,-72.5078,721398],
+  [1262801,"Morādābād","IN",28.8389,78.7768,721139],
+  [2427123,"N'Djamena","TD",12.1067,15.0444,721081],
+  [1804540,"Langfang","CN",39.5097,116.6947,720119],
+  [1783873,"Zhumadian","CN",32.9794,114.0294,720000],
+  [1787093,"Yantai","CN",37.4765,121.4408,719332],
+  [702550,"Lviv","UA",49.8383,24.0232,717803],
+  [4004898,"Hermosillo","MX",29.1026,-110.9773,715061],
+  [5946768,"Edmonton","CA",53.5501,-113.4687,712391],
+  [1845457,"Jeonju","KR",35.8219,127.1489,711424],
+  [3988086,"Saltillo","MX",25.4232,-101.0053,709671],
+  [1783763,"Zhuzhou","CN",27.8333,113.15,709358],
+  [8504423,"Subang Jaya","MY",3.0438,101.5806,708296],
+  [1275901,"Bhiwandi","IN",19.3002,73.0588,707035],
+  [1631761,"Pekanbaru","ID",0.5167,101.4417,703956],
+  [2510911,"Sevilla","ES",37.3828,-5.9732,703206],
+  [482283,"Tol’yatti","RU",53.5303,49.3461,702879],
+  [3397838,"Jaboatão","BR",-8.1803,-35.0014,702621],
+  [1851717,"Shizuoka","JP",34.9833,138.3833,701561],
+  [7874116,"Santo Domingo Oeste","DO",18.5,-70,701269],
+  [1185128,"Rājshāhi","BD",24.374,88.6011,700133],
+  [8601412,"Santo Domingo Este","DO",18.4885,-69.8571,700000],
+  [8224624,"City of Balikpapan","ID",-1.242,116.8942,700000],
+  [1183105,"Battagram","PK",34.6772,73.0233,700000],
+  [1815463,"Changzhi","CN",35.2089,111.7386,699514],
+  [894701,"Bulawayo","ZW",-20.15,28.5833,699385],
+  [3186886,"Zagreb","HR",45.8144,15.978,698966],
+  [2561668,"Agadir","MA",30.4202,-9.5981,698310],
+  [3191281,"Sarajevo","BA",43.8486,18.3564,696731],
+  [3432043,"La Plata","AR",-34.9214,-57.9545,694167],
+  [2464470,"Tunis","TN",36.819,10.1658,693210],
+  [2033196,"Zhangjiakou","CN",40.81,114.8794,692602],
+  [1783745,"Zigong","CN",29.3416,104.7769,689961],
+  [3996069,"Mexicali","MX",32.6278,-115.4545,689775],
+  [2037346,"Fuxin","CN",42.0156,121.6589,689050],
+  [2343279,"Enugu","NG",6.4413,7.4988,688862],
+  [2530335,"Tangier","MA",35.7673,-5.7998,688356],
+  [1807234,"Huangshi","CN",30.2471,115.0481,688090],
+  [2036113,"Liaoyang","CN",41.2719,123.1731,687890],
+  [2638077,"Sheffield","GB",53.383,-1.4659,685368],
+  [5809844,"Seattle","US",47.6062,-122.3321,684451],
+  [5419384,"Denver","US",39.7392,-104.9847,682545],
+  [5520993,"El Paso","US",31.7587,-106.4869,681124],
+  [1858421,"Kumamoto","JP",32.8059,130.6918,680423],
+  [1258980,"Raipur","IN",21.2333,81.6333,679995],
+  [1713022,"General Santos","PH",6.1128,125.1717,679588],
+  [1221874,"Dushanbe","TJ",38.5358,68.7791,679400],
+  [3455775,"Osasco","BR",-23.5325,-46.7917,677856],
+  [4990729,"Detroit","US",42.3314,-83.0457,677116],
+  [4012176,"Culiacán","MX",24.7903,-107.3878,675773],
+  [1039854,"Matola","MZ",-25.9622,32.4589,675422],
+  [3104324,"Zaragoza","ES",41.6561,-0.8773,674317],
+  [1270927,"Gorakhpur","IN",26.7663,83.3689,674246],
+  [1790492,"Xiangtan","CN",27.85,112.9,674189],
+  [4005492,"Guadalupe","MX",25.6768,-100.2565,673616],
+  [3533462,"Acapulco de Juárez","MX",16.8494,-99.9089,673479],
+  [1734634,"Ipoh","MY",4.5841,101.0829,673318],
+  [6075357,"Mississauga","CA",43.5789,-79.6583,668549],
+  [4930956,"Boston","US",42.3584,-71.0598,667137],
+  [1798422,"Puyang Chengguanzhen","CN",35.7051,115.0141,666322],
+  [1799722,"Nantong","CN",32.0303,120.8747,666251],
+  [2035715,"Mudanjiang","CN",44.5833,129.6,665915],
+  [264371,"Athens","GR",37.9838,23.7278,664046],
+  [3449701,"Santo André","BR",-23.6639,-46.5383,662373],
+  [2377450,"Nouakchott","MR",18.0858,-15.9785,661400],
+  [2255414,"Pointe-Noire","CG",-4.7761,11.8635,659084],
+  [4641239,"Memphis","US",35.1495,-90.049,655770],
+  [3515431,"Tlalnepantla","MX",19.5401,-99.1954,653410],
+  [703845,"Kryvyi Rih","UA",47.9097,33.3804,652380],
+  [3397277,"João Pessoa","BR",-7.115,-34.8631,650883],
+  [1846918,"Ansan-si","KR",37.3236,126.8219,650728],
+  [88319,"Benghazi","LY",32.1149,20.0686,650629],
+  [2925533,"Frankfurt am Main","DE",50.1155,8.6842,650000],
+  [542420,"Krasnodar","RU",45.0448,38.976,649851],
+  [1809498,"Guilin","CN",25.2819,110.2864,649352],
+  [2523920,"Palermo","IT",38.1321,13.3356,648260],
+  [1248991,"Colombo","LK",6.9355,79.8487,648034],
+  [927967,"Lilongwe","MW",-13.9669,33.7873,646750],
+  [2485926,"Oran","DZ",35.6991,-0.6359,645984],
+  [316541,"Diyarbakır","TR",37.9136,40.2172,644763],
+  [1684308,"Taguig","PH",14.5243,121.0792,644473],
+  [4645421,"New South Memphis","US",35.0868,-90.0568,641608],
+  [479123,"Ulyanovsk","RU",54.3282,48.3866,640680],
+  [1173055,"Kotli","PK",33.5184,73.9022,640000],
+  [1854383,"Okayama","JP",34.65,133.9333,639652],
+  [1784990,"Zhanjiang","CN",21.2815,110.3427,637790],
+  [285839,"Al Aḩmadī","KW",29.0769,48.0839,637411],
+  [1621177,"Yogyakarta","ID",-7.8014,110.3647,636660],
+  [6091104,"North York","CA",43.7668,-79.4163,636000],
+  [618426,"Chisinau","MD",47.0056,28.8575,635994],
+  [3081368,"Wrocław","PL",51.1,17.0333,634893],
+  [1845604,"Cheongju-si","KR",36.6372,127.4897,634596],
+  [1846898,"Anyang-si","KR",37.3925,126.9269,634367],
+  [2477461,"Tébessa","DZ",35.4042,8.1242,634332],
+  [1784642,"Zhenjiang","CN",32.2109,119.4551,632552],
+  [5746545,"Portland","US",45.5234,-122.6762,632309],
+  [6183235,"Winnipeg","CA",49.8844,-97.147,632063],
+  [2037886,"Dandong","CN",40.1292,124.3947,631973],
+  [4544349,"Oklahoma City","US",35.4676,-97.5164,631346],
+  [554840,"Izhevsk","RU",56.8498,53.2045,631038],
+  [6317344,"Jaboatão dos Guararapes","BR",-8.1128,-35.0147,630008],
+  [1795874,"Shaoguan","CN",24.8,113.5833,628749],
+  [1787746,"Yancheng","CN",33.3575,120.1573,628441],
+  [3531673,"Cancún","MX",21.1743,-86.8466,628306],
+  [3465624,"Contagem","BR",-19.9317,-44.0536,627123],
+  [3991164,"Santiago de Querétaro","MX",20.5881,-100.3881,626495],
+  [1275971,"Bhilai","IN",21.2092,81.4285,625138],
+  [2035513,"Panshan","CN",41.1881,122.0494,625040],
+  [223817,"Djibouti","DJ",11.589,43.145,623891],
+  [5506956,"Las Vegas","US",36.175,-115.1372,623747],
+  [4347778,"Baltimore","US",39.2904,-76.6122,621849],
+  [128226,"Kermanshah","IR",34.3142,47.065,621100],
+  [3530139,"Coyoacán","MX",19.3467,-99.1617,620416],
+  [3451328,"Ribeirão Preto","BR",-21.1775,-47.8103,619746],
+  [79415,"Al Ḩudaydah","YE",14.7978,42.9545,617871],
+  [7290466,"Pasig City","PH",14.5869,121.0614,617301],
+  [2654675,"Bristol","GB",51.4552,-2.5966,617280],
+  [1269300,"Jamshedpur","IN",22.8028,86.1855,616338],
+  [1809078,"Haikou","CN",20.0458,110.3417,615835],
+  [70225,"Ta‘izz","YE",13.5795,44.0209,615222],
+  [3448636,"São José dos Campos","BR",-23.1794,-45.8869,613764],
+  [3517270,"Santa María Chimalhuacán","MX",19.4216,-98.9504,612383],
+  [1793505,"Taizhou","CN",32.4907,119.9081,612356],
+  [1788927,"Xingtai","CN",37.0631,114.4942,611739],
+  [1275248,"Borivli","IN",19.235,72.8598,609617],
+  [3981254,"Torreón","MX",25.5439,-103.419,608836],
+  [468902,"Yaroslavl","RU",57.6299,39.8737,606730],
+  [1020098,"Benoni","ZA",-26.1885,28.3208,605344],
+  [1863289,"Hamamatsu","JP",34.7,137.7333,605098],
+  [1273874,"Cochin","IN",9.9399,76.2602,604696],
+  [2036427,"Jinzhou","CN",41.1078,121.1417,604269],
+  [1278718,"Amrāvati","IN",20.9333,77.75,603837],
+  [292968,"Abu Dhabi","AE",24.4512,54.397,603492],
+  [1581298,"Haiphong","VN",20.8648,106.6835,602695],
+  [4140963,"Washington, D.C.","US",38.8951,-77.0364,601723],
+  [1176615,"Islamabad","PK",33.7215,73.0433,601600],
+  [94787,"Kirkuk","IQ",35.4681,44.3922,601433],
+  [1257416,"Sāngli","IN",16.8544,74.5642,601214],
+  [5263045,"Milwaukee","US",43.0389,-87.9065,600155],
+  [6173331,"Vancouver","CA",49.2497,-123.1193,600000],
+  [6948711,"Scarborough","CA",43.7722,-79.2567,600000],
+  [2034786,"Shuangyashan","CN",46.6361,131.1539,600000],
+  [1626801,"Situbondo","ID",-7.7062,114.0098,600000],
+  [1510853,"Barnaul","RU",53.3606,83.7636,599579],
+  [2747891,"Rotterdam","NL",51.9225,4.4792,598199],
+  [3995402,"Morelia","MX",19.7008,-101.1844,597511],
+  [1802204,"Luancheng","CN",37.8792,114.6517,597130],
+  [118743,"Rasht","IR",37.2761,49.5886,594590],
+  [2352947,"Abeokuta","NG",7.1557,3.3451,593100],
+  [2928810,"Essen","DE",51.4566,7.0123,593085],
+  [308464,"Kayseri","TR",38.7322,35.4853,592840],
+  [2648579,"Glasgow","GB",55.8652,-4.2576,591620],
+  [2165087,"Gold Coast","AU",-28.0003,153.4309,591473],
+  [2033370,"Yingkou","CN",40.6648,122.2283,591159],
+  [2352778,"Abuja","NG",9.0579,7.4951,590400],
+  [1707174,"Las Piñas","PH",14.4506,120.9828,590000],
+  [1785018,"Zhangzhou","CN",24.5133,117.6556,589831],
+  [2825297,"Stuttgart","DE",48.7823,9.177,589793],
+  [3520339,"Reynosa","MX",26.0806,-98.2883,589466],
+  [2935517,"Dortmund","DE",51.5149,7.466,588462],
+  [2013348,"Vladivostok","RU",43.1056,131.8735,587022],
+  [2023469,"Irkutsk","RU",52.2978,104.2964,586695],
+  [931755,"Blantyre","MW",-15.785,35.0085,584877],
+  [3489297,"New Kingston","JM",18.0075,-76.7832,583958],
+  [738329,"Üsküdar","TR",41.0227,29.0137,582666],
+  [3176219,"Genoa","IT",44.4048,8.9444,580223],
+  [1273780,"Cuttack","IN",20.465,85.8793,580000],
+  [3143244,"Oslo","NO",59.9127,10.7461,580000],
+  [1863440,"Hachiōji","JP",35.6558,139.3239,579399],
+  [2022890,"Khabarovsk","RU",48.4827,135.0838,579000],
+  [2056752,"Khabarovsk Vtoroy","RU",48.4378,135.1333,578303],
+  [2399697,"Libreville","GA",0.3924,9.4536,578156],
+  [128234,"Kerman","IR",30.2832,57.0788,577514],
+  [3698350,"Chiclayo","PE",-6.7714,-79.8409,577375],
+  [121801,"Orūmīyeh","IR",37.5527,45.0761,577307],
+  [7627067,"Bahçelievler","TR",41.0023,28.8598,576799],
+  [1816440,"Bengbu","CN",32.9408,117.3608,576648],
+  [1275665,"Bīkaner","IN",28.0176,73.315,576015],
+  [3981461,"Tlaquepaque","MX",20.6409,-103.2933,575942],
+  [3515428,"Tlalpan","MX",19.2951,-99.1621,574577],
+  [738377,"Umraniye","TR",41.0164,29.1248,573265],
+  [2934246,"Düsseldorf","DE",51.2217,6.7762,573057],
+  [1650213,"Banjarmasin","ID",-3.3199,114.5908,572837],
+  [2711537,"Göteborg","SE",57.7072,11.9668,572799],
+  [1529195,"Shihezi","CN",44.3023,86.0369,572772],
+  [3688465,"Bucaramanga","CO",7.1254,-73.1198,571820],
+  [4951305,"South Boston","US",42.3334,-71.0495,571281],
+  [1735634,"Kuching","MY",1.55,110.3333,570407],
+  [3088171,"Poznań","PL",52.4069,16.9299,570352],
+  [2514256,"Málaga","ES",36.7202,-4.4203,568305],
+  [2290956,"Bouaké","CI",7.6939,-5.0303,567481],
+  [369004,"Nyala","SD",12.0489,24.8807,565734],
+  [343300,"Asmara","ER",15.3381,38.9318,563930],
+  [2322911,"Sokoto","NG",13.0627,5.2432,563861],
+  [3445831,"Uberlândia","BR",-18.9186,-48.2772,563536],
+  [2326016,"Onitsha","NG",6.1498,6.7857,561066],
+  [1863905,"Honchō","JP",35.7013,139.9865,560743],
+  [5454711,"Albuquerque","US",35.0845,-106.6511,559121],
+  [1877449,"Hamhŭng","KP",39.9183,127.5364,559056],
+  [3447399,"Sorocaba","BR",-23.5017,-47.4581,558862],
+  [658225,"Helsinki","FI",60.1695,24.9355,558457],
+  [1252948,"Warangal","IN",18,79.5833,557802],
+  [3536729,"Santiago de Cuba","CU",20.0208,-75.8267,555865],
+  [2034714,"Siping","CN",43.1614,124.3779,555609],
+  [1860827,"Kagoshima","JP",31.5667,130.55,555352],
+  [1625812,"Surakarta","ID",-7.5561,110.8317,555308],
+  [1797873,"Huai'an","CN",33.5886,119.0192,555230],
+  [1276032,"Bhavnagar","IN",21.7629,72.1533,554978],
+  [3430863,"Mar del Plata","AR",-38.0004,-57.5562,553935],
+  [1183880,"Bahawalpur","PK",29.3978,71.6752,552607],
+  [1159301,"Zahedan","IR",29.4963,60.8629,551980],
+  [415189,"Aden","YE",12.7794,45.0367,550602],
+  [1261977,"Nanded","IN",19.1602,77.315,550564],
+  [515003,"Orenburg","RU",51.7727,55.0988,550204],
+  [1846326,"Changwon","KR",35.2281,128.6811,550000],
+  [786714,"Pristina","XK",42.6727,21.1669,550000],
+  [2036581,"Jiamusi","CN",46.7993,130.3163,549549],
+  [1730501,"Antipolo","PH",14.6258,121.1225,549543],
+  [1799491,"Neijiang","CN",29.5835,105.0622,546854],
+  [2944388,"Bremen","DE",53.0758,8.8072,546501],
+  [2542715,"Meknès","MA",33.8935,-5.5473,545705],
+  [1670029,"Banqiao","TW",25.0143,121.4672,543342],
+  [1166000,"Sargodha","PK",32.0859,72.6742,542603],
+  [2389853,"Bangui","CF",4.3612,18.555,542393],
+  [593116,"Vilnius","LT",54.6892,25.2798,542366],
+  [1787227,"Yangzhou","CN",32.3972,119.4358,539715],
+  [1496990,"Novokuznetsk","RU",53.7557,87.1099,539616],
+  [212730,"Kisangani","CD",0.5153,25.191,539158],
+  [358619,"Port Said","EG",31.2653,32.3019,538378],
+  [304531,"Mersin","TR",36.812,34.6389,537842],
+  [3515001,"Tuxtla","MX",16.7597,-93.1131,537102],
+  [1258315,"Raurkela","IN",22.225,84.8641,536450],
+  [2319133,"Warri","NG",5.5174,5.7501,536023],
+  [1809412,"Guli","CN",28.8816,120.0331,536000],
+  [2344082,"Ebute Ikorodu","NG",6.6009,3.4882,535619],
+  [1793424,"Tanggu","CN",39.0211,117.6469,535298],
+  [1806299,"Jiangmen","CN",22.5833,113.0833,532419],
+  [3827409,"Cuauhtémoc","MX",19.4451,-99.1461,531831],
+  [5318313,"Tucson","US",32.2217,-110.9265,531641],
+  [4644585,"Nashville","US",36.1659,-86.7844,530852],
+  [107968,"Ta’if","SA",21.2703,40.4158,530848],
+  [1052373,"Beira","MZ",-19.8436,34.8389,530604],
+  [1270668,"Guntur","IN",16.2997,80.4573,530577],
+  [2244322,"Touba","SN",14.85,-15.8833,529176],
+  [6325494,"Québec","CA",46.8123,-71.2145,528595],
+  [132144,"Hamadān","IR",34.7992,48.5146,528256],
+  [1816080,"Cangzhou","CN",38.3167,116.8667,527681],
+  [3583361,"San Salvador","SV",13.6894,-89.1872,525990],
+  [1273313,"Dehra Dūn","IN",30.3244,78.0339,522081],
+  [3465038,"Cuiabá","BR",-15.5961,-56.0967,521934],
+  [1735158,"Petaling Jaya","MY",3.1073,101.6067,520698],
+  [1821274,"Macau","MO",22.2006,113.5461,520400],
+  [1276014,"Bhayandar","IN",19.3016,72.8511,520301],
+  [747340,"Esenler","TR",41.0435,28.8762,520235],
+  [500096,"Ryazan’","RU",54.6269,39.6916,520173],
+  [5350937,"Fresno","US",36.7477,-119.7724,520052],
+  [5969782,"Hamilton","CA",43.2501,-79.8496,519949],
+  [1488754,"Tyumen","RU",57.1522,65.5272,519119],
+  [1272175,"Durgapur","IN",23.5158,87.308,518872],
+  [4011743,"Victoria de Durango","MX",24.0203,-104.6576,518709],
+  [1279159,"Ajmer","IN",26.4521,74.6387,517911],
+  [2267057,"Lisbon","PT",38.7167,-9.1333,517802],
+  [1791121,"Changde","CN",29.0321,111.6984,517780],
+  [1805987,"Jiaozuo","CN",35.2397,113.2331,517540],
+  [1253894,"Ulhasnagar","IN",19.2167,73.15,516584],
+  [1266285,"Kolhāpur","IN",16.6956,74.2317,516142],
+  [535121,"Lipetsk","RU",52.6031,39.5708,515655],
+  [1256525,"Siliguri","IN",26.71,88.4285,515574],
+  [2910831,"Hannover","DE",52.3705,9.7332,515140],
+  [315202,"Eskişehir","TR",39.7767,30.5206,514869],
+  [14256,"Āzādshahr","IR",34.7905,48.5701,514102],
+  [3838233,"Salta","AR",-24.7859,-65.4117,512686],
+  [511565,"Penza","RU",53.2007,45.0046,512602],
+  [949880,"Tembisa","ZA",-25.9964,28.2268,511655],
+  [1275610,"Bilimora","IN",20.7696,72.9613,510879],
+  [700569,"Mykolayiv","UA",46.9659,31.9974,510840],
+  [6316406,"Aparecida de Goiânia","BR",-16.8233,-49.2439,510770],
+  [3875024,"Puente Alto","CL",-33.6117,-70.5758,510417],
+  [1703417,"Makati City","PH",14.5503,121.0327,510383],
+  [2034414,"Tonghua","CN",41.7197,125.9264,510000],
+  [523750,"Naberezhnyye Chelny","RU",55.7255,52.4112,509870],
+  [2644668,"Leicester","GB",52.6386,-1.1317,508916],
+  [1791236,"Wuhu","CN",31.3373,118.3735,507524],
+  [1855431,"Niigata","JP",37.8864,139.0059,505272],
+  [1267696,"Karol Bāgh","IN",28.6514,77.1907,505241],
+  [2879139,"Leipzig","DE",51.3396,12.3713,504971],
+  [8504951,"Kalininskiy","RU",59.9968,30.3899,504641],
+  [2934691,"Duisburg","DE",51.4325,6.7652,504358],
+  [1278314,"Āsansol","IN",23.6833,86.9833,504271],
+  [143127,"Arāk","IR",34.0949,49.6981,503647],
+  [580497,"Astrakhan","RU",46.3497,48.0408,502533],
+  [1790437,"Zhuhai","CN",22.2769,113.5678,501199],
+  [1839071,"Pohang","KR",36.0292,129.3648,500000],
+  [2861650,"Nürnberg","DE",49.4542,11.0775,499237],
+  [1795816,"Shashi","CN",30.3072,112.2447,498780],
+  [532096,"Makhachkala","RU",42.9764,47.5024,497959],
+  [1646448,"Cimahi","ID",-6.8722,107.5425,493698],
+  [1803936,"Wuwei","CN",37.9267,102.632,493092],
+  [1269317,"Jamnagar","IN",22.4729,70.0667,492056],
+  [5389489,"Sacramento","US",38.5816,-121.4944,490712],
+  [3471872,"Aracaju","BR",-10.9111,-37.0717,490175],
+  [292932,"Ajman City","AE",25.4018,55.4788,490035],
+  [9931406,"Jianshui","CN",24.2774,101.224,490000],
+  [377039,"Port Sudan","SD",19.6175,37.2164,489725],
+  [3836277,"Santa Fe","AR",-31.6488,-60.7087,489505],
+  [3601782,"San Pedro Sula","HN",15.5042,-88.025,489466],
+  [3515302,"Toluca","MX",19.2879,-99.6532,489333],
+  [3532624,"Ciudad López Mateos","MX",19.5579,-99.2567,489160],
+  [359796,"Suez","EG",29.9737,32.5263,488125],
+  [2935022,"Dresden","DE",51.0509,13.7383,486854],
+  [1489425,"Tomsk","RU",56.4977,84.9744,485519],
+  [2593460,"Masina","CD",-4.3836,15.3914,485167],
+  [1257806,"Sahāranpur","IN",29.9679,77.5452,484873],
+  [3515807,"Cuautitlán Izcalli","MX",19.6439,-99.216,484573],
+  [1270752,"Gulbarga","IN",17.3358,76.8376,483615],
+  [1276058,"Bhātpāra","IN",22.8664,88.4011,483129],
+  [98860,"Najaf","IQ",32.0259,44.3463,482576],
+  [3463478,"Feira de Santana","BR",-12.2667,-38.9667,481911],
+  [1732903,"Shah Alam","MY",3.0851,101.5328,481654],
+  [701822,"Mariupol","UA",47.0951,37.5413,481626],
+  [1862627,"Himeji","JP",34.8167,134.7,481493],
+  [627907,"Homyel'","BY",52.4345,30.9754,480951],
+  [1806488,"Qionghai","CN",19.2425,110.4642,480000],
+  [2327220,"Okene","NG",7.5512,6.2359,479178],
+  [1833788,"Uijeongbu-si","KR",37.7415,127.0474,479141],
+  [1006984,"East London","ZA",-33.0153,27.9116,478676],
+  [111822,"Yazd","IR",31.8972,54.3675,477905],
+  [57289,"Hargeysa","SO",9.56,44.065,477876],
+  [1164909,"Sialkot","PK",32.4927,74.5313,477396],
+  [1503901,"Kemerovo","RU",55.3333,86.0833,477090],
+  [1786764,"Yichang","CN",30.7144,111.2847,476725],
+  [1843847,"Hwaseong-si","KR",37.2068,126.8169,476297],
+  [4393217,"Kansas City","US",39.0997,-94.5786,475378],
+  [1786657,"Yinchuan","CN",38.4681,106.2731,475101],
+  [785842,"Skopje","MK",41.9965,21.4314,474889],
+  [944385,"Vereeniging","ZA",-26.6731,27.9262,474681],
+  [2747373,"The Hague","NL",52.0767,4.2986,474292],
+  [5367929,"Long Beach","US",33.767,-118.1892,474140],
+  [3592519,"Mixco","GT",14.6308,-90.6071,473080],
+  [2996944,"Lyon","FR",45.7485,4.8467,472317],
+  [3458449,"Londrina","BR",-23.3103,-51.1628,471832],
+  [5304391,"Mesa","US",33.4223,-111.8226,471825],
+  [1809061,"Jiaojiang","CN",28.6984,121.4733,470804],
+  [1857553,"Matsudo","JP",35.78,139.9014,470277],
+  [3459505,"Juiz de Fora","BR",-21.7642,-43.3503,470193],
+  [1855207,"Nishinomiya-hama","JP",34.7156,135.332,468925],
+  [480562,"Tula","RU",54.1961,37.6182,468825],
+  [5139568,"Staten Island","US",40.5623,-74.1399,468730],
+  [1859730,"Kawaguchi","JP",35.8052,139.7107,468565],
+  [4018390,"Ciudad Apodaca","MX",25.7819,-100.1884,467157],
+  [1783621,"Zunyi","CN",27.6867,106.9072,466292],
+  [1805953,"Jiaxing","CN",30.7522,120.75,466101],
+  [3470142,"Belford Roxo","BR",-22.7642,-43.3994,466096],
+  [1269321,"Jammu","IN",32.7357,74.8691,465567],
+  [2036109,"Liaoyuan","CN",42.9036,125.1358,465249],
+  [2650225,"Edinburgh","GB",55.9521,-3.1965,464990],
+  [4180439,"Atlanta","US",33.749,-84.388,463878],
+  [214481,"Kananga","CD",-5.8962,22.4166,463546],
+  [1018725,"Bloemfontein","ZA",-29.1211,26.214,463064],
+  [1790587,"Xiangyang","CN",32.0422,112.1448,462956],
+  [3099434,"Gdańsk","PL",54.3523,18.6491,461865],
+  [2346229,"Calabar","NG",4.9589,8.327,461796],
+  [1798998,"Dadukou","CN",26.5479,101.7054,461513],
+  [3459712,"Joinville","BR",-26.3044,-48.8456,461304],
+  [170017,"Ḩamāh","SY",35.1318,36.7578,460602],
+  [1265491,"Kurnool","IN",15.8289,78.036,460184],
+  [2803138,"Antwerpen","BE",51.2205,4.4003,459805],
+  [1860243,"Kanazawa","JP",36.6,136.6167,458937],
+  [7701384,"Karabağlar","TR",38.374,27.1352,458000],
+  [1679432,"Zamboanga","PH",6.9103,122.0739,457623],
+  [548408,"Kirov","RU",58.5967,49.6601,457383],
+  [1253914,"Ujjain","IN",23.1824,75.7764,457346],
+  [1733432,"Kota Kinabalu","MY",5.9749,116.0724,457326],
+  [5417598,"Colorado Springs","US",38.8339,-104.8214,456568],
+  [3456283,"Niterói","BR",-22.8833,-43.1036,456456],
+  [1808392,"Hengshui","CN",37.7322,115.7011,456356],
+  [101628,"Tabuk","SA",28.3998,36.5715,455450],
+  [1630789,"Pontianak","ID",-0.0319,109.325,455173],
+  [2644688,"Leeds","GB",53.7965,-1.5478,455123],
+  [1873757,"Namp’o","KP",38.7375,125.4078,455000],
+  [1729564,"Bacolod City","PH",10.6667,122.95,454898],
+  [3448877,"São João de Meriti","BR",-22.8039,-43.3722,454849],
+  [1701500,"Mansilingan","PH",10.6311,122.9789,454150],
+  [4791259,"Virginia Beach","US",36.8529,-75.978,452745],
+  [1258662,"Rāmgundam","IN",18.8008,79.4521,452261],
+  [702658,"Luhansk","UA",48.5671,39.3171,452000],
+  [1636544,"Manado","ID",1.4822,124.8489,451893],
+  [609655,"Karagandy","KZ",49.8019,73.1021,451800],
+  [4487042,"Raleigh","US",35.7721,-78.6386,451066],
+  [1805518,"Jining","CN",35.405,116.5814,450327],
+  [2501152,"Constantine","DZ",36.365,6.6147,450097],
+  [8505006,"Wenshan City","CN",23.3631,104.2505,450000],
+  [373303,"Juba","SS",4.8517,31.5825,450000],
+  [8074174,"Muratpaşa","TR",36.8916,30.765,450000],
+  [1849053,"Utsunomiya","JP",36.5667,139.8833,449865],
+  [3523466,"Heroica Matamoros","MX",25.8797,-97.5042,449815],
+  [298333,"Şanlıurfa","TR",37.1671,38.7939,449549],
+  [2038087,"Chengde","CN",40.9519,117.9588,449325],
+  [1854487,"Ōita","JP",33.2333,131.6,448907],
+  [2653822,"Cardiff","GB",51.48,-3.18,447287],
+  [3837213,"San Juan","AR",-31.5375,-68.5364,447048],
+  [569696,"Cheboksary","RU",56.1322,47.2519,446781],
+  [1017780,"Boksburg","ZA",-26.212,28.2596,445168],
+  [1721080,"Cagayan de Oro","PH",8.4822,124.6472,445103],
+  [5074472,"Omaha","US",41.2563,-95.9404,443885],
+  [1926099,"Matsuyama","JP",33.8392,132.7657,443322],
+  [3985241,"San Nicolás de los Garza","MX",25.7417,-100.3022,443273],
+  [1865387,"Amagasaki","JP",34.7167,135.4167,442173],
+  [3728338,"Carrefour","HT",18.5411,-72.3992,442156],
+  [1256409,"Shyamnagar","IN",22.8333,88.3667,441956],
+  [1715430,"Dasmariñas","PH",14.3294,120.9367,441876],
+  [304922,"Malatya","TR",38.3502,38.3167,441805],
+  [4164138,"Miami","US",25.7743,-80.1937,441003],
+  [1348818,"Nangi","IN",22.5083,88.2153,440894],
+  [3672486,"Pereira","CO",4.8133,-75.6961,440118],
+  [1265873,"Kozhikode","IN",11.248,75.7804,439922],
+  [1308465,"Mawlamyine","MM",16.4905,97.6283,438861],
+  [3696183,"Iquitos","PE",-3.7491,-73.2538,437620],
+  [1858311,"Kurashiki","JP",34.5833,133.7667,437581],
+  [1869012,"Sunch’ŏn","KP",39.4317,125.9328,437000],
+  [7628416,"Sultangazi","TR",41.1065,28.8685,436935],
+  [2231320,"Garoua","CM",9.3014,13.3977,436899],
+  [2513416,"Murcia","ES",37.987,-1.13,436870],
+  [152224,"Mwanza","TZ",-2.5167,32.9,436801],
+  [2319480,"Uyo","NG",5.0513,7.9335,436606],
+  [2038365,"Bei’an","CN",48.2667,126.6,436444],
+  [2229798,"Kousséri","CM",12.0769,15.0306,435547],
+  [1264115,"Mālegaon","IN",20.5497,74.5346,435362],
+  [1273368,"Davangere","IN",14.4669,75.9269,435128],
+  [554234,"Kaliningrad","RU",54.7065,20.511,434954],
+  [94824,"Karbala","IQ",32.616,44.0249,434450],
+  [1841246,"Masan","KR",35.1272,126.8315,434371],
+  [3407669,"Ananindeua","BR",-1.3656,-48.3722,433956],
+  [1650527,"Balikpapan","ID",-1.2675,116.8289,433866],
+  [5907364,"Brampton","CA",43.6834,-79.7663,433806],
+  [2972315,"Toulouse","FR",43.6043,1.4437,433055],
+  [293397,"Tel Aviv","IL",32.0809,34.7806,432892],
+  [1513157,"Namangan","UZ",40.9983,71.6726,432456],
+  [2334802,"Katsina","NG",12.9908,7.6018,432149],
+  [940909,"Welkom","ZA",-27.9774,26.7351,431944],
+  [3668605,"Santa Marta","CO",11.2408,-74.199,431781],
+  [360829,"Al Maḩallah al Kubrá","EG",30.9706,31.1669,431052],
+  [3827407,"Venustiano Carranza","MX",19.4436,-99.105,430978],
+  [1269407,"Jalgaon","IN",21.0029,75.566,429298],
+  [1848313,"Yokosuka","JP",35.2836,139.6672,428992],
+  [1279105,"Akola","IN",20.7096,76.9981,428857],
+  [1276533,"Belgaum","IN",15.8521,74.5045,428720],
+  [3514783,"Veracruz","MX",19.181,-96.1429,428323],
+  [7303419,"East Jerusalem","PS",31.7834,35.2339,428304],
+  [1801757,"Luqiao","CN",28.5802,121.3749,427890],
+  [571476,"Bryansk","RU",53.2521,34.3717,427236],
+  [741763,"Maltepe","TR",40.9357,29.1551,427040],
+  [109353,"Al Kharj","SA",24.1554,47.3346,425300],
+  [3648559,"Barcelona","VE",10.1363,-64.6862,424795],
+  [1815395,"Chaozhou","CN",23.654,116.6226,424787],
+  [3526617,"Xalapa de Enríquez","MX",19.5312,-96.9159,424755],
+  [2352379,"Ado-Ekiti","NG",7.6233,5.2209,424340],
+  [3060972,"Bratislava","SK",48.1482,17.1067,423737],
+  [1271439,"Gaya","IN",24.7969,85.0039,423692],
+  [1253986,"Udaipur","IN",24.5858,73.7135,422784],
+  [922741,"Likasi","CD",-10.983,26.7384,422414],
+  [360502,"Luxor","EG",25.6989,32.6421,422407],
+  [3680656,"Ibagué","CO",4.4389,-75.2322,421685],
+  [1795855,"Shaoxing","CN",30.0024,120.5786,421283],
+  [555312,"Ivanovo","RU",56.9972,40.9714,420839],
+  [315368,"Erzurum","TR",39.9086,41.2769,420691],
+  [2350841,"Akure","NG",7.2526,5.1931,420594],
+  [359783,"Asyūţ","EG",27.181,31.1837,420585],
+  [1642858,"Jambi City","ID",-1.6,103.6167,420323],
+  [360761,"Al Manşūrah","EG",31.0364,31.3807,420195],
+  [5378538,"Oakland","US",37.8044,-122.2708,419267],
+  [1266122,"Korba","IN",22.3458,82.6963,419146],
+  [1275362,"Bokāro","IN",23.7871,85.9564,418533],
+  [4568127,"San Juan","PR",18.4663,-66.1057,418140],
+  [922773,"Kolwezi","CD",-10.7148,25.4667,418000],
+  [2193733,"Auckland","NZ",-36.8485,174.7635,417910],
+  [1164408,"Sukkur","PK",27.7032,68.8589,417767],
+  [1263780,"Mangalore","IN",12.9172,74.856,417387],
+  [1801934,"Luohe","CN",33.5639,114.0427,417356],
+  [1694611,"Pasay","PH",14.5375,121.0014,416522],
+  [694423,"Sevastopol","UA",44.608,33.5213,416263],
+  [3532497,"Azcapotzalco","MX",19.487,-99.1859,414711],
+  [1518980,"Shymkent","KZ",42.3,69.6,414032],
+  [1787351,"Yangquan","CN",37.8575,113.5633,413394],
+  [532288,"Magnitogorsk","RU",53.4186,59.0472,413351],
+  [1269006,"Jhānsi","IN",25.4589,78.5799,412927],
+  [3463237,"Florianópolis","BR",-27.5967,-48.5492,412724],
+  [2911285,"Wandsbek","DE",53.5833,10.0831,411422],
+  [3449433,"Santos","BR",-23.9608,-46.3336,411403],
+  [3778045,"Maturín","VE",9.7457,-63.1832,410972],
+  [5037649,"Minneapolis","US",44.98,-93.2638,410939],
+  [8629640,"Thoothukudi","IN",8.7674,78.1343,410760],
+  [143083,"Ardabīl","IR",38.2498,48.2933,410753],
+  [1856177,"Nagasaki","JP",32.75,129.8833,410204],
+  [2038120,"Chaoyang","CN",41.5703,120.4586,410005],
+  [281133,"Gaza","PS",31.5016,34.4667,410000],
+  [538560,"Kursk","RU",51.7373,36.1874,409431],
+  [3981369,"Tonalá","MX",20.6245,-103.2342,408759],
+  [1846266,"Jeju City","KR",33.5097,126.5219,408364],
+  [3703443,"Panamá","PA",8.9936,-79.5197,408168],
+  [3514450,"Xochimilco","MX",19.2547,-99.1036,407885],
+  [3083829,"Szczecin","PL",53.4289,14.553,407811],
+  [1587923,"Biên Hòa","VN",10.9447,106.8243,407208],
+  [3587902,"Villa Nueva","GT",14.5251,-90.5854,406830],
+  [3451353,"Ribeirão das Neves","BR",-19.7669,-44.0867,406802],
+  [1862540,"Hirakata","JP",34.8135,135.6491,406331],
+  [2540483,"Oujda-Angad","MA",34.6814,-1.9086,405253],
+  [347497,"Tanda","EG",30.7885,31.0019,404901],
+  [971421,"Newcastle","ZA",-27.758,29.9318,404838],
+  [1261529,"Nellore","IN",14.4499,79.987,404158],
+  [1675151,"Hsinchu","TW",24.8036,120.9686,404109],
+  [2036389,"Jixi","CN",45.3011,130.9572,403759],
+  [148730,"Zanzibar","TZ",-6.1639,39.1979,403658],
+  [4553433,"Tulsa","US",36.154,-95.9928,403505],
+  [6696918,"Taoyuan City","TW",24.9937,121.297,402014],
+  [372753,"Kassala","SD",15.451,36.4,401477],
+  [2332121,"Lekki","NG",6.4095,4.0915,401272],
+  [2512989,"Palma","ES",39.5694,2.6502,401270],
+  [911148,"Kitwe","ZM",-12.8024,28.2132,400914],
+  [98854,"Nasiriyah","IQ",31.058,46.2573,400249],
+  [480060,"Tver","RU",56.8584,35.9006,400212],
+  [7498240,"West Jerusalem","IL",31.782,35.2196,400000],
+  [1857871,"Machida","JP",35.5403,139.4508,399969],
+  [1806408,"Yangjiang","CN",21.8556,111.9627,399735],
+  [706369,"Khmelnytskyi","UA",49.4216,26.9965,398346],
+  [1863641,"Gifu-shi","JP",35.4229,136.7604,397714],
+  [1254348,"Tiruppur","IN",11.1154,77.3546,397521],
+  [1678228,"Keelung","TW",25.1283,121.7419,397515],
+  [2558545,"Al Hoceïma","MA",35.2517,-3.9372,395644],
+  [2643123,"Manchester","GB",53.481,-2.2374,395515],
+  [6159905,"Surrey","CA",49.1064,-122.8251,394976],
+  [3445026,"Vila Velha","BR",-20.3297,-40.2925,394930],
+  [1791681,"Weifang","CN",36.71,119.1019,394732],
+  [1864092,"Fujisawa","JP",35.3493,139.4767,394624],
+  [901344,"Ndola","ZM",-12.9587,28.6366,394518],
+  [1259091,"Kollam","IN",8.8811,76.5847,394163],
+  [3447779,"Serra","BR",-20.1286,-40.3078,394153],
+  [740264,"Samsun","TR",41.2798,36.3361,394050],
+  [588409,"Tallinn","EE",59.437,24.7535,394024],
+  [2234974,"Bamenda","CM",5.9597,10.146,393835],
+  [379003,"El Obeid","SD",13.1842,30.2167,393311],
+  [3688928,"Bello","CO",6.3373,-75.5579,392939],
+  [1788694,"Xinpu","CN",34.5997,119.1594,392444],
+  [1734052,"Sandakan","MY",5.8402,118.1179,392288],
+  [107304,"Buraydah","SA",26.326,43.975,391336],
+  [1138336,"Kandahār","AF",31.6133,65.7101,391190],
+  [3464739,"Diadema","BR",-23.6861,-46.6228,390633],
+  [4281730,"Wichita","US",37.6922,-97.3375,389965],
+  [4335045,"New Orleans","US",29.9547,-90.0751,389617],
+  [1185186,"Comilla","BD",23.4619,91.185,389411],
+  [1606590,"Samut Prakan","TH",13.5993,100.5968,388920],
+  [1033356,"Nampula","MZ",-15.1165,39.2666,388526],
+  [4671240,"Arlington","US",32.7357,-97.1081,388125],
+  [5150529,"Cleveland","US",41.4995,-81.6954,388072],
+  [2374775,"Bissau","GW",11.8636,-15.5977,388028],
+  [1711005,"Iloilo","PH",10.6969,122.5644,387681],
+  [105072,"Khamis Mushait","SA",18.3,42.7333,387553],
+  [3467693,"Campos dos Goytacazes","BR",-21.7523,-41.3304,387417],
+  [3429577,"Resistencia","AR",-27.4606,-58.9839,387158],
+  [2214846,"Mişrātah","LY",32.3754,15.0925,386120],
+  [3457381,"Mauá","BR",-23.6678,-46.4614,386069],
+  [2395914,"Abomey-Calavi","BJ",6.4485,2.3557,385755],
+  [2947416,"Bochum","DE",51.4817,7.2165,385729],
+  [6957079,"Benito Juárez","MX",19.3727,-99.1564,385439],
+  [11048319,"Sector 3","RO",44.4234,26.1687,385439],
+  [1849837,"Toyonaka","JP",34.7824,135.4693,384459],
+  [3526700,"Iztacalco","MX",19.3953,-99.0978,384326],
+  [3470044,"Betim","BR",-19.9678,-44.1983,384000],
+  [1863917,"Fukuyama","JP",34.4833,133.3667,383298],
+  [2239076,"N’dalatando","AO",-9.2978,14.9116,383100],
+  [3726786,"Delmas 73","HT",18.5447,-72.3028,382920],
+  [3672778,"Pasto","CO",1.2136,-77.2811,382236],
+  [321836,"Batman","TR",37.8874,41.1322,381990],
+  [2179537,"Wellington","NZ",-41.2866,174.7756,381900],
+  [2515270,"Las Palmas de Gran Canaria","ES",28.0997,-15.4134,381847],
+  [3996322,"Mazatlán","MX",23.2329,-106.4062,381583],
+  [3466537,"Caxias do Sul","BR",-29.1681,-51.1794,381270],
+  [520494,"Nizhny Tagil","RU",57.9194,59.965,381116],
+  [4004330,"Irapuato","MX",20.6767,-101.3563,380941],
+  [6941055,"Bochum-Hordel","DE",51.5017,7.1756,380000],
+  [1812955,"Dezhou","CN",37.4513,116.3105,379555],
+  [986822,"Krugersdorp","ZA",-26.0858,27.7752,378821],
+  [1260482,"Pānihāti","IN",22.6909,88.374,378705],
+  [1185107,"Shibganj","BD",25.0015,89.3227,378701],
+  [1849846,"Toyohashi","JP",34.7667,137.3833,378374],
+  [1784130,"Zhoukou","CN",33.6333,114.6333,377061],
+  [6050610,"Laval","CA",45.57,-73.692,376845],
+  [3939459,"Huancayo","PE",-12.0651,-75.2049,376657],
+  [702320,"Makiyivka","UA",48.0478,37.9258,376610],
+  [1798449,"Putian","CN",25.4394,119.0103,376558],
+  [310859,"Kahramanmaraş","TR",37.5847,36.9264,376045],
+  [1852383,"Minato","JP",34.2152,135.1501,375339],
+  [3183875,"Tirana","AL",41.3275,19.8189,374801],
+  [3448639,"São José do Rio Preto","BR",-20.8197,-49.3794,374699],
+  [598316,"Kaunas","LT",54.9027,23.9096,374643],
+  [3522551,"Nuevo Laredo","MX",27.4763,-99.5164,373725],
+  [5325738,"Bakersfield","US",35.3733,-119.0187,373640],
+  [2033574,"Zhangjiakou Shi Xuanhua Qu","CN",40.6103,115.0447,373422],
+  [1734810,"Seremban","MY",2.7297,101.9381,372917],
+  [3827408,"Miguel Hidalgo","MX",19.4341,-99.2002,372889],
+  [2636841,"Stoke-on-Trent","GB",53.0042,-2.1854,372775],
+  [1798654,"Pingxiang","CN",27.6167,113.8535,372123],
+  [298117,"Van","TR",38.4946,43.3832,371713],
+  [5856195,"Honolulu","US",21.3069,-157.8583,371657],
+  [145459,"Abadan","IR",30.3392,48.3043,370180],
+  [7304020,"Fenghuang","CN",27.9356,109.5996,370000],
+  [3629672,"Puerto La Cruz","VE",10.2138,-64.6328,370000],
+  [3078610,"Brno","CZ",49.1952,16.608,369559],
+  [625665,"Mahilyow","BY",53.9168,30.3449,369200],
+  [7483813,"Natore","BD",24.4111,88.9867,369138],
+  [4174757,"Tampa","US",27.9475,-82.4584,369075],
+  [11048323,"Sector 6","RO",44.4358,26.0165,367760],
+  [2172517,"Canberra","AU",-35.2835,149.1281,367752],
+  [1855612,"Nara-shi","JP",34.685,135.8048,367353],
+  [1279228,"Ahmadnagar","IN",19.0946,74.7384,367140],
+  [1272691,"Dhūlia","IN",20.9013,74.7774,366980],
+  [3393536,"Olinda","BR",-8.0089,-34.8553,366754],
+  [2544571,"Kenitra","MA",34.261,-6.5802,366570],
+  [3102014,"Bydgoszcz","PL",53.1235,18.0076,366452],
+  [1735227,"Kuantan","MY",3.8077,103.326,366229],
+  [3181928,"Bologna","IT",44.4938,11.3387,366133],
+  [1845759,"Cheonan","KR",36.8065,127.1522,365114],
+  [3630297,"Petare","VE",10.4768,-66.8079,364684],
+  [1172128,"Larkana","PK",27.559,68.212,364033],
+  [379062,"Al Qadarif","SD",14.0349,35.3834,363945],
+  [2192362,"Christchurch","NZ",-43.5333,172.6333,363926],
+  [487846,"Stavropol’","RU",45.0428,41.9734,363064],
+  [1849814,"Toyota","JP",35.0833,137.15,362383],
+  [2187404,"Manukau City","NZ",-36.9928,174.8799,362000],
+  [1784853,"Zhaoqing","CN",23.0489,112.4609,361969],
+  [6947637,"Ataşehir","TR",40.9833,29.1167,361615],
+  [1276300,"Bhāgalpur","IN",25.2445,86.9718,361548],
+  [1165221,"Shekhupura","PK",31.7129,73.9856,361303],
+  [3466998,"Carapicuíba","BR",-23.5227,-46.835,361112],
+  [2805753,"Wuppertal","DE",51.2563,7.1482,360797],
+  [2294877,"Tamale","GH",9.4008,-0.8393,360579],
+  [2014407,"Ulan-Ude","RU",51.8272,107.6063,360278],
+  [1856215,"Nagano","JP",36.65,138.1833,360176],
+  [2362344,"Bobo-Dioulasso","BF",11.1771,-4.2979,360106],
+  [765876,"Lublin","PL",51.25,22.5667,360044],
+  [11694038,"Huocheng","CN",44.0531,80.8717,360000],
+  [5412347,"Aurora","US",39.7294,-104.8319,359407],
+  [2652221,"Coventry","GB",52.4066,-1.5122,359262],
+  [6324729,"Halifax","CA",44.6464,-63.5729,359111],
+  [1817993,"Anqing","CN",30.5137,117.0472,358661],
+  [1516905,"Taraz","KZ",42.9,71.3667,358153],
+  [1689395,"San Jose del Monte","PH",14.8139,121.0453,357828],
+  [3675443,"Manizales","CO",5.0689,-75.5174,357814],
+  [1948005,"Kwangmyŏng","KR",37.4772,126.8664,357545],
+  [111453,"Zanjān","IR",36.6764,48.4963,357471],
+  [2112539,"Iwaki","JP",37.05,140.8833,357309],
+  [1729524,"Bacoor","PH",14.459,120.9385,356974],
+  [2130629,"Asahikawa","JP",43.7706,142.3649,356612],
+  [3514519,"Xico","MX",19.2703,-98.9509,356352],
+  [1842943,"Kimhae","KR",35.2342,128.8811,356242],
+  [581049,"Arkhangel’sk","RU",64.5401,40.5433,356051],
+  [1651531,"Ambon","ID",-3.6958,128.1833,355596],
+  [1629001,"Samarinda","ID",-0.4917,117.1458,355160],
+  [3827406,"Benito Juarez","MX",19.3984,-99.1577,355017],
+  [3128026,"Bilbao","ES",43.2627,-2.9253,354860],
+  [3835869,"Santiago del Estero","AR",-27.7951,-64.2615,354692],
+  [1850910,"Takatsuki","JP",34.8483,135.6168,354468],
+  [734077,"Thessaloníki","GR",40.6436,22.9309,354290],
+  [3514670,"Villahermosa","MX",17.9869,-92.9303,353577],
+  [3648546,"Barinas","VE",8.6226,-70.2075,353442],
+  [3673899,"Neiva","CO",2.9273,-75.2819,352855],
+  [4005867,"Ciudad General Escobedo","MX",25.797,-100.3179,352444],
+  [1854376,"Okazaki","JP",34.95,137.1667,352361],
+  [141681,"Bandar Abbas","IR",27.1865,56.2808,352173],
+  [689558,"Vinnytsia","UA",49.2328,28.481,352115],
+  [291074,"Ras Al Khaimah City","AE",25.7895,55.9432,351943],
+  [1817968,"Anshun","CN",26.25,105.9333,351936],
+  [1851483,"Suita","JP",34.7614,135.5157,351630],
+  [1926004,"Wakayama","JP",34.2333,135.1667,351000],
+  [5323810,"Anaheim","US",33.8353,-117.9145,350742],
+  [1674504,"Hualien City","TW",23.9769,121.6044,350468],
+  [1707267,"Lapu-Lapu City","PH",10.3103,123.9494,350467],
+  [1259239,"Punāsa","IN",22.2351,76.3934,350000],
+  [8764562,"Diepsloot","ZA",-25.9331,28.0121,350000],
+  [1262332,"Muzaffarnagar","IN",29.4709,77.7033,349706],
+  [3176959,"Florence","IT",43.7793,11.2463,349296],
+  [117574,"Sanandaj","IR",35.315,46.9988,349176],
+  [1265014,"Latur","IN",18.3972,76.5678,348967],
+  [3403642,"Campina Grande","BR",-7.2306,-35.8811,348936],
+  [5950267,"Etobicoke","CA",43.6542,-79.5671,347948],
+  [3566067,"Camagüey","CU",21.3808,-77.9169,347562],
+  [6058560,"London","CA",42.9834,-81.233,346765],
+  [2038067,"Chifeng","CN",42.2683,118.9636,346654],
+  [1877030,"Hŭngnam","KP",39.8317,127.6186,346082],
+  [1526273,"Nur-Sultan","KZ",51.1801,71.446,345604],
+  [11048318,"Sector 2","RO",44.4528,26.1332,345370],
+  [578072,"Belgorod","RU",50.6107,36.5802,345289],
+  [371760,"Kosti","SD",13.1629,32.6635,345068],
+  [2035261,"Taihecun","CN",45.7635,130.8505,345033],
+  [290030,"Doha","QA",25.2855,51.531,344939],
+  [3625829,"Turmero","VE",10.2286,-67.4742,344700],
+  [1501321,"Kurgan","RU",55.45,65.3333,343129],
+  [1185188,"Rangpur","BD",25.7466,89.2517,343122],
+  [1182637,"Bhimbar","PK",32.9746,74.0785,342900],
+  [620127,"Vitebsk","BY",55.1904,30.2049,342700],
+  [1711084,"Iligan","PH",8.2289,124.2434,342618],
+  [3667849,"Soledad","CO",10.9184,-74.7646,342556],
+  [1795060,"Shiqi","CN",22.5168,113.3852,342306],
+  [3453643,"Piracicaba","BR",-22.7253,-47.6492,342209],
+  [2657896,"Zürich","CH",47.3667,8.55,341730],
+  [1265767,"Kūkatpalli","IN",17.4849,78.4138,341709],
+  [1175892,"Jhang Sadr","PK",31.2698,72.3169,341210],
+  [161325,"Arusha","TZ",-3.3667,36.6833,341136],
+  [1278840,"Ambattūr","IN",13.0982,80.1615,341049],
+  [2112141,"Kōriyama","JP",37.4,140.3833,340560],
+  [728193,"Plovdiv","BG",42.15,24.75,340494],
+  [4014875,"Celaya","MX",20.5235,-100.8157,340387],
+  [1106542,"Chitungwiza","ZW",-18.0127,31.0756,340360],
+  [1859924,"Kashiwa","JP",35.8622,139.9773,340221],
+  [173576,"Latakia","SY",35.5317,35.7901,340181],
+  [1529660,"Aksu","CN",41.1842,80.2792,340020],
+  [2411989,"Serekunda","GM",13.4383,-16.6781,340000],
+  [1850181,"Tokorozawa","JP",35.7992,139.469,339435],
+  [3435217,"Corrientes","AR",-27.4678,-58.8344,339067],
+  [553915,"Kaluga","RU",54.5293,36.2754,338978],
+  [3396016,"Macapá","BR",0.0389,-51.0664,338936],
+  [4498303,"West Raleigh","US",35.7868,-78.6639,338759],
+  [3529947,"Cuernavaca","MX",18.9261,-99.2307,338650],
+  [2990440,"Nice","FR",43.7031,7.2661,338620],
+  [1876373,"Kaesŏng","KP",37.9708,126.5544,338155],
+  [3645532,"Ciudad Bolívar","VE",8.1292,-63.5409,338000],
+  [1859740,"Kawagoe","JP",35.9086,139.4853,337931],
+  [1185098,"Tungi","BD",23.8915,90.4023,337579],
+  [8504952,"Krasnogvargeisky","RU",59.9731,30.4761,337091],
+  [963241,"Randburg","ZA",-26.0941,28.0012,337053],
+  [1276509,"Bellary","IN",15.1421,76.924,336681],
+  [3460644,"Itaquaquecetuba","BR",-23.4861,-46.3483,336679],
+  [693805,"Simferopol","UA",44.9572,34.1108,336460],
+  [1859146,"Kochi","JP",33.55,133.5333,335570],
+  [2636531,"Sunderland","GB",54.9047,-1.3822,335415],
+  [5392900,"Santa Ana","US",33.7456,-117.8678,335400],
+  [3470279,"Bauru","BR",-22.3147,-49.0606,335024],
+  [3621849,"San José","CR",9.9333,-84.0833,335007],
+  [2521978,"Alicante","ES",38.3452,-0.4815,334757],
+  [1851100,"Takamatsu","JP",34.3333,134.05,334223],
+  [2034439,"Tieling","CN",42.2931,123.8414,333907],
+  [119505,"Qazvin","IR",36.2688,50.0041,333635],
+  [1262330,"Muzaffarpur","IN",26.1226,85.3906,333200],
+  [1268257,"Kāmārhāti","IN",22.6711,88.3747,332965],
+  [3981941,"Tepic","MX",21.5095,-104.8957,332863],
+  [364103,"Wad Medani","SD",14.4012,33.5199,332714],
+  [1805741,"Jincheng","CN",35.5022,112.8328,332650],
+  [3456814,"Montes Claros","BR",-16.735,-43.8617,332379],
+  [2949186,"Bielefeld","DE",52.0333,8.5333,331906],
+  [425378,"Bujumbura","BI",-3.3819,29.3614,331700],
+  [1701947,"Mandaue City","PH",10.3236,123.9222,331320],
+  [127319,"Khorramshahr","IR",30.4408,48.1843,330606],
+  [1263364,"Mathura","IN",27.5035,77.6722,330511],
+  [127349,"Khorramabad","IR",33.4878,48.3558,329825],
+  [3583096,"Soyapango","SV",13.7102,-89.1399,329708],
+  [1260107,"Patiāla","IN",30.3363,76.3922,329224],
+  [1866923,"Wŏnsan","KP",39.1528,127.4436,329207],
+  [2654789,"Brent","GB",51.5531,-0.3023,329100],
+  [1520240,"Pavlodar","KZ",52.2833,76.9667,329002],
+  [2519240,"Córdoba","ES",37.8916,-4.7727,328428],
+  [1274693,"Chānda","IN",19.9508,79.2952,328351],
+  [3467467,"Canoas","BR",-29.9178,-51.1836,328291],
+  [491422,"Sochi","RU",43.5992,39.7257,327608],
+  [2044757,"Chongjin","KP",41.7956,129.7758,327000],
+  [2033467,"Yanji","CN",42.9075,129.5078,326957],
+  [1275960,"Bhīlwāra","IN",25.3471,74.6408,326431],
+  [2528910,"Tétouan","MA",35.5784,-5.3684,326261],
+  [3457001,"Mogi das Cruzes","BR",-23.5228,-46.1883,325746],
+  [1849876,"Toyama","JP",36.7,137.2167,325532],
+  [3693528,"Piura","PE",-5.1945,-80.6328,325466],
+  [2655613,"Birkenhead","GB",53.3934,-3.0148,325264],
+  [1254187,"Thrissur","IN",10.5167,76.2167,325110],
+  [1275198,"Brahmapur","IN",19.3115,84.7929,324726],
+  [3448136,"São Vicente","BR",-23.9631,-46.3919,324457],
+  [515012,"Orël","RU",52.9651,36.0785,324200],
+  [4683416,"Corpus Christi","US",27.8006,-97.3964,324074],
+  [1793879,"Suizhou","CN",31.7111,113.3631,323945],
+  [3429886,"Posadas","AR",-27.3671,-55.8961,323739],
+  [99608,"Al ‘Amārah","IQ",31.8356,47.1448,323302],
+  [472231,"Volzhskiy","RU",48.7858,44.7797,323293],
+  [5387877,"Riverside","US",33.9534,-117.3962,322424],
+  [3526682,"Ixtapaluca","MX",19.3156,-98.8828,322271],
+  [3665900,"Villavicencio","CO",4.142,-73.6266,321717],
+  [3459462,"Jundiaí","BR",-23.1864,-46.8842,321589],
+  [3701329,"San Miguelito","PA",9.0503,-79.4707,321501],
+  [491687,"Smolensk","RU",54.7818,32.0401,320991],
+  [3439101,"Ciudad del Este","PY",-25.5097,-54.6111,320782],
+  [3454244,"Pelotas","BR",-31.77,-52.341,320674],
+  [706448,"Kherson","UA",46.6558,32.6178,320477],
+  [1256728,"Shāhjānpur","IN",27.8817,79.9092,320434],
+  [2113126,"Akita","JP",39.7167,140.1167,320069],
+  [2244802,"Thiès","SN",14.7894,-16.926,320000],
+  [2228373,"Maroua","CM",10.591,14.3159,319941],
+  [3430545,"Morón","AR",-34.6509,-58.6196,319934],
+  [3472287,"Anápolis","BR",-16.3267,-48.9528,319587],
+  [1256515,"Shimoga","IN",13.9316,75.5679,319550],
+  [1216265,"Samarkand","UZ",39.6542,66.9597,319366],
+  [524305,"Murmansk","RU",68.9792,33.0925,319263],
+  [2646003,"Islington","GB",51.5362,-0.103,319143],
+  [3556969,"Holguín","CU",20.8872,-76.2631,319102],
+  [1520316,"Ust-Kamenogorsk","KZ",49.9714,82.6059,319067],
+  [99762,"Ad Dīwānīyah","IQ",31.9929,44.9255,318801],
+  [1787858,"Shangrao","CN",28.4518,117.9429,318769],
+  [1635882,"Mataram","ID",-8.5833,116.1167,318674],
+  [1514588,"Andijon","UZ",40.7821,72.3442,318419],
+  [2639577,"Reading","GB",51.4563,-0.9711,318014],
+  [675810,"Iaşi","RO",47.1667,27.6,318012],
+  [3106672,"Valladolid","ES",41.6552,-4.7237,317864],
+  [696643,"Poltava","UA",49.5937,34.5407,317847],
+  [1261481,"New Delhi","IN",28.6358,77.2245,317797],
+  [1858729,"Koshigaya","JP",35.8904,139.7892,317437],
+  [473249,"Vladikavkaz","RU",43.0367,44.6678,317370],
+  [627904,"Hrodna","BY",53.6884,23.8258,317365],
+  [3096472,"Katowice","PL",50.2584,19.0275,317316],
+  [1258076,"Rohtak","IN",28.8945,76.5892,317245],
+  [2038569,"Baicheng","CN",45.6075,122.8208,316970],
+  [3698304,"Chimbote","PE",-9.0853,-78.5783,316966],
+  [681290,"Cluj-Napoca","RO",46.7667,23.6,316748],
+  [1720681,"Calamba","PH",14.2117,121.1653,316612],
+  [2347470,"Bauchi","NG",10.3103,9.8439,316149],
+  [569223,"Cherepovets","RU",59.1333,37.9,315738],
+  [4407066,"St. Louis","US",38.6273,-90.1979,315685],
+  [3689560,"Armenia","CO",4.5339,-75.6811,315328],
+  [99131,"Al Kūt","IQ",32.5128,45.8182,315162],
+  [665087,"Timişoara","RO",45.7537,21.2257,315053],
+  [472459,"Vologda","RU",59.2239,39.884,314900],
+  [739549,"Şişli","TR",41.0605,28.9872,314684],
+  [4297999,"Lexington-Fayette","US",38.0498,-84.4585,314488],
+  [2645425,"Kingston upon Hull","GB",53.7446,-0.3352,314018],
+  [3667905,"Soacha","CO",4.5794,-74.2168,313945],
+  [2529013,"Temara","MA",33.9287,-6.9066,313510],
+  [2639912,"Preston","GB",53.7628,-2.7045,313332],
+  [586523,"Ganja","AZ",40.6828,46.3606,313300],
+  [2036434,"Lianshan","CN",40.7643,120.8533,313247],
+  [317109,"Denizli","TR",37.7742,29.0875,313238],
+  [2338313,"Ikeja","NG",6.5965,3.3421,313196],
+  [2946447,"Bonn","DE",50.7344,7.0955,313125],
+  [3068799,"Ostrava","CZ",49.8347,18.282,313088],
+  [726050,"Varna","BG",43.2167,27.9167,312770],
+  [3444924,"Vitória","BR",-20.3194,-40.3378,312656],
+  [1792621,"Wusong","CN",30.95,117.7833,312588],
+  [1711082,"Iligan City","PH",8.25,124.4,312323],
+  [3941584,"Cusco","PE",-13.5226,-71.9673,312140],
+  [3457671,"Maringá","BR",-23.4253,-51.9386,311724],
+  [1856717,"Miyazaki","JP",31.9167,131.4167,311203],
+  [1214189,"Percut","ID",3.6253,98.864,311063],
+  [3693345,"Pucallpa","PE",-8.3791,-74.5539,310750],
+  [1805680,"Jingdezhen","CN",29.2947,117.2079,310565],
+  [3461789,"Guarujá","BR",-23.9931,-46.2564,310424],
+  [1870883,"Sariwŏn","KP",38.5072,125.7558,310100],
+  [473247,"Vladimir","RU",56.1366,40.3966,310024],
+  [3899539,"Antofagasta","CL",-23.6524,-70.3954,309832],
+  [1016670,"Botshabelo","ZA",-29.2674,26.726,309714],
+  [1649150,"Bengkulu","ID",-3.8004,102.2655,309712],
+  [1722186,"Butuan","PH",8.9492,125.5436,309709],
+  [3516355,"Tampico","MX",22.2852,-97.8778,309003],
+  [6094578,"Oshawa","CA",43.9001,-78.8496,308875],
+  [1721281,"Cabuyao","PH",14.2726,121.1262,308745],
+  [2025339,"Chita","RU",52.0317,113.5009,308500],
+  [2155472,"Newcastle","AU",-32.9295,151.7801,308308],
+  [3666304,"Valledupar","CO",10.4631,-73.2532,308237],
+  [2503826,"Biskra","DZ",34.8504,5.7281,307987],
+  [2873891,"Mannheim","DE",49.4891,8.4669,307960],
+  [710735,"Chernihiv","UA",51.5055,31.2849,307684],
+  [248946,"Irbid","JO",32.5556,35.85,307480],
+  [1254089,"Tumkūr","IN",13.3414,77.1022,307359],
+  [1846052,"Chinju","KR",35.1928,128.0847,307242],
+  [2641598,"Newport","GB",51.5877,-2.9983,306844],
+  [1734199,"Tawau","MY",4.2448,117.8912,306462],
+  [1812101,"Shengli","CN",37.4627,118.4917,306450],
+  [1271885,"Fīrozābād","IN",27.1509,78.3978,306409],
+  [361320,"Al Fayyūm","EG",29.31,30.8418,306393],
+  [3662762,"Porto Velho","BR",-8.7619,-63.9039,306180],
+  [3836564,"San Salvador de Jujuy","AR",-24.1946,-65.2971,305891],
+  [1016181,"Brakpan","ZA",-26.2366,28.3694,305692],
+  [5399020,"Stockton","US",37.9577,-121.2908,305658],
+  [1701966,"Mandaluyong City","PH",14.5832,121.0409,305576],
+  [1261258,"Nizāmābād","IN",18.6715,78.0988,305438],
+  [1265711,"Kulti","IN",23.7317,86.8437,305405],
+  [3530580,"Ciudad Victoria","MX",23.7417,-99.146,305155],
+  [3515463,"Tláhuac","MX",19.2869,-99.0051,305076],
+  [3463011,"Franca","BR",-20.5386,-47.4008,305041],
+  [1258932,"Rājahmundry","IN",17.0052,81.7778,304804],
+  [5206379,"Pittsburgh","US",40.4406,-79.9959,304391],
+  [680332,"Craiova","RO",44.3167,23.8,304142],
+  [680963,"Constanţa","RO",44.1807,28.6343,303399],
+  [498698,"Saransk","RU",54.1838,45.1749,303394],
+  [1133616,"Mazār-e Sharīf","AF",36.709,67.1109,303282],
+  [1277029,"Barddhamān","IN",23.2557,87.8569,301725],
+  [2692969,"Malmö","SE",55.6059,13.0007,301706],
+  [1177654,"Gujrat","PK",32.5742,74.0754,301506],
+  [1856035,"Naha","JP",26.2167,127.6833,300795],
+  [629634,"Brest","BY",52.0976,23.6878,300715],
+  [1170880,"Mardan","PK",34.1979,72.0497,300424],
+  [1490624,"Surgut","RU",61.25,73.4167,300367],
+  [2636432,"Swansea","GB",51.6208,-3.9432,300352],
+  [1529046,"Xinyuan","CN",43.4265,83.2496,300000],
+  [1787323,"Yangshuo","CN",24.7808,110.4897,300000],
+  [1519922,"Kyzylorda","KZ",44.8528,65.5092,300000],
+  [1735106,"George Town","MY",5.4112,100.3354,300000],
+  [1725115,"Biñan","PH",14.3427,121.0807,300000],
+  [1171305,"Malir Cantonment","PK",24.9434,67.2059,300000],
+  [363807,"Winejok","SS",9.0122,27.5708,300000],
+  [442301,"Batikent","TR",39.9683,32.7308,300000],
+  [3632308,"Mérida","VE",8.5897,-71.1561,300000],
+  [1730737,"Angeles City","PH",15.15,120.5833,299391],
+  [2654993,"Bradford","GB",53.7939,-1.7521,299310],
+  [1687687,"Santol","PH",15.1622,120.5675,298976],
+  [5879400,"Anchorage","US",61.2181,-149.9003,298695],
+  [4013704,"Ciudad Obregón","MX",27.4864,-109.9408,298625],
+  [1859891,"Kasugai","JP",35.2476,136.9723,298589],
+  [1642588,"Jember","ID",-8.1721,113.6995,298585],
+  [2130658,"Aomori","JP",40.8167,140.7333,298394],
+  [1853574,"Ōtsu","JP",35,135.8667,298164],
+  [1277065,"Bārāsat","IN",22.7215,88.482,298127],
+  [315808,"Elazığ","TR",38.6743,39.2232,298004],
+  [7281931,"Okanagan","CA",50.3639,-119.35,297601],
+  [710791,"Cherkasy","UA",49.4285,32.0621,297568],
+  [3105976,"Vigo","ES",42.2328,-8.7226,297332],
+  [1847966,"Akashi","JP",34.6552,135.0069,297279],
+  [1277539,"Bāli","IN",22.6486,88.3412,296973],
+  [4508722,"Cincinnati","US",39.1271,-84.5144,296943],
+  [1270022,"Hisar","IN",29.1539,75.7229,296436],
+  [1258599,"Rāmpur","IN",28.8101,79.027,296418],
+  [1848373,"Yokkaichi","JP",34.9667,136.6167,295841],
+  [1884138,"Yeosu","KR",34.7606,127.6622,295538],
+  [2637433,"Southend-on-Sea","GB",51.5378,0.7143,295310],
+  [2111834,"Morioka","JP",39.7,141.15,295172],
+  [3868121,"Viña del Mar","CL",-33.0246,-71.5518,294551],
+  [692194,"Sumy","UA",50.9216,34.8003,294456],
+  [2112923,"Fukushima","JP",37.75,140.4667,294237],
+  [677697,"Galaţi","RO",45.4369,28.0503,294087],
+  [3469968,"Blumenau","BR",-26.9194,-49.0661,293949],
+  [6954929,"Greater Noida","IN",28.4962,77.536,293908],
+  [7279746,"Noida","IN",28.58,77.33,293908],
+  [3463030,"Foz do Iguaçu","BR",-25.5478,-54.5881,293523],
+  [109571,"Al Hufūf","SA",25.3647,49.5876,293179],
+  [1268561,"Kākināda","IN",16.9604,82.2381,292923],
+  [1260476,"Pānīpat","IN",29.3875,76.9683,292808],
+  [1519422,"Semey","KZ",50.4268,80.2667,292780],
+  [2331140,"Makurdi","NG",7.7338,8.5214,292645],
+  [2171507,"Wollongong","AU",-34.424,150.8935,292190],
+  [3453186,"Ponta Grossa","BR",-25.095,-50.1619,292177],
+  [2330100,"Minna","NG",9.6152,6.5478,291905],
+  [776069,"Białystok","PL",53.1333,23.1643,291855],
+  [154380,"Mbeya","TZ",-8.9,33.45,291649],
+  [1608133,"Mueang Nonthaburi","TH",13.8608,100.5148,291555],
+  [1842225,"Gumi","KR",36.1136,128.336,291006],
+  [484646,"Tambov","RU",52.7317,41.4433,290933],
+  [2525068,"Catania","IT",37.4922,15.0704,290927],
+  [109101,"Al Mubarraz","SA",25.4077,49.5903,290802],
+  [2235189,"Bafoussam","CM",5.4778,10.4176,290768],
+  [1174625,"Kasur","PK",31.1187,74.4503,290643],
+  [2745912,"Utrecht","NL",52.0908,5.1222,290529],
+  [1788245,"Xiuying","CN",20.0007,110.2936,290000],
+  [3392740,"Paulista","BR",-7.9408,-34.8731,289971],
+  [99347,"Al Ḩillah","IQ",32.4637,44.4196,289709],
+  [3458575,"Limeira","BR",-22.5647,-47.4017,289665],
+  [1260341,"Parbhani","IN",19.2686,76.7708,289629],
+  [6174041,"Victoria","CA",48.4359,-123.3515,289625],
+  [1816705,"Beihai","CN",21.4833,109.1,289568],
+  [1806776,"Huizhou","CN",23.1115,114.4152,289201],
+  [737071,"Zeytinburnu","TR",40.9944,28.9042,288743],
+  [1818209,"Tsuen Wan","HK",22.3714,114.1133,288728],
+  [4295940,"Ironville","US",38.4565,-82.6924,288649],
+  [4300488,"Meads","US",38.4126,-82.709,288649],
+  [2481700,"Sétif","DZ",36.1911,5.4137,288461],
+  [2537881,"Safi","MA",32.2994,-9.2372,288163],
+  [2040893,"Sinŭiju","KP",40.1006,124.3981,288112],
+  [11048320,"Sector 4","RO",44.3757,26.1209,287828],
+  [1580240,"Huế","VN",16.4619,107.5955,287217],
+  [1273491,"Darbhanga","IN",26.1522,85.8971,287150],
+  [2911287,"Marienthal","DE",53.5667,10.0833,287101],
+  [752850,"Adapazarı","TR",40.7806,30.4033,286787],
+  [7628419,"Sultanbeyli","TR",40.9607,29.2707,286622],
+  [5505411,"Henderson","US",36.0397,-114.9819,285667],
+  [4469146,"Greensboro","US",36.0726,-79.792,285342],
+  [3445156,"Viamão","BR",-30.0811,-51.0233,285269],
+  [359493,"Zagazig","EG",30.5877,31.502,285097],
+  [5045360,"Saint Paul","US",44.9444,-93.0933,285068],
+  [1734705,"Kuala Terengganu","MY",5.3302,103.1408,285065],
+  [361055,"Ismailia","EG",30.6043,32.2723,284813],
+  [3487903,"Alto Barinas","VE",8.5931,-70.2261,284289],
+  [96994,"Dihok","IQ",36.8671,42.9885,284000],
+  [2892794,"Karlsruhe","DE",49.0094,8.4044,283799],
+  [2088122,"Port Moresby","PG",-9.4772,147.1509,283733],
+  [4719457,"Plano","US",33.0198,-96.6989,283558],
+  [2112664,"Ichihara","JP",35.5167,140.0833,283531],
+  [1843491,"Iksan","KR",35.9439,126.9544,283501],
+  [1572151,"Nha Trang","VN",12.2451,109.1943,283441],
+  [3447212,"Suzano","BR",-23.5425,-46.3108,283314],
+  [1278946,"Alwar","IN",27.5625,76.625,283228],
+  [1720840,"Cainta","PH",14.5786,121.1222,283172],
+  [3719028,"Pétionville","HT",18.5125,-72.2853,283052],
+  [1857843,"Maebashi","JP",36.4,139.0833,282711],
+  [1275637,"Bilāspur","IN",22.0801,82.1554,282705],
+  [7281838,"Logan City","AU",-27.6392,153.1094,282673],
+  [3868626,"Valparaíso","CL",-33.036,-71.6296,282448],
+  [1633034,"Palu","ID",-0.9083,119.8708,282431],
+  [2057087,"Kupang","ID",-10.1708,123.6069,282396],
+  [686967,"Zhytomyr","UA",50.2649,28.6767,282192],
+  [5101798,"Newark","US",40.7357,-74.1724,281944],
+  [3680450,"Itagüí","CO",6.1846,-75.5991,281853],
+  [3522732,"Nicolás Romero","MX",19.6418,-99.3068,281799],
+  [747014,"Gebze","TR",40.8028,29.4307,281436],
+  [1185117,"Narsingdi","BD",23.923,90.7177,281080],
+  [2505572,"Batna","DZ",35.556,6.1741,280798],
+  [1814757,"Chuzhou","CN",32.3219,118.2978,280582],
+  [11238838,"Merkezefendi","TR",37.8054,29.0424,280341],
+  [1861949,"Ichinomiya","JP",35.3,136.8,280331],
+  [3928128,"Tacna","PE",-18.0146,-70.2536,280098],
+  [8354626,"Hamburg-Nord","DE",53.5894,9.984,280000],
+  [1170395,"Mingora","PK",34.7795,72.3627,279914],
+  [5174035,"Toledo","US",41.6639,-83.5552,279789],
+  [4006702,"Ensenada","MX",31.8715,-116.6007,279765],
+  [2343983,"Efon-Alaaye","NG",7.6565,4.9224,279319],
+  [466806,"Yoshkar-Ola","RU",56.6388,47.8908,279100],
+  [484907,"Taganrog","RU",47.2362,38.8969,279056],
+  [3627047,"Santa Teresa del Tuy","VE",10.2329,-66.6647,278890],
+  [707753,"Horlivka","UA",48.3358,38.0533,278550],
+  [6182962,"Windsor","CA",42.3001,-83.0165,278013],
+  [3530569,"Coacalco","MX",19.6292,-99.1069,277959],
+  [2337704,"Ilesa","NG",7.6279,4.7416,277904],
+  [543878,"Kostroma","RU",57.7665,40.9269,277656],
+  [3121424,"Gijón","ES",43.5357,-5.6615,277554],
+  [3182351,"Bari","IT",41.1207,16.8698,277387],
+  [5072006,"Lincoln","US",40.8,-96.667,277348],
+  [418710,"Khomeynī Shahr","IR",32.6856,51.5361,277334],
+  [2467454,"Sfax","TN",34.7406,10.7603,277278],
+  [2990969,"Nantes","FR",47.2173,-1.5534,277269],
+  [3658666,"Cuenca","EC",-2.9005,-79.0045,276964],
+  [2325314,"Owo","NG",7.1962,5.5868,276574],
+  [3865086,"Bahía Blanca","AR",-38.7196,-62.2724,276546],
+  [1626381,"Sukabumi","ID",-6.9181,106.9267,276414],
+  [683844,"Braşov","RO",45.6486,25.6061,276088],
+  [2021851,"Komsomolsk-on-Amur","RU",50.5503,137.01,275908],
+  [2130188,"Hakodate","JP",41.7758,140.7367,275730],
+  [2505854,"Bab Ezzouar","DZ",36.7261,3.1829,275630],
+  [2226275,"Mokolo","CM",10.7424,13.8023,275239],
+  [3402429,"Caucaia","BR",-3.7361,-38.6531,275019],
+  [2973783,"Strasbourg","FR",48.5839,7.7455,274845],
+  [2655984,"Belfast","GB",54.5968,-5.9254,274770],
+  [1280849,"Kashgar","CN",39.4707,75.9895,274717],
+  [98717,"Ramadi","IQ",33.4206,43.3078,274539],
+  [1269834,"Ichalkaranji","IN",16.6912,74.4605,274383],
+  [1862033,"Ibaraki","JP",34.8164,135.5683,273992],
+  [1848522,"Yao","JP",34.6167,135.6,273213],
+  [1140026,"Herāt","AF",34.3482,62.1997,272806],
+  [3557689,"Guantánamo","CU",20.1444,-75.2092,272801],
+  [523523,"Nal’chik","RU",43.4981,43.6189,272800],
+  [1728930,"Baguio","PH",16.4164,120.5931,272714],
+  [3454031,"Petrópolis","BR",-22.505,-43.1786,272691],
+  [289888,"Ar Rayyān","QA",25.2919,51.4244,272465],
+  [2809346,"Wiesbaden","DE",50.0826,8.2493,272432],
+  [3674453,"Montería","CO",8.748,-75.8814,272420],
+  [3196359,"Ljubljana","SI",46.0511,14.5051,272220],
+  [106297,"Hafar Al-Batin","SA",28.4328,45.9708,271642],
+  [1860704,"Kakogawachō-honmachi","JP",34.7694,134.8291,271634],
+  [11048322,"Sector 5","RO",44.3881,26.0714,271575],
+  [1624647,"Tasikmalaya","ID",-7.3274,108.2207,271143],
+  [1275701,"Bijapur","IN",16.8244,75.7154,271064],
+  [4167147,"Orlando","US",28.5383,-81.3792,270934],
+  [1803318,"Linyi","CN",35.0631,118.3428,270669],
+  [2651347,"Derby","GB",52.9228,-1.4766,270468],
+  [1688749,"San Pedro","PH",14.3595,121.0473,270216],
+  [2867543,"Münster","DE",51.9624,7.6257,270184],
+  [2921466,"Gelsenkirchen","DE",51.5051,7.0965,270028],
+  [1841066,"Mokpo","KR",34.8128,126.3918,268402],
+  [3984583,"Santa Catarina","MX",25.6733,-100.4581,268347],
+  [7838895,"Russeifa","JO",32.0178,36.0464,268237],
+  [3352136,"Windhoek","NA",-22.5594,17.0832,268132],
+  [204953,"Tshikapa","CD",-6.4162,20.8,267462],
+  [354775,"Kafr ad Dawwār","EG",31.1338,30.1297,267370],
+  [1850158,"Tokushima","JP",34.0667,134.5667,267345],
+  [294801,"Haifa","IL",32.8184,34.9885,267300],
+  [487495,"Sterlitamak","RU",53.6246,55.9502,267231],
+  [106281,"Ha'il","SA",27.5219,41.6907,267005],
+  [6544100,"Eixample","ES",41.389,2.1618,266477],
+  [1185281,"Bagerhat","BD",22.6566,89.7912,266388],
+  [1786640,"Chengzhong","CN",30.9445,113.5528,265886],
+  [1790840,"Wuzhou","CN",23.4833,111.3167,265846],
+  [5336899,"Chula Vista","US",32.6401,-117.0842,265757],
+  [2036670,"Hulan Ergi","CN",47.2042,123.6333,265344],
+  [1279186,"Aizawl","IN",23.7289,92.7179,265331],
+  [3247449,"Aachen","DE",50.7766,6.0834,265208],
+  [584923,"Sumqayıt","AZ",40.5897,49.6686,265150],
+  [1701472,"Mantampay","PH",8.1667,124.2167,265032],
+  [509820,"Petrozavodsk","RU",61.7849,34.3469,265025],
+  [380148,"El Daein","SD",11.4619,26.1258,264734],
+  [2320576,"Umuahia","NG",5.5249,7.4946,264662],
+  [3980760,"Uruapan","MX",19.4112,-102.0564,264439],
+  [5099836,"Jersey City","US",40.7282,-74.0776,264290],
+  [1800627,"Mianyang","CN",31.4678,104.6817,264136],
+  [300619,"Sivas","TR",39.7483,37.0161,264022],
+  [939270,"Witbank","ZA",-25.8713,29.2332,262491],
+  [610611,"Aktobe","KZ",50.2797,57.2072,262457],
+  [3841956,"Paraná","AR",-31.7327,-60.529,262295],
+  [1269395,"Jālna","IN",19.841,75.8864,262034],
+  [7302826,"Lal Bahadur Nagar","IN",17.3477,78.5576,261987],
+  [2869894,"Mönchengladbach","DE",51.1854,6.4417,261742],
+  [6066513,"Markham","CA",43.8668,-79.2663,261573],
+  [1273066,"Dewas","IN",22.9659,76.0553,261218],
+  [3667983,"Sincelejo","CO",9.3047,-75.3978,261187],
+  [2034400,"Tongliao","CN",43.6125,122.2653,261110],
+  [3445839,"Uberaba","BR",-19.7483,-47.9319,260843],
+  [5289282,"Chandler","US",33.3062,-111.8412,260828],
+  [4920423,"Fort Wayne","US",41.1306,-85.1289,260326],
+  [2640194,"Plymouth","GB",50.3715,-4.143,260203],
+  [1277082,"Baranagar","IN",22.6413,88.3773,260072],
+  [1529401,"Karamay","CN",45.5847,84.8872,260000],
+  [1529641,"Aral","CN",40.5418,81.2657,260000],
+  [184622,"Nakuru","KE",-0.3072,36.0722,259903],
+  [1586203,"Cần Thơ","VN",10.0371,105.7883,259598],
+  [2954172,"Augsburg","DE",48.3715,10.8985,259196],
+  [1862462,"Hiratsuka","JP",35.3279,139.3373,259052],
+  [7302833,"Gajuwaka","IN",17.7,83.2167,258944],
+  [1805179,"Jiujiang","CN",29.7048,116.0021,258807],
+  [2036458,"Jining","CN",41.0275,113.1058,258757],
+  [3671916,"Popayán","CO",2.4382,-76.6132,258653],
+  [103630,"Najrān","SA",17.4933,44.1277,258573],
+  [78754,"Mukalla","YE",14.5425,49.1242,258132],
+  [5110629,"Buffalo","US",42.8865,-78.8784,258071],
+  [2643339,"Luton","GB",51.8797,-0.4175,258018],
+  [1631766,"Pekalongan","ID",-6.8886,109.6753,257945],
+  [3644768,"Cumaná","VE",10.454,-64.1826,257783],
+  [1257022,"Satna","IN",24.5773,80.8272,257778],
+  [3662574,"Rio Branco","BR",-9.9747,-67.81,257642],
+  [4464368,"Durham","US",35.994,-78.8986,257636],
+  [1271987,"Etāwah","IN",26.7762,79.0213,257448],
+  [4005775,"Gómez Palacio","MX",25.5699,-103.4959,257352],
+  [3466779,"Cascavel","BR",-24.9558,-53.4553,257172],
+  [4171563,"St. Petersburg","US",27.7709,-82.6793,257083],
+  [3120619,"L'Hospitalet de Llobregat","ES",41.3597,2.1003,257038],
+  [2326171,"Ondo","NG",7.0932,4.8353,257005],
+  [1049261,"Chimoio","MZ",-19.1164,33.4833,256936],
+  [5359777,"Irvine","US",33.6695,-117.8231,256927],
+  [660158,"Espoo","FI",60.2052,24.6522,256760],
+  [6544489,"Latina","ES",40.389,-3.7457,256644],
+  [3997479,"Los Mochis","MX",25.793,-108.9981,256613],
+  [2051523,"Bratsk","RU",56.1325,101.6142,256600],
+  [3522210,"Pachuca de Soto","MX",20.117,-98.7333,256584],
+  [299817,"Tarsus","TR",36.9177,34.8928,256482],
+  [4705349,"Laredo","US",27.5064,-99.5075,255473],
+  [116996,"Sari","IR",36.5633,53.0601,255396],
+  [1272181,"Durg","IN",21.1915,81.2762,255283],
+  [695594,"Rivne","UA",50.6231,26.2274,255106],
+  [3522507,"Oaxaca","MX",17.0654,-96.7237,255029],
+  [3982912,"Soledad de Graciano Sánchez","MX",22.1891,-100.9379,255015],
+  [1529114,"Turpan","CN",42.9477,89.1789,254900],
+  [2338106,"Ikot Ekpene","NG",5.1819,7.7148,254806],
+  [1808198,"Heze","CN",35.2393,115.4736,254602],
+  [2110556,"Yamagata","JP",38.2333,140.3667,254538],
+  [1646170,"Cirebon","ID",-6.7063,108.557,254298],
+  [3456068,"Novo Hamburgo","BR",-29.6783,-51.1306,253841],
+  [1336134,"Cox’s Bāzār","BD",21.4397,92.0096,253788],
+  [3099424,"Gdynia","PL",54.5189,18.5319,253730],
+  [6544493,"Carabanchel","ES",40.3909,-3.7242,253678],
+  [1262131,"Naihāti","IN",22.894,88.4152,253221],
+  [3444914,"Vitória da Conquista","BR",-14.8661,-40.8394,253137],
+  [1804386,"Laohekou","CN",32.3858,111.6678,253112],
+  [3870282,"Talcahuano","CL",-36.7249,-73.1168,252968],
+  [962367,"Richards Bay","ZA",-28.783,32.0377,252968],
+  [2633691,"Wolverhampton","GB",52.5855,-2.123,252791],
+  [379555,"El Fasher","SD",13.6279,25.3494,252609],
+  [1882316,"Woodlands","SG",1.438,103.7888,252530],
+  [2244799,"Thiès Nones","SN",14.7833,-16.9667,252320],
+  [338832,"Dire Dawa","ET",9.5931,41.8661,252279],
+  [3682385,"Floridablanca","CO",7.0622,-73.0864,252267],
+  [2034655,"Suihua","CN",46.6395,126.9951,252245],
+  [3470353,"Barueri","BR",-23.5106,-46.8761,251994],
+  [140044,"Borūjerd","IR",33.8973,48.7516,251958],
+  [2911293,"Eimsbüttel","DE",53.5742,9.9568,251907],
+  [8533133,"Liupanshui","CN",26.5944,104.8333,251900],
+  [32767,"Qarchak","IR",35.4287,51.5754,251834],
+  [3928245,"Santiago de Surco","PE",-12.1359,-77.0074,251648],
+  [3446682,"Taubaté","BR",-23.0264,-45.5553,251641],
+  [1799629,"Nanyang","CN",32.9947,112.5328,251532],
+  [1690039,"San Fernando","PH",15.0343,120.6845,251248],
+  [153220,"Morogoro","TZ",-6.821,37.6612,250902],
+  [3462315,"Governador Valadares","BR",-18.8511,-41.9494,250878],
+  [1254360,"Tirupati","IN",13.6355,79.4199,250821],
+  [1215502,"Banda Aceh","ID",5.5417,95.3333,250757],
+  [1792260,"Wafangdian","CN",39.6183,122.0081,250591],
+  [1255744,"Sonīpat","IN",28.9948,77.0194,250521],
+  [3537906,"Santa Clara","CU",22.4069,-79.9647,250512],
+  [2336905,"Iwo","NG",7.6353,4.1816,250443],
+  [1706684,"Libertad","PH",8.9442,125.5019,250353],
+  [2340451,"Gombe","NG",10.2897,11.1673,250258],
+  [2911296,"Altona","DE",53.55,9.9333,250192],
+  [1278130,"Āvadi","IN",13.1147,80.1098,250044],
+  [3452465,"Praia Grande","BR",-24.0058,-46.4028,250027],
+  [3718420,"Port-de-Paix","HT",19.9398,-72.8304,250000],
+  [7280708,"Colonia del Valle","MX",19.3861,-99.162,250000],
+  [787657,"Niš","RS",43.3247,21.9033,250000],
+  [366847,"Singa","SD",13.1483,33.9312,250000],
+  [3872348,"San Bernardo","CL",-33.5922,-70.6996,249858],
+  [3445451,"Várzea Grande","BR",-15.6467,-56.1325,249752],
+  [2735943,"Porto","PT",41.1496,-8.611,249633],
+  [3444876,"Volta Redonda","BR",-22.5231,-44.1042,249580],
+  [1697846,"Navotas","PH",14.6667,120.95,249463],
+  [705812,"Kropyvnytskyi","UA",48.5132,32.2597,249454],
+  [3450083,"Santa Maria","BR",-29.6842,-53.8069,249219],
+  [5525577,"Lubbock","US",33.5779,-101.8552,249042],
+  [5261457,"Madison","US",43.0731,-89.4012,248951],
+  [3516109,"Tehuacán","MX",18.4642,-97.3973,248716],
+  [1863985,"Fukui-shi","JP",36.0644,136.2226,248707],
+  [709932,"Kamianske","UA",48.5113,34.6021,248575],
+  [2992166,"Montpellier","FR",43.6109,3.8772,248252],
+  [2336056,"Jimeta","NG",9.2795,12.4582,248148],
+  [3100946,"Częstochowa","PL",50.7965,19.1241,248125],
+  [1254320,"Tiruvottiyūr","IN",13.1582,80.3018,248059],
+  [3673164,"Palmira","CO",3.5394,-76.3036,247986],
+  [1217662,"Bukhara","UZ",39.7747,64.4286,247644],
+  [2634341,"City of Westminster","GB",51.4975,-0.1357,247614],
+  [5295903,"Gilbert","US",33.3528,-111.789,247542],
+  [1257845,"Saugor","IN",23.8388,78.7387,247333],
+  [1605239,"Udon Thani","TH",17.4157,102.7859,247231],
+  [2940132,"Chemnitz","DE",50.8357,12.9292,247220],
+  [3938527,"Ica","PE",-14.0678,-75.7286,246844],
+  [514734,"Orsk","RU",51.2049,58.5669,246836],
+  [944986,"Vanderbijlpark","ZA",-26.7117,27.838,246754],
+  [3628473,"San Cristóbal","VE",7.7669,-72.225,246583],
+  [2111901,"Mito","JP",36.35,140.45,246538],
+  [4776222,"Norfolk","US",36.8468,-76.2852,246393],
+  [1797132,"Rizhao","CN",35.4275,119.4553,246387],
+  [2637487,"Southampton","GB",50.904,-1.4043,246201],
+  [11810635,"Kyain Seikgyi Township","MM",15.8229,98.2526,246065],
+  [3119841,"A Coruña","ES",43.3714,-8.396,246056],
+  [1263311,"Mau","IN",25.9417,83.5611,246050],
+  [1852225,"Shimonoseki","JP",33.95,130.95,245786],
+  [3937513,"Juliaca","PE",-15.5,-70.1333,245675],
+  [1806445,"Ji’an","CN",27.1172,114.9793,245000],
+  [132892,"Gorgān","IR",36.8427,54.4439,244937],
+  [1497543,"Nizhnevartovsk","RU",60.9344,76.5531,244937],
+  [2945024,"Braunschweig","DE",52.2659,10.5267,244715],
+  [1808770,"Hebi","CN",35.8992,114.1925,244662],
+  [1300466,"Bago","MM",17.3352,96.4814,244376],
+  [1275716,"Bihār Sharīf","IN",25.2008,85.5239,244230],
+  [3648439,"Baruta","VE",10.4342,-66.8756,244216],
+  [3430697,"Merlo","AR",-34.6663,-58.7293,244168],
+  [3112737,"Puente de Vallecas","ES",40.3935,-3.662,244151],
+  [738648,"Trabzon","TR",41.005,39.7269,244083],
+  [1336140,"Jessore","BD",23.1697,89.2137,243987],
+  [304827,"Manisa","TR",38.612,27.4265,243971],
+  [4299276,"Louisville","US",38.2542,-85.7594,243639],
+  [3450144,"Santa Luzia","BR",-19.7697,-43.8514,243503],
+  [1842025,"Gunsan","KR",35.9786,126.7114,243406],
+  [1833105,"Wŏnju","KR",37.3514,127.9453,243387],
+  [12042053,"Musaffah","AE",24.3589,54.4827,243341],
+  [2027667,"Angarsk","RU",52.5367,103.8864,243158],
+  [529237,"Mar’ino","RU",55.65,37.7167,243000],
+  [1270393,"Hāpur","IN",28.7299,77.7807,242920],
+  [1276070,"Bathinda","IN",30.2075,74.9389,242800],
+  [170794,"Deir ez-Zor","SY",35.3359,40.1408,242565],
+  [1806988,"Huayin","CN",34.5653,110.0664,242488],
+  [64435,"Berbera","SO",10.4396,45.0143,242344],
+  [3827598,"Ojo de Agua","MX",19.6803,-99.01,242272],
+  [5959974,"Gatineau","CA",45.4772,-75.7016,242124],
+  [1786770,"Yibin","CN",28.7593,104.6399,242111],
+  [3843123,"Neuquén","AR",-38.9516,-68.0591,242092],
+  [1684712,"Tacloban","PH",11.2433,125.0047,242089],
+  [518255,"Novorossiysk","RU",44.7244,37.7675,241856],
+  [5511077,"Reno","US",39.5296,-119.8138,241445],
+  [359792,"Aswan","EG",24.0908,32.8994,241261],
+  [4499612,"Winston-Salem","US",36.0999,-80.2442,241218],
+  [1271942,"Farrukhābād","IN",27.3913,79.5793,241152],
+  [7628420,"Sancaktepe","TR",41.0024,29.2319,241000],
+  [1851002,"Takasaki","JP",36.3333,139.0167,240857],
+  [1278672,"Anantapur","IN",14.6778,77.6081,240442],
+  [3688451,"Buenaventura","CO",3.8801,-77.0312,240387],
+  [147622,"Lankaran","AZ",38.7543,48.8506,240300],
+  [5295985,"Glendale","US",33.5386,-112.186,240126],
+  [1864134,"Fuji","JP",35.1667,138.6833,240014],
+  [550280,"Khimki","RU",55.897,37.4297,239967],
+  [2655459,"Blackpool","GB",53.8167,-3.05,239409],
+  [1790371,"Xiantao","CN",30.3708,113.4429,239406],
+  [2130203,"Hachinohe","JP",40.5,141.5,239046],
+  [6173577,"Vaughan","CA",43.8361,-79.4983,238866],
+  [3462089,"Gravataí","BR",-29.9422,-50.9928,238778],
+  [6697563,"Neyagawa","JP",34.7662,135.6276,238549],
+  [3523760,"Magdalena Contreras","MX",19.3321,-99.2112,238431],
+  [1185159,"Nāgarpur","BD",24.0578,89.877,238422],
+  [1858088,"Kurume","JP",33.3167,130.5167,238197],
+  [322165,"Balıkesir","TR",39.6492,27.8861,238151],
+  [3870011,"Temuco","CL",-38.7396,-72.5984,238129],
+  [2884509,"Krefeld","DE",51.3365,6.5538,237984],
+  [288967,"Seeb","OM",23.6703,58.1891,237816],
+  [1277066,"Bārāsat","IN",22.2252,88.4509,237783],
+  [2624652,"Århus","DK",56.1567,10.2108,237551],
+  [1852899,"Sasebo","JP",33.1683,129.725,237444],
+  [1726280,"Batangas","PH",13.7567,121.0584,237370],
+  [109435,"Al Jubayl","SA",27.0174,49.6225,237274],
+  [1328421,"Pathein","MM",16.7792,94.7321,237089],
+  [1624494,"Tegal","ID",-6.8694,109.1402,237084],
+  [4158476,"Hialeah","US",25.8576,-80.2781,237069],
+  [2394560,"Djougou","BJ",9.7085,1.666,237040],
+  [1185099,"Sylhet","BD",24.899,91.872,237000],
+  [4693003,"Garland","US",32.9126,-96.6389,236897],
+  [1258342,"Ratlām","IN",23.3303,75.0403,236843],
+  [5313457,"Scottsdale","US",33.5092,-111.899,236839],
+  [4700168,"Irving","US",32.814,-96.9489,236607],
+  [724443,"Košice","SK",48.7139,21.2581,236563],
+  [710719,"Chernivtsi","UA",48.2915,25.9403,236250],
+  [1180289,"Dera Ghazi Khan","PK",30.0459,70.6403,236093],
+  [3530517,"Coatzacoalcos","MX",18.1491,-94.4447,235983],
+  [1785974,"Yuci","CN",37.6803,112.7319,235929],
+  [6544105,"Sant Martí","ES",41.4181,2.1993,235719],
+  [1166548,"Sahiwal","PK",30.666,73.1019,235695],
+  [691650,"Ternopil","UA",49.5534,25.5892,235676],
+  [3104499,"Gasteiz / Vitoria","ES",42.85,-2.6727,235661],
+  [2013159,"Yakutsk","RU",62.0339,129.7331,235600],
+  [4752186,"Chesapeake","US",36.819,-76.2749,235429],
+  [3402655,"Caruaru","BR",-8.2833,-35.9761,235371],
+  [350550,"Qinā","EG",26.1642,32.7267,235362],
+  [3664980,"Boa Vista","BR",2.8197,-60.6733,235150],
+  [1640660,"Kediri","ID",-7.8167,112.0167,235143],
+  [3378644,"Georgetown","GY",6.8045,-58.1553,235017],
+  [8347656,"Ramagundam","IN",18.755,79.474,235000],
+  [55671,"Kismayo","SO",-0.3582,42.5454,234852],
+  [74477,"Ibb","YE",13.9667,44.1833,234837],
+  [1219649,"Türkmenabat","TM",39.0733,63.5786,234817],
+  [5509403,"North Las Vegas","US",36.1989,-115.1175,234807],
+  [2517117,"Granada","ES",37.1882,-3.6067,234325],
+  [521118,"Nizhnekamsk","RU",55.6366,51.8245,234297],
+  [2392087,"Porto-Novo","BJ",6.4965,2.6036,234168],
+  [2911522,"Halle (Saale)","DE",51.4816,11.9795,234107],
+  [5992996,"Kitchener","CA",43.4254,-80.5112,233700],
+  [1105777,"Centurion","ZA",-25.8589,28.1858,233386],
+  [1684269,"Magugpo Poblacion","PH",7.4475,125.8046,233254],
+  [2911288,"Hamburg-Mitte","DE",53.55,10.0167,233144],
+  [563708,"Dzerzhinsk","RU",56.2414,43.4554,233126],
+  [2294915,"Takoradi","GH",4.8982,-1.7603,232919],
+  [2891122,"Kiel","DE",54.3213,10.1349,232758],
+  [1803567,"Linfen","CN",36.0889,111.5189,232566],
+  [5350734,"Fremont","US",37.5483,-121.9886,232206],
+  [219057,"Beni","CD",0.4911,29.4731,232000],
+  [3031582,"Bordeaux","FR",44.8404,-0.5805,231844],
+  [1271685,"Gangānagar","IN",29.9201,73.875,231838],
+  [1864624,"Chigasaki","JP",35.3364,139.4043,231657],
+  [2797656,"Gent","BE",51.05,3.7167,231493],
+  [1682598,"Taytay","PH",14.5588,121.1329,231460],
+  [1851604,"Sōka","JP",35.8364,139.7996,231445],
+  [2224827,"Ngaoundéré","CM",7.3277,13.5847,231357],
+  [1835648,"Suncheon","KR",34.9505,127.4878,230796],
+  [11523293,"Sejong","KR",36.5925,127.2922,230327],
+  [12076997,"José C. Paz","AR",-34.5154,-58.7681,230208],
+  [485239,"Syktyvkar","RU",61.664,50.815,230139],
+  [2518559,"Elche","ES",38.2622,-0.7011,230112],
+  [54225,"Marka","SO",1.7159,44.7717,230100],
+  [601294,"Nukus","UZ",42.4531,59.6103,230006],
+  [3429652,"Quilmes","AR",-34.729,-58.2637,230000],
+  [355795,"Ḩalwān","EG",29.8414,31.3008,230000],
+  [2349019,"Atani","NG",6.0128,6.7477,230000],
+  [2642465,"Milton Keynes","GB",52.0417,-0.7558,229941],
+  [2874545,"Magdeburg","DE",52.1277,11.6292,229826],
+  [3451055,"Rio Verde","BR",-17.7981,-50.9281,229651],
+  [1169116,"Nawabshah","PK",26.2394,68.4037,229504],
+  [266826,"Tripoli","LB",34.4335,35.8442,229398],
+  [1276128,"Bharatpur","IN",27.2173,77.4901,229384],
+  [6059891,"Longueuil","CA",45.5312,-73.5181,229330],
+  [1847963,"Atsugi","JP",35.4427,139.3693,229199],
+  [3727135,"Croix-des-Bouquets","HT",18.5768,-72.2262,229127],
+  [946877,"Uitenhage","ZA",-33.7576,25.3971,228912],
+  [670474,"Ploieşti","RO",44.95,26.0167,228851],
+  [1735498,"Sungai Petani","MY",5.647,100.4877,228843],
+  [1215355,"Binjai","ID",3.6001,98.4854,228763],
+  [1705357,"Lucena","PH",13.9314,121.6172,228758],
+  [3461144,"Ipatinga","BR",-19.4683,-42.5367,228746],
+  [1267755,"Karīmnagar","IN",18.4392,79.1286,228745],
+  [4315588,"Baton Rouge","US",30.4433,-91.1875,228590],
+  [1568510,"Rạch Giá","VN",10.0125,105.0809,228356],
+  [2998324,"Lille","FR",50.633,3.0586,228328],
+  [1738050,"Miri","MY",4.3993,113.9916,228212],
+  [3124964,"Ciudad Lineal","ES",40.4451,-3.6513,228171],
+  [2655775,"Bexley","GB",51.4416,0.1487,228000],
+  [3447259,"Sumaré","BR",-22.8219,-47.2669,227977],
+  [358448,"Damanhūr","EG",31.0341,30.4682,227943],
+  [3571824,"Nassau","BS",25.0582,-77.3431,227940],
+  [3437056,"San Lorenzo","PY",-25.3397,-57.5088,227876],
+  [3887127,"Iquique","CL",-20.2133,-70.1503,227499],
+  [704147,"Kremenchuk","UA",49.068,33.4204,227494],
+  [1259425,"Puducherry","IN",11.9338,79.8298,227411],
+  [3085128,"Sosnowiec","PL",50.2868,19.1039,227295],
+  [6956648,"Diez de Octubre","CU",23.0881,-82.3597,227293],
+  [360686,"Al Minyā","EG",28.0919,30.7581,227150],
+  [487928,"Staryy Oskol","RU",51.2967,37.8417,226977],
+  [1803834,"Liaocheng","CN",36.456,115.9777,226930],
+  [2339937,"Gusau","NG",12.1702,6.6641,226857],
+  [2864072,"Neue Neustadt","DE",52.15,11.6333,226851],
+  [760778,"Radom","PL",51.4025,21.1471,226794],
+  [3429980,"Pilar","AR",-34.4587,-58.9142,226517],
+  [1256422,"Shrīrāmpur","IN",22.7528,88.3422,226317],
+  [2035225,"Fendou","CN",46.6414,124.8628,226298],
+  [118063,"Sabzevar","IR",36.2126,57.6819,226183],
+  [3348313,"Huambo","AO",-12.7761,15.7392,226145],
+  [558418,"Groznyy","RU",43.312,45.689,226100],
+  [2165798,"Geelong","AU",-38.1471,144.3607,226034],
+  [1259012,"Rāichūr","IN",16.2055,77.3557,225962],
+  [1807508,"Huanggang","CN",23.677,116.9996,225956],
+  [7302845,"Quthbullapur","IN",17.5011,78.4582,225816],
+  [2329821,"Mubi","NG",10.2686,13.267,225705],
+  [11048317,"Sector 1","RO",44.4924,26.0483,225453],
+  [217831,"Bukavu","CD",-2.4908,28.8428,225389],
+  [4297983,"Lexington","US",37.9887,-84.4777,225366],
+  [3397147,"Juazeiro do Norte","BR",-7.2131,-39.3153,225230],
+  [1185162,"Mymensingh","BD",24.7564,90.4065,225126],
+  [1267708,"Karnāl","IN",29.692,76.9845,225049],
+  [936374,"Roodepoort","ZA",-26.1625,27.8725,225000],
+  [149606,"Tanga","TZ",-5.0689,39.0988,224876],
+  [1805618,"Jingling","CN",30.65,113.1,224871],
+  [3903987,"Sucre","BO",-19.0333,-65.2627,224838],
+  [1035025,"Nacala","MZ",-14.5626,40.6854,224795],
+  [295629,"Ashdod","IL",31.7921,34.6497,224656],
+  [1857144,"Minamirinkan","JP",35.4953,139.4428,224015],
+  [3114711,"Oviedo","ES",43.3603,-5.8448,224005],
+  [3383330,"Paramaribo","SR",5.8664,-55.1668,223757],
+  [325330,"Adıyaman","TR",37.7644,38.2763,223744],
+  [1278483,"Arrah","IN",25.5563,84.6633,223676],
+  [1168718,"Okara","PK",30.8103,73.4516,223648],
+  [1185155,"Nārāyanganj","BD",23.6135,90.503,223622],
+  [1795196,"Tongchuanshi","CN",35.0747,109.085,223603],
+  [1269771,"Imphal","IN",24.8081,93.9442,223523],
+  [418606,"Najafābād","IR",32.6346,51.3653,223450],
+  [5509952,"Paradise","US",36.0972,-115.1467,223167],
+  [1216311,"Qarshi","UZ",38.8606,65.7891,222898],
+  [1270896,"Gosāba","IN",22.1655,88.8007,222764],
+  [1692685,"Puerto Princesa","PH",9.7392,118.7353,222673],
+  [1788618,"Xintai","CN",35.9006,117.7519,222459],
+  [2511174,"Santa Cruz de Tenerife","ES",28.4682,-16.2546,222417],
+  [1877615,"Haeju","KP",38.0406,125.7147,222396],
+  [2778067,"Graz","AT",47.0667,15.45,222326],
+  [2338273,"Ikire","NG",7.3698,4.1863,222160],
+  [3464305,"Embu","BR",-23.6489,-46.8522,221733],
+  [3433899,"Formosa","AR",-26.1849,-58.1731,221383],
+  [496015,"Shakhty","RU",47.7091,40.2144,221312],
+  [2026609,"Blagoveshchensk","RU",50.2796,127.5405,221296],
+  [1697175,"Olongapo","PH",14.8292,120.2828,221178],
+  [3204541,"Banja Luka","BA",44.7784,17.1939,221106],
+  [8421490,"Thị Xã Phú Mỹ","VN",10.5681,107.13,221030],
+  [122285,"Neyshābūr","IR",36.2133,58.7958,220929],
+  [1790894,"Wuxue","CN",29.8506,115.5525,220661],
+  [630468,"Babruysk","BY",53.1384,29.2214,220517],
+  [293703,"Rishon LeẔiyyon","IL",31.971,34.7894,220492],
+  [3531732,"Campeche","MX",19.8439,-90.5255,220389],
+  [4781708,"Richmond","US",37.5538,-77.4603,220289],
+  [1721906,"Cabanatuan City","PH",15.4859,120.9665,220250],
+  [8285534,"Fuencarral-El Pardo","ES",40.4984,-3.7314,220085],
+  [1262995,"Mirzāpur","IN",25.1449,82.5653,220029],
+  [2524170,"Messina","IT",38.1939,15.5526,219948],
+  [1234569,"Dehiwala-Mount Lavinia","LK",6.8402,79.8712,219827],
+  [1851012,"Takarazuka","JP",34.7994,135.357,219789],
+  [1266976,"Kharagpur","IN",22.3397,87.325,219665],
+  [1272979,"Dhanbād","IN",23.802,86.4432,219636],
+  [1254649,"Tanjore","IN",10.7852,79.1391,219571],
+  [3129028,"Badalona","ES",41.45,2.2474,219547],
+  [1865714,"Ageoshimo","JP",35.9715,139.6138,219401],
+  [1725094,"Binangonan","PH",14.4646,121.1929,219204],
+  [2860410,"Oberhausen","DE",51.4781,6.8625,219176],
+  [1611110,"Chon Buri","TH",13.3622,100.9835,219164],
+  [3164527,"Verona","IT",45.4299,10.9844,219103],
+  [1494114,"Prokop’yevsk","RU",53.9059,86.719,219000],
+  [198629,"Eldoret","KE",0.5204,35.2699,218446],
+  [1791249,"Wuhai","CN",39.6844,106.8158,218427],
+  [2234359,"Bertoua","CM",4.5773,13.6846,218111],
+  [3398269,"Imperatriz","BR",-5.5264,-47.4917,218106],
+  [3493032,"San Pedro de Macorís","DO",18.4539,-69.3086,217899],
+  [1278903,"Amarnāth","IN",19.2,73.1667,217780],
+  [1734586,"Taiping","MY",4.85,100.7333,217647],
+  [1736309,"Alor Setar","MY",6.121,100.3601,217368],
+  [1630328,"Purwokerto","ID",-7.4214,109.2344,217222],
+  [3465927,"Colombo","BR",-25.2917,-49.2242,217000],
+  [5122520,"Jamaica","US",40.6915,-73.8057,216866],
+  [500004,"Rybinsk","RU",58.0446,38.8426,216724],
+  [2163355,"Hobart","AU",-42.8794,147.3294,216656],
+  [1687894,"Santa Rosa","PH",14.3122,121.1114,216650],
+  [191245,"Kisumu","KE",-0.1022,34.7617,216479],
+  [5391710,"San Bernardino","US",34.1083,-117.2898,216108],
+  [1710914,"Imus","PH",14.4297,120.9367,216099],
+  [470451,"Vykhino-Zhulebino","RU",55.702,37.8118,216000],
+  [2925177,"Freiburg","DE",47.9959,7.8522,215966],
+  [2641430,"Northampton","GB",52.25,-0.8833,215963],
+  [1630341,"Purwakarta","ID",-6.5569,107.4433,215803],
+  [463829,"Zelenograd","RU",55.9825,37.1814,215727],
+  [11777624,"Archway","GB",51.5673,-0.1341,215667],
+  [1170295,"Mirpur Khas","PK",25.5276,69.0126,215657],
+  [2290486,"Daloa","CI",6.8774,-6.4502,215652],
+  [331180,"Mek'ele","ET",13.4967,39.4753,215546],
+  [1510018,"Biysk","RU",52.5364,85.2072,215430],
+  [3893894,"Concepción","CL",-36.827,-73.0498,215413],
+  [3194360,"Novi Sad","RS",45.2517,19.8369,215400],
+  [1805298,"Jinzhou","CN",39.1,121.7167,215386],
+  [3995523,"Monclova","MX",26.9069,-101.4206,215271],
+  [3631741,"Mucumpiz","VE",8.4167,-71.1333,215259],
+  [4000900,"La Paz","MX",24.1444,-110.3005,215178],
+  [519336,"Velikiy Novgorod","RU",58.5213,31.271,215062],
+  [2325330,"Owerri","NG",5.4836,7.0333,215038],
+  [8504960,"Centralniy","RU",59.9311,30.3607,214625],
+  [2323411,"Shagamu","NG",6.8485,3.6463,214558],
+  [3447186,"Taboão da Serra","BR",-23.6261,-46.7917,214523],
+  [330186,"Nazrēt","ET",8.55,39.2667,213995],
+  [1262204,"Nāgercoil","IN",8.179,77.4323,213858],
+  [702569,"Lutsk","UA",50.7593,25.3424,213661],
+  [3161732,"Bergen","NO",60.393,5.3242,213585],
+  [683902,"Brăila","RO",45.2715,27.9743,213569],
+  [122438,"Naz̧arābād","IR",35.9541,50.6061,213388],
+  [1806466,"Guangyuan","CN",32.442,105.823,213365],
+  [139889,"Būkān","IR",36.521,46.2089,213331],
+  [5811696,"Spokane","US",47.6597,-117.4291,213272],
+  [2641181,"Norwich","GB",52.6278,1.2983,213166],
+  [3460370,"Jacareí","BR",-23.3053,-45.9658,213110],
+  [1864518,"Chōfu","JP",35.6592,139.5484,212977],
+  [1637510,"Loa Janan","ID",-0.5829,117.095,212816],
+  [3873775,"Rancagua","CL",-34.1708,-70.7444,212695],
+  [764484,"Mokotów","PL",52.1934,21.0349,212670],
+  [4004886,"Nogales","MX",31.3086,-110.9422,212533],
+  [4049979,"Birmingham","US",33.5207,-86.8025,212461],
+  [1735079,"Bukit Mertajam","MY",5.363,100.4667,212329],
+  [1706090,"Lipa City","PH",13.9411,121.1631,212287],
+  [3457692,"Marília","BR",-22.2139,-49.9458,212218],
+  [2875601,"Lübeck","DE",53.8689,10.6873,212207],
+  [1734821,"Sepang","MY",2.6931,101.7498,212050],
+  [2520058,"Cartagena","ES",37.6051,-0.9862,211996],
+  [747323,"Esenyurt","TR",41.027,28.6773,211330],
+  [5373900,"Modesto","US",37.6391,-120.9969,211266],
+  [307654,"Kırıkkale","TR",39.8453,33.5064,211138],
+  [2037078,"Hailar","CN",49.2,119.7,211066],
+  [3108286,"Terrassa","ES",41.5667,2.0167,210941],
+  [110690,"Abha","SA",18.2164,42.5053,210886],
+  [2210221,"Tarhuna","LY",32.435,13.6332,210697],
+  [355628,"Idkū","EG",31.3073,30.2981,210678],
+  [1857519,"Matsumoto","JP",36.2333,137.9667,210667],
+  [1814082,"Daliang","CN",22.8407,113.2503,210411],
+  [1568574,"Qui Nhon","VN",13.7765,109.2237,210338],
+  [4853828,"Des Moines","US",41.6005,-93.6091,210330],
+  [1260716,"Pāli","IN",25.7728,73.3234,210103],
+  [3568342,"Arroyo Naranjo","CU",23.0381,-82.377,210053],
+  [1337233,"Bogra","BD",24.851,89.3711,210000],
+  [1519928,"Kostanay","KZ",53.2144,63.6246,210000],
+  [323779,"Antakya","TR",36.2066,36.1572,210000],
+  [5134086,"Rochester","US",43.1548,-77.6156,209802],
+  [1845136,"Chuncheon","KR",37.8747,127.7342,209746],
+  [1562414,"Vũng Tàu","VN",10.346,107.0843,209683],
+  [2756253,"Eindhoven","NL",51.4408,5.4778,209620],
+  [1214204,"Pematangsiantar","ID",2.9595,99.0687,209614],
+  [2043572,"Kanggye","KP",40.9695,126.5852,209530],
+  [3452324,"Presidente Prudente","BR",-22.1256,-51.3889,209502],
+  [1796663,"Sanming","CN",26.2486,117.6186,209444],
+  [347796,"Sohag","EG",26.557,31.6948,209419],
+  [2983990,"Rennes","FR",48.112,-1.6743,209375],
+  [3448622,"São Leopoldo","BR",-29.7603,-51.1472,209229],
+  [2338400,"Ijebu-Ode","NG",6.8194,3.9173,209175],
+  [1252797,"Yamunānagar","IN",30.128,77.2837,208931],
+  [1608529,"Nakhon Ratchasima","TH",14.9707,102.102,208781],
+  [3083271,"Toruń","PL",53.0138,18.5981,208717],
+  [3909234,"Oruro","BO",-17.9833,-67.15,208684],
+  [769250,"Kielce","PL",50.8703,20.6275,208598],
+  [1258182,"Rewa","IN",24.5326,81.2923,208461],
+  [3500957,"La Romana","DO",18.4273,-68.9728,208437],
+  [933773,"Gaborone","BW",-24.6545,25.9086,208411],
+  [1808931,"Hangu","CN",39.2489,117.7892,208369],
+  [5303929,"Maryvale","US",33.502,-112.1776,208189],
+  [5812944,"Tacoma","US",47.2529,-122.4443,207948],
+  [3347939,"Lobito","AO",-12.3644,13.536,207932],
+  [2185964,"North Shore","NZ",-36.8,174.75,207865],
+  [1646194,"Ciputat","ID",-6.2375,106.6956,207858],
+  [114259,"Sirjan","IR",29.4514,55.6809,207645],
+  [4744709,"Arlington","US",38.881,-77.1043,207627],
+  [1688830,"San Pablo","PH",14.0683,121.3256,207577],
+  [2516326,"Jerez de la Frontera","ES",36.6865,-6.1361,207532],
+  [5349755,"Fontana","US",34.0922,-117.435,207460],
+  [5380184,"Oxnard","US",34.1975,-119.177,207254],
+  [1647383,"Ciampea","ID",-6.5547,106.7008,207212],
+  [1859884,"Kasukabe","JP",35.9831,139.7497,206915],
+  [671768,"Oradea","RO",47.0458,21.9183,206614],
+  [2506999,"Annaba","DZ",36.9,7.7667,206570],
+  [3111199,"Sabadell","ES",41.5433,2.1094,206493],
+  [3116025,"Móstoles","ES",40.3223,-3.865,206478],
+  [1053384,"Toamasina","MG",-18.1492,49.4023,206373],
+  [1203891,"Dinājpur","BD",25.6275,88.6378,206234],
+  [3827606,"Buenavista","MX",19.6083,-99.1694,206081],
+  [3460949,"Itabuna","BR",-14.7856,-39.2803,205660],
+  [1859383,"Kishiwada","JP",34.4667,135.3667,205561],
+  [1793743,"Suzhou","CN",33.6361,116.9789,205130],
+  [3449319,"São Carlos","BR",-22.0175,-47.8908,205035],
+  [2772400,"Linz","AT",48.3064,14.2861,204846],
+  [3130616,"Alcalá de Henares","ES",40.4821,-3.36,204574],
+  [1810437,"Gaoping","CN",30.7758,106.1029,204368],
+  [1854902,"Numazu","JP",35.1,138.8667,204318],
+  [707471,"Ivano-Frankivsk","UA",48.9215,24.7097,204200],
+  [5374732,"Moreno Valley","US",33.9375,-117.2306,204198],
+  [1256922,"Secunderabad","IN",17.5043,78.5426,204182],
+  [6825489,"Jōetsu","JP",37.1483,138.2364,204137],
+  [721472,"Debrecen","HU",47.5317,21.6244,204124],
+  [1275738,"Bīdar","IN",17.908,77.5152,204071],
+  [3171728,"Padova","IT",45.408,11.8859,203725],
+  [3550598,"Las Tunas","CU",20.9617,-76.9511,203684],
+  [1568212,"Sa Dec","VN",10.2909,105.7564,203588],
+  [3461655,"Hortolândia","BR",-22.8583,-47.22,203533],
+  [4562831,"Bayamón","PR",18.3986,-66.1557,203499],
+  [2037860,"Daqing","CN",46.5833,125,203488],
+  [3991328,"Puerto Vallarta","MX",20.617,-105.2302,203342],
+  [1279290,"Agartala","IN",23.8361,91.2794,203264],
+  [2929670,"Erfurt","DE",50.9787,11.0328,203254],
+  [1262482,"Monghyr","IN",25.3746,86.4745,203163],
+  [2232239,"Edéa","CM",3.8,10.1333,203149],
+  [8504949,"Vasyl'evsky Ostrov","RU",59.9409,30.2538,203058],
+  [1854747,"Odawara","JP",35.2556,139.1597,203035],
+  [2306079,"Atsiaman","GH",5.6978,-0.3282,202932],
+  [303195,"Osmaniye","TR",37.0742,36.2478,202837],
+  [5911606,"Burnaby","CA",49.2664,-122.9526,202799],
+  [142363,"Bābol","IR",36.551,52.6786,202796],
+  [1275068,"Burhānpur","IN",21.3087,76.2303,202695],
+  [634963,"Tampere","FI",61.4991,23.7871,202687],
+  [3516266,"Tapachula","MX",14.9039,-92.2575,202672],
+  [1808316,"Yiyang","CN",28.5892,112.3283,202608],
+  [748893,"Çorlu","TR",41.1592,27.8,202578],
+  [2910685,"Harburg","DE",53.4606,9.9839,202571],
+  [1803331,"Linxia Chengguanzhen","CN",35.6003,103.2064,202402],
+  [1336137,"Barisāl","BD",22.705,90.3701,202242],
+  [1646494,"Cileungsir","ID",-6.3947,106.9592,202190],
+  [1262292,"Nadiād","IN",22.6939,72.8616,202067],
+  [3394682,"Mossoró","BR",-5.1875,-37.3442,202005],
+  [504341,"Pskov","RU",57.8136,28.3496,201990],
+  [4466033,"Fayetteville","US",35.0527,-78.8784,201963],
+  [1785738,"Yuncheng","CN",35.0231,110.9928,201950],
+  [2219905,"Al Khums","LY",32.6486,14.2619,201943],
+  [5358705,"Huntington Beach","US",33.6603,-117.9992,201899],
+  [8063098,"Favoriten","AT",48.1612,16.3823,201882],
+  [1181096,"Chiniot","PK",31.7209,72.9784,201781],
+  [3460718,"Itapevi","BR",-23.5489,-46.9342,201748],
+  [1274353,"Chāpra","IN",25.7803,84.7471,201597],
+  [1629710,"Rengasdengklok","ID",-6.1592,107.2981,201463],
+  [3447624,"Sete Lagoas","BR",-19.4658,-44.2467,201334],
+  [7281017,"La Pintana","CL",-33.5833,-70.6342,201178],
+  [5145215,"Yonkers","US",40.9312,-73.8988,201116],
+  [5352423,"Glendale","US",34.1425,-118.2551,201020],
+  [1153671,"Chiang Mai","TH",18.7904,98.9847,200952],
+  [1520172,"Petropavl","KZ",54.8667,69.15,200920],
+  [3647651,"Cabimas","VE",10.3991,-71.4521,200818],
+  [1272543,"Dindigul","IN",10.369,77.9804,200797],
+  [4883817,"Aurora","US",41.7606,-88.3201,200661],
+  [4076784,"Montgomery","US",32.3668,-86.3,200602],
+  [4188985,"Columbus","US",32.461,-84.9877,200579],
+  [146268,"Nicosia","CY",35.1753,33.3642,200452],
+  [3651297,"Santo Domingo de los Colorados","EC",-0.253,-79.1754,200421],
+  [1139715,"Jalālābād","AF",34.4265,70.4515,200331],
+  [2320831,"Ugep","NG",5.8087,8.081,200276],
+  [100425,"Yanbu","SA",24.0895,38.0618,200161],
+  [2800481,"Charleroi","BE",50.4114,4.4445,200132],
+  [3448742,"São José","BR",-28.2117,-49.1632,200000],
+  [7602078,"Ladner","CA",49.0894,-123.0824,200000],
+  [7799991,"New Cairo","EG",30.03,31.47,200000],
+  [1626103,"Sumedang","ID",-6.8586,107.9164,200000],
+  [293918,"Petaẖ Tiqwa","IL",32.0871,34.8875,200000],
+  [6690108,"Panchkula","IN",30.6946,76.8504,200000],
+  [179330,"Thika","KE",-1.0333,37.0693,200000],
+  [1527534,"Osh","KG",40.5283,72.7985,200000],
+  [608668,"Oral","KZ",51.2333,51.3667,200000],
+  [2218970,"Az Zāwīyah","LY",32.7571,12.7276,200000],
+  [10920963,"Salé Al Jadida","MA",33.9972,-6.7405,200000],
+  [12129605,"Chakwama","NG",11.5597,9.6641,200000],
+  [1282898,"Pokhara","NP",28.2669,83.9685,200000],
+  [1165569,"Shahkot","PK",31.5709,73.4853,200000],
+  [496348,"Severnyy","RU",55.9358,37.5489,200000],
+  [1256320,"Sīkar","IN",27.6121,75.14,199932],
+  [2746301,"Tilburg","NL",51.5555,5.0913,199613],
+  [579492,"Balakovo","RU",52.0278,47.8007,199572],
+  [580922,"Armavir","RU",44.9892,41.1234,199548],
+  [1175088,"Kamoke","PK",31.9753,74.223,199531],
+  [6545349,"Saidpur","BD",25.7777,88.8917,199422],
+  [143534,"Āmol","IR",36.4696,52.3507,199382],
+  [712165,"Bila Tserkva","UA",49.8094,30.1121,199163],
+  [2650839,"Dudley","GB",52.5,-2.0833,199059],
+  [2912621,"Hagen","DE",51.3608,7.4717,198972],
+  [6141256,"Saskatoon","CA",52.1324,-106.6689,198958],
+  [3099230,"Gliwice","PL",50.2976,18.6766,198835],
+  [1529569,"Changji","CN",44.0078,87.3046,198776],
+  [1702540,"Malolos","PH",14.8443,120.8104,198748],
+  [5516233,"Amarillo","US",35.222,-101.8313,198645],
+  [1275120,"Bulandshahr","IN",28.4039,77.8577,198612],
+  [3439214,"Capiatá","PY",-25.3552,-57.4454,198553],
+  [3114472,"Pamplona","ES",42.8169,-1.6432,198491],
+  [1259166,"Purnia","IN",25.7789,87.4742,198453],
+  [1804850,"Kaiyuan","CN",23.6977,103.3037,198423],
+  [2844588,"Rostock","DE",54.0887,12.1405,198293],
+  [1735902,"Sibu","MY",2.3,111.8167,198239],
+  [751868,"Arnavutköy","TR",41.1835,28.7402,198165],
+  [3654533,"Machala","EC",-3.2586,-79.9605,198123],
+  [4119403,"Little Rock","US",34.7465,-92.2896,197992],
+  [1269935,"Hospet","IN",15.2695,76.3871,197846],
+  [3121960,"Fuenlabrada","ES",40.2842,-3.7941,197836],
+  [1800657,"Mentougou","CN",39.9382,116.0931,197772],
+  [5145476,"Akron","US",41.0814,-81.519,197542],
+  [3870294,"Talca","CL",-35.4264,-71.6554,197479],
+  [1270642,"Gurgaon","IN",28.4601,77.0263,197340],
+  [3530594,"Ciudad Madero","MX",22.2723,-97.8362,197216],
+  [4341513,"Shreveport","US",32.5251,-93.7502,197204],
+  [1584071,"Ðà Lạt","VN",11.9465,108.4419,197000],
+  [140463,"Bīrjand","IR",32.8663,59.2211,196982],
+  [2282006,"San-Pédro","CI",4.7485,-6.6363,196751],
+  [1651944,"Vientiane","LA",17.9667,102.6,196731],
+  [2657832,"Aberdeen","GB",57.1437,-2.0981,196670],
+  [1858296,"Kure","JP",34.2322,132.5666,196624],
+  [745028,"İzmit","TR",40.765,29.9293,196571],
+  [2984114,"Reims","FR",49.2653,4.0285,196565],
+  [2462881,"Laayoune","EH",27.1418,-13.188,196331],
+  [3474574,"Palmas","BR",-10.1674,-48.3277,196272],
+  [6317872,"Parauapebas","BR",-6.0675,-49.9022,196259],
+  [1843702,"Icheon-si","KR",37.2792,127.4425,196230],
+  [2146142,"Townsville","AU",-19.2664,146.8057,196219],
+  [1257540,"Sambhal","IN",28.585,78.5696,196109],
+  [3472343,"Americana","BR",-22.7392,-47.3314,196022],
+  [563464,"Engel’s","RU",51.4839,46.1053,196011],
+  [1271715,"Gandhinagar","IN",23.2167,72.6833,195985],
+  [732770,"Burgas","BG",42.5061,27.4678,195966],
+  [1262395,"Murwāra","IN",23.8378,80.394,195856],
+  [1856199,"Nagaoka","JP",37.45,138.85,195318],
+  [1841988,"Guri-si","KR",37.5986,127.1394,195236],
+  [3645213,"Coro","VE",11.4045,-69.6734,195227],
+  [1850692,"Nishi-Tokyo-shi","JP",35.7253,139.5383,195164],
+  [1806882,"Xinhui","CN",22.456,113.0482,195129],
+  [4994358,"Grand Rapids","US",42.9634,-85.6681,195097],
+  [1640344,"Kendari","ID",-3.9778,122.5151,195006],
+  [3392242,"Petrolina","BR",-9.3986,-40.5008,194650],
+  [2279755,"Yamoussoukro","CI",6.8206,-5.2767,194530],
+  [2892518,"Kassel","DE",51.3167,9.5,194501],
+  [1261913,"Nāngloi Jāt","IN",28.6796,77.068,194363],
+  [496285,"Severodvinsk","RU",64.5635,39.8302,194292],
+  [4076598,"Mobile","US",30.6944,-88.043,194288],
+  [2639996,"Portsmouth","GB",50.799,-1.0912,194150],
+  [2328765,"Nnewi","NG",6.0196,6.9173,193987],
+  [1632276,"Parung","ID",-6.4214,106.7331,193898],
+  [3464688,"Divinópolis","BR",-20.1435,-44.8906,193832],
+  [6947639,"Başakşehir","TR",41.0931,28.802,193750],
+  [1811619,"Ezhou","CN",30.4,114.8333,193652],
+  [3395473,"Maracanaú","BR",-3.8767,-38.6256,193529],
+  [1861310,"Itami","JP",34.7843,135.4013,193524],
+  [1573517,"Nam Định","VN",20.4339,106.1773,193499],
+  [1849372,"Uji","JP",34.8904,135.8033,192925],
+  [1264637,"Machilīpatnam","IN",16.1875,81.1389,192827],
+  [2043837,"Hyesan","KP",41.4017,128.1778,192680],
+  [5780993,"Salt Lake City","US",40.7608,-111.891,192672],
+  [3567597,"Bayamo","CU",20.3742,-76.6436,192632],
+  [1267480,"Katihar","IN",25.5385,87.5704,192555],
+  [1624863,"Tanjung Pinang","ID",0.9167,104.4583,192493],
+  [1192366,"Pār Naogaon","BD",24.8042,88.9488,192464],
+  [2641673,"Newcastle upon Tyne","GB",54.9733,-1.614,192382],
+  [598098,"Klaipėda","LT",55.7068,21.1391,192307],
+  [3080985,"Zabrze","PL",50.3249,18.7858,192177],
+  [140380,"Bojnūrd","IR",37.4747,57.329,192041],
+  [3639898,"Guatire","VE",10.474,-66.5424,191903],
+  [1806696,"Humen","CN",22.819,113.6731,191891],
+  [2481007,"Sidi Bel Abbès","DZ",35.1899,-0.6308,191769],
+  [1610780,"Hat Yai","TH",7.0084,100.4767,191696],
+  [2037086,"Haicheng","CN",40.8516,122.7475,191651],
+  [1851348,"Suzuka","JP",34.8833,136.5833,191477],
+  [2437798,"Zinder","NE",13.8072,8.9881,191424],
+  [1645895,"Curug","ID",-6.2658,106.5564,191406],
+  [3689169,"Barrancabermeja","CO",7.0653,-73.8547,191403],
+  [462444,"Zlatoust","RU",55.1711,59.6508,191366],
+  [1697018,"Ormoc","PH",11.0064,124.6075,191200],
+  [1275899,"Bhiwāni","IN",28.793,76.1397,190855],
+  [4068590,"Huntsville","US",34.7304,-86.5859,190582],
+  [1783633,"Zoucheng","CN",35.4006,116.9656,190537],
+  [2965140,"Cork","IE",51.898,-8.4706,190384],
+  [99454,"Al Fallūjah","IQ",33.3491,43.786,190159],
+  [2337207,"Ise-Ekiti","NG",7.4648,5.4233,190063],
+  [632453,"Vantaa","FI",60.2941,25.041,190058],
+  [1859100,"Kōfu","JP",35.6667,138.5667,190000],
+  [3363094,"Paarl","ZA",-33.7338,18.9752,190000],
+  [4174715,"Tallahassee","US",30.4383,-84.2807,189907],
+  [1166652,"Saddiqabad","PK",28.3091,70.1265,189876],
+  [359173,"Banī Suwayf","EG",29.0744,31.0979,189624],
+  [11184422,"Planaltina","BR",-15.6179,-47.6487,189412],
+  [5513343,"Sunrise Manor","US",36.2111,-115.0731,189372],
+  [484972,"Syzran’","RU",53.1585,48.4681,189338],
+  [3101950,"Bytom","PL",50.348,18.9328,189186],
+  [207570,"Mwene-Ditu","CD",-7.0091,23.4528,189177],
+  [1695743,"Panalanoy","PH",11.2511,125.0064,189090],
+  [1861107,"Izumi","JP",34.4833,135.4333,189085],
+  [3389353,"Santarém","BR",-2.4431,-54.7083,189047],
+  [1791748,"Wanxian","CN",30.8154,108.3709,188980],
+  [916095,"Kabwe","ZM",-14.4469,28.4464,188979],
+  [1028434,"Quelimane","MZ",-17.8786,36.8883,188964],
+  [3837702,"San Fernando del Valle de Catamarca","AR",-28.4696,-65.7852,188812],
+  [2521886,"Almería","ES",36.8381,-2.4597,188810],
+  [3468031,"Camaçari","BR",-12.6975,-38.3242,188758],
+  [1638868,"Labuan Bajo","ID",-8.4964,119.8877,188724],
+  [1647003,"Cibinong","ID",-6.4817,106.8542,188663],
+  [1812521,"Donghai","CN",22.9459,115.642,188602],
+  [6956647,"Boyeros","CU",23.0072,-82.4017,188593],
+  [1817240,"Baiyin","CN",36.547,104.1702,188533],
+  [1704703,"Mabalacat City","PH",15.223,120.5712,188050],
+  [3450404,"Santa Bárbara d'Oeste","BR",-22.7536,-47.4136,188000],
+  [1804578,"Laizhou","CN",37.1807,119.9422,188000],
+  [9781227,"Kultali","IN",21.9,88.4,187942],
+  [6545348,"Praga Południe","PL",52.2442,21.0855,187845],
+  [3451138,"Rio Grande","BR",-32.035,-52.0986,187838],
+  [4694482,"Grand Prairie","US",32.746,-96.9978,187809],
+  [2542051,"Mohammedia","MA",33.6861,-7.383,187708],
+  [2636503,"Sutton","GB",51.35,-0.2,187600],
+  [1512979,"Qo‘qon","UZ",40.5286,70.9425,187477],
+  [2122104,"Petropavlovsk-Kamchatsky","RU",53.0444,158.6508,187282],
+  [3530870,"Chilpancingo","MX",17.5506,-99.5058,187251],
+  [3165185,"Trieste","IT",45.6495,13.7768,187056],
+  [3468376,"Cachoeiro de Itapemirim","BR",-20.8489,-41.1128,187019],
+  [11903636,"Donaustadt","AT",48.2333,16.46,187007],
+  [2314705,"Kikwit","CD",-5.041,18.8162,186991],
+  [3544091,"Pinar del Río","CU",22.4167,-83.6967,186990],
+  [1696710,"Pagadian","PH",7.8257,123.437,186852],
+  [1336143,"Pābna","BD",24.0064,89.2372,186781],
+  [3564124,"Cienfuegos","CU",22.1496,-80.4466,186644],
+  [295530,"Beersheba","IL",31.2518,34.7913,186600],
+  [4276873,"Overland Park","US",38.9822,-94.6708,186515],
+  [1259064,"Raebareli","IN",26.2309,81.2332,186433],
+  [952865,"Springs","ZA",-26.25,28.4,186394],
+  [349158,"Shibīn al Kawm","EG",30.5526,31.009,186345],
+  [2112708,"Hitachi","JP",36.6,140.65,186307],
+  [1069166,"Antsirabe","MG",-19.8659,47.0333,186253],
+  [2216885,"Zawiya","LY",32.7522,12.7278,186123],
+  [1636930,"Madiun","ID",-7.6298,111.5239,186099],
+  [1270351,"Haridwar","IN",29.9479,78.1603,186079],
+  [3118594,"Leganés","ES",40.3272,-3.7635,186066],
+  [380174,"Ad-Damazin","SD",11.7891,34.3592,186051],
+  [3899361,"Arica","CL",-18.4746,-70.2979,185999],
+  [3003796,"Le Havre","FR",49.4938,0.1077,185972],
+  [2636389,"Swindon","GB",51.558,-1.7812,185609],
+  [7279754,"Singrauli","IN",24.1997,82.6754,185580],
+  [6122091,"Richmond Hill","CA",43.8711,-79.4373,185541],
+  [3110044,"Donostia / San Sebastián","ES",43.3128,-1.975,185357],
+  [2911240,"Hamm","DE",51.6803,7.8209,185327],
+  [4634946,"Knoxville","US",35.9606,-83.9207,185291],
+  [56399,"Jamaame","SO",0.0697,42.745,185270],
+  [3521168,"Poza Rica de Hidalgo","MX",20.5332,-97.4595,185242],
+  [1234633,"Moratuwa","LK",6.773,79.8816,185031],
+  [305268,"Kütahya","TR",39.4242,29.9833,185008],
+  [2874225,"Mainz","DE",49.9842,8.2791,184997],
+  [1699802,"Meycauayan","PH",14.7369,120.9608,184839],
+  [3181554,"Brescia","IT",45.5356,10.2147,184826],
+  [4956184,"Worcester","US",42.2626,-71.8023,184815],
+  [1785462,"Zaoyang","CN",32.1272,112.7542,184509],
+  [9827976,"Paltan","BD",23.7362,90.4143,184492],
+  [1268773,"Jūnāgadh","IN",21.5197,70.4598,184447],
+  [884979,"Mutare","ZW",-18.9707,32.6709,184205],
+  [2312895,"Mbandaka","CD",0.0487,18.2603,184185],
+  [1631648,"Pemalang","ID",-6.8919,109.3826,184149],
+  [1797353,"Quanzhou","CN",24.9139,118.5858,184143],
+  [3837056,"San Luis","AR",-33.295,-66.3356,183982],
+  [2660646,"Genève","CH",46.2022,6.1457,183981],
+  [1682812,"Tarlac City","PH",15.4802,120.5979,183930],
+  [1182092,"Būrewāla","PK",30.1667,72.65,183915],
+  [4676740,"Brownsville","US",25.9018,-97.4975,183887],
+  [2038584,"Baishan","CN",41.9385,126.4197,183880],
+  [1255560,"Sūjāngarh","IN",27.7,74.4667,183808],
+  [1785453,"Zaozhuang","CN",34.8647,117.5542,183665],
+  [2129376,"Kushiro","JP",42.975,144.3747,183612],
+  [8555643,"Cergy-Pontoise","FR",49.0389,2.0781,183430],
+  [748879,"Çorum","TR",40.5489,34.9533,183418],
+  [1272051,"Ellore","IN",16.7131,81.1044,183387],
+  [1282931,"Pātan","NP",27.6766,85.3142,183310],
+  [3654410,"Manta","EC",-0.9621,-80.7127,183166],
+  [1638063,"Lembang","ID",-6.8117,107.6175,183130],
+  [6544104,"Sants-Montjuïc","ES",41.3726,2.1546,183120],
+  [1275778,"Bhusāval","IN",21.0437,75.7851,183001],
+  [1608048,"Pak Kret","TH",13.913,100.4988,182926],
+  [1267031,"Khandwa","IN",21.8243,76.3509,182841],
+  [3109718,"Santander","ES",43.4647,-3.8044,182700],
+  [2792413,"Liège","BE",50.6337,5.5675,182597],
+  [3644918,"Cúa","VE",10.1625,-66.8825,182558],
+  [2111220,"Sakura","JP",35.7167,140.2333,182549],
+  [1504826,"Kamensk-Ural’skiy","RU",56.4185,61.9329,182500],
+  [3460950,"Itaboraí","BR",-22.7444,-42.8594,182498],
+  [2503769,"Blida","DZ",36.47,2.8277,182447],
+  [4776024,"Newport News","US",37.0834,-76.4696,182385],
+  [5393049,"Santa Clarita","US",34.3917,-118.5426,182371],
+  [1283582,"Biratnagar","NP",26.4551,87.2701,182324],
+  [1014073,"Carletonville","ZA",-26.3609,27.3977,182304],
+  [1277799,"Bahraigh","IN",27.5743,81.5947,182218],
+  [5894171,"Barrie","CA",44.4001,-79.6663,182041],
+  [1308522,"Monywa","MM",22.1086,95.1358,182011],
+  [6122085,"Richmond","CA",49.17,-123.1368,182000],
+  [3169921,"Prato","IT",43.8805,11.097,181820],
+  [1630634,"Probolinggo","ID",-7.7543,113.2159,181656],
+  [1256052,"Sirsa","IN",29.5349,75.029,181639],
+  [3640049,"Guarenas","VE",10.4703,-66.6193,181612],
+  [2038650,"Anda","CN",46.402,125.3145,181271],
+  [2842647,"Saarbrücken","DE",49.2326,7.0098,181227],
+  [1783934,"Shangqiu","CN",34.45,115.65,181218],
+  [246013,"Wādī as Sīr","JO",31.9545,35.8183,181212],
+  [2755251,"Groningen","NL",53.2192,6.5667,181194],
+  [3165926,"Taranto","IT",40.4644,17.2471,181082],
+  [1734759,"Malacca","MY",2.196,102.2405,180671],
+  [1274784,"Chandannagar","IN",22.8623,88.368,180623],
+  [1843137,"Gangneung","KR",37.7527,128.8724,180611],
+  [1277820,"Baharampur","IN",24.1047,88.2516,180547],
+  [160196,"Dodoma","TZ",-6.1722,35.7395,180541],
+  [2652053,"Crawley","GB",51.113,-0.1831,180508],
+  [3451234,"Rio Claro","BR",-22.4114,-47.5614,180147],
+  [1336144,"Tāngāil","BD",24.2498,89.9166,180144],
+  [2313002,"Matadi","CD",-5.8386,13.4631,180109],
+  [2519752,"Castelló de la Plana","ES",39.9857,-0.0493,180005],
+  [6087029,"Nepean","CA",45.3362,-75.7225,180000],
+  [610529,"Atyrau","KZ",47.1167,51.8833,180000],
+  [468809,"Yasenevo","RU",55.6069,37.5199,180000],
+  [1832847,"Yangju","KR",37.8331,127.0617,179923],
+  [3461311,"Indaiatuba","BR",-23.0884,-47.2119,179911],
+  [1255349,"Surendranagar","IN",22.7271,71.6486,179628],
+  [112214,"Varāmīn","IR",35.3242,51.6457,179603],
+  [3685095,"Dosquebradas","CO",4.8392,-75.6673,179583],
+  [3454857,"Passo Fundo","BR",-28.2628,-52.4067,179529],
+  [1790396,"Xianning","CN",29.8435,114.322,179494],
+  [1706889,"Legaspi","PH",13.1413,123.7407,179481],
+  [1529376,"Korla","CN",41.7606,86.1523,179465],
+  [1716771,"Cotabato","PH",7.2236,124.2464,179433],
+  [508101,"Podolsk","RU",55.4242,37.5547,179400],
+  [1253084,"Vizianagaram","IN",18.1169,83.4115,179358],
+  [5224151,"Providence","US",41.824,-71.4128,179207],
+  [2337765,"Ila Orangun","NG",8.0171,4.9042,179192],
+  [1786067,"Qianjiang","CN",30.421,112.8919,179079],
+  [1815059,"Chenzhou","CN",25.8,113.0333,179038],
+  [3127461,"Burgos","ES",42.3411,-3.7018,178966],
+  [989921,"Klerksdorp","ZA",-26.8521,26.6667,178921],
+  [1606250,"Si Racha","TH",13.1737,100.9311,178916],
+  [2476897,"Tiaret","DZ",35.371,1.317,178915],
+  [2271772,"Amadora","PT",38.7538,-9.2308,178858],
+  [2646057,"Ipswich","GB",52.0592,1.1555,178835],
+  [1860437,"Kamirenjaku","JP",35.6942,139.555,178739],
+  [2323390,"Saki","NG",8.6676,3.3939,178677],
+  [2498611,"Chlef","DZ",36.1653,1.3345,178616],
+  [4155966,"Fort Lauderdale","US",26.1223,-80.1434,178590],
+  [5115843,"East Flatbush","US",40.6537,-73.9304,178464],
+  [1865294,"Anjō","JP",34.9583,137.0805,178402],
+  [5512909,"Spring Valley","US",36.108,-115.245,178395],
+  [613607,"Kutaisi","GE",42.2679,42.6946,178338],
+  [3746181,"Ciudad Camilo Cienfuegos","CU",23.1608,-82.328,178041],
+  [1805540,"Jingzhou","CN",30.3503,112.1903,177878],
+  [1259312,"Proddatūr","IN",14.7502,78.5481,177797],
+  [1295765,"Sittwe","MM",20.1462,92.8983,177743],
+  [172955,"Ar Raqqah","SY",35.9528,39.0079,177636],
+  [1309793,"Meiktila","MM",20.8778,95.8584,177442],
+  [2229152,"Loum","CM",4.7182,9.7351,177429],
+  [1253286,"Vellore","IN",12.9184,79.1326,177081],
+  [1269910,"Hugli","IN",22.9088,88.3967,177005],
+  [1278985,"Alappuzha","IN",9.49,76.3264,176783],
+  [3583334,"Santa Ana","SV",13.9942,-89.5597,176661],
+  [4612862,"Chattanooga","US",35.0456,-85.3097,176588],
+  [125185,"Malāyer","IR",34.3016,48.8217,176573],
+  [3103402,"Bielsko-Biala","PL",49.8225,19.0469,176515],
+  [2119441,"Yuzhno-Sakhalinsk","RU",46.9541,142.736,176484],
+  [2759879,"Almere Stad","NL",52.3703,5.2141,176432],
+  [3190261,"Split","HR",43.5089,16.4392,176314],
+  [2980291,"Saint-Étienne","FR",45.4339,4.39,176280],
+  [1278708,"Amroha","IN",28.9031,78.4698,176253],
+  [6119109,"Regina","CA",50.4501,-104.6178,176183],
+  [1784580,"Zhenzhou","CN",32.2803,119.17,176006],
+  [2246452,"Saint-Louis","SN",16.0179,-16.4896,176000],
+  [633679,"Turku","FI",60.4515,22.2687,175945],
+  [5317058,"Tempe","US",33.4148,-111.9093,175826],
+  [1789137,"Xindi","CN",29.8167,113.4667,175761],
+  [5378771,"Oceanside","US",33.1959,-117.3795,175691],
+  [3511550,"Bella Vista","DO",18.4554,-69.9454,175683],
+  [2110683,"Tsukuba","JP",36.2,140.1,175589],
+  [116667,"Sāveh","IR",35.0213,50.3566,175533],
+  [2633948,"Wigan","GB",53.543,-2.6371,175405],
+  [5351515,"Garden Grove","US",33.7739,-117.9414,175393],
+  [126972,"Khowy","IR",38.5503,44.9521,175370],
+  [925475,"Mzuzu","MW",-11.4656,34.0207,175345],
+  [300614,"Siverek","TR",37.755,39.3167,175341],
+  [5385955,"Rancho Cucamonga","US",34.1064,-117.5931,175236],
+  [4149962,"Cape Coral","US",26.5629,-81.9495,175229],
+  [2036401,"Jiutai","CN",44.1525,125.8328,175115],
+  [2130057,"Hirosaki","JP",40.5931,140.4725,174972],
+  [5393287,"Santa Rosa","US",38.4405,-122.7144,174972],
+  [1698829,"Naga","PH",13.6192,123.1814,174931],
+  [3465284,"Cotia","BR",-23.6039,-46.9192,174828],
+  [2127733,"Tomakomai","JP",42.6369,141.6033,174806],
+  [1255062,"Tambaram","IN",12.9246,80.1271,174787],
+  [1632937,"Pamulang","ID",-6.3428,106.7383,174557],
+  [2410048,"Bo","SL",7.9647,-11.7383,174354],
+  [1260137,"Pathānkot","IN",32.2748,75.6529,174306],
+  [1863431,"Hadano","JP",35.3711,139.2236,174281],
+  [1816234,"Bozhou","CN",33.8772,115.7703,174140],
+  [1985663,"Cikupa","ID",-6.2364,106.5083,174041],
+  [1275926,"Bhind","IN",26.5667,78.7873,174035],
+  [3629706,"Puerto Cabello","VE",10.4731,-68.0125,174000],
+  [2128815,"Obihiro","JP",42.9172,143.2044,173890],
+  [1849498,"Ube","JP",33.9431,131.2511,173733],
+  [704508,"Kramators’k","UA",48.7231,37.5563,173700],
+  [1256237,"Shimla","IN",31.1044,77.1666,173503],
+  [2651817,"Croydon","GB",51.3833,-0.1,173314],
+  [1309611,"Myeik","MM",12.4395,98.6003,173298],
+  [5115985,"East New York","US",40.6668,-73.8824,173198],
+  [281124,"Khān Yūnis","PS",31.3402,34.3063,173183],
+  [2310046,"Bata","GQ",1.8639,9.7658,173046],
+  [1105776,"Midrand","ZA",-25.9895,28.1284,173009],
+  [3530937,"Chicoloapan","MX",19.4169,-98.902,172919],
+  [1261045,"Ongole","IN",15.5036,80.0445,172872],
+  [5814616,"Vancouver","US",45.6387,-122.6615,172860],
+  [8740017,"Gadag-Betageri","IN",15.4167,75.6167,172813],
+  [1803791,"Licheng","CN",23.2955,113.8247,172775],
+  [1629131,"Salatiga","ID",-7.3319,110.4928,172645],
+  [717582,"Miskolc","HU",48.1031,20.7781,172637],
+  [311073,"Isparta","TR",37.7644,30.5522,172334],
+  [1791636,"Weinan","CN",34.5035,109.5089,172321],
+  [2250805,"Kaolack","SN",14.152,-16.0726,172305],
+  [2634853,"Walsall","GB",52.5853,-1.984,172141],
+  [2905891,"Herne","DE",51.5388,7.2257,172108],
+  [532535,"Lyublino","RU",55.6774,37.7601,172000],
+  [2643097,"Mansfield","GB",53.1333,-1.2,171958],
+  [763166,"Olsztyn","PL",53.78,20.4942,171803],
+  [3462980,"Francisco Morato","BR",-23.2817,-46.7453,171790],
+  [1862599,"Hino","JP",35.6731,139.4003,171777],
+  [294071,"Netanya","IL",32.3329,34.8599,171676],
+  [1799846,"Nanping","CN",26.645,118.1736,171674],
+  [2347209,"Bida","NG",9.0804,6.0099,171656],
+  [5231851,"Sioux Falls","US",43.55,-96.7003,171544],
+  [786712,"Prizren","XK",42.2139,20.7397,171464],
+  [2037620,"Dongling","CN",41.8144,123.5758,171454],
+  [685948,"Bacău","RO",46.5672,26.9138,171396],
+  [2640729,"Oxford","GB",51.7522,-1.256,171380],
+  [1607508,"Phra Pradaeng","TH",13.6586,100.5336,171333],
+  [1716198,"Dagupan","PH",16.0431,120.3333,171271],
+  [5308480,"Peoria","US",33.5806,-112.2374,171237],
+  [5379439,"Ontario","US",34.0633,-117.6509,171214],
+  [1261653,"Navsāri","IN",20.9424,72.9247,171109],
+  [2867838,"Mülheim","DE",51.4322,6.8797,171000],
+  [1734393,"Kulim","MY",5.365,100.5618,170889],
+  [1259184,"Puri","IN",19.7983,85.8249,170841],
+  [1344377,"Haldia","IN",22.0605,88.1098,170695],
+  [4431410,"Jackson","US",32.2988,-90.1848,170674],
+  [1518262,"Temirtau","KZ",50.0549,72.9646,170600],
+  [1176515,"Jacobabad","PK",28.2819,68.4376,170588],
+  [1267076,"Khammam","IN",17.2477,80.1437,170503],
+  [4563243,"Carolina","PR",18.3808,-65.9574,170404],
+  [204405,"Uvira","CD",-3.3953,29.1378,170391],
+  [3652941,"Portoviejo","EC",-1.0546,-80.4544,170326],
+  [1259009,"Rāiganj","IN",25.6128,88.1245,170252],
+  [1851032,"Takaoka","JP",36.75,137.0167,170077],
+  [1269723,"Ingrāj Bāzār","IN",25.0045,88.1457,170039],
+  [3471859,"Araçatuba","BR",-21.2089,-50.4328,170024],
+  [1810845,"Fuyang","CN",32.9,115.8167,170023],
+  [1732811,"Kluang","MY",2.0305,103.3169,169828],
+  [2522258,"Albacete","ES",38.9942,-1.8564,169716],
+  [1804586,"Laiyang","CN",36.9758,120.7136,169594],
+  [1269135,"Jaunpur","IN",25.7536,82.6869,169572],
+  [3530599,"Ciudad del Carmen","MX",18.6459,-91.8299,169466],
+  [2523630,"Reggio Calabria","IT",38.1105,15.6613,169140],
+  [1242833,"Jaffna","LK",9.6685,80.0074,169102],
+  [686254,"Arad","RO",46.1833,21.3167,169065],
+  [342884,"Bahir Dar","ET",11.5936,37.3908,168899],
+  [630429,"Baranovichi","BY",53.1327,26.0139,168772],
+  [3531200,"Chalco","MX",19.2617,-98.8977,168720],
+  [2972328,"Toulon","FR",43.1244,5.9284,168701],
+  [281129,"Jabālyā","PS",31.5272,34.4835,168568],
+  [3471766,"Araraquara","BR",-21.7944,-48.1756,168468],
+  [2503701,"Bordj Bou Arreridj","DZ",36.0732,4.7611,168346],
+  [3037656,"Angers","FR",47.4738,-0.5477,168279],
+  [6544103,"Horta-Guinardó","ES",41.4185,2.1677,168092],
+  [255683,"Pátra","GR",38.2444,21.7344,168034],
+  [3130564,"Alcorcón","ES",40.3458,-3.8249,167967],
+  [2498954,"Ech Chettia","DZ",36.1959,1.2554,167955],
+  [1185106,"Jamālpur","BD",24.9197,89.9481,167900],
+  [3463422,"Ferraz de Vasconcelos","BR",-23.5408,-46.3686,167900],
+  [1514210,"Chirchiq","UZ",41.4689,69.5822,167842],
+  [3658192,"Eloy Alfaro","EC",-2.1758,-79.8552,167784],
+  [1805611,"Jingmen","CN",31.0336,112.2047,167750],
+  [577206,"Berezniki","RU",59.4091,56.8204,167748],
+  [2348773,"Awka","NG",6.2127,7.072,167738],
+  [472761,"Volgodonsk","RU",47.5136,42.1514,167731],
+  [2544248,"Khouribga","MA",32.8811,-6.9063,167673],
+  [2758401,"Breda","NL",51.5866,4.776,167673],
+  [670609,"Piteşti","RO",44.85,24.8667,167669],
+  [5357527,"Hollywood","US",34.0983,-118.3267,167664],
+  [2338385,"Ijero-Ekiti","NG",7.8151,5.0672,167632],
+  [1498894,"Miass","RU",55.045,60.1083,167500],
+  [3436043,"Berazategui","AR",-34.7653,-58.2128,167498],
+  [2286304,"Korhogo","CI",9.458,-5.6296,167359],
+  [1512236,"Abakan","RU",53.7156,91.4292,167289],
+  [2864695,"Neukölln","DE",52.4772,13.4313,167248],
+  [1064890,"Fianarantsoa","MG",-21.4527,47.0857,167227],
+  [3121437,"Getafe","ES",40.3057,-3.7329,167164],
+  [1630997,"Plumbon","ID",-6.705,108.4728,167105],
+  [359280,"Banhā","EG",30.4598,31.1842,167029],
+  [518970,"Novocherkassk","RU",47.421,40.0919,166974],
+  [5346111,"Elk Grove","US",38.4088,-121.3716,166913],
+  [4409896,"Springfield","US",37.2153,-93.2982,166810],
+  [4168139,"Pembroke Pines","US",26.0032,-80.2239,166611],
+  [3407327,"Arapiraca","BR",-9.7525,-36.6611,166562],
+  [1810979,"Fuling","CN",29.706,107.3958,166507],
+  [601734,"Daşoguz","TM",41.8363,59.9666,166500],
+  [1271912,"Fatehpur","IN",25.9277,80.8127,166480],
+  [2856883,"Osnabrück","DE",52.2726,8.0498,166462],
+  [2555745,"Beni Mellal","MA",32.3373,-6.3498,166399],
+  [1271717,"Gāndhīdhām","IN",23.0833,70.1333,166388],
+  [6252065,"Nou Barris","ES",41.4416,2.1773,166310],
+  [3631412,"Ocumare del Tuy","VE",10.1182,-66.7751,166072],
+  [1810295,"Gaozhou","CN",21.9392,110.8461,166069],
+  [1860672,"Kamakura","JP",35.3089,139.5503,166016],
+  [2034312,"Ulanhot","CN",46.0833,122.0833,165846],
+  [109323,"Khobar","SA",26.2794,50.2083,165799],
+  [294751,"H̱olon","IL",32.0103,34.7792,165787],
+  [1795928,"Shanwei","CN",22.782,115.3475,165699],
+  [6092122,"Oakville","CA",43.4501,-79.6829,165697],
+  [5292387,"Deer Valley","US",33.6839,-112.1349,165656],
+  [3666645,"Tuluá","CO",4.0847,-76.1954,165501],
+  [2634739,"Warrington","GB",53.3925,-2.5802,165456],
+  [139817,"Bushehr","IR",28.9689,50.8366,165377],
+  [1261927,"Nandyāl","IN",15.478,78.4836,165337],
+  [1853303,"Saga","JP",33.2333,130.3,165236],
+  [3657990,"Esmeraldas","EC",0.9592,-79.654,165216],
+  [1169605,"Muzaffargarh","PK",30.0726,71.1938,165192],
+  [1806096,"Jiaozhou","CN",36.2839,120.0033,165026],
+  [1253952,"Udupi","IN",13.3347,74.7462,165000],
+  [1650227,"Banjaran","ID",-7.0453,107.5878,164952],
+  [715429,"Szeged","HU",46.253,20.1482,164883],
+  [2036920,"Fendou","CN",45.2124,130.9025,164844],
+  [1264773,"Loni","IN",28.7514,77.2902,164810],
+  [1627549,"Serang","ID",-6.1153,106.1542,164767],
+  [3458930,"Lages","BR",-27.8161,-50.3261,164676],
+  [4169171,"Port Saint Lucie","US",27.2939,-80.3503,164603],
+  [5750162,"Salem","US",44.9429,-123.0351,164549],
+  [2661604,"Basel","CH",47.5584,7.5733,164488],
+  [1255969,"Sītāpur","IN",27.5619,80.6827,164435],
+  [3186573,"Zenica","BA",44.2017,17.904,164423],
+  [5911592,"Burlington","CA",43.3862,-79.8371,164415],
+  [2831580,"Solingen","DE",51.1734,7.0845,164359],
+  [1514019,"Fergana","UZ",40.3842,71.7843,164322],
+  [157738,"Kigoma","TZ",-4.8769,29.6267,164268],
+  [1169692,"Muridke","PK",31.8026,74.2577,164246],
+  [5339631,"Corona","US",33.8753,-117.5664,164226],
+  [1256451,"Shivpuri","IN",25.4238,77.6622,164215],
+  [285629,"Ḩawallī","KW",29.3328,48.0286,164212],
+  [3068160,"Pilsen","CZ",49.7475,13.3776,164180],
+  [2337490,"Inisa","NG",7.8486,4.3298,164161],
+  [523064,"Nazran’","RU",43.226,44.7732,164131],
+  [2464915,"Sousse","TN",35.8254,10.637,164123],
+  [2505329,"Bejaïa","DZ",36.7559,5.0843,164103],
+  [3470636,"Barra Mansa","BR",-22.5442,-44.1714,164052],
+  [3456223,"Nossa Senhora do Socorro","BR",-10.855,-37.1261,163993],
+  [1276321,"Bhadrāvati","IN",13.8485,75.705,163903],
+  [2637627,"Slough","GB",51.5095,-0.5954,163777],
+  [1562798,"Vinh","VN",18.6734,105.6923,163759],
+  [2392204,"Parakou","BJ",9.3372,2.6303,163753],
+  [255274,"Piraeus","GR",37.942,23.6462,163688],
+  [1279335,"Ādoni","IN",15.6279,77.275,163631],
+  [2655095,"Bournemouth","GB",50.7205,-1.8795,163600],
+  [268064,"Sidon","LB",33.5575,35.3715,163554],
+  [2441291,"Maradi","NE",13.5,7.1017,163487],
+  [1849796,"Tsu","JP",34.7333,136.5167,163461],
+  [5725846,"Eugene","US",44.0521,-123.0867,163460],
+  [2640354,"Peterborough","GB",52.5736,-0.2478,163379],
+  [1792520,"Tongzhou","CN",39.904,116.6618,163326],
+  [1253237,"Verāval","IN",20.9077,70.3679,163326],
+  [2875376,"Ludwigshafen am Rhein","DE",49.4812,8.4464,163196],
+  [286621,"Şalālah","OM",17.0151,54.0924,163140],
+  [6947641,"Büyükçekmece","TR",41.0207,28.585,163140],
+  [322830,"Aydın","TR",37.845,27.8396,163022],
+  [3682631,"Envigado","CO",6.1759,-75.5917,163007],
+  [379303,"Geneina","SD",13.4526,22.4473,162981],
+  [1818116,"Anbu","CN",23.449,116.6809,162964],
+  [4710178,"McKinney","US",33.1976,-96.6153,162898],
+  [1257542,"Sambalpur","IN",21.4653,83.9757,162887],
+  [2779469,"Floridsdorf","AT",48.25,16.4,162779],
+  [2878234,"Leverkusen","DE",51.0303,6.9843,162738],
+  [2479536,"Skikda","DZ",36.8762,6.9092,162702],
+  [3848950,"La Rioja","AR",-29.411,-66.8507,162620],
+  [1271850,"Gadag","IN",15.4298,75.6297,162569],
+  [2316702,"Boma","CD",-5.851,13.0536,162521],
+  [125446,"Mahābād","IR",36.7631,45.7222,162434],
+  [3526485,"Jiutepec","MX",18.8814,-99.1778,162427],
+  [3464460,"Dourados","BR",-22.2211,-54.8056,162202],
+  [2322794,"Suleja","NG",9.1806,7.1794,162135],
+  [3465196,"Criciúma","BR",-28.6775,-49.3697,161954],
+  [1135689,"Kunduz","AF",36.729,68.857,161902],
+  [3583446,"San Miguel","SV",13.4833,-88.1833,161880],
+  [2323675,"Sapele","NG",5.8941,5.6767,161686],
+  [1253747,"Unnāo","IN",26.5471,80.4878,161671],
+  [3120635,"Hortaleza","ES",40.4744,-3.6411,161661],
+  [1275163,"Budaun","IN",28.0381,79.1267,161555],
+  [3893629,"Coquimbo","CL",-29.9533,-71.3395,161317],
+  [1268907,"Jīnd","IN",29.3158,76.315,161260],
+  [1582173,"Đưc Trọng","VN",11.7356,108.3733,161232],
+  [5577147,"Fort Collins","US",40.5853,-105.0844,161175],
+  [1264543,"Madhyamgram","IN",22.6894,88.4459,161126],
+  [5364940,"Lancaster","US",34.698,-118.1367,161103],
+  [1493467,"Rubtsovsk","RU",51.5147,81.2061,161065],
+  [1907146,"Sayama","JP",35.853,139.4121,160843],
+  [3691674,"Sullana","PE",-4.9039,-80.6853,160789],
+  [370737,"Malakal","SS",9.5334,31.6605,160765],
+  [1571058,"Phan Thiết","VN",10.9289,108.1021,160652],
+  [1577995,"La Gi","VN",10.6599,107.7721,160652],
+  [523812,"Mytishchi","RU",55.9116,37.7308,160542],
+  [1859675,"Kawanishi","JP",34.8167,135.4167,160520],
+  [3530049,"Delegación Cuajimalpa de Morelos","MX",19.3692,-99.2909,160491],
+  [285066,"Hebron","PS",31.5294,35.0938,160470],
+  [1790254,"Xiaogan","CN",30.9269,113.9222,160437],
+  [3584399,"Mejicanos","SV",13.724,-89.188,160317],
+  [1269280,"Jāmuria","IN",23.7047,87.0787,160242],
+  [3988214,"Salamanca","MX",20.572,-101.1915,160169],
+  [3466296,"Chapecó","BR",-27.0964,-52.6183,160157],
+  [1293960,"Taunggyi","MM",20.7892,97.0378,160115],
+  [76184,"Dhamār","YE",14.5427,44.4051,160114],
+  [3874960,"Puerto Montt","CL",-41.4693,-72.9424,160054],
+  [1529279,"Qapqal","CN",43.8019,81.0872,160000],
+  [311111,"İskenderun","TR",36.5872,36.1735,159965],
+  [1853483,"Oyama","JP",36.3,139.8,159936],
+  [499292,"Salavat","RU",53.3837,55.9077,159893],
+  [2243940,"Ziguinchor","SN",12.568,-16.2733,159778],
+  [4459467,"Cary","US",35.7915,-78.7811,159769],
+  [1732745,"Skudai","MY",1.5374,103.6578,159733],
+  [1865005,"Ashikaga","JP",36.3333,139.45,159671],
+  [288764,"Bawshar","OM",23.5777,58.3998,159487],
+  [7483743,"Puthia","BD",24.3654,88.8343,159406],
+  [1784554,"Zhicheng","CN",30.2956,111.5047,159383],
+  [1638284,"Lawang","ID",-7.8353,112.6947,159380],
+  [3538803,"San Miguel del Padrón","CU",23.0954,-82.3267,159273],
+  [3903320,"Tarija","BO",-21.5355,-64.7296,159269],
+  [2857458,"Oldenburg","DE",53.1412,8.2147,159218],
+  [549479,"Khoroshëvo-Mnevniki","RU",55.7836,37.4714,159000],
+  [576432,"Bibirevo","RU",55.8833,37.6,159000],
+  [1839652,"Osan","KR",37.1522,127.0706,158978],
+  [3173331,"Modena","IT",44.6478,10.9254,158886],
+  [2750053,"Nijmegen","NL",51.8425,5.8528,158732],
+  [7284820,"Jaigaon","IN",26.8477,89.3756,158664],
+  [1632033,"Pasuruan","ID",-7.6453,112.9075,158600],
+  [1273802,"Cuddalore","IN",11.7562,79.7669,158569],
+  [3014728,"Grenoble","FR",45.1787,5.7148,158552],
+  [91597,"Sāmarrā’","IQ",34.1959,43.8857,158508],
+  [2653941,"Cambridge","GB",52.2,0.1167,158434],
+  [759734,"Rzeszów","PL",50.0413,21.999,158382],
+  [5317071,"Tempe Junction","US",33.4142,-111.9435,158368],
+  [5380698,"Palmdale","US",34.5794,-118.1165,158351],
+  [2498766,"El Achir","DZ",36.0639,4.6274,158333],
+  [1806535,"Huzhou","CN",30.8703,120.0933,158320],
+  [3470583,"Barreiras","BR",-12.1528,-44.99,158292],
+  [5355933,"Hayward","US",37.6688,-122.0808,158289],
+  [1261039,"Orai","IN",25.9902,79.4533,158265],
+  [1575627,"Long Xuyên","VN",10.3864,105.4352,158153],
+  [3746183,"Centro Habana","CU",23.1383,-82.3642,158151],
+  [1269937,"Hoshiārpur","IN",31.5372,75.9127,158142],
+  [2651123,"Doncaster","GB",53.5229,-1.1312,158141],
+  [3985604,"San Luis Río Colorado","MX",32.4561,-114.7719,158089],
+  [3519537,"San Cristóbal de las Casas","MX",16.7318,-92.6413,158027],
+  [560465,"Gol’yanovo","RU",55.823,37.8131,158000],
+  [701404,"Melitopol","UA",46.8489,35.3653,158000],
+  [3387296,"Sobral","BR",-3.6861,-40.3497,157996],
+  [1213614,"Sunggal","ID",3.5765,98.6151,157914],
+  [8504953,"Admiralteisky","RU",59.9084,30.2848,157897],
+  [5964700,"Greater Sudbury","CA",46.49,-80.99,157857],
+  [347591,"Ţalkhā","EG",31.0539,31.3779,157737],
+  [7645166,"San Miguel","AR",-34.5433,-58.7123,157532],
+  [5391295,"Salinas","US",36.6777,-121.6555,157380],
+  [6544488,"San Blas-Canillejas","ES",40.4389,-3.6154,157367],
+  [1214191,"Perbaungan","ID",3.5679,98.956,157174],
+  [1260692,"Pallāvaram","IN",12.968,80.1503,157145],
+  [2014006,"Ussuriysk","RU",43.8029,131.9458,157068],
+  [2035644,"Nanpiao","CN",41.0982,120.7479,157044],
+  [617239,"Tiraspol","MD",46.8427,29.6291,157000],
+  [153209,"Moshi","TZ",-3.35,37.3333,156959],
+  [1681602,"Toledo","PH",10.3773,123.6386,156916],
+  [1165108,"Shikarpur","PK",27.9556,68.6382,156901],
+  [940316,"Westonaria","ZA",-26.319,27.6486,156831],
+  [1857550,"Matsue","JP",35.4833,133.05,156811],
+  [6822096,"Hitachi-Naka","JP",36.3966,140.5348,156811],
+  [2479215,"Souk Ahras","DZ",36.2864,7.9511,156745],
+  [2325590,"Osogbo","NG",7.771,4.557,156694],
+  [1831142,"Sihanoukville","KH",10.6093,103.5296,156691],
+  [3046526,"Pécs","HU",46.0725,18.2308,156649],
+  [727523,"Ruse","BG",43.8487,25.9534,156238],
+  [1732687,"Batu Pahat","MY",1.8548,102.9325,156236],
+  [3518135,"San Pablo de las Salinas","MX",19.6666,-99.0948,156191],
+  [1152473,"Lampang","TH",18.2923,99.4928,156139],
+  [1856184,"Nagareyama","JP",35.8563,139.9027,156000],
+  [2548880,"Fès al Bali","MA",34.0701,-4.9547,156000],
+  [2112312,"Katsuta","JP",36.3833,140.5333,155968],
+  [2309527,"Malabo","GQ",3.7558,8.7817,155963],
+  [1858428,"Kumagaya","JP",36.135,139.39,155813],
+  [2294700,"Tema","GH",5.6698,-0.0166,155782],
+  [2033413,"Yichun","CN",47.7214,128.8753,155762],
+  [3460845,"Itajaí","BR",-26.9078,-48.6619,155716],
+  [6621166,"Seogwipo","KR",33.2533,126.5618,155691],
+  [1270407,"Hanumāngarh","IN",29.5818,74.3294,155687],
+  [3111108,"Salamanca","ES",40.9688,-5.6639,155619],
+  [783920,"Zemun","RS",44.8458,20.4012,155591],
+  [2334327,"Kisi","NG",9.083,3.852,155510],
+  [3461408,"Ilhéus","BR",-14.7936,-39.0395,155499],
+  [1712051,"Guyong","PH",14.8361,120.9784,155391],
+  [1841603,"Gyeongju","KR",35.8428,129.2117,155237],
+  [934154,"Port Louis","MU",-20.1619,57.4989,155226],
+  [1268159,"Kanchipuram","IN",12.8352,79.7001,155029],
+  [1919014,"Lianghu","CN",29.9915,120.8985,155000],
+  [3108118,"Tetuán de las Victorias","ES",40.4598,-3.6975,155000],
+  [2038342,"Beipiao","CN",41.7919,120.7792,154999],
+  [1809879,"Guangshui","CN",31.6199,113.9978,154771],
+  [976361,"Middelburg","ZA",-25.7751,29.4648,154706],
+  [1062663,"Mahajanga","MG",-15.7167,46.3167,154657],
+  [532615,"Lyubertsy","RU",55.6772,37.8932,154650],
+  [217562,"Butembo","CD",0.1416,29.2912,154621],
+  [3884373,"La Serena","CL",-29.9045,-71.2489,154521],
+  [1804153,"Leshan","CN",29.5623,103.7639,154477],
+  [216449,"Gandajika","CD",-6.745,23.9533,154425],
+  [4692559,"Frisco","US",33.1507,-96.8236,154407],
+  [2033168,"Zhaodong","CN",46.0677,125.9826,154406],
+  [295514,"Bnei Brak","IL",32.0807,34.8338,154400],
+  [3660689,"Ambato","EC",-1.2491,-78.6167,154369],
+  [3529982,"Cuautla","MX",18.8106,-98.9352,154358],
+  [4951788,"Springfield","US",42.1015,-72.5898,154341],
+  [2500017,"Djelfa","DZ",34.6728,3.263,154265],
+  [1632228,"Pasarkemis","ID",-6.1703,106.5303,154234],
+  [543460,"Kovrov","RU",56.3572,41.3192,154224],
+  [298033,"Viranşehir","TR",37.2235,39.7552,154163],
+  [1849892,"Tottori","JP",35.5,134.2333,154098],
+  [3511540,"San Cristóbal","DO",18.4167,-70.1,154040],
+  [4619947,"East Chattanooga","US",35.0654,-85.2491,154024],
+  [1788450,"Xinzhou","CN",38.4092,112.7333,154003],
+  [146384,"Limassol","CY",34.6841,33.0379,154000],
+  [336014,"Gondar","ET",12.6,37.4667,153914],
+  [4717782,"Pasadena","US",29.6911,-95.2091,153784],
+  [1279064,"Alandur","IN",13.0025,80.2061,153775],
+  [3174659,"Livorno","IT",43.5443,10.3262,153773],
+  [3838874,"Río Cuarto","AR",-33.1307,-64.3499,153757],
+  [2633352,"York","GB",53.9576,-1.0827,153717],
+  [1789273,"Sanshui","CN",23.1549,112.8916,153714],
+  [1270711,"Guna","IN",24.6469,77.3113,153689],
+  [1177384,"Hafizabad","PK",32.071,73.688,153656],
+  [2756071,"Enschede","NL",52.2183,6.8958,153655],
+  [3472177,"Angra dos Reis","BR",-23.0067,-44.3181,153635],
+  [1277835,"Bahādurgarh","IN",28.6929,76.9356,153613],
+  [1816265,"Boshan","CN",36.4833,117.8333,153596],
+  [1814786,"Yangchun","CN",22.1667,111.7833,153547],
+  [1276100,"Bharūch","IN",21.6948,72.9805,153528],
+  [4744091,"Alexandria","US",38.8048,-77.0469,153511],
+  [2766824,"Salzburg","AT",47.7994,13.044,153377],
+  [3456166,"Nova Friburgo","BR",-22.2819,-42.5311,153361],
+  [1263220,"Medinīpur","IN",22.4211,87.3226,153349],
+  [5384170,"Pomona","US",34.0553,-117.7523,153266],
+  [3943789,"Chincha Alta","PE",-13.4098,-76.1323,153076],
+  [2172797,"Cairns","AU",-16.9237,145.7661,153075],
+  [1271976,"Fyzābād","IN",26.7755,82.1502,153047],
+  [1273581,"Dinapore","IN",25.6371,85.0479,152940],
+  [1803422,"Linhai","CN",28.8554,121.1447,152937],
+  [1812728,"Dingzhou","CN",38.5131,114.9956,152934],
+  [3450909,"Rondonópolis","BR",-16.4708,-54.6356,152912],
+  [98530,"As Samawah","IQ",31.332,45.2944,152890],
+  [298299,"Uşak","TR",38.6735,29.4058,152862],
+  [1513886,"Jizzax","UZ",40.1234,67.8284,152642],
+  [2190324,"Hamilton","NZ",-37.7833,175.2833,152641],
+  [4566880,"Ponce","PR",18.0103,-66.624,152634],
+  [5143307,"Washington Heights","US",40.8501,-73.9354,152613],
+  [5427946,"Lakewood","US",39.7047,-105.0814,152597],
+  [1791673,"Weihai","CN",37.5091,122.1136,152595],
+  [97990,"Baqubah","IQ",33.754,44.6052,152550],
+  [2864118,"Neuss","DE",51.1981,6.685,152457],
+  [1815302,"Chenghua","CN",23.4613,116.7701,152453],
+  [1869446,"Songnim","KP",38.7542,125.645,152425],
+  [1256287,"Silchar","IN",24.8273,92.7979,152393],
+  [1277397,"Bānda","IN",25.4776,80.3349,152218],
+  [324496,"Aksaray","TR",38.3725,34.0254,152201],
+  [1586296,"Cần Giuộc","VN",10.6086,106.6714,152200],
+  [6693228,"Balvanera","AR",-34.6103,-58.3977,152198],
+  [1812961,"Deyang","CN",31.1302,104.382,152194],
+  [1786746,"Yichun","CN",27.8333,114.4,152169],
+  [3118150,"Logroño","ES",42.4667,-2.45,152107],
+  [1853677,"Ōta","JP",36.3,139.3667,152104],
+  [2035980,"Longfeng","CN",46.5317,125.1038,152074],
+  [1262771,"Morena","IN",26.4989,77.9953,152004],
+  [487150,"Strogino","RU",55.8184,37.4122,152000],
+  [1588275,"Bảo Lộc","VN",11.548,107.8077,151915],
+  [667268,"Sibiu","RO",45.8,24.15,151894],
+  [4003757,"Ciudad Benito Juárez","MX",25.6472,-100.0958,151893],
+  [5400075,"Sunnyvale","US",37.3688,-122.0363,151754],
+  [3640465,"Guacara","VE",10.2261,-67.877,151752],
+  [5881791,"Abbotsford","CA",49.058,-122.2526,151683],
+  [1737486,"Bintulu","MY",3.1667,113.0333,151617],
+  [3460748,"Itapecerica da Serra","BR",-23.7169,-46.8492,151605],
+  [5346827,"Escondido","US",33.1192,-117.0864,151451],
+  [1173491,"Kohat","PK",33.582,71.4493,151427],
+  [1254241,"Tonk","IN",26.1664,75.7882,151331],
+  [4273837,"Kansas City","US",39.1142,-94.6275,151306],
+  [1797945,"Qingyuan","CN",23.7,113.0333,151287],
+  [3531023,"Chetumal","MX",18.5141,-88.3038,151243],
+  [117392,"Saqqez","IR",36.2499,46.2735,151237],
+  [3351663,"Benguela","AO",-12.5763,13.4055,151226],
+  [1858926,"Komaki","JP",35.2833,136.9167,151025],
+  [3641351,"El Tigre","VE",8.889,-64.2527,150999],
+  [1626560,"Soreang","ID",-7.0331,107.5183,150932],
+  [3461879,"Guarapuava","BR",-25.3905,-51.4654,150850],
+  [1810458,"Gaomi","CN",36.3833,119.7528,150793],
+  [1258831,"Rāj-Nāndgaon","IN",21.0969,81.0289,150755],
+  [1802238,"Loudi","CN",27.7344,111.9944,150684],
+  [2511401,"La Laguna","ES",28.4853,-16.3201,150661],
+  [1854703,"Ōgaki","JP",35.35,136.6167,150570],
+  [7279570,"Higashimurayama","JP",35.7546,139.4685,150556],
+  [7302856,"Serilingampalle","IN",17.4931,78.302,150525],
+  [1807143,"Huangyan","CN",28.6501,121.2659,150448],
+  [1831797,"Battambang","KH",13.1027,103.1982,150444],
+  [3895088,"Chillán","CL",-36.6066,-72.1034,150396],
+  [1253133,"Virār","IN",19.4559,72.8114,150357],
+  [3392998,"Parnamirim","BR",-5.9156,-35.2628,150343],
+  [1729085,"Bago City","PH",10.5333,122.8333,150250],
+  [1630333,"Purwodadi","ID",-7.0868,110.9158,150206],
+  [3992619,"Piedras Negras","MX",28.7001,-100.5235,150178],
+  [307084,"Kızıltepe","TR",37.1884,40.5772,150174],
+  [5107464,"Astoria","US",40.7721,-73.9301,150165],
+  [1512473,"Urganch","UZ",41.55,60.6333,150110],
+  [579464,"Balashikha","RU",55.8095,37.9581,150103],
+  [2640101,"Poole","GB",50.7143,-1.9846,150092],
+  [2648404,"Gloucester","GB",51.8657,-2.2431,150053],
+  [942470,"Vryheid","ZA",-27.7695,30.7917,150012],
+  [2490098,"Mascara","DZ",35.3966,0.1403,150000],
+  [7302828,"Malkajgiri","IN",17.4478,78.5263,150000],
+  [1842944,"Gimcheon","KR",36.1218,128.1198,150000],
+  [1163198,"Tordher","PK",33.9905,72.2863,150000],
+  [462745,"Zhulebino","RU",55.7,37.85,150000],
+  [1645457,"Dili","TL",-8.5586,125.5736,150000],
+  [1256639,"Shāntipur","IN",23.2472,88.433,149983],
+  [3521342,"Playa del Carmen","MX",20.6274,-87.0799,149923],
+  [3021372,"Dijon","FR",47.3167,5.0167,149782],
+  [4158928,"Hollywood","US",26.0112,-80.1495,149728],
+  [6544494,"City Center","ES",40.4183,-3.7027,149718],
+  [1635283,"Metro","ID",-5.1131,105.3067,149526],
+  [2654264,"Burnley","GB",53.8,-2.2333,149422],
+  [1854162,"Ōme","JP",35.7839,139.2431,149323],
+  [2525473,"Cagliari","IT",39.2305,9.1192,149257],
+  [5109790,"Borough Park","US",40.634,-73.9968,149248],
+  [2666199,"Uppsala","SE",59.8588,17.6389,149245],
+  [4613868,"Clarksville","US",36.5298,-87.3594,149176],
+  [2646458,"Huddersfield","GB",53.649,-1.7842,149017],
+  [706524,"Kerch","UA",45.3568,36.4754,148932],
+  [2852217,"Prenzlauer Berg","DE",52.5388,13.4244,148878],
+  [124721,"Marvdasht","IR",29.8742,52.8025,148858],
+  [2037534,"Dunhua","CN",43.3725,128.2425,148844],
+  [2516548,"Huelva","ES",37.2664,-6.94,148806],
+  [6544487,"Arganzuela","ES",40.4002,-3.6962,148797],
+  [919009,"Chingola","ZM",-12.529,27.8838,148564],
+  [108512,"Arar","SA",30.9753,41.0381,148540],
+  [1785781,"Yulin","CN",22.6333,110.15,148485],
+  [5403022,"Torrance","US",33.8359,-118.3406,148475],
+  [5405288,"Valencia","US",34.4436,-118.6095,148456],
+  [616635,"Gyumri","AM",40.7942,43.8453,148381],
+  [1814934,"Chizhou","CN",30.6613,117.4778,148375],
+  [1856584,"Moriguchi","JP",34.7333,135.5667,148350],
+  [2521420,"Badajoz","ES",38.8779,-6.9706,148334],
+  [4907959,"Rockford","US",42.2711,-89.094,148278],
+  [3642833,"El Limón","VE",10.3059,-67.6321,148247],
+  [1637158,"Lubuklinggau","ID",-3.2945,102.8614,148243],
+  [2990363,"Nîmes","FR",43.8338,4.3596,148236],
+  [1277100,"Bārākpur","IN",22.766,88.3634,148174],
+  [1633118,"Palangkaraya","ID",-2.2083,113.9167,148139],
+  [2034638,"Sujiatun","CN",41.6592,123.3392,148113],
+  [3402383,"Caxias","BR",-4.8589,-43.3561,148072],
+  [1580410,"Hạ Long","VN",20.9505,107.0734,148066],
+  [1651112,"Astanajapura","ID",-6.8017,108.6311,148047],
+  [2492913,"Jijel","DZ",36.821,5.7635,148000],
+  [4756955,"East Hampton","US",37.0374,-76.3316,147993],
+  [3345439,"Telford","GB",52.6766,-2.4493,147980],
+  [2036876,"Honggang","CN",46.4012,124.8832,147977],
+  [3696417,"Huánuco","PE",-9.9306,-76.2422,147959],
+  [6544102,"Sarrià-Sant Gervasi","ES",41.401,2.1394,147912],
+  [4898015,"Joliet","US",41.5252,-88.0834,147861],
+  [5102466,"Paterson","US",40.9168,-74.1718,147754],
+  [3110876,"Sant Andreu","ES",41.4354,2.1898,147732],
+  [2650752,"Dundee","GB",56.4691,-2.9749,147710],
+  [2488835,"Médéa","DZ",36.2642,2.7539,147707],
+  [6544491,"Salamanca","ES",40.4297,-3.6797,147707],
+  [546230,"Kolomna","RU",55.0794,38.7783,147690],
+  [118994,"Rafsanjān","IR",30.4067,55.9939,147680],
+  [6545326,"Ursynów","PL",52.1505,21.0504,147676],
+  [3173529,"Mestre","IT",45.4917,12.2454,147662],
+  [285704,"As Sālimīyah","KW",29.3339,48.0761,147649],
+  [5282804,"Bridgeport","US",41.1792,-73.1894,147629],
+  [2755003,"Haarlem","NL",52.3808,4.6368,147590],
+  [1609776,"Khon Kaen","TH",16.4467,102.833,147579],
+  [2550078,"El Jadid","MA",33.2568,-8.5088,147549],
+  [2884161,"Kreuzberg","DE",52.4997,13.4034,147532],
+  [789128,"Kragujevac","RS",44.0167,20.9167,147473],
+  [610612,"Aktau","KZ",43.65,51.1667,147443],
+  [3456290,"Nilópolis","BR",-22.8075,-43.4139,147281],
+  [1272013,"Erode","IN",11.3428,77.7274,147270],
+  [3133880,"Trondheim","NO",63.4305,10.3951,147139],
+  [4903279,"Naperville","US",41.7859,-88.1473,147100],
+  [290340,"Manama","BH",26.2279,50.5857,147074],
+  [1586896,"Buôn Ma Thuột","VN",12.6675,108.0378,146975],
+  [214974,"Kalemie","CD",-5.9475,29.1947,146974],
+  [2019528,"Nakhodka","RU",42.8138,132.8735,146920],
+  [665004,"Târgu-Mureş","RO",46.5425,24.5575,146863],
+  [233346,"Gulu","UG",2.7746,32.299,146858],
+  [3038354,"Aix-en-Provence","FR",43.5283,5.4497,146821],
+  [1278860,"Ambāla","IN",30.361,76.7978,146787],
+  [1586350,"Cam Ranh","VN",11.9214,109.1591,146771],
+  [3547398,"Matanzas","CU",23.0411,-81.5775,146733],
+  [8533870,"Saint-Quentin-en-Yvelines","FR",48.7719,2.0189,146598],
+  [3453303,"Poços de Caldas","BR",-21.7878,-46.5614,146588],
+  [2655524,"Blackburn","GB",53.75,-2.4833,146521],
+  [3171457,"Parma","IT",44.7993,10.3262,146299],
+  [3086800,"Ruda Śląska","PL",50.2584,18.8563,146189],
+  [325303,"Afyonkarahisar","TR",38.7567,30.5433,146136],
+  [890422,"Gweru","ZW",-19.45,29.8167,146073],
+  [1797318,"Qujing","CN",25.4833,103.7833,146015],
+  [3493175,"Puerto Plata","DO",19.7934,-70.6884,146000],
+  [5586437,"Boise","US",43.6135,-116.2034,145987],
+  [1808857,"Hanzhong","CN",33.0751,107.0221,145986],
+  [6544492,"Chamberí","ES",40.434,-3.7038,145934],
+  [2615876,"Odense","DK",55.3959,10.3883,145931],
+  [1265859,"Krishnanagar","IN",23.4058,88.4907,145926],
+  [1788816,"Xinji","CN",37.9028,115.2036,145911],
+  [3395503,"Marabá","BR",-5.3815,-49.1323,145860],
+  [967476,"Orkney","ZA",-26.9802,26.6727,145801],
+  [1257804,"Saharsa","IN",25.875,86.5961,145764],
+  [4221552,"Savannah","US",32.0835,-81.0998,145674],
+  [1732721,"Kampung Pasir Gudang Baru","MY",1.4726,103.878,145639],
+  [1646698,"Cikampek","ID",-6.4197,107.4558,145620],
+  [1848689,"Yamaguchi","JP",34.1833,131.4667,145515],
+  [1276720,"Batāla","IN",31.8092,75.2029,145468],
+  [1793700,"Taishan","CN",22.2514,112.7799,145440],
+  [2852458,"Potsdam","DE",52.3989,13.0657,145292],
+  [149658,"Tabora","TZ",-5.0162,32.8266,145292],
+  [3435261,"Concordia","AR",-31.393,-58.0209,145210],
+  [3488465,"Spanish Town","JM",17.9911,-76.9574,145018],
+  [1175864,"Jhelum","PK",32.9345,73.731,145000],
+  [3030300,"Brest","FR",48.3903,-4.4863,144899],
+  [1514879,"Khujand","TJ",40.2826,69.6222,144865],
+  [2656194,"Basildon","GB",51.5684,0.4578,144859],
+  [4710826,"Mesquite","US",32.7668,-96.5992,144788],
+  [2451185,"Sikasso","ML",11.3176,-5.6665,144786],
+  [1796556,"Sanya","CN",18.2431,109.505,144753],
+  [2038679,"Acheng","CN",45.5455,126.977,144665],
+  [258576,"Lárisa","GR",39.6369,22.4176,144651],
+  [3618030,"León","NI",12.4379,-86.878,144538],
+  [3003603,"Le Mans","FR",48.0004,0.2047,144515],
+  [2229752,"Kumba","CM",4.6363,9.4469,144413],
+  [563523,"Elektrostal’","RU",55.7896,38.4467,144387],
+  [1805733,"Jinchang","CN",38.5006,102.1938,144363],
+  [1800779,"Meizhou","CN",24.2886,116.1177,144212],
+  [1643837,"Gorontalo","ID",0.5375,123.0625,144195],
+  [5140405,"Syracuse","US",43.0481,-76.1474,144142],
+  [216281,"Goma","CD",-1.6741,29.2285,144124],
+  [528293,"Maykop","RU",44.6078,40.1058,144055],
+  [2294665,"Teshi Old Town","GH",5.5836,-0.1072,144013],
+  [2475744,"Tizi Ouzou","DZ",36.7118,4.0459,144000],
+  [576279,"Biryulëvo","RU",55.5864,37.6778,144000],
+  [6418220,"Orekhovo-Borisovo","RU",55.6125,37.7264,144000],
+  [755330,"Wola","PL",52.2401,20.9887,143996],
+  [354502,"Kafr ash Shaykh","EG",31.1117,30.9399,143970],
+  [630376,"Barysaw","BY",54.2279,28.505,143919],
+  [2128574,"Otaru","JP",43.1894,141.0022,143792],
+  [1645133,"Dumai","ID",1.6671,101.4432,143760],
+  [1849186,"Urayasu","JP",35.6706,139.8886,143758],
+  [3649833,"Acarigua","VE",9.5545,-69.1956,143704],
+  [6137270,"Saguenay","CA",48.4168,-71.0657,143692],
+  [1701053,"Marawi City","PH",8.0034,124.284,143627],
+  [3458329,"Luziânia","BR",-16.2525,-47.9503,143601],
+  [726848,"Stara Zagora","BG",42.4328,25.6419,143431],
+  [2505530,"Béchar","DZ",31.6167,-2.2167,143382],
+  [2907911,"Heidelberg","DE",49.4077,8.6908,143345],
+  [2407790,"Kenema","SL",7.8769,-11.1902,143137],
+  [3404545,"Cabo","BR",-8.2833,-35.0333,143105],
+  [3037854,"Amiens","FR",49.9,2.3,143086],
+  [3897347,"Calama","CL",-22.4567,-68.9237,143084],
+  [3458266,"Macaé","BR",-22.3848,-41.7832,143029],
+  [2302357,"Cape Coast","GH",5.1053,-1.2466,143015],
+  [517121,"Novyye Kuz’minki","RU",55.7,37.75,143000],
+  [537832,"Kuz’minki","RU",55.7,37.8,143000],
+  [1275947,"Bhīmavaram","IN",16.5408,81.5232,142967],
+  [503550,"Pyatigorsk","RU",44.0486,43.0594,142865],
+  [2642607,"Middlesbrough","GB",54.5762,-1.2348,142707],
+  [3086586,"Rybnik","PL",50.0971,18.5418,142510],
+  [1213547,"Tanjungbalai","ID",2.9667,99.8,142506],
+  [352951,"Mallawī","EG",27.7326,30.8413,142504],
+  [4333190,"Metairie Terrace","US",29.9785,-90.164,142489],
+  [3188582,"Tuzla","BA",44.5384,18.6671,142486],
+  [1174167,"Khanpur","PK",28.6474,70.6569,142426],
+  [1337240,"Nawābganj","BD",24.5903,88.2744,142361],
+  [5381396,"Pasadena","US",34.1478,-118.1445,142250],
+  [1805528,"Jinhua","CN",29.1068,119.6442,142206],
+  [2855745,"Paderborn","DE",51.7191,8.7544,142161],
+  [990930,"Kimberley","ZA",-28.7323,24.7623,142089],
+  [3564178,"Ciego de Ávila","CU",21.84,-78.7619,142027],
+  [6418146,"Chertanovo Yuzhnoye","RU",55.5907,37.5952,142000],
+  [1805844,"Jieshou","CN",33.2634,115.3611,141993],
+  [1818223,"Yuen Long Kau Hui","HK",22.45,114.0333,141900],
+  [2529317,"Taza","MA",34.21,-4.01,141890],
+  [1005646,"eMbalenhle","ZA",-26.5333,29.0667,141741],
+  [1307835,"Myingyan","MM",21.46,95.3884,141713],
+  [2759661,"Arnhem","NL",51.98,5.9111,141674],
+  [463355,"Zheleznodorozhnyy","RU",55.744,38.0168,141648],
+  [3979802,"Zamora","MX",19.9855,-102.2839,141627],
+  [2972191,"Tours","FR",47.3948,0.704,141621],
+  [3591415,"Petapa","GT",14.5019,-90.562,141455],
+  [1277508,"Bālurghāt","IN",25.221,88.7773,141404],
+  [3461563,"Ibirité","BR",-20.0219,-44.0589,141374],
+  [1848277,"Yonago","JP",35.4333,133.3333,141368],
+  [2655237,"Bolton","GB",53.5833,-2.4333,141331],
+  [6317464,"Lauro de Freitas","BR",-12.8944,-38.3272,141280],
+  [3907584,"Potosí","BO",-19.5836,-65.7531,141251],
+  [1173664,"Khuzdar","PK",27.8119,66.611,141227],
+  [6544490,"Usera","ES",40.3887,-3.7003,141189],
+  [2998286,"Limoges","FR",45.8336,1.2476,141176],
+  [3191648,"Rijeka","HR",45.3267,14.4424,141172],
+  [3455070,"Paranaguá","BR",-25.5163,-48.5254,141013],
+  [1141269,"Ghazni","AF",33.5539,68.421,141000],
+  [5379513,"Orange","US",33.7878,-117.8531,140992],
+  [130802,"Īlām","IR",33.6374,46.4227,140940],
+  [2037222,"Gongzhuling","CN",43.5007,124.8198,140909],
+  [3530240,"Córdoba","MX",18.8842,-96.9256,140896],
+  [3860443,"Comodoro Rivadavia","AR",-45.8641,-67.4966,140850],
+  [1764160,"Kampung Sungai Ara","MY",5.327,100.2735,140849],
+  [5351247,"Fullerton","US",33.8703,-117.9253,140847],
+  [4703223,"Killeen","US",31.1171,-97.7278,140806],
+  [1497337,"Norilsk","RU",69.3535,88.2027,140800],
+  [970566,"Nigel","ZA",-26.4314,28.4771,140644],
+  [3633622,"Los Teques","VE",10.3445,-67.0432,140617],
+  [1268593,"Kaithal","IN",29.8015,76.3996,140604],
+  [4509884,"Dayton","US",39.759,-84.1916,140599],
+  [582432,"Al’met’yevsk","RU",54.9044,52.3154,140437],
+  [2938913,"Darmstadt","DE",49.8717,8.6503,140385],
+  [1215957,"Tirmiz","UZ",37.2242,67.2783,140385],
+  [3108288,"Tarragona","ES",41.1167,1.25,140323],
+  [4709796,"McAllen","US",26.2034,-98.23,140269],
+  [1265242,"Lakhīmpur","IN",27.9482,80.7793,140223],
+  [973111,"Mpumalanga","ZA",-29.8129,30.6365,140121],
+  [2744114,"Zaanstad","NL",52.4531,4.8136,140085],
+  [1270164,"Hazāribāgh","IN",23.9924,85.3616,140063],
+  [11468429,"Kuwana","JP",35.0519,136.6696,140051],
+  [1253200,"Vidisha","IN",23.526,77.8109,140045],
+  [3947019,"Ayacucho","PE",-13.1588,-74.2232,140033],
+  [5927690,"Coquitlam","CA",49.2846,-122.7822,140000],
+  [2034996,"Shanhaiguan","CN",40.0025,119.7489,140000],
+  [10277901,"Tutamandahostel","EC",-0.1973,-78.4975,140000],
+  [3125239,"Chamartín","ES",40.4621,-3.6766,140000],
+  [1632353,"Parepare","ID",-4.0135,119.6255,140000],
+  [255524,"Peristéri","GR",38.0154,23.6919,139981],
+  [2759821,"Amersfoort","NL",52.155,5.3875,139914],
+  [11695689,"Jeongeup","KR",35.6,126.917,139876],
+  [5786882,"Bellevue","US",47.6104,-122.2007,139820],
+  [554233,"Korolev","RU",55.9142,37.8256,139798],
+  [1180809,"Dadu","PK",26.7303,67.7769,139784],
+  [1178231,"Gojra","PK",31.1493,72.6832,139726],
+  [2675408,"Sollentuna","SE",59.428,17.9509,139606],
+  [1270498,"Haldwani","IN",29.2225,79.5286,139497],
+  [2341355,"Gbongan","NG",7.4773,4.3535,139485],
+  [1822214,"Siem Reap","KH",13.3618,103.8606,139458],
+  [2284647,"Man","CI",7.4125,-7.5538,139341],
+  [1529651,"Altay","CN",47.8486,88.1336,139341],
+  [1270568,"Hābra","IN",22.842,88.6561,139297],
+  [1265683,"Kumbakonam","IN",10.9621,79.3912,139264],
+  [1627253,"Sidoarjo","ID",-7.4478,112.7183,139189],
+  [412800,"Şabāḩ as Sālim","KW",29.2572,48.0572,139163],
+  [1860034,"Kariya","JP",34.9833,136.9833,139159],
+  [3613533,"Choloma","HN",15.6144,-87.953,139100],
+  [2636882,"Stockport","GB",53.4098,-2.1576,139052],
+  [7284824,"Budapest XI. kerület","HU",47.476,19.0361,139049],
+  [2036776,"Huadian","CN",42.9633,126.7478,139047],
+  [1621613,"Weru","ID",-6.711,108.5037,139004],
+  [2654710,"Brighton","GB",50.8284,-0.1395,139001],
+  [546105,"Kolpino","RU",59.7507,30.5886,138979],
+  [3436077,"Belgrano","AR",-34.5627,-58.4583,138942],
+  [3518692,"San Juan del Río","MX",20.3889,-99.9958,138878],
+  [2295458,"Sekondi-Takoradi","GH",4.9268,-1.7577,138872],
+  [1259395,"Porbandar","IN",21.6422,69.6093,138872],
+  [2037335,"Fuyu","CN",45.1833,124.8167,138704],
+  [3024635,"Clermont-Ferrand","FR",45.7797,3.0868,138681],
+  [1274056,"Chitradurga","IN",14.2226,76.4004,138587],
+  [4333177,"Metairie","US",29.9841,-90.1528,138481],
+  [1815427,"Chaohu","CN",31.6,117.8667,138463],
+  [2343784,"Ejigbo","NG",7.9029,4.3142,138357],
+  [1254657,"Thānesar","IN",29.9732,76.8321,138279],
+  [1254327,"Tiruvannāmalai","IN",12.2266,79.0746,138243],
+  [1278685,"Anand","IN",22.5525,72.9552,138009],
+  [3393001,"Parnaíba","BR",-2.9047,-41.7767,138008],
+  [3723779,"Jacmel","HT",18.2343,-72.5354,137966],
+  [2296606,"Obuase","GH",6.2023,-1.668,137856],
+  [3460535,"Itu","BR",-23.2642,-47.2992,137586],
+  [358172,"Dikirnis","EG",31.089,31.5948,137542],
+  [1856367,"Musashino","JP",35.7061,139.5594,137479],
+  [1805857,"Jieshi","CN",22.8103,115.8306,137444],
+  [3402591,"Castanhal","BR",-1.2939,-47.9264,137406],
+  [4013516,"Colima","MX",19.25,-103.7271,137383],
+  [1019330,"Bhisho","ZA",-32.8472,27.4422,137287],
+  [1233369,"Negombo","LK",7.2083,79.8358,137223],
+  [935264,"Saint-Denis","RE",-20.8823,55.4504,137195],
+  [261745,"Irákleion","GR",35.3279,25.1434,137154],
+  [4164601,"Miramar","US",25.9873,-80.2323,137132],
+  [7303248,"Jiashan","CN",30.8492,120.9258,137112],
+  [1529484,"Hami","CN",42.8339,93.506,137072],
+  [516215,"Odintsovo","RU",55.678,37.2777,137041],
+  [3176885,"Foggia","IT",41.4585,15.5519,137032],
+  [1268715,"Kānchrāpāra","IN",22.96,88.4285,136954],
+  [3589885,"San Juan Sacatepéquez","GT",14.7189,-90.6442,136886],
+  [2342490,"Funtua","NG",11.5235,7.3117,136811],
+  [1293625,"Dawei","MM",14.0823,98.1915,136783],
+  [2338711,"Igboho","NG",8.8378,3.7563,136764],
+  [2759706,"Apeldoorn","NL",52.21,5.9694,136670],
+  [1794806,"Shizuishan","CN",39.2333,106.7694,136570],
+  [685826,"Baia Mare","RO",47.6573,23.5681,136553],
+  [1709968,"Kabankalan","PH",9.9839,122.8142,136483],
+  [3193044,"Podgorica","ME",42.4411,19.2636,136473],
+  [4762894,"Hampton","US",37.0299,-76.3452,136454],
+  [3449324,"São Caetano do Sul","BR",-23.6231,-46.5511,136453],
+  [5405693,"Van Nuys","US",34.1867,-118.449,136443],
+  [5784607,"West Valley City","US",40.6916,-112.001,136208],
+  [1810240,"Gejiu","CN",23.3609,103.1537,136135],
+  [1264407,"Mahbūbnagar","IN",16.7438,77.986,136135],
+  [339219,"Desē","ET",11.1333,39.6333,136056],
+  [3118514,"Lleida","ES",41.6167,0.6222,135919],
+  [1272552,"Dimāpur","IN",25.9117,93.7217,135860],
+  [1735093,"Tasek Glugor","MY",5.4803,100.4985,135786],
+  [3877949,"Osorno","CL",-40.574,-73.1335,135773],
+  [2036597,"Jiagedaqi","CN",50.4167,124.1167,135760],
+  [3452073,"Queimados","BR",-22.7161,-43.5553,135741],
+  [1185191,"Kushtia","BD",23.9028,89.1194,135724],
+  [212902,"Kindu","CD",-2.9437,25.9224,135698],
+  [1727995,"Baliuag","PH",14.9547,120.8969,135679],
+  [2634491,"West Bromwich","GB",52.5187,-1.9945,135618],
+  [1586357,"Cẩm Phả Mines","VN",21.0167,107.3,135477],
+  [2346615,"Buguma","NG",4.7361,6.8624,135404],
+  [1795055,"Shiqiao","CN",22.9464,113.3577,135308],
+  [1299154,"Pyay","MM",18.8246,95.2222,135308],
+  [368277,"Rabak","SD",13.1809,32.74,135281],
+  [1258109,"Robertsonpet","IN",12.9563,78.2754,135218],
+  [267008,"Tyre","LB",33.2733,35.1939,135204],
+  [2427455,"Moundou","TD",8.5667,16.0833,135167],
+  [3699088,"Cajamarca","PE",-7.1638,-78.5003,135000],
+  [1325211,"Hinthada","MM",17.6494,95.4571,134947],
+  [1897007,"Hanam","KR",37.54,127.2056,134902],
+  [2082600,"Jayapura","ID",-2.5337,140.7181,134895],
+  [776029,"Bielany","PL",52.2924,20.9353,134854],
+  [1274304,"Chhindwāra","IN",22.057,78.9396,134847],
+  [1263814,"Mandya","IN",12.5223,76.8975,134845],
+  [3687230,"Cartago","CO",4.7464,-75.9117,134827],
+  [3728474,"Okap","HT",19.7594,-72.1981,134815],
+  [1649593,"Baturaja","ID",-4.1289,104.167,134759],
+  [2497411,"El Oued","DZ",33.3561,6.8632,134699],
+  [1848004,"Zama","JP",35.4879,139.391,134671],
+  [2514169,"Marbella","ES",36.5154,-4.8858,134623],
+  [2747351,"'s-Hertogenbosch","NL",51.6992,5.3042,134520],
+  [1699296,"Rodriguez","PH",14.7601,121.1999,134432],
+  [89113,"Ajdabiya","LY",30.7555,20.2263,134358],
+  [522377,"Nevinnomyssk","RU",44.6333,41.9444,134345],
+  [1689056,"San Mateo","PH",14.6982,121.1236,134327],
+  [758470,"Śródmieście","PL",52.229,21.0164,134306],
+  [3118532,"León","ES",42.6,-5.5703,134305],
+  [4276614,"Olathe","US",38.8814,-94.8191,134305],
+  [1852663,"Seto","JP",35.2333,137.1,134246],
+  [2338269,"Ikirun","NG",7.9128,4.6674,134240],
+  [4013728,"Ciudad Acuña","MX",29.3232,-100.9522,134233],
+  [3722286,"Léogâne","HT",18.5111,-72.6334,134190],
+  [1651887,"Adiwerna","ID",-6.9375,109.1325,134188],
+  [2647878,"Grimsby","GB",53.5654,-0.0755,134160],
+  [2353099,"Abakaliki","NG",6.3249,8.1137,134102],
+  [5014051,"Warren","US",42.4904,-83.013,134056],
+  [1814093,"Dali","CN",25.5847,100.2123,134040],
+  [1277264,"Bānkura","IN",23.2324,87.0716,133966],
+  [745169,"İnegol","TR",40.0781,29.5133,133959],
+  [2130404,"Ebetsu","JP",43.1081,141.5506,133953],
+  [1566319,"Thái Nguyên","VN",21.5942,105.8482,133877],
+  [4575352,"Columbia","US",34.0007,-81.0348,133803],
+  [1626932,"Singaraja","ID",-8.112,115.0882,133784],
+  [2805615,"Würzburg","DE",49.7939,9.9512,133731],
+  [963230,"Randfontein","ZA",-26.1844,27.702,133654],
+  [1270525,"Hājīpur","IN",25.6854,85.2098,133606],
+  [510808,"Pervoural’sk","RU",56.9053,59.9436,133600],
+  [1270996,"Gondā City","IN",27.1318,81.9533,133583],
+  [3654215,"Milagro","EC",-2.134,-79.5941,133508],
+  [1513243,"Marg‘ilon","UZ",40.4724,71.7246,133490],
+  [1275812,"Bhuj","IN",23.254,69.6693,133459],
+  [5441492,"Thornton","US",39.868,-104.9719,133451],
+  [2647356,"Hastings","GB",50.8552,0.5729,133422],
+  [3868707,"Valdivia","CL",-39.8142,-73.2459,133419],
+  [1270079,"Hindupur","IN",13.8281,77.4914,133298],
+  [3169522,"Reggio nell'Emilia","IT",44.6983,10.6313,133296],
+  [2326899,"Okrika","NG",4.7422,7.0837,133271],
+  [1283581,"Birgañj","NP",27.0171,84.8808,133238],
+  [2646914,"High Wycombe","GB",51.6291,-0.7493,133204],
+  [4679195,"Carrollton","US",32.9537,-96.8903,133168],
+  [1683881,"Talisay","PH",10.2447,123.8494,133148],
+  [343137,"Hawassa","ET",7.0621,38.4763,133097],
+  [355635,"Idfū","EG",24.9792,32.8772,133000],
+  [3655673,"Ibarra","EC",0.3517,-78.1223,132977],
+  [5526337,"Midland","US",31.9974,-102.0779,132950],
+  [1798473,"Puqi","CN",29.7167,113.8833,132891],
+  [1850034,"Tondabayashichō","JP",34.5007,135.6021,132873],
+  [1864132,"Fujieda","JP",34.8667,138.2667,132859],
+  [1853008,"Sandachō","JP",34.8844,135.2269,132858],
+  [1256523,"Shillong","IN",25.5689,91.8831,132842],
+  [124085,"Mīāndoāb","IR",36.9667,46.1096,132819],
+  [548114,"Kislovodsk","RU",43.9133,42.7208,132771],
+  [2753801,"Hoofddorp","NL",52.3025,4.6889,132734],
+  [2416969,"Nzérékoré","GN",7.7562,-8.8179,132728],
+  [1260728,"Pālghāt","IN",10.7732,76.6537,132728],
+  [293725,"Reẖovot","IL",31.8942,34.812,132671],
+  [1789065,"Ankang","CN",32.68,109.0172,132654],
+  [4574324,"Charleston","US",32.7766,-79.9309,132609],
+  [2775220,"Innsbruck","AT",47.2627,11.3945,132493],
+  [1648580,"Blitar","ID",-8.0983,112.1681,132416],
+  [4739526,"Waco","US",31.5493,-97.1467,132356],
+  [3564436,"Cerro","CU",23.1081,-82.3866,132351],
+  [2475687,"Tlemcen","DZ",34.8783,-1.315,132341],
+  [1860735,"Kakamigahara","JP",35.4167,136.8667,132241],
+  [3590979,"Quetzaltenango","GT",14.8347,-91.5181,132230],
+  [566199,"Dimitrovgrad","RU",54.2139,49.6184,132226],
+  [2033225,"Zhalantun","CN",48.0095,122.7365,132224],
+  [3453837,"Pindamonhangaba","BR",-22.9239,-45.4617,132218],
+  [1699054,"Muricay","PH",7.8275,123.4782,132094],
+  [5011148,"Sterling Heights","US",42.5803,-83.0302,132052],
+  [6155721,"St. Catharines","CA",43.1713,-79.2427,131989],
+  [1854083,"Ōmuta","JP",33.0333,130.45,131974],
+  [1271107,"Godhra","IN",22.7755,73.6149,131913],
+  [135423,"Shahrud","IR",36.4182,54.9763,131889],
+  [1813344,"Dawukou","CN",39.0419,106.3958,131880],
+  [1722930,"Bulaon","PH",15.0826,120.6629,131818],
+  [3629576,"Punto Fijo","VE",11.6915,-70.1992,131784],
+  [2113164,"Abiko","JP",35.8667,140.0167,131771],
+  [1266486,"Kishangarh","IN",26.5901,74.854,131749],
+  [1860871,"Kadoma","JP",34.7381,135.5744,131727],
+  [1801401,"Majie","CN",25.0319,102.638,131696],
+  [1636022,"Martapura","ID",-3.4109,114.8642,131449],
+  [2968254,"Villeurbanne","FR",45.766,4.8795,131445],
+  [132938,"Gonbad-e Kāvūs","IR",37.25,55.1672,131416],
+  [1258470,"Rānīganj","IN",23.6164,87.1306,131261],
+  [2146268,"Toowoomba","AU",-27.5606,151.9539,131258],
+  [1808336,"Hepo","CN",23.4308,115.8299,131238],
+  [1160939,"Iranshahr","IR",27.2025,60.6848,131232],
+  [4685907,"Denton","US",33.2148,-97.1331,131044],
+  [1314759,"Lashio","MM",22.9359,97.7498,131016],
+  [1259686,"Pīlibhīt","IN",28.6312,79.8044,131008],
+  [1856775,"Miyakonojō","JP",31.7333,131.0667,130994],
+  [518557,"Novomoskovsk","RU",54.0105,38.2846,130982],
+  [683123,"Buzău","RO",45.15,26.8333,130954],
+  [3448031,"Sapucaia","BR",-29.8333,-51.15,130937],
+  [1857568,"Matsubara","JP",34.5667,135.55,130855],
+  [623549,"Pinsk","BY",52.1229,26.0951,130777],
+  [1276634,"Beāwar","IN",26.1012,74.3203,130777],
+  [1813325,"Dazhou","CN",31.2159,107.5009,130749],
+  [174018,"Al Bāb","SY",36.3705,37.5157,130745],
+  [2034834,"Shuangcheng","CN",45.35,126.2833,130710],
+  [1861436,"Isesaki","JP",36.3167,139.2,130692],
+  [1279403,"Abohar","IN",30.1445,74.1955,130603],
+  [3100796,"Dąbrowa Górnicza","PL",50.3339,19.2048,130601],
+  [594739,"Šiauliai","LT",55.9333,23.3167,130587],
+  [1262951,"Moga","IN",30.8138,75.1688,130549],
+  [2219701,"Al Ajaylat","LY",32.7572,12.3763,130546],
+  [700051,"Nikopol","UA",47.5712,34.3964,130500],
+  [8504948,"Petrogradka","RU",59.9657,30.3115,130455],
+  [4850751,"Cedar Rapids","US",42.0083,-91.6441,130405],
+  [1791056,"Dongyang","CN",29.2678,120.2253,130387],
+  [3675657,"Maicao","CO",11.3784,-72.2395,130348],
+  [3682426,"Florencia","CO",1.6144,-75.6062,130337],
+  [282615,"Nablus","PS",32.2211,35.2544,130326],
+  [4839366,"New Haven","US",41.3082,-72.9282,130322],
+  [1805935,"Jiazi","CN",22.8793,116.0732,130298],
+  [3682028,"Girardot City","CO",4.3008,-74.8075,130289],
+  [5388881,"Roseville","US",38.7521,-121.288,130269],
+  [3874096,"Quilpué","CL",-33.0475,-71.4425,130263],
+  [1794035,"Songjiang","CN",31.036,121.2146,130218],
+  [3608248,"La Ceiba","HN",15.7597,-86.7822,130218],
+  [3460102,"Jaraguá do Sul","BR",-26.4861,-49.0667,130130],
+  [4156404,"Gainesville","US",29.6516,-82.3248,130128],
+  [367644,"Sinnar","SD",13.5691,33.5672,130122],
+  [3617723,"Masaya","NI",11.9744,-86.0942,130113],
+  [5406567,"Visalia","US",36.3302,-119.2921,130104],
+  [2483668,"Relizane","DZ",35.7373,0.556,130094],
+  [3996663,"Manzanillo","MX",19.117,-104.3421,130035],
+  [1187530,"Sonārgaon","BD",23.65,90.6167,130000],
+  [7910932,"Shangri-La","CN",27.8251,99.7078,130000],
+  [2487134,"Mostaganem","DZ",35.9312,0.0892,130000],
+  [3042430,"Zugló","HU",47.5176,19.1055,130000],
+  [2212775,"Sabhā","LY",27.0377,14.4283,130000],
+  [3082914,"Tychy","PL",50.1372,18.9664,130000],
+  [502971,"Ramenki","RU",55.7,37.5,130000],
+  [691999,"Syevyerodonets’k","UA",48.9483,38.4917,130000],
+  [1273309,"Dehri","IN",24.9025,84.1822,129938],
+  [1791325,"Wuda","CN",39.4994,106.7117,129922],
+  [1214882,"Kisaran","ID",2.9845,99.6158,129911],
+  [1841598,"Gyeongsan-si","KR",35.8233,128.7378,129903],
+  [64536,"Baidoa","SO",3.1138,43.6498,129839],
+  [1171123,"Mandi Bahauddin","PK",32.587,73.4912,129733],
+  [1513131,"Navoiy","UZ",40.0844,65.3792,129725],
+  [738743,"Tokat","TR",40.3139,36.5544,129702],
+  [2388873,"Bimbo","CF",4.2567,18.4158,129655],
+  [1273193,"Deoria","IN",26.5017,83.7794,129570],
+  [1864416,"Daitōchō","JP",34.7138,135.6203,129521],
+  [4151909,"Coral Springs","US",26.2712,-80.2706,129485],
+  [6146143,"Sherbrooke","CA",45.4001,-71.8991,129447],
+  [2485801,"Ouargla","DZ",31.9493,5.325,129402],
+  [3183539,"Acilia-Castel Fusano-Ostia Antica","IT",41.7634,12.3308,129362],
+  [5402405,"Thousand Oaks","US",34.1706,-118.8376,129339],
+  [1846986,"Andong","KR",36.5664,128.7228,129319],
+  [1026014,"Tete","MZ",-16.1564,33.5867,129316],
+  [3893656,"Copiapó","CL",-27.3668,-70.3314,129280],
+  [1633037,"Palopo","ID",-2.9925,120.1969,129273],
+  [2541479,"Nador","MA",35.1681,-2.9335,129260],
+  [358840,"Bilbays","EG",30.4204,31.5622,129211],
+  [3645854,"Charallave","VE",10.2425,-66.8572,129182],
+  [115770,"Shahr-e Kord","IR",32.3261,50.8572,129153],
+  [2849483,"Regensburg","DE",49.0151,12.1016,129151],
+  [1857046,"Mino","JP",34.8269,135.4706,129127],
+  [1804208,"Leiyang","CN",26.4024,112.8591,129116],
+  [2073124,"Darwin","AU",-12.4611,130.8419,129062],
+  [1721168,"Cadiz","PH",10.9465,123.288,129053],
+  [3979844,"Zacatecas","MX",22.7684,-102.5814,129011],
+  [5097598,"Elizabeth","US",40.664,-74.2107,129007],
+  [461835,"Zyablikovo","RU",55.6167,37.7667,129000],
+  [295548,"Bat Yam","IL",32.0238,34.7519,128979],
+  [1185111,"Sātkhira","BD",22.7082,89.0719,128918],
+  [3630932,"Palo Negro","VE",10.1739,-67.5419,128875],
+  [4843564,"Stamford","US",41.0534,-73.5387,128874],
+  [3457000,"Mogi Guaçu","BR",-22.3677,-46.9455,128865],
+  [361546,"Arish","EG",31.1316,33.7984,128855],
+  [169389,"Idlib","SY",35.9306,36.6339,128840],
+  [90708,"Sīnah","IQ",36.8085,43.0394,128776],
+  [5339111,"Concord","US",37.978,-122.0311,128667],
+  [553287,"Kamyshin","RU",50.0983,45.416,128626],
+  [643492,"Oulu","FI",65.0124,25.4682,128618],
+  [1270239,"Hassan","IN",13.0072,76.0962,128531],
+  [518976,"Novocheboksarsk","RU",56.111,47.4776,128468],
+  [3033123,"Besançon","FR",47.2488,6.0182,128426],
+  [5316428,"Surprise","US",33.6306,-112.3332,128422],
+  [2498392,"El Eulma","DZ",36.1528,5.6902,128351],
+  [1266945,"Khardah","IN",22.7186,88.3781,128346],
+  [102527,"Sakakah","SA",29.9697,40.2064,128332],
+  [333772,"Jimma","ET",7.6734,36.8344,128306],
+  [379149,"Al Manāqil","SD",14.2459,32.9891,128297],
+  [1990589,"Teluknaga","ID",-6.0989,106.6381,128275],
+  [3052009,"Győr","HU",47.6833,17.6351,128265],
+  [355026,"Jirjā","EG",26.3383,31.8916,128250],
+  [3547867,"Manzanillo","CU",20.3417,-77.1213,128188],
+  [1252770,"Yavatmāl","IN",20.3932,78.132,128175],
+  [1270484,"Hālīsahar","IN",22.9322,88.4186,128172],
+  [496527,"Serpukhov","RU",54.9158,37.4111,128158],
+  [2210554,"Sirte","LY",31.2089,16.5887,128123],
+  [293788,"Ramat Gan","IL",32.0823,34.8107,128095],
+  [1907299,"Asaka","JP",35.8047,139.6019,128058],
+  [1260434,"Panvel","IN",18.9888,73.1101,128046],
+  [515027,"Orekhovo-Borisovo Severnoye","RU",55.6167,37.6833,128000],
+  [555129,"Ivanovskoye","RU",55.7667,37.8333,128000],
+  [1732869,"Muar","MY",2.0442,102.5689,127897],
+  [2289887,"Divo","CI",5.8374,-5.3572,127867],
+  [1622636,"Ungaran","ID",-7.1397,110.405,127812],
+  [5551123,"Alhambra","US",33.4984,-112.1343,127764],
+  [1788081,"Xuanzhou","CN",30.9525,118.7553,127758],
+  [1254309,"Titāgarh","IN",22.7425,88.3733,127751],
+  [3836846,"San Nicolás de los Arroyos","AR",-33.3342,-60.2108,127742],
+  [1858067,"Kusatsu","JP",35.0167,135.9667,127680],
+  [3090048,"Opole","PL",50.6721,17.9253,127676],
+  [4330145,"Lafayette","US",30.2241,-92.0198,127657],
+  [3359041,"Worcester","ZA",-33.6465,19.4485,127597],
+  [3099759,"Elbląg","PL",54.1522,19.4088,127558],
+  [2482572,"Saïda","DZ",34.8303,0.1517,127497],
+  [1185115,"Sirajganj","BD",24.4577,89.708,127481],
+  [3459943,"Jequié","BR",-13.8587,-40.0851,127475],
+  [3088825,"Płock","PL",52.5468,19.7064,127474],
+  [3082707,"Wałbrzych","PL",50.7714,16.2843,127431],
+  [584649,"Yevlakh","AZ",40.6183,47.1501,127400],
+  [363885,"Wau","SS",7.7011,27.9897,127384],
+  [1024552,"Xai-Xai","MZ",-25.0519,33.6442,127366],
+  [2676209,"Södermalm","SE",59.3128,18.0758,127323],
+  [1807689,"Huaihua","CN",27.5634,110.004,127322],
+  [2350249,"Amaigbo","NG",5.7892,7.8383,127300],
+  [4280539,"Topeka","US",39.0483,-95.678,127265],
+  [2332515,"Lafia","NG",8.4939,8.5153,127236],
+  [1885823,"Jiangyou","CN",31.7667,104.7167,127225],
+  [1163965,"Tando Allahyar","PK",25.4605,68.7175,127202],
+  [1150515,"Surat Thani","TH",9.1401,99.3331,127201],
+  [215771,"Isiro","CD",2.7739,27.616,127076],
+  [3540667,"Sancti Spíritus","CU",21.9297,-79.4425,127069],
+  [1273800,"Cuddapah","IN",14.48,78.8235,127010],
+  [1276393,"Bettiah","IN",26.8023,84.5031,127008],
+  [1514581,"Angren","UZ",41.0167,70.1436,126957],
+  [5799625,"Kent","US",47.3809,-122.2348,126952],
+  [1302439,"Pakokku","MM",21.3349,95.0844,126938],
+  [524294,"Murom","RU",55.575,42.0426,126931],
+  [1180436,"Daska Kalan","PK",32.3242,74.3504,126924],
+  [1630058,"Rangkasbitung","ID",-6.3591,106.2494,126910],
+  [1270216,"Hāthras","IN",27.5955,78.052,126882],
+  [1639900,"Klaten","ID",-7.7058,110.6064,126831],
+  [550478,"Khasavyurt","RU",43.2509,46.5877,126829],
+  [522942,"Neftekamsk","RU",56.092,54.2661,126805],
+  [3104748,"Villaverde","ES",40.35,-3.7,126802],
+  [5396003,"Simi Valley","US",34.2695,-118.7815,126788],
+  [1789647,"Xichang","CN",27.8964,102.2634,126787],
+  [2520600,"Cadiz","ES",36.5267,-6.2891,126766],
+  [1168555,"Pakpattan","PK",30.3431,73.3894,126706],
+  [1813812,"Danshui","CN",22.7984,114.4672,126701],
+  [1332083,"Bahawalnagar","PK",30.5508,73.3908,126700],
+  [1183883,"Bahawalnagar","PK",29.9984,73.2527,126617],
+  [1849429,"Ueda","JP",36.4027,138.2816,126606],
+  [3667873,"Sogamoso","CO",5.7143,-72.9339,126551],
+  [5344994,"East Los Angeles","US",34.0239,-118.172,126496],
+  [1265157,"Lalitpur","IN",24.6901,78.4192,126475],
+  [747712,"Edirne","TR",41.6772,26.556,126470],
+  [1642414,"Jombang","ID",-7.5459,112.2331,126465],
+  [877401,"Songea","TZ",-10.6833,35.65,126449],
+  [1266305,"Kolār","IN",13.1377,78.13,126441],
+  [6325521,"Lévis","CA",46.8033,-71.1779,126396],
+  [3620381,"Chinandega","NI",12.6294,-87.131,126387],
+  [2219960,"Al Jadīd","LY",27.05,14.4,126386],
+  [3437863,"Lambaré","PY",-25.3468,-57.6065,126377],
+  [1801582,"Macheng","CN",31.1801,115.0221,126366],
+  [281102,"Rafaḩ","PS",31.2972,34.2436,126305],
+  [1735168,"Ampang","MY",3.15,101.7667,126285],
+  [3460728,"Itapetininga","BR",-23.5917,-48.0531,126243],
+  [3454783,"Patos de Minas","BR",-18.5789,-46.5181,126234],
+  [5393015,"Santa Clara","US",37.3541,-121.9552,126215],
+  [1632197,"Paseh","ID",-7.1026,107.7641,126181],
+  [4644312,"Murfreesboro","US",35.8456,-86.3903,126118],
+  [6544495,"Retiro","ES",40.4132,-3.6831,126058],
+  [8436486,"Sunset Park","US",40.6455,-74.0124,126000],
+  [1632654,"Pangkalpinang","ID",-2.1291,106.1138,125933],
+  [1806881,"Huicheng","CN",23.0385,116.2899,125919],
+  [2341656,"Gashua","NG",12.874,11.0406,125817],
+  [3728097,"Les Cayes","HT",18.1933,-73.746,125799],
+  [3168673,"Salerno","IT",40.6755,14.7933,125797],
+  [2634677,"Watford","GB",51.6553,-0.396,125707],
+  [1789703,"Xiazhen","CN",34.8022,117.1117,125667],
+  [112646,"Torbat-e Ḩeydarīyeh","IR",35.274,59.2195,125633],
+  [1163967,"Tando Adam","PK",25.7682,68.662,125598],
+  [250799,"‘Ajlūn","JO",32.3333,35.7528,125557],
+  [1626542,"Sorong","ID",-0.8796,131.261,125535],
+  [1708522,"Koronadal","PH",6.5031,124.8469,125502],
+  [748208,"Derince","TR",40.7569,29.8147,125485],
+  [1894616,"Okinawa","JP",26.3358,127.8014,125483],
+  [3882428,"Los Ángeles","CL",-37.4697,-72.3537,125430],
+  [1809062,"Haimen","CN",23.1935,116.6122,125427],
+  [2638703,"Saint Peters","GB",51.3667,1.4167,125370],
+  [624079,"Orsha","BY",54.5081,30.4172,125347],
+  [1796421,"Shahecheng","CN",36.9383,114.5058,125132],
+  [5990579,"Kelowna","CA",49.8831,-119.4857,125109],
+  [3469092,"Bragança Paulista","BR",-22.9527,-46.5442,125096],
+  [2395049,"Bohicon","BJ",7.1783,2.0667,125092],
+  [1864750,"Beppu","JP",33.2795,131.4975,125065],
+  [3513090,"Willemstad","CW",12.1084,-68.9335,125000],
+  [96961,"Soran","IQ",36.6532,44.5441,125000],
+  [618605,"Bălţi","MD",47.7631,27.9293,125000],
+  [483551,"Tyoply Stan","RU",55.6205,37.4934,125000],
+  [1263834,"Mandsaur","IN",24.0718,75.0699,124988],
+  [1963770,"Padalarang","ID",-6.8378,107.4728,124946],
+  [1793900,"Suining","CN",30.508,105.5733,124924],
+  [1270990,"Gondiā","IN",21.4603,80.1921,124897],
+  [3827414,"Huixquilucan","MX",19.3599,-99.3502,124846],
+  [116402,"Semnan","IR",35.5769,53.3921,124826],
+  [693468,"Sloviansk","UA",48.8667,37.6167,124800],
+  [3493146,"San Francisco de Macorís","DO",19.301,-70.2526,124763],
+  [2033242,"Yushu","CN",44.8,126.5333,124736],
+  [1665443,"Yuanlin","TW",23.9567,120.5761,124725],
+  [3584257,"Santa Tecla","SV",13.6769,-89.2797,124694],
+  [3483849,"Ciudad Valles","MX",21.9963,-99.0109,124644],
+  [4005509,"Guadalupe","MX",22.7475,-102.5187,124623],
+  [1162004,"Khairpur Mir’s","PK",27.5295,68.7592,124602],
+  [1859951,"Kashihara-shi","JP",34.509,135.7929,124521],
+  [3652350,"Riobamba","EC",-1.671,-78.6471,124478],
+  [1522203,"Kokshetau","KZ",53.2833,69.4,124444],
+  [3098722,"Gorzów Wielkopolski","PL",52.7368,15.2288,124430],
+  [3386361,"Timon","BR",-5.0942,-42.8367,124427],
+  [1169027,"New Mirpur","PK",33.1478,73.7519,124352],
+  [2448085,"Agadez","NE",16.9733,7.9911,124324],
+  [757065,"Targówek","PL",52.2918,21.0485,124316],
+  [5363748,"Koreatown","US",34.0578,-118.3009,124281],
+  [1804252,"Lecheng","CN",25.128,113.3504,124268],
+  [3448632,"São José dos Pinhais","BR",-25.5302,-49.2084,124224],
+  [124862,"Marand","IR",38.4329,45.7749,124191],
+  [1258916,"Rajapalaiyam","IN",9.453,77.5534,124168],
+  [2989317,"Orléans","FR",47.9029,1.9039,124149],
+  [1804591,"Laiwu","CN",36.1928,117.6569,124108],
+  [958724,"Rustenburg","ZA",-25.6676,27.2421,124064],
+  [4835797,"Hartford","US",41.7637,-72.6851,124006],
+  [1519843,"Rudnyy","KZ",52.9729,63.1168,124000],
+  [3446606,"Teresópolis","BR",-22.4167,-42.9782,123979],
+  [2994160,"Metz","FR",49.1191,6.1727,123914],
+  [2036403,"Jiupu","CN",41.0667,122.95,123843],
+  [1273467,"Dārjiling","IN",27.0333,88.2667,123797],
+  [2038438,"Baoshan","CN",46.5586,131.4244,123791],
+  [3493240,"Salvaleón de Higüey","DO",18.615,-68.708,123787],
+  [965289,"Polokwane","ZA",-23.9045,29.4689,123749],
+  [1292288,"Thaton","MM",16.9187,97.37,123727],
+  [7284842,"Budapest III. kerület","HU",47.5416,19.045,123723],
+  [964349,"Potchefstroom","ZA",-26.7167,27.1,123669],
+  [1647149,"Ciamis","ID",-7.3257,108.3534,123637],
+  [1637090,"Lumajang","ID",-8.1335,113.2248,123626],
+  [2495662,"Guelma","DZ",36.4621,7.4261,123590],
+  [1711982,"Hagonoy","PH",14.8341,120.7327,123531],
+  [6992326,"Mohali","IN",30.68,76.7221,123484],
+  [3445679,"Uruguaiana","BR",-29.7547,-57.0883,123480],
+  [1260777,"Pālanpur","IN",24.1713,72.4383,123294],
+  [1643078,"Indramayu","ID",-6.3264,108.32,123263],
+  [1085510,"Epworth","ZW",-17.89,31.1475,123250],
+  [2503661,"Bordj el Kiffan","DZ",36.7487,3.1925,123246],
+  [2288829,"Gagnoa","CI",6.1319,-5.9506,123184],
+  [3452640,"Porto Seguro","BR",-16.4497,-39.0647,123173],
+  [1801799,"Luoyang","CN",23.1624,114.2734,123144],
+  [2806654,"Wolfsburg","DE",52.4245,10.7815,123064],
+  [1855425,"Niihama","JP",33.9605,133.3052,123059],
+  [2036536,"Minzhu","CN",43.7215,127.334,123018],
+  [536164,"Tsaritsyno","RU",55.6254,37.6503,123000],
+  [2518794,"Dos Hermanas","ES",37.2829,-5.9209,122943],
+  [1631992,"Pati","ID",-6.7559,111.038,122785],
+  [1272243,"Dam Dam","IN",22.6334,88.4229,122719],
+  [3472766,"Alagoinhas","BR",-12.1356,-38.4192,122688],
+  [98245,"Az Zubayr","IQ",30.3921,47.7017,122676],
+  [1270370,"Hardoī","IN",27.3949,80.1316,122635],
+  [4005937,"San Pedro Garza García","MX",25.6604,-100.4065,122627],
+  [1807112,"Huangzhou","CN",30.45,114.8,122563],
+  [5137849,"Sheepshead Bay","US",40.5912,-73.9446,122534],
+  [1259163,"Puruliya","IN",23.3306,86.363,122533],
+  [1605245,"Ubon Ratchathani","TH",15.2384,104.8487,122533],
+  [1859393,"Kisarazu","JP",35.3833,139.9325,122524],
+  [943882,"Virginia","ZA",-28.1039,26.8659,122502],
+  [1015621,"Brits","ZA",-25.6347,27.7802,122497],
+  [6947640,"Beylikdüzü","TR",40.982,28.6399,122452],
+  [2849647,"Recklinghausen","DE",51.6138,7.1974,122438],
+  [3455478,"Palhoça","BR",-27.6453,-48.6678,122423],
+  [1788268,"Xiulin","CN",29.7167,112.4,122411],
+  [1784178,"Zhoucun","CN",36.8167,117.8167,122402],
+  [1280957,"Jiayuguan","CN",39.8112,98.2862,122396],
+  [2751283,"Maastricht","NL",50.8483,5.6889,122378],
+  [5107129,"Amherst","US",42.9784,-78.7998,122366],
+  [1574023,"Mỹ Tho","VN",10.36,106.36,122310],
+  [738927,"Tekirdağ","TR",40.9781,27.511,122287],
+  [5406222,"Victorville","US",34.5361,-117.2912,122225],
+  [2624886,"Aalborg","DK",57.048,9.9187,122219],
+  [3470858,"Barbacena","BR",-21.2258,-43.7736,122211],
+  [2654200,"Burton upon Trent","GB",52.8073,-1.6426,122199],
+  [1181073,"Chishtian","PK",29.7971,72.8577,122199],
+  [3587923,"Villa Canales","GT",14.4829,-90.5342,122194],
+  [1272648,"Dibrugarh","IN",27.4799,94.9084,122155],
+  [2918632,"Göttingen","DE",51.5344,9.9323,122149],
+  [3185728,"Durrës","AL",41.3236,19.4547,122034],
+  [8617692,"San Pedro Garza Garcia","MX",25.6572,-100.4027,122009],
+  [473972,"Veshnyaki","RU",55.7239,37.8195,122000],
+  [542634,"Presnenskiy","RU",55.75,37.55,122000],
+  [1113217,"Zābol","IR",31.0306,61.4949,121989],
+  [1260637,"Palwal","IN",28.1447,77.3255,121965],
+  [1855095,"Nobeoka","JP",32.5833,131.6667,121949],
+  [2652618,"Colchester","GB",51.8892,0.9042,121859],
+  [1262067,"Nalgonda","IN",17.0544,79.2671,121826],
+  [615532,"Batumi","GE",41.6423,41.6339,121806],
+  [3117164,"Mataró","ES",41.5421,2.4445,121722],
+  [4669635,"Abilene","US",32.4487,-99.7331,121721],
+  [1276320,"Bhadreswar","IN",22.8245,88.3384,121662],
+  [2661552,"Bern","CH",46.9481,7.4474,121631],
+  [1253315,"Vejalpur","IN",22.6902,73.563,121610],
+  [3137115,"Stavanger","NO",58.9701,5.7333,121610],
+  [1631905,"Payakumbuh","ID",-0.2159,100.6334,121572],
+  [1023441,"Alberton","ZA",-26.2679,28.1223,121536],
+  [1864105,"Fujinomiya","JP",35.2167,138.6167,121515],
+  [3121245,"Gràcia","ES",41.4024,2.1564,121502],
+  [1274220,"Chikmagalūr","IN",13.3223,75.774,121484],
+  [1524325,"Ekibastuz","KZ",51.7237,75.3229,121470],
+  [1689286,"San Juan","PH",14.6,121.0333,121430],
+  [1855078,"Noda","JP",35.949,139.8679,121411],
+  [2742032,"Braga","PT",41.5503,-8.42,121394],
+  [2035669,"Lianhe","CN",47.1333,129.2743,121367],
+  [1259005,"Raigarh","IN",21.8976,83.3966,121278],
+  [5405380,"Vallejo","US",38.1041,-122.2566,121253],
+  [4839745,"North Stamford","US",41.1382,-73.5435,121230],
+  [1513064,"Olmaliq","UZ",40.8447,69.5983,121207],
+  [152451,"Musoma","TZ",-1.5,33.8,121119],
+  [3468403,"Cachoeirinha","BR",-29.9511,-51.0939,121084],
+  [1848774,"Yaizu","JP",34.8688,138.3195,121057],
+  [81302,"Tobruk","LY",32.0896,23.9539,121052],
+  [461740,"Zyuzino","RU",55.6561,37.5685,121000],
+  [5327684,"Berkeley","US",37.8716,-122.2727,120972],
+  [2033824,"Xilin Hot","CN",43.9667,116.0333,120965],
+  [1270670,"Guntakal Junction","IN",15.1711,77.3624,120964],
+  [4006163,"Fresnillo","MX",23.1813,-102.8714,120944],
+  [3522307,"Orizaba","MX",18.852,-97.0996,120844],
+  [1151933,"Nakhon Si Thammarat","TH",8.4333,99.9667,120836],
+  [2907669,"Heilbronn","DE",49.14,9.2205,120733],
+  [2895992,"Ingolstadt","DE",48.7651,11.4237,120658],
+  [1849845,"Toyokawa","JP",34.8167,137.4,120537],
+  [2037411,"Fengcheng","CN",40.4536,124.0717,120514],
+  [905395,"Mufulira","ZM",-12.5498,28.2407,120500],
+  [2820256,"Ulm","DE",48.3984,9.9916,120451],
+  [1735150,"Rawang","MY",3.3213,101.5767,120447],
+  [309527,"Karaman","TR",37.1811,33.215,120399],
+  [5913695,"Cambridge","CA",43.3601,-80.3127,120372],
+  [3081741,"Włocławek","PL",52.6482,19.0678,120339],
+  [4543762,"Norman","US",35.2226,-97.4395,120284],
+  [5178127,"Allentown","US",40.6084,-75.4902,120207],
+  [3438115,"Fernando de la Mora","PY",-25.3386,-57.5217,120167],
+  [3171180,"Perugia","IT",43.1122,12.3888,120137],
+  [1271675,"Gangāpur","IN",26.4725,76.7174,120115],
+  [1784953,"Zhaoyuan","CN",37.365,120.41,120000],
+  [1650319,"Bangil","ID",-7.5994,112.8186,120000],
+  [10263232,"Deoli","IN",28.5025,77.2312,120000],
+  [278913,"Nabatîyé et Tahta","LB",33.3789,35.4839,120000],
+  [1185056,"Abbottabad","PK",34.1463,73.2117,120000],
+  [490971,"Solntsevo","RU",55.6371,37.3812,120000],
+  [515024,"Orekhovo-Zuyevo","RU",55.8067,38.9618,120000],
+  [8504621,"Gereida","SD",11.2754,25.1403,120000],
+  [4257227,"Evansville","US",37.9748,-87.5559,119943],
+  [2945756,"Bottrop","DE",51.5239,6.9285,119909],
+  [3389321,"Santa Rita","BR",-7.1139,-34.9781,119893],
+  [1039536,"Maxixe","MZ",-23.8597,35.3472,119868],
+  [2940187,"Charlottenburg","DE",52.5167,13.2833,119857],
+  [2473449,"Kairouan","TN",35.6781,10.0963,119794],
+  [1176106,"Jaranwala","PK",31.3332,73.4187,119785],
+  [3109981,"Santa Coloma de Gramenet","ES",41.4515,2.2081,119717],
+  [2751773,"Leiden","NL",52.1583,4.4931,119713],
+  [6169141,"Trois-Rivières","CA",46.3451,-72.5477,119693],
+  [7290243,"Bergedorf","DE",53.4846,10.229,119665],
+  [3172629,"Monza","IT",45.5801,9.2725,119618],
+  [2330028,"Modakeke","NG",7.383,4.2603,119529],
+  [1686547,"Silang","PH",14.2157,120.9714,119475],
+  [3652567,"Quevedo","EC",-1.0286,-79.4635,119436],
+  [303873,"Nazilli","TR",37.9163,28.3223,119370],
+  [230166,"Lira","UG",2.2499,32.8999,119323],
+  [3446370,"Toledo","BR",-24.7136,-53.7431,119313],
+  [2853969,"Pforzheim","DE",48.8844,8.6989,119313],
+  [2756669,"Dordrecht","NL",51.81,4.6736,119260],
+  [3460005,"Jaú","BR",-22.2964,-48.5578,119206],
+  [2857807,"Offenbach","DE",50.1006,8.7665,119192],
+  [1255927,"Siwān","IN",26.221,84.3561,119181],
+  [4381982,"Columbia","US",38.9517,-92.3341,119108],
+  [2537406,"Settat","MA",33.001,-7.6166,119082],
+  [3647549,"Cagua","VE",10.1863,-67.4593,119033],
+  [5527554,"Odessa","US",31.8457,-102.3676,118968],
+  [1041190,"Mandimba","MZ",-14.3525,35.6506,118922],
+  [3413829,"Reykjavík","IS",64.1355,-21.8954,118918],
+  [1689510,"San Jose","PH",12.3528,121.0676,118807],
+  [1273587,"Damoh","IN",23.8331,79.4419,118776],
+  [1907301,"Shimotoda","JP",35.815,139.6853,118731],
+  [1280737,"Lhasa","CN",29.65,91.1,118721],
+  [2507972,"Aïn Oussera","DZ",35.4514,2.9058,118687],
+  [1858964,"Kokubunji","JP",35.7022,139.4756,118682],
+  [728203,"Pleven","BG",43.4167,24.6167,118675],
+  [3169361,"Rimini","IT",44.0576,12.5653,118673],
+  [3523149,"Miramar","MX",22.3609,-97.9,118614],
+  [1609899,"Khlong Luang","TH",14.0647,100.6458,118551],
+  [1279344,"Ādilābād","IN",19.672,78.5359,118526],
+  [5059163,"Fargo","US",46.8772,-96.7898,118523],
+  [3526798,"Iguala de la Independencia","MX",18.3454,-99.5413,118468],
+  [1627610,"Sepatan","ID",-6.1189,106.575,118439],
+  [3080165,"Zielona Góra","PL",51.9355,15.5064,118433],
+  [3465059,"Cubatão","BR",-23.895,-46.4253,118410],
+  [932505,"Maseru","LS",-29.3167,27.4833,118355],
+  [1255647,"Srikakulam","IN",18.2989,83.8975,118299],
+  [712451,"Berdyansk","UA",46.7664,36.7987,118284],
+  [187968,"Malindi","KE",-3.218,40.1169,118265],
+  [1253744,"Uppal Kalan","IN",17.4058,78.5591,118259],
+  [2650497,"Eastbourne","GB",50.7687,0.2845,118219],
+  [2317397,"Bandundu","CD",-3.3169,17.3806,118211],
+  [1230089,"Pita Kotte","LK",6.8905,79.9015,118179],
+  [3107784,"Torrejón de Ardoz","ES",40.4554,-3.4697,118162],
+  [4672989,"Beaumont","US",30.0861,-94.1018,118129],
+  [2347954,"Bama","NG",11.5213,13.6895,118121],
+  [2337659,"Ilobu","NG",7.8404,4.4856,118089],
+  [4013720,"Ciudad Delicias","MX",28.1901,-105.4701,118071],
+  [1269065,"Jetpur","IN",21.7548,70.6235,118068],
+  [1802940,"Puning","CN",23.3107,116.1687,118023],
+  [1262775,"Morbi","IN",22.8173,70.8377,118022],
+  [3688256,"Guadalajara de Buga","CO",3.9009,-76.2978,118004],
+  [481453,"Troparëvo","RU",55.6563,37.485,118000],
+  [1608534,"Nakhon Pathom","TH",13.8196,100.0443,117927],
+  [690548,"Uzhgorod","UA",48.6167,22.3,117878],
+  [1260173,"Pātan","IN",23.8507,72.1296,117863],
+  [2924573,"Friedrichshain","DE",52.5156,13.4548,117829],
+  [2364104,"Sokodé","TG",8.9833,1.1333,117811],
+  [757026,"Tarnów","PL",50.0138,20.987,117799],
+  [3654667,"Loja","EC",-3.9931,-79.2042,117796],
+  [2649808,"Exeter","GB",50.7236,-3.5275,117763],
+  [2336589,"Jalingo","NG",8.8937,11.3596,117757],
+  [2664454,"Västerås","SE",59.6162,16.5528,117746],
+  [2315728,"Gemena","CD",3.2565,19.7723,117639],
+  [1512165,"Achinsk","RU",56.2694,90.4993,117634],
+  [2034754,"Shunyi","CN",40.1218,116.6478,117623],
+  [2639093,"Rotherham","GB",53.4301,-1.3568,117618],
+  [1861749,"Ikoma","JP",34.6833,135.7,117601],
+  [3980194,"Ciudad de Villa de Álvarez","MX",19.2672,-103.7378,117600],
+  [3486270,"Anaco","VE",9.4296,-64.4643,117596],
+  [1213500,"Tebingtinggi","ID",3.3285,99.1625,117530],
+  [3718962,"Tigwav","HT",18.4312,-72.8652,117504],
+  [3666608,"Tunja","CO",5.5353,-73.3678,117479],
+  [2944368,"Bremerhaven","DE",53.5362,8.593,117446],
+  [3874787,"Punta Arenas","CL",-53.1548,-70.9113,117430],
+  [596128,"Panevėžys","LT",55.7333,24.35,117395],
+  [1309937,"Pyin Oo Lwin","MM",22.035,96.4568,117303],
+  [4391812,"Independence","US",39.0911,-94.4155,117255],
+  [1640581,"Kedungwuni","ID",-6.9704,109.6479,117249],
+  [2112576,"Ishinomaki","JP",38.4167,141.3,117233],
+  [2035966,"Longjing","CN",42.7714,129.4233,117185],
+  [1267016,"Khanna","IN",30.7055,76.222,117137],
+  [3647444,"Calabozo","VE",8.9242,-67.4293,117132],
+  [2848273,"Remscheid","DE",51.1798,7.1925,117118],
+  [2262963,"Setúbal","PT",38.5244,-8.8882,117110],
+  [792078,"Čačak","RS",43.8914,20.3497,117072],
+  [4984247,"Ann Arbor","US",42.2776,-83.7409,117070],
+  [2223763,"Nkongsamba","CM",4.9547,9.9404,117063],
+  [2419533,"Kindia","GN",10.0569,-12.8658,117062],
+  [1786731,"Qingzhou","CN",36.6967,118.4797,117056],
+  [1275218,"Botād","IN",22.1692,71.6667,117053],
+  [1258126,"Rishra","IN",22.7239,88.3456,117014],
+  [6317953,"Pinhais","BR",-25.4447,-49.1925,117000],
+  [2491889,"Khenchela","DZ",35.4358,7.1433,117000],
+  [1862302,"Hōfu","JP",34.05,131.5667,116925],
+  [741100,"Ordu","TR",40.9778,37.8905,116788],
+  [2042893,"Manp’o","KP",41.1547,126.2894,116760],
+  [2659994,"Lausanne","CH",46.516,6.6328,116751],
+  [5345743,"El Monte","US",34.0686,-118.0276,116732],
+  [4180386,"Athens","US",33.9609,-83.3779,116714],
+  [2800931,"Brugge","BE",51.2089,3.2242,116709],
+  [6318694,"Simões Filho","BR",-12.7844,-38.4039,116662],
+  [1278083,"Azamgarh","IN",26.0683,83.1836,116644],
+  [3171168,"Pescara","IT",42.4584,14.2028,116596],
+  [1184845,"Ahmadpur East","PK",29.1427,71.2577,116579],
+  [3445487,"Varginha","BR",-21.5514,-45.4303,116571],
+  [4250542,"Springfield","US",39.8017,-89.6437,116565],
+  [1518542,"Taldykorgan","KZ",45.0156,78.3739,116558],
+  [2516395,"Jaén","ES",37.7692,-3.7903,116557],
+  [3931276,"Puno","PE",-15.8422,-70.0199,116552],
+  [6544099,"Moncloa-Aravaca","ES",40.4355,-3.7317,116531],
+  [2653261,"Cheltenham","GB",51.9001,-2.0797,116447],
+  [1252758,"Yelahanka","IN",13.1007,77.5963,116447],
+  [5120034,"Harlem","US",40.8079,-73.9454,116345],
+  [1807301,"Dasha","CN",23.1104,113.4418,116307],
+  [716935,"Nyíregyháza","HU",47.9554,21.7167,116298],
+  [2033536,"Yakeshi","CN",49.2833,120.7333,116284],
+  [569154,"Cherkessk","RU",44.2233,42.0578,116224],
+  [2522013,"Algeciras","ES",36.1333,-5.4505,116209],
+  [1270801,"Gudivāda","IN",16.4355,80.9956,116161],
+  [1714956,"Digos","PH",6.7497,125.3572,116122],
+  [1863209,"Handa","JP",34.8833,136.9333,116119],
+  [6318696,"Sinop","BR",-11.8642,-55.5025,116013],
+  [484912,"Taganskiy","RU",55.7333,37.6667,116000],
+  [713716,"Alchevs’k","UA",48.4689,38.8167,116000],
+  [4724129,"Round Rock","US",30.5083,-97.6789,115997],
+  [520068,"Noginsk","RU",55.8665,38.4438,115979],
+  [2836788,"Schöneberg","DE",52.4667,13.35,115976],
+  [4499379,"Wilmington","US",34.2257,-77.9447,115933],
+  [1717641,"Cavite City","PH",14.4837,120.8988,115932],
+  [697889,"Pavlohrad","UA",48.5343,35.871,115932],
+  [6332428,"East Harlem","US",40.7947,-73.9425,115921],
+  [1816336,"Binzhou","CN",37.3667,118.0167,115893],
+  [2743856,"Zoetermeer","NL",52.0575,4.4931,115845],
+  [1238992,"Sri Jayewardenepura Kotte","LK",6.883,79.9071,115826],
+  [2686657,"Örebro","SE",59.2741,15.2066,115765],
+  [5967629,"Guelph","CA",43.5459,-80.256,115760],
+  [467978,"Yelets","RU",52.6237,38.5017,115688],
+  [3114256,"Parla","ES",40.236,-3.7675,115611],
+  [1649881,"Batang","ID",-6.4846,110.7083,115537],
+  [511510,"Novo-Peredelkino","RU",55.6453,37.3358,115536],
+  [1277780,"Baidyabāti","IN",22.785,88.3259,115504],
+  [2327143,"Okigwe","NG",5.8292,7.3506,115499],
+  [1804169,"Lengshuijiang","CN",27.6881,111.4294,115399],
+  [1791536,"Tianfu","CN",37.2637,122.0523,115370],
+  [5412199,"Arvada","US",39.8028,-105.0875,115368],
+  [7870925,"East York","CA",43.6905,-79.3279,115365],
+  [1055429,"Toliara","MG",-23.35,43.6667,115319],
+  [2472706,"Bizerte","TN",37.2744,9.8739,115268],
+  [5780026,"Provo","US",40.2338,-111.6585,115264],
+  [3452525,"Pouso Alegre","BR",-22.23,-45.9364,115201],
+  [1276736,"Bastī","IN",26.7882,82.7162,115115],
+  [1680932,"Tuguegarao","PH",17.6158,121.7229,115105],
+  [4905687,"Peoria","US",40.6937,-89.589,115070],
+  [4998830,"Lansing","US",42.7325,-84.5555,115056],
+  [1791544,"Wenchang","CN",19.6157,110.7489,115000],
+  [1147290,"Balkh","AF",36.7564,66.8972,114883],
+  [2644487,"Lincoln","GB",53.2268,-0.5379,114879],
+  [1800498,"Mingshui","CN",36.7167,117.5,114858],
+  [684039,"Botoşani","RO",47.75,26.6667,114783],
+  [1218667,"Mary","TM",37.5938,61.8303,114680],
+  [1567788,"Sóc Trăng","VN",9.6,105.9719,114453],
+  [2191562,"Dunedin","NZ",-45.8742,170.5036,114347],
+  [1277599,"Balasore","IN",21.4927,86.9335,114321],
+  [1632998,"Pamanukan","ID",-6.2842,107.8106,114290],
+  [3463690,"Eunápolis","BR",-16.3775,-39.5803,114275],
+  [1569684,"Pleiku","VN",13.9833,108,114225],
+  [5343858,"Downey","US",33.94,-118.1326,114219],
+  [5992500,"Kingston","CA",44.2298,-76.481,114195],
+  [1785545,"Yuyao","CN",30.05,121.1494,114177],
+  [3182164,"Bergamo","IT",45.696,9.6672,114162],
+  [1628453,"Sawangan","ID",-6.4028,106.7744,114069],
+  [1272842,"Dharmavaram","IN",14.4144,77.7204,114050],
+  [300822,"Siirt","TR",37.9293,41.9413,114034],
+  [315373,"Erzincan","TR",39.7392,39.4902,114027],
+  [2419992,"Kankan","GN",10.3854,-9.3057,114009],
+  [4012406,"Cuauhtémoc","MX",28.4088,-106.8632,114007],
+  [3427408,"Villa Lugano","AR",-34.6791,-58.4726,114000],
+  [1281019,"Hotan","CN",37.1075,79.9355,114000],
+  [516264,"Ochakovo-Matveyevskoye","RU",55.6843,37.4465,114000],
+  [2491191,"Laghouat","DZ",33.8,2.8651,113872],
+  [3469136,"Botucatu","BR",-22.8858,-48.445,113862],
+  [1264111,"Māler Kotla","IN",30.5309,75.8795,113840],
+  [3995019,"Navojoa","MX",27.0703,-109.4437,113836],
+  [2327879,"Offa","NG",8.1491,4.7207,113830],
+  [1489530,"Tobol’sk","RU",58.1981,68.2546,113800],
+  [1252942,"Wardha","IN",20.7393,78.5978,113759],
+  [1798713,"Pingshan","CN",22.9938,114.7131,113631],
+  [3348078,"Cuito","AO",-12.3833,16.9333,113624],
+  [2035399,"Songyuan","CN",45.129,124.8277,113611],
+  [1801615,"Maba","CN",24.6841,113.5984,113609],
+  [3460170,"Jandira","BR",-23.5275,-46.9025,113605],
+  [1714201,"Dumaguete","PH",9.3072,123.3026,113541],
+  [7284830,"Budapest XIII. kerület","HU",47.5298,19.0807,113531],
+  [2862375,"Nippes","DE",50.9654,6.9531,113487],
+  [1856977,"Mishima","JP",35.1167,138.9167,113479],
+  [5334223,"Carlsbad","US",33.1581,-117.3506,113453],
+  [3101619,"Chorzów","PL",50.3058,18.9742,113430],
+  [909863,"Luanshya","ZM",-13.1367,28.4166,113365],
+  [3374333,"Praia","CV",14.9315,-23.5125,113364],
+  [5116495,"Elmhurst","US",40.7365,-73.8779,113364],
+  [5339840,"Costa Mesa","US",33.6411,-117.9187,113204],
+  [1268936,"Jhunjhunūn","IN",28.1256,75.398,113193],
+  [4164167,"Miami Gardens","US",25.942,-80.2456,113187],
+  [2129537,"Kitami","JP",43.8031,143.8908,113137],
+  [5443910,"Westminster","US",39.8367,-105.0372,113130],
+  [4005143,"Heroica Guaymas","MX",27.9193,-110.8975,113082],
+  [2653225,"Chesterfield","GB",53.25,-1.4167,113057],
+  [4903976,"North Peoria","US",40.7175,-89.5843,113004],
+  [4151316,"Clearwater","US",27.9659,-82.8001,113003],
+  [495344,"Shchelkovo","RU",55.925,37.9722,113000],
+  [5347335,"Fairfield","US",38.2494,-122.04,112970],
+  [324190,"Alanya","TR",36.5438,31.9998,112969],
+  [3557846,"Guanabacoa","CU",23.1252,-82.3007,112964],
+  [1162813,"Vihari","PK",30.0445,72.3556,112840],
+  [2034497,"Guangming","CN",45.3333,122.7833,112819],
+  [1257055,"Satara","IN",17.6859,73.9933,112793],
+  [2982652,"Rouen","FR",49.4431,1.0993,112787],
+  [1809077,"Haikou","CN",24.7799,102.5755,112644],
+  [1274767,"Chanduasi","IN",28.4518,78.7828,112635],
+  [1497917,"Nefteyugansk","RU",61.0998,72.6035,112632],
+  [2847736,"Reutlingen","DE",48.4914,9.2043,112627],
+  [5110918,"Bushwick","US",40.6943,-73.9187,112620],
+  [1795857,"Shaowu","CN",27.3409,117.4831,112585],
+  [1635111,"Mojokerto","ID",-7.4664,112.4338,112557],
+  [667873,"Satu Mare","RO",47.7993,22.8626,112490],
+  [1566166,"Thanh Hóa","VN",19.8,105.7667,112473],
+  [2036337,"Kaiyuan","CN",42.5331,124.0403,112462],
+  [1175156,"Kamalia","PK",30.7271,72.6461,112426],
+  [3640226,"Guanare","VE",9.0418,-69.7421,112286],
+  [5119167,"Gravesend","US",40.5976,-73.9651,112229],
+  [5043473,"Rochester","US",44.0216,-92.4699,112225],
+  [1203344,"Farīdpur","BD",23.6061,89.8406,112187],
+  [3587345,"Apopa","SV",13.8072,-89.1792,112158],
+  [1262710,"Mothīhāri","IN",26.6486,84.9166,112144],
+  [1274553,"Chās","IN",23.6356,86.1671,112141],
+  [625324,"Mazyr","BY",52.0495,29.2456,112137],
+  [1259297,"Pudukkottai","IN",10.3813,78.8214,112118],
+  [4890864,"Elgin","US",42.0373,-88.2812,112111],
+  [3646382,"Carúpano","VE",10.6652,-63.2539,112082],
+  [1258178,"Rewāri","IN",28.199,76.6183,112079],
+  [1259385,"Port Blair","IN",11.6661,92.7464,112050],
+  [3523183,"Minatitlán","MX",18.0001,-94.5569,112046],
+  [2343093,"Esuk Oron","NG",4.8029,8.2534,112033],
+  [2923544,"Fürth","DE",49.4759,10.9886,112025],
+  [1816790,"Beibei","CN",29.8274,106.4365,112019],
+  [5401395,"Temecula","US",33.4936,-117.1484,112011],
+  [5784549,"West Jordan","US",40.6097,-111.9391,111946],
+  [1586443,"Cà Mau","VN",9.1768,105.1524,111894],
+  [3451329,"Ribeirão Pires","BR",-23.7106,-46.4133,111888],
+  [170592,"Douma","SY",33.5718,36.4027,111864],
+  [159071,"Iringa","TZ",-7.7667,35.7,111820],
+  [2743477,"Zwolle","NL",52.5125,6.0944,111805],
+  [518659,"Novokuybyshevsk","RU",53.0959,49.9462,111800],
+  [119115,"Qūchān","IR",37.106,58.5096,111752],
+  [1255344,"Suriāpet","IN",17.1405,79.6205,111729],
+  [1241622,"Kandy","LK",7.2906,80.6336,111701],
+  [1277324,"Bangaon","IN",23.0455,88.8308,111693],
+  [5359488,"Inglewood","US",33.9617,-118.3531,111666],
+  [702972,"Lysychans’k","UA",48.9049,38.4421,111600],
+  [3465644,"Conselheiro Lafaiete","BR",-20.6603,-43.7861,111596],
+  [1274337,"Chhatarpur","IN",24.9177,79.5887,111594],
+  [460413,"Daugavpils","LV",55.8833,26.5333,111564],
+  [3451668,"Resende","BR",-22.4689,-44.4467,111514],
+  [2653266,"Chelmsford","GB",51.7358,0.4696,111511],
+  [124620,"Masjed Soleymān","IR",31.9364,49.3039,111510],
+  [1646492,"Cileunyi","ID",-6.9389,107.7528,111476],
+  [7302861,"Ashoknagar Kalyangarh","IN",22.8642,88.637,111475],
+  [1636884,"Magelang","ID",-7.4706,110.2178,111461],
+  [2991214,"Mulhouse","FR",47.752,7.3287,111430],
+  [3835994,"Santa Rosa","AR",-36.6167,-64.2833,111424],
+  [934765,"Beau Bassin-Rose Hill","MU",-20.2333,57.4661,111355],
+  [2227613,"Mbouda","CM",5.6261,10.2542,111320],
+  [3471697,"Araucária","BR",-25.5931,-49.4103,111302],
+  [1279390,"Achalpur","IN",21.2567,77.5101,111278],
+  [1261669,"Navadwīp","IN",23.4067,88.3686,111123],
+  [2328684,"Nsukka","NG",6.8578,7.3958,111017],
+  [2328952,"Nguru","NG",12.877,10.4554,111014],
+  [1812228,"Dongtai","CN",32.8523,120.3095,110988],
+  [1276856,"Bārsi","IN",18.2345,75.6928,110983],
+  [3471335,"Atibaia","BR",-23.1169,-46.5503,110968],
+  [3445446,"Várzea Paulista","BR",-23.2114,-46.8283,110936],
+  [1862636,"Hikone","JP",35.25,136.25,110925],
+  [1811729,"Encheng","CN",22.1866,112.3042,110921],
+  [738618,"Turhal","TR",40.3875,36.0811,110884],
+  [141679,"Bandar-e Anzalī","IR",37.4732,49.4579,110826],
+  [4722625,"Richardson","US",32.9482,-96.7297,110815],
+  [2339631,"Hadejia","NG",12.4535,10.0412,110753],
+  [1783940,"Zhuji","CN",29.7188,120.2423,110721],
+  [2987914,"Perpignan","FR",42.6976,2.8954,110706],
+  [4942618,"Lowell","US",42.6334,-71.3162,110699],
+  [4385018,"East Independence","US",39.0956,-94.3552,110675],
+  [3029241,"Caen","FR",49.1859,-0.3591,110624],
+  [1285173,"Yenangyaung","MM",20.465,94.8712,110553],
+  [5729485,"Gresham","US",45.4982,-122.4315,110553],
+  [5324200,"Antioch","US",38.0049,-121.8058,110542],
+  [934995,"Manzini","SZ",-26.4988,31.38,110537],
+  [6615440,"Delicias","ES",41.6493,-0.9076,110520],
+  [4931972,"Cambridge","US",42.3751,-71.1056,110402],
+  [1255491,"Sultānpur","IN",26.2579,82.0727,110368],
+  [2208032,"Tauranga","NZ",-37.6861,176.1667,110338],
+  [4471025,"High Point","US",35.9557,-80.0053,110268],
+  [5640350,"Billings","US",45.7833,-108.5007,110263],
+  [5089178,"Manchester","US",42.9956,-71.4548,110229],
+  [1859405,"Kiryū","JP",36.4,139.3333,110219],
+  [1639362,"Kresek","ID",-6.1314,106.3797,110182],
+  [618577,"Bender","MD",46.8316,29.4777,110175],
+  [971534,"Nelspruit","ZA",-25.4745,30.9703,110159],
+  [1646034,"Citeureup","ID",-6.4856,106.8819,110155],
+  [3399058,"Garanhuns","BR",-8.882,-36.5022,110085],
+  [2468369,"Gabès","TN",33.8815,10.0982,110075],
+  [1803367,"Qingnian","CN",36.8403,115.7118,110046],
+  [6947756,"Mendip","GB",51.2372,-2.6266,110000],
+  [99135,"Kufa","IQ",32.0511,44.4402,110000],
+  [933945,"Vacoas","MU",-20.2981,57.4783,110000],
+  [1028079,"Ressano Garcia","MZ",-25.4428,31.9953,110000],
+  [1496503,"Noyabrsk","RU",63.1931,75.4373,110000],
+  [2208485,"Zliten","LY",32.4674,14.5687,109972],
+  [1783988,"Mizhou","CN",35.9947,119.3975,109968],
+  [578740,"Bataysk","RU",47.1398,39.7518,109962],
+  [1803352,"Linshui","CN",36.4247,114.2047,109955],
+  [2037069,"Hailun","CN",47.4565,126.9537,109881],
+  [1278815,"Ambur","IN",12.7916,78.7164,109873],
+  [3050434,"Kecskemét","HU",46.9062,19.6913,109847],
+  [1538637,"Seversk","RU",56.6006,84.8864,109844],
+  [1043893,"Lichinga","MZ",-13.3128,35.2406,109839],
+  [5375911,"Murrieta","US",33.5539,-117.2139,109830],
+  [5416541,"Centennial","US",39.5792,-104.8769,109741],
+  [1795184,"Shilong","CN",23.1144,113.8472,109733],
+  [5387428,"Richmond","US",37.9358,-122.3477,109708],
+  [2393693,"Kandi","BJ",11.1342,2.9386,109701],
+  [5113779,"Corona","US",40.7471,-73.8601,109698],
+  [3471715,"Araruama","BR",-22.8728,-42.3431,109637],
+  [2034440,"Tieli","CN",46.9804,128.045,109636],
+  [3466692,"Catanduva","BR",-21.1378,-48.9728,109612],
+  [6949678,"Taitung City","TW",22.7583,121.1444,109584],
+  [2037685,"Dongxing","CN",45.3609,130.7868,109561],
+  [580724,"Arzamas","RU",55.3949,43.8399,109479],
+  [965528,"Phalaborwa","ZA",-23.943,31.1411,109468],
+  [2036973,"Heihe","CN",50.2441,127.4902,109427],
+  [5435464,"Pueblo","US",38.2545,-104.6091,109412],
+  [1784841,"Zhaotong","CN",27.3167,103.7167,109400],
+  [1269939,"Hoshangābād","IN",22.7475,77.7274,109358],
+  [2543549,"Larache","MA",35.1932,-6.1557,109294],
+  [2338403,"Ijebu-Igbo","NG",6.972,3.9994,109261],
+  [496638,"Sergiyev Posad","RU",56.3,38.1333,109252],
+  [3691148,"Tumbes","PE",-3.5669,-80.4515,109223],
+  [910111,"Livingstone","ZM",-17.8419,25.8543,109203],
+  [3836669,"San Rafael","AR",-34.6177,-68.3301,109163],
+  [2396518,"Port-Gentil","GA",-0.7193,8.7815,109163],
+  [2036671,"Hulan","CN",45.9833,126.6,109104],
+  [3617708,"Matagalpa","NI",12.9256,-85.9175,109089],
+  [1858910,"Komatsu","JP",36.4026,136.4509,109045],
+  [1500665,"Leninsk-Kuznetsky","RU",54.6567,86.1737,109023],
+  [1786546,"Zhongxiang","CN",31.1661,112.5831,108883],
+  [3462964,"Franco da Rocha","BR",-23.3217,-46.7269,108858],
+  [1861164,"Iwatsuki","JP",35.9647,139.6964,108833],
+  [4718097,"Pearland","US",29.5636,-95.286,108821],
+  [2037712,"Dehui","CN",44.5333,125.7,108818],
+  [4845193,"Waterbury","US",41.5582,-73.0515,108802],
+  [3031137,"Boulogne-Billancourt","FR",48.8355,2.2413,108782],
+  [3096880,"Kalisz","PL",51.7611,18.091,108759],
+  [2544001,"Ksar El Kebir","MA",35.0004,-5.9038,108753],
+  [1028918,"Pemba","MZ",-12.9739,40.5178,108737],
+  [6076211,"Moncton","CA",46.0945,-64.7965,108620],
+  [1256949,"Sawāi Mādhopur","IN",26.023,76.3441,108612],
+  [2319668,"Uromi","NG",6.7,6.3333,108608],
+  [1283460,"Dharān","NP",26.8144,87.2797,108600],
+  [1264621,"Madanapalle","IN",13.5503,78.5029,108593],
+  [158151,"Katumba","TZ",-9.2333,33.6167,108558],
+  [5407933,"West Covina","US",34.0686,-117.9389,108484],
+  [5503766,"Enterprise","US",36.0253,-115.2419,108481],
+  [1277240,"Bānsbāria","IN",22.9539,88.401,108474],
+  [3682018,"Girón","CO",7.0682,-73.1698,108466],
+  [2453348,"Mopti","ML",14.4843,-4.183,108456],
+  [1147540,"Baghlān","AF",36.1307,68.7083,108449],
+  [3529986,"Cuautitlán","MX",19.6705,-99.1799,108449],
+  [1226260,"Trincomalee","LK",8.5778,81.2289,108420],
+  [1687801,"Santiago","PH",16.6881,121.5487,108414],
+  [2651621,"Dagenham","GB",51.55,0.1667,108368],
+  [4589387,"North Charleston","US",32.8546,-79.9748,108304],
+  [286282,"Sohar","OM",24.3474,56.7094,108274],
+  [2035610,"Nehe","CN",48.4833,124.8333,108253],
+  [1500973,"Kyzyl","RU",51.7108,94.4534,108240],
+  [3468615,"Cabo Frio","BR",-22.8872,-42.0262,108239],
+  [515879,"Oktyabr’skiy","RU",54.4815,53.471,108200],
+  [1255264,"Tādepallegūdem","IN",16.8147,81.5272,108167],
+  [1650077,"Banyuwangi","ID",-8.2325,114.3576,108166],
+  [2347059,"Birnin Kebbi","NG",12.4539,4.1975,108164],
+  [1798760,"Pingliang","CN",35.5392,106.6861,108156],
+  [1688253,"Santa Cruz","PH",14.2814,121.4161,108145],
+  [2062338,"Rockingham","AU",-32.2768,115.7298,108022],
+  [5793933,"Everett","US",47.979,-122.2021,108010],
+  [378699,"An Nuhūd","SD",12.7,28.4333,108008],
+  [378231,"Atbara","SD",17.7022,33.9864,107930],
+  [1815251,"Jiangyin","CN",31.911,120.263,107918],
+  [1591474,"Bạc Liêu","VN",9.2941,105.7278,107911],
+  [4682464,"College Station","US",30.628,-96.3344,107889],
+  [4167499,"Palm Bay","US",28.0345,-80.5887,107888],
+  [1269388,"Jalpāiguri","IN",26.5167,88.7333,107832],
+  [2036595,"Jalai Nur","CN",49.45,117.7,107828],
+  [1851193,"Tajimi","JP",35.3167,137.1333,107818],
+  [2870221,"Moers","DE",51.4534,6.6326,107816],
+  [4169014,"Pompano Beach","US",26.2379,-80.1248,107762],
+  [3114965,"Ourense","ES",42.3367,-7.8641,107742],
+  [3925033,"Ji Paraná","BR",-10.8853,-61.9517,107697],
+  [2656192,"Basingstoke","GB",51.2625,-1.0871,107642],
+  [751077,"Bandırma","TR",40.3522,27.9767,107631],
+  [3906194,"Sacaba","BO",-17.398,-66.0382,107628],
+  [2643179,"Maidstone","GB",51.2667,0.5167,107627],
+  [89824,"Umm Qaşr","IQ",30.0362,47.9195,107620],
+  [1735076,"Butterworth","MY",5.3991,100.3638,107591],
+  [1795842,"Shaping","CN",22.7702,112.9578,107589],
+  [668872,"Râmnicu Vâlcea","RO",45.1,24.3667,107558],
+  [3130583,"Alcobendas","ES",40.5475,-3.642,107514],
+  [3471758,"Araras","BR",-22.3569,-47.3842,107463],
+  [3095049,"Koszalin","PL",54.1944,16.1722,107450],
+  [3453406,"Poá","BR",-23.5281,-46.3447,107432],
+  [1337248,"Sherpur","BD",25.0188,90.0175,107419],
+  [516436,"Obninsk","RU",55.0968,36.6101,107392],
+  [3384987,"Vitória de Santo Antão","BR",-8.1181,-35.2914,107383],
+  [150006,"Shinyanga","TZ",-3.6639,33.4212,107362],
+  [5574991,"Boulder","US",40.015,-105.2705,107349],
+  [3445782,"Umuarama","BR",-23.7664,-53.325,107319],
+  [2886946,"Koblenz","DE",50.3536,7.5788,107319],
+  [2832495,"Siegen","DE",50.8748,8.0243,107242],
+  [1283613,"Bharatpur","NP",27.6768,84.4359,107157],
+  [288955,"As Suwayq","OM",23.8494,57.4386,107143],
+  [5377995,"Norwalk","US",33.9022,-118.0817,107140],
+  [3164419,"Vicenza","IT",45.5467,11.5475,107129],
+  [3111933,"Reus","ES",41.1561,1.1069,107118],
+  [1861864,"Iida","JP",35.5197,137.8207,107111],
+  [215976,"Ilebo","CD",-4.3311,20.5864,107093],
+  [3471910,"Apucarana","BR",-23.5508,-51.4608,107085],
+  [1560037,"Yên Vinh","VN",18.6667,105.6667,107082],
+  [789225,"Mitrovicë","XK",42.8833,20.8667,107045],
+  [2636486,"Sutton Coldfield","GB",52.5667,-1.8167,107030],
+  [2558470,"Khemisset","MA",33.824,-6.0663,106991],
+  [563514,"Elista","RU",46.3078,44.2558,106971],
+  [1290596,"Taungoo","MM",18.9429,96.4341,106945],
+  [2656046,"Bedford","GB",52.1346,-0.4663,106940],
+  [3644417,"Ejido","VE",8.5467,-71.2409,106915],
+  [361179,"Al Ḩawāmidīyah","EG",29.9,31.25,106841],
+  [3646190,"Catia La Mar","VE",10.6055,-67.0324,106822],
+  [1803886,"Lianran","CN",24.9227,102.485,106795],
+  [4177887,"West Palm Beach","US",26.7153,-80.0534,106779],
+  [1607017,"Rayong","TH",12.681,101.258,106737],
+  [1274040,"Chittaurgarh","IN",24.8896,74.624,106710],
+  [1864031,"Fukayachō","JP",36.2,139.2833,106595],
+  [569273,"Cherëmushki","RU",55.6647,37.5614,106587],
+  [2740637,"Coimbra","PT",40.2056,-8.4195,106582],
+  [4531405,"Broken Arrow","US",36.0526,-95.7908,106563],
+  [5341430,"Daly City","US",37.7058,-122.4619,106562],
+  [2694762,"Linköping","SE",58.4109,15.6216,106502],
+  [1646678,"Cikarang","ID",-6.2611,107.1528,106479],
+  [2035970,"Longjiang","CN",47.3307,123.1782,106384],
+  [1897118,"Hwado","KR",37.6525,127.3075,106358],
+  [1816221,"Buhe","CN",30.2876,112.2298,106347],
+  [2324857,"Pindiga","NG",9.9843,10.9523,106322],
+  [2790471,"Namur","BE",50.4669,4.8675,106284],
+  [1271662,"Gangāwati","IN",15.4313,76.5293,106250],
+  [688105,"Yevpatoriya","UA",45.2009,33.3665,106202],
+  [517836,"Novotroitsk","RU",51.203,58.3267,106186],
+  [2950349,"Bergisch Gladbach","DE",50.9856,7.133,106184],
+  [2160517,"Launceston","AU",-41.4388,147.1347,106153],
+  [3450269,"Santa Cruz do Sul","BR",-29.7175,-52.4258,106113],
+  [3093692,"Legnica","PL",51.2101,16.1619,106033],
+  [295620,"Ashkelon","IL",31.6693,34.5715,105995],
+  [6354908,"Sydney","CA",46.1351,-60.1831,105968],
+  [566532,"Derbent","RU",42.0678,48.2899,105965],
+  [1784820,"Xinghua","CN",32.9392,119.8342,105918],
+  [1266607,"Khurja","IN",28.2538,77.8554,105909],
+  [1700360,"Mati","PH",6.9551,126.2166,105908],
+  [3461859,"Guaratinguetá","BR",-22.8164,-45.1925,105880],
+  [1651226,"Arjawinangun","ID",-6.6453,108.4103,105845],
+  [665850,"Suceava","RO",47.6333,26.25,105796],
+  [2508287,"Aïn Beïda","DZ",35.7964,7.3928,105765],
+  [2348595,"Azare","NG",11.6748,10.1907,105687],
+  [1671566,"Nantou","TW",23.9157,120.6639,105682],
+  [1817990,"Anqiu","CN",36.4342,119.1925,105665],
+  [1733953,"Lahad Datu","MY",5.023,118.329,105622],
+  [1259411,"Ponnāni","IN",10.767,75.9252,105512],
+  [1683013,"Tanza","PH",14.6753,120.9389,105510],
+  [3632929,"Mariara","VE",10.2953,-67.7177,105486],
+  [1185263,"Bhairab Bāzār","BD",24.0524,90.9764,105457],
+  [1793036,"Chengtangcun","CN",35.0836,117.1907,105456],
+  [2505653,"Baraki","DZ",36.6666,3.0961,105402],
+  [2990999,"Nancy","FR",48.6844,6.185,105334],
+  [4221333,"Sandy Springs","US",33.9243,-84.3785,105330],
+  [5331835,"Burbank","US",34.1808,-118.309,105319],
+  [963516,"Queenstown","ZA",-31.8976,26.8753,105309],
+  [1580830,"Hòa Bình","VN",20.8172,105.3376,105260],
+  [5254962,"Green Bay","US",44.5192,-88.0198,105207],
+  [105299,"Jizan","SA",16.8892,42.5511,105198],
+  [3515715,"Texcoco de Mora","MX",19.5119,-98.8829,105165],
+  [5393180,"Santa Maria","US",34.953,-120.4357,105093],
+  [3458498,"Linhares","BR",-19.3911,-40.0722,105075],
+  [3407357,"Araguaína","BR",-7.1911,-48.2072,105019],
+  [1276895,"Barnāla","IN",30.3745,75.5487,105016],
+  [5404794,"Universal City","US",34.1389,-118.3534,105000],
+  [3116156,"Moratalaz","ES",40.4074,-3.6493,104923],
+  [1807544,"Daxing","CN",39.7403,116.3269,104904],
+  [4004867,"Parral","MX",26.9302,-105.6664,104836],
+  [141584,"Bāneh","IR",35.9975,45.8853,104799],
+  [2641022,"Oldham","GB",53.5405,-2.1183,104782],
+  [1665196,"Douliu","TW",23.7094,120.5433,104723],
+  [2895044,"Jena","DE",50.9288,11.5899,104712],
+  [4741752,"Wichita Falls","US",33.9137,-98.4934,104710],
+  [2921232,"Gera","DE",50.8803,12.0819,104659],
+  [1277976,"Badlapur","IN",19.1552,73.2655,104636],
+  [2769359,"Ottakring","AT",48.2167,16.3,104627],
+  [99446,"Al Fāw","IQ",29.9742,48.4731,104569],
+  [1645518,"Depok","ID",-7.7625,110.4317,104527],
+  [3194828,"Mostar","BA",43.3433,17.8081,104518],
+  [4161438,"Lakeland","US",28.0395,-81.9498,104401],
+  [1516589,"Zhezqazghan","KZ",47.7833,67.7667,104357],
+  [1848445,"Honmachi","JP",32.5044,130.5995,104341],
+  [3427833,"Tandil","AR",-37.3217,-59.1332,104325],
+  [7281020,"Lo Prado","CL",-33.4443,-70.7255,104316],
+  [1798490,"Pulandian","CN",39.3953,121.9669,104277],
+  [2706767,"Helsingborg","SE",56.0467,12.6944,104250],
+  [1173378,"Kot Addu","PK",30.4691,70.967,104217],
+  [339666,"Bishoftu","ET",8.7523,38.9785,104215],
+  [2366152,"Kara","TG",9.5511,1.1861,104207],
+  [5338122,"Clovis","US",36.8252,-119.7029,104180],
+  [1800829,"Wuchuan","CN",21.4571,110.7659,104168],
+  [688148,"Yenakiyeve","UA",48.2333,38.2114,104101],
+  [4706057,"Lewisville","US",33.0462,-96.9942,104039],
+  [2293549,"Abengourou","CI",6.7297,-3.4964,104020],
+  [1861212,"Iwakuni","JP",34.163,132.22,104004],
+  [1430991,"Soyībug","IN",34.0768,74.7057,104000],
+  [554787,"Izmaylovo","RU",55.7868,37.8017,104000],
+  [1503277,"Kiselëvsk","RU",53.99,86.6621,104000],
+  [986846,"Kroonstad","ZA",-27.6504,27.2349,103992],
+  [2036418,"Jishu","CN",44.3167,126.8,103988],
+  [2649997,"Enfield Town","GB",51.6515,-0.085,103970],
+  [380173,"Ed Damer","SD",17.599,33.9721,103941],
+  [2633709,"Woking","GB",51.319,-0.5589,103932],
+  [2258261,"Dolisie","CG",-4.1983,12.6666,103894],
+  [1258044,"Roorkee","IN",29.8663,77.8912,103894],
+  [1277939,"Bagaha","IN",27.0992,84.09,103855],
+  [1784185,"Yuxi","CN",24.355,102.5422,103829],
+  [2873074,"Marzahn","DE",52.5453,13.5698,103768],
+  [2328811,"Nkpor","NG",6.1504,6.8304,103733],
+  [1269934,"Hosūr","IN",12.7365,77.8326,103724],
+  [4738214,"Tyler","US",32.3513,-95.3011,103700],
+  [1282027,"Male","MV",4.1752,73.5092,103693],
+  [5345529,"El Cajon","US",32.7948,-116.9625,103679],
+  [1141857,"Gardez","AF",33.5974,69.2259,103601],
+  [607610,"Zhanaozen","KZ",43.3412,52.8619,103598],
+  [358821,"Bilqās","EG",31.2145,31.358,103596],
+  [5392423,"San Mateo","US",37.563,-122.3255,103536],
+  [1273892,"Chūru","IN",28.3042,74.9672,103533],
+  [1262209,"Nagda","IN",23.4583,75.4176,103501],
+  [4148757,"Brandon","US",27.9378,-82.2859,103483],
+  [1631393,"Prabumulih","ID",-3.4345,104.2306,103470],
+  [1607708,"Phitsanulok","TH",16.8248,100.2586,103427],
+  [1861449,"Isehara","JP",35.3993,139.3102,103401],
+  [2264268,"Queluz","PT",38.7566,-9.2545,103399],
+  [1855189,"Nishio","JP",34.8667,137.05,103337],
+  [1562693,"Vĩnh Long","VN",10.2537,105.9722,103314],
+  [8504958,"Akademicheskoe","RU",60.0138,30.3947,103304],
+  [298806,"Turgutlu","TR",38.4953,27.6997,103292],
+  [3464008,"Esmeraldas","BR",-19.7625,-44.3139,103206],
+  [3595803,"Escuintla","GT",14.3009,-90.7858,103165],
+  [476077,"Velikiye Luki","RU",56.34,30.5452,103149],
+  [1267579,"Kashipur","IN",29.214,78.9569,103138],
+  [5387288,"Rialto","US",34.1064,-117.3703,103132],
+  [1271306,"Ghazīpur","IN",25.5833,83.5853,103095],
+  [1276609,"Begusarai","IN",25.4185,86.1339,103060],
+  [2338287,"Ikere-Ekiti","NG",7.4975,5.2304,103054],
+  [2904789,"Hildesheim","DE",52.1508,9.9511,103052],
+  [1214073,"Rantauprapat","ID",2.1,99.8333,103009],
+  [575505,"Bogorodskoye","RU",55.8135,37.7162,103000],
+  [698625,"Oleksandriya","UA",48.6696,33.1159,103000],
+  [108648,"Qurayyat","SA",31.3318,37.3428,102903],
+  [3488981,"Portmore","JM",17.9503,-76.8821,102861],
+  [3545064,"Palma Soriano","CU",20.2113,-75.9936,102826],
+  [503977,"Pushkino","RU",56.0172,37.8667,102816],
+  [1173687,"Khushāb","PK",32.2967,72.3525,102793],
+  [2332504,"Lafiagi","NG",8.853,5.4164,102779],
+  [1215412,"Belawan","ID",3.7755,98.6832,102707],
+  [1691444,"Roxas City","PH",11.5853,122.7511,102688],
+  [670889,"Piatra Neamţ","RO",46.9167,26.3333,102688],
+  [2929567,"Erlangen","DE",49.591,11.0078,102675],
+  [3817746,"Tepexpan","MX",19.6139,-98.9364,102667],
+  [4853423,"Davenport","US",41.5236,-90.5776,102582],
+  [2638785,"St Helens","GB",53.45,-2.7333,102555],
+  [5097529,"Edison","US",40.5187,-74.4121,102548],
+  [3347762,"Lubango","AO",-14.9172,13.4925,102541],
+  [2425791,"Sarh","TD",9.1429,18.3923,102528],
+  [1272805,"Dhaulpur","IN",26.6929,77.8797,102462],
+  [1162456,"Wazirabad","PK",32.4432,74.12,102444],
+  [3892870,"Curicó","CL",-34.9828,-71.2394,102438],
+  [3509382,"Concepción de La Vega","DO",19.2221,-70.5296,102426],
+  [1185121,"Shāhzādpur","BD",24.1769,89.5988,102420],
+  [3515062,"Tulancingo","MX",20.0836,-98.3629,102406],
+  [776251,"Bemowo","PL",52.2546,20.9084,102393],
+  [6544106,"Ciutat Vella","ES",41.3802,2.1732,102347],
+  [5731371,"Hillsboro","US",45.5229,-122.9898,102347],
+  [678817,"Drobeta-Turnu Severin","RO",44.6269,22.6529,102346],
+  [1263494,"Mormugao","IN",15.3891,73.8149,102345],
+  [1805270,"Qianzhou","CN",28.3193,109.7335,102332],
+  [2027456,"Artëm","RU",43.3595,132.1889,102300],
+  [3469989,"Birigui","BR",-21.2886,-50.34,102277],
+  [479411,"Ukhta","RU",63.5671,53.6835,102187],
+  [1271883,"Ferozepore","IN",30.9257,74.6131,102130],
+  [1861602,"Inazawa","JP",35.25,136.7833,102130],
+  [1707404,"Laoag","PH",18.1978,120.5957,102105],
+  [2212771,"Şabrātah","LY",32.7933,12.4885,102038],
+  [358108,"Disūq","EG",31.1326,30.6478,102037],
+  [495136,"Shchukino","RU",55.8,37.45,102000],
+  [571741,"Brateyevo","RU",55.6376,37.7644,102000],
+  [1019760,"Bethal","ZA",-26.4579,29.4655,101919],
+  [1692520,"Pulong Santa Cruz","PH",14.2732,121.0764,101914],
+  [1626916,"Singkawang","ID",0.9093,108.9846,101838],
+  [3518723,"Tuxtepec","MX",18.0883,-96.1253,101810],
+  [1270994,"Gondal","IN",21.9607,70.8026,101801],
+  [2510253,"Torrevieja","ES",37.9787,-0.6822,101792],
+  [1624041,"Ternate","ID",0.7907,127.3842,101731],
+  [6074377,"Milton","CA",43.5168,-79.8829,101715],
+  [1648186,"Bontang","ID",0.1324,117.4854,101691],
+  [5937615,"Delta","CA",49.144,-122.9068,101668],
+  [121380,"Pārsābād","IR",39.6482,47.9174,101661],
+  [2633563,"Worcester","GB",52.1894,-2.22,101659],
+  [5475352,"Las Cruces","US",32.3123,-106.7783,101643],
+  [287830,"‘Ibrī","OM",23.2257,56.5157,101640],
+  [1180281,"Dera Ismail Khan","PK",31.8313,70.9017,101616],
+  [622428,"Salihorsk","BY",52.7876,27.5415,101614],
+  [3044774,"Székesfehérvár","HU",47.19,18.4103,101600],
+  [3471374,"Assis","BR",-22.6617,-50.4122,101597],
+  [3675595,"Malambo","CO",10.8595,-74.7739,101534],
+  [4926563,"South Bend","US",41.6834,-86.25,101516],
+  [1504682,"Kansk","RU",56.2017,95.7175,101502],
+  [3037044,"Argenteuil","FR",48.9479,2.2474,101475],
+  [2765028,"Simmering","AT",48.1833,16.4333,101420],
+  [741385,"Mustafakemalpaşa","TR",40.0382,28.4087,101412],
+  [1256826,"Seoni","IN",22.085,79.5504,101379],
+  [5935277,"Dartmouth","CA",44.6713,-63.5772,101343],
+  [625625,"Maladzyechna","BY",54.3167,26.854,101300],
+  [1269605,"Jagādhri","IN",30.1672,77.3037,101300],
+  [3069011,"Olomouc","CZ",49.5955,17.2518,101268],
+  [2807363,"Witten","DE",51.4436,7.3526,101247],
+  [1263012,"Miriālgūda","IN",16.8722,79.5625,101234],
+  [3470451,"Barretos","BR",-20.5572,-48.5678,101220],
+  [2298330,"Medina Estates","GH",5.6658,-0.1631,101207],
+  [1181636,"Chakwal","PK",32.9329,72.8539,101200],
+  [2188164,"Lower Hutt","NZ",-41.2167,174.9167,101194],
+  [3465944,"Colatina","BR",-19.5394,-40.6306,101190],
+  [2648657,"Gillingham","GB",51.3891,0.5486,101187],
+  [3446621,"Teófilo Otoni","BR",-17.8575,-41.5053,101170],
+  [1850152,"Tokuyama","JP",34.05,131.8167,101133],
+  [1892823,"Tonghae","KR",37.5439,129.1069,101128],
+  [616530,"Vanadzor","AM",40.8046,44.4939,101098],
+  [588335,"Tartu","EE",58.3806,26.7251,101092],
+  [964315,"Mokopane","ZA",-24.1944,29.0097,101090],
+  [2842150,"Salzgitter","DE",52.1571,10.4154,101079],
+  [1253958,"Udgīr","IN",18.3926,77.1176,101064],
+  [1680197,"Urdaneta","PH",15.9761,120.5711,101037],
+  [1498920,"Mezhdurechensk","RU",53.6942,88.0603,101026],
+  [3473964,"Guaíba","BR",-30.1139,-51.325,101024],
+  [1710141,"Jolo","PH",6.0522,121.0022,101002],
+  [508751,"Ryazanskiy","RU",55.7333,37.7667,101000],
+  [517161,"Novyye Cherëmushki","RU",55.7,37.5833,101000],
+  [1797551,"Qinzhou","CN",21.973,108.6261,100996],
+  [3461888,"Guarapari","BR",-20.6718,-40.502,100925],
+  [3465476,"Coronel Fabriciano","BR",-19.5186,-42.6289,100916],
+  [783263,"Elbasan","AL",41.1125,20.0822,100903],
+  [5406602,"Vista","US",33.2,-117.2425,100890],
+  [624784,"Navapolatsk","BY",55.5318,28.5987,100885],
+  [5577592,"Greeley","US",40.4233,-104.7091,100883],
+  [4152820,"Davie","US",26.0629,-80.2331,100882],
+  [2267827,"Funchal","PT",32.6657,-16.9255,100847],
+  [2484620,"Oum el Bouaghi","DZ",35.8754,7.1135,100821],
+  [491023,"Solikamsk","RU",59.6316,56.7685,100812],
+  [3610613,"El Progreso","HN",15.4,-87.8,100810],
+  [1269374,"Jamālpur","IN",25.3126,86.4889,100780],
+  [3460899,"Itaguaí","BR",-22.8522,-43.7753,100752],
+  [1261931,"Nandurbar","IN",21.3667,74.2405,100703],
+  [362485,"Abū Kabīr","EG",30.7251,31.6715,100684],
+  [561347,"Glazov","RU",58.1393,52.658,100676],
+  [2292852,"Anyama","CI",5.4946,-4.0518,100653],
+  [261414,"Kallithéa","GR",37.95,23.7,100641],
+  [2111684,"Narita","JP",35.7833,140.3167,100641],
+  [3708306,"Juan Díaz","PA",9.05,-79.45,100636],
+  [2176187,"Bendigo","AU",-36.7582,144.2802,100617],
+  [1643761,"Grogol","ID",-7.6011,110.8186,100613],
+  [1861091,"Izumisano","JP",34.4167,135.3167,100595],
+  [1269653,"Itārsi","IN",22.6148,77.7622,100574],
+  [5336477,"Chinatown","US",37.7966,-122.4086,100574],
+  [1214369,"Padangsidempuan","ID",1.3795,99.2715,100561],
+  [350789,"Qalyūb","EG",30.1792,31.2056,100495],
+  [1253367,"Vasco da Gama","IN",15.3959,73.8157,100485],
+  [5530022,"San Angelo","US",31.4638,-100.437,100450],
+  [1853140,"Sakata","JP",38.9167,139.855,100446],
+  [1858836,"Kōnan","JP",35.3317,136.8704,100389],
+  [1864572,"Chikushino-shi","JP",33.4963,130.5156,100353],
+  [1804120,"Lianjiang","CN",21.6467,110.2817,100341],
+  [1803334,"Linxi","CN",39.7118,118.4495,100316],
+  [3675692,"Magangué","CO",9.242,-74.7547,100313],
+  [2244616,"Tiébo","SN",14.6333,-16.2333,100289],
+  [2013952,"Ust’-Ilimsk","RU",58.0006,102.6619,100271],
+  [5808189,"Renton","US",47.4829,-122.2171,100242],
+  [737022,"Zonguldak","TR",41.4514,31.7931,100229],
+  [126409,"Kūhdasht","IR",33.5334,47.61,100208],
+  [1242110,"Kalmunai","LK",7.409,81.8347,100171],
+  [1259827,"Phagwāra","IN",31.2245,75.7739,100146],
+  [2821164,"Trier","DE",49.7557,6.6394,100129],
+  [3494242,"Punta Cana","DO",18.5818,-68.4043,100023],
+  [2510542,"Telde","ES",27.9924,-15.4191,100015],
+  [3451205,"Rio das Ostras","BR",-22.5269,-41.945,100000],
+  [1785036,"Zhangye","CN",38.9342,100.4517,100000],
+  [1802171,"Kangding","CN",30.0022,101.9569,100000],
+  [3569370,"Alamar","CU",23.1579,-82.2784,100000],
+  [2486690,"M’Sila","DZ",35.7058,4.5419,100000],
+  [6690870,"Becontree","GB",51.5529,0.129,100000],
+  [1626100,"Sumedang Utara","ID",-6.85,107.9167,100000],
+  [293253,"Jaffa","IL",32.0504,34.7522,100000],
+  [7279599,"Airoli","IN",19.151,72.9963,100000],
+  [1871871,"P’yŏngsŏng","KP",39.2464,125.8719,100000],
+  [2210394,"Tagiura","LY",32.8817,13.3506,100000],
+  [7280711,"Colonia Lindavista","MX",19.4916,-99.1248,100000],
+  [3189595,"Subotica","RS",46.1,19.6667,100000],
+  [483826,"Tekstil’shchiki","RU",55.7003,37.7427,100000],
+  [706950,"Kamianets-Podilskyi","UA",48.6845,26.5856,100000],
+  [4782167,"Roanoke","US",37.271,-79.9414,99897],
+  [5258393,"Kenosha","US",42.5847,-87.8212,99858],
+  [3440714,"Salto","UY",-31.3833,-57.9667,99823],
+  [1849563,"Tsuruoka","JP",38.7217,139.8217,99820],
+  [1611269,"Chanthaburi","TH",12.6096,102.1045,99819],
+  [1812256,"Dongsheng","CN",39.8161,109.9776,99809],
+  [4989133,"Clinton Township","US",42.587,-82.9199,99753],
+  [1278715,"Amreli","IN",21.5998,71.2117,99742],
+  [1256529,"Shikohābād","IN",27.108,78.5866,99678],
+  [4352053,"Columbia","US",39.2404,-76.8394,99615],
+  [463835,"Zelenodolsk","RU",55.8438,48.5178,99600],
+  [107797,"Dhahran","SA",26.2886,50.114,99540],
+  [167357,"Manbij","SY",36.5281,37.9549,99497],
+  [3460960,"Itabira","BR",-19.6192,-43.2269,99496],
+  [3098218,"Grudziądz","PL",53.4841,18.7537,99486],
+  [2487772,"Messaad","DZ",34.1543,3.5031,99485],
+  [517963,"Novoshakhtinsk","RU",47.7604,39.9334,99478],
+  [1861795,"Ikeda","JP",34.8221,135.4298,99476],
+  [5188843,"Erie","US",42.1292,-80.0851,99475],
+  [1267588,"Kāsganj","IN",27.8088,78.6458,99462],
+  [361661,"Akhmīm","EG",26.5622,31.7457,99446],
+  [2035801,"Meihekou","CN",42.5272,125.6753,99419],
+  [3444866,"Votorantim","BR",-23.5467,-47.4378,99390],
+  [360716,"Al Maţarīyah","EG",31.1829,32.0311,99357],
+  [2454268,"Koutiala","ML",12.3917,-5.4642,99353],
+  [265488,"Acharnés","GR",38.0833,23.7333,99346],
+  [6166142,"Thunder Bay","CA",48.382,-89.2502,99334],
+  [935221,"Saint-Paul","RE",-21.0096,55.2713,99307],
+  [1256913,"Sehore","IN",23.2,77.0833,99284],
+  [63795,"Burao","SO",9.5221,45.5336,99270],
+  [141736,"Bam","IR",29.106,58.357,99268],
+  [304854,"Manavgat","TR",36.7867,31.4431,99254],
+  [3447651,"Sertãozinho","BR",-21.1378,-47.9903,99211],
+  [6324733,"St. John's","CA",47.5649,-52.7093,99182],
+  [888710,"Kwekwe","ZW",-18.9281,29.8149,99149],
+  [2633521,"Worthing","GB",50.818,-0.3754,99110],
+  [1258474,"Rānībennur","IN",14.6224,75.6295,99105],
+  [1336136,"Bhola","BD",22.6876,90.644,99079],
+  [3691582,"Talara","PE",-4.5772,-81.2719,99074],
+  [3181913,"Bolzano","IT",46.4907,11.3398,99049],
+  [4780011,"Portsmouth Heights","US",36.821,-76.3688,99049],
+  [1269562,"Jagtiāl","IN",18.7947,78.9166,99035],
+  [4018400,"Apatzingán","MX",19.0886,-102.357,99010],
+  [3449948,"Santana de Parnaíba","BR",-23.4442,-46.9178,98989],
+  [5133825,"Richmond Hill","US",40.6998,-73.8312,98984],
+  [2033766,"Xingcheng","CN",40.6167,120.7167,98968],
+  [1803245,"Lishui","CN",28.4604,119.9103,98946],
+  [3471196,"Bagé","BR",-31.3314,-54.1069,98940],
+  [746881,"Giresun","TR",40.917,38.3874,98864],
+  [2505629,"Barika","DZ",35.389,5.3658,98846],
+  [498687,"Sarapul","RU",56.4763,53.7978,98830],
+  [649360,"Lahti","FI",60.9827,25.6615,98826],
+  [2803560,"Zwickau","DE",50.7272,12.4884,98796],
+  [2334008,"Kontagora","NG",10.4032,5.4708,98754],
+  [3454847,"Passos","BR",-20.7189,-46.6097,98752],
+  [1647866,"Bukittinggi","ID",-0.3091,100.3706,98746],
+  [2894003,"Kaiserslautern","DE",49.443,7.7716,98732],
+  [4670249,"Alief","US",29.7111,-95.5963,98725],
+  [1252416,"Thimphu","BT",27.4661,89.6419,98676],
+  [1724489,"Bocaue","PH",14.7983,120.9261,98649],
+  [1276325,"Bhadrakh","IN",21.0545,86.5156,98648],
+  [471430,"Votkinsk","RU",57.0487,53.9872,98633],
+  [4173838,"Spring Hill","US",28.4769,-82.5255,98621],
+  [3085450,"Słupsk","PL",54.4641,17.0287,98608],
+  [1797181,"Renqiu","CN",38.6989,116.0936,98569],
+  [1275103,"Būndi","IN",25.4386,75.6374,98569],
+  [3565432,"Cárdenas","CU",23.0366,-81.206,98515],
+  [3374036,"Bridgetown","BB",13.1073,-59.6202,98511],
+  [5106834,"Albany","US",42.6526,-73.7562,98469],
+  [5339066,"Compton","US",33.8959,-118.2201,98462],
+  [3109453,"Barakaldo","ES",43.2964,-2.9881,98460],
+  [1492663,"Serov","RU",59.6033,60.5787,98438],
+  [274874,"Habboûch","LB",33.4073,35.4817,98433],
+  [1788638,"Xinshi","CN",31.047,113.141,98422],
+  [3450594,"Salto","BR",-23.2008,-47.2869,98387],
+  [7284831,"Budapest IV. kerület","HU",47.5618,19.0891,98374],
+  [144410,"Akbarābād","IR",29.2464,52.7793,98342],
+  [3183072,"Andria","IT",41.2312,16.298,98342],
+  [4094455,"Tuscaloosa","US",33.2098,-87.5692,98332],
+  [4705692,"League City","US",29.5075,-95.0949,98312],
+  [4992982,"Flint","US",43.0125,-83.6875,98310],
+  [1812057,"Xinyi","CN",22.373,110.9475,98259],
+  [108927,"Al Qaţīf","SA",26.5654,50.0089,98259],
+  [1253993,"Ooty","IN",11.4134,76.6952,98238],
+  [2548526,"Guelmim","MA",28.987,-10.0574,98229],
+  [4002224,"Lagos de Moreno","MX",21.3567,-101.9377,98206],
+  [2038080,"Chengzihe","CN",45.3333,131.0667,98188],
+  [1292037,"Thayetmyo","MM",19.3208,95.1827,98185],
+  [1803616,"Xishan","CN",27.6667,113.5,98162],
+  [4670300,"Allen","US",33.1032,-96.6705,98143],
+  [579460,"Balashov","RU",51.5502,43.1667,98107],
+  [1645154,"Dukuhturi","ID",-6.9,109.0833,98074],
+  [134721,"Fasā","IR",28.9383,53.6482,98061],
+  [1262634,"Mughal Sarāi","IN",25.2831,83.1197,98043],
+  [626081,"Lida","BY",53.8833,25.2997,98036],
+  [170905,"Dar‘ā","SY",32.6189,36.1021,97969],
+  [1256671,"Shāmli","IN",29.4497,77.3096,97966],
+  [2177091,"Ballarat","AU",-37.5662,143.8496,97937],
+  [2895669,"Iserlohn","DE",51.3755,7.7028,97910],
+  [463343,"Zheleznogorsk","RU",52.331,35.3711,97900],
+  [3445859,"Ubá","BR",-21.12,-42.9428,97828],
+  [3455729,"Ourinhos","BR",-22.9789,-49.8706,97799],
+  [2043835,"Hyesan-dong","KP",41.3954,128.1875,97794],
+  [3516035,"Temixco","MX",18.8525,-99.2254,97788],
+  [3071961,"Liberec","CZ",50.7671,15.0562,97770],
+  [3165072,"Udine","IT",46.0693,13.2372,97761],
+  [4013714,"Ciudad Guzmán","MX",19.7047,-103.4617,97750],
+  [1839726,"Asan","KR",36.7836,127.0042,97749],
+  [2473247,"Ariana","TN",36.8601,10.1934,97687],
+  [2771706,"Meidling","AT",48.1667,16.3333,97624],
+  [1808212,"Hechuan","CN",29.9923,106.2646,97575],
+  [1270077,"Hinganghāt","IN",20.5487,78.8398,97568],
+  [2639272,"Rochdale","GB",53.6177,-2.1552,97550],
+  [3530367,"Comitán","MX",16.2471,-92.1351,97537],
+  [3446038,"Trindade","BR",-16.6494,-49.4889,97521],
+  [3471798,"Arapongas","BR",-23.4194,-51.4244,97512],
+  [3723593,"Jérémie","HT",18.65,-74.1167,97503],
+  [229268,"Mbarara","UG",-0.6047,30.6485,97500],
+  [744562,"Karabük","TR",41.2049,32.6277,97481],
+  [1788508,"Xinyu","CN",27.8043,114.9334,97480],
+  [1624725,"Tarakan","ID",3.3133,117.5915,97478],
+  [6176823,"Waterloo","CA",43.4668,-80.5164,97475],
+  [2523083,"Siracusa","IT",37.0754,15.2866,97472],
+  [290332,"Al Muharraq","BH",26.2572,50.6119,97458],
+  [980921,"Mabopane","ZA",-25.4977,28.1007,97417],
+  [1298987,"Pyinmana","MM",19.7381,96.2074,97409],
+  [1253166,"Villupuram","IN",11.9398,79.4924,97380],
+  [1861464,"Isahaya","JP",32.8411,130.0431,97371],
+  [1278931,"Amalner","IN",21.0398,75.0589,97369],
+  [2333604,"Kuje","NG",8.8795,7.2276,97367],
+  [1164216,"Swabi","PK",34.1202,72.4698,97363],
+  [1517945,"Turkestan","KZ",43.2973,68.2518,97360],
+  [2756987,"Deventer","NL",52.255,6.1639,97331],
+  [3868192,"Villa Alemana","CL",-33.0422,-71.3733,97320],
+  [2111855,"Mobara","JP",35.4258,140.2961,97315],
+  [1861450,"Ise","JP",34.4833,136.7,97314],
+  [1614295,"Pattaya","TH",12.9333,100.8833,97296],
+  [1277936,"Bagalkot","IN",16.1867,75.6961,97269],
+  [1171965,"Lodhran","PK",29.5339,71.6324,97249],
+  [1254780,"Tellicherry","IN",11.7481,75.4929,97201],
+  [462755,"Zhukovskiy","RU",55.5953,38.1203,97200],
+  [1261848,"Narasaraopet","IN",16.2349,80.0493,97194],
+  [1860635,"Kameoka","JP",35,135.5833,97181],
+  [665010,"Târgu Jiu","RO",45.05,23.2833,97179],
+  [3598529,"Chinautla","GT",14.7029,-90.4998,97172],
+  [5373763,"Mission Viejo","US",33.6,-117.672,97156],
+  [3165771,"Terni","IT",42.5634,12.6433,97050],
+  [1811542,"Fangshan","CN",39.687,115.9966,97026],
+  [1312609,"Magway","MM",20.1496,94.9325,96954],
+  [1262216,"Nāgaur","IN",27.202,73.7339,96847],
+  [5405228,"Vacaville","US",38.3566,-121.9877,96803],
+  [66093,"Yasuj","IR",30.6682,51.588,96786],
+  [7116866,"Villa Mercedes","AR",-33.6757,-65.4578,96781],
+  [1912209,"Wabu","KR",37.5897,127.2203,96775],
+  [5405878,"Ventura","US",34.2783,-119.2932,96769],
+  [1341204,"Nowshera Cantonment","PK",33.9983,71.9983,96766],
+  [217695,"Bunia","CD",1.5594,30.2522,96764],
+  [1261631,"Nawāda","IN",24.8867,85.5436,96730],
+  [5425043,"Highlands Ranch","US",39.5539,-104.9694,96713],
+  [3117814,"Lugo","ES",43.0099,-7.556,96678],
+  [1853209,"Sakado","JP",35.9569,139.3889,96656],
+  [4540737,"Lawton","US",34.6087,-98.3903,96655],
+  [7701354,"Azimpur","BD",23.7298,90.3854,96641],
+  [2834282,"Schwerin","DE",53.6294,11.4132,96641],
+  [750516,"Bolu","TR",40.7358,31.6061,96629],
+  [877747,"Mtwara","TZ",-10.2667,40.1833,96602],
+  [5713376,"Beaverton","US",45.4871,-122.8037,96577],
+  [3471830,"Araguari","BR",-18.6472,-48.1872,96565],
+  [3097333,"Jaworzno","PL",50.2053,19.275,96541],
+  [1560349,"Yên Bái","VN",21.7229,104.9113,96540],
+  [3465342,"Corumbá","BR",-19.0092,-57.6533,96520],
+  [3619194,"Estelí","NI",13.0919,-86.3538,96422],
+  [5397603,"South Gate","US",33.9547,-118.212,96401],
+  [1269557,"Jahānābād","IN",25.2137,84.9871,96387],
+  [1274868,"Chālisgaon","IN",20.4578,75.016,96381],
+  [727079,"Sliven","BG",42.6858,26.3292,96368],
+  [2511388,"San Fernando","ES",36.4759,-6.1982,96366],
+  [273140,"Jounieh","LB",33.9808,35.6178,96315],
+  [318675,"Ceyhan","TR",37.0247,35.8175,96303],
+  [2637546,"Solihull","GB",52.4143,-1.7809,96267],
+  [2299522,"Koforidua","GH",6.0941,-0.2591,96266],
+  [4779999,"Portsmouth","US",36.8354,-76.2983,96201],
+  [2129101,"Muroran","JP",42.3172,140.9881,96197],
+  [3121456,"Girona","ES",41.9831,2.8249,96188],
+  [2913366,"Gütersloh","DE",51.9069,8.3785,96180],
+  [128447,"Kāshmar","IR",35.2383,58.4656,96151],
+  [3437842,"Limpio","PY",-25.1661,-57.4856,96143],
+  [2980916,"Saint-Denis","FR",48.9356,2.3539,96128],
+  [1136469,"Khōst","AF",33.3395,69.9204,96123],
+  [1275019,"Buxar","IN",25.5755,83.9804,96120],
+  [2232444,"Dschang","CM",5.444,10.0533,96112],
+  [5512862,"Sparks","US",39.5349,-119.7527,96094],
+  [3464073,"Erechim","BR",-27.6346,-52.2754,96087],
+  [3077916,"České Budějovice","CZ",48.9745,14.4743,96053],
+  [1713014,"General Trias","PH",14.3869,120.8817,96022],
+  [2318044,"Yola","NG",9.2084,12.4815,96006],
+  [2300182,"Japekrom","GH",7.5758,-2.7852,96000],
+  [502965,"Ramenskoye","RU",55.5669,38.2303,96000],
+  [1278148,"Aurangābād","IN",24.752,84.3742,95929],
+  [1625929,"Sungai Penuh","ID",-2.0561,101.3913,95913],
+  [1257794,"Sāhibganj","IN",25.2443,87.6348,95890],
+  [1802177,"Lubu","CN",23.1723,112.283,95820],
+  [3097391,"Jastrzębie Zdrój","PL",49.9554,18.5748,95813],
+  [1705536,"Los Baños","PH",14.1703,121.2418,95750],
+  [2982681,"Roubaix","FR",50.6942,3.1746,95721],
+  [1260546,"Pandharpur","IN",17.6792,75.331,95665],
+  [1805408,"Jinsha","CN",32.0898,121.0736,95647],
+  [3520271,"Ciudad Río Bravo","MX",25.9873,-98.0941,95647],
+  [361291,"Hurghada","EG",27.2574,33.8129,95622],
+  [1270090,"Hindaun","IN",26.7341,77.0352,95593],
+  [1786760,"Yicheng","CN",31.3606,119.8202,95530],
+  [1811929,"Ducheng","CN",23.2421,111.5284,95525],
+  [217745,"Bumba","CD",2.1877,22.4683,95520],
+  [585514,"Mingelchaur","AZ",40.764,47.0595,95453],
+  [1795632,"Shenjiamen","CN",29.9576,122.298,95433],
+  [7647007,"San Carlos de Bariloche","AR",-41.1456,-71.3082,95394],
+  [3746184,"La Habana Vieja","CU",23.1303,-82.3531,95383],
+  [1181439,"Charsadda","PK",34.1482,71.7406,95319],
+  [4931429,"Brockton","US",42.0834,-71.0184,95314],
+  [2123628,"Magadan","RU",59.5638,150.8035,95282],
+  [2038274,"Boli","CN",45.7528,130.5721,95260],
+  [1789998,"Xiaoshan","CN",30.1675,120.2588,95234],
+  [1811720,"Enshi","CN",30.3,109.4833,95227],
+  [3074967,"Hradec Králové","CZ",50.2092,15.8328,95195],
+  [2644737,"Royal Leamington Spa","GB",52.2852,-1.52,95172],
+  [3195506,"Maribor","SI",46.5547,15.6467,95171],
+  [4990510,"Dearborn","US",42.3223,-83.1763,95171],
+  [5794245,"Federal Way","US",47.3223,-122.3126,95171],
+  [3460132,"Japeri","BR",-22.6431,-43.6533,95101],
+  [4394870,"Lee's Summit","US",38.9108,-94.3822,95094],
+  [3109642,"Santiago de Compostela","ES",42.8805,-8.5457,95092],
+  [2757345,"Delft","NL",52.0067,4.3556,95060],
+  [89570,"Zaxo","IQ",37.1487,42.6859,95052],
+  [149129,"Ushirombo","TZ",-3.4919,31.9639,95052],
+  [250774,"Aqaba","JO",29.5267,35.0078,95048],
+  [2621942,"Frederiksberg","DK",55.6794,12.5346,95029],
+  [986083,"Kutloanong","ZA",-27.8333,26.75,95008],
+  [2346995,"Biu","NG",10.6129,12.1946,95005],
+  [2326302,"Olupona","NG",7.6,4.1833,95002],
+  [2639192,"Romford","GB",51.5752,0.1858,95000],
+  [513471,"Ozerki","RU",60.0395,30.3113,95000],
+  [518879,"Novogireyevo","RU",55.7538,37.8189,95000],
+  [8505053,"Vostochnoe Degunino","RU",55.8801,37.5576,95000],
+  [1266928,"Khargone","IN",21.8229,75.6139,94985],
+  [4945121,"New Bedford","US",41.6353,-70.927,94958],
+  [6822146,"Ōnojō","JP",33.5357,130.4786,94957],
+  [5811729,"Spokane Valley","US",47.6732,-117.2394,94919],
+  [1860098,"Kanuma","JP",36.55,139.7333,94903],
+  [164947,"As Salamīyah","SY",35.0113,37.0532,94887],
+  [1260290,"Parli Vaijnāth","IN",18.8506,76.5316,94863],
+  [2759899,"Alkmaar","NL",52.6317,4.7486,94853],
+  [1710544,"Iriga City","PH",13.4324,123.4115,94846],
+  [726418,"Dobrich","BG",43.5667,27.8333,94831],
+  [1266489,"Kishanganj","IN",26.1022,87.9553,94807],
+  [2034141,"Wuchang","CN",44.9143,127.15,94786],
+  [2656173,"Bath","GB",51.3751,-2.3617,94782],
+  [788709,"Leskovac","RS",42.9981,21.9461,94758],
+  [3445162,"Vespasiano","BR",-19.6919,-43.9233,94749],
+  [723819,"Prešov","SK",48.9984,21.2339,94718],
+  [6163012,"Terrebonne","CA",45.7,-73.6473,94703],
+  [5117549,"Fordham","US",40.8593,-73.8985,94678],
+  [3467736,"Campo Largo","BR",-25.4595,-49.5301,94668],
+  [3437665,"Nemby","PY",-25.3949,-57.5357,94641],
+  [136014,"Dogonbadan","IR",30.3586,50.7981,94638],
+  [4999837,"Livonia","US",42.3684,-83.3527,94635],
+  [1264292,"Mainpuri","IN",27.2286,79.0288,94619],
+  [3682516,"Facatativá","CO",4.8137,-74.3545,94611],
+  [1267084,"Khāmgaon","IN",20.7074,76.5683,94604],
+  [128321,"Kāzerūn","IR",29.6192,51.6535,94511],
+  [4219934,"Roswell","US",34.0232,-84.3616,94501],
+  [2110498,"Yonezawa","JP",37.91,140.1167,94486],
+  [1786378,"Yongchuan","CN",29.3538,105.8939,94465],
+  [5779334,"Orem","US",40.2969,-111.6946,94457],
+  [2647461,"Harlow","GB",51.7766,0.1116,94365],
+  [144616,"Ahar","IR",38.4774,47.0699,94348],
+  [307515,"Kırşehir","TR",39.1458,34.1639,94336],
+  [1789289,"Ximeicun","CN",24.9877,118.3858,94326],
+  [3361025,"Stellenbosch","ZA",-33.9346,18.8668,94263],
+  [1262260,"Negapatam","IN",10.7638,79.8431,94238],
+  [1496511,"Novyy Urengoy","RU",66.0833,76.6333,94212],
+  [1674199,"Yilan","TW",24.757,121.753,94188],
+  [791646,"Gjakovë","XK",42.3803,20.4308,94158],
+  [5322053,"Yuma","US",32.7253,-114.6244,94139],
+  [1786455,"Yishui","CN",35.7847,118.6281,94115],
+  [2808473,"Wilmersdorf","DE",52.4833,13.3167,94113],
+  [3063548,"Ústí nad Labem","CZ",50.6607,14.0323,94105],
+  [1567723,"Sông Cầu","VN",13.4556,109.2235,94066],
+  [1274213,"Chilakalūrupet","IN",16.0899,80.1671,94011],
+  [2270503,"Cacém","PT",38.767,-9.2979,93982],
+  [1270800,"Gudiyatham","IN",12.946,78.8738,93973],
+  [2556272,"Berrechid","MA",33.2655,-7.5875,93954],
+  [4274277,"Lawrence","US",38.9717,-95.2352,93917],
+  [1264206,"Makrāna","IN",27.0436,74.7245,93904],
+  [1176368,"Jalalpur Jattan","PK",32.6412,74.2056,93883],
+  [2112227,"Kitakami","JP",39.2833,141.1167,93854],
+  [1538636,"Novoural’sk","RU",57.2439,60.0839,93849],
+  [4736476,"The Woodlands","US",30.158,-95.4894,93847],
+  [1538635,"Zheleznogorsk","RU",56.2511,93.5319,93834],
+  [2702979,"Jönköping","SE",57.7815,14.1562,93797],
+  [5143620,"West Albany","US",42.6831,-73.7785,93794],
+  [3646487,"Carora","VE",10.1728,-70.081,93788],
+  [1283318,"Janakpur","NP",26.7288,85.9263,93767],
+  [2688368,"Norrköping","SE",58.5942,16.1826,93765],
+  [3625542,"Valera","VE",9.3178,-70.6036,93756],
+  [1786112,"Heyuan","CN",23.7333,114.6833,93718],
+  [5816605,"Yakima","US",46.6021,-120.5059,93701],
+  [1529626,"Baijiantan","CN",45.693,85.1394,93697],
+  [2033135,"Zhengjiatun","CN",43.5064,123.5064,93666],
+  [1277214,"Bānswāra","IN",23.5411,74.4425,93648],
+  [3980190,"García","MX",25.812,-100.5987,93641],
+  [3176746,"Forlì","IT",44.2218,12.0414,93638],
+  [4948247,"Quincy","US",42.2529,-71.0023,93618],
+  [333373,"Kombolcha","ET",11.0816,39.7434,93605],
+  [3446692,"Tatuí","BR",-23.3556,-47.8569,93580],
+  [1604870,"Yala","TH",6.54,101.2813,93558],
+  [1714674,"Dipolog","PH",8.567,123.3347,93549],
+  [1277044,"Baraut","IN",29.102,77.2633,93544],
+  [1258744,"Closepet","IN",12.7218,77.2815,93528],
+  [140918,"Behshahr","IR",36.6924,53.5526,93500],
+  [527191,"Michurinsk","RU",52.8978,40.4907,93499],
+  [1562820,"Việt Trì","VN",21.3227,105.402,93475],
+  [3833883,"Trelew","AR",-43.2489,-65.305,93442],
+  [2934486,"Düren","DE",50.8043,6.493,93440],
+  [2496049,"Ghardaïa","DZ",32.4909,3.6735,93423],
+  [1626183,"Sumber","ID",-6.7603,108.4831,93420],
+  [5117378,"Flatbush","US",40.6521,-73.959,93361],
+  [2037930,"Dalai","CN",45.5,124.3,93297],
+  [3172189,"Novara","IT",45.4469,8.6212,93295],
+  [5356576,"Hesperia","US",34.4264,-117.3009,93295],
+  [2332079,"Lere","NG",10.3858,8.5729,93290],
+  [5334519,"Carson","US",33.8314,-118.282,93281],
+  [3182340,"Barletta","IT",41.3143,16.2817,93279],
+  [302525,"Polatlı","TR",39.5772,32.1413,93262],
+  [4148411,"Boca Raton","US",26.3587,-80.0831,93235],
+  [3171058,"Piacenza","IT",45.0524,9.6934,93228],
+  [7284836,"Budapest XVIII. kerület","HU",47.4442,19.176,93225],
+  [5393212,"Santa Monica","US",34.0195,-118.4912,93220],
+  [763442,"Ochota","PL",52.221,20.9853,93192],
+  [6545347,"Praga Północ","PL",52.2544,21.0347,93192],
+  [1268293,"Kalyani","IN",22.9833,88.4833,93184],
+  [2038154,"Changping","CN",40.2161,116.2347,93174],
+  [2520611,"Cáceres","ES",39.4765,-6.3722,93131],
+  [1246294,"Galle","LK",6.0461,80.2103,93118],
+  [952192,"Stilfontein","ZA",-26.8449,26.7683,93110],
+  [2754652,"Heerlen","NL",50.8837,5.9815,93084],
+  [1696899,"Ozamiz City","PH",8.1481,123.8405,93082],
+  [233114,"Jinja","UG",0.439,33.2032,93061],
+  [2139521,"Nouméa","NC",-22.2741,166.4488,93060],
+  [1255254,"Tādpatri","IN",14.9083,78.0103,93044],
+  [1621395,"Wonosobo","ID",-7.3589,109.9031,92990],
+  [548605,"Kineshma","RU",57.4391,42.1289,92983],
+  [751335,"Bafra","TR",41.5678,35.9069,92944],
+  [2130452,"Chitose","JP",42.8194,141.6522,92942],
+  [3893532,"Coronel","CL",-37.0339,-73.1402,92940],
+  [2318921,"Wukari","NG",7.8714,9.7779,92933],
+  [542374,"Krasnogorsk","RU",55.8204,37.3302,92932],
+  [5392368,"San Marcos","US",33.1434,-117.1661,92931],
+  [2792482,"Leuven","BE",50.8796,4.7009,92892],
+  [504003,"Pushkin","RU",59.7142,30.3964,92889],
+  [3546791,"Moa","CU",20.6578,-74.9507,92852],
+  [1803841,"Lianzhou","CN",24.7819,112.3712,92827],
+  [3177090,"Ferrara","IT",44.838,11.6206,92802],
+  [5330413,"Boyle Heights","US",34.0339,-118.2053,92785],
+  [740483,"Rize","TR",41.0208,40.5219,92772],
+  [2504622,"Beni Mered","DZ",36.5239,2.8613,92749],
+  [2338669,"Igbo-Ora","NG",7.4338,3.2879,92719],
+  [2641157,"Nuneaton","GB",52.5232,-1.4652,92698],
+  [2231506,"Foumban","CM",5.7266,10.8987,92673],
+  [346030,"Zefta","EG",30.7142,31.2443,92667],
+  [1267911,"Kapūrthala","IN",31.3801,75.3811,92667],
+  [1860765,"Kaizuka","JP",34.45,135.35,92632],
+  [8299617,"High Peak","GB",53.368,-1.8454,92600],
+  [1633056,"Palimanan","ID",-6.7069,108.4242,92600],
+  [3392887,"Patos","BR",-7.0244,-37.28,92575],
+  [4168782,"Plantation","US",26.1342,-80.2318,92560],
+  [2451478,"Ségou","ML",13.4317,-6.2157,92552],
+  [1734798,"Semenyih","MY",2.9516,101.843,92491],
+  [664518,"Tulcea","RO",45.1787,28.805,92475],
+  [1857766,"Maizuru","JP",35.45,135.3333,92465],
+  [4942807,"Lynn","US",42.4668,-70.9495,92457],
+  [3832694,"Villa María","AR",-32.4075,-63.2402,92453],
+  [1150954,"Ratchaburi","TH",13.5367,99.8171,92448],
+  [1632978,"Pamekasan","ID",-7.1568,113.4746,92447],
+  [3670745,"Riohacha","CO",11.5444,-72.9072,92431],
+  [2745641,"Venlo","NL",51.37,6.1681,92403],
+  [99369,"Al Hārithah","IQ",30.5848,47.7611,92395],
+  [2928751,"Esslingen","DE",48.7396,9.3047,92390],
+  [7280528,"Errachidia","MA",31.9314,-4.4266,92374],
+  [2651513,"Darlington","GB",54.5243,-1.5504,92363],
+  [1632823,"Pandeglang","ID",-6.3084,106.1067,92316],
+  [4164143,"Miami Beach","US",25.7907,-80.13,92312],
+  [1283467,"Dhangaḍhi̇̄","NP",28.7014,80.5898,92294],
+  [1812621,"Dongcun","CN",36.7767,121.1597,92282],
+  [1272513,"Dīsa","IN",24.2561,72.1793,92224],
+  [7260806,"Arden-Arcade","US",38.6025,-121.3785,92186],
+  [1632334,"Pariaman","ID",-0.619,100.12,92183],
+  [1639215,"Kudus","ID",-6.8048,110.8405,92156],
+  [1277557,"Ballālpur","IN",19.847,79.3458,92146],
+  [1907307,"Kimitsu","JP",35.3504,139.8703,92126],
+  [315498,"Ereğli","TR",37.5133,34.0467,92117],
+  [5408406,"Westminster","US",33.7592,-118.0067,92114],
+  [1266366,"Kohima","IN",25.6747,94.111,92113],
+  [5579276,"Longmont","US",40.1672,-105.1019,92088],
+  [1011031,"Delmas","ZA",-26.1466,28.6832,92046],
+  [3685084,"Duitama","CO",5.8245,-73.0341,92040],
+  [309647,"Ağrı","TR",39.7194,43.0514,92022],
+  [1813828,"Danjiangkou","CN",32.5428,111.5086,92008],
+  [3981984,"Tepatitlán de Morelos","MX",20.8169,-102.7635,91959],
+  [1276389,"Betūl","IN",21.9006,77.9023,91953],
+  [315530,"Erciş","TR",39.0259,43.3596,91915],
+  [2657970,"Winterthur","CH",47.5056,8.7241,91908],
+  [1267885,"Kāraikkudi","IN",10.0662,78.7678,91908],
+  [2514891,"Lorca","ES",37.6712,-1.7017,91906],
+  [571170,"Bugul’ma","RU",54.5378,52.7985,91900],
+  [3167096,"Sassari","IT",40.7259,8.5555,91895],
+  [157403,"Kilosa","TZ",-6.8333,36.9833,91889],
+  [1647298,"Caringin","ID",-6.7061,106.8214,91845],
+  [5392952,"Santa Barbara","US",34.4208,-119.6982,91842],
+  [1720034,"Calumpit","PH",14.9164,120.7658,91815],
+  [1608527,"Nakhon Sawan","TH",15.7047,100.1372,91802],
+  [1863627,"Ginowan","JP",26.2627,127.7615,91800],
+  [705135,"Konotop","UA",51.2403,33.2026,91798],
+  [1784310,"Zhongshu","CN",24.5167,103.7667,91750],
+  [1283562,"Butwāl","NP",27.7006,83.4484,91733],
+  [3446445,"Timóteo","BR",-19.5811,-42.6495,91722],
+  [2637343,"Southport","GB",53.6458,-3.0101,91703],
+  [1806960,"Huazhou","CN",21.6333,110.5833,91701],
+  [124778,"Marīvān","IR",35.5183,46.183,91664],
+  [736083,"Kalamariá","GR",40.5825,22.9503,91617],
+  [2850174,"Ratingen","DE",51.2972,6.8493,91606],
+  [5570160,"Redding","US",40.5865,-122.3917,91582],
+  [2972284,"Tourcoing","FR",50.7239,3.1612,91574],
+  [3531576,"Cárdenas","MX",18.0014,-93.3756,91558],
+  [1000501,"Grahamstown","ZA",-33.3042,26.5328,91548],
+  [1802476,"Longquan","CN",24.6719,102.1613,91534],
+  [1571067,"Phan Rang-Tháp Chàm","VN",11.5643,108.9886,91520],
+  [1786855,"Yatou","CN",37.1566,122.4376,91517],
+  [2751792,"Leeuwarden","NL",53.2014,5.8086,91424],
+  [2036075,"Lingyuan","CN",41.24,119.4011,91418],
+  [2873263,"Marl","DE",51.6567,7.0904,91398],
+  [1277940,"Bagaha","IN",24.529,85.0602,91383],
+  [4207400,"Macon","US",32.8407,-83.6324,91351],
+  [2790869,"Mons","BE",50.4541,3.9523,91277],
+  [705104,"Kostyantynivka","UA",48.5277,37.7069,91259],
+  [1277643,"Balāngīr","IN",20.7042,83.4903,91241],
+  [3665542,"Zipaquirá","CO",5.0221,-74.0048,91235],
+  [3456500,"Muriaé","BR",-21.1306,-42.3664,91173],
+  [1811764,"Duyun","CN",26.2667,107.5167,91136],
+  [3467978,"Cambé","BR",-23.2758,-51.2783,91080],
+  [1798821,"Pingdu","CN",36.7844,119.9464,91077],
+  [3405940,"Bayeux","BR",-7.125,-34.9322,91056],
+  [912764,"Kasama","ZM",-10.2129,31.1808,91056],
+  [143921,"Alīgūdarz","IR",33.404,49.6918,91041],
+  [303827,"Niğde","TR",37.9658,34.6794,91039],
+  [2875107,"Lünen","DE",51.6163,7.5287,91009],
+  [1565022,"Thủ Dầu Một","VN",10.9804,106.6519,91009],
+  [530088,"Yaroslavskiy","RU",55.8833,37.7167,91000],
+  [536398,"Lefortovo","RU",55.7667,37.7,91000],
+  [1853992,"Onomichi","JP",34.4167,133.2,90936],
+  [1810309,"Gaoyou","CN",32.7893,119.4418,90911],
+  [741855,"Lüleburgaz","TR",41.4039,27.3592,90899],
+  [1307741,"Myitkyina","MM",25.3833,97.3964,90894],
+  [1785777,"Yulinshi","CN",38.2918,109.7375,90870],
+  [1327659,"Chauk","MM",20.8992,94.8178,90870],
+  [3470073,"Bento Gonçalves","BR",-29.1714,-51.5192,90852],
+  [3467081,"Caraguatatuba","BR",-23.6203,-45.4131,90843],
+  [1308937,"Mogok","MM",22.9177,96.5098,90843],
+  [1897122,"Namyangju","KR",37.6367,127.2142,90798],
+  [78428,"‘Amrān","YE",15.6594,43.9439,90792],
+  [5600685,"Meridian","US",43.6121,-116.3915,90739],
+  [3159016,"Drammen","NO",59.7439,10.2045,90722],
+  [5392263,"San Leandro","US",37.7249,-122.1561,90712],
+  [1337249,"Kishorganj","BD",24.4394,90.7829,90690],
+  [2992090,"Montreuil","FR",48.8642,2.4432,90652],
+  [2343299,"Emure-Ekiti","NG",7.4364,5.4593,90645],
+  [1808879,"Hanting","CN",36.7708,119.2108,90637],
+  [1273403,"Datia","IN",25.6731,78.4591,90628],
+  [2774326,"Klagenfurt am Wörthersee","AT",46.6247,14.3053,90610],
+  [1816269,"Baise City","CN",23.8997,106.6133,90603],
+  [4469160,"Greenville","US",35.6127,-77.3663,90597],
+  [1792592,"Tongren","CN",27.7172,109.1853,90593],
+  [347634,"Ţahţā","EG",26.7687,31.502,90591],
+  [737961,"Körfez","TR",40.767,29.7828,90580],
+  [2653228,"Chester","GB",53.1905,-2.8919,90524],
+  [537737,"Kuznetsk","RU",53.1168,46.6004,90480],
+  [349717,"Samālūţ","EG",28.3121,30.7101,90465],
+  [1789462,"Xihe","CN",31.6864,113.4659,90422],
+  [3460791,"Itanhaém","BR",-24.1831,-46.7889,90385],
+  [1253472,"Valparai","IN",10.3269,76.9512,90353],
+  [5336269,"Chico","US",39.7285,-121.8375,90316],
+  [1265891,"Kovilpatti","IN",9.1717,77.8699,90296],
+  [1253437,"Vaniyambadi","IN",12.6816,78.6201,90288],
+  [3124408,"Coslada","ES",40.4238,-3.5613,90280],
+  [1811829,"Duobao","CN",30.67,112.6895,90257],
+  [548395,"Kirovo-Chepetsk","RU",58.5539,50.0399,90252],
+  [1510350,"Berdsk","RU",54.7551,83.0967,90250],
+  [2636940,"Stevenage","GB",51.9022,-0.2026,90232],
+  [335035,"Harar","ET",9.3139,42.1182,90218],
+  [941966,"Warmbaths","ZA",-24.8833,28.2833,90210],
+  [3429594,"Reconquista","AR",-29.15,-59.65,90184],
+  [1276191,"Bhandāra","IN",21.1682,79.6489,90183],
+  [2704620,"Huddinge","SE",59.2371,17.9819,90182],
+  [1794140,"Sishui","CN",35.6489,117.2758,90175],
+  [5882873,"Ajax","CA",43.8501,-79.0329,90167],
+  [1737919,"Marudi","MY",4.1833,114.3167,90100],
+  [4535740,"Edmond","US",35.6528,-97.4781,90092],
+  [2962943,"Luimneach","IE",52.6647,-8.6231,90054],
+  [2634549,"Wembley","GB",51.5524,-0.2969,90045],
+  [704202,"Krasnyy Luch","UA",48.1395,38.9372,90005],
+  [5989117,"Kanata","CA",45.3001,-75.9161,90000],
+  [1810668,"Gantang","CN",27.4375,111.9731,90000],
+  [1258099,"Roha","IN",18.4369,73.1196,90000],
+  [10570,"Alvand","IR",36.1893,50.0643,90000],
+  [5112540,"Chinatown","US",40.7165,-73.9962,90000],
+  [3570675,"Fort-de-France","MQ",14.6037,-61.0742,89995],
+  [3183089,"Ancona","IT",43.5942,13.5034,89994],
+  [2337148,"Isieke","NG",6.3819,8.0374,89990],
+  [933778,"Francistown","BW",-21.17,27.5078,89979],
+  [1807695,"Huaidian","CN",33.4333,115.0333,89978],
+  [1854093,"Ōmura","JP",32.9214,129.9539,89918],
+  [5601933,"Nampa","US",43.5407,-116.5635,89839],
+  [1262578,"Muktsar","IN",30.4743,74.5166,89833],
+  [1229989,"Point Pedro","LK",9.8167,80.2333,89810],
+  [3035681,"Avignon","FR",43.9483,4.8089,89769],
+  [561887,"Gatchina","RU",59.5764,30.1283,89761],
+  [2648182,"Grays","GB",51.4757,0.3252,89755],
+  [1849519,"Tsuyama","JP",35.0522,133.9989,89717],
+  [3449936,"Santana do Livramento","BR",-30.8908,-55.5328,89694],
+  [3625207,"Yaritagua","VE",10.0808,-69.1242,89662],
+  [1814870,"Yiwu","CN",29.3151,120.0768,89629],
+  [1303406,"Nyaunglebin","MM",17.9536,96.7225,89626],
+  [1797658,"Jinjiang","CN",24.8198,118.5742,89623],
+  [203112,"Butare","RW",-2.5967,29.7394,89600],
+  [5781070,"Sandy Hills","US",40.5811,-111.8508,89575],
+  [1170425,"Mianwali","PK",32.5776,71.5285,89570],
+  [3183719,"Vlorë","AL",40.4686,19.4832,89546],
+  [1264735,"Luckeesarai","IN",25.1765,86.0947,89500],
+  [3472518,"Almirante Tamandaré","BR",-25.3247,-49.31,89499],
+  [1276901,"Bārmer","IN",25.7457,71.3921,89487],
+  [1262453,"Murādnagar","IN",28.7807,77.4987,89482],
+  [163345,"Tartouss","SY",34.889,35.8866,89457],
+  [2037375,"Fujin","CN",47.26,132.0322,89442],
+  [3619136,"Granada","NI",11.9299,-85.956,89409],
+  [256429,"Níkaia","GR",37.9667,23.65,89380],
+  [1254432,"Tinsukia","IN",27.4891,95.3599,89373],
+  [286647,"Şaḩam","OM",24.1722,56.8886,89327],
+  [776103,"Białołeka","PL",52.3213,20.972,89324],
+  [7284894,"Marseille 13","FR",43.3186,5.4084,89316],
+  [1807687,"Huaicheng","CN",23.9195,112.1763,89294],
+  [1256739,"Shahdol","IN",23.2936,81.3619,89289],
+  [1861084,"Izumo","JP",35.3667,132.7667,89286],
+  [1841775,"Kwangyang","KR",34.9753,127.5892,89281],
+  [3720824,"Miragoâne","HT",18.446,-73.0896,89202],
+  [1263694,"Manjeri","IN",11.1202,76.12,89201],
+  [1734815,"Port Dickson","MY",2.5372,101.8057,89198],
+  [1844174,"Hongseong","KR",36.6009,126.665,89174],
+  [1264359,"Mahobā","IN",25.2905,79.8753,89170],
+  [149703,"Sumbawanga","TZ",-7.9667,31.6167,89161],
+  [1308415,"Mudon","MM",16.2562,97.7246,89123],
+  [1802068,"Lucheng","CN",31.2336,117.2806,89119],
+  [1808744,"Hede","CN",33.7722,120.2618,89107],
+  [650224,"Kuopio","FI",62.8924,27.677,89104],
+  [3625515,"Valle de La Pascua","VE",9.2155,-66.0073,89080],
+  [1151254,"Phuket","TH",7.8906,98.3981,89072],
+  [2647428,"Harrogate","GB",53.9908,-1.5373,89060],
+  [1836553,"Sokcho","KR",38.207,128.5918,89047],
+  [1650232,"Banjar","ID",-8.19,114.9675,89040],
+  [6414184,"Bibir Hat","BD",22.6835,91.7906,89030],
+  [541406,"Biryulëvo Zapadnoye","RU",55.5877,37.6428,89000],
+  [303750,"Nusaybin","TR",37.0703,41.2147,88977],
+  [1214658,"Lhokseumawe","ID",5.1801,97.1507,88974],
+  [1646893,"Cicurug","ID",-6.7814,106.7825,88965],
+  [1804162,"Lengshuitan","CN",26.4111,111.5956,88935],
+  [2010985,"Kartasura","ID",-7.5519,110.7378,88927],
+  [1296736,"Shwebo","MM",22.5693,95.6982,88914],
+  [302043,"Salihli","TR",38.4826,28.1477,88906],
+  [2510693,"Talavera de la Reina","ES",39.9635,-4.8308,88856],
+  [2647400,"Hartlepool","GB",54.6855,-1.2103,88855],
+  [3453420,"Planaltina","BR",-15.4528,-47.6142,88853],
+  [747471,"Ereğli","TR",41.2826,31.4181,88848],
+  [3682274,"Fusagasugá","CO",4.3365,-74.3638,88820],
+  [1701872,"Mangaldan","PH",16.07,120.4025,88818],
+  [4945283,"Newton","US",42.337,-71.2092,88817],
+  [4504476,"Toms River","US",39.9537,-74.1979,88791],
+  [3401545,"Crato","BR",-7.2342,-39.4094,88786],
+  [3427213,"Zárate","AR",-34.0981,-59.0286,88781],
+  [4936159,"Fall River","US",41.7015,-71.155,88777],
+  [1185209,"Habiganj","BD",24.3804,91.413,88760],
+  [282926,"Modi‘in Makkabbim Re‘ut","IL",31.8939,35.015,88749],
+  [3068582,"Pardubice","CZ",50.0408,15.7766,88741],
+  [2034221,"Wangqing","CN",43.3218,129.7634,88732],
+  [7284843,"Budapest II. kerület","HU",47.5198,19.0222,88729],
+  [3839479,"Rafaela","AR",-31.2503,-61.4867,88713],
+  [4255466,"Carmel","US",39.9784,-86.118,88713],
+  [1344069,"Contai","IN",21.7799,87.7489,88702],
+  [2911007,"Hanau am Main","DE",50.1342,8.9142,88648],
+  [3445578,"Valinhos","BR",-22.9706,-46.9958,88630],
+  [3910027,"Montero","BO",-17.3387,-63.2505,88616],
+  [1257402,"Sangrūr","IN",30.2451,75.8449,88615],
+  [3943423,"Chosica","PE",-11.9431,-76.7094,88606],
+  [1864985,"Ashiya","JP",34.7281,135.3026,88573],
+  [1181611,"Chaman","PK",30.9177,66.4526,88568],
+  [2447938,"Alaghsas","NE",17.0187,8.0168,88561],
+  [4453066,"Asheville","US",35.601,-82.554,88512],
+  [1861171,"Iwata","JP",34.7,137.85,88509],
+  [711390,"Brovary","UA",50.5181,30.8067,88506],
+  [1858794,"Kōnosu","JP",36.0687,139.5168,88493],
+  [3175081,"La Spezia","IT",44.103,9.8238,88491],
+  [4839822,"Norwalk","US",41.1176,-73.4079,88485],
+  [4915734,"Waukegan","US",42.3636,-87.8448,88475],
+  [4153146,"Deltona","US",28.9005,-81.2637,88474],
+  [1175021,"Kandhkot","PK",28.2457,69.1797,88468],
+  [5355828,"Hawthorne","US",33.9164,-118.3526,88451],
+  [665024,"Târgovişte","RO",44.9254,25.4567,88435],
+  [109953,"Al Bahah","SA",20.0129,41.4677,88419],
+  [3388376,"São Lourenço da Mata","BR",-8.0022,-35.0183,88416],
+  [3456147,"Nova Lima","BR",-19.9856,-43.8467,88399],
+  [1283095,"Mahendranagar","NP",28.964,80.1772,88381],
+  [1639925,"Klangenan","ID",-6.7094,108.44,88378],
+  [1654379,"Pakse","LA",15.1202,105.799,88332],
+  [3686279,"Ciénaga","CO",11.007,-74.2476,88311],
+  [3468879,"Brusque","BR",-27.0979,-48.9128,88284],
+  [2338876,"Ifo","NG",6.8149,3.1952,88272],
+  [3184081,"Shkodër","AL",42.0683,19.5126,88245],
+  [1259440,"Pollachi","IN",10.6583,77.0085,88214],
+  [4111410,"Fort Smith","US",35.3859,-94.3985,88194],
+  [1273265,"Deoband","IN",29.6951,77.6796,88171],
+  [4788158,"Suffolk","US",36.7284,-76.585,88161],
+  [4734825,"Sugar Land","US",29.6197,-95.6349,88156],
+  [3193935,"Osijek","HR",45.5511,18.6939,88140],
+  [1856293,"Nabari","JP",34.6167,136.0833,88128],
+  [5367440,"Livermore","US",37.6819,-121.768,88126],
+  [306112,"Kozan","TR",37.4552,35.8157,88115],
+  [1261470,"Neyyāttinkara","IN",8.3985,77.0859,88104],
+  [1255024,"Tāndā","IN",26.5495,82.6584,88073],
+  [1177042,"Hasilpur","PK",29.6922,72.5457,88031],
+  [498525,"Sarov","RU",54.9358,43.3235,88000],
+  [2407656,"Koidu","SL",8.6439,-10.9714,88000],
+  [1730225,"Arayat","PH",15.1505,120.7697,87987],
+  [5090046,"Nashua","US",42.7654,-71.4676,87970],
+  [1785566,"Yingchuan","CN",34.1628,113.4639,87961],
+  [119161,"Qorveh","IR",35.1664,47.8056,87953],
+  [3530757,"Cholula","MX",19.0641,-98.3035,87897],
+  [296562,"Yozgat","TR",39.82,34.8044,87881],
+  [172374,"Ath Thawrah","SY",35.8376,38.5483,87880],
+  [5207728,"Reading","US",40.3357,-75.9269,87879],
+  [2232283,"Ébolowa","CM",2.9,11.15,87875],
+  [6138517,"Saint John","CA",45.2708,-66.0562,87857],
+  [6104111,"Pickering","CA",43.9001,-79.1329,87838],
+  [1685218,"Surigao","PH",9.789,125.495,87832],
+  [161616,"Balkanabat","TM",39.5108,54.3671,87822],
+  [466885,"Yeysk","RU",46.7055,38.2739,87814],
+  [749780,"Çanakkale","TR",40.1555,26.4127,87791],
+  [5907990,"Brantford","CA",43.1334,-80.2664,87759],
+  [3628053,"San Juan de los Morros","VE",9.9115,-67.3538,87739],
+  [1808977,"Hanchuan","CN",30.65,113.7667,87737],
+  [1636816,"Majalengka","ID",-6.8361,108.2278,87732],
+  [570427,"Buzuluk","RU",52.7807,52.2635,87714],
+  [2518207,"El Puerto de Santa María","ES",36.5939,-6.233,87696],
+  [4461574,"Concord","US",35.4089,-80.5816,87696],
+  [2406407,"Makeni","SL",8.886,-12.0442,87679],
+  [2817724,"Velbert","DE",51.3354,7.0435,87669],
+  [3470691,"Barra do Piraí","BR",-22.47,-43.8256,87668],
+  [373141,"Kadugli","SD",11.0111,29.7183,87666],
+  [690688,"Uman","UA",48.7484,30.2218,87658],
+  [1797535,"Qiongshan","CN",20.0058,110.3542,87657],
+  [3841490,"Pergamino","AR",-33.8899,-60.5736,87652],
+  [202217,"Gitarama","RW",-2.0744,29.7567,87613],
+  [2875392,"Ludwigsburg","DE",48.8973,9.1916,87603],
+  [1790471,"Xiangxiang","CN",27.7333,112.5333,87592],
+  [1812981,"Deqing","CN",30.5449,119.9599,87576],
+  [5359446,"Indio","US",33.7207,-116.2168,87533],
+  [5487811,"Rio Rancho","US",35.2334,-106.6645,87521],
+  [7839240,"Enchanted Hills","US",35.3368,-106.593,87521],
+  [1277084,"Bārān","IN",25.1,76.5167,87478],
+  [5781061,"Sandy","US",40.5916,-111.8841,87461],
+  [302819,"Patnos","TR",39.2249,42.8569,87451],
+  [5409059,"Whittier","US",33.9792,-118.0328,87438],
+  [1783683,"Yanjiang","CN",30.1211,104.6481,87400],
+  [5111412,"Canarsie","US",40.6437,-73.9007,87366],
+  [1184370,"Arifwala","PK",30.2906,73.0657,87360],
+  [2358946,"Koudougou","BF",12.2526,-2.3627,87347],
+  [3097257,"Jelenia Góra","PL",50.8997,15.729,87310],
+  [3906791,"Quillacollo","BO",-17.3923,-66.2784,87309],
+  [262036,"Glyfáda","GR",37.8629,23.758,87305],
+  [727233,"Shumen","BG",43.2706,26.9229,87283],
+  [2338630,"Igede-Ekiti","NG",7.6685,5.1263,87282],
+  [5799841,"Kirkland","US",47.6815,-122.2087,87281],
+  [2035746,"Mishan","CN",45.55,131.8833,87257],
+  [2693678,"Lund","SE",55.7058,13.1932,87244],
+  [3472638,"Alegrete","BR",-29.7831,-55.7919,87236],
+  [2035601,"Nenjiang","CN",49.1741,125.2177,87236],
+  [1730713,"Angono","PH",14.5266,121.1536,87199],
+  [3468215,"Caieiras","BR",-23.3642,-46.7406,87188],
+  [5372205,"Menifee","US",33.7284,-117.1464,87174],
+  [2643734,"Londonderry County Borough","GB",54.9972,-7.3092,87153],
+  [1272997,"Dhamtari","IN",20.7072,81.5487,87151],
+  [5376890,"Newport Beach","US",33.6189,-117.9289,87127],
+  [1254385,"Tiruchengode","IN",11.3802,77.8944,87123],
+  [3629965,"Porlamar","VE",10.9577,-63.8697,87120],
+  [5403191,"Tracy","US",37.7399,-121.4262,87075],
+  [380129,"Ad Douiem","SD",14.0012,32.3116,87068],
+  [5337561,"Citrus Heights","US",38.7071,-121.2811,87056],
+  [2239862,"Malanje","AO",-9.5401,16.341,87046],
+  [3634922,"La Victoria","VE",10.2268,-67.3312,87045],
+  [5713587,"Bend","US",44.0582,-121.3153,87014],
+  [1274106,"Chīrāla","IN",15.8239,80.3522,87001],
+  [147288,"Saatlı","AZ",39.9321,48.3689,87000],
+  [2457163,"Gao","ML",16.2717,-0.0447,87000],
+  [558146,"Gubkin","RU",51.2817,37.5458,87000],
+  [2392897,"Lokossa","BJ",6.6387,1.7167,86971],
+  [2343985,"Effium","NG",6.6311,8.0581,86945],
+  [1268988,"Jharia","IN",23.7408,86.4146,86938],
+  [8858085,"Hacienda Santa Fe","MX",20.5181,-103.3806,86935],
+  [3696378,"Huaraz","PE",-9.5278,-77.5278,86934],
+  [1279094,"Akot","IN",21.0963,77.0588,86917],
+  [1182829,"Mianke Mor","PK",31.2024,73.9486,86900],
+  [1601579,"Ban Mai","TH",7.2041,100.5451,86899],
+  [981827,"Louis Trichardt","ZA",-23.0438,29.9032,86854],
+  [4987990,"Canton","US",42.3087,-83.4822,86825],
+  [1258803,"Rājpura","IN",30.4786,76.5928,86820],
+  [1264588,"Madgaon","IN",15.275,73.9579,86818],
+  [4563008,"Caguas","PR",18.2341,-66.0485,86804],
+  [4161785,"Lehigh Acres","US",26.6254,-81.6248,86784],
+  [5119347,"Greenburgh","US",41.0329,-73.8429,86764],
+  [1794825,"Shizilu","CN",35.1711,118.8289,86749],
+  [3036572,"Asnières-sur-Seine","FR",48.9167,2.2833,86742],
+  [1250161,"Batticaloa","LK",7.7102,81.6924,86742],
+  [2990970,"Nanterre","FR",48.892,2.2068,86719],
+  [3666640,"Tumaco","CO",1.7911,-78.7927,86713],
+  [569742,"Chaykovskiy","RU",56.7686,54.1148,86712],
+  [2110480,"Yotsukaidō","JP",35.65,140.1667,86701],
+  [3532592,"Atlixco","MX",18.9082,-98.4361,86690],
+  [201521,"Musanze","RW",-1.4998,29.635,86685],
+  [1257198,"Sardārshahr","IN",28.4406,74.491,86672],
+  [3406317,"Barra do Corda","BR",-5.5056,-45.2433,86662],
+  [1263247,"Mayiladuthurai","IN",11.1035,79.655,86660],
+  [358600,"Būsh","EG",29.1482,31.1273,86608],
+  [1648451,"Bojonegoro","ID",-7.1502,111.8817,86568],
+  [1784929,"Zhaogezhuang","CN",39.7654,118.4119,86555],
+  [792578,"Bitola","MK",41.0314,21.3347,86528],
+  [285815,"Al Farwānīyah","KW",29.2775,47.9586,86525],
+  [3124569,"Cornellà de Llobregat","ES",41.35,2.0833,86519],
+  [292878,"Al Fujairah City","AE",25.1164,56.3414,86512],
+  [1680007,"Victorias","PH",10.9015,123.0705,86510],
+  [1863293,"Hamakita","JP",34.8,137.7833,86502],
+  [3650472,"Tulcán","EC",0.8119,-77.7173,86498],
+  [2339150,"Idanre","NG",7.1127,5.1159,86468],
+  [3398352,"Igarassu","BR",-7.8342,-34.9064,86457],
+  [3689798,"Apartadó","CO",7.883,-76.6259,86438],
+  [5018739,"Bloomington","US",44.8408,-93.2983,86435],
+  [4916118,"West Town","US",41.8938,-87.6749,86429],
+  [1684497,"Tagbilaran City","PH",9.6556,123.8522,86411],
+  [1670310,"Puli","TW",23.9664,120.9695,86406],
+  [4356050,"Germantown","US",39.1732,-77.2716,86395],
+  [3672328,"Piedecuesta","CO",6.9879,-73.0495,86387],
+  [2312888,"Mbanza-Ngungu","CD",-5.2584,14.8584,86356],
+  [1863482,"Gyōda","JP",36.1407,139.4601,86343],
+  [3118848,"Las Rozas de Madrid","ES",40.4929,-3.8737,86340],
+  [5096699,"Clifton","US",40.8584,-74.1638,86334],
+  [3058531,"Nitra","SK",48.3076,18.0845,86329],
+  [3842670,"Olavarría","AR",-36.8927,-60.3225,86320],
+  [1280281,"Qamdo","CN",31.1304,97.1798,86280],
+  [1863183,"Hannō","JP",35.8519,139.3181,86262],
+  [1514402,"Bekobod","UZ",40.2208,69.2697,86259],
+  [712441,"Berdychiv","UA",49.8993,28.6024,86250],
+  [2005237,"Kasihan","ID",-7.8269,110.3292,86234],
+  [1268205,"Kāmthi","IN",21.2162,79.1973,86213],
+  [1859908,"Kashiwazaki","JP",37.3667,138.55,86183],
+  [2513076,"Orihuela","ES",38.0848,-0.944,86164],
+  [1800088,"Nanfeng","CN",23.727,111.7972,86129],
+  [2653883,"Cannock","GB",52.6905,-2.0308,86121],
+  [5024719,"Duluth","US",46.7833,-92.1066,86110],
+  [4887158,"Champaign","US",40.1164,-88.2434,86096],
+  [1813171,"Zhangjiajie","CN",29.1294,110.4783,86083],
+  [140097,"Borāzjān","IR",29.2699,51.2188,86059],
+  [7910079,"Sodo","ET",6.86,37.7616,86050],
+  [251833,"Volos","GR",39.361,22.9425,86048],
+  [2324767,"Potiskum","NG",11.7139,11.0811,86002],
+  [535330,"Lianozovo","RU",55.8978,37.5868,86000],
+  [579870,"Babushkin","RU",55.8693,37.7297,86000],
+  [787595,"Novi Pazar","RS",43.1367,20.5122,85996],
+  [3056508,"Žilina","SK",49.2231,18.7394,85985],
+  [918702,"Chipata","ZM",-13.6333,32.65,85963],
+  [2986495,"Poitiers","FR",46.5826,0.3435,85960],
+  [2334652,"Keffi","NG",8.8465,7.8735,85911],
+  [2014022,"Usol’ye-Sibirskoye","RU",52.7519,103.6453,85900],
+  [3165456,"Torre del Greco","IT",40.7893,14.3681,85897],
+  [328689,"Shashemenē","ET",7.2,38.6,85871],
+  [1260393,"Parādīp Garh","IN",20.3164,86.6085,85868],
+  [2331158,"Makoko","NG",6.4961,3.3878,85840],
+  [2926271,"Flensburg","DE",54.7843,9.4396,85838],
+  [2111258,"Ryūgasaki","JP",35.9,140.1833,85761],
+  [2036933,"Helong","CN",42.5397,128.9972,85756],
+  [4903360,"Near North Side","US",41.9,-87.6345,85711],
+  [3838859,"Río Gallegos","AR",-51.6226,-69.2181,85700],
+  [1260387,"Paramagudi","IN",9.5463,78.5907,85695],
+  [3982213,"Tecomán","MX",18.9168,-103.8779,85689],
+  [3872395,"San Antonio","CL",-33.5947,-71.6075,85651],
+  [2647138,"Hemel Hempstead","GB",51.7537,-0.4497,85629],
+  [5336537,"Chino","US",34.0122,-117.6889,85595],
+  [2037075,"Hailin","CN",44.5715,129.3854,85578],
+  [5323060,"Alhambra","US",34.0953,-118.127,85551],
+  [1261012,"Osmanabad","IN",18.1816,76.0389,85521],
+  [8504964,"Svetlanovskiy","RU",60.0028,30.3305,85508],
+  [1800107,"Nanding","CN",36.7483,118.0558,85495],
+  [1184249,"Attock City","PK",33.7667,72.3598,85479],
+  [5779206,"Ogden","US",41.223,-111.9738,85444],
+  [693942,"Shostka","UA",51.863,33.4698,85432],
+  [2969679,"Versailles","FR",48.8036,2.1342,85416],
+  [1809263,"Guozhen","CN",34.3659,107.359,85415],
+  [8057551,"Khalifah A City","AE",24.4259,54.605,85374],
+  [101554,"Tārūt","SA",26.5733,50.0403,85371],
+  [1278340,"Aruppukkottai","IN",9.5096,78.0959,85369],
+  [3523908,"Los Reyes Acaquilpan","MX",19.3636,-98.9771,85359],
+  [356000,"Ḩawsh ‘Īsá","EG",30.9128,30.2902,85352],
+  [3392734,"Paulo Afonso","BR",-9.4061,-38.2147,85350],
+  [3460523,"Ituiutaba","BR",-18.9743,-49.4621,85345],
+  [88903,"Al Marj","LY",32.4926,20.8291,85315],
+  [5386834,"Redwood City","US",37.4852,-122.2363,85288],
+  [1812988,"Dengzhou","CN",37.8082,120.7591,85279],
+  [2217362,"Gharyan","LY",32.1722,13.0203,85219],
+  [468250,"Yegor’yevsk","RU",55.3828,39.0323,85200],
+  [3023141,"Courbevoie","FR",48.8967,2.2567,85158],
+  [5786899,"Bellingham","US",48.7596,-122.4882,85146],
+  [1797333,"Qufu","CN",35.5967,116.9911,85144],
+  [457954,"Liepāja","LV",56.5047,21.0109,85132],
+  [2129870,"Iwamizawa","JP",43.2003,141.7597,85107],
+  [4401242,"O'Fallon","US",38.8106,-90.6998,85040],
+  [655194,"Jyväskylä","FI",62.2415,25.7209,85026],
+  [3853354,"Junín","AR",-34.5838,-60.9433,85007],
+  [3674470,"Montelíbano","CO",7.9792,-75.4202,85000],
+  [11428685,"Rukban","JO",33.3141,38.7034,85000],
+  [1655199,"Thakhèk","LA",17.4103,104.8307,85000],
+  [3724696,"Gonaïves","HT",19.4476,-72.6893,84961],
+  [2540689,"Oued Zem","MA",32.8627,-6.5736,84910],
+  [6085772,"Nanaimo","CA",49.1664,-123.94,84905],
+  [3463859,"Esteio","BR",-29.8614,-51.1792,84902],
+  [1276829,"Bāruni","IN",25.4751,85.9681,84888],
+  [4067994,"Hoover","US",33.4054,-86.8114,84848],
+  [3022530,"Créteil","FR",48.7927,2.4657,84833],
+  [6544881,"Amsterdam-Zuidoost","NL",52.3075,4.9722,84811],
+  [256601,"Ílion","GR",38.0333,23.7,84793],
+  [1337245,"Mādārīpur","BD",23.171,90.2094,84789],
+  [2920789,"Gesundbrunnen","DE",52.5504,13.3914,84789],
+  [3528756,"Ciudad Mante","MX",22.743,-98.9739,84787],
+  [1283339,"Hetauda","NP",27.4284,85.0322,84775],
+  [1280757,"Laojunmiao","CN",39.8333,97.7333,84769],
+  [2939811,"Cottbus","DE",51.7577,14.3289,84754],
+  [3515011,"Túxpam de Rodríguez Cano","MX",20.9578,-97.408,84750],
+  [1695804,"Panabo","PH",7.3081,125.6842,84749],
+  [2343252,"Epe","NG",6.5841,3.9834,84711],
+  [3447998,"Sarandi","BR",-23.4436,-51.8739,84697],
+  [2508737,"Aflou","DZ",34.1128,2.1023,84683],
+  [2342192,"Gamboru","NG",12.373,14.2069,84672],
+  [3815415,"Tlaxcala","MX",19.3191,-98.1998,84670],
+  [324698,"Akhisar","TR",38.9185,27.8401,84659],
+  [4832353,"Danbury","US",41.3948,-73.454,84657],
+  [1626099,"Sumenep","ID",-7.0167,113.8667,84656],
+  [2230876,"Guider","CM",9.9333,13.9467,84647],
+  [1240935,"Katunayaka","LK",7.1699,79.8884,84643],
+  [1832384,"Eisen","KR",36.8217,128.6308,84625],
+  [1275679,"Bijnor","IN",29.373,78.1364,84593],
+  [1700868,"Mariveles","PH",14.4339,120.4857,84567],
+  [2638867,"St Albans","GB",51.75,-0.3333,84561],
+  [1668467,"Daxi","TW",24.8837,121.2904,84549],
+  [4833505,"East Norwalk","US",41.1057,-73.3984,84530],
+  [4688275,"Edinburg","US",26.3017,-98.1633,84497],
+  [4174402,"Sunrise","US",26.134,-80.1131,84439],
+  [3460733,"Itaperuna","BR",-21.205,-41.8878,84435],
+  [692975,"Kadiyivka","UA",48.5682,38.6435,84425],
+  [1007400,"Dundee","ZA",-28.1668,30.2337,84413],
+  [2808720,"Wilhelmshaven","DE",53.53,8.1125,84393],
+  [1886762,"Zhoushan","CN",29.9887,122.2049,84380],
+  [1651555,"Ambarawa","ID",-7.2633,110.3975,84379],
+  [763534,"Nowy Sącz","PL",49.6218,20.6971,84376],
+  [2327827,"Ogaminana","NG",7.5938,6.218,84373],
+  [1278688,"Anakāpalle","IN",17.6913,83.004,84357],
+  [965241,"Piet Retief","ZA",-27.0071,30.8132,84349],
+  [1813088,"Dazhong","CN",33.1997,120.4578,84323],
+  [4004885,"Heróica Zitácuaro","MX",19.4361,-100.3573,84307],
+  [2639557,"Redditch","GB",52.3065,-1.9457,84300],
+  [1606147,"Songkhla","TH",7.1988,100.5951,84264],
+  [3902377,"Trinidad","BO",-14.8333,-64.9,84259],
+  [965401,"Phuthaditjhaba","ZA",-28.5242,28.8158,84258],
+  [3129135,"Avilés","ES",43.5547,-5.9248,84242],
+  [749274,"Çerkezköy","TR",41.2863,27.9994,84234],
+  [1805334,"Jinxiang","CN",27.4327,120.6063,84231],
+  [2518494,"El Ejido","ES",36.7763,-2.8146,84227],
+  [5105496,"Trenton","US",40.2171,-74.7429,84225],
+  [1485724,"Yurga","RU",55.7231,84.8861,84220],
+  [934570,"Curepipe","MU",-20.3163,57.5259,84200],
+  [5490263,"Santa Fe","US",35.687,-105.9378,84099],
+  [2548830,"Al Fqih Ben Çalah","MA",32.5021,-6.6877,84072],
+  [4254679,"Bloomington","US",39.1653,-86.5264,84067],
+  [2231504,"Foumbot","CM",5.508,10.6325,84065],
+  [535729,"Komendantsky aerodrom","RU",60.0045,30.2752,84052],
+  [1185224,"Feni","BD",23.0144,91.3966,84028],
+  [1833466,"Wanju","KR",35.8451,127.1475,84009],
+  [1262109,"Najībābād","IN",29.6119,78.3427,84006],
+  [1860728,"Kakegawa","JP",34.7667,138.0167,84004],
+  [1724933,"Binonga","PH",10.7719,122.9817,83980],
+  [1273687,"Dohad","IN",22.8328,74.2599,83966],
+  [1790392,"Xiannü","CN",32.4281,119.5605,83936],
+  [3391360,"Santana","BR",-0.0583,-51.1817,83927],
+  [4888015,"Cicero","US",41.8456,-87.7539,83886],
+  [5356277,"Hemet","US",33.7476,-116.9731,83861],
+  [1258686,"Rāmgarh","IN",23.6303,85.5216,83833],
+  [1863528,"Gotenba","JP",35.3186,138.9434,83794],
+  [3994489,"Ocotlán","MX",20.3553,-102.7736,83769],
+  [2497849,"El Khroub","DZ",36.2633,6.6936,83746],
+  [7615262,"Jardim Paulista","BR",-23.5667,-46.6644,83667],
+  [2637329,"South Shields","GB",54.9986,-1.4323,83655],
+  [1019704,"Bethlehem","ZA",-28.2308,28.3071,83654],
+  [2643736,"Derry","GB",54.9981,-7.3093,83652],
+  [352354,"Munūf","EG",30.466,30.932,83651],
+  [2754064,"Hilversum","NL",52.2233,5.1764,83640],
+  [2036081,"Lingdong","CN",46.5669,131.1453,83636],
+  [202905,"Gisenyi","RW",-1.7028,29.2564,83623],
+  [1799574,"Nanzhang Chengguanzhen","CN",31.7839,111.8275,83604],
+  [294778,"Herzliya","IL",32.1663,34.8254,83600],
+  [1680116,"NIA Valencia","PH",7.9064,125.0942,83591],
+  [3673662,"Ocaña","CO",8.2377,-73.356,83511],
+  [2392308,"Ouidah","BJ",6.3631,2.0851,83503],
+  [5552450,"Ahwatukee Foothills","US",33.3417,-111.984,83464],
+  [2820860,"Tübingen","DE",48.5227,9.0522,83416],
+  [1832830,"Yangp'yŏng","KR",37.4897,127.4906,83367],
+  [1912205,"Ungsang","KR",35.4061,129.1686,83360],
+  [1267394,"Kāvali","IN",14.9163,79.9945,83352],
+  [6331909,"Johns Creek","US",34.0289,-84.1986,83335],
+  [4000821,"La Piedad","MX",20.3424,-102.0305,83323],
+  [2110579,"Yachimata","JP",35.65,140.3167,83322],
+  [4711725,"Mission","US",26.2159,-98.3253,83298],
+  [2067119,"Mandurah","AU",-32.5269,115.7217,83294],
+  [3402000,"Codó","BR",-4.4553,-43.8856,83288],
+  [5012639,"Troy","US",42.6056,-83.1499,83280],
+  [1700917,"Marilao","PH",14.7578,120.9483,83276],
+  [5331575,"Buena Park","US",33.8675,-117.9981,83270],
+  [1787837,"Xucheng","CN",20.3292,110.1671,83267],
+  [2338497,"Ihiala","NG",5.8548,6.8594,83265],
+  [602150,"Umeå","SE",63.8284,20.2597,83249],
+  [2112319,"Katori-shi","JP",35.8977,140.4994,83181],
+  [1271910,"Fatehpur","IN",27.9949,74.9563,83170],
+  [1636125,"Margahayukencana","ID",-6.9708,107.5675,83119],
+  [1644605,"Galesong","ID",-5.3166,119.3661,83050],
+  [3121070,"Guadalajara","ES",40.6286,-3.1618,83039],
+  [8411054,"Madhyapur Thimi","NP",27.6806,85.3875,83036],
+  [1808747,"Hecun","CN",36.5333,114.1111,83009],
+  [1690033,"San Fernando","PH",16.6159,120.3166,83003],
+  [8125829,"Kamigyō-ku","JP",35.0295,135.7567,83000],
+  [710554,"Chervonohrad","UA",50.3911,24.2351,83000],
+  [1799348,"Ningyang","CN",35.7642,116.7914,82994],
+  [1069129,"Antsiranana","MG",-12.3173,49.2919,82937],
+  [1805379,"Jinshi","CN",29.6049,111.8701,82906],
+  [2634308,"Weston-super-Mare","GB",51.346,-2.9766,82903],
+  [752015,"Amasya","TR",40.6533,35.8331,82896],
+  [1852984,"Sanjō","JP",37.6167,138.95,82893],
+  [4167538,"Palm Coast","US",29.585,-81.2078,82893],
+  [1786060,"Yuanping","CN",38.7153,112.7575,82883],
+  [2871039,"Minden","DE",52.2895,8.9146,82879],
+  [3489460,"Montego Bay","JM",18.4712,-77.9188,82867],
+  [789107,"Kraljevo","RS",43.7258,20.6894,82846],
+  [4110486,"Fayetteville","US",36.0626,-94.1574,82830],
+  [4876523,"Sioux City","US",42.5,-96.4003,82821],
+  [3901178,"Yacuiba","BO",-22.0164,-63.6775,82803],
+  [114930,"Shīrvān","IR",37.3967,57.9295,82790],
+  [3075921,"Havířov","CZ",49.7798,18.4369,82768],
+  [1181163,"Chichawatni","PK",30.5301,72.6916,82762],
+  [98622,"Ash Shaţrah","IQ",31.4091,46.1727,82732],
+  [1685755,"Sorsogon","PH",12.9739,123.9933,82730],
+  [2988358,"Pau","FR",43.3112,-0.3558,82697],
+  [2511716,"Roquetas de Mar","ES",36.7642,-2.6147,82665],
+  [3114531,"Palencia","ES",42.0096,-4.5241,82651],
+  [1785716,"Pizhou","CN",34.3114,117.9503,82641],
+  [3130380,"Algorta","ES",43.3493,-3.0094,82624],
+  [2647632,"Halifax","GB",53.7167,-1.85,82624],
+  [1815585,"Changqing","CN",36.5575,116.7272,82598],
+  [3471691,"Araxá","BR",-19.5933,-46.9406,82595],
+  [1882056,"Sinhyeon","KR",34.8825,128.6267,82560],
+  [1789118,"Xindian","CN",36.7975,118.2944,82555],
+  [3836992,"San Martín","AR",-33.081,-68.4681,82549],
+  [1269247,"Jangipur","IN",24.47,88.0766,82548],
+  [3895138,"Chiguayante","CL",-36.9256,-73.0284,82545],
+  [304081,"Muş","TR",38.7316,41.4848,82536],
+  [1852964,"Sano","JP",36.3167,139.5833,82535],
+  [1511494,"Anzhero-Sudzhensk","RU",56.081,86.0285,82526],
+  [2530048,"Taourirt","MA",34.4073,-2.8973,82518],
+  [1280037,"Shache","CN",38.4167,77.2406,82509],
+  [1786676,"Yima","CN",34.7381,111.8839,82509],
+  [360048,"Ashmūn","EG",30.2974,30.9764,82507],
+  [5364514,"Lake Forest","US",33.647,-117.6892,82492],
+  [728330,"Pernik","BG",42.6,23.0333,82467],
+  [6318107,"Redenção","BR",-8.0286,-50.0314,82464],
+  [1272892,"Dhār","IN",22.5937,75.2977,82438],
+  [5372253,"Merced","US",37.3022,-120.483,82436],
+  [3110834,"Sant Boi de Llobregat","ES",41.3436,2.0366,82428],
+  [3112989,"Pozuelo de Alarcón","ES",40.4329,-3.8134,82428],
+  [161290,"Bagamoyo","TZ",-6.4422,38.9042,82426],
+  [1732945,"Cukai","MY",4.25,103.4167,82425],
+  [2035002,"Shangzhi","CN",45.2141,127.9743,82419],
+  [1270417,"Hānsi","IN",29.1024,75.9625,82407],
+  [1800065,"Nangong","CN",37.3581,115.3744,82386],
+  [3598572,"Chimaltenango","GT",14.6611,-90.8194,82370],
+  [1801722,"Lüshun","CN",38.8,121.2667,82345],
+  [1489246,"Troitsk","RU",54.0979,61.5773,82338],
+  [3061186,"Banská Bystrica","SK",48.7395,19.1535,82336],
+  [248370,"Mādabā","JO",31.716,35.7939,82335],
+  [1860112,"Kanoya","JP",31.3833,130.85,82335],
+  [12047417,"Reef Al Fujairah City","AE",25.1448,56.2476,82310],
+  [303798,"Nizip","TR",37.0097,37.7942,82308],
+  [307864,"Kilis","TR",36.7161,37.115,82301],
+  [3024266,"Colombes","FR",48.9188,2.254,82300],
+  [2510409,"Toledo","ES",39.8581,-4.0226,82291],
+  [1185183,"Lākshām","BD",23.2402,91.1214,82290],
+  [4707814,"Longview","US",32.5007,-94.7405,82287],
+  [6544101,"Les Corts","ES",41.3871,2.1301,82270],
+  [623317,"Polatsk","BY",55.4879,28.7856,82258],
+  [7284826,"Budapest VIII. kerület","HU",47.4892,19.0701,82222],
+  [1797264,"Quzhou","CN",28.9594,118.8686,82216],
+  [747155,"Fatsa","TR",41.0278,37.5014,82160],
+  [2395915,"Abomey","BJ",7.1829,1.9912,82154],
+  [3626219,"Tinaquillo","VE",9.9186,-68.3047,82145],
+  [1850311,"Tochigi","JP",36.3833,139.7333,82133],
+  [580054,"Azov","RU",47.1078,39.4165,82133],
+  [4677008,"Bryan","US",30.6744,-96.37,82118],
+  [2337352,"Ipoti","NG",7.8738,5.0769,82113],
+  [1850693,"Tanashichō","JP",35.7292,139.5381,82112],
+  [1857665,"Marugame","JP",34.2833,133.7833,82090],
+  [1794947,"Shiwan","CN",23.0011,113.077,82031],
+  [6087892,"Niagara Falls","CA",43.1001,-79.0663,82000],
+  [2656065,"Beckenham","GB",51.4088,-0.0253,82000],
+  [5014681,"Westland","US",42.3242,-83.4002,82000],
+  [1185207,"Ishurdi","BD",24.1286,89.0657,81995],
+  [2473457,"Kasserine","TN",35.1676,8.8365,81987],
+  [3178229,"Como","IT",45.8082,9.0832,81975],
+  [2636276,"Tamworth","GB",52.634,-1.6959,81964],
+  [1607532,"Phra Nakhon Si Ayutthaya","TH",14.3517,100.5774,81962],
+  [3408404,"Abreu e Lima","BR",-7.9117,-34.9028,81959],
+  [3711668,"David","PA",8.4273,-82.4309,81957],
+  [3679277,"La Dorada","CO",5.4478,-74.6631,81950],
+  [1182815,"Bhakkar","PK",31.6269,71.0647,81950],
+  [3840300,"Presidencia Roque Sáenz Peña","AR",-26.7852,-60.4388,81879],
+  [3460834,"Itajubá","BR",-22.4256,-45.4528,81870],
+  [103369,"Qal‘at Bīshah","SA",20.0005,42.6052,81828],
+  [1841810,"Gwangju","KR",37.41,127.2572,81780],
+  [2293268,"Agboville","CI",5.928,-4.2132,81770],
+  [2817220,"Villingen-Schwenningen","DE",48.0623,8.4936,81770],
+  [551847,"Kaspiysk","RU",42.8817,47.6392,81752],
+  [3430988,"Luján","AR",-34.5703,-59.105,81749],
+  [3174530,"Lucca","IT",43.8437,10.5045,81748],
+  [1793364,"Tangping","CN",22.0318,111.9354,81729],
+  [108435,"Ar Rass","SA",25.8694,43.4973,81728],
+  [5225507,"Warwick","US",41.7001,-71.4162,81699],
+  [288789,"Barkā’","OM",23.6787,57.8861,81647],
+  [700646,"Mukacheve","UA",48.4392,22.7178,81633],
+  [1621884,"Watampone","ID",-4.5386,120.3279,81629],
+  [3435810,"Campana","AR",-34.1633,-58.9592,81612],
+  [5364855,"Lakewood","US",33.8536,-118.134,81611],
+  [117656,"Salmās","IR",38.1973,44.7653,81606],
+  [3113209,"Pontevedra","ES",42.431,-8.6443,81576],
+  [611847,"Sokhumi","GE",43.007,40.9893,81546],
+  [173811,"Al Ḩasakah","SY",36.5024,40.7477,81539],
+  [1840886,"Mungyeong","KR",36.5946,128.1995,81525],
+  [1268673,"Kadiri","IN",14.1117,78.1598,81498],
+  [3458696,"Lavras","BR",-21.2453,-44.9997,81472],
+  [1272720,"Dhorāji","IN",21.7336,70.45,81445],
+  [1174042,"Kharian","PK",32.8161,73.887,81435],
+  [1258291,"Rāyachoti","IN",14.0572,78.7506,81433],
+  [1785964,"Yudong","CN",29.385,106.5194,81408],
+  [1525798,"Balqash","KZ",46.8481,74.995,81364],
+  [4565119,"Guaynabo","PR",18.3575,-66.111,81360],
+  [1848499,"Yashio","JP",35.8226,139.839,81345],
+  [4992523,"Farmington Hills","US",42.4853,-83.3772,81330],
+  [1267090,"Khambhāt","IN",22.3174,72.6192,81328],
+  [1188569,"Sarishābāri","BD",24.7513,89.8313,81325],
+  [7310164,"San Tan Valley","US",33.1911,-111.528,81321],
+  [684657,"Bistriţa","RO",47.1332,24.5001,81318],
+  [4588165,"Mount Pleasant","US",32.7941,-79.8626,81317],
+  [3471291,"Avaré","BR",-23.0986,-48.9258,81285],
+  [2885679,"Konstanz","DE",47.6603,9.1758,81275],
+  [1850559,"Tatebayashi","JP",36.25,139.5333,81274],
+  [3095321,"Konin","PL",52.2234,18.2512,81258],
+  [3463140,"Formosa","BR",-15.5372,-47.3344,81232],
+  [2468353,"Gafsa","TN",34.425,8.7842,81232],
+  [668954,"Reşiţa","RO",45.3008,21.8892,81228],
+  [3458662,"Leme","BR",-22.1856,-47.3903,81209],
+  [6545310,"Mitte","DE",52.52,13.4049,81205],
+  [2332357,"Lalupon","NG",7.4679,4.0659,81130],
+  [2806142,"Worms","DE",49.6328,8.3592,81099],
+  [5221659,"Cranston","US",41.7798,-71.4373,81073],
+  [1538634,"Ozersk","RU",55.7556,60.7028,81023],
+  [466990,"Yessentuki","RU",44.0444,42.8606,81015],
+  [2967849,"Vitry-sur-Seine","FR",48.7872,2.4033,81001],
+  [4161580,"Largo","US",27.9098,-82.7884,81000],
+  [318253,"Cizre","TR",37.3302,42.1848,80992],
+  [1925936,"Naesŏ","KR",35.2497,128.52,80987],
+  [1261288,"Nirmal","IN",19.0969,78.3441,80982],
+  [934131,"Quatre Bornes","MU",-20.2638,57.4791,80961],
+  [1272045,"Emmiganūr","IN",15.772,77.4835,80933],
+  [923295,"Zomba","MW",-15.386,35.3188,80932],
+  [1811440,"Feicheng","CN",35.2606,117.9675,80929],
+  [2392601,"Natitingou","BJ",10.3042,1.3796,80892],
+  [3169561,"Ravenna","IT",44.4134,12.2012,80868],
+  [1795941,"Shanting","CN",35.0753,117.4578,80843],
+  [1269092,"Jeypore","IN",18.8563,82.5716,80837],
+  [2754394,"Hengelo","NL",52.2658,6.7931,80809],
+  [1852607,"Shibata","JP",37.95,139.3333,80793],
+  [1863693,"Gamagōri","JP",34.8333,137.2333,80786],
+  [2482886,"Rouissat","DZ",31.9243,5.3502,80784],
+  [547523,"Klin","RU",56.3333,36.7333,80778],
+  [294514,"Kfar Saba","IL",32.175,34.9069,80773],
+  [1861095,"Izumiōtsu","JP",34.5,135.4,80772],
+  [3121007,"Getxo","ES",43.3569,-3.0115,80770],
+  [7279734,"Kotkapura","IN",30.5819,74.833,80741],
+  [2555467,"Berkane","MA",34.92,-2.32,80721],
+  [2110729,"Toride","JP",35.9,140.0833,80716],
+  [3174953,"Lecce","IT",40.3548,18.1724,80695],
+  [4786714,"South Suffolk","US",36.7171,-76.5902,80690],
+  [2235196,"Bafang","CM",5.1571,10.1771,80688],
+  [5552301,"Avondale","US",33.4356,-112.3496,80684],
+  [2367886,"Atakpamé","TG",7.5333,1.1333,80683],
+  [3036145,"Aulnay-sous-Bois","FR",48.9381,2.494,80615],
+  [5404119,"Tustin","US",33.7459,-117.8262,80583],
+  [2504099,"Berrouaghia","DZ",36.1352,2.9109,80573],
+  [321082,"Bingöl","TR",38.8847,40.4939,80568],
+  [713174,"Bakhmut","UA",48.5944,37.9998,80500],
+  [12042052,"Bani Yas City","AE",24.3098,54.6294,80498],
+  [3430443,"Necochea","AR",-38.5545,-58.7396,80478],
+  [315795,"Elbistan","TR",38.2059,37.1983,80456],
+  [1253956,"Udhampur","IN",32.9243,75.1357,80447],
+  [5375480,"Mountain View","US",37.3861,-122.0838,80435],
+  [5376095,"Napa","US",38.2971,-122.2855,80434],
+  [1268601,"Kairāna","IN",29.3954,77.2054,80432],
+  [3165243,"Trento","IT",46.0679,11.1211,80425],
+  [2439376,"Tahoua","NE",14.8888,5.2692,80425],
+  [1857334,"Mihara","JP",34.4,133.0833,80387],
+  [1784055,"Zhuanghe","CN",39.7008,122.9911,80384],
+  [1277661,"Bālāghāt","IN",21.8156,80.1885,80360],
+  [140889,"Bonāb","IR",37.3404,46.0561,80359],
+  [1792516,"Loushanguan","CN",28.1368,106.822,80344],
+  [4951257,"Somerville","US",42.3876,-71.0995,80318],
+  [1816890,"Baoying","CN",33.2292,119.3092,80292],
+  [3176059,"Giugliano in Campania","IT",40.9285,14.202,80269],
+  [1640585,"Kedungwaru","ID",-8.0667,111.9167,80257],
+  [2221030,"Yagoua","CM",10.3411,15.2329,80235],
+  [4941720,"Lawrence","US",42.707,-71.1631,80231],
+  [2037823,"Dashiqiao","CN",40.6373,122.5025,80223],
+  [7284832,"Budapest XV. kerület","HU",47.5626,19.1168,80218],
+  [2228079,"Mbalmayo","CM",3.5167,11.5,80206],
+  [2035511,"Panshi","CN",42.9422,126.0561,80200],
+  [1627459,"Serpong","ID",-6.3169,106.6642,80193],
+  [250258,"As Salţ","JO",32.0392,35.7272,80189],
+  [3347019,"Namibe","AO",-15.1961,12.1522,80149],
+  [2878018,"Lichterfelde","DE",52.4333,13.3076,80149],
+  [3088972,"Piotrków Trybunalski","PL",51.4055,19.7032,80128],
+  [4163971,"Melbourne","US",28.0836,-80.6081,80127],
+  [725578,"Yambol","BG",42.4833,26.5,80116],
+  [2227402,"Meïganga","CM",6.5167,14.3,80100],
+  [1486910,"Vorkuta","RU",67.4988,64.0525,80039],
+  [3803449,"El Cafetal","VE",10.4654,-66.8295,80029],
+  [2517367,"Gandia","ES",38.9667,-0.1833,80020],
+  [2110629,"Ushiku","JP",35.9667,140.1333,80020],
+  [1263622,"Mānsa","IN",29.9884,75.4017,80018],
+  [1279715,"Rikaze","CN",29.25,88.8833,80000],
+  [293807,"Ra'anana","IL",32.1836,34.8739,80000],
+  [32909,"Shahre Jadide Andisheh","IR",35.6803,51.0193,80000],
+  [562820,"Fili","RU",55.7482,37.4797,80000],
+  [8340760,"Cung Kiệm","VN",21.187,106.1608,80000],
+  [2320829,"Ughelli","NG",5.4896,6.0041,79986],
+  [2935530,"Dorsten","DE",51.6617,6.9651,79981],
+  [2638324,"Scunthorpe","GB",53.5791,-0.6544,79977],
+  [2636876,"Stockton-on-Tees","GB",54.5685,-1.3187,79957],
+  [5166177,"Parma","US",41.4048,-81.7229,79937],
+  [5128549,"New Rochelle","US",40.9115,-73.7823,79846],
+  [1278667,"Anantnag","IN",33.7307,75.1542,79821],
+  [3664464,"Cruzeiro do Sul","BR",-7.6276,-72.6776,79819],
+  [4771075,"Lynchburg","US",37.4138,-79.1422,79812],
+  [5740099,"Medford","US",42.3265,-122.8756,79805],
+  [2470656,"La Goulette","TN",36.8183,10.3052,79795],
+  [783814,"Zrenjanin","RS",45.3836,20.3819,79773],
+  [4153071,"Deerfield Beach","US",26.3184,-80.0998,79768],
+  [3598655,"Chichicastenango","GT",14.9433,-91.1112,79759],
+  [1213855,"Sibolga","ID",1.7402,98.7812,79714],
+  [730435,"Haskovo","BG",41.9342,25.5556,79699],
+  [4013706,"Ciudad Lerdo","MX",25.5372,-103.5246,79669],
+  [1793533,"Taixing","CN",32.1667,120.0136,79655],
+  [1267887,"Kāraikāl","IN",10.9167,79.8333,79653],
+  [1644178,"Genteng","ID",-8.3667,114.15,79652],
+  [1708824,"Kidapawan","PH",7.0083,125.0894,79652],
+  [2031405,"Erdenet","MN",49.0333,104.0833,79647],
+  [2759798,"Amstelveen","NL",52.3008,4.8639,79639],
+  [2347303,"Bende","NG",5.5587,7.6336,79618],
+  [540761,"Kropotkin","RU",45.4375,40.5756,79599],
+  [3460522,"Itumbiara","BR",-18.4192,-49.2153,79582],
+  [2327223,"Oke Mesi","NG",7.8167,4.9167,79563],
+  [3457708,"Maricá","BR",-22.9194,-42.8186,79551],
+  [385038,"Ar Rifā‘","BH",26.13,50.555,79550],
+  [3044310,"Szombathely","HU",47.2309,16.6216,79534],
+  [2335713,"Kafanchan","NG",9.5813,8.2926,79522],
+  [3181355,"Busto Arsizio","IT",45.6113,8.8491,79519],
+  [5383777,"Pleasanton","US",37.6624,-121.8747,79510],
+  [1697497,"Norzagaray","PH",14.9109,121.0493,79508],
+  [1268977,"Jharsuguda","IN",21.8553,84.007,79492],
+  [1793385,"Tangjiazhuang","CN",39.7433,118.451,79489],
+  [1492517,"Shadrinsk","RU",56.0852,63.6335,79479],
+  [8558534,"Willowdale","CA",43.7667,-79.3991,79440],
+  [2532945,"Sidi Slimane","MA",34.2648,-5.926,79437],
+  [3595416,"Huehuetenango","GT",15.3192,-91.4724,79426],
+  [1275194,"Brājarājnagar","IN",21.8167,83.9167,79421],
+  [709611,"Drohobych","UA",49.3499,23.5056,79406],
+  [3174741,"Lido di Ostia","IT",41.7321,12.2765,79400],
+  [3178957,"Cesena","IT",44.1391,12.2432,79398],
+  [2875457,"Lüdenscheid","DE",51.2198,7.6273,79386],
+  [289011,"Rustaq","OM",23.3908,57.4244,79383],
+  [140951,"Behbahān","IR",30.5959,50.2417,79327],
+  [2470173,"Zarzis","TN",33.504,11.1122,79316],
+  [3110718,"Sant Cugat del Vallès","ES",41.4706,2.0861,79253],
+  [1265938,"Kottagūdem","IN",17.5511,80.6178,79247],
+  [1261641,"Nawābganj","IN",26.9313,81.1984,79246],
+  [1644349,"Gedangan","ID",-7.3908,112.7267,79230],
+  [1794794,"Shouguang","CN",36.88,118.7375,79212],
+  [4026082,"Ciudad Lázaro Cárdenas","MX",17.9707,-102.2212,79200],
+  [1795579,"Yanta","CN",36.2411,115.6672,79196],
+  [889453,"Kadoma","ZW",-18.3333,29.9153,79174],
+  [4884442,"Belmont Cragin","US",41.9317,-87.7687,79159],
+  [233730,"Bwizibwera","UG",-0.5917,30.6286,79157],
+  [5019335,"Brooklyn Park","US",45.0941,-93.3563,79149],
+  [2420562,"Gueckedou","GN",8.5674,-10.1336,79140],
+  [1797438,"Zhuangyuan","CN",37.3055,120.8275,79106],
+  [2338242,"Ikom","NG",5.9667,8.7063,79103],
+  [1278471,"Arakkonam","IN",13.0845,79.6705,79080],
+  [1790885,"Wuyang","CN",31.9925,116.2472,79070],
+  [1713226,"Gapan","PH",15.3072,120.9464,79064],
+  [1859952,"Kashihara","JP",34.5833,135.6167,79058],
+  [1788402,"Xiongzhou","CN",25.1167,114.3,79050],
+  [1630798,"Ponorogo","ID",-7.8685,111.462,79026],
+  [2351740,"Agulu","NG",6.1005,7.061,79021],
+  [1185116,"Netrakona","BD",24.8835,90.729,79016],
+  [3445847,"Ubatuba","BR",-23.4339,-45.0711,79007],
+  [5296266,"Goodyear","US",33.4353,-112.3582,79003],
+  [1830194,"Paoy Paet","KH",13.6581,102.5637,79000],
+  [666767,"Slatina","RO",44.4333,24.3667,78988],
+  [2634910,"Wakefield","GB",53.6833,-1.4977,78978],
+  [2525059,"Catanzaro","IT",38.8825,16.6009,78970],
+  [1172035,"Layyah","PK",30.9613,70.939,78954],
+  [3944797,"Cerro de Pasco","PE",-10.6675,-76.2567,78910],
+  [5799610,"Kennewick","US",46.2113,-119.1372,78896],
+  [2873759,"Marburg an der Lahn","DE",50.809,8.7707,78895],
+  [7284889,"Marseille 08","FR",43.2708,5.3821,78837],
+  [2244991,"Tambacounda","SN",13.7707,-13.6673,78800],
+  [1221194,"Kŭlob","TJ",37.9146,69.7845,78786],
+  [87205,"Darnah","LY",32.767,22.6367,78782],
+  [3805673,"San Fernando de Apure","VE",7.8878,-67.4724,78779],
+  [1788452,"Xinzhou","CN",30.8667,114.8,78767],
+  [1794971,"Shitanjing","CN",39.2342,106.3439,78765],
+  [3061370,"Zlín","CZ",49.2265,17.6706,78759],
+  [1153669,"Chiang Rai","TH",19.9086,99.8325,78756],
+  [2799478,"Deurne","BE",51.2213,4.466,78747],
+  [352913,"Manfalūţ","EG",27.3126,30.9699,78744],
+  [1298482,"Sagaing","MM",21.8787,95.9797,78739],
+  [1266436,"Koch Bihār","IN",26.3254,89.4451,78737],
+  [2034340,"Tumen","CN",42.9661,129.8425,78719],
+  [3446098,"Três Lagoas","BR",-20.7876,-51.7034,78712],
+  [3433658,"Gualeguaychú","AR",-33.0094,-58.5172,78676],
+  [1272473,"Dod Ballāpur","IN",13.2945,77.5378,78676],
+  [6362987,"Ceuta","ES",35.8892,-5.3204,78674],
+  [946058,"Mthatha","ZA",-31.5889,28.7844,78663],
+  [1024696,"Dondo","MZ",-19.6094,34.7431,78648],
+  [4566385,"Mayagüez","PR",18.2011,-67.1396,78647],
+  [470546,"Vyborg","RU",60.7076,28.7528,78633],
+  [5322737,"Alameda","US",37.771,-122.2609,78630],
+  [2521582,"Arona","ES",28.0996,-16.681,78614],
+  [3448879,"São João del Rei","BR",-21.1356,-44.2617,78592],
+  [1276335,"Bhadohi","IN",25.3953,82.5703,78568],
+  [3181528,"Brindisi","IT",40.6322,17.9361,78548],
+  [2510279,"Torrent","ES",39.4371,-0.4655,78543],
+  [2653775,"Carlisle","GB",54.8951,-2.9382,78470],
+  [4175538,"Town 'n' Country","US",28.0106,-82.5773,78442],
+  [5327422,"Bellflower","US",33.8817,-118.117,78441],
+  [3049646,"Kőbánya","HU",47.4843,19.1391,78414],
+  [1267457,"Kātoya","IN",23.6456,88.1326,78408],
+  [2455518,"Kayes","ML",14.4469,-11.4445,78406],
+  [5392528,"San Pedro","US",33.7359,-118.2923,78405],
+  [2033301,"Youhao","CN",47.8531,128.8356,78402],
+  [2864475,"Neumünster","DE",54.0748,9.982,78383],
+  [502018,"Reutov","RU",55.7611,37.8575,78370],
+  [1733440,"Putatan","MY",5.9258,116.0609,78340],
+  [1860063,"Karatsu","JP",33.4425,129.9697,78330],
+  [5336545,"Chino Hills","US",33.9938,-117.7589,78309],
+  [1619434,"Bang Kruai","TH",13.805,100.4728,78305],
+  [4885164,"Bloomington","US",40.4842,-88.9937,78292],
+  [2813472,"Wedding","DE",52.5473,13.3559,78290],
+  [2345096,"Daura","NG",11.5541,11.406,78277],
+  [99350,"Al Ḩayy","IQ",32.1742,46.0435,78272],
+  [1798634,"Pingyi","CN",35.5006,117.6308,78254],
+  [7284841,"Budapest XVII. kerület","HU",47.48,19.2539,78250],
+  [3456998,"Mogi Mirim","BR",-22.4319,-46.9578,78244],
+  [1861835,"Iizuka","JP",33.6365,130.6868,78206],
+  [1225142,"Valvedditturai","LK",9.8167,80.1667,78205],
+  [1269291,"Jamūī","IN",24.9261,86.2253,78181],
+  [1803374,"Linping","CN",30.4225,120.2972,78180],
+  [8310138,"Ilioúpoli","GR",37.9315,23.7678,78153],
+  [266045,"Zahlé","LB",33.8468,35.902,78145],
+  [1716287,"Daet","PH",14.1122,122.9553,78142],
+  [6332439,"Alafaya","US",28.5641,-81.2114,78113],
+  [2294206,"Wa","GH",10.0607,-2.5019,78107],
+  [3408424,"Abaetetuba","BR",-1.7181,-48.8825,78050],
+  [1270349,"Harihar","IN",14.5129,75.8072,78034],
+  [582846,"Alekseyevka","RU",55.63,37.8,78000],
+  [1263936,"Mancherāl","IN",18.8707,79.4286,77998],
+  [2940231,"Castrop-Rauxel","DE",51.5566,7.3116,77924],
+  [2524245,"Marsala","IT",37.7992,12.4367,77915],
+  [1854803,"Ōbu","JP",35.0176,136.9495,77864],
+  [4132093,"Springdale","US",36.1867,-94.1288,77859],
+  [5377654,"North Hollywood","US",34.1722,-118.379,77848],
+  [1268707,"Kadayanallur","IN",9.0728,77.3415,77772],
+  [7284896,"Marseille 15","FR",43.3722,5.3539,77770],
+  [1964032,"Ciranjang-hilir","ID",-6.82,107.2572,77758],
+  [2036066,"Linkou","CN",45.2861,130.2615,77754],
+  [5268249,"Racine","US",42.7261,-87.7828,77742],
+  [3680539,"Ipiales","CO",0.825,-77.6397,77729],
+  [2747930,"Roosendaal","NL",51.5308,4.4653,77725],
+  [1273626,"Daltonganj","IN",24.0397,84.0658,77704],
+  [2413753,"Brikama","GM",13.2714,-16.6494,77700],
+  [318137,"Hakkâri","TR",37.5744,43.7408,77699],
+  [1734098,"Keningau","MY",5.3378,116.1602,77650],
+  [2648773,"Gateshead","GB",54.9621,-1.6017,77649],
+  [1816373,"Bijie","CN",27.3019,105.2863,77645],
+  [1807339,"Huangmei","CN",30.1924,116.025,77633],
+  [2328617,"Numan","NG",9.4637,12.0306,77617],
+  [4921100,"Hammond","US",41.5834,-87.5,77614],
+  [1789176,"Feicheng","CN",36.2486,116.7658,77606],
+  [3165201,"Treviso","IT",45.6667,12.2416,77604],
+  [5373327,"Milpitas","US",37.4283,-121.9066,77604],
+  [3449350,"São Bento do Sul","BR",-26.2503,-49.3786,77597],
+  [3097872,"Inowrocław","PL",52.7989,18.2639,77597],
+  [738349,"Ünye","TR",41.1314,37.2825,77585],
+  [1898494,"Songling","CN",31.1933,120.7176,77566],
+  [2947022,"Bogenhausen","DE",48.1522,11.6159,77542],
+  [1805267,"Jishui","CN",33.7333,115.4,77540],
+  [2803448,"Aalst","BE",50.936,4.0355,77534],
+  [3092931,"Lubin","PL",51.4009,16.2015,77532],
+  [2791537,"Mechelen","BE",51.0257,4.4776,77530],
+  [114584,"Shūshtar","IR",32.0497,48.8484,77507],
+  [2644411,"Lisburn","GB",54.5234,-6.0353,77506],
+  [743952,"Kars","TR",40.5983,43.0855,77486],
+  [1167622,"Kambar","PK",27.5875,68.0007,77481],
+  [3436134,"Barracas","AR",-34.6497,-58.3834,77474],
+  [1803364,"Linqu","CN",36.5156,118.5397,77472],
+  [1271949,"Farīdkot","IN",30.674,74.7558,77450],
+  [1907300,"Wako","JP",35.7894,139.6233,77435],
+  [127403,"Khomeyn","IR",33.6389,50.08,77425],
+  [2034761,"Shulan","CN",44.4167,126.95,77420],
+  [1730413,"Apalit","PH",14.9533,120.77,77418],
+  [3460584,"Itaúna","BR",-20.0753,-44.5764,77400],
+  [1277525,"Balrāmpur","IN",27.4295,82.1855,77396],
+  [6138610,"Saint-Laurent","CA",45.5001,-73.6659,77391],
+  [2198148,"Suva","FJ",-18.1416,178.4415,77366],
+  [1863018,"Hatsukaichi","JP",34.35,132.3333,77341],
+  [3996387,"Matehuala","MX",23.6482,-100.6433,77328],
+  [2937959,"Dessau","DE",51.8386,12.2456,77315],
+  [678015,"Focșani","RO",45.7,27.1833,77313],
+  [2519513,"Chiclana de la Frontera","ES",36.4198,-6.1437,77293],
+  [1787031,"Yanzhou","CN",35.5528,116.8286,77276],
+  [1277085,"Bāramūla","IN",34.209,74.3429,77276],
+  [4019260,"Agua Prieta","MX",31.3307,-109.5488,77254],
+  [3171173,"Pesaro","IT",43.9092,12.9164,77241],
+  [3526323,"Kanasín","MX",20.9348,-89.5587,77240],
+  [3530103,"Cozumel","MX",20.5004,-86.9427,77236],
+  [1644932,"Ende","ID",-8.8432,121.6623,77205],
+  [3628503,"San Carlos","VE",9.6612,-68.5827,77192],
+  [1692565,"Pulilan","PH",14.9017,120.8492,77186],
+  [759412,"Siedlce","PL",52.1677,22.2901,77185],
+  [1805833,"Jiexiu","CN",37.0244,111.9125,77178],
+  [2491323,"Ksar el Boukhari","DZ",35.8889,2.7491,77166],
+  [3492985,"Santa Cruz de Barahona","DO",18.2085,-71.1008,77160],
+  [4920607,"Gary","US",41.5934,-87.3464,77156],
+  [3877918,"Ovalle","CL",-30.6011,-71.199,77138],
+  [1693136,"Polangui","PH",13.2923,123.4855,77122],
+  [5211303,"Scranton","US",41.4092,-75.6649,77118],
+  [3448519,"São Mateus","BR",-18.7201,-39.8589,77117],
+  [3532881,"Amozoc de Mota","MX",19.0461,-98.045,77106],
+  [2422457,"Coyah","GN",9.7064,-13.3846,77103],
+  [471656,"Voskresensk","RU",55.3173,38.6526,77086],
+  [260204,"Keratsíni","GR",37.9625,23.6197,77077],
+  [5325866,"Baldwin Park","US",34.0853,-117.9609,77071],
+  [1272689,"Dhuliān","IN",24.6813,87.9535,77070],
+  [2036653,"Hunchun","CN",42.8675,130.3581,77028],
+  [957487,"Sasolburg","ZA",-26.8136,27.817,77016],
+  [2335614,"Kagoro","NG",9.6078,8.3904,77008],
+  [3170647,"Pisa","IT",43.7085,10.4036,77007],
+  [5785965,"Auburn","US",47.3073,-122.2284,77006],
+  [688533,"Yalta","UA",44.5022,34.1662,77003],
+  [5921356,"Chilliwack","CA",49.1664,-121.9526,77000],
+  [1792359,"Huangshan","CN",29.7114,118.3125,77000],
+  [1263275,"Mawāna","IN",29.1029,77.922,76973],
+  [1849561,"Tsurusaki","JP",33.2453,131.6917,76968],
+  [11054704,"Józsefváros","HU",47.4894,19.0729,76957],
+  [2920236,"Gladbeck","DE",51.5708,6.9859,76940],
+  [1519691,"Sarkand","KZ",45.4113,79.9155,76919],
+  [1267648,"Karur","IN",10.9577,78.081,76915],
+  [7284891,"Marseille 09","FR",43.2543,5.4057,76868],
+  [3164699,"Varese","IT",45.8206,8.8251,76851],
+  [358048,"Damietta","EG",31.4165,31.8133,76839],
+  [3543299,"Puerto Padre","CU",21.1952,-76.6036,76838],
+  [3714637,"Arraiján","PA",8.9519,-79.6601,76815],
+  [3006787,"La Rochelle","FR",46.1631,-1.1522,76810],
+  [1265605,"Kundla","IN",21.3422,71.3063,76809],
+  [4257494,"Fishers","US",39.9556,-86.0139,76794],
+  [4407010,"Saint Joseph","US",39.7686,-94.8466,76780],
+  [640999,"Pori","FI",61.4833,21.7833,76772],
+  [3628423,"San Felipe","VE",10.3399,-68.7425,76766],
+  [1170013,"Moro","PK",26.6632,68.0002,76765],
+  [975436,"Mmabatho","ZA",-25.85,25.6333,76754],
+  [2748413,"Purmerend","NL",52.505,4.9597,76745],
+  [1803948,"Liangxiang","CN",39.736,116.133,76744],
+  [3027105,"Champigny-sur-Marne","FR",48.8164,2.4937,76726],
+  [1263664,"Manmād","IN",20.2533,74.4376,76722],
+  [1268011,"Kannauj","IN",27.0552,79.9188,76714],
+  [2960316,"Luxembourg","LU",49.6117,6.13,76684],
+  [2793508,"La Louvière","BE",50.4866,4.1879,76668],
+  [935214,"Saint-Pierre","RE",-21.3393,55.4781,76655],
+  [787237,"Pančevo","RS",44.8718,20.6417,76654],
+  [1813658,"Fenghua","CN",29.6563,121.4064,76653],
+  [3712076,"Colón","PA",9.3545,-79.9001,76643],
+  [2982235,"Rueil-Malmaison","FR",48.8765,2.1897,76616],
+  [1264138,"Malaut","IN",30.2112,74.4818,76616],
+  [3625341,"Villa de Cura","VE",10.0386,-67.4894,76614],
+  [1712531,"Guiguinto","PH",14.8333,120.8833,76613],
+  [2955471,"Arnsberg","DE",51.3833,8.0833,76612],
+  [3520064,"Salina Cruz","MX",16.1754,-95.1942,76596],
+  [1262200,"Nagīna","IN",29.4443,78.4365,76593],
+  [3117533,"Manresa","ES",41.7282,1.824,76558],
+  [3460064,"Jataí","BR",-17.8794,-51.7217,76547],
+  [3448902,"São João da Boa Vista","BR",-21.9692,-46.7981,76540],
+  [4718721,"Pharr","US",26.1948,-98.1836,76538],
+  [3166598,"Sesto San Giovanni","IT",45.5333,9.2259,76509],
+  [3458425,"Lorena","BR",-22.7308,-45.1247,76506],
+  [2648970,"Fylde","GB",53.8333,-2.9167,76500],
+  [1278023,"Badagara","IN",11.5978,75.5814,76493],
+  [229278,"Mbale","UG",1.0821,34.175,76493],
+  [2847645,"Rheine","DE",52.2851,7.4406,76491],
+  [1269578,"Jagdalpur","IN",19.0814,82.0213,76465],
+  [3389652,"Santa Cruz do Capibaribe","BR",-7.9575,-36.2047,76450],
+  [5404915,"Upland","US",34.0975,-117.6484,76443],
+  [1809532,"Guigang","CN",23.0964,109.6092,76430],
+  [2749234,"Oss","NL",51.765,5.5181,76430],
+  [2038854,"Yuktae-dong","KP",40.0247,128.1597,76427],
+  [3037456,"Antibes","FR",43.5858,7.1083,76393],
+  [1787437,"Yangliuqing","CN",39.1375,116.9997,76387],
+  [5349705,"Folsom","US",38.678,-121.1761,76375],
+  [3448257,"São Sebastião","BR",-23.76,-45.4097,76367],
+  [3182884,"Arezzo","IT",43.4628,11.8807,76346],
+  [1268775,"Jumri Tilaiyā","IN",24.4349,85.5295,76341],
+  [7284839,"Budapest XXI. kerület","HU",47.4305,19.071,76339],
+  [3385935,"Tucuruí","BR",-3.7658,-49.6792,76337],
+  [4672731,"Baytown","US",29.7355,-94.9774,76335],
+  [2112899,"Furukawa","JP",38.5717,140.9556,76312],
+  [3464304,"Embu Guaçu","BR",-23.8322,-46.8114,76310],
+  [3175058,"Latina","IT",41.4661,12.9043,76305],
+  [886763,"Masvingo","ZW",-20.0637,30.8277,76290],
+  [526480,"Mineralnye Vody","RU",44.2103,43.1353,76280],
+  [3660418,"Babahoyo","EC",-1.8022,-79.5344,76279],
+  [788886,"Kumanovo","MK",42.1322,21.7144,76275],
+  [304382,"Midyat","TR",37.4191,41.3391,76268],
+  [2092740,"Lae","PG",-6.7233,146.9961,76255],
+  [1235846,"Matara","LK",5.9485,80.5353,76254],
+  [122915,"Nahāvand","IR",34.1909,48.3745,76250],
+  [1623180,"Tuban","ID",-6.8976,112.0649,76242],
+  [6119518,"Repentigny","CA",45.7422,-73.4501,76237],
+  [1606790,"Sakon Nakhon","TH",17.1612,104.1473,76237],
+  [1170486,"Mian Channun","PK",30.4407,72.3568,76226],
+  [2640677,"Paisley","GB",55.8317,-4.4325,76220],
+  [934985,"Mbabane","SZ",-26.3167,31.1333,76218],
+  [1277723,"Baj Baj","IN",22.4751,88.1777,76159],
+  [1797793,"Qingquan","CN",30.4511,115.2559,76154],
+  [2817311,"Viersen","DE",51.2544,6.3944,76153],
+  [2026643,"Birobidzhan","RU",48.7928,132.9239,76146],
+  [5392593,"San Ramon","US",37.7799,-121.978,76134],
+  [4501018,"Camden","US",39.926,-75.1196,76119],
+  [2655009,"Bracknell","GB",51.4136,-0.7505,76103],
+  [1266179,"Konnagar","IN",22.7051,88.3445,76082],
+  [4330236,"Lake Charles","US",30.2131,-93.2044,76070],
+  [3448063,"Sapiranga","BR",-29.6381,-51.0069,76051],
+  [4997787,"Kalamazoo","US",42.2917,-85.5872,76041],
+  [5955895,"Fort McMurray","CA",56.7268,-111.381,76000],
+  [3046619,"Parádsasvár","HU",47.9126,19.9771,76000],
+  [472732,"Nagornyy","RU",55.65,37.6167,76000],
+  [2185018,"Palmerston North","NZ",-40.3564,175.6111,75996],
+  [1258338,"Ratnagiri","IN",16.9915,73.3102,75986],
+  [1640765,"Kebomas","ID",-7.1667,112.6333,75982],
+  [728378,"Pazardzhik","BG",42.2,24.3333,75977],
+  [2391893,"Savé","BJ",8.0342,2.4866,75970],
+  [334609,"Hosa’ina","ET",7.5498,37.8537,75963],
+  [4883555,"Arlington Heights","US",42.0884,-87.9806,75926],
+  [3110040,"San Sebastián de los Reyes","ES",40.5555,-3.6273,75912],
+  [5041926,"Plymouth","US",45.0105,-93.4555,75907],
+  [1133453,"Maymana","AF",35.9214,64.7836,75900],
+  [2938323,"Delmenhorst","DE",53.0511,8.6309,75893],
+  [1803266,"Lintong","CN",34.378,109.2089,75882],
+  [3655131,"La Libertad","EC",-2.233,-80.9104,75881],
+  [1270072,"Hingoli","IN",19.7146,77.1424,75878],
+  [6101645,"Peterborough","CA",44.3001,-78.3162,75877],
+  [3613528,"Ciudad Choluteca","HN",13.3003,-87.1908,75872],
+  [2491911,"Khemis Miliana","DZ",36.261,2.2202,75865],
+  [1641184,"Karangsembung","ID",-6.8487,108.6422,75856],
+  [294946,"Hadera","IL",32.4419,34.9039,75854],
+  [1794479,"Laixi","CN",36.8592,120.5269,75849],
+  [553399,"Kamensk-Shakhtinskiy","RU",48.3178,40.2595,75814],
+  [1219762,"Bayramaly","TM",37.6185,62.1672,75797],
+  [2641674,"Newcastle under Lyme","GB",53,-2.2333,75794],
+  [3455161,"Pará de Minas","BR",-19.8603,-44.6083,75786],
+  [1852472,"Shimada","JP",34.8167,138.1833,75781],
+  [1510469,"Belovo","RU",54.4165,86.2976,75764],
+  [1850872,"Takefu","JP",35.9039,136.1669,75753],
+  [1624668,"Tarub","ID",-6.9333,109.1667,75739],
+  [5014130,"Waterford","US",42.693,-83.4118,75737],
+  [311665,"Iğdır","TR",39.9237,44.045,75721],
+  [1840982,"Muan","KR",34.9901,126.479,75718],
+  [1528249,"Jalal-Abad","KG",40.9333,73,75700],
+  [1163054,"Turbat","PK",26.0012,63.0485,75694],
+  [1275388,"Bodināyakkanūr","IN",10.0117,77.3498,75680],
+  [1792087,"Yinzhu","CN",35.8786,119.9753,75656],
+  [1267195,"Khadki","IN",18.5635,73.8521,75654],
+  [6690602,"Battersea","GB",51.4748,-0.1555,75651],
+  [569591,"Chekhov","RU",55.1477,37.4773,75643],
+  [3204222,"Bihać","BA",44.8169,15.8708,75641],
+  [97417,"Jamjamāl","IQ",35.5336,44.8343,75634],
+  [1250164,"Battaramulla South","LK",6.8964,79.9181,75633],
+  [1649824,"Batu","ID",-7.87,112.5283,75631],
+  [1272701,"Dhrāngadhra","IN",22.9917,71.4679,75578],
+  [2652002,"Crewe","GB",53.0979,-2.4416,75556],
+  [3089033,"Piła","PL",53.1515,16.7378,75532],
+  [303831,"Nevşehir","TR",38.625,34.7122,75527],
+  [4891382,"Evanston","US",42.0411,-87.6901,75527],
+  [3518407,"San Martin Texmelucan de Labastida","MX",19.2843,-98.4388,75518],
+  [2653305,"Chatham","GB",51.3789,0.5279,75509],
+  [699942,"Nizhyn","UA",51.048,31.8869,75499],
+  [715126,"Szolnok","HU",47.1833,20.2,75474],
+  [2328090,"Ode","NG",7.7899,5.7117,75463],
+  [5370164,"Manteca","US",37.7974,-121.216,75448],
+  [2747596,"Schiedam","NL",51.9192,4.3889,75438],
+  [2848756,"Reinickendorf","DE",52.5667,13.3333,75414],
+  [1165638,"Shahdad Kot","PK",27.8473,67.9068,75411],
+  [2978179,"Saint-Maur-des-Fossés","FR",48.794,2.4932,75402],
+  [3467717,"Campo Mourão","BR",-24.0431,-52.3793,75401],
+  [4160711,"Kendall","US",25.6793,-80.3173,75371],
+  [1738294,"Ulu Tiram","MY",1.6,103.8167,75350],
+  [2038118,"Chaoyang","CN",42.6622,126.0263,75347],
+  [2505915,"Azzaba","DZ",36.7394,7.1053,75317],
+  [300808,"Silifke","TR",36.3778,33.9344,75315],
+  [3091232,"Mysłowice","PL",50.2075,19.1667,75281],
+  [5015618,"Wyoming","US",42.9134,-85.7053,75275],
+  [788975,"Kruševac","RS",43.58,21.3339,75256],
+  [1844191,"Hongch’ŏn","KR",37.6918,127.8857,75251],
+  [1831167,"Kampong Chhnang","KH",12.25,104.6667,75244],
+  [1788869,"Shangmei","CN",27.7428,111.2956,75233],
+  [1260667,"Pāloncha","IN",17.6018,80.7051,75224],
+  [2338640,"Igbo-Ukwu","NG",6.018,7.0203,75224],
+  [5579368,"Loveland","US",40.3978,-105.075,75182],
+  [5112375,"Cheektowaga","US",42.9034,-78.7547,75178],
+  [2646504,"Hove","GB",50.8309,-0.1672,75174],
+  [2037334,"Fuyu","CN",47.7976,124.4573,75147],
+  [5123443,"Kings Bridge","US",40.8787,-73.9051,75132],
+  [191220,"Kitale","KE",1.0157,35.0062,75123],
+  [3437547,"Pedro Juan Caballero","PY",-22.5472,-55.7333,75109],
+  [3671116,"Quibdó","CO",5.6919,-76.6583,75104],
+  [2365560,"Kpalimé","TG",6.9,0.6333,75084],
+  [3861056,"Cipolletti","AR",-38.9339,-67.9903,75078],
+  [1854371,"Okegawa","JP",36,139.5572,75062],
+  [2951825,"Bayreuth","DE",49.9478,11.5789,75061],
+  [2463447,"Dakhla","EH",23.6848,-15.958,75000],
+  [1584661,"Củ Chi","VN",10.9733,106.4933,75000],
+  [2746932,"Spijkenisse","NL",51.845,4.3292,74988],
+  [3438735,"Encarnación","PY",-27.3306,-55.8667,74983],
+  [5382146,"Perris","US",33.7825,-117.2286,74971],
+  [2707953,"Haninge","SE",59.1678,18.1448,74968],
+  [2472479,"Ben Arous","TN",36.7545,10.2217,74932],
+  [250336,"Ar Ramthā","JO",32.5587,36.0082,74901],
+  [5180225,"Bethlehem","US",40.6259,-75.3705,74892],
+  [143748,"Alvand","IR",36.3189,49.1677,74889],
+  [2712414,"Gävle","SE",60.6745,17.1417,74884],
+  [1270791,"Gūdūr","IN",14.1509,79.8521,74851],
+  [2906809,"Hellersdorf","DE",52.5332,13.6088,74847],
+  [4179320,"Albany","US",31.5785,-84.1557,74843],
+  [3526357,"Juchitán de Zaragoza","MX",16.436,-95.0197,74825],
+  [1806840,"Huilong","CN",31.8111,121.655,74818],
+  [333287,"Keren","ER",15.7779,38.4511,74800],
+  [300797,"Silopi","TR",37.2438,42.4635,74798],
+  [1816751,"Beidao","CN",34.5686,105.8933,74767],
+  [2533191,"Sidi Qacem","MA",34.2215,-5.7077,74755],
+  [2821029,"Troisdorf","DE",50.809,7.1497,74749],
+  [2656719,"Aylesbury","GB",51.8167,-0.8146,74748],
+  [1182787,"Bhalwal","PK",32.2658,72.8981,74744],
+  [1278553,"Ankleshwar","IN",21.6324,72.99,74742],
+  [2650405,"East Kilbride","GB",55.7641,-4.1767,74740],
+  [2754447,"Helmond","NL",51.4817,5.6611,74740],
+  [1787601,"Yanggu","CN",36.1106,115.7753,74725],
+  [1254534,"Tīkamgarh","IN",24.7433,78.8306,74724],
+  [1625958,"Sungailiat","ID",-1.8544,106.1222,74719],
+  [1857276,"Miki","JP",34.8,134.9833,74701],
+  [3468436,"Cachoeira do Sul","BR",-30.0392,-52.8939,74694],
+  [4910713,"Schaumburg","US",42.0334,-88.0834,74693],
+  [6903078,"Changnyeong","KR",35.5415,128.4951,74668],
+  [3854985,"Gobernador Gálvez","AR",-33.0302,-60.6404,74650],
+  [1179760,"Dipalpur","PK",30.6698,73.6531,74640],
+  [1052944,"António Enes","MZ",-16.2325,39.9086,74624],
+  [89055,"Al Bayḑā’","LY",32.7627,21.7551,74594],
+  [1511330,"Asbest","RU",57.0099,61.4578,74583],
+  [4467732,"Gastonia","US",35.2621,-81.1873,74543],
+  [5110446,"Brownsville","US",40.6609,-73.9201,74497],
+  [5404555,"Union City","US",37.5958,-122.0191,74494],
+  [321031,"Bismil","TR",37.8451,40.6593,74493],
+  [2349529,"Aramoko-Ekiti","NG",7.7048,5.0405,74491],
+  [1795919,"Shancheng","CN",34.7953,116.0817,74459],
+  [3029162,"Calais","FR",50.9519,1.8564,74433],
+  [2920512,"Gießen","DE",50.5873,8.6755,74411],
+  [1799897,"Nanma","CN",36.1848,118.1549,74406],
+  [1255616,"Srivilliputhur","IN",9.5127,77.6337,74370],
+  [4885265,"Bolingbrook","US",41.6986,-88.0684,74306],
+  [2031964,"Darhan","MN",49.4867,105.9228,74300],
+  [6087701,"Newmarket","CA",44.0501,-79.4663,74295],
+  [64013,"Bosaso","SO",11.2842,49.1816,74287],
+  [1255947,"Sivakasi","IN",9.45,77.798,74282],
+  [3123493,"Ferrol","ES",43.4845,-8.2329,74273],
+  [3983058,"Silao","MX",20.9436,-101.427,74242],
+  [4862034,"Iowa City","US",41.6611,-91.5302,74220],
+  [2159220,"Mackay","AU",-21.1534,149.1655,74219],
+  [1259680,"Pilkhua","IN",28.7127,77.656,74212],
+  [1835895,"Seosan","KR",36.7817,126.4522,74208],
+  [260172,"Khalándrion","GR",38.0237,23.8007,74192],
+  [2509769,"Vélez-Málaga","ES",36.7811,-4.1027,74190],
+  [245785,"Abéché","TD",13.8292,20.8324,74188],
+  [1793889,"Suixi","CN",33.8907,116.7747,74172],
+  [5777107,"Layton","US",41.0602,-111.971,74143],
+  [2033675,"Xinmin","CN",41.9908,122.8253,74139],
+  [4711801,"Missouri City","US",29.6186,-95.5377,74139],
+  [5244080,"Appleton","US",44.2619,-88.4154,74139],
+  [2338810,"Igbara-Odo","NG",7.5025,5.0626,74121],
+  [1278862,"Ambājogāi","IN",18.7331,76.3862,74114],
+  [2248698,"Mbaké","SN",14.7903,-15.908,74100],
+  [5009586,"Shelby","US",42.6709,-83.033,74099],
+  [8858086,"Fuentes del Valle","MX",19.6325,-99.1386,74087],
+  [3032833,"Béziers","FR",43.3412,3.214,74081],
+  [11838435,"La Haute-Saint-Charles","CA",46.8903,-71.3722,74070],
+  [3836620,"San Ramón de la Nueva Orán","AR",-23.137,-64.3243,74059],
+  [1809610,"Gucheng Chengguanzhen","CN",32.266,111.6348,74038],
+  [1790379,"Xianshuigu","CN",38.985,117.3828,74028],
+  [952747,"Standerton","ZA",-26.9337,29.2415,74021],
+  [3906466,"Riberalta","BO",-11.0065,-66.0631,74014],
+  [2519402,"Ciudad Real","ES",38.9863,-3.9291,74014],
+  [4155995,"Fort Myers","US",26.6217,-81.8406,74013],
+  [1861528,"Inuyama","JP",35.38,136.943,73995],
+  [1276574,"Bela","IN",25.9206,81.9963,73992],
+  [762863,"Ostrowiec Świętokrzyski","PL",50.9294,21.3853,73989],
+  [4148677,"Boynton Beach","US",26.5254,-80.0664,73966],
+  [3449521,"Santo Antônio de Jesus","BR",-12.9689,-39.2614,73957],
+  [2947421,"Bocholt","DE",51.8388,6.6153,73943],
+  [1275391,"Bodhan","IN",18.6621,77.8858,73938],
+  [1785655,"Yunyang","CN",33.4474,112.7142,73922],
+  [4116834,"Jonesboro","US",35.8423,-90.7043,73907],
+  [2544333,"Khenifra","MA",32.9349,-5.6617,73906],
+  [1045114,"Inhambane","MZ",-23.865,35.3833,73884],
+  [2794055,"Kortrijk","BE",50.828,3.2649,73879],
+  [2524653,"Gela","IT",37.0738,14.2404,73854],
+  [1259083,"Rabkavi","IN",16.4757,75.1106,73835],
+  [3170621,"Pistoia","IT",43.9306,10.9237,73832],
+  [3861416,"Chimbas","AR",-31.4833,-68.5333,73829],
+  [4911951,"South Lawndale","US",41.8436,-87.7125,73826],
+  [786735,"Prilep","MK",41.3451,21.555,73814],
+  [2325161,"Ozubulu","NG",5.9575,6.8531,73812],
+  [2745467,"Vlaardingen","NL",51.9125,4.3417,73798],
+  [2513882,"Mijas","ES",36.5958,-4.6373,73787],
+  [2546917,"Ifrane","MA",33.5267,-5.1102,73782],
+  [2288115,"Grand-Bassam","CI",5.2118,-3.7388,73772],
+  [2350886,"Aku","NG",6.709,7.3183,73742],
+  [1788406,"Guixi","CN",28.2886,117.2133,73732],
+  [354365,"Kafr az Zayyāt","EG",30.8248,30.8181,73725],
+  [1267819,"Karauli","IN",26.4983,77.0276,73717],
+  [1804442,"Lanxi","CN",29.2159,119.4716,73706],
+  [4900358,"Logan Square","US",41.9234,-87.6992,73702],
+  [11184442,"Savarkundla","IN",21.3373,71.3035,73695],
+  [2937936,"Detmold","DE",51.9386,8.8732,73680],
+  [289317,"Al Buraymī","OM",24.2509,55.7931,73670],
+  [1733782,"Labuan","MY",5.2803,115.2475,73653],
+  [2037252,"Genhe","CN",50.7833,121.5167,73631],
+  [1643776,"Gresik","ID",-7.1539,112.6561,73629],
+  [2325249,"Oyan","NG",8.05,4.7667,73622],
+  [1256755,"Shāhābād","IN",27.6431,79.9402,73606],
+  [6118158,"Red Deer","CA",52.2668,-113.802,73593],
+  [1627357,"Sewon","ID",-7.8764,110.3589,73585],
+  [1801983,"Luocheng","CN",29.3848,104.0286,73581],
+  [1184055,"Badin","PK",24.656,68.837,73569],
+  [5768233,"Rapid City","US",44.0805,-103.231,73569],
+  [214614,"Kamina","CD",-8.7351,24.998,73557],
+  [1274714,"Chāndpur","IN",29.1349,78.2719,73555],
+  [24851,"Nūrābād","IR",34.0734,47.9725,73528],
+  [122698,"Naqadeh","IR",36.9553,45.388,73528],
+  [2336237,"Jega","NG",12.2234,4.3797,73495],
+  [4229476,"Warner Robins","US",32.6157,-83.6266,73490],
+  [1271067,"Gokak","IN",16.169,74.8239,73478],
+  [2513947,"Melilla","ES",35.2937,-2.9383,73460],
+  [5007402,"Rochester Hills","US",42.6584,-83.1499,73424],
+  [6138625,"Saint-Léonard","CA",45.5877,-73.595,73423],
+  [6692280,"Canary Wharf","GB",51.5052,-0.0208,73390],
+  [1256329,"Sikandarābād","IN",28.4523,77.7,73379],
+  [2349276,"Asaba","NG",6.1982,6.7319,73374],
+  [1858445,"Kukichūō","JP",36.0674,139.675,73373],
+  [3690465,"Aguachica","CO",8.3084,-73.6166,73360],
+  [2327494,"Ohafia-Ifigh","NG",5.6146,7.8119,73355],
+  [153176,"Mpanda","TZ",-6.3438,31.0695,73338],
+  [1804979,"Juegang","CN",32.3174,121.1855,73317],
+  [1253113,"Virudunagar","IN",9.5851,77.9579,73273],
+  [3511233,"Bonao","DO",18.9369,-70.4092,73269],
+  [1047660,"Cuamba","MZ",-14.8031,36.5372,73268],
+  [321580,"Belek","TR",36.8628,31.0556,73260],
+  [4236895,"Decatur","US",39.8403,-88.9548,73254],
+  [3441243,"Paysandú","UY",-32.3171,-58.0807,73249],
+  [299582,"Tatvan","TR",38.4922,42.2827,73222],
+  [3855065,"General Roca","AR",-39.0333,-67.5833,73212],
+  [1709003,"Kawit","PH",14.4443,120.9016,73210],
+  [510291,"Peterhof","RU",59.8833,29.9,73199],
+  [1732741,"Taman Senai","MY",1.6006,103.6419,73176],
+  [5010636,"Southfield","US",42.4734,-83.2219,73156],
+  [2638978,"Rugby","GB",52.3709,-1.2642,73150],
+  [1852736,"Satsumasendai","JP",31.8167,130.3,73132],
+  [2478216,"Tamanrasset","DZ",22.785,5.5228,73128],
+  [3086024,"Siemianowice Śląskie","PL",50.3274,19.029,73121],
+  [2112823,"Hanamaki","JP",39.3833,141.1167,73115],
+  [310855,"Kâhta","TR",37.7855,38.6237,73105],
+  [699445,"Novomoskovs’k","UA",48.638,35.2455,73100],
+  [618806,"Zhlobin","BY",52.8926,30.024,73089],
+  [256575,"Néa Smýrni","GR",37.945,23.7142,73076],
+  [1185206,"Joypur Hāt","BD",25.1015,89.0273,73068],
+  [3649017,"Araure","VE",9.5814,-69.2385,73054],
+  [1273369,"Dausa","IN",26.89,76.3358,73034],
+  [1642726,"Jatibarang","ID",-6.4747,108.3153,73010],
+  [610824,"Zugdidi","GE",42.5088,41.8709,73006],
+  [7290013,"Shixing","CN",24.9482,114.0657,72996],
+  [1842859,"Koch'ang","KR",35.4333,126.7,72996],
+  [585103,"Qaraçuxur","AZ",40.3967,49.9736,72989],
+  [3111294,"Rubí","ES",41.4923,2.033,72987],
+  [1574507,"Móng Cái","VN",21.5247,107.9662,72960],
+  [1812597,"Dongdu","CN",35.85,117.7,72957],
+  [1728523,"Balanga","PH",14.6761,120.5361,72954],
+  [3493081,"San Juan de la Maguana","DO",18.8059,-71.2299,72950],
+  [785082,"Tetovo","MK",42.0097,20.9716,72944],
+  [1253468,"Valsād","IN",20.6101,72.9343,72929],
+  [3089684,"Ostrów Wielkopolski","PL",51.655,17.8069,72898],
+  [5546220,"Saint George","US",37.1041,-113.5841,72897],
+  [1168412,"Pano Aqil","PK",27.8562,69.1111,72881],
+  [3455051,"Paranavaí","BR",-23.0731,-52.4653,72848],
+  [3179866,"Caserta","IT",41.0726,14.3323,72844],
+  [567311,"Dachnoye","RU",59.8417,30.2558,72822],
+  [1278827,"Ambikāpur","IN",23.1189,83.1954,72821],
+  [1609395,"Krathum Baen","TH",13.6533,100.2597,72819],
+  [4839292,"New Britain","US",41.6612,-72.7795,72808],
+  [1812427,"Dongkan","CN",33.9997,119.8308,72789],
+  [1498693,"Minusinsk","RU",53.7103,91.6875,72781],
+  [3459796,"João Monlevade","BR",-19.81,-43.1736,72762],
+  [3156529,"Fredrikstad","NO",59.2181,10.9298,72760],
+  [2638671,"Salford","GB",53.4877,-2.2904,72750],
+  [1279945,"Jiuquan","CN",39.7432,98.5174,72732],
+  [2759887,"Almelo","NL",52.3567,6.6625,72725],
+  [1172904,"Kotri","PK",25.3657,68.3083,72672],
+  [1807553,"Dingcheng","CN",32.1272,115.0394,72663],
+  [1163952,"Tando Muhammad Khan","PK",25.1238,68.5368,72659],
+  [1803782,"Lichuan","CN",30.3,108.85,72653],
+  [561627,"Georgiyevsk","RU",44.1519,43.4697,72649],
+  [468082,"Yelabuga","RU",55.7613,52.0649,72643],
+  [4623560,"Franklin","US",35.9251,-86.8689,72639],
+  [523426,"Naro-Fominsk","RU",55.3875,36.7331,72632],
+  [2235029,"Bali","CM",5.8874,10.0118,72606],
+  [2036226,"Lanxi","CN",46.2579,126.2827,72528],
+  [1800430,"Miyang","CN",24.4042,103.4428,72485],
+  [3457509,"Matão","BR",-21.6033,-48.3658,72468],
+  [2829109,"Steglitz","DE",52.4561,13.332,72464],
+  [2037391,"Beichengqu","CN",40.4394,113.1536,72444],
+  [1842616,"Gongju","KR",36.4556,127.1247,72435],
+  [1177073,"Harunabad","PK",29.6121,73.138,72432],
+  [3406910,"Bacabal","BR",-4.2917,-44.7917,72372],
+  [1711146,"Ilagan","PH",17.1485,121.8892,72363],
+  [3833062,"Venado Tuerto","AR",-33.7456,-61.9688,72340],
+  [3468562,"Caçapava","BR",-23.1008,-45.7069,72340],
+  [2377457,"Nouadhibou","MR",20.9419,-17.0384,72337],
+  [1260730,"Pālghar","IN",19.6969,72.7654,72335],
+  [265243,"Maroúsi","GR",38.05,23.8,72333],
+  [1788462,"Xinzhi","CN",36.4989,111.7047,72303],
+  [8504959,"Finlyandskiy","RU",59.9682,30.3642,72292],
+  [5404024,"Turlock","US",37.4947,-120.8466,72292],
+  [1272873,"Dharapuram","IN",10.7383,77.5322,72291],
+  [2507877,"Aïn Touta","DZ",35.3768,5.9,72280],
+  [1037125,"Montepuez","MZ",-13.1256,38.9997,72279],
+  [4735966,"Temple","US",31.0982,-97.3428,72277],
+  [1802788,"Licheng","CN",31.4281,119.4835,72276],
+  [4005270,"Guanajuato","MX",21.0186,-101.2591,72237],
+  [785238,"Suva Reka","XK",42.3586,20.825,72229],
+  [4916079,"West Ridge","US",41.9998,-87.6928,72211],
+  [2622447,"Esbjerg","DK",55.4703,8.4519,72205],
+  [410096,"Ash Shafā","SA",21.0727,40.3184,72190],
+  [5324363,"Apple Valley","US",34.5008,-117.1859,72174],
+  [1691150,"Sagay","PH",10.9447,123.4242,72153],
+  [6141190,"Sarnia","CA",42.9787,-82.4041,72125],
+  [1842754,"Kyosai","KR",34.8503,128.5886,72124],
+  [2229411,"Limbe","CM",4.0236,9.2061,72106],
+  [2501404,"Cheria","DZ",35.2731,7.7519,72095],
+  [1639094,"Kuningan","ID",-6.9758,108.4831,72085],
+  [3471393,"Arujá","BR",-23.3961,-46.3208,72077],
+  [286987,"Nizwá","OM",22.9333,57.5333,72076],
+  [1920772,"Zhoucheng","CN",35.9122,116.3117,72070],
+  [1718722,"Capas","PH",15.3312,120.5898,72070],
+  [3465090,"Cruzeiro","BR",-22.5732,-44.9711,72022],
+  [3438995,"Mariano Roque Alonso","PY",-25.2079,-57.532,72008],
+  [146400,"Larnaca","CY",34.9229,33.6233,72000],
+  [2639842,"Purley","GB",51.3368,-0.112,72000],
+  [5369367,"Lynwood","US",33.9303,-118.2115,71989],
+  [5278052,"Waukesha","US",43.0117,-88.2315,71970],
+  [3454763,"Patrocínio","BR",-18.9439,-46.9925,71963],
+  [2755420,"Gouda","NL",52.0167,4.7083,71952],
+  [4145381,"Wilmington","US",39.746,-75.5466,71948],
+  [3446065,"Três Rios","BR",-22.1167,-43.2092,71944],
+  [1832828,"Yangsan","KR",35.342,129.0336,71936],
+  [1016698,"Bothaville","ZA",-27.3887,26.617,71934],
+  [1816176,"Caidian","CN",30.5833,114.0333,71891],
+  [5149222,"Canton","US",40.799,-81.3784,71885],
+  [2647793,"Guildford","GB",51.2354,-0.5743,71873],
+  [2352250,"Afikpo","NG",5.8926,7.9353,71866],
+  [3470264,"Bebedouro","BR",-20.9494,-48.4792,71862],
+  [4428667,"Gulfport","US",30.3674,-89.0928,71856],
+  [515083,"Sunzha","RU",43.3195,45.0491,71841],
+  [3599735,"Amatitlán","GT",14.4774,-90.6349,71836],
+  [3176477,"Fuorigrotta","IT",40.8333,14.2,71808],
+  [1274129,"Chintāmani","IN",13.4005,78.0517,71798],
+  [1271947,"Farīdpur","IN",28.21,79.5415,71783],
+  [707308,"Izmail","UA",45.3506,28.8375,71780],
+  [296173,"Yüksekova","TR",37.5736,44.2872,71729],
+  [2503847,"Birkhadem","DZ",36.715,3.05,71722],
+  [2637891,"Shrewsbury","GB",52.7101,-2.7521,71715],
+  [2744118,"Zaandam","NL",52.4385,4.8264,71708],
+  [2720501,"Borås","SE",57.721,12.9401,71700],
+  [694382,"Shakhtars’k","UA",48.0566,38.4383,71700],
+  [2501541,"Chelghoum el Aïd","DZ",36.1629,6.1665,71660],
+  [1848439,"Yawata","JP",34.8701,135.7027,71656],
+  [2349558,"Apomu","NG",7.3516,4.1834,71656],
+  [2033602,"Xiuyan","CN",40.2928,123.2744,71614],
+  [6138495,"Saint-Jean-sur-Richelieu","CA",45.3071,-73.2626,71613],
+  [170892,"Dārayyā","SY",33.4584,36.2326,71596],
+  [3586814,"Delgado","SV",13.7217,-89.1687,71594],
+  [5223869,"Pawtucket","US",41.8787,-71.3826,71591],
+  [1259154,"Pusad","IN",19.9127,77.5784,71588],
+  [1733438,"Donggongon","MY",5.907,116.1015,71585],
+  [1264555,"Madhubani","IN",26.3537,86.0717,71582],
+  [1508054,"Chernogorsk","RU",53.8236,91.2842,71582],
+  [4161625,"Lauderhill","US",26.1404,-80.2134,71579],
+  [1861290,"Itō","JP",34.9667,139.0833,71578],
+  [8224580,"Peckham","GB",51.474,-0.0697,71552],
+  [4593142,"Rock Hill","US",34.9249,-81.0251,71548],
+  [2473493,"Monastir","TN",35.778,10.8262,71546],
+  [3449310,"São Cristóvão","BR",-11.0147,-37.2064,71539],
+  [1137168,"Khanabad","AF",36.6825,69.1156,71531],
+  [3639747,"Güigüe","VE",10.0834,-67.778,71530],
+  [1626498,"Sragen","ID",-7.4264,111.0222,71522],
+  [1256039,"Sirsilla","IN",18.3886,78.8105,71499],
+  [113491,"Tākestān","IR",36.0706,49.6957,71499],
+  [2517595,"Fuengirola","ES",36.54,-4.6247,71482],
+  [1685880,"Solana","PH",17.6528,121.691,71475],
+  [2342628,"Fiditi","NG",7.7136,3.9172,71461],
+  [4369596,"Silver Spring","US",38.9907,-77.0261,71452],
+  [2656284,"Barnsley","GB",53.55,-1.4833,71447],
+  [2862026,"Norderstedt","DE",53.6859,9.9804,71439],
+  [3665657,"Yumbo","CO",3.5823,-76.4915,71436],
+  [1803842,"Lianzhou","CN",21.6662,109.2012,71423],
+  [3472603,"Alfenas","BR",-21.4292,-45.9472,71406],
+  [8410807,"Triyuga","NP",26.7919,86.699,71405],
+  [7279741,"Vapi","IN",20.3718,72.9049,71395],
+  [749748,"Khanjarah","TR",40.6,33.6153,71379],
+  [304797,"Mardin","TR",37.3131,40.7436,71373],
+  [945945,"Upington","ZA",-28.4478,21.2561,71373],
+  [1488253,"Zelenogorsk","RU",56.1124,94.5985,71354],
+  [4450687,"West Gulfport","US",30.4041,-89.0942,71329],
+  [966166,"Parys","ZA",-26.9033,27.4573,71319],
+  [733191,"Blagoevgrad","BG",42.0167,23.1,71306],
+  [263986,"Agios Dimitrios","GR",37.9333,23.7333,71294],
+  [1859586,"Kazo","JP",36.1167,139.6,71291],
+  [738025,"Yalova","TR",40.655,29.2769,71289],
+  [3020686,"Dunkerque","FR",51.033,2.377,71287],
+  [2038139,"Changtu","CN",42.7788,124.0955,71284],
+  [1848087,"Yukuhashi","JP",33.7287,130.983,71277],
+  [1723066,"Bulacan","PH",14.7928,120.8789,71274],
+  [2875115,"Lüneburg","DE",53.2509,10.4141,71260],
+  [3186952,"Zadar","HR",44.1158,15.2251,71258],
+  [362004,"Abū Tīj","EG",27.0451,31.3185,71257],
+  [3980187,"El Pueblito","MX",20.54,-100.4382,71254],
+  [4691585,"Flower Mound","US",33.0146,-97.097,71253],
+  [621074,"Svyetlahorsk","BY",52.6329,29.7389,71250],
+  [3084840,"Stargard","PL",53.3367,15.0499,71224],
+  [3461444,"Ijuí","BR",-28.3878,-53.9147,71202],
+  [1818016,"Anlu","CN",31.2575,113.6783,71198],
+  [4005219,"Guasave","MX",25.5675,-108.4676,71196],
+  [1684553,"Tagaytay","PH",14.0953,120.9336,71181],
+  [2033403,"Yilan","CN",46.3162,129.5546,71180],
+  [5688025,"Bismarck","US",46.8083,-100.7837,71167],
+  [286245,"Sur","OM",22.5667,59.5289,71152],
+  [3986984,"San Francisco del Rincón","MX",21.0184,-101.8551,71139],
+  [4751839,"Centreville","US",38.8404,-77.4289,71135],
+  [2529649,"Taroudant","MA",30.4703,-8.877,71133],
+  [559029,"Grazhdanka","RU",60.0359,30.4052,71128],
+  [4922462,"Lafayette","US",40.4167,-86.8753,71111],
+  [3178671,"Cinisello Balsamo","IT",45.5582,9.215,71109],
+  [1185092,"Thākurgaon","BD",26.031,88.4699,71096],
+  [5102443,"Passaic","US",40.8568,-74.1285,71085],
+  [431748,"Muyinga","BI",-2.8451,30.3414,71076],
+  [1809486,"Guiping","CN",23.3934,110.0744,71066],
+  [746958,"Gemlik","TR",40.4309,29.1597,71063],
+  [1808872,"Fu’an","CN",27.0637,119.6528,71053],
+  [1850396,"Tenri","JP",34.5833,135.8333,71052],
+  [4170156,"Riverview","US",27.8661,-82.3265,71050],
+  [1268259,"Kāmāreddi","IN",18.32,78.3418,71042],
+  [5386754,"Redlands","US",34.0556,-117.1825,71035],
+  [2521088,"Benidorm","ES",38.5382,-0.131,71034],
+  [2325733,"Orita Eruwa","NG",7.55,3.4333,71027],
+  [8358544,"Zográfos","GR",37.9757,23.7691,71026],
+  [5666639,"Missoula","US",46.8722,-113.994,71022],
+  [5385941,"Rancho Cordova","US",38.5891,-121.3027,71017],
+  [2940213,"Celle","DE",52.6226,10.0805,71010],
+  [1275346,"Bolpur","IN",23.6628,87.697,70998],
+  [1258546,"Rānāghāt","IN",23.1762,88.5667,70984],
+  [2643490,"Lowestoft","GB",52.4752,1.7517,70945],
+  [2044050,"Hongwŏn","KP",40.0253,127.9558,70923],
+  [3036386,"Aubervilliers","FR",48.9167,2.3833,70914],
+  [2870310,"Moabit","DE",52.5264,13.339,70911],
+  [3407882,"Altamira","BR",-3.2033,-52.2064,70888],
+  [1271891,"Fāzilka","IN",30.4021,74.0284,70887],
+  [2036283,"Kuandian","CN",40.7286,124.7847,70867],
+  [2173323,"Bundaberg","AU",-24.8662,152.3479,70826],
+  [2732544,"Vila Nova de Gaia","PT",41.124,-8.6124,70811],
+  [2301217,"Ejura","GH",7.3856,-1.3562,70807],
+  [2648272,"Gosport","GB",50.7951,-1.129,70793],
+  [123941,"Mīnāb","IR",27.131,57.0872,70790],
+  [1798548,"Poyang","CN",28.9924,116.6675,70787],
+  [1786357,"Yongfeng","CN",27.4549,112.1694,70783],
+  [1693239,"Plaridel","PH",14.8872,120.8572,70781],
+  [1502603,"Kopeysk","RU",55.1172,61.6282,70780],
+  [2343822,"Eha Amufu","NG",6.6592,7.7596,70779],
+  [2676176,"Södertälje","SE",59.1955,17.6253,70777],
+  [2037240,"Gongchangling","CN",41.1167,123.45,70761],
+  [3455168,"Paracatu","BR",-17.2222,-46.8747,70753],
+  [1276378,"Beypore","IN",11.1715,75.8061,70751],
+  [601084,"Alytus","LT",54.3964,24.0414,70747],
+  [697593,"Pervomays’k","UA",48.0443,30.8507,70746],
+  [2751738,"Lelystad","NL",52.5083,5.475,70741],
+  [1805757,"Jimo","CN",36.3897,120.4622,70733],
+  [2331005,"Malumfashi","NG",11.7894,7.6206,70709],
+  [3402721,"Carpina","BR",-7.8508,-35.2547,70689],
+  [2964180,"Gaillimh","IE",53.2725,-9.0509,70686],
+  [2549263,"Essaouira","MA",31.5125,-9.77,70634],
+  [160961,"Bukoba","TZ",-1.3317,31.8122,70628],
+  [1070661,"Antanifotsy","MG",-19.65,47.3167,70626],
+  [6053154,"Lethbridge","CA",49.7,-112.8186,70617],
+  [3374462,"Mindelo","CV",16.8901,-24.9804,70611],
+  [1273724,"Dādri","IN",28.5526,77.554,70609],
+  [203104,"Byumba","RW",-1.5763,30.0675,70593],
+  [8436165,"Kurortnyy","RU",60.1656,29.908,70589],
+  [7422816,"Dazaifu","JP",33.5128,130.5239,70587],
+  [2936871,"Dinslaken","DE",51.5623,6.7434,70573],
+  [2658822,"Sankt Gallen","CH",47.4239,9.3748,70572],
+  [4714131,"New Braunfels","US",29.703,-98.1244,70543],
+  [3089578,"Pabianice","PL",51.6645,19.3547,70542],
+  [3044082,"Tatabánya","HU",47.5849,18.3932,70541],
+  [1700980,"Mariano","PH",8.8333,125.1167,70516],
+  [1278152,"Auraiya","IN",26.4652,79.5092,70508],
+  [6534232,"Lamezia Terme","IT",38.9626,16.3094,70501],
+  [472278,"Vol’sk","RU",52.0454,47.3799,70500],
+  [2296969,"Nungua","GH",5.6011,-0.0771,70483],
+  [4501198,"Cherry Hill","US",39.9348,-75.0307,70475],
+  [2038541,"Baiquan","CN",47.6061,126.0848,70472],
+  [577881,"Beloretsk","RU",53.9631,58.3981,70468],
+  [3563504,"Contramaestre","CU",20.2988,-76.2451,70438],
+  [1168226,"Pattoki","PK",31.0202,73.8533,70436],
+  [555980,"Ishimbay","RU",53.4545,56.0415,70421],
+  [743882,"Kastamonu","TR",41.3781,33.7753,70402],
+  [1633308,"Pagar Alam","ID",-4.0251,103.2469,70386],
+  [3398331,"Iguatu","BR",-6.3594,-39.2986,70380],
+  [1806218,"Jiangyan","CN",32.5061,120.1428,70375],
+  [2034918,"Shiguai","CN",40.7058,110.2856,70357],
+  [1857844,"Maebaru-chūō","JP",33.5592,130.2015,70339],
+  [5294810,"Flagstaff","US",35.1981,-111.6513,70320],
+  [2295021,"Sunyani","GH",7.3399,-2.3268,70299],
+  [1715804,"Danao","PH",10.5208,124.0272,70270],
+  [3099112,"Gniezno","PL",52.5348,17.5826,70269],
+  [2759875,"Alphen aan den Rijn","NL",52.1292,4.6555,70251],
+  [310892,"Kadirli","TR",37.3739,36.0961,70248],
+  [3433715,"Goya","AR",-29.1399,-59.2634,70245],
+  [1585660,"Cho Dok","VN",10.7,105.1167,70239],
+  [148565,"Şirvan","AZ",39.9378,48.929,70220],
+  [956907,"Schweizer-Reneke","ZA",-27.1887,25.3293,70214],
+  [584243,"Adler","RU",43.429,39.9239,70200],
+  [1810846,"Fuyang","CN",30.0533,119.9519,70183],
+  [1789799,"Haining","CN",30.5363,120.6864,70171],
+  [1528121,"Karakol","KG",42.4907,78.3936,70171],
+  [316411,"Doğubayazıt","TR",39.5469,44.0842,70171],
+  [2522165,"Alcalá de Guadaira","ES",37.3379,-5.8395,70155],
+  [569955,"Chapayevsk","RU",52.9771,49.7086,70147],
+  [1277183,"Bāpatla","IN",15.9042,80.4674,70117],
+  [1294041,"Taungdwingyi","MM",20.0065,95.5453,70094],
+  [7997918,"Inaruwa","NP",26.6068,87.1478,70093],
+  [211734,"Lisala","CD",2.1513,21.5167,70087],
+  [4924006,"Muncie","US",40.1934,-85.3864,70087],
+  [1259994,"Payyannūr","IN",12.0935,75.2025,70069],
+  [2952984,"Bamberg","DE",49.8987,10.9007,70047],
+  [99169,"Khāliş","IQ",33.8081,44.5334,70046],
+  [3028808,"Cannes","FR",43.5514,7.0128,70011],
+  [2528659,"Tiflet","MA",33.8947,-6.3065,70010],
+  [3073699,"Kladno","CZ",50.1473,14.1029,70003],
+  [322673,"Ayvalık","TR",39.3193,26.6934,70002],
+  [6065686,"Maple Ridge","CA",49.2194,-122.6019,70000],
+  [2637490,"Southall","GB",51.509,-0.3713,70000],
+  [1521368,"Baikonur","KZ",45.6167,63.3167,70000],
+  [6618486,"Dainava (Kaunas)","LT",54.9153,23.9683,70000],
+  [1167507,"Chenab Nagar","PK",31.7551,72.914,70000],
+  [3099654,"Fordon","PL",53.1482,18.1704,70000],
+  [5373497,"Mira Mesa","US",32.9156,-117.1439,70000],
+  [5410438,"Woodland Hills","US",34.1683,-118.6059,70000],
+  [2300379,"Ho","GH",6.6008,0.4713,69998],
+  [935582,"Le Tampon","RE",-21.2766,55.5177,69986],
+  [4178003,"Weston","US",26.1004,-80.3998,69959],
+  [265533,"Aigáleo","GR",37.9833,23.6833,69946],
+  [1800764,"Mengcheng Chengguanzhen","CN",33.2661,116.5661,69916],
+  [2034228,"Wangkui","CN",46.8328,126.4777,69915],
+  [145034,"Abhar","IR",36.1468,49.218,69889],
+  [3557347,"Güira de Melena","CU",22.7961,-82.5067,69879],
+  [1255121,"Talipparamba","IN",12.0416,75.3593,69878],
+  [1635342,"Mertoyudan","ID",-7.52,110.2264,69871],
+  [3444864,"Votuporanga","BR",-20.4228,-49.9728,69863],
+  [3563559,"Consolación del Sur","CU",22.5042,-83.5144,69857],
+  [1254444,"Tindivanam","IN",12.234,79.6555,69839],
+  [1732846,"Segamat","MY",2.5148,102.8158,69816],
+  [3985344,"San Miguel de Allende","MX",20.9153,-100.7439,69811],
+  [2994393,"Mérignac","FR",44.8425,-0.6451,69791],
+  [3986172,"San José del Cabo","MX",23.0589,-109.6977,69788],
+  [3057124,"Trnava","SK",48.3774,17.5872,69785],
+  [1648266,"Bondowoso","ID",-7.9135,113.8215,69783],
+  [1175446,"Kahror Pakka","PK",29.6243,71.9144,69743],
+  [2481246,"Sidi Aïssa","DZ",35.8855,3.7724,69740],
+  [3588258,"Totonicapán","GT",14.9117,-91.3611,69734],
+  [136987,"Dehdasht","IR",30.7949,50.5646,69726],
+  [2334756,"Kaura Namoda","NG",12.5937,6.5865,69725],
+  [2294727,"Techiman","GH",7.5905,-1.9395,69720],
+  [3442057,"Las Piedras","UY",-34.7302,-56.2191,69682],
+  [2290582,"Dabou","CI",5.3256,-4.3768,69661],
+  [139223,"Chālūs","IR",36.655,51.4204,69638],
+  [343663,"Arba Minch","ET",6.0333,37.55,69622],
+  [3393106,"Paragominas","BR",-2.9667,-47.4833,69613],
+  [1160571,"Khāsh","IR",28.2211,61.2158,69603],
+  [1563281,"Tuy Hòa","VN",13.0955,109.3209,69596],
+  [5909629,"Brossard","CA",45.4501,-73.4658,69575],
+  [1850708,"Tanabe","JP",33.7333,135.3667,69563],
+  [1256475,"Shirpur","IN",21.3482,74.8804,69540],
+  [3883167,"Linares","CL",-35.8467,-71.5931,69535],
+  [4355585,"Frederick","US",39.4143,-77.4105,69479],
+  [3980180,"Frontera","MX",26.9281,-101.4521,69462],
+  [3832791,"Villa Carlos Paz","AR",-31.4241,-64.4978,69451],
+  [3458494,"Lins","BR",-21.6786,-49.7425,69451],
+  [5806298,"Pasco","US",46.2396,-119.1006,69451],
+  [1295395,"Syriam","MM",16.7689,96.245,69448],
+  [5383465,"Pittsburg","US",38.028,-121.8847,69424],
+  [70979,"Sayyān","YE",15.1718,44.3244,69404],
+  [3460441,"Jaboticabal","BR",-21.2547,-48.3222,69394],
+  [1177682,"Gujar Khan","PK",33.2541,73.3043,69374],
+  [2698691,"Kungsholmen","SE",59.3318,18.0412,69363],
+  [1172993,"Kot Malik Barkhurdar","PK",30.2038,66.9872,69359],
+  [355449,"Isnā","EG",25.2934,32.554,69335],
+  [1180983,"Chuchar-kana Mandi","PK",31.75,73.8,69321],
+  [5133858,"Ridgewood","US",40.7001,-73.9057,69317],
+  [4905211,"Palatine","US",42.1103,-88.0342,69308],
+  [1771304,"Kampong Baharu Balakong","MY",3.0333,101.75,69302],
+  [2491050,"Larbaâ","DZ",36.5647,3.1543,69298],
+  [1276752,"Bāsoda","IN",23.8515,77.9365,69278],
+  [2235194,"Bafia","CM",4.75,11.2333,69270],
+  [3689718,"Arauca","CO",7.0847,-70.7591,69264],
+  [1846912,"Anseong","KR",37.0108,127.2703,69255],
+  [1805884,"Jiehu","CN",35.5428,118.455,69245],
+  [663118,"Vaslui","RO",46.6333,27.7333,69225],
+  [2796491,"Hasselt","BE",50.9311,5.3378,69222],
+  [757718,"Suwałki","PL",54.1118,22.9309,69222],
+  [2637142,"Stafford","GB",52.8052,-2.1164,69217],
+  [4715292,"North Richland Hills","US",32.8343,-97.2289,69204],
+  [1863451,"Ōmihachiman","JP",35.1286,136.0976,69189],
+  [5105634,"Union City","US",40.7796,-74.0238,69156],
+  [4160983,"Kissimmee","US",28.3047,-81.4167,69152],
+  [2036069,"Linjiang","CN",41.8069,126.9078,69149],
+  [675918,"Hunedoara","RO",45.75,22.9,69136],
+  [3706567,"Las Cumbres","PA",9.0892,-79.5281,69102],
+  [10295350,"San Carlo All'Arena","IT",40.8651,14.2629,69094],
+  [677106,"Giurgiu","RO",43.8866,25.9627,69067],
+  [1163272,"Toba Tek Singh","PK",30.9713,72.4828,69064],
+  [1793230,"Tantou","CN",26.0303,119.5974,69050],
+  [1268820,"Jorhāt","IN",26.7575,94.2031,69033],
+  [2789786,"Ostend","BE",51.2155,2.927,69011],
+  [1634131,"Nganjuk","ID",-7.6051,111.9035,69011],
+  [2786578,"Sint-Niklaas","BE",51.1651,4.1437,69010],
+  [2033934,"Xiaoshi","CN",41.2971,124.1209,68994],
+  [1217474,"Denov","UZ",38.2675,67.8989,68994],
+  [1704067,"Magalang","PH",15.2151,120.6596,68988],
+  [1328121,"Bogale","MM",16.2941,95.3974,68938],
+  [3557378,"Güines","CU",22.8373,-82.0264,68935],
+  [2639022,"Royal Tunbridge Wells","GB",51.1332,0.2626,68910],
+  [5406990,"Walnut Creek","US",37.9063,-122.065,68910],
+  [1853081,"Saku","JP",36.2167,138.4833,68885],
+  [1862912,"Hekinan","JP",34.8833,136.9833,68872],
+  [2753638,"Hoorn","NL",52.6425,5.0597,68852],
+  [1706609,"Libon","PH",13.2997,123.4386,68846],
+  [2221053,"Wum","CM",6.3833,10.0667,68836],
+  [3698105,"Chulucanas","PE",-5.0925,-80.1625,68835],
+  [2487452,"Mila","DZ",36.4503,6.2644,68831],
+  [480089,"Tuymazy","RU",54.6067,53.7097,68829],
+  [1256207,"Sindhnūr","IN",15.7698,76.7558,68793],
+  [2110959,"Sukagawa","JP",37.2833,140.3833,68790],
+  [2343270,"Enugu-Ukwu","NG",6.1715,7.0053,68785],
+  [1002851,"Ga-Rankuwa","ZA",-25.6169,27.9947,68767],
+  [362973,"Abnūb","EG",27.2688,31.1523,68749],
+  [3113236,"Ponferrada","ES",42.5466,-6.5962,68736],
+  [1864009,"Fukuchiyama","JP",35.3,135.1167,68735],
+  [1805505,"Jinjiang","CN",19.7288,110.0085,68720],
+  [5989045,"Kamloops","CA",50.6665,-120.3192,68714],
+  [2503878,"Bir el Ater","DZ",34.7449,8.0602,68703],
+  [2339156,"Idah","NG",7.1135,6.7387,68703],
+  [3445133,"Viçosa","BR",-20.7539,-42.8819,68680],
+  [1276988,"Bargarh","IN",21.3335,83.6191,68670],
+  [532675,"Lys’va","RU",58.1086,57.8053,68660],
+  [988698,"Knysna","ZA",-34.0363,23.0471,68659],
+  [3448221,"São Sebastião do Paraíso","BR",-20.9169,-46.9914,68654],
+  [2479247,"Sougueur","DZ",35.1857,1.4961,68654],
+  [5127835,"Mount Vernon","US",40.9126,-73.8371,68628],
+  [1252908,"Wāshīm","IN",20.1113,77.133,68622],
+  [1253095,"Visnagar","IN",23.6986,72.5521,68619],
+  [2036959,"Heishan","CN",41.6892,122.1128,68603],
+  [4682991,"Conroe","US",30.3119,-95.456,68602],
+  [572525,"Borisoglebsk","RU",51.3671,42.0849,68597],
+  [1856569,"Moriyama","JP",35.0667,135.9833,68584],
+  [2328185,"Obonoma","NG",4.7113,6.7908,68584],
+  [4059102,"Dothan","US",31.2232,-85.3905,68567],
+  [490172,"Sosnovyy Bor","RU",59.8996,29.0857,68563],
+  [709161,"Feodosiya","UA",45.032,35.3815,68562],
+  [7302847,"Palwancha","IN",17.5815,80.6765,68561],
+  [2955272,"Aschaffenburg","DE",49.977,9.1521,68551],
+  [3670502,"Sabanalarga","CO",10.6307,-74.9221,68535],
+  [3099213,"Głogów","PL",51.6636,16.0845,68530],
+  [1267227,"Keshod","IN",21.3033,70.2486,68518],
+  [1793419,"Binhe","CN",32.6883,112.8275,68514],
+  [3686561,"Chinchiná","CO",4.9825,-75.6036,68512],
+  [7284833,"Budapest XVI. kerület","HU",47.5148,19.1703,68484],
+  [1849592,"Tsuruga","JP",35.6455,136.0558,68482],
+  [5377985,"Northridge","US",34.2283,-118.5367,68469],
+  [3985710,"Cabo San Lucas","MX",22.8909,-109.9124,68463],
+  [4880889,"Waterloo","US",42.4928,-92.343,68460],
+  [1683340,"Tanauan","PH",14.0863,121.1498,68456],
+  [1268015,"Kānnangād","IN",12.3081,75.1063,68450],
+  [1798946,"Pengcheng","CN",36.4311,114.17,68442],
+  [2508102,"Aïn Fakroun","DZ",35.9711,6.8737,68433],
+  [3107112,"Rivas-Vaciamadrid","ES",40.3261,-3.5109,68405],
+  [360526,"Al Qūşīyah","EG",27.4402,30.8171,68394],
+  [5036493,"Maple Grove","US",45.0725,-93.4558,68385],
+  [361029,"Al Jammālīyah","EG",31.1807,31.865,68381],
+  [1795166,"Shima","CN",24.4465,117.8122,68375],
+  [1275481,"Bīsalpur","IN",28.2925,79.8047,68355],
+  [1800519,"Mingguang","CN",32.7802,117.9638,68351],
+  [1799384,"Ninghai","CN",29.2892,121.4247,68330],
+  [4937230,"Framingham","US",42.2793,-71.4162,68318],
+  [3929631,"San Isidro","PE",-12.1167,-77.05,68309],
+  [601594,"Türkmenbaşy","TM",40.0222,52.9552,68292],
+  [1169278,"Narowal","PK",32.102,74.873,68291],
+  [1254953,"Tanuku","IN",16.7544,81.6814,68290],
+  [285811,"Al Faḩāḩīl","KW",29.0825,48.1303,68290],
+  [3361934,"Saldanha","ZA",-33.0117,17.9442,68284],
+  [704422,"Pokrovsk","UA",48.282,37.1758,68263],
+  [565614,"Dolgoprudnyy","RU",55.9496,37.5018,68259],
+  [2075432,"Bunbury","AU",-33.3271,115.6414,68248],
+  [2475612,"Tolga","DZ",34.7222,5.3785,68246],
+  [211647,"Lodja","CD",-3.521,23.6005,68244],
+  [300399,"Söke","TR",37.7482,27.4061,68230],
+  [1278178,"Attili","IN",16.7,81.6,68196],
+  [5386785,"Redondo Beach","US",33.8492,-118.3884,68166],
+  [1857470,"Matsutō","JP",36.5167,136.5667,68159],
+  [125897,"Langarūd","IR",37.1955,50.1526,68148],
+  [1277527,"Bālotra","IN",25.8324,72.24,68120],
+  [3531862,"Cadereyta Jiménez","MX",25.589,-100.0016,68111],
+  [3117667,"Majadahonda","ES",40.4735,-3.8718,68110],
+  [1529363,"Kuqa","CN",41.7171,82.9306,68105],
+  [4317639,"Bossier City","US",32.516,-93.7321,68094],
+  [2497060,"Es Senia","DZ",35.6478,-0.624,68084],
+  [2866135,"Neubrandenburg","DE",53.5641,13.2753,68082],
+  [1717911,"Catbalogan","PH",11.7753,124.8861,68081],
+  [3568312,"Artemisa","CU",22.8167,-82.7594,68073],
+  [3980605,"Valle de Santiago","MX",20.3914,-101.1922,68058],
+  [3406545,"Balsas","BR",-7.5325,-46.0356,68056],
+  [7279595,"Pithampur","IN",22.602,75.6965,68051],
+  [774558,"Chełm","PL",51.1431,23.4716,68043],
+  [691374,"Chystyakove","UA",48.0388,38.5969,68037],
+  [2503874,"Bir el Djir","DZ",35.72,-0.545,68032],
+  [1262463,"Munnar","IN",10.0882,77.0624,68000],
+  [565197,"Dorogomilovo","RU",55.75,37.5667,68000],
+  [692105,"Sverdlovs’k","UA",48.0896,39.6524,68000],
+  [3589452,"Santa Catarina Pinula","GT",14.5705,-90.4992,67994],
+  [3531865,"Cadereyta","MX",25.5833,-99.9833,67994],
+  [1274821,"Chamrajnagar","IN",11.9231,76.9395,67992],
+  [3031005,"Bourges","FR",47.0833,2.4,67987],
+  [1260040,"Pattukkottai","IN",10.4236,79.3195,67982],
+  [5410902,"Yorba Linda","US",33.8886,-117.8131,67973],
+  [751949,"Ardeşen","TR",41.1911,40.9875,67965],
+  [2038198,"Chaihe","CN",44.7598,129.6783,67963],
+  [571306,"Budënnovsk","RU",44.7839,44.1658,67962],
+  [1800521,"Minggang","CN",32.4586,114.0486,67945],
+  [1793286,"Tangzhai","CN",34.4328,116.5911,67936],
+  [3460598,"Itatiba","BR",-23.0058,-46.8389,67934],
+  [1021086,"Barberton","ZA",-25.7884,31.0532,67927],
+  [1720402,"Calbayog City","PH",12.0668,124.5962,67921],
+  [2026895,"Belogorsk","RU",50.9164,128.4773,67911],
+  [3070291,"Most","CZ",50.503,13.6362,67905],
+  [146054,"Stróvolos","CY",35.1487,33.3338,67904],
+  [2520425,"Campiña","ES",38.219,-2.9807,67904],
+  [3435264,"Concepción del Uruguay","AR",-32.4846,-58.2322,67895],
+  [3518387,"San Mateo Atenco","MX",19.2676,-99.5321,67890],
+  [197745,"Garissa","KE",-0.4527,39.646,67861],
+  [5053358,"Woodbury","US",44.9239,-92.9594,67855],
+  [3183178,"Altamura","IT",40.8266,16.5495,67821],
+  [2037658,"Dongfeng","CN",42.6403,125.5118,67820],
+  [668732,"Roman","RO",46.9212,26.9265,67819],
+  [684802,"Bârlad","RO",46.2318,27.6691,67818],
+  [679452,"Deva","RO",45.8833,22.9,67802],
+  [1503772,"Khanty-Mansiysk","RU",61.0042,69.0019,67800],
+  [358269,"Dayrūţ","EG",27.5564,30.8106,67788],
+  [1850742,"Tamano","JP",34.5174,133.9457,67786],
+  [3874119,"Quillota","CL",-32.8834,-71.2488,67779],
+  [5251436,"Eau Claire","US",44.8114,-91.4985,67778],
+  [2650096,"Ellesmere Port","GB",53.2788,-2.9013,67768],
+  [1606418,"Saraburi","TH",14.5333,100.9167,67763],
+  [1505453,"Ishim","RU",56.1128,69.4902,67762],
+  [2033128,"Zhenlai","CN",45.8496,123.2973,67760],
+  [2745673,"Velsen-Zuid","NL",52.46,4.65,67758],
+  [4372599,"Waldorf","US",38.6246,-76.9391,67752],
+  [3050616,"Kaposvár","HU",46.3667,17.8,67746],
+  [2785341,"Tournai","BE",50.6072,3.3893,67721],
+  [5117575,"Forest Hills","US",40.7162,-73.8501,67714],
+  [360923,"Al Khārijah","EG",25.4514,30.5464,67700],
+  [707099,"Kalush","UA",49.0119,24.3731,67698],
+  [138025,"Dāmghān","IR",36.1679,54.3429,67694],
+  [2034691,"Songjianghe","CN",42.1859,127.479,67672],
+  [2756429,"Ede","NL",52.0333,5.6583,67670],
+  [5341704,"Davis","US",38.5449,-121.7405,67666],
+  [1685577,"Subic","PH",14.8787,120.2319,67664],
+  [1849539,"Tsushima","JP",35.1667,136.7167,67658],
+  [1191368,"Pālang","BD",23.2182,90.3508,67652],
+  [4356188,"Glen Burnie","US",39.1626,-76.6247,67639],
+  [2208791,"Yafran","LY",32.0633,12.5286,67638],
+  [12070064,"Arenella","IT",40.8573,14.2228,67634],
+  [2351979,"Agbor","NG",6.2538,6.1942,67610],
+  [5333180,"Camarillo","US",34.2164,-119.0376,67608],
+  [1269507,"Jaisalmer","IN",26.9176,70.9039,67604],
+  [347236,"Toukh","EG",30.3549,31.2011,67599],
+  [1801850,"Luorong","CN",24.4058,109.6086,67593],
+  [4739157,"Victoria","US",28.8053,-97.0036,67574],
+  [1724767,"Bislig","PH",8.2153,126.3164,67567],
+  [693457,"Smila","UA",49.2224,31.8871,67530],
+  [6534228,"Guidonia Montecelio","IT",41.9936,12.7224,67516],
+  [2236967,"Soio","AO",-6.1349,12.3689,67491],
+  [360754,"Al Manzalah","EG",31.1582,31.936,67486],
+  [1278446,"Arāria","IN",26.1493,87.5132,67474],
+  [4355843,"Gaithersburg","US",39.1434,-77.2014,67456],
+  [1164987,"Shorkot","PK",31.9102,70.8776,67439],
+  [1791464,"Wenling","CN",28.3752,121.3842,67433],
+  [3574810,"Chaguanas","TT",10.5167,-61.4167,67433],
+  [3389609,"Santa Inês","BR",-3.6667,-45.38,67424],
+  [2342883,"Ezza-Ohu","NG",6.4409,8.0843,67414],
+  [3979673,"Ixtapa-Zihuatanejo","MX",17.6434,-101.5521,67408],
+  [8299614,"Rossendale","GB",53.6846,-2.2769,67400],
+  [1797120,"Fuqing","CN",25.7294,119.3747,67397],
+  [1270375,"Harda Khās","IN",22.3441,77.0954,67387],
+  [1855757,"Nakatsu","JP",33.5981,131.1883,67372],
+  [1816026,"Caohe","CN",30.2297,115.4335,67370],
+  [2715953,"Eskilstuna","SE",59.3666,16.5077,67359],
+  [4473083,"Jacksonville","US",34.7541,-77.4302,67357],
+  [2289983,"Dimbokro","CI",6.6468,-4.7052,67349],
+  [1710519,"City of Isabela","PH",6.7041,121.9712,67336],
+  [1257436,"Sangamner","IN",19.5678,74.2115,67309],
+  [1218239,"Tejen","TM",37.3834,60.5055,67294],
+  [3539093,"San Luis","CU",20.1881,-75.8503,67293],
+  [228853,"Mukono","UG",0.3533,32.7553,67290],
+  [2035453,"Pingzhuang","CN",42.0372,119.2889,67273],
+  [5397765,"South San Francisco","US",37.6547,-122.4077,67271],
+  [232066,"Kasese","UG",0.1833,30.0833,67269],
+  [1165635,"Shahdadpur","PK",25.9254,68.6228,67249],
+  [3445993,"Tubarão","BR",-28.4667,-49.0069,67245],
+  [540103,"Kstovo","RU",56.1473,44.1979,67242],
+  [2876865,"Lippstadt","DE",51.6737,8.3448,67219],
+  [1269217,"Jaorā","IN",23.6378,75.1271,67203],
+  [756867,"Tomaszów Mazowiecki","PL",51.5313,20.0086,67197],
+  [1852003,"Shiojiri","JP",36.1,137.9667,67159],
+  [2249222,"Louga","SN",15.6187,-16.2244,67154],
+  [303700,"Ödemiş","TR",38.2278,27.9696,67153],
+  [1811305,"Fengkou","CN",30.0827,113.3335,67139],
+  [256614,"Néa Ionía","GR",38.0357,23.7573,67134],
+  [2159045,"Maitland","AU",-32.7331,151.5574,67132],
+  [2384770,"Mbaïki","CF",3.8678,17.9892,67132],
+  [295432,"Bet Shemesh","IL",31.7307,34.9929,67100],
+  [4329753,"Kenner","US",29.9941,-90.2417,67091],
+  [1635660,"Melati","ID",-7.7333,110.3667,67090],
+  [3517517,"Santa Cruz Xoxocotlán","MX",17.0296,-96.7352,67086],
+  [2959927,"Aalen","DE",48.8378,10.0933,67085],
+  [5122477,"Jackson Heights","US",40.7557,-73.8854,67067],
+  [1864549,"Chiryū","JP",35,137.0333,67062],
+  [2977921,"Saint-Nazaire","FR",47.2796,-2.2099,67054],
+  [761168,"Przemyśl","PL",49.785,22.7673,67013],
+  [6091314,"Notre-Dame-de-Grâce","CA",45.4768,-73.6143,67000],
+  [1275117,"Buldāna","IN",20.5293,76.1846,66991],
+  [590031,"Narva","EE",59.3772,28.1903,66980],
+  [4367175,"Rockville","US",39.084,-77.1528,66980],
+  [2036033,"Liuhe","CN",42.2401,125.7172,66975],
+  [4632595,"Jackson","US",35.6145,-88.8139,66975],
+  [1648759,"Bima","ID",-8.4601,118.7267,66970],
+  [4899911,"Lincoln Park","US",41.9217,-87.6478,66959],
+  [1263103,"Mettupalayam","IN",11.2997,76.9349,66944],
+  [5411015,"Yuba City","US",39.1405,-121.6169,66941],
+  [2675397,"Solna","SE",59.36,18.0009,66909],
+  [1278573,"Anjār","IN",23.1132,70.0267,66888],
+  [582750,"Aleksin","RU",54.505,37.0674,66885],
+  [4975802,"Portland","US",43.6574,-70.2589,66881],
+  [5380748,"Palo Alto","US",37.4419,-122.143,66853],
+  [1789427,"Wacheng","CN",33.7833,114.5167,66848],
+  [2539134,"Oulad Teïma","MA",30.3947,-9.209,66832],
+  [1079048,"Ambovombe","MG",-25.1784,46.0872,66818],
+  [2863840,"Neuwied","DE",50.4336,7.4706,66805],
+  [5288661,"Casas Adobes","US",32.3234,-110.9951,66795],
+  [3512128,"Bajos de Haina","DO",18.4154,-70.0332,66784],
+  [5802570,"Marysville","US",48.0518,-122.1771,66773],
+  [2820087,"Unna","DE",51.538,7.6897,66734],
+  [1248749,"Dambulla","LK",7.86,80.6517,66716],
+  [1150007,"Trang","TH",7.5563,99.6114,66713],
+  [3512067,"Baní","DO",18.2796,-70.3318,66709],
+  [102318,"Sayhāt","SA",26.4835,50.0485,66702],
+  [8504950,"Parnas","RU",60.0696,30.3487,66693],
+  [824003,"Bakıxanov","AZ",40.4189,49.9669,66686],
+  [1714766,"Dinalupihan","PH",14.8783,120.4522,66670],
+  [7302806,"Bellampalli","IN",19.0558,79.493,66660],
+  [2507646,"Akbou","DZ",36.4575,4.5349,66654],
+  [5781770,"South Jordan","US",40.5622,-111.9297,66648],
+  [1274641,"Channapatna","IN",12.6514,77.2067,66647],
+  [1850892,"Takayama","JP",36.1333,137.25,66636],
+  [1258366,"Ratangarh","IN",28.0814,74.6185,66625],
+  [2034599,"Tailai","CN",46.3891,123.4137,66623],
+  [2523665,"Quartu Sant'Elena","IT",39.2293,9.25,66620],
+  [2473499,"La Mohammedia","TN",36.6745,10.1563,66593],
+  [294421,"Lod","IL",31.9467,34.8903,66589],
+  [1815184,"Chengyang","CN",35.5794,118.8328,66588],
+  [2035182,"Sanchazi","CN",42.0817,126.6003,66576],
+  [1236854,"Maharagama","LK",6.848,79.9265,66576],
+  [914959,"Kalulushi","ZM",-12.8415,28.0948,66575],
+  [134518,"Fīrūzābād","IR",28.8438,52.5707,66558],
+  [5265838,"Oshkosh","US",44.0247,-88.5426,66555],
+  [3991043,"Ramos Arizpe","MX",25.5393,-100.9474,66554],
+  [1653316,"Savannakhet","LA",16.5703,104.7622,66553],
+  [2305677,"Aflao","GH",6.1198,1.1901,66546],
+  [1165744,"Shabqadar","PK",34.216,71.5548,66541],
+  [4124112,"North Little Rock","US",34.7695,-92.2671,66504],
+  [1804451,"Lianyuan","CN",27.6883,111.6642,66501],
+  [4159050,"Homestead","US",25.4687,-80.4776,66498],
+  [758445,"Stalowa Wola","PL",50.5829,22.0533,66495],
+  [1170951,"Mansehra","PK",34.3302,73.1968,66486],
+  [1626312,"Sokaraja","ID",-7.4581,109.2881,66482],
+  [5108193,"Bayside","US",40.7684,-73.7771,66455],
+  [6180961,"White Rock","CA",49.0164,-122.8026,66450],
+  [1797417,"Wuxi","CN",26.5844,111.859,66442],
+  [3106054,"Vicálvaro","ES",40.4,-3.6,66439],
+  [2649258,"Folkestone","GB",51.0817,1.1673,66429],
+  [1265863,"Krishnagiri","IN",12.5192,78.2138,66419],
+  [2853292,"Plauen","DE",50.4973,12.1378,66412],
+  [704617,"Kovel","UA",51.2153,24.7087,66400],
+  [1258128,"Rishīkesh","IN",30.1078,78.2926,66390],
+  [539147,"Kungur","RU",57.4368,56.9593,66389],
+  [1270845,"Goyerkāta","IN",26.6998,89.0257,66358],
+  [547475,"Klintsy","RU",52.7602,32.2394,66336],
+  [2110774,"Tōgane","JP",35.55,140.3667,66332],
+  [2019309,"Neryungri","RU",56.6664,124.6383,66320],
+  [2036685,"Huinan","CN",42.6225,126.2614,66315],
+  [6141439,"Sault Ste. Marie","CA",46.5168,-84.3333,66313],
+  [5095445,"Bayonne","US",40.6687,-74.1143,66311],
+  [6690877,"Brixton","GB",51.4659,-0.1065,66300],
+  [3104342,"Zamora","ES",41.5063,-5.7446,66293],
+  [2646517,"Hounslow","GB",51.4684,-0.3609,66292],
+  [1853338,"Sabae","JP",35.9465,136.185,66291],
+  [2504072,"Besbes","DZ",36.7022,7.8472,66287],
+  [5024825,"Eagan","US",44.8041,-93.1669,66286],
+  [536162,"Leninogorsk","RU",54.6026,52.4609,66263],
+  [2759145,"Bergen op Zoom","NL",51.495,4.2917,66256],
+  [4153132,"Delray Beach","US",26.4615,-80.0728,66255],
+  [1274928,"Chāībāsa","IN",22.5504,85.8025,66252],
+  [2271977,"Algueirão","PT",38.7976,-9.3437,66250],
+  [2266977,"Loures","PT",38.8309,-9.1684,66231],
+  [461698,"Sosnovka","RU",60.0167,30.35,66227],
+  [3717588,"Saint-Marc","HT",19.1082,-72.6938,66226],
+  [2042645,"Rajin","KP",42.2556,130.2831,66224],
+  [725993,"Veliko Tŭrnovo","BG",43.0812,25.629,66217],
+  [1801797,"Luoyang","CN",24.9594,118.683,66188],
+  [7302829,"Mandamarri","IN",18.9651,79.4748,66176],
+  [731549,"Gabrovo","BG",42.8747,25.3342,66175],
+  [2038482,"Bamiantong","CN",44.9174,130.52,66170],
+  [320392,"Burdur","TR",37.7203,30.2908,66158],
+  [2036713,"Huanren","CN",41.2647,125.3667,66147],
+  [1797543,"Qionghu","CN",28.8406,112.374,66145],
+  [172082,"I‘zāz","SY",36.5866,37.0463,66138],
+  [2708365,"Halmstad","SE",56.6745,12.8568,66124],
+  [2005057,"Gamping Lor","ID",-7.7956,110.3264,66110],
+  [2036753,"Huanan","CN",46.2207,130.525,66087],
+  [1260671,"Palani","IN",10.4503,77.5209,66085],
+  [686578,"Alba Iulia","RO",46.0667,23.5833,66085],
+  [558082,"Gukovo","RU",48.0621,39.9355,66079],
+  [2511619,"Sagunto","ES",39.6833,-0.2667,66070],
+  [3546434,"Morón","CU",22.1077,-78.6267,66060],
+  [1628884,"Sampit","ID",-2.5315,112.9496,66053],
+  [1261772,"Nārnaul","IN",28.0444,76.1083,66049],
+  [1787331,"Zhangjiagang","CN",31.865,120.5389,66039],
+  [753866,"Zamość","PL",50.7231,23.252,66034],
+  [1790100,"Xiaolingwei","CN",32.0324,118.854,66031],
+  [4633419,"Johnson City","US",36.3134,-82.3535,66027],
+  [2243271,"Cabinda","AO",-5.55,12.2,66020],
+  [1272847,"Dharmapuri","IN",12.1277,78.1579,66017],
+  [1271934,"Fatehābād","IN",29.5153,75.4555,66013],
+  [1720561,"Calapan","PH",13.4117,121.1803,66008],
+  [1816753,"Beidaihehaibin","CN",39.8222,119.5181,66000],
+  [4755158,"Dale City","US",38.6371,-77.3111,65969],
+  [300796,"Silvan","TR",38.1371,41.0082,65956],
+  [1164970,"Shujaabad","PK",29.8809,71.2934,65952],
+  [1500607,"Lesosibirsk","RU",58.2358,92.4828,65945],
+  [4679867,"Cedar Park","US",30.5052,-97.8203,65945],
+  [300371,"Soma","TR",39.1855,27.6095,65934],
+  [169304,"Jablah","SY",35.3621,35.9276,65915],
+  [1855410,"Niitsu-honchō","JP",37.8002,139.1224,65910],
+  [1638775,"Lahat","ID",-3.7851,103.5428,65906],
+  [1850707,"Tanabe","JP",34.8224,135.766,65903],
+  [6241325,"Rotorua","NZ",-38.1387,176.2452,65901],
+  [3105184,"Vilanova i la Geltrú","ES",41.2239,1.7251,65890],
+  [1800675,"Mengyin","CN",35.7069,117.9264,65889],
+  [5130572,"Parkchester","US",40.839,-73.8604,65876],
+  [982899,"Lichtenburg","ZA",-26.152,26.1597,65863],
+  [4671524,"Atascocita","US",29.9988,-95.1766,65844],
+  [5044407,"Saint Cloud","US",45.5608,-94.1625,65842],
+  [4354265,"Ellicott City","US",39.2673,-76.7983,65834],
+  [1790601,"Xiangcheng Chengguanzhen","CN",33.847,113.4778,65833],
+  [1260771,"Palāsa","IN",18.7726,84.4101,65833],
+  [1860748,"Kashima-shi","JP",35.9654,140.6447,65814],
+  [5364329,"Laguna Niguel","US",33.5225,-117.7075,65806],
+  [2511306,"Sanlúcar de Barrameda","ES",36.7781,-6.3515,65805],
+  [1276783,"Basavakalyān","IN",17.8745,76.9497,65805],
+  [4406831,"Saint Charles","US",38.7839,-90.4812,65794],
+  [4696233,"Harlingen","US",26.1906,-97.6961,65774],
+  [1494573,"Polevskoy","RU",56.4422,60.1878,65770],
+  [3454818,"Pato Branco","BR",-26.2286,-52.6706,65754],
+  [3171366,"Pavia","IT",45.1921,9.1592,65734],
+  [3179661,"Castellammare di Stabia","IT",40.7021,14.4869,65730],
+  [2111836,"Mooka","JP",36.4333,140.0167,65717],
+  [2633485,"Wrexham","GB",53.0466,-2.9913,65692],
+  [1274430,"Chingleput","IN",12.6918,79.9766,65689],
+  [2037820,"Dashitou","CN",43.3067,128.5114,65683],
+  [1689832,"San Ildefonso","PH",15.0809,120.941,65669],
+  [1688954,"San Miguel","PH",15.1423,120.9757,65661],
+  [2473540,"Al Marsá","TN",36.8782,10.3247,65640],
+  [3096372,"Kędzierzyn-Koźle","PL",50.3498,18.2261,65636],
+  [1810920,"Qingyang","CN",37.4958,121.2581,65622],
+  [1817858,"Babu","CN",24.4167,111.5167,65603],
+  [1299237,"Pyapon","MM",16.2854,95.6788,65601],
+  [1273992,"Chopda","IN",21.2458,75.2995,65598],
+  [3454690,"Paulínia","BR",-22.7611,-47.1542,65595],
+  [1728772,"Bais","PH",9.5911,123.1228,65594],
+  [2517816,"Estepona","ES",36.4276,-5.1459,65592],
+  [1260607,"Panaji","IN",15.4957,73.8262,65586],
+  [261779,"Ioánnina","GR",39.6649,20.8519,65574],
+  [3687952,"Caldas","CO",6.0911,-75.6357,65565],
+  [6113365,"Prince George","CA",53.9166,-122.753,65558],
+  [2033423,"Yebaishou","CN",41.3975,119.6408,65536],
+  [1807645,"Huaiyuan Chengguanzhen","CN",32.9589,117.1657,65530],
+  [5391791,"San Clemente","US",33.427,-117.612,65526],
+  [4792867,"West Lynchburg","US",37.4032,-79.1781,65517],
+  [1254744,"Thenkasi","IN",8.96,77.3153,65496],
+  [3876685,"Peñaflor","CL",-33.6063,-70.8765,65495],
+  [290269,"Dār Kulayb","BH",26.0686,50.5039,65466],
+  [65785,"Afgooye","SO",2.1381,45.1212,65461],
+  [2510281,"Torremolinos","ES",36.6204,-4.4998,65448],
+  [1606386,"Sattahip","TH",12.6664,100.9007,65444],
+  [4937232,"Framingham Center","US",42.2973,-71.437,65413],
+  [1813892,"Xincheng","CN",33.6333,115.1833,65411],
+  [1852502,"Shiki","JP",35.8333,139.5833,65411],
+  [3459035,"Lajeado","BR",-29.4669,-51.9614,65407],
+  [3024297,"Colmar","FR",48.0808,7.3558,65405],
+  [622794,"Rechytsa","BY",52.3617,30.3916,65400],
+  [2110793,"Tendō","JP",38.3536,140.3697,65393],
+  [2635650,"Torquay","GB",50.462,-3.5252,65388],
+  [2234865,"Bangangté","CM",5.1408,10.5254,65385],
+  [2663536,"Växjö","SE",56.8777,14.8091,65383],
+  [1816406,"Bianzhuang","CN",34.8486,118.0447,65381],
+  [1252822,"Yādgīr","IN",16.7701,77.1376,65376],
+  [229380,"Masaka","UG",-0.3338,31.7341,65373],
+  [527717,"Meleuz","RU",52.9647,55.9328,65362],
+  [3515044,"Tultepec","MX",19.685,-99.1281,65338],
+  [539283,"Kumertau","RU",52.7667,55.7833,65321],
+  [1271670,"Gangārāmpur","IN",25.4014,88.5298,65316],
+  [1258740,"Ramanathapuram","IN",9.3716,78.8308,65314],
+  [2905560,"Herten","DE",51.5964,7.1439,65306],
+  [1269564,"Jagraon","IN",30.7878,75.4739,65305],
+  [5136454,"Schenectady","US",42.8142,-73.9396,65305],
+  [1735077,"Perai","MY",5.3833,100.3833,65301],
+  [2034226,"Hepingjie","CN",42.0597,126.9158,65298],
+  [1176997,"Haveli Lakha","PK",30.451,73.6937,65289],
+  [3988392,"Rosarito","MX",32.3604,-117.0464,65278],
+  [3465108,"Cruz Alta","BR",-28.644,-53.6063,65275],
+  [1683877,"Talisay","PH",10.7375,122.9666,65265],
+  [1623080,"Tulungagung","ID",-8.0657,111.9025,65262],
+  [2758012,"Capelle aan den IJssel","NL",51.9292,4.5778,65255],
+  [1863495,"Gushikawa","JP",26.3594,127.8674,65251],
+  [1279003,"Alīpur Duār","IN",26.4835,89.5229,65232],
+  [722437,"Békéscsaba","HU",46.6833,21.1,65206],
+  [1172318,"Lala Musa","PK",32.7014,73.9575,65197],
+  [492094,"Slavyansk-na-Kubani","RU",45.2558,38.1256,65196],
+  [1806097,"Ningde","CN",26.6617,119.5228,65170],
+  [8285535,"Villa de Vallecas","ES",40.367,-3.6015,65162],
+  [1907123,"Hasuda","JP",35.9711,139.6491,65161],
+  [1811260,"Fengrun","CN",39.8333,118.1167,65150],
+  [2537545,"Sefrou","MA",33.8319,-4.828,65150],
+  [1185181,"Lalmonirhat","BD",25.9172,89.446,65127],
+  [3407407,"Aquiraz","BR",-3.9014,-38.3911,65116],
+  [1266162,"Kopargaon","IN",19.8824,74.4761,65116],
+  [5415035,"Broomfield","US",39.9205,-105.0866,65065],
+  [4846834,"Ames","US",42.0347,-93.6199,65060],
+  [5130561,"Park Slope","US",40.6701,-73.986,65047],
+  [4279247,"Shawnee","US",39.0417,-94.7202,65046],
+  [3628966,"La Villa del Rosario","VE",10.3258,-72.3134,65011],
+  [1804645,"Kunyang","CN",27.6658,120.5658,65009],
+  [1121381,"Bāzār-e Yakāwlang","AF",34.7353,66.9738,65000],
+  [1429434,"Bāzārak","AF",35.3129,69.5152,65000],
+  [345149,"Ādīgrat","ET",14.277,39.462,65000],
+  [1220747,"Qŭrghonteppa","TJ",37.834,68.7819,65000],
+  [704901,"Korosten’","UA",50.9594,28.6386,65000],
+  [3437918,"Itauguá","PY",-25.3926,-57.3542,64997],
+  [4106458,"Conway","US",35.0887,-92.4421,64980],
+  [1514192,"Chust","UZ",41.0033,71.2379,64966],
+  [1791779,"Wanning","CN",18.7993,110.3841,64954],
+  [3665913,"Villa del Rosario","CO",7.8339,-72.4742,64951],
+  [5097441,"East Orange","US",40.7673,-74.2049,64949],
+  [725712,"Vratsa","BG",43.21,23.5625,64941],
+  [3397893,"Itacoatiara","BR",-3.1431,-58.4442,64937],
+  [1136575,"Khulm","AF",36.6974,67.6983,64933],
+  [2526488,"Youssoufia","MA",32.2463,-8.5294,64910],
+  [1275321,"Bongaigaon","IN",26.477,90.5582,64902],
+  [2906121,"Herford","DE",52.1146,8.6734,64879],
+  [1803560,"Lincheng","CN",19.9078,109.6858,64874],
+  [3435010,"Don Torcuato","AR",-34.4946,-58.6273,64867],
+  [4906500,"Portage Park","US",41.9578,-87.7651,64841],
+  [2643186,"Maidenhead","GB",51.5228,-0.7199,64831],
+  [4911600,"Skokie","US",42.0334,-87.7334,64821],
+  [1264071,"Malkāpur","IN",20.8855,76.1993,64812],
+  [1567069,"Tân An","VN",10.5359,106.4137,64801],
+  [294098,"Nazareth","IL",32.7006,35.2972,64800],
+  [2645418,"Kingswood","GB",51.4528,-2.5083,64793],
+  [3461724,"Gurupi","BR",-11.7292,-49.0686,64789],
+  [3173775,"Massa","IT",44.0354,10.1393,64783],
+  [2917540,"Grevenbroich","DE",51.091,6.5827,64779],
+  [833262,"Čair","MK",42.0153,21.4411,64773],
+  [3982266,"Tecate","MX",32.5672,-116.6251,64764],
+  [3397967,"Itaituba","BR",-4.2761,-55.9836,64756],
+  [147429,"Nakhchivan","AZ",39.2089,45.4122,64754],
+  [4152872,"Daytona Beach","US",29.2108,-81.0228,64736],
+  [1267853,"Kāranja","IN",20.4827,77.4886,64734],
+  [1266849,"Khatauli","IN",29.2784,77.733,64731],
+  [2812482,"Weimar","DE",50.9803,11.329,64727],
+  [1278297,"Ashoknagar","IN",24.5758,77.7312,64722],
+  [1925943,"Hwawŏn","KR",35.8017,128.5008,64718],
+  [2035196,"Salaqi","CN",40.5414,110.5108,64704],
+  [325103,"Ahlat","TR",38.7489,42.4801,64695],
+  [7259621,"West Bloomfield Township","US",42.5689,-83.3836,64690],
+  [4174738,"Tamarac","US",26.2129,-80.2498,64681],
+  [1255955,"Siuri","IN",23.9081,87.5277,64659],
+  [1185236,"Rāipur","BD",23.0391,90.7681,64652],
+  [1262319,"Nābha","IN",30.3758,76.1529,64640],
+  [2498543,"El Bayadh","DZ",33.6832,1.0193,64632],
+  [3440781,"Rivera","UY",-30.9053,-55.5508,64631],
+  [5177568,"Youngstown","US",41.0998,-80.6495,64628],
+  [2636177,"Taunton","GB",51.0149,-3.1029,64621],
+  [1684016,"Talavera","PH",15.5883,120.9192,64610],
+  [3645981,"Chacao","VE",10.4958,-66.8537,64609],
+  [3449696,"Santo Ângelo","BR",-28.2992,-54.2631,64606],
+  [5367565,"Lodi","US",38.1302,-121.2724,64596],
+  [2515812,"La Línea de la Concepción","ES",36.1681,-5.3478,64595],
+  [1787901,"Xunchang","CN",28.4543,104.715,64580],
+  [4580543,"Greenville","US",34.8526,-82.394,64579],
+  [3686675,"Chía","CO",4.8588,-74.0587,64569],
+  [1239047,"Kotikawatta","LK",6.9269,79.9095,64565],
+  [2469140,"Msaken","TN",35.7292,10.5808,64563],
+  [1256377,"Siddipet","IN",18.1048,78.8486,64562],
+  [3840092,"Puerto Madryn","AR",-42.7692,-65.0385,64555],
+  [1171502,"Mailsi","PK",29.8012,72.174,64545],
+  [2128787,"Ōdate","JP",40.2718,140.5576,64543],
+  [1634718,"Muncar","ID",-8.4333,114.3333,64537],
+  [350203,"Rosetta","EG",31.3995,30.4172,64481],
+  [1815656,"Changli","CN",39.7042,119.1506,64476],
+  [2480368,"Sidi Khaled","DZ",34.387,4.9879,64476],
+  [1276023,"Bhawānipatna","IN",19.9072,83.167,64468],
+  [1266666,"Khopoli","IN",18.7856,73.3459,64460],
+  [1267635,"Karwar","IN",14.8136,74.1297,64457],
+  [324490,"Akşehir","TR",38.3575,31.4164,64446],
+  [3988258,"Sahuayo de Morelos","MX",20.0586,-102.7157,64431],
+  [3393008,"Parintins","BR",-2.6283,-56.7358,64428],
+  [1820906,"Bandar Seri Begawan","BN",4.8904,114.9401,64409],
+  [1804874,"Kaihua","CN",23.3695,104.2772,64404],
+  [1716995,"Concepcion","PH",15.3255,120.6572,64402],
+  [6941099,"Nepalgunj","NP",28.05,81.6167,64400],
+  [1785698,"Yunmeng Chengguanzhen","CN",31.0625,113.7655,64390],
+  [483029,"Tikhoretsk","RU",45.8547,40.1253,64387],
+  [2634686,"Waterlooville","GB",50.8807,-1.0304,64350],
+  [1861699,"Imaichi","JP",36.7167,139.6833,64323],
+  [501215,"Rossosh’","RU",51.1209,38.5116,64323],
+  [1165388,"Shakargarh","PK",32.2636,75.1601,64304],
+  [1178456,"Ghotki","PK",28.0044,69.3157,64295],
+  [2961284,"Tallaght","IE",53.2859,-6.3734,64282],
+  [4709013,"Mansfield","US",32.5632,-97.1417,64274],
+  [1123004,"Taloqan","AF",36.7361,69.5345,64256],
+  [1873172,"Ongjin","KP",37.9347,125.3619,64247],
+  [480716,"Tuapse","RU",44.1053,39.0802,64234],
+  [2891524,"Kerpen","DE",50.8699,6.6969,64226],
+  [2467246,"Skanes","TN",35.7833,10.8,64222],
+  [5393052,"Santa Cruz","US",36.9741,-122.0308,64220],
+  [5382496,"Pico Rivera","US",33.9831,-118.0967,64218],
+  [5369568,"Madera","US",36.9613,-120.0607,64208],
+  [997151,"Heidelberg","ZA",-26.5048,28.3592,64199],
+  [1267360,"Kāyankulam","IN",9.1817,76.5009,64183],
+  [2035325,"Qinggang","CN",46.6847,126.106,64182],
+  [8199378,"Modiin Ilit","IL",31.9322,35.0442,64179],
+  [2320920,"Uga","NG",5.9358,7.0793,64179],
+  [3183299,"Alessandria","IT",44.9092,8.6101,64178],
+  [5257754,"Janesville","US",42.6828,-89.0187,64123],
+  [4881346,"West Des Moines","US",41.5772,-93.7113,64113],
+  [3436728,"Villa Elisa","PY",-25.3676,-57.5927,64099],
+  [583350,"Aleksandrov","RU",56.3952,38.7122,64088],
+  [1855580,"Narutochō-mitsuishi","JP",34.1993,134.6093,64082],
+  [1164896,"Sibi","PK",29.543,67.8773,64069],
+  [2513759,"Molina de Segura","ES",38.0546,-1.2076,64065],
+  [7302830,"Chinnachowk","IN",14.4752,78.8354,64053],
+  [1275462,"Bishnupur","IN",23.0738,87.3199,64041],
+  [121925,"Nūrābād","IR",30.1141,51.5217,64041],
+  [2512862,"Paterna","ES",39.5026,-0.4408,64023],
+  [256075,"Palaió Fáliro","GR",37.9281,23.7011,64021],
+  [907111,"Mazabuka","ZM",-15.856,27.748,64006],
+  [506043,"Kotlovka","RU",55.6593,37.604,64000],
+  [706466,"Khartsyz’k","UA",48.0424,38.1473,64000],
+  [1693077,"Polomolok","PH",6.2217,125.064,63987],
+  [1263504,"Mārkāpur","IN",15.7353,79.2685,63982],
+  [1276757,"Basmat","IN",19.3287,77.1575,63972],
+  [3464891,"Curvelo","BR",-18.7564,-44.4308,63954],
+  [2643266,"Macclesfield","GB",53.2602,-2.1256,63954],
+  [1277814,"Baheri","IN",28.7742,79.4974,63953],
+  [5374322,"Montebello","US",34.0095,-118.1053,63921],
+  [1265579,"Kunnamkulam","IN",10.6467,76.067,63903],
+  [1623096,"Tulangan Utara","ID",-7.4737,112.6505,63889],
+  [3460974,"Itabaiana","BR",-10.685,-37.4253,63888],
+  [2655262,"Bognor Regis","GB",50.7821,-0.6798,63885],
+  [202326,"Cyangugu","RW",-2.4846,28.9075,63883],
+  [3563843,"Colón","CU",22.7206,-80.9049,63882],
+  [1259056,"Rāghogarh","IN",24.4432,77.1977,63873],
+  [3628550,"San Antonio de Los Altos","VE",10.3885,-66.9518,63873],
+  [1736278,"Kangar","MY",6.4414,100.1986,63869],
+  [2971053,"Valence","FR",44.9256,4.9096,63864],
+  [359576,"Awsīm","EG",30.123,31.1357,63862],
+  [2641520,"Newtownabbey","GB",54.6598,-5.9086,63860],
+  [293768,"Ramla","IL",31.9292,34.8656,63860],
+  [2524907,"Cosenza","IT",39.2989,16.2531,63852],
+  [2984701,"Quimper","FR",48,-4.1,63849],
+  [1563241,"Thành Phố Uông Bí","VN",21.0343,106.7705,63829],
+  [3149318,"Kristiansand","NO",58.1467,7.9956,63814],
+  [361329,"Al Fashn","EG",28.8243,30.8995,63793],
+  [1176241,"Jampur","PK",29.6424,70.5952,63791],
+  [1586151,"Cao Lãnh","VN",10.4602,105.6329,63770],
+  [1732742,"Kulai","MY",1.6561,103.6032,63762],
+  [2923822,"Fulda","DE",50.5516,9.6752,63760],
+  [1787646,"Yangcun","CN",39.3639,117.0603,63756],
+  [1784553,"Zhicheng","CN",31.0075,119.9085,63753],
+  [4005297,"Guamúchil","MX",25.4587,-108.0773,63743],
+  [3468570,"Caçador","BR",-26.7753,-51.015,63726],
+  [1270965,"Gopālganj","IN",26.4673,84.4404,63725],
+  [766027,"Łomża","PL",53.1781,22.0593,63723],
+  [4693342,"Georgetown","US",30.6327,-97.6772,63716],
+  [172503,"As Safīrah","SY",36.077,37.3725,63708],
+  [1153081,"Kanchanaburi","TH",14.0041,99.5483,63699],
+  [1048364,"Chokwé","MZ",-24.5333,32.9833,63695],
+  [4179574,"Alpharetta","US",34.0754,-84.2941,63693],
+  [3455671,"Ouro Preto","BR",-20.3948,-43.5052,63678],
+  [3073789,"Karviná","CZ",49.854,18.5417,63677],
+  [3468100,"Caldas Novas","BR",-17.7443,-48.6279,63675],
+  [2645753,"Kettering","GB",52.3984,-0.7257,63675],
+  [2797670,"Genk","BE",50.965,5.5008,63666],
+  [1852347,"Shimodate","JP",36.3,139.9833,63666],
+  [2043484,"Kilju","KP",40.9642,129.3278,63652],
+  [5161262,"Lorain","US",41.4528,-82.1824,63647],
+  [1254046,"Tura","IN",25.5142,90.2024,63645],
+  [2511150,"Santa Lucía","ES",27.9117,-15.5407,63637],
+  [1817701,"Baihe","CN",22.1343,107.232,63629],
+  [3461013,"Irecê","BR",-11.3042,-41.8558,63626],
+  [4285268,"Bowling Green","US",36.9903,-86.4436,63616],
+  [1608232,"Nong Khai","TH",17.8785,102.742,63609],
+  [5117388,"Flatlands","US",40.6212,-73.9349,63601],
+  [4353765,"Dundalk","US",39.2507,-76.5205,63597],
+  [1849904,"Tosu","JP",33.3667,130.5167,63595],
+  [2935825,"Dormagen","DE",51.0968,6.8317,63582],
+  [464625,"Zarechnyy","RU",53.2036,45.1923,63579],
+  [3188434,"Užice","RS",43.8586,19.8488,63577],
+  [2654394,"Buckley","GB",53.1667,-3.0833,63576],
+  [1818004,"Mabai","CN",23.0128,104.4508,63569],
+  [3093524,"Leszno","PL",51.8403,16.5749,63565],
+  [2950438,"Bergheim","DE",50.9557,6.6399,63558],
+  [3466696,"Catalão","BR",-18.1658,-47.9464,63544],
+  [1606588,"Samut Sakhon","TH",13.5475,100.2736,63498],
+  [5025219,"Eden Prairie","US",44.8547,-93.4708,63496],
+  [3105935,"Viladecans","ES",41.3141,2.0143,63489],
+  [1736302,"Jitra","MY",6.2681,100.4217,63489],
+  [5101879,"North Bergen","US",40.8043,-74.0121,63484],
+  [291580,"Zayed City","AE",23.6542,53.7052,63482],
+  [3446138,"Três Corações","BR",-21.6969,-45.2533,63457],
+  [8310183,"Korydallós","GR",37.9847,23.6471,63445],
+  [2647984,"Great Yarmouth","GB",52.6083,1.7305,63434],
+  [195272,"Kakamega","KE",0.2842,34.7523,63426],
+  [2507943,"Aïn Sefra","DZ",32.75,-0.5833,63420],
+  [3123329,"El Prat de Llobregat","ES",41.3278,2.0947,63418],
+  [1258797,"Rājsamand","IN",25.0715,73.8798,63414],
+  [1799908,"Nanlong","CN",31.3533,106.0631,63405],
+  [3390288,"Rio Largo","BR",-9.4783,-35.8533,63387],
+  [7261268,"Florence-Graham","US",33.9677,-118.2444,63387],
+  [4954380,"Waltham","US",42.3765,-71.2356,63378],
+  [7284840,"Budapest XX. kerület","HU",47.4367,19.1009,63371],
+  [1283621,"Siddharthanagar","NP",27.5,83.45,63367],
+  [1864099,"Fujioka","JP",36.2462,139.072,63358],
+  [2922586,"Garbsen","DE",52.4137,9.5899,63355],
+  [1735459,"Teluk Intan","MY",4.0222,101.0208,63353],
+  [827329,"Pavlovo","RU",55.9686,43.0912,63338],
+  [5821086,"Cheyenne","US",41.14,-104.8202,63335],
+  [2496232,"Frenda","DZ",35.0654,1.0495,63319],
+  [137956,"Dārāb","IR",28.7519,54.5444,63319],
+  [356806,"Fuwwah","EG",31.2037,30.5491,63310],
+  [1789693,"Xiazhuang","CN",34.9161,118.6389,63285],
+  [4845411,"West Hartford","US",41.762,-72.742,63268],
+  [1792585,"Fuding","CN",27.3273,120.214,63250],
+  [933305,"Molepolole","BW",-24.4066,25.4951,63248],
+  [1255004,"Tāndūr","IN",17.2485,77.577,63239],
+  [662334,"Zalău","RO",47.2,23.05,63232],
+  [3445597,"Valença","BR",-13.3703,-39.0731,63231],
+  [3924679,"Vilhena","BR",-12.7406,-60.1458,63231],
+  [305359,"Kuşadası","TR",37.8601,27.2571,63177],
+  [10630431,"Kalamassery","IN",10.0614,76.3263,63176],
+  [3080004,"Żory","PL",50.0452,18.7006,63174],
+  [1643981,"Godean","ID",-7.7697,110.2939,63164],
+  [4128894,"Rogers","US",36.332,-94.1185,63159],
+  [2503147,"Bougara","DZ",36.5418,3.081,63155],
+  [1255361,"Sūratgarh","IN",29.3215,73.8998,63153],
+  [1263659,"Mannargudi","IN",10.6663,79.4506,63148],
+  [6071618,"Medicine Hat","CA",50.0393,-110.6766,63138],
+  [3524348,"Linares","MX",24.858,-99.5677,63104],
+  [3880107,"Melipilla","CL",-33.6891,-71.2153,63100],
+  [579514,"Novaya Balakhna","RU",56.4899,43.6011,63083],
+  [3622247,"Limón","CR",9.9907,-83.036,63081],
+  [3578959,"Les Abymes","GP",16.273,-61.5051,63058],
+  [1527199,"Tokmok","KG",42.8419,75.3015,63047],
+  [1816256,"Botou","CN",38.0667,116.5666,63045],
+  [1863945,"Fukuroi","JP",34.75,137.9167,63045],
+  [1255714,"Sopur","IN",34.2867,74.4723,63035],
+  [3140321,"Sandnes","NO",58.8524,5.7352,63032],
+  [4150066,"Carol City","US",25.9407,-80.2456,63031],
+  [3454061,"Peruíbe","BR",-24.32,-46.9983,63030],
+  [1896953,"Pubal","KR",37.2917,127.5078,63026],
+  [2494610,"Hamma Bouziane","DZ",36.4121,6.596,63012],
+  [3558771,"Florida","CU",21.5254,-78.2258,63007],
+  [585170,"Sheki","AZ",41.1919,47.1706,63000],
+  [2659836,"Lugano","CH",46.0101,8.96,63000],
+  [695274,"Rubizhne","UA",49.0123,38.3797,62993],
+  [2038446,"Baoqing","CN",46.3317,132.2111,62991],
+  [2328790,"Nkwerre","NG",5.7592,7.1038,62973],
+  [2112656,"Ichinoseki","JP",38.9167,141.1333,62970],
+  [233508,"Entebbe","UG",0.0562,32.4795,62969],
+  [3633444,"Machiques","VE",10.0608,-72.5521,62968],
+  [1853066,"Sakurai","JP",34.5,135.85,62964],
+  [3460723,"Itapeva","BR",-23.9822,-48.8756,62957],
+  [5346646,"Encinitas","US",33.037,-117.292,62930],
+  [2348892,"Auchi","NG",7.0676,6.2636,62907],
+  [3103709,"Bełchatów","PL",51.3688,19.3567,62896],
+  [1000543,"Graaff-Reinet","ZA",-32.2521,24.5308,62896],
+  [1166265,"Sambrial","PK",32.4784,74.3534,62874],
+  [2638960,"Runcorn","GB",53.3417,-2.7312,62872],
+  [300352,"Sorgun","TR",39.8101,35.186,62862],
+  [1278454,"Arni","IN",12.6677,79.2853,62858],
+  [1698030,"Nasugbu","PH",14.0669,120.6318,62857],
+  [1274987,"Kannur","IN",11.8675,75.3576,62836],
+  [5116093,"East Village","US",40.7293,-73.9874,62832],
+  [696108,"Pryluky","UA",50.5932,32.3876,62823],
+  [356989,"Fāqūs","EG",30.7282,31.797,62821],
+  [1528182,"Kara-Balta","KG",42.8142,73.8481,62796],
+  [2656955,"Ashford","GB",51.1465,0.8738,62787],
+  [3183455,"Afragola","IT",40.923,14.3094,62775],
+  [4939085,"Haverhill","US",42.7762,-71.0773,62765],
+  [118367,"Robāţ Karīm","IR",35.4846,51.0829,62753],
+  [3106868,"Valdemoro","ES",40.1908,-3.6789,62750],
+  [290594,"Umm Al Quwain City","AE",25.5647,55.5552,62747],
+  [557775,"Gus’-Khrustal’nyy","RU",55.6111,40.6519,62746],
+  [4160610,"Jupiter","US",26.9342,-80.0942,62707],
+  [570479,"Buynaksk","RU",42.819,47.1192,62689],
+  [756092,"Wawer","PL",52.1966,21.1775,62656],
+  [1733697,"Semporna","MY",4.4818,118.6112,62641],
+  [1217180,"Kogon Shahri","UZ",39.7275,64.5547,62620],
+  [3466698,"Cataguases","BR",-21.3892,-42.6967,62618],
+  [748870,"Çubuk","TR",40.2386,33.0322,62602],
+  [1502061,"Krasnotur’insk","RU",59.7666,60.2086,62600],
+  [4852832,"Council Bluffs","US",41.2619,-95.8608,62597],
+  [2470384,"Houmt El Souk","TN",33.8758,10.8575,62583],
+  [578120,"Belebey","RU",54.1167,54.1167,62582],
+  [2464701,"Tataouine","TN",32.9297,10.4518,62577],
+  [4177703,"Wellington","US",26.6587,-80.2414,62560],
+  [3345283,"Tonypandy","GB",51.622,-3.4554,62545],
+  [2036338,"Kaitong","CN",44.8091,123.0811,62537],
+  [5052361,"West Coon Rapids","US",45.1597,-93.3497,62528],
+  [1272694,"Dhuburi","IN",26.0186,89.9856,62525],
+  [1259263,"Puliyangudi","IN",9.1749,77.398,62494],
+  [3020839,"Drancy","FR",48.9258,2.4453,62488],
+  [1798733,"Pingnan","CN",23.5422,110.3895,62483],
+  [1840179,"Kosong","KR",38.3788,128.4676,62446],
+  [4166232,"North Miami","US",25.8901,-80.1867,62435],
+  [360928,"Al Khānkah","EG",30.2104,31.3681,62434],
+  [149879,"Singida","TZ",-4.8163,34.7436,62432],
+  [2990189,"Noisy-le-Grand","FR",48.8498,2.5627,62420],
+  [1256593,"Sheopur","IN",25.6647,76.6962,62416],
+  [1004109,"Fochville","ZA",-26.4886,27.4939,62416],
+  [1258207,"Renukūt","IN",24.2164,83.0358,62413],
+  [3053281,"Érd","HU",47.3949,18.9136,62408],
+  [4513575,"Hamilton","US",39.3995,-84.5613,62407],
+  [1281368,"Dêqên","CN",29.9618,90.7188,62400],
+  [6543862,"Villeneuve-d'Ascq","FR",50.6167,3.1666,62400],
+  [3981791,"Tesistán","MX",20.8005,-103.4699,62397],
+  [1813016,"Songyang","CN",34.4553,113.0281,62375],
+  [1624877,"Tanjung Pandan","ID",-2.7335,107.6348,62374],
+  [2033147,"Zhaozhou","CN",45.6833,125.3167,62373],
+  [2130054,"Kitahiroshima","JP",42.9758,141.5672,62370],
+  [2567529,"Grao de Murviedro","ES",39.6417,-0.2389,62368],
+  [1785980,"Yucheng","CN",34.9289,116.4653,62365],
+  [2303125,"Berekum","GH",7.4534,-2.584,62364],
+  [4166274,"North Port","US",27.0442,-82.2359,62345],
+  [922806,"Kipushi","CD",-11.761,27.2514,62332],
+  [3006414,"La Seyne-sur-Mer","FR",43.1032,5.8782,62330],
+  [616743,"Druzhkivka","UA",48.6301,37.5526,62315],
+  [5403783,"Tulare","US",36.2077,-119.3473,62315],
+  [702760,"Lozova","UA",48.8894,36.3176,62311],
+  [1907148,"Fussa","JP",35.7367,139.3236,62296],
+  [3670730,"Rionegro","CO",6.1552,-75.3737,62291],
+  [2082727,"Abepura","ID",-2.5964,140.6324,62248],
+  [499717,"Rzhev","RU",56.2624,34.3282,62246],
+  [5022025,"Coon Rapids","US",45.12,-93.2877,62240],
+  [2759633,"Assen","NL",52.9967,6.5625,62237],
+  [1272780,"Dhenkānāl","IN",20.6574,85.5969,62230],
+  [621741,"Slutsk","BY",53.0274,27.5597,62228],
+  [1185920,"Tungipāra","BD",22.8998,89.9033,62210],
+  [567990,"Chistopol’","RU",55.3631,50.6424,62200],
+  [2483746,"Reguiba","DZ",33.5639,6.7033,62185],
+  [2998975,"Levallois-Perret","FR",48.8939,2.2886,62178],
+  [1650298,"Bangkalan","ID",-7.0455,112.7351,62178],
+  [3939285,"Huaral","PE",-11.495,-77.2078,62174],
+  [3687964,"Calarcá","CO",4.5295,-75.6409,62170],
+  [1681766,"Tinongan","PH",10.215,123.0353,62146],
+  [831165,"Zarechnyy","RU",53.1333,46.5833,62139],
+  [5778352,"Millcreek","US",40.6869,-111.8755,62139],
+  [2034791,"Shuangyang","CN",43.5242,125.6736,62137],
+  [2035593,"Nianzishan","CN",47.5167,122.8833,62131],
+  [5363922,"La Habra","US",33.932,-117.9462,62131],
+  [3628142,"San José de Guanipa","VE",8.8872,-64.1651,62128],
+  [5018651,"Blaine","US",45.1608,-93.2349,62124],
+  [1273745,"Dabwāli","IN",29.9491,74.7383,62113],
+  [1785710,"Jinghong","CN",21.991,100.7341,62105],
+  [1256388,"Sibsāgar","IN",26.9843,94.6378,62104],
+  [1861641,"Ina","JP",35.8276,137.9538,62104],
+  [3589289,"Santa Lucía Cotzumalguapa","GT",14.3351,-91.0234,62097],
+  [1856243,"Nagahama","JP",35.3833,136.2667,62089],
+  [3125897,"Castelldefels","ES",41.2779,1.9703,62080],
+  [483019,"Tikhvin","RU",59.6451,33.5294,62075],
+  [3541440,"Sagua la Grande","CU",22.8067,-80.0756,62073],
+  [4830796,"Auburn","US",32.6099,-85.4808,62059],
+  [1699572,"Minglanilla","PH",10.245,123.7964,62058],
+  [3448011,"Saquarema","BR",-22.92,-42.5103,62056],
+  [1798632,"Pingyin","CN",36.2831,116.4453,62050],
+  [352733,"Mersa Matruh","EG",31.3529,27.2373,62042],
+  [1835447,"Boryeong","KR",36.3493,126.5977,62039],
+  [3445942,"Tupã","BR",-21.9347,-50.5136,62035],
+  [1166164,"Sanghar","PK",26.0469,68.9492,62033],
+  [3042929,"Veszprém","HU",47.0933,17.9115,62023],
+  [2038283,"Binzhou","CN",45.7528,127.4799,62017],
+  [2289049,"Ferkessédougou","CI",9.5928,-5.1945,62008],
+  [1797715,"Qingshuping","CN",27.3808,112.0206,62000],
+  [3053176,"Erzsébetváros","HU",47.5021,19.0722,62000],
+  [785756,"Smederevo","RS",44.6644,20.9276,62000],
+  [501231,"Rossosh’","RU",50.1983,39.5673,62000],
+  [2473747,"El Hamma","TN",33.8915,9.7963,62000],
+  [5364499,"Lake Elsinore","US",33.6681,-117.3273,61981],
+  [1784647,"Zhaobaoshan","CN",29.9695,121.6875,61979],
+  [2036619,"Hushitai","CN",41.9418,123.5027,61979],
+  [121110,"Piranshahr","IR",36.701,45.1413,61973],
+  [510225,"Petrodvorets","RU",59.8957,29.8015,61973],
+  [227812,"Njeru","UG",0.4417,33.1792,61952],
+  [537281,"Labinsk","RU",44.6342,40.7356,61945],
+  [3463432,"Fernandópolis","BR",-20.2839,-50.2464,61931],
+  [2530241,"Tan-Tan","MA",28.438,-11.1032,61924],
+  [7284895,"Marseille 14","FR",43.3445,5.38,61920],
+  [1806651,"Huoqiu Chengguanzhen","CN",32.3547,116.2939,61904],
+  [1898359,"Mudu","CN",31.256,120.5186,61902],
+  [3042638,"Zalaegerszeg","HU",46.84,16.8439,61898],
+  [2293342,"Adzopé","CI",6.1069,-3.8619,61884],
+  [1800101,"Nandu","CN",22.8525,110.8233,61881],
+  [3932145,"Pisco","PE",-13.7103,-76.2054,61869],
+  [1862198,"Honjō","JP",36.2378,139.1902,61868],
+  [1147242,"Bāmyān","AF",34.8216,67.8273,61863],
+  [1813206,"Daye","CN",30.0833,114.95,61847],
+  [2367568,"Bassar","TG",9.2503,0.7821,61845],
+  [3496331,"Moca","DO",19.3935,-70.526,61834],
+  [1505429,"Iskitim","RU",54.6366,83.3045,61827],
+  [2389086,"Berbérati","CF",4.2612,15.7922,61815],
+  [3447854,"Senador Canedo","BR",-16.7081,-49.0931,61800],
+  [459279,"Jelgava","LV",56.65,23.7128,61791],
+  [502011,"Revda","RU",56.801,59.9303,61785],
+  [705392,"Kolomyia","UA",48.5311,25.0365,61781],
+  [534595,"Lobnya","RU",56.0097,37.4819,61772],
+  [1786587,"Yingshang Chengguanzhen","CN",32.6295,116.2701,61771],
+  [3519907,"San Andrés Tuxtla","MX",18.4487,-95.2133,61769],
+  [5334336,"Carmichael","US",38.6171,-121.3283,61762],
+  [1831173,"Kampong Cham","KH",11.9934,105.4635,61750],
+  [2638419,"Scarborough","GB",54.2797,-0.4044,61749],
+  [1264154,"Malappuram","IN",11.042,76.0815,61743],
+  [893697,"Chinhoyi","ZW",-17.3667,30.2,61739],
+  [360542,"Al Qurayn","EG",30.6162,31.7351,61730],
+  [1258352,"Rāth","IN",25.5947,79.5666,61728],
+  [2151437,"Rockhampton","AU",-23.3803,150.506,61724],
+  [12047416,"Al Shamkhah City","AE",24.3927,54.7078,61710],
+  [2469473,"Medenine","TN",33.355,10.5055,61705],
+  [1196292,"Lakshmīpur","BD",22.9443,90.8301,61703],
+  [9610008,"Eiguliai","LT",54.9313,23.9324,61700],
+  [2190224,"Hastings","NZ",-39.6381,176.8492,61696],
+  [1798480,"Pumiao","CN",22.7587,108.4811,61690],
+  [1269328,"Jamkhandi","IN",16.5046,75.2915,61690],
+  [2810678,"Wesel","DE",51.6669,6.6204,61685],
+  [470444,"Vyksa","RU",55.3175,42.1744,61664],
+  [4012721,"Cortazar","MX",20.4836,-100.9624,61658],
+  [252664,"Tríkala","GR",39.5549,21.7684,61653],
+  [128905,"Kāmyārān","IR",34.7956,46.9355,61642],
+  [3027422,"Chambéry","FR",45.5663,5.9208,61640],
+  [1788522,"Hancheng","CN",32.5186,112.3522,61633],
+  [7284835,"Budapest XIX. kerület","HU",47.4529,19.1494,61610],
+  [3460699,"Itapira","BR",-22.4361,-46.8217,61607],
+  [1256047,"Sirsi","IN",14.6207,74.8355,61607],
+  [565955,"Dmitrov","RU",56.3449,37.5204,61607],
+  [713259,"Antratsyt","UA",48.115,39.0913,61600],
+  [1849414,"Ueno-ebisumachi","JP",34.7586,136.1311,61598],
+  [493160,"Sibay","RU",52.7181,58.6658,61590],
+  [2036055,"Lishu","CN",43.3047,124.3278,61584],
+  [2038665,"Oroqen Zizhiqi","CN",50.5667,123.7167,61582],
+  [5011908,"Taylor","US",42.2409,-83.2696,61568],
+  [2522098,"Alcoy","ES",38.7055,-0.4743,61552],
+  [3382160,"Cayenne","GF",4.9333,-52.3333,61550],
+  [1176800,"Hujra Shah Muqim","PK",30.7417,73.8233,61546],
+  [1790413,"Xianju","CN",28.8547,120.7317,61532],
+  [781988,"Pogradec","AL",40.9025,20.6525,61530],
+  [1702934,"Malaybalay","PH",8.1575,125.1278,61524],
+  [967106,"Oudtshoorn","ZA",-33.6005,22.1996,61507],
+  [1253080,"Vriddhāchalam","IN",11.5183,79.3241,61498],
+  [2701680,"Karlstad","SE",59.3793,13.5036,61492],
+  [2750325,"Nieuwegein","NL",52.0292,5.0806,61489],
+  [1862373,"Hita","JP",33.3213,130.941,61481],
+  [5019767,"Burnsville","US",44.7677,-93.2777,61481],
+  [1806248,"Jianguang","CN",28.1938,115.7836,61469],
+  [5374406,"Monterey Park","US",34.0625,-118.1228,61468],
+  [2633954,"Widnes","GB",53.3618,-2.7341,61464],
+  [3582677,"Belize City","BZ",17.4995,-88.1976,61461],
+  [3049795,"Kispest","HU",47.4515,19.1402,61453],
+  [3012649,"Issy-les-Moulineaux","FR",48.821,2.2772,61447],
+  [2037611,"Dongning","CN",44.0622,131.1207,61440],
+  [1793899,"Suicheng","CN",33.8963,117.9331,61430],
+  [692372,"Stryi","UA",49.2622,23.8561,61404],
+  [2891621,"Kempten (Allgäu)","DE",47.7267,10.3139,61399],
+  [1850207,"Toki","JP",35.35,137.1833,61394],
+  [5334928,"Castro Valley","US",37.6941,-122.0863,61388],
+  [2523650,"Ragusa","IT",36.9257,14.7244,61380],
+  [8858087,"San Salvador Tizatlalli","MX",19.2603,-99.5908,61367],
+  [2657540,"Aldershot","GB",51.2483,-0.7639,61339],
+  [2835482,"Schwäbisch Gmünd","DE",48.7995,9.7981,61338],
+  [2515045,"Linares","ES",38.0952,-3.636,61338],
+  [1253150,"Vinukonda","IN",16.0531,79.7396,61326],
+  [5099724,"Irvington","US",40.7323,-74.2349,61323],
+  [2831948,"Sindelfingen","DE",48.7,9.0167,61311],
+  [251948,"Výronas","GR",37.9611,23.753,61308],
+  [2990611,"Neuilly-sur-Seine","FR",48.8846,2.2697,61300],
+  [1805563,"Tianchang","CN",37.9981,114.0156,61292],
+  [2111859,"Mizusawa","JP",39.1333,141.1333,61281],
+  [2745774,"Veenendaal","NL",52.0286,5.5589,61271],
+  [3182714,"Asti","IT",44.9016,8.2075,61254],
+  [3398691,"Gravatá","BR",-8.2011,-35.5647,61249],
+  [3707961,"La Chorrera","PA",8.8803,-79.7833,61232],
+  [2112077,"Kuroiso","JP",36.9667,140.05,61230],
+  [5388319,"Rocklin","US",38.7907,-121.2358,61213],
+  [1626758,"Slawi","ID",-6.9816,109.1407,61206],
+  [59611,"Gaalkacyo","SO",6.7697,47.4308,61200],
+  [581357,"Apatity","RU",67.5641,33.4031,61186],
+  [362277,"Abū Qurqāş","EG",27.9304,30.8383,61182],
+  [1805798,"Jijiang","CN",29.2899,106.25,61161],
+  [2475860,"Tissemsilt","DZ",35.6072,1.8108,61155],
+  [3445596,"Valença","BR",-22.2456,-43.7003,61144],
+  [360773,"Al Manshāh","EG",26.4769,31.8035,61134],
+  [5142056,"Utica","US",43.1009,-75.2327,61100],
+  [2357043,"Ouahigouya","BF",13.5828,-2.4216,61096],
+  [2033866,"Xifeng","CN",42.7372,124.7222,61087],
+  [1813451,"Datong","CN",32.6208,117.0632,61085],
+  [4942939,"Malden","US",42.4251,-71.0662,61068],
+  [5376200,"National City","US",32.6781,-117.0992,61060],
+  [1497173,"Novoaltaysk","RU",53.3917,83.9363,61050],
+  [1631851,"Pecangaan","ID",-6.6978,110.7107,61046],
+  [2654187,"Bury","GB",53.6,-2.3,61044],
+  [3188402,"Valjevo","RS",44.2751,19.8982,61035],
+  [3665688,"Yopal","CO",5.3378,-72.3959,61029],
+  [1786759,"Yicheng","CN",31.7047,112.2561,61027],
+  [2015833,"Svobodnyy","RU",51.3753,128.141,61017],
+  [618800,"Horad Zhodzina","BY",54.0985,28.3331,61007],
+  [2656333,"Barking","GB",51.5333,0.0833,61000],
+  [499161,"Sal’sk","RU",46.4747,41.5411,61000],
+  [2719111,"Bromma","SE",59.34,17.94,61000],
+  [486968,"Stupino","RU",54.9008,38.0708,60999],
+  [3185670,"Fier-Çifçi","AL",40.7167,19.5667,60995],
+  [764849,"Mielec","PL",50.2871,21.4239,60993],
+  [8436473,"Financial District","US",40.7079,-74.0086,60976],
+  [1846095,"Chinch'ŏn","KR",36.8567,127.4433,60964],
+  [2290964,"Bouaflé","CI",6.9904,-5.7442,60962],
+  [1254420,"Tiptūr","IN",13.2563,76.4777,60957],
+  [1257800,"Sahaswān","IN",28.0723,78.7508,60953],
+  [3120304,"Irun","ES",43.339,-1.7894,60951],
+  [2743977,"Zeist","NL",52.09,5.2333,60949],
+  [1251081,"Anuradhapura","LK",8.3122,80.4131,60943],
+  [3083440,"Tarnowskie Góry","PL",50.4455,18.8615,60938],
+  [3162657,"Asker","NO",59.8333,10.4372,60926],
+  [3175786,"Grosseto","IT",42.763,11.1094,60922],
+  [307657,"Kırıkhan","TR",36.4994,36.3576,60916],
+  [1787144,"Yanliang","CN",34.6592,109.2292,60891],
+  [1719274,"Candelaria","PH",13.9311,121.4233,60881],
+  [2034615,"Tahe","CN",52.3333,124.7333,60874],
+  [109131,"Al Mithnab","SA",25.8601,44.2223,60870],
+  [5754005,"Springfield","US",44.0462,-123.022,60870],
+  [1266154,"Koppal","IN",15.3452,76.1548,60868],
+  [4348599,"Bethesda","US",38.9807,-77.1003,60858],
+  [149027,"Uyovu","TZ",-3.2833,31.5258,60849],
+  [6089125,"Norfolk County","CA",42.8334,-80.383,60847],
+  [1256087,"Sirhind","IN",30.6432,76.3842,60847],
+  [1273751,"Dabra","IN",25.8857,78.3322,60836],
+  [2037494,"Erdaojiang","CN",41.7764,126.0319,60831],
+  [1268246,"Cumbum","IN",9.7365,77.2847,60828],
+  [4265737,"Terre Haute","US",39.4667,-87.4139,60825],
+  [3834601,"Tartagal","AR",-22.5164,-63.8013,60819],
+  [4504621,"Vineland","US",39.4862,-75.0257,60818],
+  [4177834,"West Hollywood","US",26.0207,-80.1839,60806],
+  [504935,"Prokhladnyy","RU",43.7574,44.0297,60800],
+  [1792916,"Tianpeng","CN",30.9866,103.9393,60797],
+  [2971549,"Troyes","FR",48.3007,4.0852,60785],
+  [1640185,"Kertosono","ID",-7.5833,112.1,60782],
+  [1175560,"Kabirwala","PK",30.4047,71.8627,60782],
+  [1788206,"Xixiang","CN",35.1628,112.865,60745],
+  [3190586,"Slavonski Brod","HR",45.1603,18.0156,60742],
+  [2786824,"Seraing","BE",50.5836,5.5012,60737],
+  [493231,"Shuya","RU",56.8487,41.3883,60705],
+  [495394,"Shchëkino","RU",54.0051,37.5219,60700],
+  [1617111,"Ban Lam Luk Ka","TH",13.9774,100.7778,60700],
+  [4726491,"San Marcos","US",29.8833,-97.9414,60684],
+  [667303,"Sfântu Gheorghe","RO",45.8667,25.7833,60677],
+  [5110077,"Brentwood","US",40.7812,-73.2462,60664],
+  [3121145,"Granollers","ES",41.608,2.2877,60658],
+  [572665,"Bor","RU",56.3581,44.0748,60647],
+  [1278466,"Arāmbāgh","IN",22.8833,87.7833,60639],
+  [1270099,"Himatnagar","IN",23.5989,72.966,60634],
+  [5034059,"Lakeville","US",44.6497,-93.2427,60633],
+  [2035707,"Mujiayingzi","CN",42.1167,118.7833,60627],
+  [5278420,"West Allis","US",43.0167,-88.007,60620],
+  [2296564,"Akim Oda","GH",5.9267,-0.9858,60604],
+  [564719,"Dubna","RU",56.7333,37.1667,60604],
+  [5808079,"Redmond","US",47.674,-122.1215,60598],
+  [2331939,"Lokoja","NG",7.7969,6.7405,60579],
+  [5333913,"Canoga Park","US",34.2011,-118.5981,60578],
+  [5341145,"Cupertino","US",37.323,-122.0322,60572],
+  [1680505,"Ualog","PH",10.574,123.3933,60548],
+  [1816924,"Langzhong","CN",31.5504,105.9938,60542],
+  [4013712,"Ciudad Hidalgo","MX",19.6927,-100.5544,60542],
+  [5782476,"Taylorsville","US",40.6677,-111.9388,60514],
+  [1851125,"Takaishi","JP",34.5167,135.4333,60511],
+  [1848188,"Yoshikawa","JP",35.8923,139.8418,60510],
+  [2653584,"Castleford","GB",53.7259,-1.3626,60509],
+  [1265331,"Lādnūn","IN",27.6531,74.3999,60490],
+  [2881485,"Landshut","DE",48.5296,12.1618,60488],
+  [5282835,"Bristol","US",41.6718,-72.9493,60452],
+  [4542975,"Moore","US",35.3395,-97.4867,60451],
+  [5351549,"Gardena","US",33.8884,-118.309,60447],
+  [1802550,"Longgang","CN",37.6518,120.3306,60444],
+  [5382232,"Petaluma","US",38.2324,-122.6366,60438],
+  [314967,"Fethiye","TR",36.6404,29.1276,60437],
+  [2647074,"Hereford","GB",52.0568,-2.7148,60415],
+  [3453639,"Pirassununga","BR",-21.9961,-47.4258,60413],
+  [7302628,"Adelaide Hills","AU",-34.9112,138.7074,60394],
+  [2656396,"Bangor","GB",54.6534,-5.6689,60385],
+  [5423573,"Grand Junction","US",39.0639,-108.5506,60358],
+  [1261309,"Nipāni","IN",16.399,74.3829,60351],
+  [3084093,"Świdnica","PL",50.8438,16.4886,60351],
+  [1813851,"Gushu","CN",31.5606,118.4815,60335],
+  [2362909,"Banfora","BF",10.6333,-4.7667,60288],
+  [5820705,"Casper","US",42.8666,-106.3131,60285],
+  [2513477,"Motril","ES",36.7507,-3.5179,60279],
+  [1275230,"Borsad","IN",22.4079,72.8982,60271],
+  [3370352,"Atlantis","ZA",-33.5667,18.4834,60266],
+  [3068927,"Opava","CZ",49.9387,17.9026,60252],
+  [4724194,"Rowlett","US",32.9029,-96.5639,60236],
+  [1266124,"Koratla","IN",18.8215,78.7119,60231],
+  [1266509,"Kīratpur","IN",29.5067,78.2061,60223],
+  [1791347,"Wucheng","CN",29.6008,118.175,60212],
+  [1785572,"Yuxia","CN",34.0615,108.6291,60206],
+  [3534915,"Trinidad","CU",21.8022,-79.9847,60206],
+  [3445764,"Unaí","BR",-16.3575,-46.9061,60202],
+  [1797038,"Runing","CN",33.0011,114.3542,60202],
+  [1253079,"Vrindāvan","IN",27.5811,77.6966,60195],
+  [1650064,"Barabai","ID",-2.5833,115.3833,60192],
+  [2581754,"Douane","TN",36.4477,10.7557,60192],
+  [350422,"Kousa","EG",25.9154,32.7629,60181],
+  [1225018,"Vavuniya","LK",8.7514,80.4971,60176],
+  [1801455,"Zhijiang","CN",30.4214,111.7533,60169],
+  [2844988,"Rosenheim","DE",47.8564,12.1225,60167],
+  [2636616,"Stroud","GB",51.75,-2.2,60155],
+  [1270171,"Hāveri","IN",14.7935,75.4045,60155],
+  [1793089,"Taozhuang","CN",34.85,117.3333,60137],
+  [2643044,"Margate","GB",51.3813,1.3862,60134],
+  [3083426,"Tczew","PL",54.0924,18.7779,60133],
+  [2885656,"Köpenick","DE",52.4455,13.5746,60128],
+  [400769,"Laascaanood","SO",8.4774,47.3597,60100],
+  [5363990,"La Mesa","US",32.7678,-117.0231,60089],
+  [4168459,"Pine Hills","US",28.5578,-81.4534,60076],
+  [3523513,"Martínez de la Torre","MX",20.0708,-97.0608,60074],
+  [3466988,"Caratinga","BR",-19.7897,-42.1392,60066],
+  [285787,"Kuwait City","KW",29.3697,47.9783,60064],
+  [11523810,"Melbourne City Centre","AU",-37.815,144.9666,60057],
+  [1847968,"Zushi","JP",35.2948,139.5781,60055],
+  [512023,"Pavlovskiy Posad","RU",55.7819,38.6503,60051],
+  [1859094,"Koga","JP",33.7333,130.4667,60045],
+  [1255396,"Supaul","IN",26.1153,86.5951,60020],
+  [2236568,"Uíge","AO",-7.6087,15.0613,60008],
+  [3815453,"Villa Vicente Guerrero","MX",19.1212,-98.1657,60001],
+  [3184518,"Patos","AL",40.6833,19.6194,60000],
+  [3433522,"Hurlingham","AR",-34.5904,-58.629,60000],
+  [1783920,"Zhujiajiao","CN",31.1076,121.057,60000],
+  [1790848,"Wuzhen","CN",30.7454,120.4851,60000],
+  [3121663,"Gamonal","ES",42.3566,-3.6732,60000],
+  [6618856,"Santutxu","ES",43.2535,-2.9161,60000],
+  [2653265,"Chelsea","GB",51.4876,-0.1694,60000],
+  [1271175,"Gīrīdīh","IN",24.1862,86.3088,60000],
+  [1277322,"Bangaon","IN",25.8673,86.5115,60000],
+  [2377539,"Néma","MR",16.617,-7.2565,60000],
+  [7280718,"Colonia Nativitas","MX",19.3812,-99.1368,60000],
+  [10792382,"Putra Heights","MY",2.9936,101.5726,60000],
+  [485630,"Sviblovo","RU",55.85,37.6333,60000],
+  [514284,"Ostankinskiy","RU",55.8296,37.616,60000],
+  [5108815,"Bensonhurst","US",40.6018,-73.994,60000],
+  [5113481,"Coney Island","US",40.5779,-73.994,60000],
+  [5386039,"Rancho Penasquitos","US",32.9595,-117.1153,60000],
+  [11838960,"Valley Glen","US",34.1899,-118.4495,60000],
+  [1512339,"Yangiyŭl","UZ",41.112,69.0471,60000],
+  [2488722,"Meftah","DZ",36.6204,3.2225,59990],
+  [4838524,"Meriden","US",41.5382,-72.807,59988],
+  [1258290,"Rāyadrug","IN",14.6997,76.8524,59968],
+  [1683319,"Tanay","PH",14.4968,121.2846,59950],
+  [2643567,"Loughborough","GB",52.7667,-1.2,59932],
+  [1697376,"Obando","PH",14.7098,120.9362,59929],
+  [4004887,"Heroica Caborca","MX",30.7183,-112.1582,59922],
+  [339708,"Debre Mark’os","ET",10.35,37.7333,59920],
+  [2281606,"Sinfra","CI",6.621,-5.9114,59919],
+  [5006166,"Pontiac","US",42.6389,-83.291,59917],
+  [1735022,"Temerluh","MY",3.4506,102.4176,59916],
+  [1843841,"Hwasun","KR",35.0613,126.9875,59914],
+  [2634552,"Welwyn Garden City","GB",51.8017,-0.2069,59910],
+  [1806327,"Jiangkou","CN",25.4869,119.1983,59902],
+  [2649672,"Farnborough","GB",51.2942,-0.7556,59902],
+  [952734,"KwaDukuza","ZA",-29.3282,31.2895,59899],
+  [90026,"Tozkhurmato","IQ",34.8881,44.6326,59886],
+  [1285899,"Yamethin","MM",20.4319,96.1388,59867],
+  [4169156,"Port Orange","US",29.1383,-80.9956,59866],
+  [2485582,"Oued Rhiou","DZ",35.9612,0.919,59864],
+  [1648084,"Boyolali","ID",-7.5331,110.5958,59851],
+  [4835654,"Hamden","US",41.3959,-72.8968,59847],
+  [3037423,"Antony","FR",48.7533,2.2967,59845],
+  [1261181,"North Lakhimpur","IN",27.2352,94.1036,59841],
+  [1804609,"Laibin","CN",23.7,109.2667,59835],
+  [1799832,"Pucheng","CN",27.9233,118.5333,59832],
+  [5800420,"Lakewood","US",47.1718,-122.5185,59829],
+  [2945358,"Brandenburg an der Havel","DE",52.4167,12.55,59826],
+  [1728584,"Balagtas","PH",14.8167,120.8667,59826],
+  [353802,"Kawm Umbū","EG",24.4767,32.9463,59787],
+  [4156091,"Fountainebleau","US",25.7729,-80.3478,59764],
+  [3089125,"Piekary Śląskie","PL",50.3802,18.9265,59757],
+  [1254274,"Tohāna","IN",29.7133,75.9044,59749],
+  [2503181,"Boufarik","DZ",36.5741,2.9121,59742],
+  [2842884,"Rüsselsheim","DE",49.9896,8.4225,59730],
+  [3460730,"Itapetinga","BR",-15.2489,-40.2478,59721],
+  [5010978,"Saint Clair Shores","US",42.497,-82.8888,59715],
+  [264194,"Agía Paraskeví","GR",38.0167,23.8333,59704],
+  [1217007,"Koson","UZ",39.0375,65.585,59681],
+  [4525353,"Springfield","US",39.9242,-83.8088,59680],
+  [135298,"Esfarāyen","IR",37.0765,57.5101,59678],
+  [3457025,"Mococa","BR",-21.4678,-47.0047,59654],
+  [2287298,"Katiola","CI",8.1373,-5.1009,59641],
+  [5655240,"Great Falls","US",47.5002,-111.3008,59638],
+  [2343641,"Ekpoma","NG",6.743,6.1403,59618],
+  [142872,"Asadābād","IR",34.7824,48.1201,59617],
+  [3449340,"São Borja","BR",-28.6606,-56.0044,59613],
+  [1856068,"Nago","JP",26.615,127.9854,59587],
+  [3540680,"San Cristobal","CU",22.7166,-83.0565,59579],
+  [2757220,"Den Helder","NL",52.9599,4.7593,59569],
+  [4460162,"Chapel Hill","US",35.9132,-79.0558,59568],
+  [2885657,"Berlin Köpenick","DE",52.4425,13.5823,59561],
+  [3177838,"Cremona","IT",45.1332,10.0213,59561],
+  [3173287,"Molfetta","IT",41.2004,16.599,59557],
+  [3533005,"Altamira","MX",22.3922,-97.9387,59536],
+  [2111049,"Shiogama","JP",38.3167,141.0333,59526],
+  [1626921,"Sengkang","ID",-4.1279,120.0297,59523],
+  [1271644,"Gangoh","IN",29.78,77.2635,59519],
+  [281141,"Dayr al Balaḩ","PS",31.4183,34.3493,59504],
+  [784759,"Ferizaj","XK",42.3706,21.1553,59504],
+  [5942845,"Drummondville","CA",45.8834,-72.4824,59489],
+  [3583102,"Sonsonate","SV",13.7189,-89.7242,59468],
+  [1791428,"Wenshang","CN",35.7275,116.4961,59455],
+  [2639447,"Rhondda","GB",51.659,-3.4488,59450],
+  [1587976,"Bến Tre","VN",10.2415,106.3759,59442],
+  [1265911,"Kottayam","IN",9.5869,76.5213,59437],
+  [2691459,"Mölndal","SE",57.6554,12.0138,59430],
+  [5358736,"Huntington Park","US",33.9817,-118.2251,59430],
+  [3466978,"Carazinho","BR",-28.2839,-52.7864,59417],
+  [3076127,"Frýdek-Místek","CZ",49.6833,18.35,59416],
+  [3006767,"La Roche-sur-Yon","FR",46.6667,-1.4333,59410],
+  [1263797,"Mangalagiri","IN",16.4308,80.5682,59391],
+  [1216982,"Kattaqo’rg’on Shahri","UZ",39.9055,66.2656,59382],
+  [2881085,"Langenfeld","DE",51.1082,6.9483,59378],
+  [2033149,"Zhaoyuan","CN",45.5,125.1333,59370],
+  [2035758,"Mingshui","CN",47.1815,125.9003,59369],
+  [262135,"Galátsi","GR",38.0167,23.75,59345],
+  [5197079,"Lancaster","US",40.0379,-76.3055,59339],
+  [1812990,"Huazhou","CN",32.6822,112.0819,59338],
+  [1261852,"Narasapur","IN",16.4343,81.6984,59306],
+  [4151455,"Coconut Creek","US",26.2518,-80.1789,59302],
+  [3872255,"San Felipe","CL",-32.7498,-70.7258,59294],
+  [648900,"Lappeenranta","FI",61.0587,28.1887,59276],
+  [4023117,"Dolores Hidalgo Cuna de la Independencia Nacional","MX",21.1561,-100.9325,59240],
+  [2037311,"Gannan","CN",47.9147,123.5031,59239],
+  [2857798,"Offenburg","DE",48.4738,7.945,59238],
+  [3345440,"Craigavon","GB",54.4471,-6.387,59236],
+  [1638562,"Lamongan","ID",-7.1167,112.4167,59224],
+  [2186280,"Nelson","NZ",-41.2708,173.284,59200],
+  [1808106,"Hongjiang","CN",27.11,109.9956,59199],
+  [1257431,"Sangāreddi","IN",17.6248,78.0867,59199],
+  [493702,"Mikhaylovsk","RU",45.1283,42.0256,59198],
+  [3670419,"Sahagún","CO",8.9462,-75.4427,59188],
+  [1806167,"Jian’ou","CN",27.0415,118.319,59187],
+  [5596475,"Idaho Falls","US",43.4666,-112.0341,59184],
+  [543704,"Kotlas","RU",61.2575,46.6496,59180],
+  [3682292,"Fundación","CO",10.5207,-74.185,59175],
+  [1266416,"Kodār","IN",16.9985,79.9656,59170],
+  [1049861,"Chibuto","MZ",-24.6867,33.5306,59165],
+  [5392567,"San Rafael","US",37.9735,-122.5311,59162],
+  [2037370,"Fuli","CN",46.7217,131.1394,59160],
+  [3512208,"Azua","DO",18.4532,-70.7349,59139],
+  [2521570,"Arrecife","ES",28.963,-13.5477,59127],
+  [260133,"Chalkída","GR",38.4635,23.6028,59125],
+  [601417,"Oltinko‘l","UZ",43.0687,58.9037,59122],
+  [1253888,"Ullal","IN",12.8057,74.8606,59116],
+  [1702096,"Manaoag","PH",16.0438,120.4861,59115],
+  [1809003,"Haizhou","CN",34.5817,119.1289,59098],
+  [4924198,"Noblesville","US",40.0456,-86.0086,59093],
+  [3641099,"El Vigía","VE",8.6135,-71.657,59092],
+  [3192224,"Pula","HR",44.8683,13.8481,59078],
+  [1786720,"Yigou","CN",35.8114,114.3167,59073],
+  [3835793,"Santo Tomé","AR",-31.6627,-60.7653,59072],
+  [4207783,"Marietta","US",33.9526,-84.5499,59067],
+  [3837675,"San Francisco","AR",-31.428,-62.0827,59062],
+  [1487281,"Verkhnyaya Pyshma","RU",56.9705,60.5822,59061],
+  [172408,"As-Suwayda","SY",32.709,36.5695,59052],
+  [4834157,"Fairfield","US",41.1412,-73.2637,59052],
+  [1490256,"Talnakh","RU",69.4865,88.3972,59051],
+  [2036241,"Langtoucun","CN",40.0407,124.3353,59046],
+  [4303436,"Owensboro","US",37.7742,-87.1133,59042],
+  [8096217,"Eastvale","US",33.9636,-117.5642,59039],
+  [973709,"Mossel Bay","ZA",-34.1831,22.1461,59031],
+  [5007804,"Royal Oak","US",42.4895,-83.1446,59008],
+  [215527,"Kabinda","CD",-6.1379,24.4818,59004],
+  [3803515,"Caucaguita","VE",10.3578,-66.8025,59000],
+  [1567148,"Tam Kỳ","VN",15.5736,108.474,59000],
+  [1263752,"Māngrol","IN",21.1227,70.1148,58989],
+  [1271049,"Gola Gokarannāth","IN",28.0784,80.4705,58986],
+  [111421,"Zarand","IR",30.8127,56.564,58983],
+  [255377,"Petroúpolis","GR",38.0419,23.6849,58979],
+  [2826287,"Stralsund","DE",54.3091,13.0818,58976],
+  [1926020,"Uwajima","JP",33.2238,132.56,58971],
+  [1262958,"Modāsa","IN",23.4625,73.2986,58970],
+  [5330642,"Brentwood","US",37.9319,-121.6958,58968],
+  [3449822,"Santa Rosa","BR",-27.8708,-54.4814,58957],
+  [1159362,"Torbat-e Jām","IR",35.244,60.6225,58928],
+  [3629614,"Punta Cardón","VE",11.6581,-70.215,58926],
+  [1789945,"Xiaoweizhai","CN",26.1903,107.5125,58913],
+  [1650670,"Baki","ID",-7.6128,110.7839,58909],
+  [527012,"Mikhaylovka","RU",50.06,43.2379,58898],
+  [490996,"Solnechnogorsk","RU",56.1833,36.9833,58891],
+  [2111325,"Ōtawara","JP",36.8667,140.0333,58888],
+  [2762372,"Villach","AT",46.6103,13.8558,58882],
+  [3446652,"Telêmaco Borba","BR",-24.3239,-50.6156,58880],
+  [3461973,"Guanambi","BR",-14.2233,-42.7814,58877],
+  [2479609,"Sig","DZ",35.5283,-0.1937,58877],
+  [2826595,"Stolberg","DE",50.7737,6.226,58874],
+  [2035754,"Mingyue","CN",43.1069,128.9217,58872],
+  [1727400,"Bañga","PH",6.4239,124.7783,58855],
+  [2521139,"Benalmádena","ES",36.5961,-4.5727,58854],
+  [1254710,"Tezpur","IN",26.6333,92.8,58851],
+  [143860,"Shahrīār","IR",35.6588,51.0578,58849],
+  [143073,"Ardakān","IR",32.31,54.0175,58834],
+  [1926054,"Saijō","JP",33.9167,133.1833,58823],
+  [2249782,"Kolda","SN",12.8939,-14.9412,58809],
+  [4854529,"Dubuque","US",42.5006,-90.6646,58799],
+  [2634873,"Wallasey","GB",53.4232,-3.065,58794],
+  [1153090,"Kamphaeng Phet","TH",16.4834,99.5215,58787],
+  [3613321,"Comayagua","HN",14.4514,-87.6375,58784],
+  [1254589,"Thiruvarur","IN",10.7727,79.6368,58777],
+  [1793774,"Suozhen","CN",36.9539,118.1047,58766],
+  [3109402,"Cerdanyola del Vallès","ES",41.4911,2.1408,58747],
+  [2259383,"Kayes","CG",-4.2049,13.2861,58737],
+  [7284893,"Marseille 12","FR",43.2961,5.4362,58734],
+  [4931482,"Brookline","US",42.3318,-71.1212,58732],
+  [5004062,"Novi","US",42.4806,-83.4755,58723],
+  [2644319,"Littlehampton","GB",50.8114,-0.5408,58714],
+  [1278173,"Attur","IN",11.5941,78.6014,58702],
+  [2027468,"Arsen’yev","RU",44.1525,133.2779,58700],
+  [3515696,"Teziutlan","MX",19.8173,-97.3599,58699],
+  [1863173,"Hanyū","JP",36.1667,139.5333,58686],
+  [2540810,"Ouezzane","MA",34.7958,-5.5785,58684],
+  [2522876,"Trapani","IT",38.0176,12.5362,58681],
+  [4889772,"Des Plaines","US",42.0334,-87.8834,58677],
+  [1769612,"Kampong Dungun","MY",3.2167,101.3167,58674],
+  [2911271,"Hameln","DE",52.104,9.3562,58666],
+  [3180423,"Carrara","IT",44.0793,10.0979,58666],
+  [3675975,"Los Patios","CO",7.8379,-72.5037,58661],
+  [1650119,"Bantul","ID",-7.8881,110.3289,58653],
+  [1274256,"Chidambaram","IN",11.3993,79.6914,58650],
+  [2418362,"Labé","GN",11.3182,-12.2833,58649],
+  [2619771,"Horsens","DK",55.8607,9.8503,58646],
+  [4904937,"Orland Park","US",41.6303,-87.8539,58619],
+  [1254868,"Tarn Tāran","IN",31.4519,74.9278,58585],
+  [4604183,"Bartlett","US",35.2045,-89.874,58579],
+  [790701,"Glogovac","XK",42.6283,20.8939,58579],
+  [1253944,"Udumalaippettai","IN",10.5881,77.2478,58571],
+  [5410430,"Woodland","US",38.6785,-121.7733,58567],
+  [1264793,"Lonavla","IN",18.7528,73.4058,58562],
+  [6087844,"New Westminster","CA",49.2068,-122.9109,58549],
+  [2036519,"Jidong","CN",45.2167,131.0833,58520],
+  [1864637,"Chichibu","JP",35.9903,139.0764,58507],
+  [5777224,"Lehi","US",40.3916,-111.8508,58486],
+  [1811114,"Fenyi","CN",27.8112,114.6681,58478],
+  [2491335,"Ksar Chellala","DZ",35.2122,2.3189,58478],
+  [2805059,"Zehlendorf","DE",52.4333,13.25,58469],
+  [3087584,"Racibórz","PL",50.092,18.2193,58464],
+  [1859990,"Kasaoka","JP",34.506,133.5039,58461],
+  [5144336,"White Plains","US",41.034,-73.7629,58459],
+  [477494,"Uzlovaya","RU",53.9818,38.1712,58458],
+  [2664740,"Vasastan","SE",59.3457,18.0499,58458],
+  [3179806,"Casoria","IT",40.9075,14.293,58456],
+  [2871983,"Menden","DE",51.4434,7.7783,58451],
+  [1621655,"Weleri","ID",-6.9713,110.0666,58448],
+  [1814919,"Chonglong","CN",29.7806,104.8522,58441],
+  [2033739,"Xinglongshan","CN",43.9561,125.4661,58432],
+  [3836772,"San Pedro de Jujuy","AR",-24.2313,-64.8661,58430],
+  [1003953,"Fort Beaufort","ZA",-32.7748,26.6338,58419],
+  [5324477,"Arcadia","US",34.1397,-118.0353,58408],
+  [4781530,"Reston","US",38.9687,-77.3411,58404],
+  [2924585,"Friedrichshafen","DE",47.6569,9.4755,58403],
+  [1256750,"Shāhāda","IN",21.5454,74.4711,58402],
+  [2654755,"Bridgend","GB",51.5058,-3.5772,58380],
+  [1611407,"Chaiyaphum","TH",15.8105,102.0288,58350],
+  [1792692,"Tongchuan","CN",31.0941,105.0873,58346],
+  [1261613,"Nawalgarh","IN",27.8516,75.2738,58346],
+  [1605215,"Uttaradit","TH",17.6256,100.0942,58313],
+  [2291136,"Bondoukou","CI",8.0402,-2.8,58297],
+  [1798082,"Hongqiao","CN",26.7684,112.1081,58287],
+  [734330,"Sérres","GR",41.085,23.5476,58287],
+  [356945,"Fāraskūr","EG",31.3298,31.7151,58284],
+  [3167022,"Savona","IT",44.3091,8.4772,58283],
+  [1261553,"Nedumangād","IN",8.6027,77.0014,58278],
+  [3057140,"Trenčín","SK",48.8945,18.0444,58278],
+  [3471848,"Aracruz","BR",-19.8203,-40.2733,58271],
+  [782756,"Korçë","AL",40.6186,20.7808,58259],
+  [3670218,"San Andrés","CO",12.5832,-81.7064,58257],
+  [3103719,"Będzin","PL",50.3261,19.1257,58236],
+  [11549784,"la Nova Esquerra de l'Eixample","ES",41.3831,2.149,58224],
+  [743166,"Kırklareli","TR",41.7351,27.2252,58223],
+  [4166673,"Ocala","US",29.1872,-82.1401,58218],
+  [863675,"Kisela Voda","MK",41.9489,21.5028,58216],
+  [3194494,"Nikšić","ME",42.7731,18.9445,58212],
+  [1812754,"Dingtao","CN",35.0744,115.5658,58206],
+  [1630935,"Polewali","ID",-3.4324,119.3435,58190],
+  [3353383,"Rundu","NA",-17.9333,19.7667,58172],
+  [3634184,"Los Dos Caminos","VE",10.4939,-66.8286,58168],
+  [11979238,"Central City","US",33.44,-112.058,58161],
+  [359212,"Banī Mazār","EG",28.5036,30.8004,58153],
+  [1320944,"Kanbe","MM",16.7073,96.0017,58146],
+  [285726,"Ar Rumaythīyah","KW",29.3117,48.0742,58135],
+  [2669772,"Täby","SE",59.4439,18.0687,58123],
+  [4504225,"South Vineland","US",39.446,-75.0288,58122],
+  [2997577,"Lorient","FR",47.7459,-3.3664,58112],
+  [4172086,"Sanford","US",28.8006,-81.2731,58111],
+  [1804892,"Juye","CN",35.3947,116.0883,58107],
+  [3665199,"Ariquemes","BR",-9.9133,-63.0408,58096],
+  [1261369,"Nīmbāhera","IN",24.6217,74.68,58085],
+  [1239593,"Kolonnawa","LK",6.9329,79.8848,58076],
+  [1268680,"Kadi","IN",23.2991,72.3336,58066],
+  [2739693,"Felgueiras","PT",41.3681,-8.194,58065],
+  [1840379,"Nangen","KR",35.41,127.3858,58057],
+  [1808981,"Hancheng","CN",35.4603,110.4292,58049],
+  [2919054,"Göppingen","DE",48.7035,9.6521,58040],
+  [3080251,"Zgierz","PL",51.8556,19.4062,58036],
+  [3687025,"Caucasia","CO",7.9865,-75.1935,58034],
+  [1581326,"Hải Dương","VN",20.941,106.333,58030],
+  [3833367,"Ushuaia","AR",-54.8108,-68.3159,58028],
+  [4349159,"Bowie","US",38.9428,-76.7303,58025],
+  [1859093,"Koga","JP",36.1833,139.7167,58004],
+  [1734576,"Simpang Empat","MY",4.95,100.6333,58004],
+  [6111706,"Port Coquitlam","CA",49.2664,-122.7693,58000],
+  [1930074,"Santangpu","CN",27.4056,111.9869,58000],
+  [472234,"Volzhsk","RU",55.8664,48.3594,58000],
+  [4922388,"Kokomo","US",40.4864,-86.1336,57995],
+  [2976043,"Sarcelles","FR",48.9974,2.3782,57979],
+  [1642684,"Jatiwangi","ID",-6.7336,108.2628,57973],
+  [4019827,"Acámbaro","MX",20.0309,-100.7219,57972],
+  [3164376,"Vigevano","IT",45.3141,8.8544,57970],
+  [1319573,"Kawthoung","MM",9.9824,98.5503,57949],
+  [2987805,"Pessac","FR",44.8057,-0.6324,57944],
+  [1861677,"Imarichō-kō","JP",33.2736,129.8788,57940],
+  [3668454,"Santa Rosa de Cabal","CO",4.8681,-75.6214,57928],
+  [2479966,"Sidi Moussa","DZ",36.6064,3.0878,57928],
+  [1256104,"Sīra","IN",13.7416,76.9043,57928],
+  [1650815,"Baekrajan","ID",-6.7674,110.8541,57920],
+  [5106160,"Wayne","US",40.9254,-74.2765,57915],
+  [3365083,"Kraaifontein","ZA",-33.8481,18.7172,57911],
+  [2754861,"Hardenberg","NL",52.5758,6.6194,57909],
+  [3012621,"Ivry-sur-Seine","FR",48.8157,2.3849,57897],
+  [1329239,"Myaydo","MM",19.3684,95.2151,57897],
+  [1858972,"Kokubu-matsuki","JP",31.7333,130.7667,57896],
+  [785058,"Veles","MK",41.7156,21.7756,57873],
+  [1685117,"Tabaco","PH",13.3586,123.7336,57860],
+  [1274243,"Chik Ballāpur","IN",13.4351,77.7279,57831],
+  [3170921,"Pianura","IT",40.8591,14.1731,57821],
+  [1277022,"Bārdoli","IN",21.123,73.1115,57810],
+  [6695754,"Kogalym","RU",62.2654,74.4791,57800],
+  [699035,"Novovolyns’k","UA",50.7258,24.1627,57800],
+  [1268990,"Jhārgrām","IN",22.4538,86.995,57796],
+  [3019265,"Évreux","FR",49.0241,1.1508,57795],
+  [1626899,"Singosari","ID",-7.8924,112.6658,57793],
+  [2655198,"Bootle","GB",53.4667,-3.0167,57791],
+  [339734,"Debre Birhan","ET",9.6795,39.5326,57787],
+  [5393429,"Santee","US",32.8384,-116.9739,57787],
+  [1817952,"Anxiang","CN",29.4,112.15,57769],
+  [1609032,"Lop Buri","TH",14.7981,100.654,57761],
+  [2918987,"Görlitz","DE",51.1552,14.9885,57751],
+  [747764,"Düzce","TR",40.8389,31.1639,57739],
+  [5344157,"Dublin","US",37.7022,-121.9358,57721],
+  [6155033,"St. Albert","CA",53.6334,-113.6353,57719],
+  [2634202,"Weymouth","GB",50.6145,-2.4599,57691],
+  [98629,"Ash Shāmīyah","IQ",31.9626,44.6008,57661],
+  [3463605,"Farroupilha","BR",-29.225,-51.3478,57650],
+  [131962,"Harsīn","IR",34.2721,47.5861,57647],
+  [3462996,"Francisco Beltrão","BR",-26.0811,-53.055,57618],
+  [2670781,"Sundsvall","SE",62.3913,17.3063,57606],
+  [3643031,"El Hatillo","VE",10.4241,-66.8258,57591],
+  [3174921,"Legnano","IT",45.5979,8.9151,57589],
+  [2970072,"Vénissieux","FR",45.6971,4.8859,57584],
+  [3027883,"Cergy","FR",49.0365,2.0761,57576],
+  [1257551,"Samāstipur","IN",25.8622,85.7795,57575],
+  [174448,"Ālbū Kamāl","SY",34.4523,40.9185,57572],
+  [1155139,"Ban Pong","TH",13.8163,99.8774,57559],
+  [540251,"Krymsk","RU",44.9293,37.9912,57555],
+  [1807308,"Huangpi","CN",30.8845,114.3779,57554],
+  [2034995,"Shanhecun","CN",45.7113,128.5803,57550],
+  [2776488,"Hernals","AT",48.2333,16.2667,57546],
+  [2548489,"Guercif","MA",34.2257,-3.3536,57544],
+  [776175,"Biała Podlaska","PL",52.0324,23.1165,57541],
+  [1270947,"Gobichettipalayam","IN",11.455,77.4422,57527],
+  [2033449,"Yantongshan","CN",43.2919,126.0094,57515],
+  [3392167,"Picos","BR",-7.0769,-41.4669,57495],
+  [99344,"Al Hindīyah","IQ",32.5467,44.2276,57490],
+  [1270251,"Hasanpur","IN",28.7225,78.2844,57481],
+  [1851606,"Sōja","JP",34.6753,133.7509,57469],
+  [3024597,"Clichy","FR",48.9002,2.3095,57467],
+  [1809483,"Guiren","CN",33.6697,118.1889,57446],
+  [1185166,"Maulavi Bāzār","BD",24.4889,91.7708,57441],
+  [4167545,"Palm Harbor","US",28.0781,-82.7637,57439],
+  [1687534,"Santo Tomas","PH",14.1079,121.1414,57438],
+  [723846,"Poprad","SK",49.0614,20.298,57431],
+  [1522751,"Kentau","KZ",43.5167,68.5046,57408],
+  [1563926,"Trà Vinh","VN",9.9472,106.3423,57408],
+  [4943629,"Medford","US",42.4184,-71.1062,57403],
+  [2025527,"Cheremkhovo","RU",53.1561,103.0675,57395],
+  [2649692,"Fareham","GB",50.8516,-1.1793,57390],
+  [2642189,"Morley","GB",53.7401,-1.5988,57385],
+  [3458645,"Lençóis Paulista","BR",-22.5986,-48.8003,57375],
+  [2653232,"Cheshunt","GB",51.7002,-0.0303,57374],
+  [1269551,"Jahāngīrābād","IN",28.4055,78.1059,57363],
+  [1256569,"Sherkot","IN",29.327,78.5743,57361],
+  [2507901,"Aïn Temouchent","DZ",35.2975,-1.1404,57354],
+  [1267439,"Kātrās","IN",23.7975,86.2983,57349],
+  [1309289,"Minbu","MM",20.1806,94.876,57342],
+  [1260792,"Pālakollu","IN",16.5167,81.73,57341],
+  [1784253,"Zhongxing","CN",33.7039,118.6792,57338],
+  [96205,"Ḩalabjah","IQ",35.1778,45.9861,57333],
+  [919544,"Chililabombwe","ZM",-12.3648,27.8229,57328],
+  [2036237,"Langxiang","CN",46.9499,128.8685,57318],
+  [1180942,"Chunian","PK",30.9662,73.9791,57312],
+  [3698658,"Catacaos","PE",-5.2667,-80.6833,57304],
+  [2129909,"Ishikari","JP",43.2397,141.3539,57301],
+  [58933,"Garoowe","SO",8.4021,48.4828,57300],
+  [1252960,"Wani","IN",20.0551,78.9531,57288],
+  [1262092,"Naksalbāri","IN",26.6827,88.22,57283],
+  [4542765,"Midwest City","US",35.4495,-97.3967,57249],
+  [2540850,"Ouarzazat","MA",30.9189,-6.8934,57245],
+  [9958118,"Center City","US",39.9512,-75.1592,57239],
+  [4163407,"Margate","US",26.2445,-80.2064,57234],
+  [2472774,"Béja","TN",36.7256,9.1817,57233],
+  [1254335,"Tiruvalla","IN",9.3816,76.5749,57223],
+  [3436725,"Villa Hayes","PY",-25.0931,-57.5236,57217],
+  [3045190,"Sopron","HU",47.685,16.5905,57210],
+  [3839982,"Punta Alta","AR",-38.8759,-62.0736,57209],
+  [321426,"Bergama","TR",39.1207,27.1805,57200],
+  [1861280,"Itoman","JP",26.1265,127.6692,57184],
+  [1259408,"Ponnūru","IN",16.0655,80.552,57170],
+  [3405006,"Bragança","BR",-1.0536,-46.7656,57163],
+  [3407216,"Arcoverde","BR",-8.4189,-37.0539,57163],
+  [1214965,"Kabanjahe","ID",3.1001,98.4908,57159],
+  [5397841,"South Whittier","US",33.9502,-118.0392,57156],
+  [1811200,"Fengxian","CN",34.7039,116.5872,57153],
+  [4913723,"Tinley Park","US",41.5734,-87.7845,57143],
+  [323828,"Anamur","TR",36.0751,32.8369,57128],
+  [2034651,"Suileng","CN",47.2481,127.0954,57124],
+  [4718711,"Pflugerville","US",30.4394,-97.62,57122],
+  [250582,"Mafraq","JO",32.3429,36.208,57118],
+  [1790451,"Wenxing","CN",28.6821,112.8786,57117],
+  [1863082,"Hashimoto","JP",34.3167,135.6167,57115],
+  [2855598,"Pankow","DE",52.5693,13.4019,57113],
+  [1272525,"Diphu","IN",25.8434,93.4312,57097],
+  [1255983,"Sītāmarhi","IN",26.5936,85.4906,57095],
+  [463082,"Zhigulevsk","RU",53.3997,49.4953,57094],
+  [1853190,"Sakaidechō","JP",34.3228,133.8356,57090],
+  [886990,"Marondera","ZW",-18.1853,31.5519,57082],
+  [1274315,"Chhibrāmau","IN",27.1487,79.5008,57071],
+  [2659811,"Luzern","CH",47.0505,8.3064,57066],
+  [2645724,"Kidderminster","GB",52.3882,-2.25,57059],
+  [932614,"Mafeteng","LS",-29.823,27.2374,57059],
+  [1216187,"Shahrisabz","UZ",39.0578,66.8342,57051],
+  [1254481,"Tilhar","IN",27.9628,79.7383,57043],
+  [5101717,"New Brunswick","US",40.4862,-74.4518,57035],
+  [3855075,"General Pico","AR",-35.6566,-63.7568,57029],
+  [632978,"Vaasa","FI",63.096,21.6158,57014],
+  [5059429,"Grand Forks","US",47.9253,-97.0328,57011],
+  [2756136,"Emmen","NL",52.7792,6.9069,57010],
+  [1607512,"Phra Phutthabat","TH",14.7253,100.7954,57008],
+  [1166146,"Sangla Hill","PK",31.7167,73.3833,57002],
+  [3435356,"Colegiales","AR",-34.5736,-58.4492,57000],
+  [491250,"Sokol’niki","RU",55.802,37.6716,57000],
+  [491280,"Sokol","RU",55.8,37.5167,57000],
+  [302355,"Reyhanlı","TR",36.2679,36.5675,56995],
+  [2038529,"Baishishan","CN",43.5833,127.5667,56992],
+  [145449,"Ābādeh","IR",31.1608,52.6506,56988],
+  [5350207,"Fountain Valley","US",33.7092,-117.9537,56987],
+  [1244397,"Hendala","LK",6.9909,79.883,56978],
+  [1177107,"Haripur","PK",33.9978,72.9349,56977],
+  [501283,"Roslavl’","RU",53.9528,32.8639,56971],
+  [352344,"Minyat an Naşr","EG",31.1262,31.6431,56951],
+  [5394409,"North Hills","US",34.2364,-118.4847,56946],
+  [1799383,"Ninghai","CN",37.3842,121.6086,56937],
+  [1269784,"Ilkal","IN",15.9592,76.1135,56937],
+  [4004198,"Jacona de Plancarte","MX",19.9523,-102.3078,56934],
+  [281145,"Bayt Lāhyā","PS",31.5464,34.4951,56919],
+  [1630366,"Purbalingga","ID",-7.3881,109.3639,56903],
+  [5342992,"Diamond Bar","US",34.0286,-117.8103,56897],
+  [230893,"Kitgum","UG",3.2783,32.8867,56891],
+  [349156,"Shibīn al Qanāṭir","EG",30.3127,31.3202,56872],
+  [1278026,"Bada Barabīl","IN",22.1119,85.3868,56870],
+  [2909230,"Hattingen","DE",51.3989,7.1856,56866],
+  [3882434,"Los Andes","CL",-32.8337,-70.5983,56859],
+  [3129136,"Ávila","ES",40.6572,-4.6995,56855],
+  [3803651,"La Dolorita","VE",10.4883,-66.7861,56846],
+  [1709632,"Kalibo (poblacion)","PH",11.7061,122.3644,56845],
+  [2303287,"Bawku","GH",11.0616,-0.2417,56830],
+  [333795,"Jijiga","ET",9.35,42.8,56821],
+  [1855066,"Nōgata","JP",33.7405,130.7226,56821],
+  [11549820,"Barri de Sant Andreu","ES",41.4369,2.1902,56818],
+  [1805515,"Jinji","CN",23.2281,110.8261,56816],
+  [2652381,"Corby","GB",52.4964,-0.6894,56810],
+  [7284892,"Marseille 11","FR",43.2907,5.4384,56792],
+  [4952629,"Taunton","US",41.9001,-71.0898,56789],
+  [2186313,"Napier","NZ",-39.4926,176.9123,56787],
+  [4904365,"Oak Lawn","US",41.7109,-87.7581,56781],
+  [5105608,"Union","US",40.6976,-74.2632,56771],
+  [3445630,"Vacaria","BR",-28.5122,-50.9339,56765],
+  [4846960,"Ankeny","US",41.7297,-93.6058,56764],
+  [3991347,"Puerto Peñasco","MX",31.3172,-113.538,56756],
+  [125188,"Malārd","IR",35.6659,50.9767,56745],
+  [1816028,"Weining","CN",26.85,104.2333,56744],
+  [1263101,"Mettur","IN",11.788,77.8008,56743],
+  [4933002,"Chicopee","US",42.1487,-72.6079,56741],
+  [1513271,"Asaka","UZ",40.6415,72.2387,56736],
+  [2483936,"Râs el Oued","DZ",35.9441,5.0311,56726],
+  [1265828,"Kuchāman","IN",27.1475,74.8566,56725],
+  [2491134,"Lakhdaria","DZ",36.5646,3.5933,56719],
+  [2525448,"Caltanissetta","IT",37.4903,14.0622,56715],
+  [1632358,"Pare","ID",-7.7679,112.198,56699],
+  [2651500,"Dartford","GB",51.4466,0.2142,56694],
+  [3468158,"Cajamar","BR",-23.3561,-46.8769,56682],
+  [2653558,"Castlereagh","GB",54.5735,-5.8847,56679],
+  [2823538,"Tempelhof","DE",52.4667,13.4,56669],
+  [3109256,"Segovia","ES",40.9481,-4.1184,56660],
+  [721239,"Eger","HU",47.9027,20.3733,56647],
+  [2651286,"Dewsbury","GB",53.6908,-1.6291,56640],
+  [1813775,"Daokou","CN",35.5639,114.5058,56637],
+  [1839873,"Okcheon","KR",36.3012,127.568,56634],
+  [1786867,"Yashan","CN",22.1975,109.9419,56629],
+  [3591062,"Puerto Barrios","GT",15.7278,-88.5944,56605],
+  [1260448,"Panruti","IN",11.7766,79.5527,56586],
+  [3628489,"San Carlos del Zulia","VE",9.001,-71.9268,56582],
+  [1706188,"Lingayen","PH",16.0218,120.2319,56580],
+  [3460174,"Janaúba","BR",-15.8025,-43.3089,56572],
+  [572154,"Borovichi","RU",58.3878,33.9155,56571],
+  [2644204,"Livingston","GB",55.9029,-3.5226,56570],
+  [1864557,"Chino","JP",35.9944,138.1543,56567],
+  [2111831,"Moriya","JP",35.9333,140,56566],
+  [2904795,"Hilden","DE",51.1682,6.9309,56565],
+  [1253783,"Una","IN",20.8232,71.038,56545],
+  [7284823,"Budapest XII. kerület","HU",47.4919,19.0149,56544],
+  [3430340,"Oberá","AR",-27.4871,-55.1199,56528],
+  [2386012,"Kaga Bandoro","CF",6.9896,19.1874,56520],
+  [4897543,"Irving Park","US",41.9534,-87.7364,56520],
+  [316284,"Dörtyol","TR",36.8392,36.2303,56513],
+  [7302844,"Ponnur","IN",16.0711,80.5494,56504],
+  [1266267,"Kollegāl","IN",12.1545,77.1105,56497],
+  [3445014,"Vinhedo","BR",-23.0297,-46.9753,56492],
+  [2035635,"Nantai","CN",40.9241,122.8044,56478],
+  [1650600,"Balaipungut","ID",1.0595,101.2905,56452],
+  [1256620,"Shegaon","IN",20.7932,76.6992,56449],
+  [1672228,"Magong","TW",23.5654,119.5863,56435],
+  [3170027,"Potenza","IT",40.6418,15.8079,56433],
+  [1815667,"Changleng","CN",28.7,115.8167,56429],
+  [8504946,"Chernaya Rechka","RU",59.9859,30.3034,56429],
+  [3463174,"Formiga","BR",-20.4644,-45.4264,56404],
+  [226234,"Soroti","UG",1.7146,33.6111,56400],
+  [2513917,"Mérida","ES",38.9161,-6.3437,56395],
+  [2468579,"Nabeul","TN",36.4561,10.7376,56387],
+  [3574116,"Mon Repos","TT",10.2798,-61.4459,56380],
+  [1806591,"Hutang","CN",31.5343,119.49,56370],
+  [1130490,"Pul-e Khumrī","AF",35.9446,68.7151,56369],
+  [4884597,"Berwyn","US",41.8506,-87.7937,56368],
+  [1169372,"Nankana Sahib","PK",31.4501,73.7065,56366],
+  [1253736,"Upleta","IN",21.7402,70.2826,56354],
+  [1253918,"Ujhāni","IN",28.0031,79.0082,56309],
+  [4274994,"Manhattan","US",39.1836,-96.5717,56308],
+  [360615,"Al Qanāţir al Khayrīyah","EG",30.1933,31.137,56302],
+  [2108502,"Honiara","SB",-9.4333,159.95,56298],
+  [3185672,"Fier","AL",40.7239,19.5561,56297],
+  [2636769,"Stourbridge","GB",52.4561,-2.1432,56284],
+  [1348747,"Bankra","IN",22.6029,88.2775,56273],
+  [1636507,"Mendaha","ID",-1.0163,103.5933,56268],
+  [1273766,"Dabhoi","IN",22.1833,73.4333,56253],
+  [1626754,"Sleman","ID",-7.7156,110.3556,56215],
+  [1810553,"Gaogou","CN",34.0175,119.1886,56214],
+  [3682573,"Espinal","CO",4.1492,-74.8843,56213],
+  [3526992,"Huauchinango","MX",20.1738,-98.0549,56206],
+  [2300372,"Hohoe","GH",7.1518,0.4736,56202],
+  [784227,"Vranje","RS",42.5514,21.9003,56199],
+  [548442,"Kirishi","RU",59.4471,32.0205,56190],
+  [746666,"Gölcük","TR",40.7032,29.8722,56189],
+  [2037913,"Linghai","CN",41.1653,121.3667,56176],
+  [3666577,"Turbaco","CO",10.3294,-75.4114,56171],
+  [3694112,"Paita","PE",-5.0892,-81.1144,56151],
+  [4160705,"Kendale Lakes","US",25.7082,-80.407,56148],
+  [4223379,"Smyrna","US",33.884,-84.5144,56146],
+  [4990512,"Dearborn Heights","US",42.337,-83.2733,56145],
+  [1276948,"Bāri","IN",26.6466,77.6163,56136],
+  [400666,"Ródos","GR",36.4356,28.222,56128],
+  [1261086,"Obra","IN",24.4186,82.988,56110],
+  [2841648,"Sankt Augustin","DE",50.7754,7.197,56094],
+  [1271079,"Gohāna","IN",29.1378,76.7025,56093],
+  [5384471,"Porterville","US",36.0652,-119.0168,56058],
+  [5102713,"Piscataway","US",40.4993,-74.399,56044],
+  [1632861,"Pandak","ID",-7.9131,110.2936,56043],
+  [4153471,"Doral","US",25.8195,-80.3553,56035],
+  [1789897,"Zijinglu","CN",34.76,112.9714,56033],
+  [4628735,"Hendersonville","US",36.3048,-86.62,56018],
+  [2787889,"Roeselare","BE",50.9465,3.1227,56016],
+  [1832617,"Eisen","KR",35.9675,128.9308,56006],
+  [1269154,"Jatani","IN",20.1598,85.7074,56003],
+  [11609988,"Joymontop","BD",23.7879,90.1647,56000],
+  [194160,"Kapenguria","KE",1.2389,35.1119,56000],
+  [1082243,"Ambilobe","MG",-13.2,49.05,56000],
+  [563379,"Ezhva","RU",61.8128,50.7283,56000],
+  [1262039,"Nāmakkal","IN",11.2213,78.1652,55997],
+  [3466174,"Cianorte","BR",-23.6633,-52.605,55994],
+  [1576633,"Lạng Sơn","VN",21.8526,106.761,55981],
+  [1797575,"Qinnan","CN",33.2531,119.9133,55975],
+  [200067,"Bungoma","KE",0.5635,34.5606,55962],
+  [1271819,"Gadwāl","IN",16.235,77.7956,55952],
+  [534838,"Liski","RU",50.9841,39.5155,55939],
+  [6332422,"Morningside Heights","US",40.81,-73.9625,55929],
+  [699553,"Novohrad-Volynskyi","UA",50.5941,27.6165,55925],
+  [3621911,"San Francisco","CR",9.993,-84.1293,55923],
+  [2221504,"Tiko","CM",4.075,9.3601,55914],
+  [1260707,"Pālitāna","IN",21.5252,71.8231,55913],
+  [1261227,"Nokha","IN",27.5616,73.4714,55911],
+  [1265310,"Lāharpur","IN",27.7083,80.9026,55911],
+  [1732891,"Kuala Selangor","MY",3.35,101.25,55887],
+  [1718306,"Carmona","PH",14.3132,121.0576,55887],
+  [320879,"Bolvadin","TR",38.7111,31.0486,55870],
+  [3124132,"Cuenca","ES",40.0667,-2.1333,55866],
+  [1261739,"Narwāna","IN",29.599,76.1193,55850],
+  [1921372,"Dalianwan","CN",39.0286,121.695,55841],
+  [2038158,"Changling","CN",44.2653,124.0005,55841],
+  [1153557,"Chumphon","TH",10.4957,99.1797,55835],
+  [2527645,"Tirhanimîne","MA",35.2362,-3.9545,55827],
+  [4488762,"Rocky Mount","US",35.9382,-77.7905,55806],
+  [709276,"Energodar","UA",47.4987,34.6574,55800],
+  [3397909,"Itapipoca","BR",-3.4944,-39.5786,55784],
+  [2615006,"Randers","DK",56.4607,10.0364,55780],
+  [5720727,"Corvallis","US",44.5646,-123.262,55780],
+  [2928963,"Eschweiler","DE",50.8185,6.2718,55778],
+  [2363534,"Tsévié","TG",6.4261,1.2133,55775],
+  [772621,"Ełk","PL",53.8282,22.3647,55769],
+  [3170116,"Portici","IT",40.8156,14.3372,55765],
+  [3453150,"Ponta Porã","BR",-22.5361,-55.7256,55763],
+  [3437127,"San Antonio","PY",-25.4213,-57.5472,55754],
+  [364706,"Umm Ruwaba","SD",12.9061,31.2158,55742],
+  [4228147,"Valdosta","US",30.8333,-83.2803,55724],
+  [1850108,"Tomigusuku","JP",26.1858,127.6819,55715],
+  [1269665,"Islāmpur","IN",26.2654,88.1898,55691],
+  [2638678,"Sale","GB",53.4252,-2.3244,55689],
+  [737054,"Zile","TR",40.3031,35.8864,55680],
+  [1267904,"Karād","IN",17.2894,74.1818,55663],
+  [5355180,"Hanford","US",36.3275,-119.6457,55659],
+  [1770351,"Kampung Bukit Baharu","MY",2.2152,102.2851,55656],
+  [3463900,"Estância","BR",-11.2683,-37.4383,55654],
+  [1705440,"Lubao","PH",14.9405,120.6011,55645],
+  [1125444,"Shibirghān","AF",36.6676,65.7529,55641],
+  [1837706,"Sangju","KR",36.4153,128.1606,55640],
+  [1861244,"Iwade","JP",34.25,135.3167,55633],
+  [2268406,"Évora","PT",38.5667,-7.9,55620],
+  [1609610,"Klaeng","TH",12.7797,101.6483,55619],
+  [8542188,"Dakhla","MA",30.4107,-9.5557,55618],
+  [3083988,"Świętochłowice","PL",50.2964,18.9173,55600],
+  [5416329,"Castle Rock","US",39.3722,-104.8561,55591],
+  [1803365,"Linqiong","CN",30.4159,103.4609,55587],
+  [693381,"Snizhne","UA",48.0261,38.7723,55587],
+  [4258313,"Greenwood","US",39.6137,-86.1066,55586],
+  [235039,"Arua","UG",3.0201,30.9111,55585],
+  [1513604,"Khiwa","UZ",41.3783,60.3639,55567],
+  [172349,"At Tall","SY",33.6103,36.3107,55561],
+  [3925212,"Cacoal","BR",-11.4386,-61.4472,55560],
+  [1651461,"Amuntai","ID",-2.4177,115.2494,55560],
+  [3994616,"Nuevo Casas Grandes","MX",30.4155,-107.9117,55553],
+  [4887463,"Chicago Lawn","US",41.775,-87.6964,55551],
+  [747538,"Eminönü","TR",41.0177,28.9744,55548],
+  [5120478,"Hempstead","US",40.7062,-73.6187,55547],
+  [3359510,"Wellington","ZA",-33.6398,19.0112,55543],
+  [5378044,"Novato","US",38.1074,-122.5697,55530],
+  [4515843,"Kettering","US",39.6895,-84.1688,55525],
+  [358970,"Basyūn","EG",30.9398,30.8134,55523],
+  [3686922,"Cereté","CO",8.8848,-75.7905,55513],
+  [5063805,"Bellevue","US",41.1367,-95.8908,55510],
+  [470676,"Vyaz’ma","RU",55.2104,34.2951,55500],
+  [3441894,"Maldonado","UY",-34.9,-54.95,55478],
+  [1648918,"Besuki","ID",-7.7338,113.6979,55465],
+  [617486,"Rîbniţa","MD",47.7682,29.01,55455],
+  [5888377,"Aurora","CA",44.0001,-79.4663,55445],
+  [3897774,"Buin","CL",-33.7326,-70.7428,55441],
+  [5810301,"Shoreline","US",47.7557,-122.3415,55439],
+  [4058553,"Decatur","US",34.6059,-86.9833,55437],
+  [3449099,"São Gabriel","BR",-30.3364,-54.32,55434],
+  [1818051,"Anjiang","CN",27.3194,110.1031,55421],
+  [1865309,"Anan","JP",33.9167,134.65,55421],
+  [3573738,"San Fernando","TT",10.2797,-61.4683,55419],
+  [2033667,"Xinqing","CN",48.287,129.5234,55415],
+  [1843082,"Gapyeong","KR",37.831,127.5106,55415],
+  [5381110,"Paramount","US",33.8895,-118.1598,55412],
+  [64460,"Beledweyne","SO",4.7358,45.2036,55410],
+  [3543961,"Placetas","CU",22.3118,-79.6544,55408],
+  [2977295,"Saint-Quentin","FR",49.8489,3.2876,55407],
+  [2378736,"Kaédi","MR",16.1503,-13.5037,55374],
+  [761228,"Pruszków","PL",52.1707,20.8121,55371],
+  [3465721,"Concórdia","BR",-27.2342,-52.0278,55367],
+  [320557,"Bozüyük","TR",39.9078,30.0367,55365],
+  [2618528,"Kolding","DK",55.4904,9.4722,55363],
+  [4720039,"Port Arthur","US",29.8852,-93.9423,55340],
+  [2034600,"Taikang","CN",46.8614,124.442,55316],
+  [6694821,"Nanto-shi","JP",36.5692,136.9116,55315],
+  [2111018,"Shiroi","JP",35.8,140.0667,55314],
+  [1799352,"Yutan","CN",28.2583,112.5605,55312],
+  [4917592,"Anderson","US",40.1053,-85.6802,55305],
+  [1621678,"Wedi","ID",-7.7431,110.5794,55300],
+  [1269422,"Jālaun","IN",26.1451,79.3366,55299],
+  [3993179,"Pátzcuaro","MX",19.5159,-101.6089,55298],
+  [3107775,"Torrelavega","ES",43.3494,-4.0479,55297],
+  [3393400,"Pacatuba","BR",-3.9842,-38.6203,55291],
+  [1267758,"Karīmganj","IN",24.8692,92.3554,55290],
+  [1852849,"Satte","JP",36.0725,139.7262,55286],
+  [2959223,"Ahlen","DE",51.7634,7.8887,55280],
+  [4174744,"Tamiami","US",25.7587,-80.3984,55271],
+  [2187454,"Mangere","NZ",-36.9681,174.7988,55266],
+  [2647639,"Halesowen","GB",52.4486,-2.0494,55265],
+  [1497951,"Nazarovo","RU",56.0104,90.4011,55252],
+  [1185127,"Rāmganj","BD",23.1006,90.8499,55241],
+  [2653877,"Canterbury","GB",51.279,1.0799,55240],
+  [2229761,"Kribi","CM",2.9373,9.9077,55224],
+  [2225991,"Mora","CM",11.0461,14.1401,55216],
+  [547560,"Klimovsk","RU",55.3635,37.5298,55206],
+  [1262852,"Mokameh","IN",25.3966,85.9219,55203],
+  [6690862,"South Croydon","GB",51.3622,-0.0942,55198],
+  [4371582,"Towson","US",39.4015,-76.6019,55197],
+  [730496,"Kazanlak","BG",42.6167,25.4,55196],
+  [997140,"Heilbron","ZA",-27.2811,27.9709,55196],
+  [1698548,"Naic","PH",14.3181,120.7661,55195],
+  [2038421,"Bayan","CN",46.0756,127.3984,55186],
+  [1275582,"Etāwa","IN",24.1835,78.2029,55185],
+  [1252956,"Wanparti","IN",16.3674,78.0689,55182],
+  [4945588,"North Chicopee","US",42.1834,-72.5995,55179],
+  [2518505,"Elda","ES",38.4778,-0.7916,55168],
+  [2499055,"Drean","DZ",36.6848,7.7511,55147],
+  [4914557,"Uptown","US",41.9659,-87.6526,55137],
+  [1586288,"Cần Giờ","VN",10.4111,106.9547,55137],
+  [144794,"Ābyek","IR",36.0667,50.55,55128],
+  [3445153,"Viana","BR",-20.3903,-40.4961,55122],
+  [213940,"Kasongo","CD",-4.4274,26.6666,55118],
+  [4172131,"Sarasota","US",27.3364,-82.5306,55118],
+  [3191376,"Šabac","RS",44.7467,19.69,55114],
+  [1185293,"Narail","BD",23.1551,89.4952,55112],
+  [3948642,"Abancay","PE",-13.6339,-72.8814,55111],
+  [1610469,"Kalasin","TH",16.4328,103.5066,55102],
+  [6853140,"Lesnoy","RU",57.6198,63.0784,55100],
+  [1257565,"Sāmalkot","IN",17.0568,82.1764,55097],
+  [2527089,"Tiznit","MA",29.6974,-9.7316,55092],
+  [292913,"Al Ain City","AE",24.1917,55.7606,55091],
+  [500019,"Rybatskoye","RU",59.8393,30.4987,55076],
+  [6146279,"Sherwood Park","CA",53.5168,-113.3187,55063],
+  [1647179,"Cepu","ID",-7.1475,111.5906,55055],
+  [478724,"Uritsk","RU",59.8389,30.1753,55037],
+  [3124794,"Collado-Villalba","ES",40.6351,-4.0049,55027],
+  [3448351,"São Pedro da Aldeia","BR",-22.8392,-42.1028,55014],
+  [1855753,"Nakatsugawa","JP",35.4833,137.5,55011],
+  [6825277,"Shilin","CN",24.8188,103.3324,55000],
+  [225284,"'Ali Sabieh","DJ",11.1558,42.7125,55000],
+  [11762608,"Yeongam","KR",34.8006,126.6967,55000],
+  [3618929,"Jinotega","NI",13.091,-86.0023,55000],
+  [465057,"Zamoskvorech’ye","RU",55.7333,37.6333,55000],
+  [507338,"Pokrovskoye-Streshnëvo","RU",55.808,37.4581,55000],
+  [1510205,"Berëzovskiy","RU",55.6,86.2,55000],
+  [711660,"Boryspil’","UA",50.3527,30.955,55000],
+  [1278580,"Anjangaon","IN",21.1652,77.3091,54999],
+  [349715,"Samannūd","EG",30.9616,31.2407,54980],
+  [1272733,"Dholka","IN",22.7273,72.4413,54977],
+  [2483757,"Reghaïa","DZ",36.7359,3.3402,54962],
+  [2036734,"Huangnihe","CN",43.5583,128.0239,54959],
+  [943960,"Viljoenskroon","ZA",-27.2084,26.9486,54955],
+  [6138501,"Saint-Jérôme","CA",45.7804,-74.0036,54948],
+  [5114418,"Cypress Hills","US",40.6771,-73.8912,54944],
+  [3404117,"Caicó","BR",-6.4583,-37.0978,54934],
+  [1254346,"Tirur","IN",10.9137,75.9212,54934],
+  [4845419,"West Haven","US",41.2707,-72.947,54927],
+  [1506271,"Gorno-Altaysk","RU",51.9606,85.9189,54917],
+  [787487,"Ohrid","MK",41.1172,20.8019,54908],
+  [5388867,"Rosemead","US",34.0806,-118.0728,54908],
+  [3988333,"Sabinas","MX",27.8559,-101.1174,54905],
+  [2953358,"Bad Salzuflen","DE",52.0862,8.7443,54899],
+  [3173721,"Matera","IT",40.666,16.6046,54891],
+  [2928396,"Euskirchen","DE",50.6606,6.7872,54889],
+  [3167731,"San Severo","IT",41.6856,15.3815,54880],
+  [4890701,"Edgewater","US",41.9834,-87.6639,54873],
+  [109380,"Al Khafjī","SA",28.4391,48.4913,54857],
+  [4502434,"Jackson","US",39.7765,-74.8624,54856],
+  [5356868,"Highland","US",34.1283,-117.2086,54854],
+  [1803551,"Lingcheng","CN",22.7072,110.3492,54848],
+  [1268135,"Kāndi","IN",23.9595,88.0402,54848],
+  [3539560,"San José de las Lajas","CU",22.9614,-82.1511,54847],
+  [3447785,"Seropédica","BR",-22.7439,-43.7075,54846],
+  [7303786,"Jonquière","CA",48.4165,-71.2488,54842],
+  [3404558,"Cabedelo","BR",-6.9811,-34.8339,54839],
+  [921815,"Mamoudzou","YT",-12.7823,45.2288,54831],
+  [2872504,"Meerbusch","DE",51.2527,6.6881,54826],
+  [2035836,"Manzhouli","CN",49.6,117.4333,54808],
+  [3439317,"Caaguazú","PY",-25.471,-56.016,54808],
+  [7302815,"Bandar Labuan","MY",5.2888,115.2692,54752],
+  [4903024,"Mount Prospect","US",42.0664,-87.9373,54747],
+  [2806914,"Wolfenbüttel","DE",52.1644,10.541,54740],
+  [2646329,"Huyton","GB",53.4115,-2.8393,54738],
+  [1851368,"Suwa","JP",36.038,138.1131,54735],
+  [2263827,"Rio de Mouro","PT",38.7661,-9.328,54695],
+  [2036106,"Liaozhong","CN",41.5061,122.7242,54691],
+  [2897216,"Hürth","DE",50.8708,6.8676,54678],
+  [349114,"Shirbīn","EG",31.1969,31.5243,54676],
+  [2656235,"Barry","GB",51.3998,-3.2838,54673],
+  [2503755,"Boghni","DZ",36.5422,3.9531,54666],
+  [2990355,"Niort","FR",46.3231,-0.4588,54660],
+  [1271346,"Ghātāl","IN",22.6624,87.734,54658],
+  [1684681,"Tacurong","PH",6.6925,124.6764,54648],
+  [2265467,"Odivelas","PT",38.7927,-9.1838,54624],
+  [5338783,"Colton","US",34.0739,-117.3136,54621],
+  [1253750,"Unjha","IN",23.8037,72.391,54620],
+  [3058780,"Martin","SK",49.0665,18.924,54618],
+  [650946,"Kotka","FI",60.4664,26.9458,54616],
+  [3583480,"San Marcos","SV",13.6611,-89.1825,54615],
+  [11979227,"Encanto","US",33.4794,-112.0782,54614],
+  [3457952,"Manhuaçu","BR",-20.2581,-42.0336,54607],
+  [664460,"Turda","RO",46.5667,23.7833,54586],
+  [3033791,"Belfort","FR",47.6422,6.8539,54562],
+  [3940002,"Huacho","PE",-11.1067,-77.605,54545],
+  [173480,"Al Mayādīn","SY",35.0198,40.4515,54534],
+  [1256854,"Sendhwa","IN",21.6856,75.0962,54530],
+  [577893,"Belorechensk","RU",44.7713,39.8788,54526],
+  [3684917,"El Banco","CO",9.0011,-73.9758,54522],
+  [5501344,"Carson City","US",39.1638,-119.7674,54521],
+  [3515358,"San Bernardino Tlaxcalancingo","MX",19.0287,-98.277,54517],
+  [3934608,"Moquegua","PE",-17.1983,-70.9357,54517],
+  [3861344,"Chivilcoy","AR",-34.8957,-60.0167,54514],
+  [1862612,"Himimachi","JP",36.8561,136.9885,54510],
+  [1254343,"Tiruttangal","IN",9.4833,77.8333,54499],
+  [3590219,"San Francisco El Alto","GT",14.9449,-91.4431,54493],
+  [3454235,"Penápolis","BR",-21.4197,-50.0775,54477],
+  [110325,"Ad Dawādimī","SA",24.5077,44.3924,54474],
+  [1214724,"Langsa","ID",4.4683,97.9683,54465],
+  [1799552,"Nanzhou","CN",29.3596,112.4024,54449],
+  [5604045,"Pocatello","US",42.8713,-112.4455,54441],
+  [4148708,"Bradenton","US",27.4989,-82.5748,54437],
+  [2302821,"Bolgatanga","GH",10.7856,-0.8514,54430],
+  [3682281,"Funza","CO",4.7164,-74.2119,54421],
+  [1185138,"Pirojpur","BD",22.5797,89.9752,54418],
+  [3458131,"Mairiporã","BR",-23.3186,-46.5867,54415],
+  [725905,"Vidin","BG",43.9916,22.8824,54409],
+  [4908033,"Rogers Park","US",42.0086,-87.6667,54402],
+  [4955336,"Weymouth","US",42.2209,-70.9398,54395],
+  [4169130,"Port Charlotte","US",26.9762,-82.0906,54392],
+  [1292313,"Tharyarwady","MM",17.654,95.7881,54386],
+  [4903780,"Normal","US",40.5142,-88.9906,54373],
+  [3038334,"Ajaccio","FR",41.9189,8.7381,54364],
+  [3556437,"Jagüey Grande","CU",22.5269,-81.1286,54363],
+  [288899,"Bahlā’","OM",22.9789,57.3047,54338],
+  [2021618,"Krasnokamensk","RU",50.0979,118.0369,54316],
+  [1037390,"Ilha de Moçambique","MZ",-15.0342,40.7358,54315],
+  [1256382,"Siddhapur","IN",23.9178,72.3721,54313],
+  [1272670,"Dhūri","IN",30.3685,75.8679,54302],
+  [4733624,"Spring","US",30.0799,-95.4172,54298],
+  [3437444,"Presidente Franco","PY",-25.5638,-54.611,54292],
+  [4145805,"Allapattah","US",25.8145,-80.2239,54289],
+  [1854384,"Okaya","JP",36.0566,138.0451,54286],
+  [2776421,"Hietzing","AT",48.1862,16.2965,54265],
+  [2648187,"Gravesend","GB",51.4421,0.3711,54263],
+  [6295533,"Zürich (Kreis 11)","CH",47.4233,8.5217,54260],
+  [2222230,"Sangmélima","CM",2.9333,11.9833,54251],
+  [5808276,"Richland","US",46.2857,-119.2845,54248],
+  [1256369,"Sidhi","IN",24.4038,81.8795,54242],
+  [2953504,"Baden-Baden","DE",48.7606,8.2398,54239],
+  [2650396,"Eastleigh","GB",50.9667,-1.35,54225],
+  [3518221,"Zinacantepec","MX",19.2843,-99.7339,54220],
+  [4689550,"Euless","US",32.8371,-97.082,54219],
+  [539061,"Kupchino","RU",59.8528,30.3567,54198],
+  [358115,"Dishnā","EG",26.1247,32.476,54197],
+  [3429790,"Puerto Eldorado","AR",-26.4084,-54.6946,54189],
+  [4568451,"Trujillo Alto","PR",18.3547,-66.0074,54189],
+  [2742611,"Aveiro","PT",40.6443,-8.6455,54162],
+  [4377664,"Blue Springs","US",39.017,-94.2816,54148],
+  [102651,"Şabyā","SA",17.1495,42.6254,54108],
+  [4154047,"East Pensacola Heights","US",30.4288,-87.18,54104],
+  [707688,"Chornomors’k","UA",46.305,30.6548,54102],
+  [261604,"Kalamata","GR",37.0391,22.1127,54100],
+  [459201,"Jūrmala","LV",56.968,23.7704,54088],
+  [3456826,"Montenegro","BR",-29.6886,-51.4611,54057],
+  [3179075,"Cerignola","IT",41.2652,15.8956,54056],
+  [3129857,"Aranjuez","ES",40.0311,-3.6025,54055],
+  [5354819,"Hacienda Heights","US",33.9931,-117.9687,54038],
+  [735861,"Kavála","GR",40.9396,24.4069,54027],
+  [3545841,"Nuevitas","CU",21.5459,-77.265,54022],
+  [2500904,"Dar Chioukh","DZ",34.8964,3.4854,54022],
+  [1851357,"Suzaka","JP",36.65,138.3167,54022],
+  [2970777,"Vannes","FR",47.6579,-2.7557,54020],
+  [2834498,"Schweinfurt","DE",50.0494,10.2218,54012],
+  [1252840,"Wokha","IN",26.0972,94.2582,54010],
+  [2392505,"Nikki","BJ",9.9401,3.2108,54009],
+  [472072,"Altuf’yevskiy","RU",55.8833,37.5833,54000],
+  [5130334,"Ozone Park","US",40.6768,-73.8437,53985],
+  [2864054,"Neustadt","DE",49.3501,8.1389,53984],
+  [3165322,"Trani","IT",41.2773,16.4101,53981],
+  [2975921,"Sartrouville","FR",48.9482,2.1917,53980],
+  [5964215,"Granby","CA",45.4001,-72.7324,53979],
+  [2229748,"Kumbo","CM",6.2,10.6667,53970],
+  [2996568,"Maisons-Alfort","FR",48.8117,2.4395,53964],
+  [1268341,"Kālna","IN",23.2194,88.363,53964],
+  [3436199,"Azul","AR",-36.777,-59.8585,53941],
+  [482965,"Timashëvsk","RU",45.6169,38.9453,53940],
+  [496278,"Severomorsk","RU",69.0689,33.4162,53921],
+  [1277091,"Bārāmati","IN",18.1517,74.5777,53919],
+  [260114,"Chaniá","GR",35.5112,24.0292,53910],
+  [3902949,"Tiquipaya","BO",-17.338,-66.2158,53904],
+  [565381,"Domodedovo","RU",55.4413,37.7537,53887],
+  [6640032,"Briarwood","US",40.7094,-73.8153,53877],
+  [140521,"Bījār","IR",35.8668,47.6051,53871],
+  [120972,"Pīshvā","IR",35.308,51.7267,53856],
+  [356933,"Farshūţ","EG",26.0549,32.1633,53851],
+  [5335006,"Cathedral City","US",33.7797,-116.4653,53826],
+  [2994798,"Meaux","FR",48.9601,2.8789,53811],
+  [2290462,"Danané","CI",7.2596,-8.155,53808],
+  [5100280,"Lakewood","US",40.0979,-74.2176,53805],
+  [470252,"Vyshniy Volochëk","RU",57.5913,34.5645,53800],
+  [707292,"Izyum","UA",49.2088,37.2485,53778],
+  [5153207,"Elyria","US",41.3684,-82.1077,53775],
+  [2851746,"Pulheim","DE",50.9997,6.8063,53762],
+  [1587919,"Bỉm Sơn","VN",20.0781,105.8603,53754],
+  [8858088,"Jardines de la Silla (Jardines)","MX",25.6294,-100.1878,53742],
+  [762909,"Ostrołęka","PL",53.0862,21.5757,53740],
+  [758390,"Starachowice","PL",51.0374,21.0713,53739],
+  [2453662,"Markala","ML",13.7021,-6.0659,53738],
+  [2473744,"Hammamet","TN",36.4,10.6167,53733],
+  [1591527,"Bắc Giang","VN",21.2731,106.1946,53728],
+  [933099,"Selebi-Phikwe","BW",-21.9789,27.843,53727],
+  [4916288,"Wheaton","US",41.8661,-88.107,53715],
+  [5417737,"Commerce City","US",39.8083,-104.9339,53696],
+  [2657697,"Acton","GB",51.509,-0.2762,53689],
+  [3672110,"Pitalito","CO",1.8537,-76.0507,53685],
+  [3625710,"Upata","VE",8.0162,-62.4056,53685],
+  [3827596,"Santiago Teyahualco","MX",19.6599,-99.1249,53684],
+  [1145352,"Charikar","AF",35.0136,69.1714,53676],
+  [3671315,"Puerto Tejada","CO",3.2311,-76.4167,53674],
+  [1268111,"Kandukūr","IN",15.2154,79.9039,53662],
+  [3032213,"Blois","FR",47.5943,1.3291,53660],
+  [3182007,"Bisceglie","IT",41.2426,16.501,53648],
+  [1255449,"Sunām","IN",30.1288,75.7994,53647],
+  [5099133,"Hoboken","US",40.744,-74.0324,53635],
+  [5407529,"Watsonville","US",36.9102,-121.7569,53628],
+  [7302810,"Gaddi Annaram","IN",17.3669,78.5242,53622],
+  [3530531,"Coatepec","MX",19.4523,-96.9615,53621],
+  [1257001,"Sattenapalle","IN",16.3938,80.1522,53603],
+  [582182,"Anapa","RU",44.895,37.3162,53600],
+  [695379,"Roven’ky","UA",48.0833,39.3776,53600],
+  [3673045,"Pamplona","CO",7.3757,-72.6479,53587],
+  [3183541,"Acerra","IT",40.9448,14.3714,53578],
+  [3177363,"Ercolano","IT",40.8078,14.3501,53576],
+  [367308,"Shendi","SD",16.6915,33.4341,53568],
+  [2548818,"Fnidek","MA",35.8491,-5.3575,53559],
+  [5301388,"Lake Havasu City","US",34.4839,-114.3224,53553],
+  [3521922,"Papantla de Olarte","MX",20.4465,-97.3249,53546],
+  [1726339,"Batac City","PH",18.0554,120.5649,53542],
+  [2634715,"Washington","GB",54.9,-1.5167,53526],
+  [1270032,"Hiriyūr","IN",13.9446,76.6172,53519],
+  [571159,"Buguruslan","RU",53.6554,52.442,53511],
+  [1274862,"Challakere","IN",14.318,76.6517,53506],
+  [3619267,"El Viejo","NI",12.6635,-87.1666,53504],
+  [304612,"Menemen","TR",38.6075,27.0694,53489],
+  [2654938,"Braintree","GB",51.8782,0.5529,53477],
+  [3938415,"Ilo","PE",-17.6318,-71.3411,53476],
+  [1258581,"Rampur Hat","IN",24.1774,87.7827,53468],
+  [3029974,"Brive-la-Gaillarde","FR",45.1589,1.5333,53466],
+  [1263427,"Masaurhi Buzurg","IN",25.3542,85.032,53440],
+  [3036938,"Arles","FR",43.6768,4.6303,53431],
+  [4832294,"Revere","US",42.4084,-71.012,53422],
+  [128831,"Kangāvar","IR",34.5043,47.9653,53414],
+  [1606033,"Suphan Buri","TH",14.4742,100.1222,53399],
+  [3034006,"Beauvais","FR",49.4333,2.0833,53393],
+  [1261110,"Nūzvīd","IN",16.7885,80.8459,53391],
+  [3838793,"Río Tercero","AR",-32.173,-64.1141,53389],
+  [655808,"Joensuu","FI",62.6012,29.7632,53388],
+  [3598119,"Cobán","GT",15.4708,-90.3708,53375],
+  [8334622,"Neu-Hohenschönhausen","DE",52.5668,13.5126,53374],
+  [1513966,"Guliston","UZ",40.4897,68.7842,53373],
+  [5106292,"West New York","US",40.7879,-74.0143,53366],
+  [3398115,"Ipojuca","BR",-8.3989,-35.0639,53364],
+  [1168307,"Pasrur","PK",32.2629,74.6633,53364],
+  [3431057,"Los Polvorines","AR",-34.5032,-58.706,53354],
+  [1256693,"Shājāpur","IN",23.4264,76.2778,53346],
+  [1259124,"Puttūr","IN",12.7598,75.2017,53331],
+  [1879487,"Chaeryŏng-ŭp","KP",38.3992,125.6156,53330],
+  [5411046,"Yucaipa","US",34.0336,-117.0431,53328],
+  [3467684,"Campos do Jordão","BR",-22.7394,-45.5914,53319],
+  [2482090,"Sedrata","DZ",36.1287,7.5338,53318],
+  [1267616,"Kāsaragod","IN",12.4984,74.9896,53309],
+  [3026204,"Châteauroux","FR",46.8125,1.6936,53301],
+  [2410763,"São Tomé","ST",0.3365,6.7273,53300],
+  [735914,"Kateríni","GR",40.2696,22.5061,53293],
+  [1278094,"Ajodhya","IN",26.7991,82.2047,53293],
+  [1628899,"Sampang","ID",-7.1872,113.2394,53269],
+  [1262678,"Mubārakpur","IN",26.0887,83.2909,53263],
+  [2111568,"Ōami","JP",35.5167,140.3167,53239],
+  [5352214,"Gilroy","US",37.0058,-121.5683,53231],
+  [1856456,"Mukō","JP",34.9654,135.7042,53222],
+  [562321,"Fryazevo","RU",55.7332,38.4646,53212],
+  [1259811,"Phaltan","IN",17.9911,74.4318,53202],
+  [2647570,"Hamilton","GB",55.7667,-4.0333,53200],
+  [4168228,"Pensacola","US",30.4213,-87.2169,53193],
+  [4168930,"Poinciana","US",28.1403,-81.4584,53193],
+  [1636308,"Manokwari","ID",-0.8629,134.064,53190],
+  [1257459,"Sandīla","IN",27.0699,80.515,53182],
+  [3691348,"Tingo María","PE",-9.2953,-75.9957,53177],
+  [3468014,"Camaquã","BR",-30.8511,-51.8122,53169],
+  [739634,"Silivri","TR",41.0739,28.2464,53167],
+  [3025053,"Cholet","FR",47.0591,-0.8795,53160],
+  [3080526,"Zawiercie","PL",50.4877,19.4168,53159],
+  [172946,"Ar Rastan","SY",34.9267,36.7324,53152],
+  [1257851,"Sāgar","IN",14.165,75.029,53150],
+  [6395804,"Sinan","KR",34.8262,126.1086,53150],
+  [107781,"Az Zulfī","SA",26.2995,44.8154,53144],
+  [2913761,"Gummersbach","DE",51.0261,7.5647,53131],
+  [3520235,"Rioverde","MX",21.9312,-99.9949,53128],
+  [2511032,"San Vicent del Raspeig","ES",38.3964,-0.5255,53126],
+  [1624987,"Tanjungagung","ID",-3.9373,103.8047,53117],
+  [2749450,"Oosterhout","NL",51.645,4.8597,53107],
+  [1283368,"Gulariyā","NP",28.2058,81.3453,53107],
+  [3567869,"Banes","CU",20.9612,-75.722,53104],
+  [1841149,"Miryang","KR",35.4933,128.7489,53103],
+  [146970,"Xankandi","AZ",39.8177,46.7528,53100],
+  [3641275,"El Tocuyo","VE",9.7871,-69.7929,53099],
+  [3017253,"Fréjus","FR",43.4333,6.7356,53098],
+  [1566346,"Thái Bình","VN",20.45,106.34,53071],
+  [1863023,"Hatogaya-honchō","JP",35.8331,139.7425,53062],
+  [3527023,"Ciudad de Huajuapan de León","MX",17.8079,-97.7796,53043],
+  [673634,"Mediaş","RO",46.1667,24.35,53040],
+  [1264839,"Lohārdagā","IN",23.4331,84.6799,53032],
+  [3567669,"Bartolomé Masó","CU",20.1664,-76.9429,53024],
+  [3180445,"Carpi Centro","IT",44.7824,10.8777,53024],
+  [4634662,"Kingsport","US",36.5484,-82.5618,53014],
+  [155101,"Makumbako","TZ",-8.85,34.8333,53003],
+  [2494029,"Hassi Messaoud","DZ",31.6804,6.0729,53000],
+  [3058000,"Prievidza","SK",48.7745,18.6275,52987],
+  [5197796,"Levittown","US",40.1551,-74.8288,52983],
+  [3175537,"Imola","IT",44.3592,11.7132,52981],
+  [736928,"Alexandroupoli","GR",40.85,25.8764,52979],
+  [1273232,"Deolāli","IN",19.944,73.8344,52958],
+  [1256759,"Shāhābād","IN",17.1307,76.9436,52952],
+  [2525628,"Bagheria","IT",38.0789,13.5124,52952],
+  [3430708,"Mercedes","AR",-34.6514,-59.4307,52949],
+  [2815330,"Waiblingen","DE",48.8324,9.3164,52945],
+  [3401548,"Crateús","BR",-5.1783,-40.6775,52933],
+  [3617459,"Nueva Guinea","NI",11.6876,-84.4562,52929],
+  [4167519,"Palm Beach Gardens","US",26.8234,-80.1386,52923],
+  [2988621,"Pantin","FR",48.8944,2.4094,52922],
+  [534701,"Livny","RU",52.4253,37.6069,52915],
+  [3174092,"Manfredonia","IT",41.6307,15.9188,52911],
+  [1150275,"Tha Maka","TH",13.9,99.7667,52907],
+  [1694290,"Patuto","PH",14.1167,120.9667,52883],
+  [2500282,"Djamaa","DZ",33.5339,5.9931,52882],
+  [160833,"Buseresere","TZ",-3.0236,31.8747,52870],
+  [1220253,"Istaravshan","TJ",39.9142,69.0033,52851],
+  [1275406,"Bobbili","IN",18.5737,83.3593,52843],
+  [1274237,"Chikhli","IN",20.3505,76.2577,52841],
+  [3182640,"Aversa","IT",40.9726,14.2075,52830],
+  [2784821,"Verviers","BE",50.5891,5.8624,52824],
+  [1706361,"Limay","PH",14.5619,120.5983,52824],
+  [11044505,"Zacapu","MX",19.8219,-101.7893,52806],
+  [2861934,"Nordhorn","DE",52.4308,7.0683,52803],
+  [964406,"Port Shepstone","ZA",-30.7414,30.455,52793],
+  [325336,"Adilcevaz","TR",38.7991,42.7316,52781],
+  [2981280,"Saint-Brieuc","FR",48.5151,-2.7684,52774],
+  [1266217,"Konch","IN",25.9945,79.1513,52773],
+  [1858498,"Kudamatsu","JP",34,131.8667,52772],
+  [4838652,"Milford","US",41.2223,-73.0565,52759],
+  [134217,"Bandar-e Genāveh","IR",29.5791,50.517,52750],
+  [1732738,"Kota Tinggi","MY",1.7381,103.8999,52743],
+  [300640,"Şırnak","TR",37.5139,42.4543,52743],
+  [5342485,"Delano","US",35.7688,-119.247,52733],
+  [2917788,"Greifswald","DE",54.0931,13.3879,52731],
+  [1264688,"Lunglei","IN",22.8925,92.7422,52728],
+  [5408211,"West Sacramento","US",38.5805,-121.5302,52721],
+  [290247,"Madīnat Ḩamad","BH",26.1153,50.5069,52718],
+  [1785805,"Wulingyuan","CN",29.3494,110.5441,52712],
+  [8581467,"Slobozia","RO",44.5647,27.3633,52710],
+  [1259508,"Pithāpuram","IN",17.1168,82.2528,52709],
+  [468866,"Yartsevo","RU",55.0667,32.6964,52706],
+  [4472370,"Huntersville","US",35.4107,-80.8428,52704],
+  [1278935,"Amalāpuram","IN",16.5787,82.0061,52690],
+  [542327,"Krasnokamsk","RU",58.0796,55.7552,52689],
+  [315468,"Ergani","TR",38.269,39.7545,52684],
+  [5102578,"Perth Amboy","US",40.5068,-74.2654,52682],
+  [3838854,"Río Grande","AR",-53.7877,-67.7095,52681],
+  [2939658,"Cuxhaven","DE",53.8683,8.699,52677],
+  [5395244,"Sherman Oaks","US",34.1511,-118.4492,52677],
+  [1521370,"Ridder","KZ",50.3441,83.5129,52664],
+  [1254054,"Tuni","IN",17.3591,82.5461,52658],
+  [2809889,"Wetzlar","DE",50.5611,8.5049,52656],
+  [1626185,"Sumbawa Besar","ID",-8.4932,117.4202,52654],
+  [140046,"Borūjen","IR",31.9652,51.2873,52654],
+  [1256343,"Sihor","IN",21.7113,71.9618,52603],
+  [702723,"Lubny","UA",50.0163,32.9969,52600],
+  [1272606,"Dīglūr","IN",18.5483,77.577,52596],
+  [69500,"Zabīd","YE",14.1951,43.3152,52590],
+  [4446675,"Southaven","US",34.989,-90.0126,52589],
+  [2654782,"Brentwood","GB",51.6213,0.3056,52586],
+  [7279597,"Barbil","IN",22.1019,85.3775,52586],
+  [2271680,"Amora","PT",38.6296,-9.1156,52577],
+  [4407237,"Saint Peters","US",38.8003,-90.6265,52575],
+  [1624058,"Terbanggi Besar","ID",-4.879,105.2182,52566],
+  [3633341,"Maiquetía","VE",10.5945,-66.9562,52564],
+  [3646169,"Caucagüito","VE",10.4867,-66.738,52556],
+  [4763231,"Harrisonburg","US",38.4496,-78.8689,52538],
+  [906054,"Mongu","ZM",-15.2483,23.1274,52534],
+  [3629710,"Puerto Ayacucho","VE",5.6605,-67.5834,52526],
+  [2269041,"Corroios","PT",38.64,-9.1508,52520],
+  [1275435,"Biswān","IN",27.4958,80.9962,52516],
+  [4946863,"Peabody","US",42.5279,-70.9287,52504],
+  [2502958,"Bouïra","DZ",36.3749,3.902,52500],
+  [2204506,"Lautoka","FJ",-17.6169,177.4505,52500],
+  [1291193,"Thongwa","MM",16.76,96.525,52496],
+  [5383527,"Placentia","US",33.8722,-117.8703,52495],
+  [3696150,"Jaén","PE",-5.7073,-78.8078,52493],
+  [1266073,"Kosi","IN",27.7945,77.4368,52492],
+  [4274356,"Lenexa","US",38.9536,-94.7336,52490],
+  [4685524,"DeSoto","US",32.5899,-96.8569,52486],
+  [3116553,"Mollet del Vallès","ES",41.5403,2.2131,52484],
+  [1822768,"Pursat","KH",12.5388,103.9192,52476],
+  [4458228,"Burlington","US",36.0957,-79.4378,52472],
+  [3663529,"Manacapuru","BR",-3.2997,-60.6206,52459],
+  [3133895,"Tromsø","NO",69.6489,18.9551,52436],
+  [2993002,"Montauban","FR",44.0182,1.3643,52434],
+  [5811456,"South Hill","US",47.1412,-122.2701,52431],
+  [1317397,"Kyaiklat","MM",16.445,95.7237,52425],
+  [3026613,"Charleville-Mézières","FR",49.7685,4.7249,52415],
+  [3190966,"Sesvete","HR",45.8311,16.1164,52411],
+  [3038261,"Albi","FR",43.9298,2.148,52409],
+  [115781,"Shahr-e Bābak","IR",30.1165,55.1186,52409],
+  [3472248,"Andradina","BR",-20.8961,-51.3794,52406],
+  [3470709,"Barra do Garças","BR",-15.89,-52.2567,52398],
+  [2649911,"Esher","GB",51.3697,-0.3669,52392],
+  [3402613,"Cascavel","BR",-4.1331,-38.2419,52357],
+  [4919987,"Elkhart","US",41.682,-85.9767,52348],
+  [5957776,"Fredericton","CA",45.9454,-66.6656,52337],
+  [2950344,"Bergkamen","DE",51.6163,7.6445,52329],
+  [1907125,"Kamifukuoka","JP",35.8727,139.5137,52323],
+  [1257951,"Ropar","IN",30.969,76.527,52313],
+  [5258957,"La Crosse","US",43.8014,-91.2396,52306],
+  [2112571,"Ishioka","JP",36.1833,140.2667,52304],
+  [1527592,"Naryn","KG",41.4287,75.9911,52300],
+  [1273574,"Dandeli","IN",15.2667,74.6167,52295],
+  [4904381,"Oak Park","US",41.885,-87.7845,52287],
+  [2490183,"Mansoûra","DZ",34.8616,-1.3393,52285],
+  [114593,"Shūsh","IR",32.1942,48.2436,52284],
+  [3170206,"Ponticelli","IT",40.8542,14.3304,52284],
+  [2047837,"Songling","CN",40.293,118.2691,52277],
+  [2508228,"Aïn Defla","DZ",36.2641,1.9679,52276],
+  [4386802,"Florissant","US",38.7892,-90.3226,52268],
+  [562319,"Fryazino","RU",55.9606,38.0456,52255],
+  [5809402,"Sammamish","US",47.6418,-122.0804,52253],
+  [1702442,"Maluñgun","PH",6.2792,125.2817,52248],
+  [3996426,"Matamoros","MX",25.527,-103.2285,52233],
+  [6354957,"Hervey Bay","AU",-25.2876,152.7694,52230],
+  [3516225,"Taxco de Alarcón","MX",18.5546,-99.6059,52217],
+  [1485439,"Zarinsk","RU",53.7074,84.9493,52209],
+  [5143056,"Wakefield","US",40.8979,-73.8524,52201],
+  [1117652,"Ban Talat Yai","TH",7.8848,98.4001,52192],
+  [747489,"Erbaa","TR",40.6689,36.5675,52185],
+  [299545,"Tavşanlı","TR",39.5424,29.4987,52182],
+  [4018348,"Arandas","MX",20.7052,-102.3463,52175],
+  [5710756,"Albany","US",44.6365,-123.1059,52175],
+  [733618,"Asenovgrad","BG",42.0167,24.8667,52170],
+  [2511440,"San Bartolomé de Tirajana","ES",27.9248,-15.5733,52161],
+  [3140084,"Sarpsborg","NO",59.2839,11.1096,52159],
+  [1185120,"Sandwīp","BD",22.5141,91.4549,52152],
+  [3209584,"Crosby","GB",53.4778,-3.0333,52140],
+  [4896075,"Hoffman Estates","US",42.0428,-88.0798,52138],
+  [1496476,"Nyagan","RU",62.1406,65.3936,52137],
+  [2639506,"Reigate","GB",51.2374,-0.2058,52123],
+  [1127110,"Sar-e Pul","AF",36.2154,65.9325,52121],
+  [2973385,"Tarbes","FR",43.2333,0.0833,52106],
+  [1260222,"Pārvatipuram","IN",18.7839,83.4257,52085],
+  [4883012,"Albany Park","US",41.9684,-87.7234,52079],
+  [3017910,"Fontenay-sous-Bois","FR",48.8544,2.4827,52075],
+  [2282827,"Oumé","CI",6.3831,-5.4176,52070],
+  [548652,"Kimry","RU",56.8667,37.35,52070],
+  [2790595,"Mouscron","BE",50.745,3.2064,52069],
+  [285728,"Ar Riqqah","KW",29.1458,48.0947,52068],
+  [1821935,"Ta Khmau","KH",11.4833,104.95,52066],
+  [3120514,"Huesca","ES",42.1362,-0.4087,52059],
+  [3077244,"Děčín","CZ",50.7822,14.2148,52058],
+  [3359638,"Walvis Bay","NA",-22.9575,14.5053,52058],
+  [884141,"Norton","ZW",-17.8833,30.7,52054],
+  [3716667,"Thomazeau","HT",18.653,-72.0939,52017],
+  [1865412,"Kariya","JP",34.7514,134.3873,52015],
+  [5352439,"Glendora","US",34.1361,-117.8653,52009],
+  [258620,"Lamía","GR",38.9,22.4333,52006],
+  [1336133,"Sātkania","BD",22.0764,92.0496,52005],
+  [583589,"Levoberezhnyy","RU",55.85,37.4833,52000],
+  [3815324,"Huamantla","MX",19.3145,-97.9252,51996],
+  [3470003,"Biguaçu","BR",-27.4942,-48.6556,51992],
+  [199989,"Busia","KE",0.4601,34.1117,51981],
+  [3470324,"Batatais","BR",-20.8911,-47.585,51976],
+  [2650657,"Dunstable","GB",51.8857,-0.5229,51973],
+  [3451152,"Rio do Sul","BR",-27.2142,-49.6431,51944],
+  [1278432,"Arcot","IN",12.9057,79.319,51943],
+  [711369,"Bryanka","UA",48.511,38.6722,51921],
+  [1640296,"Kepanjen","ID",-8.1303,112.5727,51919],
+  [5133271,"Queens Village","US",40.7268,-73.7415,51919],
+  [790674,"Gjilan","XK",42.4605,21.4699,51912],
+  [3582883,"Usulután","SV",13.35,-88.45,51910],
+  [4184530,"Brookhaven","US",33.8584,-84.3402,51910],
+  [1177446,"Gwadar","PK",25.1216,62.3254,51901],
+  [3019256,"Évry","FR",48.6328,2.4405,51900],
+  [1269027,"Jhālāwār","IN",24.5963,76.165,51884],
+  [3563317,"Corralillo","CU",22.9821,-80.5856,51881],
+  [5124276,"Levittown","US",40.7259,-73.5143,51881],
+  [124193,"Meybod","IR",32.2501,54.0166,51874],
+  [71334,"Sa'dah","YE",16.9402,43.7639,51870],
+  [5380626,"Palm Desert","US",33.7226,-116.377,51869],
+  [2953436,"Bad Homburg vor der Höhe","DE",50.2268,8.6182,51859],
+  [3440034,"Tacuarembó","UY",-31.7169,-55.9811,51854],
+  [2808559,"Willich","DE",51.2637,6.5473,51843],
+  [2512177,"Puertollano","ES",38.6871,-4.1073,51842],
+  [358095,"Diyarb Najm","EG",30.7544,31.4402,51841],
+  [1259841,"Petlād","IN",22.4768,72.8,51819],
+  [4392768,"Joplin","US",37.0842,-94.5133,51818],
+  [1648568,"Blora","ID",-6.9698,111.4186,51811],
+  [3073803,"Karlovy Vary","CZ",50.2327,12.8712,51807],
+  [1253807,"Umred","IN",20.854,79.3247,51794],
+  [741045,"Orhangazi","TR",40.4892,29.3089,51792],
+  [4535961,"Enid","US",36.3956,-97.8784,51776],
+  [2520493,"Calvià","ES",39.5657,2.5062,51774],
+  [3870306,"Talagante","CL",-33.6639,-70.9273,51764],
+  [1276084,"Bhātāpāra","IN",21.735,81.9471,51751],
+  [1268383,"Kāliyāganj","IN",25.6344,88.3267,51748],
+  [1261727,"Nasīrābād","IN",26.3047,74.7336,51747],
+  [6559559,"Horishni Plavni","UA",49.0102,33.6357,51740],
+  [2338401,"Ijebu-Jesa","NG",7.6829,4.8177,51730],
+  [2111884,"Miyako","JP",39.6469,141.9406,51721],
+  [473778,"Vidnoye","RU",55.5524,37.7097,51721],
+  [52867,"Qoryooley","SO",1.7878,44.53,51720],
+  [3654870,"Latacunga","EC",-0.9352,-78.6155,51717],
+  [2477255,"Telerghma","DZ",36.1165,6.3543,51708],
+  [4148533,"Bonita Springs","US",26.3398,-81.7787,51704],
+  [5122331,"Irondequoit","US",43.2134,-77.5797,51692],
+  [2925535,"Frankfurt (Oder)","DE",52.3471,14.5506,51691],
+  [5587698,"Caldwell","US",43.6629,-116.6874,51686],
+  [5037784,"Minnetonka","US",44.9133,-93.5033,51669],
+  [3181995,"Bitonto","IT",41.1101,16.6909,51661],
+  [3453546,"Pirapora","BR",-17.345,-44.9419,51656],
+  [1863713,"Futtsu","JP",35.3108,139.8188,51650],
+  [2642214,"Morecambe","GB",54.0684,-2.8611,51644],
+  [1269819,"Idappadi","IN",11.5862,77.8389,51642],
+  [3703227,"Pedregal","PA",9.0667,-79.4333,51641],
+  [1271083,"Gohadi","IN",26.4328,78.4421,51635],
+  [6690794,"Sagrada Família","ES",41.4041,2.1733,51623],
+  [4168630,"Pinellas Park","US",27.8428,-82.6995,51617],
+  [120931,"Sarpol-e Z̄ahāb","IR",34.4611,45.8626,51611],
+  [2651715,"Cumbernauld","GB",55.9469,-3.9905,51610],
+  [1851273,"Tagawa","JP",33.6333,130.8,51608],
+  [4985153,"Battle Creek","US",42.3173,-85.1782,51589],
+  [1608900,"Maha Sarakham","TH",16.1848,103.3007,51584],
+  [1267187,"Khagaul","IN",25.579,85.0456,51577],
+  [1848096,"Yūki","JP",36.3,139.8833,51574],
+  [359710,"At Tall al Kabīr","EG",30.5432,31.785,51569],
+  [3628952,"Rubio","VE",7.7013,-72.3557,51568],
+  [2639545,"Redhill","GB",51.2405,-0.1704,51559],
+  [687196,"Zhovti Vody","UA",48.3449,33.5037,51559],
+  [1295301,"Tachilek","MM",20.4475,99.8808,51553],
+  [6822217,"Minokamo","JP",35.482,137.0217,51543],
+  [1310362,"Maubin","MM",16.7315,95.6544,51542],
+  [113508,"Takāb","IR",36.4009,47.1133,51541],
+  [3625929,"Tucupita","VE",9.0581,-62.05,51534],
+  [2930596,"Emden","DE",53.3675,7.2078,51526],
+  [1078446,"Amparafaravola","MG",-17.5876,48.2239,51519],
+  [347612,"Talā","EG",30.6798,30.9436,51498],
+  [3129636,"Arganda","ES",40.3008,-3.4372,51489],
+  [1907309,"Miura","JP",35.14,139.6192,51483],
+  [3792383,"Agustín Codazzi","CO",10.0367,-73.2356,51478],
+  [2646557,"Horsham","GB",51.0631,-0.3276,51472],
+  [5288636,"Casa Grande","US",32.8795,-111.7573,51460],
+  [3461519,"Içara","BR",-28.7133,-49.3,51454],
+  [4912013,"South Shore","US",41.762,-87.5778,51451],
+  [5127670,"Mott Haven","US",40.809,-73.9229,51450],
+  [4175179,"The Villages","US",28.9341,-81.9599,51442],
+  [5069297,"Grand Island","US",40.925,-98.342,51440],
+  [1274119,"Chiplūn","IN",17.5334,73.5094,51437],
+  [3405738,"Bezerros","BR",-8.2333,-35.7969,51436],
+  [621754,"Slonim","BY",53.0869,25.3163,51434],
+  [1274664,"Changanācheri","IN",9.442,76.536,51430],
+  [2470088,"Jendouba","TN",36.5011,8.7802,51408],
+  [4694568,"Grapevine","US",32.9343,-97.0781,51404],
+  [3024783,"Clamart","FR",48.803,2.2669,51400],
+  [1699323,"Monkayo","PH",7.8153,126.0544,51393],
+  [2863941,"Neu-Ulm","DE",48.3928,10.0111,51389],
+  [4843811,"Stratford","US",41.1845,-73.1332,51384],
+  [3980777,"Uriangato","MX",20.1409,-101.1825,51382],
+  [1185148,"Patiya","BD",22.2954,91.979,51360],
+  [4998018,"Kentwood","US",42.8695,-85.6447,51357],
+  [3927758,"Tarma","PE",-11.419,-75.6899,51350],
+  [2014927,"Tulun","RU",54.5636,100.5814,51330],
+  [2877088,"Lingen","DE",52.5214,7.3185,51310],
+  [7284890,"Marseille 10","FR",43.2789,5.4152,51299],
+  [3164603,"Venice","IT",45.4371,12.3326,51298],
+  [2807748,"Winterhude","DE",53.6,10,51297],
+  [3438819,"Coronel Oviedo","PY",-25.4444,-56.4403,51286],
+  [2271071,"Barreiro","PT",38.6631,-9.0724,51280],
+  [7160204,"City of Milford (balance)","US",41.2237,-73.0616,51271],
+  [3027487,"Châlons-en-Champagne","FR",48.9539,4.3672,51257],
+  [3515942,"Teoloyucan","MX",19.7442,-99.1811,51255],
+  [5756758,"Tigard","US",45.4312,-122.7715,51253],
+  [4833403,"East Hartford","US",41.7823,-72.612,51252],
+  [1258637,"Rāmnagar","IN",29.3925,79.1283,51244],
+  [2483649,"Remchi","DZ",35.062,-1.4336,51224],
+  [3064288,"Teplice","CZ",50.6404,13.8245,51223],
+  [5016494,"Apple Valley","US",44.7319,-93.2177,51221],
+  [5102720,"Plainfield","US",40.6337,-74.4074,51217],
+  [609123,"Qulsary","KZ",46.9531,54.0198,51216],
+  [2503852,"Birine","DZ",35.635,3.225,51209],
+  [4769125,"Leesburg","US",39.1157,-77.5636,51209],
+  [2929671,"Erftstadt","DE",50.8148,6.7939,51207],
+  [2509509,"Vila-real","ES",39.9383,-0.1009,51205],
+  [3387786,"Serra Talhada","BR",-7.9919,-38.2983,51203],
+  [294117,"Nahariyya","IL",33.0089,35.0981,51200],
+  [2610613,"Vejle","DK",55.7093,9.5357,51177],
+  [355648,"Ibshawāy","EG",29.359,30.6806,51173],
+  [3398450,"Horizonte","BR",-4.1,-38.4833,51171],
+  [2596934,"Séguéla","CI",7.9611,-6.6731,51157],
+  [5102427,"Parsippany","US",40.8579,-74.426,51144],
+  [709248,"Fastiv","UA",50.0767,29.9177,51143],
+  [4151871,"Coral Gables","US",25.7215,-80.2684,51117],
+  [2866110,"Neubrück","DE",51.1343,6.6386,51109],
+  [1645976,"Comal","ID",-6.9053,109.5347,51092],
+  [301010,"Seydişehir","TR",37.4193,31.8453,51089],
+  [555111,"Ivanteyevka","RU",55.9711,37.9208,51085],
+  [182701,"Nyeri","KE",-0.4201,36.9476,51084],
+  [2128867,"Noshiro","JP",40.2084,140.0274,51079],
+  [1256269,"Sillod","IN",20.303,75.6528,51042],
+  [2637126,"Staines","GB",51.4309,-0.5061,51040],
+  [1264647,"Mācherla","IN",16.4764,79.4353,51039],
+  [128008,"Khalkhāl","IR",37.6184,48.5293,51024],
+  [3441702,"Melo","UY",-32.3703,-54.1675,51023],
+  [163808,"Tadmur","SY",34.5624,38.284,51015],
+  [3450964,"Rolândia","BR",-23.3097,-51.3692,51004],
+  [4175117,"The Hammocks","US",25.6715,-80.4445,51003],
+  [3556268,"Jesús Menéndez","CU",21.1614,-76.4792,51002],
+  [729794,"Kardzhali","BG",41.65,25.3667,51000],
+  [1851883,"Shiraoka","JP",36.0184,139.6603,50974],
+  [790295,"Gostivar","MK",41.796,20.9082,50974],
+  [160892,"Bunda","TZ",-2.05,33.8667,50944],
+  [1254069,"Tūndla","IN",27.2146,78.2368,50939],
+  [3533426,"Acayucan","MX",17.9498,-94.9139,50934],
+  [753142,"Żoliborz","PL",52.269,20.9864,50934],
+  [1514387,"Beruniy","UZ",41.6911,60.7525,50929],
+  [11549783,"la Vila de Gràcia","ES",41.4031,2.1569,50928],
+  [1263661,"Mannārakkāt","IN",10.9922,76.4642,50921],
+  [2184397,"Porirua","NZ",-41.1333,174.85,50914],
+  [1261008,"Ottappālam","IN",10.7735,76.3776,50913],
+  [6230919,"Whangarei","NZ",-35.7317,174.3239,50900],
+  [1581364,"Hà Đông","VN",20.9714,105.7788,50877],
+  [5287262,"Buckeye","US",33.3703,-112.5838,50876],
+  [2522713,"Vittoria","IT",36.9515,14.5279,50852],
+  [565348,"Donetsk","RU",48.3396,39.9595,50850],
+  [3700563,"Tocumen","PA",9.0894,-79.3831,50844],
+  [2112232,"Kitaibaraki","JP",36.7867,140.749,50843],
+  [1732711,"Pontian Kechil","MY",1.4866,103.3896,50836],
+  [4155529,"Flagami","US",25.7623,-80.3162,50834],
+  [3436124,"Barranqueras","AR",-27.4813,-58.9392,50823],
+  [3047679,"Nagykanizsa","HU",46.4535,16.991,50823],
+  [2656168,"Batley","GB",53.7029,-1.6337,50807],
+  [5288786,"Catalina Foothills","US",32.2978,-110.9187,50796],
+  [766555,"Legionowo","PL",52.4015,20.9266,50786],
+  [3832260,"Yerba Buena","AR",-26.8167,-65.3167,50783],
+  [2990919,"Narbonne","FR",43.184,3.0014,50776],
+  [1271151,"Goālpāra","IN",26.1767,90.6263,50759],
+  [1268189,"Kānkānhalli","IN",12.5465,77.4201,50752],
+  [1864155,"Fuchūchō","JP",34.5735,133.2351,50746],
+  [3513966,"Zumpango","MX",19.7967,-99.0995,50742],
+  [561667,"Gelendzhik","RU",44.5622,38.0848,50715],
+  [99062,"Al Miqdādīyah","IQ",33.9786,44.9369,50698],
+  [2291580,"Bingerville","CI",5.3558,-3.8854,50694],
+  [627145,"Kobryn","BY",52.2138,24.3564,50691],
+  [1167380,"Rajanpur","PK",29.1041,70.3297,50682],
+  [2978640,"Saint-Malo","FR",48.6472,-2.0088,50676],
+  [207596,"Mweka","CD",-4.8519,21.5595,50675],
+  [699839,"Nova Kakhovka","UA",46.7545,33.3486,50672],
+  [1264551,"Madhupur","IN",24.2742,86.6393,50671],
+  [1641333,"Karanganom","ID",-7.6489,110.625,50670],
+  [2510073,"Utrera","ES",37.1852,-5.7809,50665],
+  [121795,"Oshnavīyeh","IR",37.0397,45.0983,50661],
+  [741609,"Merzifon","TR",40.8733,35.4631,50658],
+  [1607737,"Phetchabun","TH",16.419,101.1606,50656],
+  [5160315,"Lakewood","US",41.482,-81.7982,50656],
+  [1166827,"Rohri","PK",27.692,68.895,50649],
+  [532657,"Lytkarino","RU",55.5827,37.9052,50619],
+  [4796512,"Saint Croix","VI",17.7275,-64.747,50601],
+  [3139075,"Skien","NO",59.2096,9.609,50595],
+  [1854530,"Ōi","JP",35.8509,139.52,50593],
+  [2896817,"Ibbenbüren","DE",52.2796,7.7146,50577],
+  [2634578,"Wellingborough","GB",52.3027,-0.6945,50577],
+  [3395395,"Marechal Deodoro","BR",-9.7103,-35.895,50571],
+  [1264570,"Madhipura","IN",25.9213,86.7927,50570],
+  [548602,"Kingisepp","RU",59.3733,28.6134,50566],
+  [547840,"Kizlyar","RU",43.8471,46.7145,50564],
+  [2855328,"Passau","DE",48.5665,13.4312,50560],
+  [1274571,"Charkhi Dādri","IN",28.5917,76.2716,50558],
+  [2652974,"Clacton-on-Sea","GB",51.7897,1.156,50548],
+  [1640902,"Kawalu","ID",-7.3817,108.2082,50541],
+  [3448300,"São Roque","BR",-23.5292,-47.1353,50540],
+  [1162105,"Zhob","PK",31.3408,69.4493,50537],
+  [41210,"Khorramdarreh","IR",36.2078,49.1953,50528],
+  [1272225,"Dumraon","IN",25.5527,84.1515,50524],
+  [1715542,"Dapitan","PH",8.6561,123.4227,50514],
+  [3666570,"Turbo","CO",8.0926,-76.7282,50508],
+  [743818,"Kavaklı","TR",41.0926,28.3317,50502],
+  [791580,"Deçan","XK",42.5402,20.2879,50500],
+  [7284838,"Budapest XXII. kerület","HU",47.427,19.0402,50499],
+  [216404,"Gbadolite","CD",4.279,21.0028,50493],
+  [3664539,"Coari","BR",-4.085,-63.1414,50490],
+  [3005866,"Laval","FR",48.0732,-0.7634,50489],
+  [3012937,"Hyères","FR",43.1204,6.1286,50487],
+  [1316703,"Kyaukse","MM",21.6056,96.1351,50480],
+  [5264870,"North La Crosse","US",43.8464,-91.2482,50470],
+  [5788516,"Burien","US",47.4704,-122.3468,50467],
+  [757033,"Tarnobrzeg","PL",50.573,21.6794,50459],
+  [749704,"Çarşamba","TR",41.1989,36.7219,50459],
+  [2294938,"Tafo","GH",6.7316,-1.6137,50457],
+  [1153269,"Hua Hin","TH",12.5707,99.9588,50456],
+  [701855,"Marhanets’","UA",47.6354,34.6277,50443],
+  [1264414,"Mahāsamund","IN",21.1074,82.0948,50441],
+  [2881062,"Langenhagen","DE",52.4476,9.7374,50439],
+  [3176391,"Gallarate","IT",45.6602,8.7916,50439],
+  [3675707,"Madrid","CO",4.7325,-74.2642,50437],
+  [3689570,"Arjona","CO",10.2544,-75.3439,50405],
+  [3627968,"San Mateo","VE",10.213,-67.4236,50401],
+  [2834265,"Schwerte","DE",51.4439,7.5675,50399],
+  [1170667,"Matli","PK",25.0429,68.6559,50398],
+  [6089426,"North Bay","CA",46.3168,-79.4663,50396],
+  [2650732,"Dunfermline","GB",56.0716,-3.4589,50380],
+  [1271780,"Gajraula","IN",28.8457,78.2396,50380],
+  [5777544,"Logan","US",41.7355,-111.8344,50371],
+  [1185252,"Khagrachhari","BD",23.1079,91.9701,50364],
+  [1514891,"Konibodom","TJ",40.2941,70.4312,50359],
+  [248382,"Ma'an","JO",30.1962,35.7341,50350],
+  [2830582,"Speyer","DE",49.3208,8.4311,50343],
+  [2223734,"Nkoteng","CM",4.5167,12.0333,50334],
+  [6177869,"Welland","CA",42.9834,-79.2496,50331],
+  [6138374,"Saint-Hyacinthe","CA",45.6308,-72.957,50326],
+  [2287790,"Issia","CI",6.4922,-6.5856,50313],
+  [298935,"Torbalı","TR",38.1519,27.3622,50303],
+  [5805687,"Olympia","US",47.0379,-122.9007,50302],
+  [2294962,"Swedru","GH",5.5371,-0.6998,50293],
+  [4951473,"South Peabody","US",42.5098,-70.9495,50293],
+  [1279394,"Ābu Road","IN",24.4801,72.7819,50262],
+  [3077685,"Chomutov","CZ",50.4605,13.4178,50251],
+  [1261910,"Nanjangūd","IN",12.1176,76.684,50243],
+  [1854026,"Ono","JP",34.85,134.9333,50230],
+  [289199,"Al Khābūrah","OM",23.9714,57.0931,50223],
+  [1257587,"Sālūr","IN",18.5172,83.2055,50206],
+  [567434,"Chusovoy","RU",58.3013,57.8131,50205],
+  [2479161,"Sour el Ghozlane","DZ",36.1477,3.6912,50204],
+  [712160,"Bilhorod-Dnistrovskyi","UA",46.1948,30.3483,50201],
+  [1879613,"Anju","KP",39.6178,125.6647,50196],
+  [5323163,"Aliso Viejo","US",33.565,-117.7271,50195],
+  [2655351,"Bletchley","GB",51.9933,-0.7347,50193],
+  [3491941,"Villa Francisca","DO",18.4828,-69.8891,50185],
+  [4692883,"Galveston","US",29.3014,-94.7977,50180],
+  [2645889,"Keighley","GB",53.8679,-1.9066,50171],
+  [5384690,"Poway","US",32.9628,-117.0359,50157],
+  [5025264,"Edina","US",44.8897,-93.35,50138],
+  [217570,"Buta","CD",2.7858,24.73,50130],
+  [513883,"Otradnyy","RU",53.376,51.3452,50127],
+  [2487620,"Metlili Chaamba","DZ",32.2667,3.6333,50117],
+  [5037790,"Minnetonka Mills","US",44.9411,-93.4419,50117],
+  [1728336,"Balayan","PH",13.9371,120.7322,50115],
+  [3979846,"Zacapú","MX",19.814,-101.7916,50112],
+  [3074199,"Jihlava","CZ",49.3961,15.5912,50100],
+  [3446753,"Taquaritinga","BR",-21.4061,-48.5047,50098],
+  [1275848,"Bhongīr","IN",17.5154,78.8856,50094],
+  [2151716,"Reservoir","AU",-37.7167,145,50092],
+  [1536289,"Snezhinsk","RU",56.085,60.7314,50086],
+  [3053438,"Dunaújváros","HU",46.9648,18.9397,50084],
+  [2039623,"Ŭiju","KP",40.1994,124.5317,50081],
+  [334227,"Inda Silasē","ET",14.1031,38.2829,50078],
+  [2170089,"Craigieburn","AU",-37.6,144.95,50069],
+  [2907851,"Heidenheim an der Brenz","DE",48.678,10.1516,50067],
+  [1850523,"Tateyama","JP",34.9833,139.8667,50064],
+  [1642692,"Jatiroto","ID",-7.8833,111.1167,50059],
+  [1278498,"Aonla","IN",28.274,79.1652,50011],
+  [2312393,"Moanda","CD",-5.9275,12.3715,50000],
+  [7290255,"Berlin Treptow","DE",52.4938,13.4447,50000],
+  [2647261,"Hayes","GB",51.5158,-0.4234,50000],
+  [612287,"Rustavi","GE",41.5627,44.9787,50000],
+  [92430,"Al-Hamdaniya","IQ",36.2709,43.3776,50000],
+  [7303471,"Arashiyama","JP",35.0148,135.6776,50000],
+  [280155,"Ghazieh","LB",33.5175,35.3689,50000],
+  [1302849,"Hpa-An","MM",16.8895,97.6348,50000],
+  [3521305,"Polanco","MX",19.4333,-99.1992,50000],
+  [6697380,"Putrajaya","MY",2.9353,101.6911,50000],
+  [3616035,"Tipitapa","NI",12.1973,-86.0971,50000],
+  [3618908,"Juigalpa","NI",12.1063,-85.3645,50000],
+  [3828262,"Ciudad Sandino","NI",12.1589,-86.3442,50000],
+  [1161983,"Rawala Kot","PK",33.8578,73.7604,50000],
+  [2266249,"Monsanto","PT",39.462,-8.7118,50000],
+  [473127,"Novovladykino","RU",55.85,37.5833,50000],
+  [476368,"Vatutino","RU",55.8844,37.6906,50000],
+  [477377,"Vagonoremont","RU",55.9,37.55,50000],
+  [497271,"Semënovskoye","RU",55.6833,37.55,50000],
+  [518657,"Novokuz’minki","RU",55.7167,37.7833,50000],
+  [518740,"Novokhovrino","RU",55.8667,37.5,50000],
+  [521500,"Nikol’skoye","RU",55.6833,37.4833,50000],
+  [535270,"Likhobory","RU",55.85,37.5667,50000],
+  [543254,"Kozhukhovo","RU",55.7,37.6667,50000],
+  [543344,"Kozeyevo","RU",55.8667,37.6167,50000],
+  [1512086,"Akademgorodok","RU",54.8523,83.106,50000],
+  [6418787,"Metrogorodok","RU",55.8096,37.7874,50000],
+  [8504947,"Untolovo","RU",60.0122,30.209,50000],
+  [172256,"‘Ayn al ‘Arab","SY",36.8909,38.3535,50000],
+  [1154689,"Ko Samui","TH",9.5357,99.9357,50000],
+  [6354984,"Merter Keresteciler","TR",41.0129,28.8859,50000],
+  [6354985,"güngören merter","TR",41.0071,28.888,50000],
+  [6640202,"Merelani","TZ",-3.5618,36.979,50000],
+  [11748973,"Stonecrest","US",33.7085,-84.1348,50000],
+  [601339,"Xo‘jayli Shahri","UZ",42.4088,59.4454,50000]
+]
@@ -11,12 +11,42 @@ export interface CitySuggestion {
   countryCode: string
   latitude?: number
   longitude?: number
+  population?: number
 }
 
 export interface CountrySuggestion {
   code: string
   name: string
   capital?: string // Capital city name for validation
+  latitude?: number // Capital coordinates (offline gazetteer only)
+  longitude?: number
+}
+
+// Geocoder Types
+export type GeocoderId = 'geodb' | 'local'
+
+export interface Geocoder {
+  id: GeocoderId
+  label: string
+  isAvailable(): boolean
+  fetchCitySuggestions(query: string, signal?: AbortSignal): Promise<CitySuggestion[]>
+  fetchCountrySuggestions(query: string, signal?: AbortSignal): Promise<CountrySuggestion[]>
+  fetchExactCityMatch(query: string, signal?: AbortSignal): Promise<CitySuggestion[]>
+  fetchExactCountryMatch(query: string, signal?: AbortSignal): Promise<CountrySuggestion[]>
+  fetchNearestCity(lat: number, lon: number, signal?: AbortSignal): Promise<ReverseGeocodeResult | null>
+}
+
+// Nearest named place to a coordinate
+export interface ReverseGeocodeResult {
+  city: CitySuggestion
+  distanceKm: number
+}
+
+// "Did you mean" candidate for a query that found nothing
+export interface PlaceCorrection {
+  name: string
+  displayName: string
+  type: 'city' | 'country'
 }
 
 // Unified Search Types
@@ -30,11 +60,18 @@ export interface UnifiedSuggestion {
   lat?: number
   lon?: number
   capital?: string // For country suggestions - used for validation
+  population?: number // Cities only; breaks ranking ties in favour of bigger places
   // UI-only, background pre-validation state (optional)
   validated?: boolean
   validating?: boolean
 }
 
+// Queries that name a point directly instead of a place, resolved without the 4-stage search
+export type QueryForm =
+  | { kind: 'coordinates'; lat: number; lon: number }
+  | { kind: 'postal'; code: string; countryCode: string }
+  | { kind: 'airport'; code: string } // IATA (3 letters) or ICAO (4 letters)
+
 // Search State Types
 export type SearchStatus = 'idle' | 'fetching' | 'success' | 'no_results' | 'error'
 
@@ -48,4 +85,197 @@ export interface CitySelectedEvent {
   lat?: number
   lon?: number
   capital?: string
-}
\ No newline at end of file
+}
+
+// Normalized Weather Types (provider-agnostic)
+export interface CurrentWeather {
+  city: string
+  temperature: number // Raw temperature in Celsius
+  condition: string
+  iconCode: number // OpenWeather condition code (other providers are mapped onto it)
+  humidity: number
+  windSpeed: number // Raw wind speed in m/s
+  pressure: number
+}
+
+export interface ForecastItem {
+  day: string
+  date?: string
+  dateKey: string // YYYY-MM-DD in the location's local time
+  iconCode: number
+  high: number // Raw temperature in Celsius
+  low: number // Raw temperature in Celsius
+  precipitation: number // Highest precipitation probability of the day (%)
+  rain: number // Total rain volume in mm
+  snow: number // Total snow volume in mm (liquid equivalent)
+  partial?: boolean // Day only partly covered by the forecast (e.g. the rest of today)
+}
+
+// One 3-hour step of the forecast timeline
+export interface ForecastSlot {
+  dt: number // Unix timestamp in seconds (UTC)
+  dateKey: string // YYYY-MM-DD in the location's local time
+  temperature: number // Raw temperature in Celsius
+  condition: string
+  iconCode: number
+  precipitation: number // Probability of precipitation in percent
+  windSpeed: number // Raw wind speed in m/s
+}
+
+export interface ForecastData {
+  daily: ForecastItem[]
+  hourly: ForecastSlot[]
+  timezone: number // Timezone offset in seconds from UTC
+}
+
+export interface CelestialData {
+  sunrise: number
+  sunset: number
+  moonPhase: number
+  timezone: number // Timezone offset in seconds from UTC
+  lat: number // Location used for moonrise/twilight calculations
+  lon: number
+}
+
+export interface SystemStatus {
+  feelsLike: number // Raw temperature in Celsius
+  uvIndex: number
+  uvPeak: number // Highest UV index expected today
+  uvPeakTime: number // Unix timestamp (seconds) of today's UV peak
+  visibility: number // Meters
+}
+
+// Unit Preference Types
+export type TemperatureUnit = 'celsius' | 'fahrenheit' | 'kelvin'
+export type WindSpeedUnit = 'kmh' | 'ms' | 'mph' | 'knots' | 'beaufort'
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg'
+export type VisibilityUnit = 'km' | 'mi'
+export type PrecipitationUnit = 'mm' | 'in'
+
+// Display unit chosen independently for each measured quantity
+export interface UnitPreferences {
+  temperature: TemperatureUnit
+  windSpeed: WindSpeedUnit
+  pressure: PressureUnit
+  visibility: VisibilityUnit
+  precipitation: PrecipitationUnit
+}
+
+// Weather Provider Types
+export type WeatherProviderId = 'openweather' | 'open-meteo'
+
+export type WeatherLocation =
+  | { kind: 'name'; query: string }
+  | { kind: 'coords'; lat: number; lon: number; displayName?: string }
+
+// A location the user saved for the dashboard
+export interface SavedLocation {
+  id: string // Cache key of the location, unique per saved entry
+  name: string // Display name (e.g. "Tokyo, Japan")
+  location: WeatherLocation
+}
+
+// Which screen is shown: one location, every saved location at once, or 2-4 locations side by side
+export type ViewMode = 'single' | 'dashboard' | 'compare'
+
+// State mirrored in the page URL so views can be shared and navigated with back/forward
+export interface UrlState {
+  location: WeatherLocation | null
+  units: Partial<UnitPreferences> | null // null when the link doesn't specify units
+  view: ViewMode
+}
+
+// One recorded reading of current conditions, kept for the local trend history
+export interface Observation {
+  time: number // Epoch ms when the reading was fetched
+  temperature: number // Raw temperature in Celsius
+  pressure: number // Raw pressure in hPa
+  humidity: number
+  windSpeed: number // Raw wind speed in m/s
+  condition: string
+  iconCode: number
+}
+
+// Pressure change over the last three hours, from recorded observations
+export interface PressureTendency {
+  direction: 'rising' | 'falling' | 'steady'
+  change: number // hPa per 3 hours (negative when falling)
+  rapid: boolean // Changing by 3.6 hPa or more per 3 hours
+}
+
+// Export file formats offered for the shown location
+export type ExportFormat = 'csv' | 'json' | 'ics' | 'text'
+
+// The shown location's conditions and forecast in display units, the input to every export format
+export interface WeatherReport {
+  location: string
+  lat: number | null
+  lon: number | null
+  generatedAt: number // Epoch ms
+  timezone: number // Location timezone offset in seconds from UTC
+  source: string // Provider label
+  units: Record<keyof UnitPreferences, string> // Display symbols, e.g. { temperature: '°C', ... }
+  current: {
+    temperature: number
+    feelsLike: number | null
+    condition: string
+    humidity: number
+    windSpeed: number
+    pressure: number
+    visibility: number | null
+    uvIndex: number | null
+  }
+  daily: Array<{
+    dateKey: string
+    day: string
+    high: number
+    low: number
+    precipitation: number // Chance (%)
+    rain: number
+    snow: number
+    partial: boolean
+  }>
+}
+
+// Alert rules watch one quantity per location; temperature and wind thresholds are stored raw (°C, m/s)
+export type AlertMetric = 'precipitation' | 'high' | 'low' | 'wind' | 'uv'
+export type AlertComparison = 'atLeast' | 'atMost'
+export type AlertDay = 'today' | 'tomorrow' | 'any' // "any" checks every forecast day
+
+export interface AlertRule {
+  id: string
+  locationId: string // Location cache key, shared with saved locations
+  locationName: string
+  metric: AlertMetric
+  comparison: AlertComparison
+  threshold: number
+  day: AlertDay
+  createdAt: number
+}
+
+// A rule matching the data for one local calendar day
+export interface WeatherAlert {
+  id: string // `${ruleId}|${dateKey}`, so acknowledging covers that day only
+  ruleId: string
+  locationId: string
+  locationName: string
+  dateKey: string
+  value: number // Matching raw value (°C, m/s, %, UV index)
+}
+
+export interface WeatherSnapshot {
+  provider: WeatherProviderId
+  current: CurrentWeather
+  celestial: CelestialData
+  system: SystemStatus
+  coord: { lat: number; lon: number }
+}
+
+export interface WeatherProvider {
+  id: WeatherProviderId
+  label: string
+  isAvailable(): boolean
+  fetchCurrent(location: WeatherLocation, signal?: AbortSignal): Promise<WeatherSnapshot>
+  fetchForecast(location: WeatherLocation, signal?: AbortSignal): Promise<ForecastData>
+  validate(suggestion: UnifiedSuggestion, signal?: AbortSignal): Promise<boolean>
+}
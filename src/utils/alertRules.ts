@@ -0,0 +1,119 @@
+/**
+ * Alert rule helpers for the Weather App
+ * Evaluates user-defined thresholds against current conditions and the daily forecast, and phrases them
+ */
+
+import type { AlertMetric, AlertRule, ForecastData, UnitPreferences, WeatherAlert, WeatherSnapshot } from '../types'
+import { convertTemperature, convertWindSpeed, TEMPERATURE_SYMBOLS, WIND_SPEED_SYMBOLS } from './units'
+import { formatDateKey, formatDayLabel } from './formatters'
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; todayOnly: boolean }> = {
+  precipitation: { label: 'PRECIP CHANCE', todayOnly: false },
+  high: { label: 'HIGH', todayOnly: false },
+  low: { label: 'LOW', todayOnly: false },
+  wind: { label: 'WIND', todayOnly: false },
+  uv: { label: 'UV INDEX', todayOnly: true } // Providers only give today's UV
+}
+
+const nextDateKey = (dateKey: string): string => {
+  const date = new Date(`${dateKey}T12:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + 1)
+  return date.toISOString().slice(0, 10)
+}
+
+// The value a rule looks at on one local day, or null when the data doesn't cover it
+const valueForDay = (
+  metric: AlertMetric,
+  dateKey: string,
+  isToday: boolean,
+  snapshot: WeatherSnapshot | null,
+  forecast: ForecastData | null
+): number | null => {
+  const day = forecast?.daily.find(item => item.dateKey === dateKey)
+  switch (metric) {
+    case 'precipitation':
+      return day?.precipitation ?? null
+    case 'high':
+      return day?.high ?? null
+    case 'low':
+      return day?.low ?? null
+    case 'wind': {
+      // Strongest 3-hour wind of the day, plus the current reading for today
+      const speeds = (forecast?.hourly ?? []).filter(slot => slot.dateKey === dateKey).map(slot => slot.windSpeed)
+      if (isToday && snapshot) speeds.push(snapshot.current.windSpeed)
+      return speeds.length ? Math.max(...speeds) : null
+    }
+    case 'uv':
+      return isToday && snapshot ? Math.max(snapshot.system.uvIndex, snapshot.system.uvPeak) : null
+  }
+}
+
+/**
+ * Checks a rule against the latest data for its location
+ * @returns One alert per matching local day (earliest first)
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  snapshot: WeatherSnapshot | null,
+  forecast: ForecastData | null,
+  now = Date.now()
+): WeatherAlert[] {
+  const timezone = forecast?.timezone ?? snapshot?.celestial.timezone ?? 0
+  const todayKey = formatDateKey(Math.floor(now / 1000), timezone)
+  const day = ALERT_METRICS[rule.metric].todayOnly ? 'today' : rule.day
+  const dateKeys = day === 'today'
+    ? [todayKey]
+    : day === 'tomorrow'
+      ? [nextDateKey(todayKey)]
+      : (forecast?.daily.map(item => item.dateKey) ?? [todayKey]).filter(dateKey => dateKey >= todayKey)
+
+  return dateKeys.flatMap((dateKey) => {
+    const value = valueForDay(rule.metric, dateKey, dateKey === todayKey, snapshot, forecast)
+    if (value === null) return []
+    const matches = rule.comparison === 'atLeast' ? value >= rule.threshold : value <= rule.threshold
+    if (!matches) return []
+    return [{
+      id: `${rule.id}|${dateKey}`,
+      ruleId: rule.id,
+      locationId: rule.locationId,
+      locationName: rule.locationName,
+      dateKey,
+      value
+    }]
+  })
+}
+
+/**
+ * A rule's value in the user's units, e.g. "0°C", "50 km/h", "70%"
+ */
+export function formatAlertValue(metric: AlertMetric, raw: number, units: UnitPreferences): string {
+  switch (metric) {
+    case 'high':
+    case 'low':
+      return `${convertTemperature(raw, units.temperature)}${TEMPERATURE_SYMBOLS[units.temperature]}`
+    case 'wind':
+      return `${convertWindSpeed(raw, units.windSpeed)} ${WIND_SPEED_SYMBOLS[units.windSpeed]}`
+    case 'precipitation':
+      return `${Math.round(raw)}%`
+    case 'uv':
+      return String(Math.round(raw * 10) / 10)
+  }
+}
+
+const DAY_LABELS = { today: 'TODAY', tomorrow: 'TOMORROW', any: 'ANY DAY' }
+
+/**
+ * Rule condition, e.g. "LOW ≤ 0°C TOMORROW"
+ */
+export function describeAlertRule(rule: AlertRule, units: UnitPreferences): string {
+  const day = ALERT_METRICS[rule.metric].todayOnly ? 'today' : rule.day
+  const comparison = rule.comparison === 'atLeast' ? '≥' : '≤'
+  return `${ALERT_METRICS[rule.metric].label} ${comparison} ${formatAlertValue(rule.metric, rule.threshold, units)} ${DAY_LABELS[day]}`
+}
+
+/**
+ * What matched, e.g. "LOW -3°C ON TUE (LOW ≤ 0°C TOMORROW)"
+ */
+export function describeAlert(alert: WeatherAlert, rule: AlertRule, units: UnitPreferences): string {
+  return `${ALERT_METRICS[rule.metric].label} ${formatAlertValue(rule.metric, alert.value, units)} ON ${formatDayLabel(alert.dateKey)} (${describeAlertRule(rule, units)})`
+}
@@ -0,0 +1,314 @@
+/**
+ * Astronomy helpers for the Weather App
+ * Provider-independent sun and moon calculations for a given lat/lon
+ * Formulas follow "Astronomy Answers" (aa.quae.nl) as popularized by SunCalc (BSD-2-Clause)
+ * All returned instants are Unix timestamps in seconds (UTC)
+ */
+
+const RAD = Math.PI / 180
+const DAY_MS = 86400000
+const J1970 = 2440588
+const J2000 = 2451545
+const OBLIQUITY = RAD * 23.4397 // Obliquity of the Earth
+const J0 = 0.0009
+
+// Sun altitudes (degrees) that define the named events of a day
+const SUN_ANGLES = {
+  horizon: -0.833, // Upper limb on the horizon, corrected for refraction
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+  blueHourStart: -6,
+  blueHourEnd: -4,
+  goldenHour: 6
+} as const
+
+export interface SunTimes {
+  solarNoon: number
+  nadir: number
+  sunrise: number | null
+  sunset: number | null
+  civilDawn: number | null
+  civilDusk: number | null
+  nauticalDawn: number | null
+  nauticalDusk: number | null
+  astronomicalDawn: number | null
+  astronomicalDusk: number | null
+  goldenHourMorning: [number, number] | null // [sunrise, sun at +6°]
+  goldenHourEvening: [number, number] | null // [sun at +6°, sunset]
+  blueHourMorning: [number, number] | null // [sun at -6°, sun at -4°]
+  blueHourEvening: [number, number] | null // [sun at -4°, sun at -6°]
+  dayLength: number // Seconds the sun is above the horizon (0 or 86400 at the poles)
+  polar: 'day' | 'night' | null // Set when the sun never crosses the horizon
+}
+
+export interface MoonIllumination {
+  fraction: number // Illuminated fraction 0.0-1.0
+  phase: number // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  angle: number // Phase angle in degrees (180 = new, 0 = full)
+}
+
+export interface MoonTimes {
+  rise: number | null
+  set: number | null
+  alwaysUp: boolean
+  alwaysDown: boolean
+}
+
+export interface CelestialDetails {
+  sun: SunTimes
+  moon: MoonIllumination
+  moonTimes: MoonTimes
+}
+
+// --- Time conversions ---
+
+const toJulian = (ms: number): number => ms / DAY_MS - 0.5 + J1970
+const fromJulian = (j: number): number => (j + 0.5 - J1970) * DAY_MS
+const toDays = (ms: number): number => toJulian(ms) - J2000
+
+// --- General positional astronomy ---
+
+const rightAscension = (l: number, b: number): number =>
+  Math.atan2(Math.sin(l) * Math.cos(OBLIQUITY) - Math.tan(b) * Math.sin(OBLIQUITY), Math.cos(l))
+
+const declination = (l: number, b: number): number =>
+  Math.asin(Math.sin(b) * Math.cos(OBLIQUITY) + Math.cos(b) * Math.sin(OBLIQUITY) * Math.sin(l))
+
+const azimuth = (H: number, phi: number, dec: number): number =>
+  Math.atan2(Math.sin(H), Math.cos(H) * Math.sin(phi) - Math.tan(dec) * Math.cos(phi))
+
+const altitude = (H: number, phi: number, dec: number): number =>
+  Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(H))
+
+const siderealTime = (d: number, lw: number): number => RAD * (280.16 + 360.9856235 * d) - lw
+
+const astroRefraction = (h: number): number => {
+  // Works for positive altitudes only; clamp to avoid blowing up near the horizon
+  const alt = Math.max(h, 0)
+  return 0.0002967 / Math.tan(alt + 0.00312536 / (alt + 0.08901179))
+}
+
+// --- Sun ---
+
+const solarMeanAnomaly = (d: number): number => RAD * (357.5291 + 0.98560028 * d)
+
+const eclipticLongitude = (M: number): number => {
+  const C = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M))
+  const P = RAD * 102.9372 // Perihelion of the Earth
+  return M + C + P + Math.PI
+}
+
+const sunCoords = (d: number) => {
+  const L = eclipticLongitude(solarMeanAnomaly(d))
+  return { dec: declination(L, 0), ra: rightAscension(L, 0) }
+}
+
+/**
+ * Sun altitude/azimuth in radians for an instant and location
+ */
+export function getSunPosition(date: Date, lat: number, lon: number): { altitude: number; azimuth: number } {
+  const lw = RAD * -lon
+  const phi = RAD * lat
+  const d = toDays(date.getTime())
+  const c = sunCoords(d)
+  const H = siderealTime(d, lw) - c.ra
+  return { altitude: altitude(H, phi, c.dec), azimuth: azimuth(H, phi, c.dec) }
+}
+
+const julianCycle = (d: number, lw: number): number => Math.round(d - J0 - lw / (2 * Math.PI))
+const approxTransit = (Ht: number, lw: number, n: number): number => J0 + (Ht + lw) / (2 * Math.PI) + n
+const solarTransitJ = (ds: number, M: number, L: number): number =>
+  J2000 + ds + 0.0053 * Math.sin(M) - 0.0069 * Math.sin(2 * L)
+
+const hourAngle = (h: number, phi: number, dec: number): number =>
+  Math.acos((Math.sin(h) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec)))
+
+const toSeconds = (ms: number): number => Math.round(ms / 1000)
+
+/**
+ * Sun event times for the solar day containing the given instant
+ * Pass the location's local noon for the day you want to describe
+ */
+export function getSunTimes(date: Date, lat: number, lon: number): SunTimes {
+  const lw = RAD * -lon
+  const phi = RAD * lat
+  const d = toDays(date.getTime())
+  const n = julianCycle(d, lw)
+  const ds = approxTransit(0, lw, n)
+  const M = solarMeanAnomaly(ds)
+  const L = eclipticLongitude(M)
+  const dec = declination(L, 0)
+  const Jnoon = solarTransitJ(ds, M, L)
+
+  // Returns [rising, setting] for an altitude, or null if the sun never reaches it
+  const crossing = (angle: number): [number, number] | null => {
+    const w = hourAngle(angle * RAD, phi, dec)
+    if (Number.isNaN(w)) return null
+    const a = approxTransit(w, lw, n)
+    const Jset = solarTransitJ(a, M, L)
+    const Jrise = Jnoon - (Jset - Jnoon)
+    return [toSeconds(fromJulian(Jrise)), toSeconds(fromJulian(Jset))]
+  }
+
+  const horizon = crossing(SUN_ANGLES.horizon)
+  const civil = crossing(SUN_ANGLES.civil)
+  const nautical = crossing(SUN_ANGLES.nautical)
+  const astronomical = crossing(SUN_ANGLES.astronomical)
+  const golden = crossing(SUN_ANGLES.goldenHour)
+  const blueStart = crossing(SUN_ANGLES.blueHourStart)
+  const blueEnd = crossing(SUN_ANGLES.blueHourEnd)
+
+  const noonAltitude = altitude(0, phi, dec)
+  const polar = horizon ? null : (noonAltitude > 0 ? 'day' : 'night')
+
+  return {
+    solarNoon: toSeconds(fromJulian(Jnoon)),
+    nadir: toSeconds(fromJulian(Jnoon - 0.5)),
+    sunrise: horizon?.[0] ?? null,
+    sunset: horizon?.[1] ?? null,
+    civilDawn: civil?.[0] ?? null,
+    civilDusk: civil?.[1] ?? null,
+    nauticalDawn: nautical?.[0] ?? null,
+    nauticalDusk: nautical?.[1] ?? null,
+    astronomicalDawn: astronomical?.[0] ?? null,
+    astronomicalDusk: astronomical?.[1] ?? null,
+    goldenHourMorning: horizon && golden ? [horizon[0], golden[0]] : null,
+    goldenHourEvening: horizon && golden ? [golden[1], horizon[1]] : null,
+    blueHourMorning: blueStart && blueEnd ? [blueStart[0], blueEnd[0]] : null,
+    blueHourEvening: blueStart && blueEnd ? [blueEnd[1], blueStart[1]] : null,
+    dayLength: horizon ? horizon[1] - horizon[0] : (polar === 'day' ? 86400 : 0),
+    polar
+  }
+}
+
+// --- Moon ---
+
+const moonCoords = (d: number) => {
+  const L = RAD * (218.316 + 13.176396 * d) // Ecliptic longitude
+  const M = RAD * (134.963 + 13.064993 * d) // Mean anomaly
+  const F = RAD * (93.272 + 13.22935 * d) // Mean distance
+
+  const l = L + RAD * 6.289 * Math.sin(M) // Longitude
+  const b = RAD * 5.128 * Math.sin(F) // Latitude
+  const dt = 385001 - 20905 * Math.cos(M) // Distance to the moon in km
+
+  return { ra: rightAscension(l, b), dec: declination(l, b), dist: dt }
+}
+
+const moonAltitude = (ms: number, lat: number, lon: number): number => {
+  const lw = RAD * -lon
+  const phi = RAD * lat
+  const d = toDays(ms)
+  const c = moonCoords(d)
+  const H = siderealTime(d, lw) - c.ra
+  const h = altitude(H, phi, c.dec)
+  return h + astroRefraction(h) // Altitude correction for refraction
+}
+
+/**
+ * Moon illumination for an instant (location independent)
+ */
+export function getMoonIllumination(date: Date = new Date()): MoonIllumination {
+  const d = toDays(date.getTime())
+  const s = sunCoords(d)
+  const m = moonCoords(d)
+  const sdist = 149598000 // Distance from Earth to Sun in km
+
+  const phi = Math.acos(Math.sin(s.dec) * Math.sin(m.dec) + Math.cos(s.dec) * Math.cos(m.dec) * Math.cos(s.ra - m.ra))
+  const inc = Math.atan2(sdist * Math.sin(phi), m.dist - sdist * Math.cos(phi))
+  const angle = Math.atan2(
+    Math.cos(s.dec) * Math.sin(s.ra - m.ra),
+    Math.sin(s.dec) * Math.cos(m.dec) - Math.cos(s.dec) * Math.sin(m.dec) * Math.cos(s.ra - m.ra)
+  )
+
+  return {
+    fraction: (1 + Math.cos(inc)) / 2,
+    phase: 0.5 + 0.5 * inc * (angle < 0 ? -1 : 1) / Math.PI,
+    angle: inc / RAD
+  }
+}
+
+/**
+ * Moon phase for an instant
+ * @param date - Instant to calculate the phase for (defaults to now)
+ * @returns Phase in the 0.0-1.0 range (0 = new moon, 0.5 = full moon)
+ */
+export function getMoonPhase(date: Date = new Date()): number {
+  return getMoonIllumination(date).phase
+}
+
+/**
+ * Moonrise/moonset within the 24 hours starting at dayStartMs
+ * Scans hour by hour and fits a parabola through each three-point window
+ */
+export function getMoonTimes(dayStartMs: number, lat: number, lon: number): MoonTimes {
+  const hc = 0.133 * RAD
+  const hourMs = (hours: number) => dayStartMs + hours * 3600000
+  let h0 = moonAltitude(dayStartMs, lat, lon) - hc
+  let rise: number | undefined
+  let set: number | undefined
+  let ye = 0
+
+  for (let i = 1; i <= 24; i += 2) {
+    const h1 = moonAltitude(hourMs(i), lat, lon) - hc
+    const h2 = moonAltitude(hourMs(i + 1), lat, lon) - hc
+
+    const a = (h0 + h2) / 2 - h1
+    const b = (h2 - h0) / 2
+    const xe = -b / (2 * a)
+    ye = (a * xe + b) * xe + h1
+    const disc = b * b - 4 * a * h1
+    let roots = 0
+    let x1 = 0
+    let x2 = 0
+
+    if (disc >= 0) {
+      const dx = Math.sqrt(disc) / (Math.abs(a) * 2)
+      x1 = xe - dx
+      x2 = xe + dx
+      if (Math.abs(x1) <= 1) roots++
+      if (Math.abs(x2) <= 1) roots++
+      if (x1 < -1) x1 = x2
+    }
+
+    if (roots === 1) {
+      if (h0 < 0) rise = i + x1
+      else set = i + x1
+    } else if (roots === 2) {
+      rise = i + (ye < 0 ? x2 : x1)
+      set = i + (ye < 0 ? x1 : x2)
+    }
+
+    if (rise !== undefined && set !== undefined) break
+    h0 = h2
+  }
+
+  return {
+    rise: rise !== undefined ? toSeconds(hourMs(rise)) : null,
+    set: set !== undefined ? toSeconds(hourMs(set)) : null,
+    alwaysUp: rise === undefined && set === undefined && ye > 0,
+    alwaysDown: rise === undefined && set === undefined && ye <= 0
+  }
+}
+
+/**
+ * Start of the location's current calendar day, as a UTC timestamp in ms
+ * @param offsetSeconds - Location timezone offset in seconds from UTC
+ */
+export function getLocalDayStart(offsetSeconds: number, nowMs: number = Date.now()): number {
+  const local = new Date(nowMs + offsetSeconds * 1000)
+  return Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - offsetSeconds * 1000
+}
+
+/**
+ * Everything the celestial tracker shows for the location's current day
+ */
+export function getCelestialDetails(lat: number, lon: number, offsetSeconds: number, nowMs: number = Date.now()): CelestialDetails {
+  const dayStart = getLocalDayStart(offsetSeconds, nowMs)
+  return {
+    sun: getSunTimes(new Date(dayStart + DAY_MS / 2), lat, lon),
+    moon: getMoonIllumination(new Date(nowMs)),
+    moonTimes: getMoonTimes(dayStart, lat, lon)
+  }
+}
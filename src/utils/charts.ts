@@ -0,0 +1,87 @@
+/**
+ * Chart helpers for the Weather App
+ * Axis ticks and SVG path building shared by the terminal chart components
+ */
+
+// A plotted point in SVG coordinates; null marks a gap the line shouldn't cross
+export type ChartCoordinate = [number, number] | null
+
+/**
+ * Round tick step (1, 2 or 5 times a power of ten) giving about `count` intervals over a span
+ */
+export function niceStep(span: number, count: number): number {
+  const raw = span / Math.max(1, count)
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)))
+  const normalized = raw / magnitude
+  const factor = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10
+  return factor * magnitude
+}
+
+/**
+ * Evenly stepped tick values enclosing [min, max]; the first and last tick double as the axis domain
+ * A flat series gets one step of headroom either side so it draws mid-chart
+ */
+export function buildTicks(min: number, max: number, count = 4): number[] {
+  const low = Math.min(min, max)
+  const high = Math.max(min, max)
+  const step = niceStep(high - low || count, count)
+  const start = high === low ? Math.floor(low / step) * step - step : Math.floor(low / step) * step
+  const end = high === low ? Math.ceil(high / step) * step + step : Math.ceil(high / step) * step
+  const ticks: number[] = []
+  // Multiply rather than accumulate so steps like 0.2 don't drift
+  for (let index = 0; start + index * step <= end + step / 2; index++) {
+    ticks.push(Number((start + index * step).toFixed(6)))
+  }
+  return ticks
+}
+
+/**
+ * Horizontal position (0-1) of the centre of category `index` out of `count` evenly spaced ones
+ */
+export function categoryPosition(index: number, count: number): number {
+  return (index + 0.5) / Math.max(1, count)
+}
+
+const formatCoordinate = (value: number): string => String(Math.round(value * 10) / 10)
+
+/**
+ * SVG path through the points, lifting the pen at each null
+ */
+export function linePath(points: ChartCoordinate[]): string {
+  let penDown = false
+  return points
+    .map((point) => {
+      if (!point) {
+        penDown = false
+        return ''
+      }
+      const command = penDown ? 'L' : 'M'
+      penDown = true
+      return `${command}${formatCoordinate(point[0])} ${formatCoordinate(point[1])}`
+    })
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * Closed SVG area between an upper and a lower edge, one polygon per run without gaps
+ * @param upper - Upper edge points; must line up index-for-index with `lower`
+ */
+export function bandPath(upper: ChartCoordinate[], lower: ChartCoordinate[]): string {
+  const runs: Array<Array<[[number, number], [number, number]]>> = [[]]
+  upper.forEach((top, index) => {
+    const bottom = lower[index]
+    if (top && bottom) {
+      runs[runs.length - 1].push([top, bottom])
+    } else if (runs[runs.length - 1].length) {
+      runs.push([])
+    }
+  })
+  return runs
+    .filter(run => run.length > 1)
+    .map((run) => {
+      const edge = [...run.map(([top]) => top), ...run.map(([, bottom]) => bottom).reverse()]
+      return `${linePath(edge)} Z`
+    })
+    .join(' ')
+}
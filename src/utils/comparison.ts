@@ -0,0 +1,81 @@
+/**
+ * Comparison helpers for the Weather App
+ * Aligns forecasts from several locations by date and phrases the differences between them
+ */
+
+import type { ForecastItem } from '../types'
+
+export interface ForecastGridRow {
+  dateKey: string
+  cells: Array<ForecastItem | null> // One per location; null when its forecast doesn't cover the date
+  warmest: number | null // Index of the location with the highest high, when there's a clear winner
+  wettest: number | null // Index of the location with the highest precipitation chance, if above 0%
+}
+
+// Index of the single largest value, or null on ties or when fewer than two locations have data
+const uniqueMaxIndex = (values: Array<number | null>): number | null => {
+  const present = values.filter((value): value is number => value !== null)
+  if (present.length < 2) return null
+  const max = Math.max(...present)
+  return present.filter(value => value === max).length === 1 ? values.indexOf(max) : null
+}
+
+/**
+ * Lines daily forecasts up by calendar date (each in its own timezone)
+ * A location already in tomorrow gets an empty cell for the others' today
+ */
+export function buildForecastGrid(forecasts: Array<ForecastItem[] | null>, days = 5): ForecastGridRow[] {
+  const dateKeys = [...new Set(forecasts.flatMap(daily => daily?.map(day => day.dateKey) ?? []))]
+    .sort()
+    .slice(0, days)
+
+  return dateKeys.map((dateKey) => {
+    const cells = forecasts.map(daily => daily?.find(day => day.dateKey === dateKey) ?? null)
+    const wettest = uniqueMaxIndex(cells.map(cell => cell?.precipitation ?? null))
+    return {
+      dateKey,
+      cells,
+      warmest: uniqueMaxIndex(cells.map(cell => cell?.high ?? null)),
+      wettest: wettest !== null && (cells[wettest]?.precipitation ?? 0) > 0 ? wettest : null
+    }
+  })
+}
+
+/**
+ * Day length from today's sunrise and sunset, in seconds
+ */
+export function getDayLength(sunrise: number, sunset: number): number {
+  return Math.max(0, sunset - sunrise)
+}
+
+/**
+ * Formats a duration as hours and minutes ("12 H 05 M")
+ */
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return `${hours} H ${minutes.toString().padStart(2, '0')} M`
+}
+
+/**
+ * Phrases a temperature difference against the baseline ("+7°C WARMER", "3°C COLDER")
+ * @param delta - Difference in display units
+ */
+export function formatTemperatureDifference(delta: number, symbol: string): string {
+  const rounded = Math.round(delta)
+  if (rounded === 0) return 'SAME TEMP'
+  return rounded > 0 ? `+${rounded}${symbol} WARMER` : `${Math.abs(rounded)}${symbol} COLDER`
+}
+
+/**
+ * Phrases a day-length difference against the baseline ("2 H 10 M MORE DAYLIGHT")
+ */
+export function formatDaylightDifference(deltaSeconds: number): string {
+  const totalMinutes = Math.round(Math.abs(deltaSeconds) / 60)
+  if (totalMinutes === 0) return 'SAME DAYLIGHT'
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  const amount = [hours ? `${hours} H` : '', minutes ? `${minutes} M` : ''].filter(Boolean).join(' ')
+  return `${amount} ${deltaSeconds > 0 ? 'MORE' : 'LESS'} DAYLIGHT`
+}
@@ -0,0 +1,30 @@
+/**
+ * Error message helpers for the Weather App
+ * Maps typed API errors to terminal-style messages for the UI
+ */
+
+import {
+  AuthError,
+  MalformedResponseError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError
+} from '../api/httpClient'
+
+/**
+ * User-facing message for a failed weather request
+ * @param target - What was requested, so "not found" reads naturally for names vs coordinates
+ */
+export function getWeatherErrorMessage(error: unknown, target: 'location' | 'coordinates' = 'location'): string {
+  if (error instanceof NotFoundError) {
+    return target === 'coordinates'
+      ? '> NO WEATHER DATA AVAILABLE FOR THESE COORDINATES'
+      : '> NO WEATHER DATA AVAILABLE FOR THIS LOCATION'
+  }
+  if (error instanceof AuthError) return 'SECURITY BREACH // INVALID API CREDENTIALS'
+  if (error instanceof MalformedResponseError) return '> WEATHER DATA INCOMPLETE - TRY A LARGER CITY'
+  if (error instanceof RateLimitError) return 'RATE LIMIT EXCEEDED // TRY AGAIN SHORTLY'
+  if (error instanceof TimeoutError) return 'SIGNAL TIMEOUT // WEATHER SERVICE NOT RESPONDING'
+  // Network failures, 5xx and anything unexpected
+  return 'SYSTEM FAILURE // CONNECTION TERMINATED'
+}
@@ -0,0 +1,103 @@
+/**
+ * Forecast aggregation for the Weather App
+ * Groups 3-hour forecast slots into calendar days in the location's local time
+ */
+
+import type { ForecastItem } from '../types'
+import { formatDateKey, formatDayLabel, formatDateLabel } from './formatters'
+
+// One forecast step as reported by a provider, in raw metric units
+export interface ForecastSample {
+  dt: number // Unix timestamp in seconds (UTC)
+  temperature: number // Celsius
+  tempMin?: number // Celsius; lowest value inside the step, when the provider reports it
+  tempMax?: number // Celsius; highest value inside the step, when the provider reports it
+  pop: number // Probability of precipitation, 0-1
+  rain: number // Rain volume in mm over the step
+  snow: number // Snow volume in mm over the step
+  iconCode: number // OpenWeather condition id
+}
+
+const SLOT_SECONDS = 3 * 3600
+const SLOTS_PER_DAY = 24 * 3600 / SLOT_SECONDS
+
+/**
+ * Rank of a condition code, used to break ties between equally common conditions
+ * Severe weather wins so a stormy afternoon isn't hidden behind a cloudy morning
+ */
+const conditionSeverity = (code: number): number => {
+  if (code >= 200 && code < 300) return 7 // Thunderstorm
+  if (code >= 600 && code < 700) return 6 // Snow
+  if (code >= 500 && code < 600) return 5 // Rain
+  if (code >= 300 && code < 400) return 4 // Drizzle
+  if (code >= 700 && code < 800) return 3 // Atmosphere (fog, haze, dust)
+  if (code > 800) return 1 + (code - 800) / 10 // Clouds, heavier cover ranks higher
+  return 0 // Clear
+}
+
+/**
+ * Most frequent condition code of a day; ties go to the more severe condition
+ */
+export const getDominantCondition = (codes: number[]): number => {
+  const counts = new Map<number, number>()
+  codes.forEach(code => counts.set(code, (counts.get(code) || 0) + 1))
+
+  let dominant = codes[0] ?? 800
+  let best = 0
+  counts.forEach((count, code) => {
+    if (count > best || (count === best && conditionSeverity(code) > conditionSeverity(dominant))) {
+      dominant = code
+      best = count
+    }
+  })
+  return dominant
+}
+
+const roundVolume = (mm: number): number => Math.round(mm * 10) / 10
+
+/**
+ * Aggregates forecast samples into daily summaries for the location's calendar days
+ * A day not fully covered by samples is marked partial. The leading partial day is kept
+ * (it is the rest of today), while a trailing partial day is dropped because its
+ * high/low would only reflect the few hours the forecast happens to reach
+ * @param samples - Forecast steps sorted by time
+ * @param offsetSeconds - Location timezone offset in seconds from UTC
+ * @param maxDays - Maximum number of days to return
+ */
+export const aggregateDailyForecast = (samples: ForecastSample[], offsetSeconds: number, maxDays = 5): ForecastItem[] => {
+  const groups = new Map<string, ForecastSample[]>()
+  samples.forEach(sample => {
+    const key = formatDateKey(sample.dt, offsetSeconds)
+    const group = groups.get(key)
+    if (group) {
+      group.push(sample)
+    } else {
+      groups.set(key, [sample])
+    }
+  })
+
+  const days = Array.from(groups.entries()).map(([dateKey, group]) => {
+    const highs = group.map(s => s.tempMax ?? s.temperature)
+    const lows = group.map(s => s.tempMin ?? s.temperature)
+    return {
+      day: formatDayLabel(dateKey),
+      date: formatDateLabel(dateKey),
+      dateKey,
+      iconCode: getDominantCondition(group.map(s => s.iconCode)),
+      high: Math.max(...highs), // Raw Celsius
+      low: Math.min(...lows), // Raw Celsius
+      precipitation: Math.round(Math.max(...group.map(s => s.pop || 0)) * 100),
+      rain: roundVolume(group.reduce((sum, s) => sum + (s.rain || 0), 0)),
+      snow: roundVolume(group.reduce((sum, s) => sum + (s.snow || 0), 0)),
+      partial: group.length < SLOTS_PER_DAY
+    }
+  })
+
+  // Only the trailing day is truncated by the end of the forecast; earlier gaps are today's elapsed hours
+  const last = days[days.length - 1]
+  if (days.length > 1 && last.partial) {
+    days.pop()
+  }
+
+  return days.slice(0, maxDays)
+}
@@ -26,4 +26,74 @@ export function formatTimezoneOffset(offsetSeconds: number): string {
   }
   
   return `GMT${sign}${Math.abs(offsetHours)}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a UTC timestamp as a wall-clock time at a location
+ * @param timestamp - Unix timestamp in seconds (UTC)
+ * @param offsetSeconds - Location timezone offset in seconds from UTC
+ * @returns Time string (e.g., "06:12 AM")
+ */
+export function formatLocalTime(timestamp: number, offsetSeconds: number): string {
+  // Apply the offset, then render in UTC so the browser doesn't re-apply its own timezone
+  const shifted = new Date((timestamp + offsetSeconds) * 1000)
+  return shifted.toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: 'UTC'
+  })
+}
+
+
+/**
+ * Calendar date of a UTC timestamp at a location, used to group forecast data by day
+ * @param timestamp - Unix timestamp in seconds (UTC)
+ * @param offsetSeconds - Location timezone offset in seconds from UTC
+ * @returns Date key in YYYY-MM-DD format
+ */
+export function formatDateKey(timestamp: number, offsetSeconds: number): string {
+  return new Date((timestamp + offsetSeconds) * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * Formats a UTC timestamp as a 24-hour HH:MM clock at a location
+ * @param timestamp - Unix timestamp in seconds (UTC)
+ * @param offsetSeconds - Location timezone offset in seconds from UTC
+ */
+export function formatLocalHour(timestamp: number, offsetSeconds: number): string {
+  return new Date((timestamp + offsetSeconds) * 1000).toISOString().slice(11, 16)
+}
+
+/**
+ * Short weekday for a local calendar date
+ * @param dateKey - Date in YYYY-MM-DD format (already in the location's timezone)
+ * @returns Weekday abbreviation (e.g., "TUE")
+ */
+export function formatDayLabel(dateKey: string): string {
+  // Render at UTC noon so the browser's timezone can't move the date
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString('en', { weekday: 'short', timeZone: 'UTC' }).toUpperCase()
+}
+
+/**
+ * Readable date for a local calendar date
+ * @param dateKey - Date in YYYY-MM-DD format (already in the location's timezone)
+ * @returns Date string (e.g., "Jun 21, 2024")
+ */
+export function formatDateLabel(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00Z`).toLocaleDateString('en', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+}
+
+/**
+ * How long ago data was fetched, in terminal style
+ * @param ageMs - Milliseconds since the fetch
+ * @returns Age string (e.g., "JUST NOW", "4 MIN AGO", "2 H AGO", "3 D AGO")
+ */
+export function formatAge(ageMs: number): string {
+  const minutes = Math.floor(Math.max(0, ageMs) / 60000)
+  if (minutes < 1) return 'JUST NOW'
+  if (minutes < 60) return `${minutes} MIN AGO`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} H AGO`
+  return `${Math.floor(hours / 24)} D AGO`
+}
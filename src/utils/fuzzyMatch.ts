@@ -0,0 +1,113 @@
+/**
+ * Fuzzy matching helpers for the Weather App
+ * Typo-tolerant scoring of place names: edit distance, phonetic similarity and population
+ */
+
+import { foldText } from './searchText'
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent transpositions
+ * ("Amsterdm" → "Amsterdam" is 1, "Prais" → "Paris" is 1)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  // Three rolling rows: two back (for transpositions), previous, current
+  let twoBack: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], twoBack[j - 2] + 1)
+      }
+    }
+    twoBack = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6'
+}
+
+/**
+ * Soundex code of a word ("Philadelphia" and "Phildelphia" are both P431)
+ * Non-Latin text has no code and returns an empty string
+ */
+export function soundex(word: string): string {
+  const letters = foldText(word).replace(/[^a-z]/g, '')
+  if (!letters) return ''
+
+  let code = letters[0].toUpperCase()
+  let lastDigit = SOUNDEX_CODES[letters[0]] ?? ''
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? ''
+    if (digit && digit !== lastDigit) code += digit
+    // h and w don't separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') lastDigit = digit
+    if (code.length === 4) break
+  }
+  return code.padEnd(4, '0')
+}
+
+/**
+ * Largest edit distance still treated as a typo for a query of this length
+ */
+export function maxTypoDistance(length: number): number {
+  if (length <= 4) return 1
+  if (length <= 8) return 2
+  return 3
+}
+
+/**
+ * Whether a name is a plausible misspelling of the query (or vice versa)
+ * Sounding alike buys one extra edit
+ */
+export function isLikelyTypo(name: string, query: string): boolean {
+  const foldedName = foldText(name)
+  const foldedQuery = foldText(query)
+  const allowed = maxTypoDistance(foldedQuery.length)
+  if (Math.abs(foldedName.length - foldedQuery.length) > allowed + 1) return false
+
+  const distance = editDistance(foldedName, foldedQuery)
+  if (distance <= allowed) return true
+  return distance === allowed + 1 && soundex(foldedName) !== '' && soundex(foldedName) === soundex(foldedQuery)
+}
+
+/**
+ * Relevance of a place name for a query, roughly 0-1.3
+ * Exact and prefix matches score highest, then close spellings; bigger places win ties
+ */
+export function scorePlaceMatch(name: string, query: string, population = 0): number {
+  const foldedName = foldText(name)
+  const foldedQuery = foldText(query)
+  if (!foldedName || !foldedQuery) return 0
+
+  let similarity: number
+  if (foldedName === foldedQuery) {
+    similarity = 1
+  } else if (foldedName.startsWith(foldedQuery)) {
+    // Prefix matches rank by how much of the name was typed
+    similarity = 0.8 + 0.15 * (foldedQuery.length / foldedName.length)
+  } else {
+    const distance = editDistance(foldedName, foldedQuery)
+    similarity = Math.max(0, 1 - distance / Math.max(foldedName.length, foldedQuery.length)) * 0.8
+  }
+
+  const phonetic = soundex(foldedName) !== '' && soundex(foldedName) === soundex(foldedQuery) ? 0.1 : 0
+  // log10 of 10 million is 7, so the largest cities get about +0.2
+  const size = population > 0 ? Math.min(Math.log10(population) / 7, 1) * 0.2 : 0
+
+  return similarity + phonetic + size
+}
@@ -0,0 +1,64 @@
+/**
+ * Geographic helpers for the Weather App
+ * Distances and coordinate labels
+ */
+
+const EARTH_RADIUS_KM = 6371
+
+/**
+ * Great-circle distance between two points (haversine)
+ * @returns Distance in kilometres
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180
+  const dLat = (lat2 - lat1) * rad
+  const dLon = (lon2 - lon1) * rad
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Formats a coordinate pair for display
+ * @returns Label such as "6.2000°S, 106.8166°E"
+ */
+export function formatCoordinates(lat: number, lon: number, digits = 4): string {
+  const latLabel = `${Math.abs(lat).toFixed(digits)}°${lat >= 0 ? 'N' : 'S'}`
+  const lonLabel = `${Math.abs(lon).toFixed(digits)}°${lon >= 0 ? 'E' : 'W'}`
+  return `${latLabel}, ${lonLabel}`
+}
+
+// One coordinate: signed degrees, optional minutes and seconds, optional hemisphere letter
+// Decimal ("40.71", "40.71°N") and DMS ("48°51'N", "48°51'30\"N") forms
+const COORDINATE_PART = /^([+-])?(\d{1,3}(?:\.\d+)?)\s*°?\s*(?:(\d{1,2}(?:\.\d+)?)\s*['′]\s*(?:(\d{1,2}(?:\.\d+)?)\s*(?:["″]|'')\s*)?)?([NSEW])?$/i
+
+// Signed decimal degrees for one matched part, or null if minutes/seconds are out of range
+const toDecimalDegrees = (match: RegExpExecArray, negativeHemisphere: string): number | null => {
+  const [, sign, degrees, minutes = '0', seconds = '0', hemisphere] = match
+  if (parseFloat(minutes) >= 60 || parseFloat(seconds) >= 60) return null
+  const value = parseFloat(degrees) + parseFloat(minutes) / 60 + parseFloat(seconds) / 3600
+  const negative = sign === '-' || hemisphere?.toUpperCase() === negativeHemisphere
+  return negative ? -value : value
+}
+
+/**
+ * Parses a coordinate pair typed by a user
+ * Accepts "40.71,-74.00", "40.71 -74.00", "40.71°N, 74.00°W" and DMS like "48°51'N 2°21'E"
+ * @returns The pair in signed decimal degrees, or null if it isn't a valid coordinate
+ */
+export function parseCoordinates(text: string): { lat: number; lon: number } | null {
+  const parts = text.trim().split(/\s*,\s*|\s+(?=[+-]?\d)/)
+  if (parts.length !== 2) return null
+
+  const values = parts.map(part => COORDINATE_PART.exec(part.trim()))
+  if (!values[0] || !values[1]) return null
+
+  const [latMatch, lonMatch] = values
+  const latHemisphere = latMatch[5]?.toUpperCase()
+  const lonHemisphere = lonMatch[5]?.toUpperCase()
+  if ((latHemisphere && !'NS'.includes(latHemisphere)) || (lonHemisphere && !'EW'.includes(lonHemisphere))) return null
+
+  const lat = toDecimalDegrees(latMatch, 'S')
+  const lon = toDecimalDegrees(lonMatch, 'W')
+  if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null
+  return { lat, lon }
+}
@@ -0,0 +1,136 @@
+/**
+ * Observation history helpers for the Weather App
+ * Retention rules for recorded readings, pressure tendency and trend chart geometry
+ */
+
+import type { Observation, PressureTendency, WeatherSnapshot } from '../types'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// A reading arriving sooner than this after the last one is skipped, so frequent refreshes can't pile up or erase history
+const MIN_SPACING_MS = 10 * MINUTE
+// Full resolution for the last day, one reading per hour after that, nothing past a week
+const FULL_RESOLUTION_MS = DAY
+export const MAX_HISTORY_MS = 7 * DAY
+
+// Tendency is measured over 3 hours (the synoptic convention), accepting a reference reading 2-4 hours old
+const TENDENCY_WINDOW_MS = 3 * HOUR
+const TENDENCY_MIN_MS = 2 * HOUR
+const TENDENCY_MAX_MS = 4 * HOUR
+const STEADY_LIMIT_HPA = 1
+const RAPID_LIMIT_HPA = 3.6
+
+/**
+ * Reading to record from a freshly fetched snapshot
+ */
+export function toObservation(snapshot: WeatherSnapshot, time = Date.now()): Observation {
+  const { temperature, pressure, humidity, windSpeed, condition, iconCode } = snapshot.current
+  return { time, temperature, pressure, humidity, windSpeed, condition, iconCode }
+}
+
+/**
+ * Applies the retention rules: drops readings older than a week and keeps one per hour beyond the last day
+ */
+export function pruneObservations(observations: Observation[], now = Date.now()): Observation[] {
+  const seenHours = new Set<number>()
+  // Walk newest first so each older hour keeps its latest reading
+  return [...observations]
+    .sort((a, b) => b.time - a.time)
+    .filter((observation) => {
+      const age = now - observation.time
+      if (age > MAX_HISTORY_MS) return false
+      if (age <= FULL_RESOLUTION_MS) return true
+      const hour = Math.floor(observation.time / HOUR)
+      if (seenHours.has(hour)) return false
+      seenHours.add(hour)
+      return true
+    })
+    .reverse()
+}
+
+/**
+ * Adds a reading to a location's history (oldest first); skipped if the last one is under 10 minutes old
+ */
+export function appendObservation(observations: Observation[], observation: Observation): Observation[] {
+  const last = observations[observations.length - 1]
+  if (last && observation.time - last.time < MIN_SPACING_MS) return pruneObservations(observations, observation.time)
+  return pruneObservations([...observations, observation], observation.time)
+}
+
+/**
+ * Pressure tendency over the last 3 hours, scaled to a 3-hour change
+ * @returns null until there's a reading 2-4 hours older than the latest one
+ */
+export function getPressureTendency(observations: Observation[]): PressureTendency | null {
+  const latest = observations[observations.length - 1]
+  if (!latest) return null
+
+  let reference: Observation | null = null
+  for (const observation of observations) {
+    const span = latest.time - observation.time
+    if (span < TENDENCY_MIN_MS || span > TENDENCY_MAX_MS) continue
+    if (!reference || Math.abs(span - TENDENCY_WINDOW_MS) < Math.abs(latest.time - reference.time - TENDENCY_WINDOW_MS)) {
+      reference = observation
+    }
+  }
+  if (!reference) return null
+
+  const change = (latest.pressure - reference.pressure) * TENDENCY_WINDOW_MS / (latest.time - reference.time)
+  const direction = Math.abs(change) < STEADY_LIMIT_HPA ? 'steady' : change > 0 ? 'rising' : 'falling'
+  return { direction, change, rapid: Math.abs(change) >= RAPID_LIMIT_HPA }
+}
+
+export interface ChartPoint {
+  time: number // Epoch ms
+  value: number
+}
+
+/**
+ * Splits a time series wherever consecutive points are further apart than maxGapMs,
+ * so the chart doesn't draw a line through hours nobody had the app open
+ */
+export function splitAtGaps<T extends ChartPoint>(points: T[], maxGapMs: number): T[][] {
+  const segments: T[][] = []
+  points.forEach((point, index) => {
+    if (index === 0 || point.time - points[index - 1].time > maxGapMs) segments.push([])
+    segments[segments.length - 1].push(point)
+  })
+  return segments
+}
+
+// Eight block heights, lowest to highest
+const SPARK_BLOCKS = '▁▂▃▄▅▆▇█'
+
+/**
+ * Averages a series into fixed-width time buckets, null where a bucket has no readings
+ */
+export function bucketSeries(points: ChartPoint[], start: number, end: number, buckets: number): Array<number | null> {
+  const size = (end - start) / buckets
+  const sums = new Array<number>(buckets).fill(0)
+  const counts = new Array<number>(buckets).fill(0)
+  points.forEach((point) => {
+    const index = Math.min(buckets - 1, Math.floor((point.time - start) / size))
+    if (index < 0) return
+    sums[index] += point.value
+    counts[index]++
+  })
+  return sums.map((sum, index) => (counts[index] ? sum / counts[index] : null))
+}
+
+/**
+ * One-line block sparkline of a series ("▁▂▄▆█"); gaps render as "·" and a flat series as a middle line
+ */
+export function buildSparkline(values: Array<number | null>): string {
+  const present = values.filter((value): value is number => value !== null)
+  if (!present.length) return ''
+  const min = Math.min(...present)
+  const range = Math.max(...present) - min
+  return values
+    .map((value) => {
+      if (value === null) return '·'
+      return SPARK_BLOCKS[range ? Math.round(((value - min) / range) * (SPARK_BLOCKS.length - 1)) : 3]
+    })
+    .join('')
+}
@@ -0,0 +1,128 @@
+/**
+ * Persistent cache for the Weather App
+ * localStorage-backed key/value store with TTLs, LRU eviction and stale-while-revalidate reads
+ */
+
+export interface CacheHit<T> {
+  value: T
+  storedAt: number // Epoch ms when the value was written
+  stale: boolean // Older than the TTL: usable for display, but should be refreshed
+}
+
+export interface PersistentCache<T> {
+  get: (key: string) => CacheHit<T> | null
+  set: (key: string, value: T, storedAt?: number) => void // storedAt defaults to now; pass it for data fetched earlier
+  delete: (key: string) => void
+  clear: () => void
+}
+
+export interface PersistentCacheOptions {
+  namespace: string // Storage key suffix, e.g. "current" -> weather_cache_current
+  ttlMs: number // Entries younger than this are fresh
+  maxAgeMs?: number // Entries older than this are dropped instead of served stale (defaults to ttlMs)
+  maxEntries: number // Least recently used entries are evicted beyond this size
+}
+
+interface StoredEntry<T> {
+  value: T
+  storedAt: number
+}
+
+// Writes are batched so bursts of reads/writes (e.g. validating a page of suggestions) hit storage once
+const PERSIST_DELAY_MS = 250
+
+/**
+ * Creates a cache persisted under `weather_cache_<namespace>`
+ * Map insertion order doubles as recency order: reads move an entry to the end, eviction takes from the front
+ */
+export const createPersistentCache = <T>(options: PersistentCacheOptions): PersistentCache<T> => {
+  const { namespace, ttlMs, maxEntries } = options
+  const maxAgeMs = Math.max(ttlMs, options.maxAgeMs ?? ttlMs)
+  const storageKey = `weather_cache_${namespace}`
+  let entries: Map<string, StoredEntry<T>> | null = null
+  let persistTimer: ReturnType<typeof setTimeout> | undefined
+
+  const load = (): Map<string, StoredEntry<T>> => {
+    if (entries) return entries
+    entries = new Map()
+    try {
+      const raw = localStorage.getItem(storageKey)
+      const parsed = raw ? JSON.parse(raw) : null
+      if (Array.isArray(parsed)) {
+        parsed.forEach(([key, entry]: [string, StoredEntry<T>]) => {
+          if (typeof key === 'string' && entry && typeof entry.storedAt === 'number') {
+            entries!.set(key, entry)
+          }
+        })
+      }
+    } catch {
+      // Corrupt or inaccessible storage: start empty
+    }
+    return entries
+  }
+
+  const evict = (map: Map<string, StoredEntry<T>>, limit: number) => {
+    while (map.size > limit) {
+      const oldest = map.keys().next().value
+      if (oldest === undefined) break
+      map.delete(oldest)
+    }
+  }
+
+  const persist = () => {
+    persistTimer = undefined
+    const map = load()
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(Array.from(map.entries())))
+    } catch {
+      // Likely over quota: shed the older half and try once more
+      evict(map, Math.floor(map.size / 2))
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(Array.from(map.entries())))
+      } catch {
+        // Still failing: the in-memory copy keeps serving this session
+      }
+    }
+  }
+
+  const schedulePersist = () => {
+    if (persistTimer === undefined) {
+      persistTimer = setTimeout(persist, PERSIST_DELAY_MS)
+    }
+  }
+
+  return {
+    get: (key) => {
+      const map = load()
+      const entry = map.get(key)
+      if (!entry) return null
+
+      const age = Date.now() - entry.storedAt
+      if (age > maxAgeMs) {
+        map.delete(key)
+        schedulePersist()
+        return null
+      }
+
+      // Mark as most recently used
+      map.delete(key)
+      map.set(key, entry)
+      schedulePersist()
+      return { value: entry.value, storedAt: entry.storedAt, stale: age > ttlMs }
+    },
+    set: (key, value, storedAt = Date.now()) => {
+      const map = load()
+      map.delete(key)
+      map.set(key, { value, storedAt })
+      evict(map, maxEntries)
+      schedulePersist()
+    },
+    delete: (key) => {
+      if (load().delete(key)) schedulePersist()
+    },
+    clear: () => {
+      load().clear()
+      schedulePersist()
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Place alias helpers for the Weather App
+ * Common abbreviations and nicknames mapped to the name the geocoders know
+ */
+
+import { foldText } from './searchText'
+
+export interface PlaceAlias {
+  name: string // Name to search for
+  countryCode: string // Preferred match when several places share the name
+}
+
+// Keys are folded (lowercase, no accents)
+const PLACE_ALIASES: Record<string, PlaceAlias> = {
+  'nyc': { name: 'New York City', countryCode: 'US' },
+  'ny': { name: 'New York City', countryCode: 'US' },
+  'la': { name: 'Los Angeles', countryCode: 'US' },
+  'sf': { name: 'San Francisco', countryCode: 'US' },
+  'dc': { name: 'Washington, D.C.', countryCode: 'US' },
+  'philly': { name: 'Philadelphia', countryCode: 'US' },
+  'vegas': { name: 'Las Vegas', countryCode: 'US' },
+  'kl': { name: 'Kuala Lumpur', countryCode: 'MY' },
+  'hk': { name: 'Hong Kong', countryCode: 'HK' },
+  'sg': { name: 'Singapore', countryCode: 'SG' },
+  'hcmc': { name: 'Ho Chi Minh City', countryCode: 'VN' },
+  'saigon': { name: 'Ho Chi Minh City', countryCode: 'VN' },
+  'cdmx': { name: 'Mexico City', countryCode: 'MX' },
+  'st petersburg': { name: 'Saint Petersburg', countryCode: 'RU' },
+  'uk': { name: 'United Kingdom', countryCode: 'GB' },
+  'usa': { name: 'United States', countryCode: 'US' },
+  'uae': { name: 'United Arab Emirates', countryCode: 'AE' }
+}
+
+/**
+ * Looks up an alias for a query ("NYC" → New York City)
+ * @returns The alias target, or null if the query isn't a known alias
+ */
+export function resolvePlaceAlias(query: string): PlaceAlias | null {
+  return PLACE_ALIASES[foldText(query).replace(/\./g, '')] ?? null
+}
@@ -0,0 +1,50 @@
+/**
+ * Query form helpers for the Weather App
+ * Recognizes searches that name a point directly: coordinates, postal codes and airport codes
+ */
+
+import type { QueryForm } from '../types'
+import { parseCoordinates } from './geo'
+import { normalizeSearchQuery, isPlausiblePlaceName } from './searchText'
+
+// Postcode formats distinctive enough to imply their country
+const SELF_IDENTIFYING_POSTCODES: Array<[RegExp, string]> = [
+  [/^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, 'GB'], // "SW1A 1AA", "M1 1AE"
+  [/^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, 'CA'] // "K1A 0B1"
+]
+
+// "<code> <country>" or "<code>, <country>" with an ISO 3166 alpha-2 country ("10001 US", "75001, FR")
+const POSTCODE_WITH_COUNTRY = /^([A-Z0-9][A-Z0-9 -]{1,8}[A-Z0-9]),?\s+([A-Z]{2})$/i
+
+const AIRPORT_CODE = /^[A-Z]{3,4}$/i
+
+const parsePostalCode = (text: string): { code: string; countryCode: string } | null => {
+  for (const [pattern, countryCode] of SELF_IDENTIFYING_POSTCODES) {
+    if (pattern.test(text)) return { code: text.toUpperCase(), countryCode }
+  }
+  const match = POSTCODE_WITH_COUNTRY.exec(text)
+  // Postal codes always carry a digit; "New York US" is a place name
+  if (!match || !/\d/.test(match[1])) return null
+  return { code: match[1].toUpperCase(), countryCode: match[2].toUpperCase() }
+}
+
+/**
+ * Classifies a search query that names a point rather than a place
+ * Airport codes count when typed in capitals ("LIMA" is still tried as a code) or when the
+ * query can't be a place name anyway ("jfk"); lowercase words like "oslo" stay place names
+ * @returns The detected form, or null for ordinary place names
+ */
+export function detectQueryForm(query: string): QueryForm | null {
+  const text = normalizeSearchQuery(query)
+
+  const coordinates = parseCoordinates(text)
+  if (coordinates) return { kind: 'coordinates', ...coordinates }
+
+  const postal = parsePostalCode(text)
+  if (postal) return { kind: 'postal', ...postal }
+
+  if (AIRPORT_CODE.test(text) && (text === text.toUpperCase() || !isPlausiblePlaceName(text))) {
+    return { kind: 'airport', code: text.toUpperCase() }
+  }
+  return null
+}
@@ -0,0 +1,170 @@
+/**
+ * Search text helpers for the Weather App
+ * Unicode-aware query validation, diacritic-insensitive matching and normalized cache keys
+ */
+
+// Letters that carry no combining mark, so NFKD alone won't reduce them to ASCII
+const SPECIAL_FOLDS: Record<string, string> = {
+  'ß': 'ss', 'ẞ': 'ss', 'æ': 'ae', 'Æ': 'ae', 'œ': 'oe', 'Œ': 'oe',
+  'ø': 'o', 'Ø': 'o', 'ł': 'l', 'Ł': 'l', 'đ': 'd', 'Đ': 'd',
+  'ð': 'd', 'Ð': 'd', 'þ': 'th', 'Þ': 'th', 'ı': 'i', 'ħ': 'h', 'Ħ': 'h'
+}
+
+/**
+ * Tidies raw input: canonical Unicode form, typographic apostrophes, single spaces
+ * This is what gets sent to the geocoders
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .normalize('NFC')
+    .replace(/[‘’ʼ`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Accents on Latin, Greek and Cyrillic letters; marks in scripts like Thai or kana voicing are spelling, not accents
+const ACCENTED_LETTER = /([\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}])\p{M}+/gu
+
+/**
+ * Case- and diacritic-insensitive form of a name: "São Paulo" and "sao paulo" fold to the same string
+ */
+export function foldText(text: string): string {
+  return normalizeSearchQuery(text)
+    .replace(/[ßẞæÆœŒøØłŁđĐðÐþÞıħĦ]/g, ch => SPECIAL_FOLDS[ch] ?? ch)
+    .normalize('NFKD')
+    .replace(ACCENTED_LETTER, '$1')
+    .normalize('NFC')
+    .toLowerCase()
+}
+
+/**
+ * Cache key for a search query, shared by every spelling that folds the same way
+ */
+export function getSearchCacheKey(query: string): string {
+  return foldText(query)
+}
+
+/**
+ * Whether a place name matches a query, ignoring case and diacritics
+ */
+export function matchesPlaceName(name: string, query: string, mode: 'prefix' | 'exact'): boolean {
+  const folded = foldText(name)
+  const target = foldText(query)
+  return mode === 'prefix' ? folded.startsWith(target) : folded === target
+}
+
+// Script Detection
+
+type ScriptGroup = 'latin' | 'cyrillic' | 'greek' | 'cjk' | 'other'
+
+const SCRIPT_TESTS: Array<[ScriptGroup, RegExp]> = [
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  // Japanese mixes kanji and kana; Korean names occasionally use hanja
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u]
+]
+
+const scriptOf = (letter: string): ScriptGroup => {
+  return SCRIPT_TESTS.find(([, pattern]) => pattern.test(letter))?.[0] ?? 'other'
+}
+
+/**
+ * Scripts used by the letters of a string
+ */
+const getScripts = (text: string): Set<ScriptGroup> => {
+  return new Set((text.match(/\p{L}/gu) || []).map(scriptOf))
+}
+
+// Language hint per script for geocoders that match names in one language at a time
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/\p{Script=Cyrillic}/u, 'ru'],
+  [/\p{Script=Greek}/u, 'el'],
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, 'ja'],
+  [/\p{Script=Hangul}/u, 'ko'],
+  [/\p{Script=Han}/u, 'zh'],
+  [/\p{Script=Arabic}/u, 'ar'],
+  [/\p{Script=Hebrew}/u, 'he'],
+  [/\p{Script=Thai}/u, 'th'],
+  [/\p{Script=Devanagari}/u, 'hi'],
+  [/\p{Script=Georgian}/u, 'ka'],
+  [/\p{Script=Armenian}/u, 'hy']
+]
+
+/**
+ * Language code suggested by a non-Latin query's script, e.g. "Москва" → "ru"
+ * @returns null for Latin-script queries
+ */
+export function getQueryLanguageHint(query: string): string | null {
+  if (getScripts(query).has('latin')) return null
+  return SCRIPT_LANGUAGES.find(([pattern]) => pattern.test(query))?.[1] ?? null
+}
+
+// Gibberish Detection
+
+// Applied to the folded (ASCII) form of Latin-script queries
+const LATIN_GIBBERISH_PATTERNS = [
+  /^[aeiou]{3,}$/,            // All vowels: "aaa", "eee", "iii"
+  /^[bcdfg-np-tv-z]{4,}$/,    // All consonants: "bbbbb", "zzzzz"
+  /^([a-z])\1+$/,             // Single repeated letter: "aaaa", "bbbb"
+  /^(qwe|asd|zxc|qaz|wsx|qwer|asdf|zxcv)/, // Keyboard patterns
+  /^(test|asdf|hjkl|poiu|mnbv|tyui)/, // Common test strings
+  /^(.)\1(.)\2+$/,            // Alternating patterns: "abab"
+  /^[qwertyuiop]+$/,          // Top keyboard row
+  /^[asdfghjkl]+$/,           // Middle keyboard row
+  /^[zxcvbnm]+$/,             // Bottom keyboard row
+  /^[aeiou]+[bcdfg-np-tv-z]+$/, // Vowels then consonants pattern
+  /^[bcdfg-np-tv-z]+[aeiou]+$/, // Consonants then vowels pattern
+  /^[aeiou]{2,}$/,            // Multiple vowels only
+  /^[bcdfg-np-tv-z]{3,}$/     // Multiple consonants only
+]
+
+// Vowel sets for alphabetic scripts where the vowel/consonant heuristic makes sense
+const VOWELS: Partial<Record<ScriptGroup, RegExp>> = {
+  latin: /[aeiou]/,
+  cyrillic: /[аеёиоуыэюяіїєў]/,
+  greek: /[αεηιουω]/
+}
+
+/**
+ * Script-appropriate check that a query could plausibly be a place name
+ * Letters from any script are allowed; vowel/consonant heuristics only apply to alphabets
+ * that have them (Latin, Cyrillic, Greek), never to CJK, Arabic, Thai and the like
+ */
+export function isPlausiblePlaceName(query: string): boolean {
+  const text = normalizeSearchQuery(query)
+  const length = Array.from(text).length
+
+  // Length bounds (two CJK characters are a full city name, e.g. "東京")
+  if (length < 2 || length > 50) return false
+
+  // Letters (with their combining marks), spaces, hyphens, apostrophes and dots ("St. Louis")
+  if (!/^[\p{L}\p{M}\s\-'.]+$/u.test(text)) return false
+
+  // Must not start or end with spaces/hyphens
+  if (/^[\s.-]|[\s-]$/.test(text)) return false
+
+  // Repeated chars: "aaa", "ппп"
+  if (/(.)\1{2,}/u.test(text.toLowerCase())) return false
+
+  // One place name is written in one script; "Mоsсow" with Cyrillic look-alikes is not
+  const scripts = getScripts(text)
+  if (scripts.size !== 1) return false
+  const [script] = scripts
+
+  const folded = foldText(text)
+  const letters = folded.replace(/[\s\-'.]/g, '')
+
+  if (script === 'latin') {
+    if (LATIN_GIBBERISH_PATTERNS.some(pattern => pattern.test(letters))) return false
+  }
+
+  // Must have both vowels and consonants for realistic words (length > 2)
+  const vowels = VOWELS[script]
+  if (vowels && letters.length > 2) {
+    const vowelCount = (letters.match(new RegExp(vowels.source, 'g')) || []).length
+    if (vowelCount === 0 || vowelCount === letters.length) return false
+  }
+
+  return true
+}
@@ -0,0 +1,157 @@
+/**
+ * Unit conversion helpers for the Weather App
+ * Providers store raw metric values (Celsius, m/s, hPa, meters, mm); these convert them for display
+ */
+
+import type {
+  TemperatureUnit,
+  WindSpeedUnit,
+  PressureUnit,
+  VisibilityUnit,
+  PrecipitationUnit,
+  UnitPreferences
+} from '../types'
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'celsius',
+  windSpeed: 'kmh',
+  pressure: 'hPa',
+  visibility: 'km',
+  precipitation: 'mm'
+}
+
+export const UNIT_PRESETS: Record<'metric' | 'imperial', UnitPreferences> = {
+  metric: DEFAULT_UNITS,
+  imperial: {
+    temperature: 'fahrenheit',
+    windSpeed: 'mph',
+    pressure: 'inHg',
+    visibility: 'mi',
+    precipitation: 'in'
+  }
+}
+
+export const TEMPERATURE_SYMBOLS: Record<TemperatureUnit, string> = {
+  celsius: '°C',
+  fahrenheit: '°F',
+  kelvin: 'K'
+}
+
+export const WIND_SPEED_SYMBOLS: Record<WindSpeedUnit, string> = {
+  kmh: 'km/h',
+  ms: 'm/s',
+  mph: 'mph',
+  knots: 'kn',
+  beaufort: 'Bft'
+}
+
+export const PRESSURE_SYMBOLS: Record<PressureUnit, string> = {
+  hPa: 'hPa',
+  inHg: 'inHg',
+  mmHg: 'mmHg'
+}
+
+export const VISIBILITY_SYMBOLS: Record<VisibilityUnit, string> = {
+  km: 'km',
+  mi: 'mi'
+}
+
+export const PRECIPITATION_SYMBOLS: Record<PrecipitationUnit, string> = {
+  mm: 'mm',
+  in: 'in'
+}
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+// Upper wind speed bound (m/s) of Beaufort forces 0-11; anything faster is force 12
+const BEAUFORT_LIMITS = [0.5, 1.5, 3.3, 5.5, 7.9, 10.7, 13.8, 17.1, 20.7, 24.4, 28.4, 32.6]
+
+/**
+ * Beaufort force (0-12) for a wind speed in m/s
+ */
+export function toBeaufort(mps: number): number {
+  const force = BEAUFORT_LIMITS.findIndex(limit => mps < limit)
+  return force === -1 ? 12 : force
+}
+
+/**
+ * Converts a raw Celsius temperature, rounded to whole degrees
+ */
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+  if (unit === 'fahrenheit') return Math.round((celsius * 9 / 5) + 32)
+  if (unit === 'kelvin') return Math.round(celsius + 273.15)
+  return Math.round(celsius)
+}
+
+/**
+ * Converts a raw m/s wind speed; m/s keeps one decimal, Beaufort returns the force number
+ */
+export function convertWindSpeed(mps: number, unit: WindSpeedUnit): number {
+  switch (unit) {
+    case 'ms': return roundTo(mps, 1)
+    case 'mph': return Math.round(mps * 2.23694)
+    case 'knots': return Math.round(mps * 1.94384)
+    case 'beaufort': return toBeaufort(mps)
+    default: return Math.round(mps * 3.6)
+  }
+}
+
+/**
+ * Converts a temperature typed in a display unit back to raw Celsius (unrounded)
+ */
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  if (unit === 'fahrenheit') return (value - 32) * 5 / 9
+  if (unit === 'kelvin') return value - 273.15
+  return value
+}
+
+/**
+ * Converts a wind speed typed in a display unit back to raw m/s; a Beaufort force maps to its lower bound
+ */
+export function toMetersPerSecond(value: number, unit: WindSpeedUnit): number {
+  switch (unit) {
+    case 'ms': return value
+    case 'mph': return value / 2.23694
+    case 'knots': return value / 1.94384
+    case 'beaufort': {
+      const force = Math.max(0, Math.min(12, Math.round(value)))
+      return force === 0 ? 0 : BEAUFORT_LIMITS[force - 1]
+    }
+    default: return value / 3.6
+  }
+}
+
+/**
+ * Converts a raw hPa pressure; inHg keeps two decimals as altimeter settings do
+ */
+export function convertPressure(hPa: number, unit: PressureUnit): number {
+  if (unit === 'inHg') return roundTo(hPa * 0.0295300, 2)
+  if (unit === 'mmHg') return Math.round(hPa * 0.750062)
+  return Math.round(hPa)
+}
+
+/**
+ * Converts a pressure change in hPa, keeping an extra decimal so small tendencies don't round to zero
+ */
+export function convertPressureChange(hPa: number, unit: PressureUnit): number {
+  if (unit === 'inHg') return roundTo(hPa * 0.0295300, 2)
+  if (unit === 'mmHg') return roundTo(hPa * 0.750062, 1)
+  return roundTo(hPa, 1)
+}
+
+/**
+ * Converts a raw visibility in meters to km or statute miles (one decimal)
+ */
+export function convertVisibility(meters: number, unit: VisibilityUnit): number {
+  return unit === 'mi' ? roundTo(meters / 1609.344, 1) : roundTo(meters / 1000, 1)
+}
+
+/**
+ * Converts a raw precipitation volume in mm; inches keep two decimals
+ */
+export function convertPrecipitation(mm: number, unit: PrecipitationUnit): number {
+  return unit === 'in' ? roundTo(mm / 25.4, 2) : roundTo(mm, 1)
+}
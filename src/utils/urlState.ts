@@ -0,0 +1,92 @@
+/**
+ * URL state helpers for the Weather App
+ * Encodes the shown location, units and view as query parameters for shareable links
+ * e.g. ?place=Oslo%2C+Norway&lat=59.9127&lon=10.7461&units=imperial
+ */
+
+import type { UnitPreferences, UrlState, ViewMode, WeatherLocation } from '../types'
+import { UNIT_PRESETS } from './units'
+
+// Short parameter name for each quantity, used when units don't match a preset
+const UNIT_PARAMS: Array<[string, keyof UnitPreferences]> = [
+  ['temp', 'temperature'],
+  ['wind', 'windSpeed'],
+  ['pressure', 'pressure'],
+  ['vis', 'visibility'],
+  ['precip', 'precipitation']
+]
+
+const VIEW_MODES: ViewMode[] = ['single', 'dashboard', 'compare']
+
+const PRESET_NAMES = Object.keys(UNIT_PRESETS) as Array<keyof typeof UNIT_PRESETS>
+
+// Parses a latitude/longitude parameter, rejecting blanks and out-of-range values
+const parseDegrees = (value: string | null, limit: number): number | null => {
+  if (value === null || !value.trim()) return null
+  const degrees = Number(value)
+  return Number.isFinite(degrees) && Math.abs(degrees) <= limit ? degrees : null
+}
+
+const parseLocation = (params: URLSearchParams): WeatherLocation | null => {
+  const place = params.get('place')?.trim() || ''
+  const lat = parseDegrees(params.get('lat'), 90)
+  const lon = parseDegrees(params.get('lon'), 180)
+  if (lat !== null && lon !== null) return { kind: 'coords', lat, lon, displayName: place }
+  return place ? { kind: 'name', query: place } : null
+}
+
+// Unit values are passed through unchecked; useUnitPreferences drops anything it doesn't know
+const parseUnits = (params: URLSearchParams): Partial<UnitPreferences> | null => {
+  const preset = PRESET_NAMES.find(name => name === params.get('units'))
+  if (preset) return { ...UNIT_PRESETS[preset] }
+  const entries = UNIT_PARAMS
+    .filter(([param]) => params.has(param))
+    .map(([param, key]): [string, string | null] => [key, params.get(param)])
+  return entries.length ? Object.fromEntries(entries) as Partial<UnitPreferences> : null
+}
+
+/**
+ * Reads the app state from a URL query string ("?place=...")
+ */
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search)
+  return {
+    location: parseLocation(params),
+    units: parseUnits(params),
+    view: VIEW_MODES.find(mode => mode === params.get('view')) ?? 'single'
+  }
+}
+
+/**
+ * Builds the URL query string for an app state, including the leading "?" (empty when there's nothing to encode)
+ * Units matching a preset collapse to "units=metric" or "units=imperial"
+ */
+export function buildUrlSearch(state: UrlState): string {
+  const params = new URLSearchParams()
+  const { location, units, view } = state
+
+  if (location?.kind === 'coords') {
+    if (location.displayName) params.set('place', location.displayName)
+    params.set('lat', location.lat.toFixed(4))
+    params.set('lon', location.lon.toFixed(4))
+  } else if (location) {
+    params.set('place', location.query)
+  }
+
+  if (units) {
+    const preset = PRESET_NAMES.find(name => UNIT_PARAMS.every(([, key]) => UNIT_PRESETS[name][key] === units[key]))
+    if (preset) {
+      params.set('units', preset)
+    } else {
+      UNIT_PARAMS.forEach(([param, key]) => {
+        const value = units[key]
+        if (value) params.set(param, value)
+      })
+    }
+  }
+
+  if (view !== 'single') params.set('view', view)
+
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
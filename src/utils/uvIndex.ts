@@ -0,0 +1,64 @@
+/**
+ * UV index helpers for the Weather App
+ * Clear-sky UV model from solar elevation, cloud attenuation, and WHO risk categories
+ */
+
+import { getSunPosition, getSunTimes, getLocalDayStart } from './astronomy'
+
+export type UVCategory = 'LOW' | 'MODERATE' | 'HIGH' | 'VERY HIGH' | 'EXTREME'
+
+export interface UVEstimate {
+  uvIndex: number // Current UV index
+  uvPeak: number // Highest UV index expected today
+  uvPeakTime: number // Unix timestamp (seconds) of the daily peak
+}
+
+/**
+ * Clear-sky UV index for a solar altitude (radians)
+ * Uses UVI ≈ 12.5 · μ^2.42 (Madronich), μ = cosine of the solar zenith angle
+ */
+export function clearSkyUVIndex(sunAltitude: number): number {
+  const mu = Math.sin(sunAltitude)
+  if (mu <= 0) return 0
+  return 12.5 * Math.pow(mu, 2.42)
+}
+
+/**
+ * Scales a clear-sky UV index by cloud cover
+ * Cloud modification factor 1 - 0.75 · C^3.4 (Kasten-Czeplak), C = cover fraction
+ * @param cloudCover - Cloud cover in percent (0-100)
+ */
+export function applyCloudCover(uvIndex: number, cloudCover: number): number {
+  const c = Math.max(0, Math.min(100, cloudCover)) / 100
+  return uvIndex * (1 - 0.75 * Math.pow(c, 3.4))
+}
+
+/**
+ * Estimates current and peak UV for a location from its solar geometry and cloud cover
+ * @param offsetSeconds - Location timezone offset in seconds from UTC
+ * @param cloudCover - Cloud cover in percent (0-100)
+ */
+export function estimateUV(lat: number, lon: number, offsetSeconds: number, cloudCover: number, nowMs: number = Date.now()): UVEstimate {
+  const now = clearSkyUVIndex(getSunPosition(new Date(nowMs), lat, lon).altitude)
+  // The sun is highest at solar noon, so that is when UV peaks on a day with uniform cloud
+  const dayStart = getLocalDayStart(offsetSeconds, nowMs)
+  const { solarNoon } = getSunTimes(new Date(dayStart + 43200000), lat, lon)
+  const peak = clearSkyUVIndex(getSunPosition(new Date(solarNoon * 1000), lat, lon).altitude)
+
+  return {
+    uvIndex: Math.round(applyCloudCover(now, cloudCover)),
+    uvPeak: Math.round(applyCloudCover(peak, cloudCover)),
+    uvPeakTime: solarNoon
+  }
+}
+
+/**
+ * WHO UV index risk category
+ */
+export function getUVCategory(uvIndex: number): UVCategory {
+  if (uvIndex < 3) return 'LOW'
+  if (uvIndex < 6) return 'MODERATE'
+  if (uvIndex < 8) return 'HIGH'
+  if (uvIndex < 11) return 'VERY HIGH'
+  return 'EXTREME'
+}
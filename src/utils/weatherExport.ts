@@ -0,0 +1,232 @@
+/**
+ * Export builders for the Weather App
+ * Turns a WeatherReport (already in the user's units) into CSV, JSON, iCalendar or a plain-text terminal report
+ */
+
+import type { ExportFormat, WeatherReport } from '../types'
+import { formatDateKey, formatLocalHour, formatTimezoneOffset, formatDateLabel } from './formatters'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ics: { label: 'ICS', extension: 'ics', mimeType: 'text/calendar;charset=utf-8' },
+  text: { label: 'TEXT', extension: 'txt', mimeType: 'text/plain;charset=utf-8' }
+}
+
+// "São Paulo, Brazil" -> "sao-paulo-brazil"
+const slugify = (value: string): string =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'location'
+
+// Report time as YYYY-MM-DD HH:MM in the location's clock
+const formatGeneratedAt = (report: WeatherReport): string => {
+  const seconds = Math.floor(report.generatedAt / 1000)
+  return `${formatDateKey(seconds, report.timezone)} ${formatLocalHour(seconds, report.timezone)} ${formatTimezoneOffset(report.timezone)}`
+}
+
+// Rain and snow totals are summed in display units; rounding hides float noise like 0.30000000000000004
+const totalPrecipitation = (day: WeatherReport['daily'][number]): number => Math.round((day.rain + day.snow) * 100) / 100
+
+/**
+ * Download file name, e.g. "weather-oslo-norway-2024-06-21.csv"
+ */
+export function getExportFileName(report: WeatherReport, format: ExportFormat): string {
+  const date = formatDateKey(Math.floor(report.generatedAt / 1000), report.timezone)
+  return `weather-${slugify(report.location)}-${date}.${EXPORT_FORMATS[format].extension}`
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const csvField = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One CSV table: a "current" row followed by one "forecast" row per day, unit symbols in the headers
+ */
+export function buildCsv(report: WeatherReport): string {
+  const { units, current } = report
+  const header = [
+    'type', 'location', 'date', 'condition',
+    `temperature (${units.temperature})`, `feels like (${units.temperature})`,
+    `high (${units.temperature})`, `low (${units.temperature})`, 'precipitation chance (%)',
+    `rain (${units.precipitation})`, `snow (${units.precipitation})`,
+    'humidity (%)', `wind (${units.windSpeed})`, `pressure (${units.pressure})`, `visibility (${units.visibility})`, 'uv index'
+  ]
+  const today = formatDateKey(Math.floor(report.generatedAt / 1000), report.timezone)
+  const rows: Array<Array<string | number | null>> = [
+    [
+      'current', report.location, today, current.condition,
+      current.temperature, current.feelsLike, null, null, null, null, null,
+      current.humidity, current.windSpeed, current.pressure, current.visibility, current.uvIndex
+    ],
+    ...report.daily.map(day => [
+      'forecast', report.location, day.dateKey, null,
+      null, null, day.high, day.low, day.precipitation, day.rain, day.snow,
+      null, null, null, null, null
+    ])
+  ]
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Pretty-printed JSON with ISO timestamps and the unit symbols used for every value
+ */
+export function buildJson(report: WeatherReport): string {
+  return JSON.stringify({
+    location: report.location,
+    coordinates: report.lat !== null && report.lon !== null ? { lat: report.lat, lon: report.lon } : null,
+    generatedAt: new Date(report.generatedAt).toISOString(),
+    timezoneOffsetSeconds: report.timezone,
+    source: report.source,
+    units: report.units,
+    current: report.current,
+    daily: report.daily.map(({ dateKey, high, low, precipitation, rain, snow, partial }) => ({
+      date: dateKey,
+      high,
+      low,
+      precipitationChance: precipitation,
+      rain,
+      snow,
+      partial
+    }))
+  }, null, 2) + '\n'
+}
+
+// iCalendar text values escape backslashes, separators and newlines (RFC 5545 §3.3.11)
+const icsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Content lines are folded at 75 octets, continuing with a leading space (RFC 5545 §3.1)
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let part = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = parts.length ? 74 : 75 // Continuation lines spend one octet on the space
+    if (octets + size > limit) {
+      parts.push(part)
+      part = ''
+      octets = 0
+    }
+    part += char
+    octets += size
+  }
+  parts.push(part)
+  return parts.join('\r\n ')
+}
+
+const icsDate = (dateKey: string): string => dateKey.replace(/-/g, '')
+
+const nextDateKey = (dateKey: string): string => {
+  const date = new Date(`${dateKey}T12:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + 1)
+  return date.toISOString().slice(0, 10)
+}
+
+// Degrees render as a bare "°" (18°/11°); Kelvin keeps its letter
+const shortTemperature = (value: number, symbol: string): string => `${value}${symbol.startsWith('°') ? '°' : symbol}`
+
+/**
+ * Calendar event title for a forecast day, e.g. "☂ 70% · 18°/11°"
+ */
+export function formatDaySummary(day: WeatherReport['daily'][number], temperatureSymbol: string): string {
+  return `☂ ${day.precipitation}% · ${shortTemperature(day.high, temperatureSymbol)}/${shortTemperature(day.low, temperatureSymbol)}`
+}
+
+/**
+ * iCalendar feed with one all-day, non-blocking event per forecast day
+ * UIDs are stable per location and date, so re-importing updates the days instead of duplicating them
+ */
+export function buildIcs(report: WeatherReport): string {
+  const stamp = new Date(report.generatedAt).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const slug = slugify(report.location)
+  const { units } = report
+
+  const events = report.daily.flatMap((day) => {
+    const details = [
+      `${report.location}: high ${day.high}${units.temperature}, low ${day.low}${units.temperature}`,
+      `Chance of precipitation ${day.precipitation}%`,
+      ...(day.rain > 0 ? [`Rain ${day.rain} ${units.precipitation}`] : []),
+      ...(day.snow > 0 ? [`Snow ${day.snow} ${units.precipitation}`] : []),
+      `Forecast from ${report.source}, exported ${formatGeneratedAt(report)}`
+    ]
+    return [
+      'BEGIN:VEVENT',
+      `UID:${day.dateKey}-${slug}@weather-terminal`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(day.dateKey)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDateKey(day.dateKey))}`,
+      `SUMMARY:${icsText(formatDaySummary(day, units.temperature))}`,
+      `DESCRIPTION:${icsText(details.join('\n'))}`,
+      `LOCATION:${icsText(report.location)}`,
+      ...(report.lat !== null && report.lon !== null ? [`GEO:${report.lat.toFixed(4)};${report.lon.toFixed(4)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ]
+  })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Weather Terminal//Forecast Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(`Weather: ${report.location}`)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+// Dotted label rows like the ATMOSPHERIC DATA panel
+const dotted = (label: string, value: string): string => `${label} ${'.'.repeat(Math.max(2, 16 - label.length))} ${value}`
+
+/**
+ * Plain-text terminal report for pasting into briefings
+ */
+export function buildTextReport(report: WeatherReport): string {
+  const { units, current } = report
+  const rule = '-'.repeat(44)
+  const lines = [
+    `WEATHER TERMINAL REPORT // ${report.location.toUpperCase()}`,
+    `GENERATED ${formatGeneratedAt(report)} // SRC: ${report.source}`,
+    rule,
+    `NOW: ${current.temperature}${units.temperature} ${current.condition.toUpperCase()}`,
+    ...(current.feelsLike !== null ? [dotted('FEELS LIKE', `${current.feelsLike}${units.temperature}`)] : []),
+    dotted('HUMIDITY', `${current.humidity}%`),
+    dotted('WIND SPEED', `${current.windSpeed} ${units.windSpeed}`),
+    dotted('PRESSURE', `${current.pressure} ${units.pressure}`),
+    ...(current.visibility !== null ? [dotted('VISIBILITY', `${current.visibility} ${units.visibility}`)] : []),
+    ...(current.uvIndex !== null ? [dotted('UV INDEX', String(current.uvIndex))] : [])
+  ]
+
+  if (report.daily.length) {
+    lines.push(rule, `${report.daily.length}-DAY FORECAST`)
+    report.daily.forEach((day) => {
+      const date = formatDateLabel(day.dateKey).toUpperCase()
+      const temps = `${day.high}/${day.low}${units.temperature}`.padEnd(10)
+      const total = totalPrecipitation(day)
+      const amount = total > 0 ? `  ${total} ${units.precipitation}` : ''
+      lines.push(`${day.day.padEnd(4)}${date.padEnd(14)}${temps}PRECIP ${String(day.precipitation).padStart(3)}%${amount}${day.partial ? '  [REST OF DAY]' : ''}`)
+    })
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Builds the file contents for a format
+ */
+export function buildExport(report: WeatherReport, format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return buildCsv(report)
+    case 'json':
+      return buildJson(report)
+    case 'ics':
+      return buildIcs(report)
+    case 'text':
+      return buildTextReport(report)
+  }
+}
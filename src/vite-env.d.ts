@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_RAPIDAPI_KEY: string
   readonly VITE_OPENWEATHER_API_KEY: string
+  readonly VITE_WEATHER_PROVIDER?: 'openweather' | 'open-meteo'
 }
 
 interface ImportMeta {